@@ -67,9 +67,35 @@ describe('Public Products API', () => {
     expect(p.slug).toBe('test-supplier');
     expect(p.denomAmount).toBeDefined();
     expect(p.productType).toBe('data');
+    // Supplier price plus the default markup
+    expect(p.price).toBe(85);
 
     expect(pagination).toHaveProperty('page');
     expect(pagination).toHaveProperty('perPage');
     expect(pagination).toHaveProperty('total');
   });
+
+  it('prices products from the commission rules for regular users', async () => {
+    const product = await db('operator_products')
+      .where({ product_code: 'TST-DATA-1GB' })
+      .first();
+
+    await db('commissions').insert([
+      { operator_id: product.operator_id, rate_percent: 10, fixed_amount: 0 },
+      // Reseller margins do not show in public listings
+      {
+        operator_product_id: product.id,
+        role: 'reseller',
+        rate_percent: 0,
+        fixed_amount: 1,
+      },
+    ]);
+
+    const res = await request(app).get('/api/v1/products').expect(200);
+    const p = res.body.data.products.find(
+      (x: any) => x.productCode === 'TST-DATA-1GB'
+    );
+
+    expect(p.price).toBe(88);
+  });
 });
@@ -0,0 +1,157 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { generateTestUsers, getCookie } from '../../test-helpers';
+
+describe('Wallet Transfer Integration Tests', () => {
+  let app: Express;
+  let db: any;
+  let sender: any;
+  let recipient: any;
+  let authCookie: any;
+
+  const transfer = (body: Record<string, any>) =>
+    request(app)
+      .post('/api/v1/user/wallet/transfer')
+      .set('Cookie', [`accessToken=${authCookie}`])
+      .send(body);
+
+  const balanceOf = async (userId: string) => {
+    const wallet = await db('wallets').where({ user_id: userId }).first();
+    return wallet ? parseFloat(wallet.balance) : null;
+  };
+
+  beforeAll(async () => {
+    app = (await import('../../../src/app')).default;
+    db = (await import('../../../src/database/connection')).default;
+
+    const testUsers = await generateTestUsers();
+    if (!testUsers) {
+      throw new Error('Test users could not be generated');
+    }
+    sender = testUsers.user;
+    recipient = testUsers.admin;
+
+    await db('users')
+      .where({ id: sender.userId })
+      .update({
+        pin: await (
+          await import('../../../src/utils/security.utils')
+        ).hashPassword('1234'),
+      });
+
+    const response = await request(app).post('/api/v1/auth/login').send({
+      email: sender.email,
+      password: 'Password123!',
+    });
+    authCookie = getCookie(response, 'accessToken');
+  });
+
+  beforeEach(async () => {
+    await db('wallet_transfers').where({ sender_id: sender.userId }).del();
+    await db('wallets')
+      .where({ user_id: sender.userId })
+      .update({ balance: 1000 });
+  });
+
+  afterAll(async () => {
+    await db('wallet_transfers').where({ sender_id: sender.userId }).del();
+    await db('users').whereIn('id', [sender.userId, recipient.userId]).del();
+  });
+
+  it('moves funds to the recipient found by email', async () => {
+    const response = await transfer({
+      recipient: recipient.email,
+      amount: 250,
+      pin: '1234',
+      note: 'Lunch',
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.balanceAfter).toBe(750);
+    expect(response.body.data.recipient.userId).toBe(recipient.userId);
+    expect(await balanceOf(sender.userId)).toBe(750);
+    expect(await balanceOf(recipient.userId)).toBe(250);
+
+    const rows = await db('transactions')
+      .where({ related_id: response.body.data.transfer.id })
+      .orderBy('direction');
+    expect(rows.map((row: any) => [row.user_id, row.direction])).toEqual([
+      [recipient.userId, 'credit'],
+      [sender.userId, 'debit'],
+    ]);
+    expect(rows[0].reference).toBe(rows[1].reference);
+  });
+
+  it('resolves the recipient by phone number', async () => {
+    const response = await transfer({
+      recipient: recipient.phoneNumber,
+      amount: 100,
+      pin: '1234',
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.recipient.userId).toBe(recipient.userId);
+  });
+
+  it('rejects an invalid PIN without moving funds', async () => {
+    const response = await transfer({
+      recipient: recipient.email,
+      amount: 100,
+      pin: '9999',
+    });
+
+    expect(response.status).toBe(401);
+    expect(await balanceOf(sender.userId)).toBe(1000);
+  });
+
+  it('rejects transfers larger than the balance', async () => {
+    const response = await transfer({
+      recipient: recipient.email,
+      amount: 5000,
+      pin: '1234',
+    });
+
+    expect(response.status).toBe(402);
+  });
+
+  it('rejects transfers to yourself', async () => {
+    const response = await transfer({
+      recipient: sender.email,
+      amount: 100,
+      pin: '1234',
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for an unknown recipient', async () => {
+    const response = await transfer({
+      recipient: 'nobody@example.com',
+      amount: 100,
+      pin: '1234',
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('enforces the daily transfer count', async () => {
+    // Limit is 10 per day in the test config
+    await db('wallet_transfers').insert(
+      Array.from({ length: 10 }, (_, i) => ({
+        reference: `TRF-LIMIT-${Date.now()}-${i}`,
+        sender_id: sender.userId,
+        recipient_id: recipient.userId,
+        amount: 50,
+      }))
+    );
+
+    const response = await transfer({
+      recipient: recipient.email,
+      amount: 100,
+      pin: '1234',
+    });
+
+    expect(response.status).toBe(429);
+    expect(await balanceOf(sender.userId)).toBe(1000);
+  });
+});
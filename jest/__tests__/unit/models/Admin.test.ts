@@ -280,6 +280,10 @@ describe('AdminModel', () => {
     });
 
     it('should retry a topup request', async () => {
+      await db('topup_requests')
+        .where({ id: testTopupRequest.id })
+        .update({ status: 'failed' });
+
       const result = await AdminModel.retryTopupRequest(testTopupRequest.id);
       expect(result).toBe(true);
 
@@ -289,6 +293,15 @@ describe('AdminModel', () => {
       expect(updatedRequest.status).toBe('pending');
       expect(updatedRequest.attempt_count).toBe(1);
     });
+
+    it('should not retry a topup request a supplier may still deliver', async () => {
+      await db('topup_requests')
+        .where({ id: testTopupRequest.id })
+        .update({ status: 'pending_confirmation' });
+
+      const result = await AdminModel.retryTopupRequest(testTopupRequest.id);
+      expect(result).toBe(false);
+    });
   });
 
   describe('Settlement Methods', () => {
@@ -0,0 +1,111 @@
+import { Knex } from 'knex';
+import db from '../../../../src/database/connection';
+import { AnalyticsModel } from '../../../../src/models/Analytics';
+import { CashbackModel } from '../../../../src/models/Cashback';
+import { OperatorModel } from '../../../../src/models/Operator';
+import { TopupRequestModel } from '../../../../src/models/TopupRequest';
+import { LedgerService } from '../../../../src/services/ledger.service';
+
+describe('AnalyticsModel', () => {
+  let trx: Knex.Transaction;
+
+  // Ledger entries cannot be deleted, so everything runs in a rolled back
+  // transaction on a day no other test writes to
+  const day = { from: new Date('2001-01-01'), to: new Date('2001-01-02') };
+
+  beforeEach(async () => {
+    trx = await db.transaction();
+  });
+
+  afterEach(async () => {
+    await trx.rollback();
+  });
+
+  const createUser = async (email: string) => {
+    const [user] = await trx('users')
+      .insert({
+        email,
+        full_name: 'Analytics Test User',
+        password: 'hashed_password',
+        role: 'user',
+        is_verified: true,
+      })
+      .returning('*');
+    return user;
+  };
+
+  describe('getTopupTotals', () => {
+    it('reports referral commission apart from the margin of a discounted topup', async () => {
+      const buyer = await createUser('analytics.buyer@example.com');
+      const referrer = await createUser('analytics.referrer@example.com');
+      const operator = await OperatorModel.create(
+        { code: 'ANLT', name: 'Analytics Operator' },
+        trx
+      );
+      // Face value 100, sold for 90 after a 10 offer discount
+      const topup = await TopupRequestModel.create(
+        {
+          userId: buyer.id,
+          recipientPhone: '08030000000',
+          operatorId: operator.id,
+          amount: 100,
+          cost: 90,
+          discountAmount: 10,
+          status: 'success',
+          attemptCount: 1,
+          requestPayload: undefined,
+        },
+        trx
+      );
+      await trx('topup_requests')
+        .where({ id: topup.id })
+        .update({ created_at: new Date('2001-01-01T12:00:00Z') });
+
+      await LedgerService.post(
+        {
+          referenceType: 'topup_request',
+          referenceId: topup.id,
+          description: 'Discounted topup',
+          lines: [
+            { account: { type: 'suspense' }, direction: 'debit', amount: 90 },
+            {
+              account: { type: 'supplier_payable' },
+              direction: 'credit',
+              amount: 85,
+            },
+            { account: { type: 'revenue' }, direction: 'credit', amount: 5 },
+          ],
+        },
+        trx
+      );
+      // The referrer's commission is a revenue debit under the same topup
+      await trx('referral_commissions').insert({
+        referrer_user_id: referrer.id,
+        referee_user_id: buyer.id,
+        level: 1,
+        topup_request_id: topup.id,
+        margin: 5,
+        percentage: 20,
+        amount: 1,
+      });
+      await CashbackModel.addCashback(
+        referrer.id,
+        1,
+        'Level 1 referral commission on a referee topup',
+        topup.id,
+        trx
+      );
+
+      const totals = await AnalyticsModel.getTopupTotals(day, trx);
+
+      expect(totals).toMatchObject({
+        gmv: 90,
+        supplierCost: 85,
+        margin: 5,
+        referralCommission: 1,
+        successCount: 1,
+        failedCount: 0,
+      });
+    });
+  });
+});
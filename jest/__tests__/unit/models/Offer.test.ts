@@ -1,6 +1,8 @@
 // jest/__tests__/unit/models/Offer.test.ts
 import db from '../../../../src/database/connection';
 import { OfferModel } from '../../../../src/models/Offer';
+import { OperatorModel } from '../../../../src/models/Operator';
+import { TopupRequestModel } from '../../../../src/models/TopupRequest';
 import { CreateUserInput, UserModel } from '../../../../src/models/User';
 import { Offer } from '../../../../src/types/offer.type';
 
@@ -88,4 +90,76 @@ describe('OfferModel', () => {
     const dbOffer = await db('offers').where({ id: testOfferId }).first();
     expect(dbOffer.deleted_at).not.toBeNull();
   });
+
+  it('keeps a released redemption but stops counting it toward the per-user limit', async () => {
+    const trx = await db.transaction();
+    try {
+      const [offer] = await trx('offers')
+        .insert({
+          title: 'Released Redemption Offer',
+          status: 'active',
+          discount_type: 'fixed_amount',
+          discount_value: 10,
+          per_user_limit: 1,
+          apply_to: 'all',
+          allow_all: true,
+          eligibility_logic: 'all',
+          starts_at: new Date(Date.now() - 60000),
+          created_by: testUserId,
+        })
+        .returning('*');
+      const operator = await OperatorModel.create(
+        { code: 'RLSE', name: 'Release Operator' },
+        trx
+      );
+      const topup = await TopupRequestModel.create(
+        {
+          userId: testUserId,
+          recipientPhone: '1112223334',
+          operatorId: operator.id,
+          amount: 100,
+          status: 'reversed',
+          attemptCount: 1,
+          requestPayload: undefined,
+        },
+        trx
+      );
+      const redemption = {
+        offer_id: offer.id,
+        user_id: testUserId,
+        operator_product_id: operator.id,
+        price_paid: 90,
+        discount_amount: 10,
+      };
+      await trx('offer_redemptions').insert({
+        ...redemption,
+        topup_request_id: topup.id,
+      });
+
+      const released = await OfferModel.releaseRedemptionsForTopup(
+        topup.id,
+        trx
+      );
+
+      expect(released).toBe(1);
+      const rows = await trx('offer_redemptions').where({
+        topup_request_id: topup.id,
+      });
+      expect(rows).toHaveLength(1);
+      expect(rows[0].released_at).not.toBeNull();
+      const reloaded = await trx('offers').where({ id: offer.id }).first();
+      expect(reloaded.usage_count).toBe(0);
+
+      // Releasing again does not give the usage back twice
+      await expect(
+        OfferModel.releaseRedemptionsForTopup(topup.id, trx)
+      ).resolves.toBe(0);
+      // The per-user limit of 1 no longer counts the released redemption
+      await expect(
+        trx('offer_redemptions').insert(redemption)
+      ).resolves.toBeDefined();
+    } finally {
+      await trx.rollback();
+    }
+  });
 });
@@ -0,0 +1,106 @@
+import { AnalyticsModel } from '../../../../src/models/Analytics';
+import { AnalyticsService } from '../../../../src/services/analytics.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Analytics');
+
+describe('AnalyticsService.resolveRange', () => {
+  it('defaults to the last 30 days by day', () => {
+    const { range, bucket } = AnalyticsService.resolveRange({});
+
+    expect(bucket).toBe('day');
+    expect(range.to.getTime() - range.from.getTime()).toBe(
+      30 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('includes the whole of a date-only end day', () => {
+    const { range } = AnalyticsService.resolveRange({
+      from: '2025-12-01',
+      to: '2025-12-31',
+      bucket: 'week',
+    });
+
+    expect(range.from.toISOString()).toBe('2025-12-01T00:00:00.000Z');
+    expect(range.to.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('rejects reversed ranges and ranges too long for the bucket', () => {
+    expect(() =>
+      AnalyticsService.resolveRange({ from: '2025-12-31', to: '2025-12-01' })
+    ).toThrow('from must be before to');
+    expect(() =>
+      AnalyticsService.resolveRange({
+        from: '2023-01-01',
+        to: '2025-12-31',
+        bucket: 'day',
+      })
+    ).toThrow('A day breakdown covers at most 366 days');
+  });
+});
+
+describe('AnalyticsService reports', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('breaks topups down by operator unless asked otherwise', async () => {
+    (AnalyticsModel.getTopupTotals as jest.Mock).mockResolvedValue({
+      gmv: 1000,
+    });
+    (AnalyticsModel.getTopupSeries as jest.Mock).mockResolvedValue([]);
+    (AnalyticsModel.getTopupBreakdown as jest.Mock).mockResolvedValue([]);
+
+    const result = await AnalyticsService.getTopupAnalytics({
+      bucket: 'month',
+    });
+
+    expect(result.groupBy).toBe('operator');
+    expect(AnalyticsModel.getTopupSeries).toHaveBeenCalledWith(
+      result.range,
+      'month'
+    );
+    expect(AnalyticsModel.getTopupBreakdown).toHaveBeenCalledWith(
+      result.range,
+      'operator'
+    );
+  });
+
+  it('totals funding inflow across buckets', async () => {
+    (AnalyticsModel.getFundingInflow as jest.Mock).mockResolvedValue([
+      { period: new Date(), amount: 1500.1, count: 3, unmatchedAmount: 0 },
+      { period: new Date(), amount: 250.2, count: 1, unmatchedAmount: 250.2 },
+    ]);
+
+    const result = await AnalyticsService.getFundingAnalytics({});
+
+    expect(result.totals).toEqual({
+      amount: 1750.3,
+      count: 4,
+      unmatchedAmount: 250.2,
+    });
+  });
+
+  it('reports cashback liability with movements over the range', async () => {
+    (AnalyticsModel.getCashbackLiability as jest.Mock).mockResolvedValue({
+      outstanding: 5000,
+      holders: 12,
+    });
+    (AnalyticsModel.getCashbackMovements as jest.Mock).mockResolvedValue([
+      { period: new Date(), earned: 300, redeemed: 120, adjusted: 0 },
+      { period: new Date(), earned: 200, redeemed: 80, adjusted: -10 },
+    ]);
+
+    const result = await AnalyticsService.getCashbackAnalytics({});
+
+    expect(result.liability).toEqual({ outstanding: 5000, holders: 12 });
+    expect(result.totals).toEqual({
+      earned: 500,
+      redeemed: 200,
+      adjusted: -10,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { Request } from 'express';
+import { config } from '../../../../src/config/env';
+import { AuditLogModel } from '../../../../src/models/AuditLog';
+import { AuditLogService } from '../../../../src/services/auditLog.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/AuditLog');
+
+const adminRequest = {
+  user: { userId: 'admin-1', email: 'admin@example.com' },
+  ip: '203.0.113.7',
+  method: 'PUT',
+  originalUrl: '/api/v1/admin/suppliers/supplier-1',
+  headers: { 'user-agent': 'curl/8.0' },
+  deviceInfo: { rawUserAgent: 'Mozilla/5.0 (Macintosh)' },
+} as unknown as Request;
+
+describe('AuditLogService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records the actor, where they acted from and what changed', async () => {
+    await AuditLogService.record(adminRequest, {
+      action: 'supplier.update',
+      entityType: 'supplier',
+      entityId: 'supplier-1',
+      before: { name: 'Old', priorityInt: 100, apiKey: 'sk_old' },
+      after: { name: 'Old', priorityInt: 10, apiKey: 'sk_new' },
+    });
+
+    expect(AuditLogModel.create).toHaveBeenCalledWith(
+      {
+        actorId: 'admin-1',
+        actorEmail: 'admin@example.com',
+        action: 'supplier.update',
+        entityType: 'supplier',
+        entityId: 'supplier-1',
+        before: { name: 'Old', priorityInt: 100, apiKey: '[redacted]' },
+        after: { name: 'Old', priorityInt: 10, apiKey: '[redacted]' },
+        changes: {
+          priorityInt: { from: 100, to: 10 },
+          apiKey: '[redacted]',
+        },
+        ipAddress: '203.0.113.7',
+        userAgent: 'Mozilla/5.0 (Macintosh)',
+        requestMethod: 'PUT',
+        requestPath: '/api/v1/admin/suppliers/supplier-1',
+      },
+      undefined
+    );
+  });
+
+  it('does not fail the action when the log cannot be written', async () => {
+    (AuditLogModel.create as jest.Mock).mockRejectedValue(
+      new Error('connection lost')
+    );
+
+    await expect(
+      AuditLogService.record(adminRequest, {
+        action: 'wallet.credit',
+        entityType: 'user',
+        entityId: 'user-1',
+        after: { balance: 500 },
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  it('fails the action when the log cannot be written in its transaction', async () => {
+    const trx = {} as any;
+    (AuditLogModel.create as jest.Mock).mockRejectedValue(
+      new Error('connection lost')
+    );
+
+    await expect(
+      AuditLogService.recorder(adminRequest)(
+        {
+          action: 'wallet.credit',
+          entityType: 'user',
+          entityId: 'user-1',
+          after: { balance: 500 },
+        },
+        trx
+      )
+    ).rejects.toThrow('connection lost');
+    expect(AuditLogModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'wallet.credit' }),
+      trx
+    );
+  });
+
+  it('treats created and deleted records as every field changing', () => {
+    expect(AuditLogService.diff(null, { role: 'admin' })).toEqual({
+      role: { from: null, to: 'admin' },
+    });
+    expect(AuditLogService.diff({ isActive: true }, null)).toEqual({
+      isActive: { from: true, to: null },
+    });
+    expect(AuditLogService.diff(null, null)).toBeNull();
+  });
+
+  it('caps the page size when searching', async () => {
+    (AuditLogModel.findAll as jest.Mock).mockResolvedValue({
+      logs: [],
+      total: 250,
+    });
+
+    const result = await AuditLogService.search({
+      action: 'wallet.*',
+      limit: 1000,
+    });
+
+    expect(AuditLogModel.findAll).toHaveBeenCalledWith({
+      action: 'wallet.*',
+      page: 1,
+      limit: 100,
+    });
+    expect(result.pagination).toEqual({
+      total: 250,
+      page: 1,
+      limit: 100,
+      totalPages: 3,
+    });
+  });
+
+  it('purges only entries past the configured retention', async () => {
+    (AuditLogModel.purgeBefore as jest.Mock).mockResolvedValue(4);
+    const now = Date.now();
+
+    await expect(AuditLogService.purgeExpired()).resolves.toBe(4);
+
+    const cutoff = (AuditLogModel.purgeBefore as jest.Mock).mock.calls[0][0];
+    const retentionMs = config.audit.retentionDays * 24 * 60 * 60 * 1000;
+    expect(Math.abs(now - retentionMs - cutoff.getTime())).toBeLessThan(1000);
+  });
+});
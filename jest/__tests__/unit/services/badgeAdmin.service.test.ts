@@ -0,0 +1,53 @@
+import BadgeAdminService from '../../../../src/services/badgeAdmin.service';
+import { ApiError } from '../../../../src/utils/ApiError';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+jest.mock('../../../../src/models/Badge');
+jest.mock('../../../../src/services/job.service');
+
+describe('BadgeAdminService.validateRule', () => {
+  it('keeps only the known rule fields', () => {
+    expect(
+      BadgeAdminService.validateRule({
+        metric: 'completed_referral_count',
+        comparator: 'gte',
+        threshold: 5,
+        windowDays: 30,
+        note: 'ignored',
+      })
+    ).toEqual({
+      metric: 'completed_referral_count',
+      comparator: 'gte',
+      threshold: 5,
+      windowDays: 30,
+    });
+  });
+
+  it.each([
+    [{ metric: 'logins', comparator: 'gte', threshold: 1 }, 'Unknown metric'],
+    [
+      {
+        metric: 'total_points',
+        comparator: 'gte',
+        threshold: 1,
+        windowDays: 7,
+      },
+      'does not take windowDays',
+    ],
+    [
+      { metric: 'topup_count', comparator: 'lte', tiers: [5, 10] },
+      'Tiered rules need comparator',
+    ],
+    [
+      { metric: 'topup_count', comparator: 'gte', tiers: [10, 5] },
+      'tiers must be ascending',
+    ],
+    [{ metric: 'topup_count', comparator: 'gte' }, 'threshold must be'],
+  ])('rejects %j', (rule, message) => {
+    expect(() => BadgeAdminService.validateRule(rule)).toThrow(ApiError);
+    expect(() => BadgeAdminService.validateRule(rule)).toThrow(message);
+  });
+});
@@ -0,0 +1,98 @@
+import db from '../../../../src/database/connection';
+import { UserBadgeModel } from '../../../../src/models/Badge';
+import { BadgeTriggerSystem } from '../../../../src/services/badgeTrigger.system';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+jest.mock('../../../../src/models/Badge');
+
+const mockedDb = db as unknown as jest.Mock;
+
+// Every table lookup resolves to the row configured for that table
+const mockTables = (rows: Record<string, any>) => {
+  mockedDb.mockImplementation((table: string) => {
+    const query: any = {};
+    ['where', 'whereIn', 'select', 'count', 'sum'].forEach(method => {
+      query[method] = jest.fn(() => query);
+    });
+    query.first = jest.fn(async () => rows[table]);
+    return query;
+  });
+};
+
+const badge = (id: string, rule: any) => ({
+  id,
+  name: id,
+  isActive: true,
+  rule,
+});
+
+describe('BadgeTriggerSystem.evaluateUser', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTables({ topup_requests: { count: '12', amount: '3400.00' } });
+    (UserBadgeModel.findHeld as jest.Mock).mockResolvedValue(new Map());
+  });
+
+  it('awards badges whose threshold is met', async () => {
+    const awarded = await BadgeTriggerSystem.evaluateUser('user-1', [
+      badge('ten-topups', {
+        metric: 'topup_count',
+        comparator: 'gte',
+        threshold: 10,
+      }),
+      badge('big-spender', {
+        metric: 'topup_amount',
+        comparator: 'gte',
+        threshold: 5000,
+      }),
+    ] as any);
+
+    expect(awarded).toEqual(['ten-topups']);
+    expect(UserBadgeModel.award).toHaveBeenCalledWith('user-1', 'ten-topups', {
+      value: 12,
+    });
+  });
+
+  it('moves holders of a tiered badge up to the tier reached', async () => {
+    (UserBadgeModel.findHeld as jest.Mock).mockResolvedValue(
+      new Map([['topups', 1]])
+    );
+
+    const awarded = await BadgeTriggerSystem.evaluateUser('user-1', [
+      badge('topups', {
+        metric: 'topup_count',
+        comparator: 'gte',
+        tiers: [5, 10, 50],
+      }),
+    ] as any);
+
+    expect(awarded).toEqual(['topups']);
+    expect(UserBadgeModel.upgradeTier).toHaveBeenCalledWith(
+      'user-1',
+      'topups',
+      2,
+      { tier: 2, threshold: 10, value: 12 }
+    );
+    expect(UserBadgeModel.award).not.toHaveBeenCalled();
+  });
+
+  it('skips untiered badges the user already holds', async () => {
+    (UserBadgeModel.findHeld as jest.Mock).mockResolvedValue(
+      new Map([['ten-topups', null]])
+    );
+
+    const awarded = await BadgeTriggerSystem.evaluateUser('user-1', [
+      badge('ten-topups', {
+        metric: 'topup_count',
+        comparator: 'gte',
+        threshold: 10,
+      }),
+    ] as any);
+
+    expect(awarded).toEqual([]);
+    expect(mockedDb).not.toHaveBeenCalled();
+  });
+});
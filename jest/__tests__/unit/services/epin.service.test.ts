@@ -0,0 +1,248 @@
+import db from '../../../../src/database/connection';
+import { EpinModel } from '../../../../src/models/Epin';
+import { TransactionModel } from '../../../../src/models/Transaction';
+import { LedgerService } from '../../../../src/services/ledger.service';
+import { EpinService } from '../../../../src/services/epin.service';
+import { PricingService } from '../../../../src/services/pricing.service';
+import { ApiError } from '../../../../src/utils/ApiError';
+import { decryptValue, encryptValue } from '../../../../src/utils/crypto';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Epin');
+jest.mock('../../../../src/models/Transaction');
+jest.mock('../../../../src/models/User');
+jest.mock('../../../../src/services/notification.service');
+jest.mock('../../../../src/services/pricing.service');
+jest.mock('../../../../src/services/user.service');
+jest.mock('../../../../src/services/ledger.service', () => ({
+  LedgerService: {
+    wallet: (userId: string) => ({ type: 'user_wallet', userId }),
+    accountCode: (ref: any) => `${ref.type}:${ref.userId}`,
+    post: jest.fn(),
+  },
+}));
+
+const SECRET = 'test-epin-encryption-key';
+const mockedDb = db as unknown as jest.Mock & { transaction: jest.Mock };
+
+// Every table lookup resolves to the row configured for that table
+const mockTables = (rows: Record<string, any>) => {
+  const connection: any = jest.fn((table: string) => {
+    const query: any = {
+      select: jest.fn(() => query),
+      where: jest.fn(() => query),
+      forUpdate: jest.fn(() => query),
+      first: jest.fn(async () => rows[table]),
+    };
+    return query;
+  });
+  mockedDb.mockImplementation(connection);
+  mockedDb.transaction.mockImplementation(async (cb: any) => cb(connection));
+  return connection;
+};
+
+describe('EpinService.importBatch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTables({ operators: { id: 'op-1', name: 'MTN' } });
+    (EpinModel.createBatch as jest.Mock).mockResolvedValue({ id: 'batch-1' });
+    (EpinModel.finishBatch as jest.Mock).mockImplementation(
+      async (id, counts) => ({ id, operatorId: 'op-1', ...counts })
+    );
+  });
+
+  it('encrypts valid rows and reports invalid lines', async () => {
+    (EpinModel.insertPins as jest.Mock).mockImplementation(
+      async rows => rows.length
+    );
+
+    const result = await EpinService.importBatch({
+      operatorId: 'op-1',
+      denomination: 100,
+      csv: [
+        'PIN,Serial,Cost_Price',
+        '1234-5678-9012-3456,SN1,97',
+        '"x",SN2,97',
+        '9999888877776666,SN3,-1',
+      ].join('\r\n'),
+    });
+
+    const [rows] = (EpinModel.insertPins as jest.Mock).mock.calls[0];
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      batchId: 'batch-1',
+      serialNumber: 'SN1',
+      denomination: 100,
+      costPrice: 97,
+    });
+    expect(decryptValue(rows[0].pinCode, SECRET)).toBe('1234567890123456');
+    expect(rows[0].pinHash).not.toContain('1234567890123456');
+
+    expect(result.errors).toEqual([
+      { line: 3, reason: 'Missing or malformed PIN' },
+      { line: 4, reason: 'Invalid cost price' },
+    ]);
+    expect(result.batch).toMatchObject({
+      totalRows: 3,
+      importedCount: 1,
+      duplicateCount: 0,
+      invalidCount: 2,
+    });
+  });
+
+  it('counts PINs repeated in the file or already stocked as duplicates', async () => {
+    (EpinModel.insertPins as jest.Mock).mockResolvedValue(1);
+
+    const result = await EpinService.importBatch({
+      operatorId: 'op-1',
+      csv: 'pin,denomination\n11112222,100\n11112222,100\n33334444,100',
+    });
+
+    expect((EpinModel.insertPins as jest.Mock).mock.calls[0][0]).toHaveLength(
+      2
+    );
+    expect(result.batch).toMatchObject({
+      importedCount: 1,
+      duplicateCount: 2,
+    });
+  });
+
+  it('rejects a CSV without a pin column', async () => {
+    await expect(
+      EpinService.importBatch({ operatorId: 'op-1', csv: 'serial\nSN1' })
+    ).rejects.toThrow('CSV header must include a "pin" column');
+    expect(EpinModel.createBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe('EpinService.purchase', () => {
+  const storedPin = (id: string, pin: string) => ({
+    id,
+    pinCode: encryptValue(pin, SECRET),
+    serialNumber: `SN-${id}`,
+    denomination: 100,
+    costPrice: 96,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTables({
+      operator_products: {
+        id: 'prod-1',
+        operator_id: 'op-1',
+        product_code: 'MTN-EPIN-100',
+        name: 'MTN 100',
+        denom_amount: '100.00',
+        is_active: true,
+      },
+      wallets: { user_id: 'user-1', balance: '500.00' },
+      users: { role: 'user' },
+      operators: { name: 'MTN' },
+    });
+    (PricingService.quote as jest.Mock).mockResolvedValue({
+      supplierPrice: 100,
+      price: 98.5,
+      margin: -1.5,
+      ruleId: 'rule-1',
+    });
+    (EpinModel.createOrder as jest.Mock).mockImplementation(async data => ({
+      id: 'order-1',
+      ...data,
+    }));
+    (EpinModel.findThreshold as jest.Mock).mockResolvedValue(null);
+    (EpinModel.countAvailable as jest.Mock).mockResolvedValue(100);
+    (LedgerService.post as jest.Mock).mockResolvedValue({
+      id: 'journal-1',
+      balances: { 'user_wallet:user-1': 303 },
+    });
+    (TransactionModel.create as jest.Mock).mockImplementation(async data => ({
+      id: 'txn-1',
+      ...data,
+    }));
+  });
+
+  it('sells locked PINs, books cost to the supplier and returns them decrypted', async () => {
+    (EpinModel.allocate as jest.Mock).mockResolvedValue([
+      storedPin('pin-1', '1111222233334444'),
+      storedPin('pin-2', '5555666677778888'),
+    ]);
+
+    const result = await EpinService.purchase('user-1', {
+      productCode: 'MTN-EPIN-100',
+      quantity: 2,
+      pin: '1234',
+    });
+
+    expect(EpinModel.allocate).toHaveBeenCalledWith(
+      'op-1',
+      100,
+      2,
+      expect.anything()
+    );
+    expect(EpinModel.markSold).toHaveBeenCalledWith(
+      ['pin-1', 'pin-2'],
+      'order-1',
+      'user-1',
+      expect.anything()
+    );
+    expect((LedgerService.post as jest.Mock).mock.calls[0][0].lines).toEqual([
+      {
+        account: LedgerService.wallet('user-1'),
+        direction: 'debit',
+        amount: 197,
+      },
+      {
+        account: { type: 'supplier_payable' },
+        direction: 'credit',
+        amount: 192,
+      },
+      { account: { type: 'revenue' }, direction: 'credit', amount: 5 },
+    ]);
+    expect(TransactionModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        direction: 'debit',
+        amount: 197,
+        balanceAfter: 303,
+        relatedType: 'epin_order',
+        relatedId: 'order-1',
+      }),
+      expect.anything()
+    );
+    expect(result.order.pins.map(pin => pin.pin)).toEqual([
+      '1111222233334444',
+      '5555666677778888',
+    ]);
+    expect(result.balanceAfter).toBe(303);
+  });
+
+  it('fails without charging when stock runs short', async () => {
+    (EpinModel.allocate as jest.Mock).mockResolvedValue([
+      storedPin('pin-1', '1111222233334444'),
+    ]);
+
+    const error = await EpinService.purchase('user-1', {
+      productCode: 'MTN-EPIN-100',
+      quantity: 3,
+      pin: '1234',
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.statusCode).toBe(409);
+    expect(EpinModel.markSold).not.toHaveBeenCalled();
+    expect(LedgerService.post).not.toHaveBeenCalled();
+  });
+
+  it('rejects a quantity above the per-order limit', async () => {
+    await expect(
+      EpinService.purchase('user-1', {
+        productCode: 'MTN-EPIN-100',
+        quantity: 51,
+        pin: '1234',
+      })
+    ).rejects.toThrow('Quantity must be a whole number between 1 and 50');
+    expect(mockedDb.transaction).not.toHaveBeenCalled();
+  });
+});
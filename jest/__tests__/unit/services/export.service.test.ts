@@ -0,0 +1,177 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { config } from '../../../../src/config/env';
+import db from '../../../../src/database/connection';
+import JobModel from '../../../../src/models/Job';
+import { ExportService } from '../../../../src/services/export.service';
+import { JobService } from '../../../../src/services/job.service';
+import { toCsvRow } from '../../../../src/utils/csv.utils';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), {
+    transaction: jest.fn(),
+    raw: jest.fn((sql: string) => sql),
+  }),
+}));
+jest.mock('../../../../src/models/Job');
+jest.mock('../../../../src/services/job.service');
+
+const mockedDb = db as unknown as jest.Mock;
+
+// Each query on the table resolves to the next batch of rows; queries
+// are kept so their filters can be checked
+const mockBatches = (batches: any[][]) => {
+  const queries: any[] = [];
+  mockedDb.mockImplementation(() => {
+    const rows = batches.shift() || [];
+    const query: any = {
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(rows).then(resolve, reject),
+      first: jest.fn(async () => rows[0]),
+    };
+    ['where', 'whereRaw', 'select', 'orderBy', 'limit', 'count'].forEach(
+      method => {
+        query[method] = jest.fn(() => query);
+      }
+    );
+    queries.push(query);
+    return query;
+  });
+  return queries;
+};
+
+const settlement = (n: number) => ({
+  export_cursor_at: `2025-12-0${n} 00:00:00+00`,
+  export_cursor_id: `s-${n}`,
+  id: `s-${n}`,
+  settlement_date: `2025-12-0${n}`,
+  provider_id: 'p-1',
+  provider: 'PalmPay',
+  amount: '1000.00',
+  fees: '10.00',
+  reference: `REF,${n}`,
+  created_at: new Date(`2025-12-0${n}T00:00:00Z`),
+});
+
+describe('toCsvRow', () => {
+  it('quotes fields that need it and defuses formulas', () => {
+    expect(toCsvRow(['a,b', 'say "hi"', null, '=SUM(A1)', '-12.50', 3])).toBe(
+      '"a,b","say ""hi""",,\'=SUM(A1),-12.50,3\r\n'
+    );
+  });
+});
+
+describe('ExportService', () => {
+  let exportDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-test-'));
+    config.exports.dir = exportDir;
+  });
+
+  afterEach(() => {
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('streams small exports and queues large ones', async () => {
+    (JobService.enqueue as jest.Mock).mockResolvedValue({ id: 'job-1' });
+
+    mockBatches([[{ count: '25' }]]);
+    await expect(
+      ExportService.request('transactions', {}, 'admin-1')
+    ).resolves.toEqual({ mode: 'stream', rows: 25 });
+    expect(JobService.enqueue).not.toHaveBeenCalled();
+
+    mockBatches([[{ count: '250000' }]]);
+    const queued = await ExportService.request(
+      'transactions',
+      { userId: 'user-1' },
+      'admin-1'
+    );
+    expect(queued).toMatchObject({ mode: 'job', rows: 250000 });
+    expect(JobService.enqueue).toHaveBeenCalledWith(
+      'data_export',
+      {
+        type: 'transactions',
+        filters: { userId: 'user-1' },
+        requestedBy: 'admin-1',
+      },
+      { maxAttempts: 3 }
+    );
+  });
+
+  it('refuses background exports without a shared export directory', async () => {
+    config.exports.dir = '';
+    mockBatches([[{ count: '250000' }]]);
+
+    await expect(
+      ExportService.request('transactions', {}, 'admin-1')
+    ).rejects.toMatchObject({ statusCode: 503 });
+    expect(JobService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('deletes only export files past retention', async () => {
+    const stale = path.join(exportDir, 'job-old.csv');
+    const fresh = path.join(exportDir, 'job-new.csv');
+    fs.writeFileSync(stale, 'id\r\n');
+    fs.writeFileSync(fresh, 'id\r\n');
+    const old = new Date(
+      Date.now() - (config.exports.retentionHours + 1) * 60 * 60 * 1000
+    );
+    fs.utimesSync(stale, old, old);
+
+    await expect(ExportService.purgeExpired()).resolves.toBe(1);
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.existsSync(fresh)).toBe(true);
+  });
+
+  it('writes every batch after the header, continuing from the last row', async () => {
+    const full = Array.from({ length: 1000 }, () => settlement(1));
+    full[999] = settlement(2);
+    const queries = mockBatches([full, [settlement(3)]]);
+    const out = new PassThrough();
+    let csv = '';
+    out.on('data', chunk => (csv += chunk));
+
+    const rows = await ExportService.writeCsv(
+      'settlements',
+      { providerId: 'p-1' },
+      out
+    );
+
+    expect(rows).toBe(1001);
+    const lines = csv.trim().split('\r\n');
+    expect(lines[0]).toBe(
+      'id,settlement_date,provider_id,provider,amount,fees,reference,created_at'
+    );
+    expect(lines).toHaveLength(1002);
+    expect(lines[1001]).toBe(
+      's-3,2025-12-03,p-1,PalmPay,1000.00,10.00,"REF,3",2025-12-03T00:00:00.000Z'
+    );
+    expect(queries[0].where).toHaveBeenCalledWith('provider_id', 'p-1');
+    expect(queries[1].whereRaw).toHaveBeenCalledWith(
+      '(created_at, id) > (?::timestamptz, ?)',
+      ['2025-12-02 00:00:00+00', 's-2']
+    );
+  });
+
+  it('only shows an export to the admin who asked for it', async () => {
+    (JobModel.findById as jest.Mock).mockResolvedValue({
+      id: 'job-1',
+      type: 'data_export',
+      status: 'running',
+      payload: { requestedBy: 'admin-1' },
+    });
+
+    await expect(
+      ExportService.getJob('job-1', 'admin-2')
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await expect(
+      ExportService.getDownload('job-1', 'admin-1')
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
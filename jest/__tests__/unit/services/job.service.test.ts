@@ -1,5 +1,10 @@
 import JobModel from '../../../../src/models/Job';
 import { JobService } from '../../../../src/services/job.service';
+import {
+  JobHandlerRegistry,
+  PermanentJobError,
+} from '../../../../src/services/jobHandler.registry';
+import { logger } from '../../../../src/utils/logger.utils';
 
 jest.mock('../../../../src/models/Job');
 
@@ -76,4 +81,192 @@ describe('JobService', () => {
       expect(JobModel.getAll).toHaveBeenCalledWith(page, limit);
     });
   });
+
+  describe('run', () => {
+    const job = (attempts: number, maxAttempts = 3) => ({
+      id: 'job1',
+      type: 'test_handler',
+      payload: { value: 1 },
+      status: 'running' as const,
+      attempts,
+      max_attempts: maxAttempts,
+    });
+
+    beforeEach(() => {
+      (JobModel.updateStatus as jest.Mock).mockResolvedValue(true);
+      (JobModel.recordFailure as jest.Mock).mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      JobHandlerRegistry.unregister('test_handler');
+    });
+
+    it('stores the handler result when it succeeds', async () => {
+      const handler = jest.fn().mockResolvedValue({ done: true });
+      JobHandlerRegistry.register('test_handler', handler);
+
+      const status = await JobService.run(job(1), 'worker-1');
+
+      expect(status).toBe('completed');
+      expect(handler).toHaveBeenCalledWith({ value: 1 }, job(1));
+      expect(JobModel.updateStatus).toHaveBeenCalledWith(
+        'job1',
+        'completed',
+        { done: true },
+        'worker-1'
+      );
+    });
+
+    it('logs when the job is no longer held by this worker', async () => {
+      JobHandlerRegistry.register(
+        'test_handler',
+        jest.fn().mockResolvedValue({ done: true })
+      );
+      (JobModel.updateStatus as jest.Mock).mockResolvedValueOnce(false);
+      const warn = jest.spyOn(logger, 'warn').mockImplementation();
+
+      await JobService.run(job(1), 'worker-1');
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('no longer held by worker worker-1')
+      );
+      warn.mockRestore();
+    });
+
+    it('schedules a retry with exponential backoff', async () => {
+      JobHandlerRegistry.register(
+        'test_handler',
+        jest.fn().mockRejectedValue(new Error('timeout')),
+        { backoffMs: 1000 }
+      );
+      const before = Date.now();
+
+      const status = await JobService.run(job(2), 'worker-1');
+
+      expect(status).toBe('pending');
+      const [, workerId, error, retryAt] = (JobModel.recordFailure as jest.Mock)
+        .mock.calls[0];
+      expect(workerId).toBe('worker-1');
+      expect(error).toBe('timeout');
+      expect(retryAt.getTime() - before).toBeGreaterThanOrEqual(2000);
+      expect(retryAt.getTime() - before).toBeLessThan(3000);
+    });
+
+    it('dead-letters a job once its attempts are used up', async () => {
+      JobHandlerRegistry.register(
+        'test_handler',
+        jest.fn().mockRejectedValue(new Error('timeout'))
+      );
+
+      const status = await JobService.run(job(3), 'worker-1');
+
+      expect(status).toBe('dead');
+      expect(JobModel.recordFailure).toHaveBeenCalledWith(
+        'job1',
+        'worker-1',
+        'timeout',
+        null
+      );
+    });
+
+    it('does not retry a permanent error', async () => {
+      JobHandlerRegistry.register(
+        'test_handler',
+        jest.fn().mockRejectedValue(new PermanentJobError('bad payload'))
+      );
+
+      const status = await JobService.run(job(1), 'worker-1');
+
+      expect(status).toBe('dead');
+      expect(JobModel.recordFailure).toHaveBeenCalledWith(
+        'job1',
+        'worker-1',
+        'bad payload',
+        null
+      );
+    });
+
+    it('dead-letters a job without a registered handler', async () => {
+      const status = await JobService.run(
+        { ...job(1), type: 'unknown' },
+        'worker-1'
+      );
+
+      expect(status).toBe('dead');
+      expect(JobModel.recordFailure).toHaveBeenCalledWith(
+        'job1',
+        'worker-1',
+        'No handler registered for job type unknown',
+        null
+      );
+    });
+  });
+
+  describe('requeueStale', () => {
+    it('totals the jobs requeued and dead-lettered across handlers', async () => {
+      const list = jest.spyOn(JobHandlerRegistry, 'list').mockReturnValue([
+        { type: 'stale_a', leaseMinutes: 15 },
+        { type: 'stale_b', leaseMinutes: 5 },
+      ] as any);
+      (JobModel.requeueStale as jest.Mock)
+        .mockResolvedValueOnce({ requeued: 2, deadLettered: 1 })
+        .mockResolvedValueOnce({ requeued: 1, deadLettered: 0 });
+
+      const result = await JobService.requeueStale();
+
+      expect(result).toEqual({ requeued: 3, deadLettered: 1 });
+      expect(JobModel.requeueStale).toHaveBeenCalledWith('stale_a', 15);
+      expect(JobModel.requeueStale).toHaveBeenCalledWith('stale_b', 5);
+      list.mockRestore();
+    });
+  });
+
+  describe('backoffDelay', () => {
+    it('doubles per attempt up to the cap', () => {
+      const options = { backoffMs: 1000, maxBackoffMs: 5000 };
+      expect(JobService.backoffDelay(1, options)).toBe(1000);
+      expect(JobService.backoffDelay(2, options)).toBe(2000);
+      expect(JobService.backoffDelay(3, options)).toBe(4000);
+      expect(JobService.backoffDelay(4, options)).toBe(5000);
+    });
+  });
+
+  describe('retry and cancel', () => {
+    it('requeues a dead job with fresh attempts', async () => {
+      (JobModel.transition as jest.Mock).mockResolvedValue({
+        id: 'job1',
+        status: 'pending',
+      });
+
+      await JobService.retry('job1');
+
+      expect(JobModel.transition).toHaveBeenCalledWith(
+        'job1',
+        ['dead', 'failed', 'cancelled'],
+        expect.objectContaining({ status: 'pending', attempts: 0 })
+      );
+    });
+
+    it('refuses to cancel a job that is already running', async () => {
+      (JobModel.transition as jest.Mock).mockResolvedValue(undefined);
+      (JobModel.findById as jest.Mock).mockResolvedValue({
+        id: 'job1',
+        status: 'running',
+      });
+
+      await expect(JobService.cancel('job1')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'A running job cannot be cancelled',
+      });
+    });
+
+    it('returns 404 for an unknown job', async () => {
+      (JobModel.transition as jest.Mock).mockResolvedValue(undefined);
+      (JobModel.findById as jest.Mock).mockResolvedValue(undefined);
+
+      await expect(JobService.retry('missing')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
 });
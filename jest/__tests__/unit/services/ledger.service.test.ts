@@ -0,0 +1,201 @@
+import { LedgerModel } from '../../../../src/models/Ledger';
+import { LedgerService } from '../../../../src/services/ledger.service';
+import { ApiError } from '../../../../src/utils/ApiError';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+jest.mock('../../../../src/models/Ledger', () => ({
+  LedgerModel: {
+    accountCode: jest.requireActual('../../../../src/models/Ledger').LedgerModel
+      .accountCode,
+    findOrCreateAccount: jest.fn(),
+    insertJournal: jest.fn(),
+  },
+}));
+
+// Minimal chainable stand-in for a Knex transaction over cached balances
+const createMockTrx = (rows: Record<string, any>) => {
+  const updates: { table: string; data: any }[] = [];
+  const trx: any = jest.fn((table: string) => {
+    const query: any = {
+      where: jest.fn(() => query),
+      forUpdate: jest.fn(() => query),
+      first: jest.fn(async () => rows[table]),
+      insert: jest.fn(() => query),
+      onConflict: jest.fn(() => query),
+      ignore: jest.fn(async () => undefined),
+      update: jest.fn(async (data: any) => {
+        updates.push({ table, data });
+        return 1;
+      }),
+    };
+    return query;
+  });
+  trx.fn = { now: jest.fn(() => 'now()') };
+  trx.updates = updates;
+  return trx;
+};
+
+describe('LedgerService.post', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (LedgerModel.findOrCreateAccount as jest.Mock).mockImplementation(
+      async ref => ({ id: `acc-${LedgerModel.accountCode(ref)}` })
+    );
+    (LedgerModel.insertJournal as jest.Mock).mockResolvedValue('journal-1');
+  });
+
+  it('records a balanced journal and updates the cached wallet balance', async () => {
+    const trx = createMockTrx({ wallets: { balance: '100.00' } });
+
+    const journal = await LedgerService.post(
+      {
+        referenceType: 'admin',
+        referenceId: 'admin-1',
+        lines: [
+          { account: { type: 'suspense' }, direction: 'debit', amount: 25.5 },
+          {
+            account: LedgerService.wallet('user-1'),
+            direction: 'credit',
+            amount: 25.5,
+          },
+        ],
+      },
+      trx
+    );
+
+    expect(journal).toEqual({
+      id: 'journal-1',
+      balances: { 'user_wallet:user-1': 125.5 },
+    });
+    expect(LedgerModel.insertJournal).toHaveBeenCalledWith(
+      expect.objectContaining({ referenceType: 'admin' }),
+      [
+        { accountId: 'acc-suspense', direction: 'debit', amount: 25.5 },
+        {
+          accountId: 'acc-user_wallet:user-1',
+          direction: 'credit',
+          amount: 25.5,
+        },
+      ],
+      trx
+    );
+    expect(trx.updates).toEqual([
+      { table: 'wallets', data: { balance: 125.5, updated_at: 'now()' } },
+    ]);
+  });
+
+  it('splits a purchase across wallet, suspense, supplier payable and revenue', async () => {
+    const trx = createMockTrx({ wallets: { balance: '500.00' } });
+
+    const journal = await LedgerService.post(
+      {
+        referenceType: 'topup_request',
+        referenceId: 'topup-1',
+        lines: [
+          {
+            account: LedgerService.wallet('user-1'),
+            direction: 'debit',
+            amount: 80,
+          },
+          { account: { type: 'suspense' }, direction: 'debit', amount: 20 },
+          {
+            account: { type: 'supplier_payable' },
+            direction: 'credit',
+            amount: 95,
+          },
+          { account: { type: 'revenue' }, direction: 'credit', amount: 5 },
+        ],
+      },
+      trx
+    );
+
+    expect(journal.balances).toEqual({ 'user_wallet:user-1': 420 });
+  });
+
+  it('drops zero lines before posting', async () => {
+    const trx = createMockTrx({ wallets: { balance: '10.00' } });
+
+    await LedgerService.post(
+      {
+        referenceType: 'topup_request',
+        lines: [
+          {
+            account: LedgerService.wallet('user-1'),
+            direction: 'debit',
+            amount: 10,
+          },
+          { account: { type: 'suspense' }, direction: 'debit', amount: 0 },
+          { account: { type: 'revenue' }, direction: 'credit', amount: 10 },
+        ],
+      },
+      trx
+    );
+
+    expect(
+      (LedgerModel.insertJournal as jest.Mock).mock.calls[0][1]
+    ).toHaveLength(2);
+  });
+
+  it('rejects an unbalanced journal without writing anything', async () => {
+    const trx = createMockTrx({});
+
+    await expect(
+      LedgerService.post(
+        {
+          referenceType: 'admin',
+          lines: [
+            { account: { type: 'suspense' }, direction: 'debit', amount: 10 },
+            {
+              account: LedgerService.wallet('user-1'),
+              direction: 'credit',
+              amount: 10.01,
+            },
+          ],
+        },
+        trx
+      )
+    ).rejects.toThrow('unbalanced');
+    expect(LedgerModel.insertJournal).not.toHaveBeenCalled();
+  });
+
+  it('rejects negative amounts', async () => {
+    await expect(
+      LedgerService.post(
+        {
+          referenceType: 'admin',
+          lines: [
+            { account: { type: 'suspense' }, direction: 'debit', amount: -5 },
+            { account: { type: 'revenue' }, direction: 'credit', amount: -5 },
+          ],
+        },
+        createMockTrx({})
+      )
+    ).rejects.toThrow('Invalid ledger amount');
+  });
+
+  it('refuses to take a cached balance below zero', async () => {
+    const trx = createMockTrx({ cashback: { available_balance: '5.00' } });
+
+    const post = LedgerService.post(
+      {
+        referenceType: 'topup_request',
+        lines: [
+          {
+            account: LedgerService.cashback('user-1'),
+            direction: 'debit',
+            amount: 10,
+          },
+          { account: { type: 'suspense' }, direction: 'credit', amount: 10 },
+        ],
+      },
+      trx
+    );
+
+    await expect(post).rejects.toBeInstanceOf(ApiError);
+    await expect(post).rejects.toThrow('Insufficient cashback balance');
+    expect(trx.updates).toEqual([]);
+  });
+});
@@ -3,10 +3,12 @@ import { v4 as uuidv4 } from 'uuid';
 import { config as envConfig } from '../../../../src/config/env';
 import db from '../../../../src/database/connection';
 import { NotificationModel } from '../../../../src/models/Notification';
+import { NotificationAnalyticsModel } from '../../../../src/models/NotificationAnalytics';
 import { FirebaseService } from '../../../../src/services/firebase.service';
 import { NotificationService } from '../../../../src/services/notification.service';
 
 jest.mock('../../../../src/models/Notification');
+jest.mock('../../../../src/models/NotificationAnalytics');
 
 const mockRegister = jest.fn();
 (NotificationModel as any).registerPushToken = mockRegister;
@@ -14,6 +16,7 @@ const mockRegister = jest.fn();
 jest.mock('../../../../src/services/firebase.service', () => ({
   FirebaseService: {
     subscribeTokenToTopic: jest.fn(() => Promise.resolve()),
+    sendTopicMessage: jest.fn(),
   },
 }));
 
@@ -280,3 +283,122 @@ describe('NotificationService - Delete & Mark As Read', () => {
     });
   });
 });
+
+describe('NotificationService - Scheduled dispatch', () => {
+  const claimDue = NotificationModel.claimDue as jest.Mock;
+  const sendTopicMessage = FirebaseService.sendTopicMessage as jest.Mock;
+  const due = (id: string, attempts = 1) => ({
+    id,
+    title: `Title ${id}`,
+    body: 'Body',
+    category: 'updates',
+    dispatch_attempts: attempts,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sends each claimed notification once and records it', async () => {
+    claimDue.mockResolvedValue([due('n-1'), due('n-2')]);
+    sendTopicMessage.mockResolvedValue('message-id');
+
+    const result = await NotificationService.dispatchDue();
+
+    expect(result).toEqual({ claimed: 2, sent: 2, failed: 0 });
+    expect(sendTopicMessage).toHaveBeenCalledTimes(2);
+    expect(sendTopicMessage).toHaveBeenCalledWith(
+      'updates',
+      'Title n-1',
+      'Body',
+      'n-1'
+    );
+    expect(NotificationModel.markSent).toHaveBeenCalledWith('n-1');
+    expect(NotificationAnalyticsModel.create).toHaveBeenCalledWith({
+      notification_id: 'n-1',
+      user_id: null,
+      status: 'sent',
+    });
+  });
+
+  it('releases a failed send for retry until attempts run out', async () => {
+    claimDue.mockResolvedValue([due('n-1', 1), due('n-2', 3)]);
+    sendTopicMessage.mockRejectedValue(new Error('FCM unavailable'));
+
+    const result = await NotificationService.dispatchDue();
+
+    expect(result).toEqual({ claimed: 2, sent: 0, failed: 2 });
+    expect(NotificationModel.markSent).not.toHaveBeenCalled();
+    expect(NotificationModel.releaseClaim).toHaveBeenCalledWith(
+      'n-1',
+      'FCM unavailable',
+      false
+    );
+    expect(NotificationModel.releaseClaim).toHaveBeenCalledWith(
+      'n-2',
+      'FCM unavailable',
+      true
+    );
+    expect(NotificationAnalyticsModel.create).toHaveBeenCalledTimes(1);
+    expect(NotificationAnalyticsModel.create).toHaveBeenCalledWith({
+      notification_id: 'n-2',
+      user_id: null,
+      status: 'failed',
+    });
+  });
+
+  it('never releases a notification Firebase has already accepted', async () => {
+    claimDue.mockResolvedValue([due('n-1')]);
+    sendTopicMessage.mockResolvedValue('message-id');
+    (NotificationModel.markSent as jest.Mock).mockRejectedValueOnce(
+      new Error('connection lost')
+    );
+
+    const result = await NotificationService.dispatchDue();
+
+    expect(result).toEqual({ claimed: 1, sent: 1, failed: 0 });
+    expect(NotificationModel.releaseClaim).not.toHaveBeenCalled();
+  });
+
+  it('retries marking a published notification sent so a later claim skips it', async () => {
+    let sent = false;
+    // Stands in for claimDue after the lease has expired: any unsent row is due.
+    claimDue.mockImplementation(async () => (sent ? [] : [due('n-1')]));
+    sendTopicMessage.mockResolvedValue('message-id');
+    (NotificationModel.markSent as jest.Mock)
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockImplementation(async () => {
+        sent = true;
+      });
+
+    const first = await NotificationService.dispatchDue();
+    const second = await NotificationService.dispatchDue();
+
+    expect(first).toEqual({ claimed: 1, sent: 1, failed: 0 });
+    expect(second).toEqual({ claimed: 0, sent: 0, failed: 0 });
+    expect(NotificationModel.markSent).toHaveBeenCalledTimes(2);
+    expect(sendTopicMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cancel a notification that was already sent', async () => {
+    (NotificationModel.updatePending as jest.Mock).mockResolvedValue(null);
+    (NotificationModel.findById as jest.Mock).mockResolvedValue({
+      id: 'n-1',
+      sent: true,
+    });
+
+    await expect(
+      NotificationService.cancelScheduled('n-1', 'admin-1')
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Notification has already been sent',
+    });
+  });
+
+  it('only reschedules into the future', async () => {
+    await expect(
+      NotificationService.reschedule('n-1', new Date(Date.now() - 60000))
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(NotificationModel.updatePending).not.toHaveBeenCalled();
+  });
+});
@@ -229,4 +229,157 @@ describe('OfferService', () => {
       ).rejects.toThrow('User not eligible for this offer');
     });
   });
+
+  describe('getAvailableOffers', () => {
+    const listed = async () =>
+      (await OfferService.getAvailableOffers(testUser.userId)).find(
+        offer => offer.id === testOffer.id
+      );
+
+    it('lists an active offer with the uses left', async () => {
+      await expect(listed()).resolves.toMatchObject({
+        discountType: 'fixed_amount',
+        discountValue: 50,
+        appliesToAllProducts: true,
+        usesRemaining: 1,
+        products: [],
+      });
+    });
+
+    it('drops the offer once the per-user limit is used', async () => {
+      await OfferService.redeemOffer(
+        testOffer.id,
+        testUser.userId,
+        500,
+        50,
+        testOperatorProduct.id
+      );
+
+      await expect(listed()).resolves.toBeUndefined();
+    });
+
+    it('lists offers to segment members who fail the rules', async () => {
+      await db('offer_eligibility_rules').insert({
+        offer_id: testOffer.id,
+        rule_key: 'new_user_impossible',
+        rule_type: 'new_user',
+        params: { account_age_days: 0 },
+      });
+      await expect(listed()).resolves.toBeUndefined();
+
+      await db('offer_segment_members').insert({
+        offer_id: testOffer.id,
+        user_id: testUser.userId,
+      });
+      await expect(listed()).resolves.toBeDefined();
+    });
+  });
+
+  describe('applyAtCheckout', () => {
+    const checkout = (offer: string, price = 500) =>
+      db.transaction(trx =>
+        OfferService.applyAtCheckout(
+          {
+            offer,
+            userId: testUser.userId,
+            operatorProductId: testOperatorProduct.id,
+            price,
+          },
+          trx
+        )
+      );
+
+    it('prices an offer looked up by its code', async () => {
+      await db('offers').where({ id: testOffer.id }).update({ code: 'SAVE50' });
+
+      await expect(checkout('SAVE50')).resolves.toMatchObject({
+        offerId: testOffer.id,
+        discountAmount: 50,
+        pricePaid: 450,
+        operatorProductId: testOperatorProduct.id,
+        supplierProductMappingId: null,
+      });
+    });
+
+    it('charges the product price override instead of the discount', async () => {
+      await db('offers')
+        .where({ id: testOffer.id })
+        .update({ apply_to: 'operator_product' });
+      await db('offer_products').insert({
+        offer_id: testOffer.id,
+        operator_product_id: testOperatorProduct.id,
+        price_override: 420,
+      });
+
+      await expect(checkout(testOffer.id)).resolves.toMatchObject({
+        discountAmount: 80,
+        pricePaid: 420,
+      });
+    });
+
+    it('rejects a product the offer does not cover', async () => {
+      await db('offers')
+        .where({ id: testOffer.id })
+        .update({ apply_to: 'operator_product' });
+
+      await expect(checkout(testOffer.id)).rejects.toThrow(
+        'Offer does not apply to this product'
+      );
+    });
+
+    it('rejects users not on the list of a restricted offer', async () => {
+      await db('offers')
+        .where({ id: testOffer.id })
+        .update({ allow_all: false });
+
+      await expect(checkout(testOffer.id)).rejects.toThrow(
+        'User not eligible for this offer'
+      );
+    });
+  });
+});
+
+describe('OfferService.calculateDiscount', () => {
+  it('takes a percentage off in whole kobo', () => {
+    expect(
+      OfferService.calculateDiscount(
+        { discount_type: 'percentage', discount_value: 12.5 },
+        99.99
+      )
+    ).toBe(12.5);
+  });
+
+  it('never discounts more than the price', () => {
+    expect(
+      OfferService.calculateDiscount(
+        { discount_type: 'fixed_amount', discount_value: 150 },
+        100
+      )
+    ).toBe(100);
+    expect(
+      OfferService.calculateDiscount(
+        { discount_type: 'fixed_price', discount_value: 120 },
+        100
+      )
+    ).toBe(0);
+  });
+
+  it('prefers a product price override', () => {
+    expect(
+      OfferService.calculateDiscount(
+        { discount_type: 'percentage', discount_value: 50 },
+        100,
+        '90.00'
+      )
+    ).toBe(10);
+  });
+
+  it('refuses buy-x-get-y offers for a single purchase', () => {
+    expect(() =>
+      OfferService.calculateDiscount(
+        { discount_type: 'buy_x_get_y', discount_value: 1 },
+        100
+      )
+    ).toThrow('Offer cannot be applied to a single purchase');
+  });
 });
@@ -33,3 +33,38 @@ describe('OfferAdminService.bulkRedeem', () => {
     expect(failCount).toBe(1);
   });
 });
+
+describe('OfferAdminService.validateRuleParams', () => {
+  it('normalises numeric params and drops empty optional ones', async () => {
+    const params = await OfferAdminService.validateRuleParams(
+      'min_wallet_funding',
+      { amount: '5000.005', window_days: null }
+    );
+    expect(params).toEqual({ amount: 5000.01 });
+
+    await expect(
+      OfferAdminService.validateRuleParams('referred_by_code', {})
+    ).resolves.toEqual({});
+  });
+
+  it('rejects params the eligibility function would raise on', async () => {
+    const cases: Array<[string, Record<string, any>, string]> = [
+      ['signed_up_on_tuesday', {}, 'Unknown rule type: signed_up_on_tuesday'],
+      ['min_referrals', {}, 'min_referrals rule requires count'],
+      ['min_referrals', { count: 2.5 }, 'count must be a whole number'],
+      ['inactive_days', { days: 0 }, 'days must be a whole number'],
+      ['inactive_days', { days: 30, weeks: 2 }, 'Unknown param(s)'],
+      ['has_badge', { badge_id: 'gold' }, 'badge_id must be a UUID'],
+      ['min_spent', { amount: 'lots' }, 'amount must be a number'],
+    ];
+
+    for (const [ruleType, params, message] of cases) {
+      const error = await OfferAdminService.validateRuleParams(
+        ruleType,
+        params
+      ).catch(e => e);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain(message);
+    }
+  });
+});
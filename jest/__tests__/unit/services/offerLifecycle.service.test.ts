@@ -0,0 +1,101 @@
+import { OfferModel } from '../../../../src/models/Offer';
+import { JobService } from '../../../../src/services/job.service';
+import { NotificationService } from '../../../../src/services/notification.service';
+import OfferAdminService from '../../../../src/services/offerAdmin.service';
+import { OfferLifecycleService } from '../../../../src/services/offerLifecycle.service';
+
+jest.mock('../../../../src/models/Offer', () => ({
+  OfferModel: {
+    activateDue: jest.fn(),
+    expireEnded: jest.fn(),
+    expireExhausted: jest.fn(),
+    findById: jest.fn(),
+  },
+}));
+jest.mock('../../../../src/services/job.service', () => ({
+  JobService: { enqueue: jest.fn() },
+}));
+jest.mock('../../../../src/services/notification.service', () => ({
+  NotificationService: { sendToUser: jest.fn() },
+}));
+jest.mock('../../../../src/services/offerAdmin.service', () => ({
+  __esModule: true,
+  default: {
+    computeSegment: jest.fn(),
+    getAllSegmentMemberIds: jest.fn(),
+  },
+}));
+
+const Model = OfferModel as jest.Mocked<typeof OfferModel>;
+const Admin = OfferAdminService as jest.Mocked<typeof OfferAdminService>;
+
+describe('OfferLifecycleService.run', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('expires before activating and queues activation for each live offer', async () => {
+    const order: string[] = [];
+    Model.expireEnded.mockImplementation(async () => {
+      order.push('ended');
+      return [{ id: 'o1' }] as any;
+    });
+    Model.expireExhausted.mockImplementation(async () => {
+      order.push('exhausted');
+      return [] as any;
+    });
+    Model.activateDue.mockImplementation(async () => {
+      order.push('activate');
+      return [{ id: 'o2' }, { id: 'o3' }] as any;
+    });
+
+    const summary = await OfferLifecycleService.run();
+
+    expect(order).toEqual(['ended', 'exhausted', 'activate']);
+    expect(summary).toEqual({ activated: 2, expired: 1, exhausted: 0 });
+    expect(JobService.enqueue).toHaveBeenCalledWith('offer_activation', {
+      offerId: 'o2',
+    });
+    expect(JobService.enqueue).toHaveBeenCalledWith('offer_activation', {
+      offerId: 'o3',
+    });
+  });
+});
+
+describe('OfferLifecycleService.activate', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('rebuilds the segment and notifies each member', async () => {
+    Model.findById.mockResolvedValue({
+      id: 'o1',
+      status: 'active',
+      title: '10% off data',
+      description: null,
+      deleted_at: null,
+    } as any);
+    Admin.getAllSegmentMemberIds.mockResolvedValue(['u1', 'u2']);
+
+    const result = await OfferLifecycleService.activate('o1');
+
+    expect(Admin.computeSegment).toHaveBeenCalledWith('o1');
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(2);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      'u2',
+      '10% off data',
+      'A new offer is available to you'
+    );
+    expect(result).toEqual({ offerId: 'o1', notified: 2 });
+  });
+
+  it('skips offers that are no longer active', async () => {
+    Model.findById.mockResolvedValue({
+      id: 'o1',
+      status: 'paused',
+      deleted_at: null,
+    } as any);
+
+    const result = await OfferLifecycleService.activate('o1');
+
+    expect(Admin.computeSegment).not.toHaveBeenCalled();
+    expect(NotificationService.sendToUser).not.toHaveBeenCalled();
+    expect(result).toEqual({ offerId: 'o1', notified: 0 });
+  });
+});
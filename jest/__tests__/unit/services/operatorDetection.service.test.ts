@@ -0,0 +1,96 @@
+import { OperatorModel } from '../../../../src/models/Operator';
+import {
+  OperatorPrefixModel,
+  PortedNumberModel,
+} from '../../../../src/models/OperatorPrefix';
+import { OperatorDetectionService } from '../../../../src/services/operatorDetection.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Operator');
+jest.mock('../../../../src/models/OperatorPrefix');
+
+const MTN = { operatorId: 'mtn', operatorCode: 'MTN', operatorName: 'MTN' };
+const GLO = { operatorId: 'glo', operatorCode: 'GLO', operatorName: 'Glo' };
+
+describe('OperatorDetectionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PortedNumberModel.findByPhone as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('puts numbers in local form', () => {
+    expect(OperatorDetectionService.normalizePhone('+234 803 123 4567')).toBe(
+      '08031234567'
+    );
+    expect(OperatorDetectionService.normalizePhone('08031234567')).toBe(
+      '08031234567'
+    );
+    expect(OperatorDetectionService.normalizePhone('8031234567')).toBe(
+      '08031234567'
+    );
+    expect(OperatorDetectionService.normalizePhone('0803123')).toBeNull();
+  });
+
+  it('detects the operator from the prefix registry', async () => {
+    (OperatorPrefixModel.findLongestMatch as jest.Mock).mockResolvedValue(MTN);
+
+    const detection = await OperatorDetectionService.detect('2348031234567');
+
+    expect(OperatorPrefixModel.findLongestMatch).toHaveBeenCalledWith(
+      '08031234567',
+      undefined
+    );
+    expect(detection).toEqual({
+      phoneNumber: '08031234567',
+      ...MTN,
+      source: 'prefix',
+    });
+  });
+
+  it('prefers a ported number override over the prefix', async () => {
+    (PortedNumberModel.findByPhone as jest.Mock).mockResolvedValue({
+      phoneNumber: '08031234567',
+      ...GLO,
+    });
+
+    const detection = await OperatorDetectionService.detect('08031234567');
+
+    expect(detection).toMatchObject({ operatorCode: 'GLO', source: 'ported' });
+    expect(OperatorPrefixModel.findLongestMatch).not.toHaveBeenCalled();
+  });
+
+  it('rejects a recipient on a different network from the product', async () => {
+    (OperatorPrefixModel.findLongestMatch as jest.Mock).mockResolvedValue(GLO);
+
+    await expect(
+      OperatorDetectionService.assertRecipientOperator('08051234567', 'mtn')
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('lets through recipients with an unknown prefix', async () => {
+    (OperatorPrefixModel.findLongestMatch as jest.Mock).mockResolvedValue(null);
+
+    await expect(
+      OperatorDetectionService.assertRecipientOperator('07021234567', 'mtn')
+    ).resolves.toBeNull();
+  });
+
+  it('refuses a prefix another operator already has', async () => {
+    (OperatorModel.findById as jest.Mock).mockResolvedValue({ id: 'mtn' });
+    (OperatorPrefixModel.findByPrefix as jest.Mock).mockResolvedValue({
+      prefix: '0805',
+      ...GLO,
+    });
+
+    await expect(
+      OperatorDetectionService.addPrefix('mtn', '0805')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    await expect(
+      OperatorDetectionService.addPrefix('mtn', '803')
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(OperatorPrefixModel.create).not.toHaveBeenCalled();
+  });
+});
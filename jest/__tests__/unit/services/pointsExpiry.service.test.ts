@@ -0,0 +1,109 @@
+import db from '../../../../src/database/connection';
+import { PointsExpiryPolicyModel } from '../../../../src/models/PointsExpiryPolicy';
+import { RewardModel } from '../../../../src/models/Reward';
+import { NotificationService } from '../../../../src/services/notification.service';
+import { PointsExpiryService } from '../../../../src/services/pointsExpiry.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), {
+    transaction: jest.fn(),
+    raw: jest.fn((sql, bindings) => ({ sql, bindings })),
+  }),
+}));
+jest.mock('../../../../src/models/PointsExpiryPolicy');
+jest.mock('../../../../src/models/Reward');
+jest.mock('../../../../src/services/notification.service');
+
+const mockedDb = db as unknown as jest.Mock & { transaction: jest.Mock };
+
+const grant = (id: string, userId: string, points: number, day: string) => ({
+  id,
+  userId,
+  points,
+  remainingPoints: points,
+  reason: 'referral_sign_up',
+  status: 'credited',
+  expiresAt: new Date(`${day}T12:00:00Z`),
+});
+
+describe('PointsExpiryService.expiryFor', () => {
+  it('dates expiry from the policy for the reason', async () => {
+    (PointsExpiryPolicyModel.findActiveByReason as jest.Mock).mockResolvedValue(
+      { reason: 'referral_sign_up', expiryDays: 180, isActive: true }
+    );
+
+    const expiry = await PointsExpiryService.expiryFor('referral_sign_up');
+
+    const days = ((expiry as Date).getTime() - Date.now()) / 86400000;
+    expect(days).toBeCloseTo(180, 2);
+  });
+
+  it('leaves points without a policy unexpiring', async () => {
+    (PointsExpiryPolicyModel.findActiveByReason as jest.Mock).mockResolvedValue(
+      null
+    );
+
+    await expect(
+      PointsExpiryService.expiryFor('purchase_completion')
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('PointsExpiryService.expireUnspent', () => {
+  it('takes the expired points off each balance', async () => {
+    const updates: any[] = [];
+    const trx: any = jest.fn(() => ({
+      where: jest.fn(() => ({
+        update: jest.fn(async (data: any) => updates.push(data)),
+      })),
+    }));
+    mockedDb.transaction.mockImplementation(async (cb: any) => cb(trx));
+    (RewardModel.findExpiredUnspent as jest.Mock).mockResolvedValue([
+      grant('reward-1', 'user-1', 100, '2026-01-01'),
+      grant('reward-2', 'user-1', 50, '2026-01-02'),
+    ]);
+    (RewardModel.expireRemaining as jest.Mock)
+      .mockResolvedValueOnce(30)
+      .mockResolvedValueOnce(0);
+
+    const result = await PointsExpiryService.expireUnspent();
+
+    expect(result).toEqual({ rewards: 1, points: 30 });
+    expect(updates).toHaveLength(1);
+    expect(updates[0].total_points.bindings).toEqual([30]);
+  });
+});
+
+describe('PointsExpiryService.sendWarnings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sends each user one notification listing their expiries', async () => {
+    (RewardModel.claimExpiryWarnings as jest.Mock).mockResolvedValue([
+      grant('reward-1', 'user-1', 120, '2026-01-05'),
+      grant('reward-2', 'user-2', 10, '2026-01-06'),
+      grant('reward-3', 'user-1', 40, '2026-01-09'),
+    ]);
+
+    const notified = await PointsExpiryService.sendWarnings();
+
+    expect(notified).toBe(2);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      'user-1',
+      '160 points expire soon',
+      '120 points expire on 2026-01-05 and 40 on 2026-01-09. Redeem them before they are gone.'
+    );
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('notifies no one when another instance already claimed the grants', async () => {
+    (RewardModel.claimExpiryWarnings as jest.Mock).mockResolvedValue([]);
+
+    const notified = await PointsExpiryService.sendWarnings();
+
+    expect(notified).toBe(0);
+    expect(NotificationService.sendToUser).not.toHaveBeenCalled();
+  });
+});
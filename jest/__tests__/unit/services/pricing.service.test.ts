@@ -0,0 +1,113 @@
+import { CommissionModel } from '../../../../src/models/Commission';
+import { PricingService } from '../../../../src/services/pricing.service';
+import {
+  CommissionRule,
+  PricingContext,
+} from '../../../../src/types/pricing.types';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+jest.mock('../../../../src/models/Commission');
+
+const buildRule = (overrides: Partial<CommissionRule>): CommissionRule => ({
+  id: 'rule',
+  ratePercent: 0,
+  fixedAmount: 0,
+  isActive: true,
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const context: PricingContext = {
+  operatorId: 'operator-1',
+  operatorProductId: 'product-1',
+  supplierId: 'supplier-1',
+  supplierPrice: 97,
+  role: 'reseller',
+  userId: 'user-1',
+};
+
+describe('PricingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('selectRule', () => {
+    it('prefers the most specific matching rule', () => {
+      const rules = [
+        buildRule({ id: 'operator', operatorId: 'operator-1' }),
+        buildRule({ id: 'product', operatorProductId: 'product-1' }),
+        buildRule({
+          id: 'operator-role',
+          operatorId: 'operator-1',
+          role: 'reseller',
+        }),
+      ];
+
+      expect(PricingService.selectRule(rules, context)?.id).toBe('product');
+    });
+
+    it('ignores rules scoped to something else', () => {
+      const rules = [
+        buildRule({ id: 'other-supplier', supplierId: 'supplier-2' }),
+        buildRule({ id: 'staff', role: 'staff' }),
+      ];
+
+      expect(PricingService.selectRule(rules, context)).toBeNull();
+    });
+
+    it('breaks ties with the newest rule', () => {
+      const rules = [
+        buildRule({ id: 'old', role: 'reseller' }),
+        buildRule({
+          id: 'new',
+          role: 'reseller',
+          createdAt: new Date('2025-06-01'),
+        }),
+      ];
+
+      expect(PricingService.selectRule(rules, context)?.id).toBe('new');
+    });
+  });
+
+  describe('calculate', () => {
+    it('adds the percentage and fixed parts, rounded to kobo', () => {
+      const quote = PricingService.calculate(
+        { supplierPrice: 97 },
+        buildRule({ id: 'rule-1', ratePercent: 2.5, fixedAmount: 1 })
+      );
+
+      expect(quote).toEqual({
+        supplierPrice: 97,
+        price: 100.43,
+        margin: 3.43,
+        ruleId: 'rule-1',
+      });
+    });
+
+    it('falls back to the configured default markup', () => {
+      const quote = PricingService.calculate({ supplierPrice: 97 }, null);
+
+      expect(quote.price).toBe(102);
+      expect(quote.ruleId).toBeNull();
+    });
+  });
+
+  it('quotes from the active rules for the buyer', async () => {
+    (CommissionModel.findActiveForBuyer as jest.Mock).mockResolvedValue([
+      buildRule({ id: 'reseller', role: 'reseller', fixedAmount: 2 }),
+    ]);
+
+    const quote = await PricingService.quote(context);
+
+    expect(CommissionModel.findActiveForBuyer).toHaveBeenCalledWith(
+      { role: 'reseller', userId: 'user-1' },
+      undefined
+    );
+    expect(quote.price).toBe(99);
+    expect(quote.ruleId).toBe('reseller');
+  });
+});
@@ -0,0 +1,195 @@
+import { CashbackModel } from '../../../../src/models/Cashback';
+import { LedgerModel } from '../../../../src/models/Ledger';
+import {
+  ReferralCommissionLevel,
+  ReferralCommissionLevelModel,
+  ReferralCommissionModel,
+} from '../../../../src/models/ReferralCommission';
+import { TransactionRewardsIntegration } from '../../../../src/services/transactionRewards.integration';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Cashback');
+jest.mock('../../../../src/models/Ledger');
+jest.mock('../../../../src/models/ReferralCommission');
+jest.mock('../../../../src/services/rewards.service');
+
+const monthsAgo = (months: number) => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return date;
+};
+
+const level = (
+  overrides: Partial<ReferralCommissionLevel>
+): ReferralCommissionLevel => ({
+  id: `level-${overrides.level}`,
+  level: 1,
+  percentage: 10,
+  durationMonths: 6,
+  capPerReferee: null,
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+// A transaction whose tables resolve, query by query, to the rows queued for
+// them. Savepoints run on the same mock.
+const mockTrx = (rows: Record<string, any[]>) => {
+  const queues: Record<string, any[]> = { ...rows };
+  const trx: any = jest.fn((table: string) => {
+    const result = (queues[table] || []).shift();
+    const query: any = {
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(result).then(resolve, reject),
+    };
+    ['where', 'whereIn', 'select', 'first', 'forUpdate'].forEach(method => {
+      query[method] = jest.fn(() => query);
+    });
+    return query;
+  });
+  trx.transaction = jest.fn(async (work: any) => work(trx));
+  return trx;
+};
+
+// A topup whose revenue journal kept the given margin in naira
+const mockMargin = (naira: number) => {
+  (LedgerModel.findJournalsByReference as jest.Mock).mockResolvedValue([
+    {
+      entries: [
+        { accountCode: 'revenue', direction: 'credit', amount: naira },
+        { accountCode: 'float', direction: 'debit', amount: naira },
+      ],
+    },
+  ]);
+};
+
+describe('TransactionRewardsIntegration.processReferralCommission', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (LedgerModel.accountCode as jest.Mock).mockReturnValue('revenue');
+    (ReferralCommissionModel.create as jest.Mock).mockImplementation(
+      async data => ({ id: `commission-${data.level}`, ...data })
+    );
+    (ReferralCommissionModel.getEarned as jest.Mock).mockResolvedValue(0);
+  });
+
+  it('pays both levels their share of the margin as cashback', async () => {
+    (ReferralCommissionLevelModel.findActive as jest.Mock).mockResolvedValue([
+      level({ level: 1, percentage: 10 }),
+      level({ level: 2, percentage: 5 }),
+    ]);
+    mockMargin(50);
+    const trx = mockTrx({
+      topup_requests: [{ id: 'topup-1', user_id: 'referee' }],
+      referrals: [
+        { referrer_user_id: 'referrer', created_at: monthsAgo(1) },
+        { referrer_user_id: 'grand-referrer', created_at: monthsAgo(3) },
+      ],
+    });
+
+    const paid = await TransactionRewardsIntegration.processReferralCommission(
+      'topup-1',
+      trx
+    );
+
+    expect(paid.map(c => [c.referrerUserId, c.level, c.amount])).toEqual([
+      ['referrer', 1, 5],
+      ['grand-referrer', 2, 2.5],
+    ]);
+    expect(CashbackModel.addCashback).toHaveBeenCalledWith(
+      'referrer',
+      5,
+      'Level 1 referral commission on a referee topup',
+      'topup-1',
+      trx
+    );
+    expect(CashbackModel.addCashback).toHaveBeenCalledWith(
+      'grand-referrer',
+      2.5,
+      'Level 2 referral commission on a referee topup',
+      'topup-1',
+      trx
+    );
+  });
+
+  it('stops at the cap and after the earning window', async () => {
+    (ReferralCommissionLevelModel.findActive as jest.Mock).mockResolvedValue([
+      level({ level: 1, percentage: 10, capPerReferee: 20 }),
+      level({ level: 2, percentage: 5, durationMonths: 1 }),
+    ]);
+    (ReferralCommissionModel.getEarned as jest.Mock).mockResolvedValue(18.5);
+    mockMargin(50);
+    const trx = mockTrx({
+      topup_requests: [{ id: 'topup-1', user_id: 'referee' }],
+      referrals: [
+        { referrer_user_id: 'referrer', created_at: monthsAgo(2) },
+        { referrer_user_id: 'grand-referrer', created_at: monthsAgo(3) },
+      ],
+    });
+
+    const paid = await TransactionRewardsIntegration.processReferralCommission(
+      'topup-1',
+      trx
+    );
+
+    expect(paid).toHaveLength(1);
+    expect(paid[0]).toMatchObject({ level: 1, amount: 1.5, margin: 50 });
+    expect(CashbackModel.addCashback).toHaveBeenCalledTimes(1);
+  });
+
+  it('pays nothing when the topup left no margin', async () => {
+    (ReferralCommissionLevelModel.findActive as jest.Mock).mockResolvedValue([
+      level({ level: 1 }),
+    ]);
+    mockMargin(0);
+    const trx = mockTrx({
+      topup_requests: [{ id: 'topup-1', user_id: 'referee' }],
+      referrals: [{ referrer_user_id: 'referrer', created_at: monthsAgo(1) }],
+    });
+
+    const paid = await TransactionRewardsIntegration.processReferralCommission(
+      'topup-1',
+      trx
+    );
+
+    expect(paid).toEqual([]);
+    expect(ReferralCommissionModel.create).not.toHaveBeenCalled();
+    expect(CashbackModel.addCashback).not.toHaveBeenCalled();
+  });
+
+  it('does not pay twice for the same topup', async () => {
+    (ReferralCommissionLevelModel.findActive as jest.Mock).mockResolvedValue([
+      level({ level: 1 }),
+    ]);
+    (ReferralCommissionModel.create as jest.Mock).mockResolvedValue(null);
+    mockMargin(50);
+    const trx = mockTrx({
+      topup_requests: [{ id: 'topup-1', user_id: 'referee' }],
+      referrals: [{ referrer_user_id: 'referrer', created_at: monthsAgo(1) }],
+    });
+
+    const paid = await TransactionRewardsIntegration.processReferralCommission(
+      'topup-1',
+      trx
+    );
+
+    expect(paid).toEqual([]);
+    expect(CashbackModel.addCashback).not.toHaveBeenCalled();
+  });
+
+  it('logs failures without throwing', async () => {
+    (ReferralCommissionLevelModel.findActive as jest.Mock).mockRejectedValue(
+      new Error('db down')
+    );
+    const trx = mockTrx({});
+
+    await expect(
+      TransactionRewardsIntegration.processReferralCommission('topup-1', trx)
+    ).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import db from '../../../../src/database/connection';
+import { DeviceFingerprintModel } from '../../../../src/models/DeviceFingerprint';
+import { ReferralModel } from '../../../../src/models/Referral';
+import { RewardModel } from '../../../../src/models/Reward';
+import { ReferralFraudService } from '../../../../src/services/referralFraud.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/DeviceFingerprint');
+jest.mock('../../../../src/models/Referral');
+jest.mock('../../../../src/models/Reward');
+
+const mockedDb = db as unknown as jest.Mock & { transaction: jest.Mock };
+
+// Each table resolves to the rows configured for it, whether awaited
+// directly or through first()
+const mockTables = (rows: Record<string, any[]>) => {
+  mockedDb.mockImplementation((table: string) => {
+    const result = rows[table] || [];
+    const query: any = {
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(result).then(resolve, reject),
+      first: jest.fn(async () => result[0]),
+    };
+    [
+      'where',
+      'orWhere',
+      'whereIn',
+      'whereNot',
+      'join',
+      'select',
+      'count',
+    ].forEach(method => {
+      query[method] = jest.fn(() => query);
+    });
+    return query;
+  });
+};
+
+const prints = (deviceIds: string[], ipAddresses: string[]) => ({
+  deviceIds,
+  ipAddresses,
+});
+
+describe('ReferralFraudService.assess', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (
+      DeviceFingerprintModel.countReferredUsersSharing as jest.Mock
+    ).mockResolvedValue({ device: 0, ip: 0 });
+  });
+
+  it('does not flag unrelated users', async () => {
+    (DeviceFingerprintModel.findByUserId as jest.Mock)
+      .mockResolvedValueOnce(prints(['device-a'], ['10.0.0.1']))
+      .mockResolvedValueOnce(prints(['device-b'], ['10.0.0.2']));
+    mockTables({
+      users: [
+        { id: 'referrer', phone_number: '08031234567' },
+        { id: 'referred', phone_number: '09059876543' },
+      ],
+      wallet_transfers: [{ count: '0' }],
+    });
+
+    const result = await ReferralFraudService.assess('referrer', 'referred');
+
+    expect(result).toEqual({ score: 0, signals: [], flagged: false });
+  });
+
+  it('flags a referee on the referrer device who was funded by them', async () => {
+    (DeviceFingerprintModel.findByUserId as jest.Mock)
+      .mockResolvedValueOnce(prints(['device-a'], ['10.0.0.1']))
+      .mockResolvedValueOnce(prints(['device-a'], ['10.0.0.9']));
+    mockTables({
+      users: [
+        { id: 'referrer', phone_number: '+2348031234567' },
+        { id: 'referred', phone_number: '08031234501' },
+      ],
+      wallet_transfers: [{ count: '1' }],
+    });
+
+    const result = await ReferralFraudService.assess('referrer', 'referred');
+
+    expect(result.signals.map(signal => signal.type)).toEqual([
+      'shared_device',
+      'phone_pattern',
+      'funding_source',
+    ]);
+    expect(result.score).toBe(100);
+    expect(result.flagged).toBe(true);
+  });
+
+  it('flags a device shared by other users the referrer referred', async () => {
+    (DeviceFingerprintModel.findByUserId as jest.Mock)
+      .mockResolvedValueOnce(prints([], []))
+      .mockResolvedValueOnce(prints(['device-x'], ['10.0.0.9']));
+    (
+      DeviceFingerprintModel.countReferredUsersSharing as jest.Mock
+    ).mockResolvedValue({ device: 3, ip: 1 });
+    mockTables({ users: [], wallet_transfers: [{ count: '0' }] });
+
+    const result = await ReferralFraudService.assess('referrer', 'referred');
+
+    expect(result.signals.map(signal => signal.type)).toEqual(['device_farm']);
+    expect(result.flagged).toBe(true);
+  });
+});
+
+describe('ReferralFraudService.approve', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDb.transaction.mockImplementation(async (cb: any) => cb({}));
+  });
+
+  it('releases the held reward', async () => {
+    (ReferralModel.findById as jest.Mock).mockResolvedValue({
+      id: 'referral-1',
+      reviewStatus: 'flagged',
+    });
+    (ReferralModel.review as jest.Mock).mockResolvedValue({
+      id: 'referral-1',
+      reviewStatus: 'approved',
+      rewardId: 'reward-1',
+    });
+
+    await ReferralFraudService.approve('referral-1', 'admin-1', 'Siblings');
+
+    expect(ReferralModel.review).toHaveBeenCalledWith(
+      'referral-1',
+      'approved',
+      'admin-1',
+      'Siblings',
+      {}
+    );
+    expect(RewardModel.releaseHold).toHaveBeenCalledWith('reward-1', {});
+  });
+
+  it('rejects referrals that are not awaiting review', async () => {
+    (ReferralModel.findById as jest.Mock).mockResolvedValue({
+      id: 'referral-1',
+      reviewStatus: 'approved',
+    });
+
+    await expect(
+      ReferralFraudService.approve('referral-1', 'admin-1')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(ReferralModel.review).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+import db from '../../../../src/database/connection';
+import {
+  RewardCatalogueModel,
+  RewardRedemptionModel,
+} from '../../../../src/models/RewardRedemption';
+import { TopupRequestModel } from '../../../../src/models/TopupRequest';
+import { TransactionModel } from '../../../../src/models/Transaction';
+import { LedgerService } from '../../../../src/services/ledger.service';
+import { OperatorDetectionService } from '../../../../src/services/operatorDetection.service';
+import { RewardRedemptionService } from '../../../../src/services/rewardRedemption.service';
+import { RewardsService } from '../../../../src/services/rewards.service';
+import { ApiError } from '../../../../src/utils/ApiError';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Cashback');
+jest.mock('../../../../src/models/RewardRedemption');
+jest.mock('../../../../src/models/TopupRequest');
+jest.mock('../../../../src/models/Transaction');
+jest.mock('../../../../src/services/operatorDetection.service');
+jest.mock('../../../../src/services/rewards.service');
+jest.mock('../../../../src/services/supplierRouting.service');
+jest.mock('../../../../src/services/ledger.service', () => ({
+  LedgerService: {
+    wallet: (userId: string) => ({ type: 'user_wallet', userId }),
+    cashback: (userId: string) => ({ type: 'user_cashback', userId }),
+    accountCode: (ref: any) => `${ref.type}:${ref.userId}`,
+    post: jest.fn(),
+  },
+}));
+
+const mockedDb = db as unknown as jest.Mock & { transaction: jest.Mock };
+const trx: any = { fn: { now: jest.fn() } };
+
+const walletItem = {
+  id: 'item-1',
+  name: 'Wallet credit',
+  type: 'wallet_credit',
+  conversionRate: 0.5,
+  minPoints: 100,
+  perUserLimit: 2,
+  maxPointsPerUser: 1000,
+  capWindowDays: 30,
+  isActive: true,
+  createdAt: new Date(),
+};
+
+describe('RewardRedemptionService.redeem', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDb.transaction.mockImplementation(async (cb: any) => cb(trx));
+    (RewardCatalogueModel.findById as jest.Mock).mockResolvedValue(walletItem);
+    (RewardRedemptionModel.getUsage as jest.Mock).mockResolvedValue({
+      count: 0,
+      points: 0,
+    });
+    (RewardRedemptionModel.create as jest.Mock).mockImplementation(
+      async data => ({ id: 'redemption-1', ...data })
+    );
+    (LedgerService.post as jest.Mock).mockResolvedValue({
+      id: 'journal-1',
+      balances: { 'user_wallet:user-1': 350 },
+    });
+  });
+
+  it('debits the rewards account and credits the wallet', async () => {
+    const redemption = await RewardRedemptionService.redeem('user-1', {
+      itemId: 'item-1',
+      points: 301,
+    });
+
+    expect(RewardsService.spendPoints).toHaveBeenCalledWith(
+      'user-1',
+      301,
+      'redemption',
+      { itemId: 'item-1' },
+      trx
+    );
+    expect(redemption).toMatchObject({ value: 150.5, status: 'completed' });
+    expect(LedgerService.post).toHaveBeenCalledWith(
+      expect.objectContaining({
+        referenceType: 'reward_redemption',
+        referenceId: 'redemption-1',
+        lines: [
+          { account: { type: 'rewards' }, direction: 'debit', amount: 150.5 },
+          {
+            account: { type: 'user_wallet', userId: 'user-1' },
+            direction: 'credit',
+            amount: 150.5,
+          },
+        ],
+      }),
+      trx
+    );
+    expect(TransactionModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        direction: 'credit',
+        amount: 150.5,
+        balanceAfter: 350,
+        relatedType: 'reward_redemption',
+        relatedId: 'redemption-1',
+      }),
+      trx
+    );
+  });
+
+  it('rejects redemptions past the per-user caps', async () => {
+    (RewardRedemptionModel.getUsage as jest.Mock).mockResolvedValue({
+      count: 1,
+      points: 800,
+    });
+
+    await expect(
+      RewardRedemptionService.redeem('user-1', {
+        itemId: 'item-1',
+        points: 300,
+      })
+    ).rejects.toMatchObject({
+      statusCode: 403,
+      message: 'At most 200 more points can be redeemed on this item',
+    });
+    expect(LedgerService.post).not.toHaveBeenCalled();
+  });
+
+  it('refuses a product for a number on another network', async () => {
+    const productTrx = Object.assign(
+      jest.fn(() => ({
+        where: () => ({
+          first: async () => ({ id: 'product-1', operator_id: 'mtn' }),
+        }),
+      })),
+      { fn: { now: jest.fn() } }
+    );
+    mockedDb.transaction.mockImplementationOnce(async (cb: any) =>
+      cb(productTrx)
+    );
+    (RewardCatalogueModel.findById as jest.Mock).mockResolvedValue({
+      ...walletItem,
+      type: 'product',
+      operatorProductId: 'product-1',
+      pointsCost: 500,
+    });
+    (
+      OperatorDetectionService.assertRecipientOperator as jest.Mock
+    ).mockRejectedValue(
+      new ApiError(400, '08051234567 is on Glo; choose a Glo product')
+    );
+
+    await expect(
+      RewardRedemptionService.redeem('user-1', {
+        itemId: 'item-1',
+        recipientPhone: '08051234567',
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(
+      OperatorDetectionService.assertRecipientOperator
+    ).toHaveBeenCalledWith('08051234567', 'mtn', productTrx);
+    expect(TopupRequestModel.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects fewer points than the item minimum', async () => {
+    await expect(
+      RewardRedemptionService.redeem('user-1', { itemId: 'item-1', points: 50 })
+    ).rejects.toBeInstanceOf(ApiError);
+    expect(RewardsService.spendPoints).not.toHaveBeenCalled();
+  });
+});
+
+describe('RewardRedemptionService.failForTopup', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('marks the redemption failed and gives the points back', async () => {
+    (RewardRedemptionModel.findByTopupRequest as jest.Mock).mockResolvedValue({
+      id: 'redemption-1',
+      userId: 'user-1',
+      points: 500,
+      status: 'completed',
+    });
+
+    const redemption = await RewardRedemptionService.failForTopup(
+      'topup-1',
+      'Supplier rejected the top-up',
+      trx
+    );
+
+    expect(redemption?.status).toBe('failed');
+    expect(RewardRedemptionModel.markFailed).toHaveBeenCalledWith(
+      'redemption-1',
+      'Supplier rejected the top-up',
+      trx
+    );
+    expect(RewardsService.returnPoints).toHaveBeenCalledWith(
+      'user-1',
+      500,
+      'redemption_refund',
+      { redemptionId: 'redemption-1' },
+      trx
+    );
+  });
+
+  it('does nothing for topups not bought with points', async () => {
+    (RewardRedemptionModel.findByTopupRequest as jest.Mock).mockResolvedValue(
+      null
+    );
+
+    await expect(
+      RewardRedemptionService.failForTopup('topup-1', 'Failed', trx)
+    ).resolves.toBeNull();
+    expect(RewardsService.returnPoints).not.toHaveBeenCalled();
+  });
+});
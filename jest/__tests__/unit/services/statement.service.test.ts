@@ -0,0 +1,161 @@
+import { TransactionModel } from '../../../../src/models/Transaction';
+import { UserModel } from '../../../../src/models/User';
+import { EmailService } from '../../../../src/services/email.service';
+import { StatementService } from '../../../../src/services/statement.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Transaction');
+jest.mock('../../../../src/models/User');
+jest.mock('../../../../src/services/email.service');
+
+const transaction = (overrides: Record<string, any>) => ({
+  id: 'tx-1',
+  walletId: 'user-1',
+  userId: 'user-1',
+  direction: 'debit',
+  amount: 0,
+  balanceAfter: 0,
+  method: 'wallet',
+  reference: null,
+  relatedType: null,
+  relatedId: null,
+  note: null,
+  createdAt: new Date('2025-12-05T10:00:00Z'),
+  topup: null,
+  ...overrides,
+});
+
+describe('StatementService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserModel.findProfileById as jest.Mock).mockResolvedValue({
+      userId: 'user-1',
+      fullName: 'Ada Obi',
+      email: 'ada@example.com',
+      phoneNumber: '08031234567',
+      accountNumber: '1234567890',
+    });
+    (TransactionModel.findLastBefore as jest.Mock).mockResolvedValue({
+      balanceAfter: 1000,
+    });
+    (TransactionModel.findForStatement as jest.Mock).mockResolvedValue([
+      transaction({
+        id: 'tx-1',
+        direction: 'credit',
+        amount: 5000,
+        balanceAfter: 6000,
+        method: 'bank_transfer',
+        relatedType: 'incoming_payment',
+      }),
+      transaction({
+        id: 'tx-2',
+        amount: 500,
+        balanceAfter: 5500,
+        relatedType: 'topup_request',
+        reference: 'TOPUP-1',
+        topup: {
+          type: 'airtime',
+          recipientPhone: '08031234567',
+          operatorName: 'MTN',
+          productName: null,
+        },
+      }),
+    ]);
+  });
+
+  it('runs from the opening balance to the closing balance', async () => {
+    const statement = await StatementService.build('user-1', {
+      from: '2025-12-01',
+      to: '2025-12-31',
+    });
+
+    expect(TransactionModel.findLastBefore).toHaveBeenCalledWith(
+      'user-1',
+      new Date('2025-12-01T00:00:00Z')
+    );
+    expect(statement.period.to).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(statement).toMatchObject({
+      openingBalance: 1000,
+      closingBalance: 5500,
+      totalCredits: 5000,
+      totalDebits: 500,
+      reconciled: true,
+    });
+    expect(statement.lines.map(line => line.description)).toEqual([
+      'Wallet funding',
+      'MTN airtime top-up for 08031234567',
+    ]);
+  });
+
+  it('reports lines whose recorded balance does not follow', async () => {
+    (TransactionModel.findForStatement as jest.Mock).mockResolvedValue([
+      transaction({ id: 'tx-1', amount: 200, balanceAfter: 700 }),
+      transaction({ id: 'tx-2', amount: 100, balanceAfter: 600 }),
+    ]);
+
+    const statement = await StatementService.build('user-1', {
+      from: '2025-12-01',
+      to: '2025-12-31',
+    });
+
+    expect(statement.reconciled).toBe(false);
+    expect(statement.discrepancies).toEqual([
+      { transactionId: 'tx-1', expectedBalance: 800, recordedBalance: 700 },
+    ]);
+  });
+
+  it('rejects periods that are reversed or longer than a year', async () => {
+    await expect(
+      StatementService.build('user-1', { from: '2025-12-31', to: '2025-12-01' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      StatementService.build('user-1', { from: '2024-01-01', to: '2025-12-31' })
+    ).rejects.toThrow('A statement covers at most 366 days');
+  });
+
+  it('renders CSV and PDF files named for the period', async () => {
+    const statement = await StatementService.build('user-1', {
+      from: '2025-12-01',
+      to: '2025-12-31',
+    });
+
+    const csv = await StatementService.render(statement, 'csv');
+    const lines = csv.content.toString().trim().split('\r\n');
+    expect(csv.fileName).toBe('statement-2025-12-01-to-2025-12-31.csv');
+    expect(lines[1]).toBe(
+      '2025-12-01T00:00:00.000Z,Opening balance,,,,1000.00'
+    );
+    expect(lines[3]).toBe(
+      '2025-12-05T10:00:00.000Z,MTN airtime top-up for 08031234567,TOPUP-1,500.00,,5500.00'
+    );
+
+    const pdf = await StatementService.render(statement, 'pdf');
+    expect(pdf.contentType).toBe('application/pdf');
+    expect(pdf.content.subarray(0, 5).toString()).toBe('%PDF-');
+
+    await expect(StatementService.render(statement, 'xlsx')).rejects.toThrow(
+      'format must be pdf or csv'
+    );
+  });
+
+  it('emails the PDF to the user', async () => {
+    const result = await StatementService.email('user-1', {
+      from: '2025-12-01',
+      to: '2025-12-31',
+    });
+
+    const send = (EmailService as jest.Mock).mock.instances[0]
+      .sendAccountStatementEmail as jest.Mock;
+    expect(send).toHaveBeenCalledWith(
+      'ada@example.com',
+      'Ada Obi',
+      '2025-12-01 to 2025-12-31',
+      expect.any(Buffer),
+      'statement-2025-12-01-to-2025-12-31.pdf'
+    );
+    expect(result.sentTo).toBe('ada@example.com');
+  });
+});
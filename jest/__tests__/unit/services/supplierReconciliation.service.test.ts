@@ -0,0 +1,229 @@
+import db from '../../../../src/database/connection';
+import { SupplierReconciliationModel } from '../../../../src/models/SupplierReconciliation';
+import { SupplierReconciliationService } from '../../../../src/services/supplierReconciliation.service';
+import { ApiError } from '../../../../src/utils/ApiError';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/SupplierReconciliation', () => ({
+  SETTLED_TOPUP_STATUSES: ['success', 'completed'],
+  SupplierReconciliationModel: {
+    create: jest.fn(),
+    insertItems: jest.fn(),
+    findTopupsByReferences: jest.fn(),
+    findSettledTopups: jest.fn(),
+    findById: jest.fn(),
+    findItem: jest.fn(),
+    resolveItem: jest.fn(),
+    lock: jest.fn(),
+    close: jest.fn(),
+  },
+}));
+
+const mockedDb = db as unknown as jest.Mock & { transaction: jest.Mock };
+const Model = SupplierReconciliationModel as jest.Mocked<
+  typeof SupplierReconciliationModel
+>;
+
+const EXT_1 = '11111111-1111-4111-8111-111111111111';
+const EXT_2 = '22222222-2222-4222-8222-222222222222';
+const EXT_3 = '33333333-3333-4333-8333-333333333333';
+const EXT_4 = '44444444-4444-4444-8444-444444444444';
+
+const topup = (id: string, externalId: string, overrides = {}) => ({
+  id,
+  externalId,
+  idempotencyKey: null,
+  amount: 100,
+  supplierPayable: 97,
+  status: 'success',
+  ...overrides,
+});
+
+describe('SupplierReconciliationService.reconcile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const query: any = {
+      where: jest.fn(() => query),
+      first: jest.fn(async () => ({ id: 'sup-1', name: 'Acme' })),
+    };
+    mockedDb.mockImplementation(() => query);
+    mockedDb.transaction.mockImplementation(async (cb: any) => cb({}));
+    Model.create.mockImplementation(async data => ({
+      id: 'rec-1',
+      status: 'open',
+      createdAt: new Date(),
+      ...data,
+    }));
+    Model.findById.mockResolvedValue(null);
+  });
+
+  it('classifies each line and lists settled topups the report left out', async () => {
+    Model.findTopupsByReferences.mockResolvedValue([
+      topup('t1', EXT_1),
+      topup('t2', EXT_2),
+      topup('t3', EXT_3, { status: 'failed' }),
+      topup('t5', '55555555-5555-4555-8555-555555555555', {
+        idempotencyKey: 'idem-5',
+        supplierPayable: null,
+        amount: 50,
+      }),
+    ]);
+    Model.findSettledTopups.mockResolvedValue([
+      topup('t1', EXT_1),
+      topup('t2', EXT_2),
+      topup('t4', EXT_4, { supplierPayable: 20 }),
+    ]);
+
+    const result = await SupplierReconciliationService.reconcile({
+      supplierId: 'sup-1',
+      periodStart: '2025-12-01',
+      periodEnd: '2025-12-31',
+      format: 'csv',
+      content: [
+        'External ID,Amount,Status',
+        `${EXT_1},97.00,success`,
+        `${EXT_2},99.50,success`,
+        `${EXT_3},97.00,success`,
+        'idem-5,50,',
+        `${EXT_1},97.00,success`,
+        'unknown-ref,10,success',
+        ',10,success',
+      ].join('\n'),
+    });
+
+    const [, items] = Model.insertItems.mock.calls[0];
+    expect(items.map(item => [item.reference, item.category])).toEqual([
+      [EXT_1, 'matched'],
+      [EXT_2, 'amount_mismatch'],
+      [EXT_3, 'status_mismatch'],
+      ['idem-5', 'matched'],
+      [EXT_1, 'duplicate'],
+      ['unknown-ref', 'missing_ours'],
+      [EXT_4, 'missing_theirs'],
+    ]);
+    expect(items[6]).toMatchObject({ topupRequestId: 't4', ourAmount: 20 });
+    expect(items[6].lineNumber).toBeUndefined();
+
+    const [created] = Model.create.mock.calls[0];
+    expect(created.periodEnd.toISOString()).toBe('2025-12-31T23:59:59.999Z');
+    expect(created.summary).toEqual({
+      totalLines: 7,
+      invalidLines: 1,
+      matched: 2,
+      amountMismatch: 1,
+      statusMismatch: 1,
+      duplicate: 1,
+      missingOurs: 1,
+      missingTheirs: 1,
+      theirTotal: 450.5,
+      ourTotal: 264,
+      difference: 186.5,
+    });
+    expect(result.errors).toEqual([
+      { line: 8, reason: 'Missing or malformed reference' },
+    ]);
+  });
+
+  it('matches lines by the topup ID the supplier was sent', async () => {
+    const topupId = '66666666-6666-4666-8666-666666666666';
+    Model.findTopupsByReferences.mockResolvedValue([
+      topup(topupId, EXT_1, { supplierPayable: 97 }),
+    ]);
+    Model.findSettledTopups.mockResolvedValue([topup(topupId, EXT_1)]);
+
+    await SupplierReconciliationService.reconcile({
+      supplierId: 'sup-1',
+      periodStart: '2025-12-01',
+      periodEnd: '2025-12-31',
+      format: 'csv',
+      content: ['Reference,Amount,Status', `${topupId},97.00,success`].join(
+        '\n'
+      ),
+    });
+
+    const [, items] = Model.insertItems.mock.calls[0];
+    expect(items).toEqual([
+      expect.objectContaining({
+        topupRequestId: topupId,
+        category: 'matched',
+        ourAmount: 97,
+      }),
+    ]);
+  });
+
+  it('reads JSON reports and treats failed lines as not charged', async () => {
+    Model.findTopupsByReferences.mockResolvedValue([
+      topup('t1', EXT_1, { status: 'failed' }),
+    ]);
+    Model.findSettledTopups.mockResolvedValue([]);
+
+    await SupplierReconciliationService.reconcile({
+      supplierId: 'sup-1',
+      periodStart: '2025-12-01',
+      periodEnd: '2025-12-31',
+      format: 'json',
+      content: JSON.stringify({
+        items: [{ externalId: EXT_1, amount: 97, status: 'FAILED' }],
+      }),
+    });
+
+    const [, items] = Model.insertItems.mock.calls[0];
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      category: 'matched',
+      theirStatus: 'failed',
+    });
+    expect(Model.create.mock.calls[0][0].summary).toMatchObject({
+      theirTotal: 0,
+      ourTotal: 0,
+    });
+  });
+
+  it('rejects a CSV without a reference column', async () => {
+    await expect(
+      SupplierReconciliationService.reconcile({
+        supplierId: 'sup-1',
+        periodStart: '2025-12-01',
+        periodEnd: '2025-12-31',
+        format: 'csv',
+        content: 'amount\n10',
+      })
+    ).rejects.toThrow(ApiError);
+    expect(Model.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SupplierReconciliationService resolving and closing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDb.transaction.mockImplementation(async (cb: any) => cb({}));
+    Model.lock.mockResolvedValue({ status: 'open' });
+  });
+
+  it('refuses to resolve a matched item', async () => {
+    Model.resolveItem.mockResolvedValue(null);
+    Model.findItem.mockResolvedValue({ category: 'matched' } as any);
+
+    const error = await SupplierReconciliationService.resolveItem(
+      'rec-1',
+      'item-1',
+      'accepted',
+      undefined
+    ).catch(e => e);
+
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe('Matched items need no resolution');
+  });
+
+  it('will not close while differences are unresolved', async () => {
+    Model.findById.mockResolvedValue({ id: 'rec-1', openItems: 2 } as any);
+
+    await expect(SupplierReconciliationService.close('rec-1')).rejects.toThrow(
+      '2 difference(s) are still unresolved'
+    );
+    expect(Model.close).not.toHaveBeenCalled();
+  });
+});
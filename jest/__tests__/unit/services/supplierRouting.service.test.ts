@@ -0,0 +1,65 @@
+import {
+  SupplierRoute,
+  SupplierRoutingService,
+} from '../../../../src/services/supplierRouting.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+const buildRoute = (overrides: Partial<SupplierRoute>): SupplierRoute => ({
+  supplierId: 'supplier',
+  supplierSlug: 'supplier',
+  supplierName: 'Supplier',
+  priorityInt: 1,
+  supplierMappingId: 'mapping',
+  supplierProductCode: 'CODE',
+  supplierPrice: 100,
+  leadTimeSeconds: 30,
+  recentAttempts: 0,
+  successRate: null,
+  healthy: true,
+  ...overrides,
+});
+
+const ids = (routes: SupplierRoute[]) => routes.map(route => route.supplierId);
+
+describe('SupplierRoutingService.rank', () => {
+  it('prefers the lowest priority_int', () => {
+    const ranked = SupplierRoutingService.rank([
+      buildRoute({ supplierId: 'b', priorityInt: 2, supplierPrice: 90 }),
+      buildRoute({ supplierId: 'a', priorityInt: 1, supplierPrice: 100 }),
+    ]);
+    expect(ids(ranked)).toEqual(['a', 'b']);
+  });
+
+  it('breaks priority ties on supplier price', () => {
+    const ranked = SupplierRoutingService.rank([
+      buildRoute({ supplierId: 'pricey', supplierPrice: 99 }),
+      buildRoute({ supplierId: 'cheap', supplierPrice: 97 }),
+    ]);
+    expect(ids(ranked)).toEqual(['cheap', 'pricey']);
+  });
+
+  it('breaks price ties on recent success rate', () => {
+    const ranked = SupplierRoutingService.rank([
+      buildRoute({ supplierId: 'ok', successRate: 0.7 }),
+      buildRoute({ supplierId: 'great', successRate: 0.95 }),
+    ]);
+    expect(ids(ranked)).toEqual(['great', 'ok']);
+  });
+
+  it('moves unhealthy suppliers behind healthy ones', () => {
+    const ranked = SupplierRoutingService.rank([
+      buildRoute({
+        supplierId: 'flaky',
+        priorityInt: 1,
+        successRate: 0.2,
+        healthy: false,
+      }),
+      buildRoute({ supplierId: 'steady', priorityInt: 5 }),
+    ]);
+    expect(ids(ranked)).toEqual(['steady', 'flaky']);
+  });
+});
@@ -0,0 +1,100 @@
+import db from '../../../../src/database/connection';
+import { SupplierModel } from '../../../../src/models/Supplier';
+import { TopupRequestModel } from '../../../../src/models/TopupRequest';
+import { TopupWebhookService } from '../../../../src/services/topup.webhook.service';
+import { TopupReversalService } from '../../../../src/services/topupReversal.service';
+import { TransactionRewardsIntegration } from '../../../../src/services/transactionRewards.integration';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn() },
+}));
+jest.mock('../../../../src/models/Supplier');
+jest.mock('../../../../src/models/TopupRequest');
+jest.mock('../../../../src/services/topupReversal.service');
+jest.mock('../../../../src/services/transactionRewards.integration');
+
+// Every query on the transaction chains back to it
+const createMockTrx = () => {
+  const trx: any = jest.fn(() => trx);
+  ['where', 'forUpdate'].forEach(method => {
+    trx[method] = jest.fn(() => trx);
+  });
+  trx.first = jest.fn().mockResolvedValue(undefined);
+  trx.insert = jest.fn().mockResolvedValue([]);
+  trx.update = jest.fn().mockResolvedValue(1);
+  trx.fn = { now: jest.fn() };
+  return trx;
+};
+
+const callback = (status: string) => ({
+  transaction: {
+    status,
+    customer_reference: 'topup-1',
+    memo: `Vendor says ${status}`,
+  },
+});
+
+describe('TopupWebhookService', () => {
+  let trx: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    trx = createMockTrx();
+    (db.transaction as jest.Mock).mockImplementation(async (cb: any) =>
+      cb(trx)
+    );
+    // Supplier A failed and the request failed over to supplier B
+    (TopupRequestModel.findById as jest.Mock).mockResolvedValue({
+      id: 'topup-1',
+      status: 'processing',
+      supplierId: 'supplier-b',
+    });
+    (TopupRequestModel.findHops as jest.Mock).mockResolvedValue([
+      { supplierId: 'supplier-a' },
+      { supplierId: 'supplier-b' },
+    ]);
+    (SupplierModel.findBySlug as jest.Mock).mockImplementation(
+      async (slug: string) => ({ id: `supplier-${slug}`, slug })
+    );
+  });
+
+  it('ignores a failure callback from the supplier it failed over from', async () => {
+    const result = await TopupWebhookService.processTopupWebhook(
+      callback('failed'),
+      'a'
+    );
+
+    expect(result).toMatchObject({ success: true });
+    expect(trx.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topup_request_id: 'topup-1',
+        supplier_id: 'supplier-a',
+      })
+    );
+    expect(trx.update).not.toHaveBeenCalled();
+    expect(TopupReversalService.reverse).not.toHaveBeenCalled();
+  });
+
+  it('lets the current supplier resolve the request', async () => {
+    const result = await TopupWebhookService.processTopupWebhook(
+      callback('success'),
+      'b'
+    );
+
+    expect(result.message).toBe('Top-up successful');
+    expect(trx.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'success' })
+    );
+    expect(
+      TransactionRewardsIntegration.processReferralCommission
+    ).toHaveBeenCalledWith('topup-1', trx);
+  });
+
+  it('does not let an unnamed supplier resolve a request that failed over', async () => {
+    await TopupWebhookService.processTopupWebhook(callback('failed'));
+
+    expect(trx.update).not.toHaveBeenCalled();
+    expect(TopupReversalService.reverse).not.toHaveBeenCalled();
+  });
+});
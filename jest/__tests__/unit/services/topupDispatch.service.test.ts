@@ -0,0 +1,356 @@
+import db from '../../../../src/database/connection';
+import { LedgerModel } from '../../../../src/models/Ledger';
+import { SupplierModel } from '../../../../src/models/Supplier';
+import { TopupRequestModel } from '../../../../src/models/TopupRequest';
+import { LedgerService } from '../../../../src/services/ledger.service';
+import { MockSupplierAdapter } from '../../../../src/services/mockSupplier.adapter';
+import { SupplierAdapterRegistry } from '../../../../src/services/supplierAdapter.registry';
+import { SupplierRoutingService } from '../../../../src/services/supplierRouting.service';
+import { TopupDispatchService } from '../../../../src/services/topupDispatch.service';
+import { TopupReversalService } from '../../../../src/services/topupReversal.service';
+import { TransactionRewardsIntegration } from '../../../../src/services/transactionRewards.integration';
+import { DispatchableTopupRequest } from '../../../../src/types/topup.types';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn() },
+}));
+jest.mock('../../../../src/models/Supplier');
+jest.mock('../../../../src/models/TopupRequest');
+jest.mock('../../../../src/services/supplierRouting.service');
+jest.mock('../../../../src/services/topupReversal.service');
+jest.mock('../../../../src/services/transactionRewards.integration');
+
+const buildRequest = (
+  overrides: Partial<DispatchableTopupRequest> = {}
+): DispatchableTopupRequest => ({
+  id: 'topup-1',
+  userId: 'user-1',
+  recipientPhone: '08031234567',
+  amount: 100,
+  type: 'airtime',
+  idempotencyKey: 'idem-1',
+  attemptCount: 1,
+  dispatchClaims: 1,
+  supplierId: 'supplier-1',
+  supplierMappingId: 'mapping-1',
+  supplierProductCode: 'SUP-001',
+  leadTimeSeconds: 30,
+  operatorProductId: 'product-1',
+  ...overrides,
+});
+
+describe('TopupDispatchService', () => {
+  const trx = {} as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.transaction as jest.Mock).mockImplementation(async (cb: any) =>
+      cb(trx)
+    );
+    (SupplierModel.findById as jest.Mock).mockResolvedValue({
+      id: 'supplier-1',
+      slug: 'mock',
+      isActive: true,
+    });
+    (TopupRequestModel.updateStatus as jest.Mock).mockResolvedValue(true);
+    (TopupRequestModel.startDispatch as jest.Mock).mockResolvedValue(true);
+    (TopupRequestModel.reassignSupplier as jest.Mock).mockResolvedValue(true);
+    (SupplierRoutingService.nextRoute as jest.Mock).mockResolvedValue(null);
+    jest.spyOn(LedgerModel, 'findJournalsByReference').mockResolvedValue([]);
+    jest.spyOn(LedgerService, 'post').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    SupplierAdapterRegistry.register(new MockSupplierAdapter());
+  });
+
+  it('marks the request successful and records the attempt', async () => {
+    const status = await TopupDispatchService.dispatch(buildRequest());
+
+    expect(status).toBe('success');
+    expect(TopupRequestModel.recordResponse).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topupRequestId: 'topup-1',
+        supplierId: 'supplier-1',
+        responseCode: '00',
+      }),
+      trx
+    );
+    expect(TopupRequestModel.updateStatus).toHaveBeenCalledWith(
+      'topup-1',
+      'success',
+      ['processing'],
+      trx
+    );
+    expect(TopupReversalService.reverse).not.toHaveBeenCalled();
+    expect(
+      TransactionRewardsIntegration.processReferralCommission
+    ).toHaveBeenCalledWith('topup-1', trx);
+  });
+
+  it('moves vendor-accepted requests to pending_confirmation', async () => {
+    const status = await TopupDispatchService.dispatch(
+      buildRequest({ recipientPhone: '08039999999' })
+    );
+    expect(status).toBe('pending_confirmation');
+  });
+
+  it('fails and reverses when the supplier rejects the request', async () => {
+    const request = buildRequest({ recipientPhone: '08030000000' });
+    const status = await TopupDispatchService.dispatch(request);
+
+    expect(status).toBe('failed');
+    expect(TopupReversalService.reverse).toHaveBeenCalledWith(
+      request.id,
+      expect.objectContaining({ reason: expect.any(String) }),
+      trx
+    );
+  });
+
+  it('does not reverse when a webhook already resolved the request', async () => {
+    (TopupRequestModel.updateStatus as jest.Mock).mockResolvedValue(false);
+    await TopupDispatchService.dispatch(
+      buildRequest({ recipientPhone: '08030000000' })
+    );
+    expect(TopupReversalService.reverse).not.toHaveBeenCalled();
+  });
+
+  it('fails with NO_ADAPTER when no adapter matches the supplier slug', async () => {
+    (SupplierModel.findById as jest.Mock).mockResolvedValue({
+      id: 'supplier-1',
+      slug: 'unknown-vendor',
+      isActive: true,
+    });
+
+    const status = await TopupDispatchService.dispatch(buildRequest());
+
+    expect(status).toBe('failed');
+    expect(TopupRequestModel.recordResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ responseCode: 'NO_ADAPTER' }),
+      trx
+    );
+  });
+
+  it('treats a supplier that exceeds the lead time as a timeout', async () => {
+    SupplierAdapterRegistry.register(new MockSupplierAdapter({ delayMs: 50 }));
+
+    const status = await TopupDispatchService.dispatch(
+      buildRequest({ leadTimeSeconds: 0.01 })
+    );
+
+    expect(status).toBe('failed');
+    expect(TopupRequestModel.recordResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ responseCode: 'TIMEOUT' }),
+      trx
+    );
+  });
+
+  it('summarises a claimed batch', async () => {
+    (TopupRequestModel.claimPendingForDispatch as jest.Mock).mockResolvedValue([
+      buildRequest({ id: 'a' }),
+      buildRequest({ id: 'b', recipientPhone: '08030000000' }),
+      buildRequest({ id: 'c', recipientPhone: '08039999999' }),
+    ]);
+
+    const summary = await TopupDispatchService.dispatchPending(5);
+
+    expect(TopupRequestModel.claimPendingForDispatch).toHaveBeenCalledWith(
+      5,
+      10,
+      5
+    );
+    expect(summary).toEqual({
+      claimed: 3,
+      success: 1,
+      failed: 1,
+      pendingConfirmation: 1,
+      errored: 0,
+    });
+  });
+
+  it('keeps dispatching the batch when one request throws', async () => {
+    (TopupRequestModel.claimPendingForDispatch as jest.Mock).mockResolvedValue([
+      buildRequest({ id: 'a' }),
+      buildRequest({ id: 'b' }),
+    ]);
+    (SupplierModel.findById as jest.Mock)
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValue({ id: 'supplier-1', slug: 'mock', isActive: true });
+
+    const summary = await TopupDispatchService.dispatchPending(5);
+
+    expect(summary).toMatchObject({ claimed: 2, errored: 1, success: 1 });
+    expect(TopupRequestModel.updateStatus).toHaveBeenCalledWith(
+      'b',
+      'success',
+      ['processing'],
+      trx
+    );
+  });
+
+  it('skips a request another dispatcher took over while it waited', async () => {
+    (TopupRequestModel.claimPendingForDispatch as jest.Mock).mockResolvedValue([
+      buildRequest({ id: 'a', dispatchClaims: 2 }),
+      buildRequest({ id: 'b' }),
+    ]);
+    (TopupRequestModel.startDispatch as jest.Mock).mockResolvedValueOnce(false);
+
+    const summary = await TopupDispatchService.dispatchPending(5);
+
+    expect(TopupRequestModel.startDispatch).toHaveBeenCalledWith('a', 2);
+    expect(summary).toMatchObject({ claimed: 2, errored: 1, success: 1 });
+    expect(TopupRequestModel.updateStatus).toHaveBeenCalledTimes(1);
+    expect(TopupRequestModel.updateStatus).toHaveBeenCalledWith(
+      'b',
+      'success',
+      ['processing'],
+      trx
+    );
+  });
+
+  describe('failover', () => {
+    const backupRoute = {
+      supplierId: 'supplier-2',
+      supplierSlug: 'backup',
+      supplierName: 'Backup',
+      priorityInt: 2,
+      supplierMappingId: 'mapping-2',
+      supplierProductCode: 'BK-001',
+      supplierPrice: 98,
+      leadTimeSeconds: 30,
+      recentAttempts: 0,
+      successRate: null,
+      healthy: true,
+    };
+
+    beforeEach(() => {
+      SupplierAdapterRegistry.register(
+        new MockSupplierAdapter({ slug: 'backup' })
+      );
+      (SupplierModel.findById as jest.Mock).mockImplementation(
+        async (id: string) => ({
+          id,
+          slug: id === 'supplier-1' ? 'unknown-vendor' : 'backup',
+          isActive: true,
+        })
+      );
+    });
+
+    afterEach(() => {
+      SupplierAdapterRegistry.unregister('backup');
+    });
+
+    it('retries the next ranked supplier when the first one fails', async () => {
+      (SupplierRoutingService.nextRoute as jest.Mock).mockResolvedValueOnce(
+        backupRoute
+      );
+
+      const status = await TopupDispatchService.dispatch(buildRequest());
+
+      expect(status).toBe('success');
+      expect(SupplierRoutingService.nextRoute).toHaveBeenCalledTimes(1);
+      expect(TopupRequestModel.reassignSupplier).toHaveBeenCalledWith(
+        'topup-1',
+        backupRoute,
+        trx
+      );
+      expect(TopupRequestModel.recordResponse).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          supplierId: 'supplier-1',
+          responseCode: 'NO_ADAPTER',
+          responsePayload: expect.objectContaining({ failedOver: true }),
+        }),
+        trx
+      );
+      expect(TopupRequestModel.recordResponse).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          supplierId: 'supplier-2',
+          responsePayload: expect.objectContaining({
+            status: 'success',
+            supplierMappingId: 'mapping-2',
+            attempt: 2,
+          }),
+        }),
+        trx
+      );
+      expect(TopupReversalService.reverse).not.toHaveBeenCalled();
+    });
+
+    it('moves the supplier payable to the backup route price', async () => {
+      const code = (type: string) => LedgerService.accountCode({ type } as any);
+      (LedgerModel.findJournalsByReference as jest.Mock).mockResolvedValue([
+        {
+          entries: [
+            {
+              accountCode: code('user_wallet'),
+              direction: 'debit',
+              amount: 100,
+            },
+            {
+              accountCode: code('supplier_payable'),
+              direction: 'credit',
+              amount: 95,
+            },
+            { accountCode: code('revenue'), direction: 'credit', amount: 5 },
+          ],
+        },
+      ]);
+      (SupplierRoutingService.nextRoute as jest.Mock).mockResolvedValueOnce(
+        backupRoute
+      );
+
+      await TopupDispatchService.dispatch(buildRequest());
+
+      expect(LedgerService.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          referenceType: 'topup_request',
+          referenceId: 'topup-1',
+          lines: [
+            { account: { type: 'revenue' }, direction: 'debit', amount: 3 },
+            {
+              account: { type: 'supplier_payable' },
+              direction: 'credit',
+              amount: 3,
+            },
+          ],
+        }),
+        trx
+      );
+    });
+
+    it('reverses once every candidate supplier has failed', async () => {
+      (SupplierRoutingService.nextRoute as jest.Mock).mockResolvedValueOnce(
+        backupRoute
+      );
+
+      const status = await TopupDispatchService.dispatch(
+        buildRequest({ recipientPhone: '08030000000' })
+      );
+
+      expect(status).toBe('failed');
+      expect(SupplierRoutingService.nextRoute).toHaveBeenLastCalledWith(
+        'product-1',
+        ['supplier-1', 'supplier-2']
+      );
+      expect(TopupReversalService.reverse).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops failing over if the request left processing', async () => {
+      (SupplierRoutingService.nextRoute as jest.Mock).mockResolvedValueOnce(
+        backupRoute
+      );
+      (TopupRequestModel.reassignSupplier as jest.Mock).mockResolvedValue(
+        false
+      );
+
+      await TopupDispatchService.dispatch(buildRequest());
+
+      expect(SupplierModel.findById).toHaveBeenCalledTimes(1);
+      expect(TopupRequestModel.updateStatus).not.toHaveBeenCalled();
+      expect(TopupReversalService.reverse).not.toHaveBeenCalled();
+    });
+  });
+});
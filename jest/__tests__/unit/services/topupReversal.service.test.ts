@@ -0,0 +1,334 @@
+import { CashbackModel } from '../../../../src/models/Cashback';
+import db from '../../../../src/database/connection';
+import { LedgerModel } from '../../../../src/models/Ledger';
+import { OfferModel } from '../../../../src/models/Offer';
+import { SupplierModel } from '../../../../src/models/Supplier';
+import { TopupRequestModel } from '../../../../src/models/TopupRequest';
+import { TopupReversalModel } from '../../../../src/models/TopupReversal';
+import { TransactionModel } from '../../../../src/models/Transaction';
+import { LedgerService } from '../../../../src/services/ledger.service';
+import { MockSupplierAdapter } from '../../../../src/services/mockSupplier.adapter';
+import { SupplierAdapterRegistry } from '../../../../src/services/supplierAdapter.registry';
+import { TopupReversalService } from '../../../../src/services/topupReversal.service';
+import { ApiError } from '../../../../src/utils/ApiError';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn() },
+}));
+jest.mock('../../../../src/models/Cashback');
+jest.mock('../../../../src/models/Ledger');
+jest.mock('../../../../src/models/Offer');
+jest.mock('../../../../src/models/Supplier');
+jest.mock('../../../../src/models/TopupRequest');
+jest.mock('../../../../src/models/TopupReversal');
+jest.mock('../../../../src/models/Transaction');
+jest.mock('../../../../src/services/ledger.service', () => ({
+  LedgerService: {
+    wallet: (userId: string) => ({ type: 'user_wallet', userId }),
+    cashback: (userId: string) => ({ type: 'user_cashback', userId }),
+    accountCode: (ref: any) => `${ref.type}:${ref.userId}`,
+    post: jest.fn(),
+  },
+}));
+
+// Minimal chainable stand-in for the queries the reversal makes
+const createMockTrx = (rows: Record<string, any>) => {
+  const updates: { table: string; data: any }[] = [];
+  const trx: any = jest.fn((table: string) => {
+    const query: any = {
+      select: jest.fn(() => query),
+      sum: jest.fn(() => query),
+      where: jest.fn(() => query),
+      whereIn: jest.fn(() => query),
+      forUpdate: jest.fn(() => query),
+      first: jest.fn(async () => rows[table]),
+      groupBy: jest.fn(async () => rows[table]),
+      update: jest.fn(async (data: any) => {
+        updates.push({ table, data });
+        return 1;
+      }),
+    };
+    return query;
+  });
+  trx.raw = jest.fn(sql => sql);
+  trx.fn = { now: jest.fn(() => 'now()') };
+  trx.updates = updates;
+  return trx;
+};
+
+const charges = {
+  walletDebited: 0,
+  walletRefunded: 0,
+  cashbackRedeemed: 0,
+  cashbackEarned: 0,
+  cashbackAvailable: 0,
+  supplierPayable: 0,
+};
+
+describe('TopupReversalService.plan', () => {
+  it('refunds what was charged, not the face value', () => {
+    const plan = TopupReversalService.plan({
+      ...charges,
+      walletDebited: 95,
+      cashbackRedeemed: 7,
+      supplierPayable: 97,
+    });
+
+    expect(plan).toMatchObject({
+      walletRefund: 95,
+      cashbackRefund: 7,
+      supplierPayableReversed: 97,
+      revenueReversed: 5,
+    });
+  });
+
+  it('claws back earned cashback from the cashback balance first', () => {
+    const plan = TopupReversalService.plan({
+      ...charges,
+      walletDebited: 102,
+      cashbackEarned: 3,
+      cashbackAvailable: 10,
+      supplierPayable: 97,
+    });
+
+    expect(plan).toMatchObject({
+      walletRefund: 102,
+      cashbackClawback: 3,
+      clawbackFromWallet: 0,
+      unrecoveredCashback: 0,
+    });
+  });
+
+  it('recovers spent cashback from the wallet refund', () => {
+    const plan = TopupReversalService.plan({
+      ...charges,
+      walletDebited: 102,
+      cashbackEarned: 3,
+      cashbackAvailable: 1,
+      supplierPayable: 97,
+    });
+
+    expect(plan).toMatchObject({
+      walletRefund: 100,
+      cashbackClawback: 1,
+      clawbackFromWallet: 2,
+      unrecoveredCashback: 0,
+    });
+  });
+
+  it('only refunds what has not been credited back already', () => {
+    const plan = TopupReversalService.plan({
+      ...charges,
+      walletDebited: 102,
+      walletRefunded: 100,
+    });
+
+    expect(plan.walletRefund).toBe(2);
+    expect(plan.revenueReversed).toBe(2);
+  });
+});
+
+describe('TopupReversalService.reverse', () => {
+  const request = { id: 'topup-1', user_id: 'user-1', status: 'failed' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (TopupReversalModel.findByTopupRequestId as jest.Mock).mockResolvedValue(
+      null
+    );
+    (TopupReversalModel.create as jest.Mock).mockImplementation(async data => ({
+      id: 'reversal-1',
+      ...data,
+    }));
+    (LedgerModel.findJournalsByReference as jest.Mock).mockResolvedValue([
+      {
+        id: 'journal-0',
+        entries: [
+          { accountCode: 'supplier_payable', direction: 'credit', amount: 97 },
+        ],
+      },
+    ]);
+    (LedgerService.post as jest.Mock).mockResolvedValue({
+      id: 'journal-1',
+      balances: { 'user_wallet:user-1': 600 },
+    });
+    (TransactionModel.create as jest.Mock).mockResolvedValue({ id: 'txn-1' });
+  });
+
+  it('posts a balanced reversal and marks the request reversed', async () => {
+    const trx = createMockTrx({
+      topup_requests: request,
+      transactions: { debited: '95.00', refunded: '0' },
+      cashback_transactions: [
+        { type: 'redeemed', amount: '7.00' },
+        { type: 'earned', amount: '3.00' },
+      ],
+      cashback: { available_balance: '0.00' },
+    });
+
+    const result = await TopupReversalService.reverse(
+      'topup-1',
+      { reason: 'Supplier rejected the top-up' },
+      trx
+    );
+
+    expect(result.alreadyReversed).toBe(false);
+    const { lines } = (LedgerService.post as jest.Mock).mock.calls[0][0];
+    const total = (direction: string) =>
+      lines
+        .filter((line: any) => line.direction === direction)
+        .reduce((sum: number, line: any) => sum + line.amount, 0);
+    expect(total('debit')).toBeCloseTo(total('credit'));
+
+    expect(TransactionModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        direction: 'credit',
+        amount: 95,
+        balanceAfter: 600,
+        method: 'reversal',
+        relatedId: 'topup-1',
+      }),
+      trx
+    );
+    expect(CashbackModel.recordReversal).toHaveBeenCalledWith(
+      'user-1',
+      7,
+      3,
+      'topup-1',
+      trx
+    );
+    expect(OfferModel.releaseRedemptionsForTopup).toHaveBeenCalledWith(
+      'topup-1',
+      trx
+    );
+    expect(trx.updates).toContainEqual({
+      table: 'topup_requests',
+      data: expect.objectContaining({ status: 'reversed' }),
+    });
+    expect(result.reversal).toMatchObject({
+      walletRefund: 95,
+      cashbackRefund: 7,
+      cashbackClawback: 3,
+      journalId: 'journal-1',
+      transactionId: 'txn-1',
+    });
+  });
+
+  it('returns the existing reversal instead of refunding twice', async () => {
+    const existing = { id: 'reversal-1', topupRequestId: 'topup-1' };
+    (TopupReversalModel.findByTopupRequestId as jest.Mock).mockResolvedValue(
+      existing
+    );
+    const trx = createMockTrx({
+      topup_requests: { ...request, status: 'reversed' },
+    });
+
+    const result = await TopupReversalService.reverse(
+      'topup-1',
+      { reason: 'Retry' },
+      trx
+    );
+
+    expect(result).toEqual({ reversal: existing, alreadyReversed: true });
+    expect(LedgerService.post).not.toHaveBeenCalled();
+    expect(TopupReversalModel.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses to reverse a successful top-up', async () => {
+    const trx = createMockTrx({
+      topup_requests: { ...request, status: 'success' },
+    });
+
+    await expect(
+      TopupReversalService.reverse('topup-1', { reason: 'Mistake' }, trx)
+    ).rejects.toBeInstanceOf(ApiError);
+    expect(LedgerService.post).not.toHaveBeenCalled();
+  });
+
+  it('refuses to reverse a top-up a supplier is still handling', async () => {
+    const trx = createMockTrx({
+      topup_requests: { ...request, status: 'processing' },
+    });
+
+    await expect(
+      TopupReversalService.reverse('topup-1', { reason: 'Stuck' }, trx)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(LedgerService.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('TopupReversalService.reverseByAdmin', () => {
+  const awaiting = {
+    id: 'topup-1',
+    userId: 'user-1',
+    status: 'pending_confirmation',
+    supplierId: 'supplier-1',
+    idempotencyKey: 'idem-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SupplierModel.findById as jest.Mock).mockResolvedValue({
+      id: 'supplier-1',
+      slug: 'mock',
+    });
+    (TopupRequestModel.updateStatus as jest.Mock).mockResolvedValue(true);
+    (db.transaction as jest.Mock).mockImplementation(async (cb: any) =>
+      cb(createMockTrx({ topup_requests: { ...awaiting, status: 'failed' } }))
+    );
+  });
+
+  it('keeps an unconfirmed top-up until the supplier reports it failed', async () => {
+    (TopupRequestModel.findById as jest.Mock).mockResolvedValue({
+      ...awaiting,
+      recipientPhone: '08039999999',
+    });
+
+    await expect(
+      TopupReversalService.reverseByAdmin('topup-1', { reason: 'Stuck' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(TopupRequestModel.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('fails and reverses the top-up once the supplier confirms', async () => {
+    (TopupRequestModel.findById as jest.Mock).mockResolvedValue({
+      ...awaiting,
+      recipientPhone: '08030000000',
+    });
+    const reverse = jest
+      .spyOn(TopupReversalService, 'reverse')
+      .mockResolvedValue({ reversal: {} as any, alreadyReversed: false });
+
+    await TopupReversalService.reverseByAdmin('topup-1', { reason: 'Stuck' });
+
+    expect(TopupRequestModel.updateStatus).toHaveBeenCalledWith(
+      'topup-1',
+      'failed',
+      ['pending_confirmation'],
+      expect.anything()
+    );
+    expect(reverse).toHaveBeenCalledWith(
+      'topup-1',
+      { reason: 'Stuck' },
+      expect.anything()
+    );
+    reverse.mockRestore();
+  });
+
+  it('cannot confirm with a supplier that has no status API', async () => {
+    SupplierAdapterRegistry.register({
+      slug: 'mock',
+      dispatch: jest.fn(),
+    });
+    (TopupRequestModel.findById as jest.Mock).mockResolvedValue({
+      ...awaiting,
+      recipientPhone: '08030000000',
+    });
+
+    await expect(
+      TopupReversalService.reverseByAdmin('topup-1', { reason: 'Stuck' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    SupplierAdapterRegistry.register(new MockSupplierAdapter());
+  });
+});
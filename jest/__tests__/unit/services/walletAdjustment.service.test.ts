@@ -0,0 +1,254 @@
+import { config } from '../../../../src/config/env';
+import db from '../../../../src/database/connection';
+import { AdminModel } from '../../../../src/models/Admin';
+import { UserModel } from '../../../../src/models/User';
+import { WalletAdjustmentRequestModel } from '../../../../src/models/WalletAdjustmentRequest';
+import { NotificationService } from '../../../../src/services/notification.service';
+import { WalletAdjustmentService } from '../../../../src/services/walletAdjustment.service';
+
+jest.mock('../../../../src/database/connection', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { transaction: jest.fn() }),
+}));
+jest.mock('../../../../src/models/Admin');
+jest.mock('../../../../src/models/User');
+jest.mock('../../../../src/models/WalletAdjustmentRequest');
+jest.mock('../../../../src/services/notification.service');
+
+const trx = {};
+const pendingRequest = {
+  id: 'request-1',
+  userId: 'user-1',
+  direction: 'credit',
+  amount: 75000,
+  reason: 'Refund for failed bulk order',
+  status: 'pending',
+  requestedBy: 'admin-1',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+describe('WalletAdjustmentService', () => {
+  const threshold = config.walletAdjustments.approvalThreshold;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.transaction as unknown as jest.Mock).mockImplementation(callback =>
+      callback(trx)
+    );
+    (AdminModel.getAdjustedTotalSince as jest.Mock).mockResolvedValue(0);
+  });
+
+  it('applies adjustments up to the threshold straight away', async () => {
+    (AdminModel.creditWallet as jest.Mock).mockResolvedValue({
+      newBalance: 1500,
+    });
+    const audit = jest.fn();
+
+    const result = await WalletAdjustmentService.adjust(
+      'user-1',
+      'credit',
+      threshold,
+      'admin-1',
+      'Goodwill',
+      audit
+    );
+
+    expect(result).toEqual({ status: 'applied', newBalance: 1500 });
+    expect(AdminModel.creditWallet).toHaveBeenCalledWith(
+      'user-1',
+      threshold,
+      'admin-1',
+      trx
+    );
+    expect(audit).toHaveBeenCalledWith(
+      {
+        action: 'wallet.credit',
+        entityType: 'user',
+        entityId: 'user-1',
+        before: { balance: 1500 - threshold },
+        after: { balance: 1500, amount: threshold, reason: 'Goodwill' },
+      },
+      trx
+    );
+    expect(WalletAdjustmentRequestModel.create).not.toHaveBeenCalled();
+  });
+
+  it("holds an adjustment that takes the admin's 24-hour total for the wallet over the threshold", async () => {
+    (AdminModel.getAdjustedTotalSince as jest.Mock).mockResolvedValue(
+      threshold - 100
+    );
+    (AdminModel.getUserById as jest.Mock).mockResolvedValue({
+      email: 'user@example.com',
+    });
+    (WalletAdjustmentRequestModel.create as jest.Mock).mockResolvedValue(
+      pendingRequest
+    );
+    (UserModel.findByRole as jest.Mock).mockResolvedValue([]);
+
+    const result = await WalletAdjustmentService.adjust(
+      'user-1',
+      'credit',
+      200,
+      'admin-1',
+      'Second half of the refund'
+    );
+
+    expect(result).toEqual({ status: 'pending', request: pendingRequest });
+    expect(AdminModel.getAdjustedTotalSince).toHaveBeenCalledWith(
+      'user-1',
+      'admin-1',
+      expect.any(Date),
+      trx
+    );
+    expect(AdminModel.creditWallet).not.toHaveBeenCalled();
+    expect(WalletAdjustmentRequestModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 200, requestedBy: 'admin-1' })
+    );
+  });
+
+  it('holds larger adjustments for another admin and requires a reason', async () => {
+    await expect(
+      WalletAdjustmentService.adjust(
+        'user-1',
+        'debit',
+        threshold + 1,
+        'admin-1'
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    (AdminModel.getUserById as jest.Mock).mockResolvedValue({
+      email: 'user@example.com',
+    });
+    (WalletAdjustmentRequestModel.create as jest.Mock).mockResolvedValue(
+      pendingRequest
+    );
+    (UserModel.findByRole as jest.Mock).mockResolvedValue([
+      { userId: 'admin-1' },
+      { userId: 'admin-2' },
+    ]);
+
+    const result = await WalletAdjustmentService.adjust(
+      'user-1',
+      'credit',
+      threshold + 1,
+      'admin-1',
+      ' Refund for failed bulk order '
+    );
+
+    expect(result).toEqual({ status: 'pending', request: pendingRequest });
+    expect(AdminModel.creditWallet).not.toHaveBeenCalled();
+    expect(WalletAdjustmentRequestModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reason: 'Refund for failed bulk order',
+        requestedBy: 'admin-1',
+      })
+    );
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(1);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      'admin-2',
+      'Wallet adjustment needs approval',
+      expect.stringContaining('user@example.com')
+    );
+  });
+
+  it('never lets the requester review their own adjustment', async () => {
+    (WalletAdjustmentRequestModel.findById as jest.Mock).mockResolvedValue(
+      pendingRequest
+    );
+
+    await expect(
+      WalletAdjustmentService.approve('request-1', 'admin-1')
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(
+      WalletAdjustmentService.reject('request-1', 'admin-1', 'No')
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(AdminModel.creditWallet).not.toHaveBeenCalled();
+    expect(WalletAdjustmentRequestModel.review).not.toHaveBeenCalled();
+  });
+
+  it('moves the money and records the approval in one transaction', async () => {
+    (WalletAdjustmentRequestModel.findById as jest.Mock).mockResolvedValue(
+      pendingRequest
+    );
+    (AdminModel.creditWallet as jest.Mock).mockResolvedValue({
+      newBalance: 80000,
+    });
+    (WalletAdjustmentRequestModel.review as jest.Mock).mockResolvedValue({
+      ...pendingRequest,
+      status: 'approved',
+      reviewedBy: 'admin-2',
+    });
+
+    const audit = jest.fn();
+
+    const approved = await WalletAdjustmentService.approve(
+      'request-1',
+      'admin-2',
+      'Checked against the order',
+      audit
+    );
+
+    expect(approved.status).toBe('approved');
+    expect(WalletAdjustmentRequestModel.findById).toHaveBeenCalledWith(
+      'request-1',
+      trx
+    );
+    expect(AdminModel.creditWallet).toHaveBeenCalledWith(
+      'user-1',
+      75000,
+      'admin-1',
+      trx
+    );
+    expect(WalletAdjustmentRequestModel.review).toHaveBeenCalledWith(
+      'request-1',
+      {
+        status: 'approved',
+        reviewedBy: 'admin-2',
+        reviewNote: 'Checked against the order',
+        balanceAfter: 80000,
+      },
+      trx
+    );
+    expect(audit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'wallet.adjustment.approve' }),
+      trx
+    );
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      'admin-1',
+      'Wallet adjustment approved',
+      expect.any(String)
+    );
+  });
+
+  it('refuses to review requests that have expired or were already decided', async () => {
+    (WalletAdjustmentRequestModel.findById as jest.Mock).mockResolvedValueOnce({
+      ...pendingRequest,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    await expect(
+      WalletAdjustmentService.approve('request-1', 'admin-2')
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    (WalletAdjustmentRequestModel.findById as jest.Mock).mockResolvedValueOnce({
+      ...pendingRequest,
+      status: 'rejected',
+    });
+    await expect(
+      WalletAdjustmentService.reject('request-1', 'admin-2', 'Duplicate')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(WalletAdjustmentRequestModel.review).not.toHaveBeenCalled();
+  });
+
+  it('tells requesters when their adjustments expire', async () => {
+    (WalletAdjustmentRequestModel.expirePending as jest.Mock).mockResolvedValue(
+      [{ ...pendingRequest, status: 'expired' }]
+    );
+
+    await expect(WalletAdjustmentService.expirePending()).resolves.toBe(1);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      'admin-1',
+      'Wallet adjustment expired',
+      expect.any(String)
+    );
+  });
+});
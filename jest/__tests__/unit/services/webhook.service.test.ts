@@ -1,10 +1,12 @@
 import knex from '../../../../src/database/connection';
+import { LedgerService } from '../../../../src/services/ledger.service';
 import { WebhookService } from '../../../../src/services/webhook.service';
 import { WebhookEvent } from '../../../../src/types/webhook.types';
 import { ApiError } from '../../../../src/utils/ApiError';
 
-// 1. Mock the database connection module
+// 1. Mock the database connection module and the ledger
 jest.mock('../../../../src/database/connection');
+jest.mock('../../../../src/services/ledger.service');
 
 // 2. Create a reusable mock for the Knex transaction object
 const createMockTrx = () => {
@@ -44,6 +46,10 @@ describe('WebhookService', () => {
 
     // Configure the main transaction mock to resolve with our trx object
     (mockedKnex.transaction as jest.Mock).mockResolvedValue(mockTrx);
+    (LedgerService.post as jest.Mock).mockResolvedValue({
+      id: 'journal-1',
+      balances: { 'user_wallet:user123': 1000 },
+    });
   });
 
   const mockWebhookEvent: WebhookEvent = {
@@ -78,6 +84,10 @@ describe('WebhookService', () => {
       expect(result.success).toBe(true);
       expect(result.statusCode).toBe(200);
       expect(result.data).toHaveProperty('incomingPaymentId');
+      expect(LedgerService.post).toHaveBeenCalledWith(
+        expect.objectContaining({ referenceType: 'incoming_payment' }),
+        mockTrx
+      );
       expect(mockTrx.commit).toHaveBeenCalled();
       expect(mockTrx.rollback).not.toHaveBeenCalled();
     });
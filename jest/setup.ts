@@ -59,6 +59,21 @@ jest.mock('../src/config/env', () => ({
     app: {
       baseUrl: 'http://localhost:3000',
     },
+    transfers: {
+      minAmount: 50,
+      maxAmount: 100000,
+      dailyAmountLimit: 200000,
+      dailyCountLimit: 10,
+    },
+    pricing: {
+      defaultRatePercent: 0,
+      defaultFixedAmount: 5,
+    },
+    epins: {
+      encryptionKey: 'test-epin-encryption-key',
+      maxPerOrder: 50,
+      lowStockThreshold: 20,
+    },
     notifications: {
       autoSubscribeTopics: ['all'],
       subscribeRoleTopic: true,
@@ -103,7 +118,7 @@ beforeAll(async () => {
 beforeEach(async () => {
   // Truncate only transaction and request tables, preserving product data between tests
   await db.raw(
-    'TRUNCATE TABLE transactions, topup_requests, topup_responses, epins_inventory, commissions RESTART IDENTITY CASCADE'
+    'TRUNCATE TABLE transactions, topup_requests, topup_responses, epins_inventory, epin_orders, epin_batches, commissions RESTART IDENTITY CASCADE'
   );
 });
 
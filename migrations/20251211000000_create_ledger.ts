@@ -0,0 +1,202 @@
+import { Knex } from 'knex';
+
+/**
+ * Double-entry ledger behind wallets and cashback.
+ *
+ * - ledger_accounts: one row per user wallet / cashback balance plus the
+ *   platform accounts (supplier_payable, revenue, suspense, provider_funding)
+ * - ledger_journals: one row per money movement, linked to what caused it
+ * - ledger_entries: the debit/credit lines of a journal
+ *
+ * Entries are append-only and every journal must balance; both rules are
+ * enforced in the database so no code path can create or destroy money.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('ledger_accounts', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('code', 100).notNullable().unique(); // e.g. user_wallet:<userId>, revenue
+    table
+      .enum('type', [
+        'user_wallet',
+        'user_cashback',
+        'supplier_payable',
+        'revenue',
+        'suspense',
+        'provider_funding',
+      ])
+      .notNullable();
+    table.enum('normal_side', ['debit', 'credit']).notNullable();
+    // Keep the account (and its history) if the user is deleted
+    table
+      .uuid('user_id')
+      .nullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['user_id']);
+    table.index(['type']);
+  });
+
+  await knex.schema.createTable('ledger_journals', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('reference_type', 50).notNullable(); // topup_request, incoming_payment, admin, ...
+    table.string('reference_id', 255).nullable();
+    table.string('description', 255);
+    table.uuid('created_by').nullable(); // Admin or user that triggered the movement
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['reference_type', 'reference_id']);
+    table.index(['created_at']);
+  });
+
+  await knex.schema.createTable('ledger_entries', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('journal_id')
+      .notNullable()
+      .references('id')
+      .inTable('ledger_journals')
+      .onDelete('RESTRICT');
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('ledger_accounts')
+      .onDelete('RESTRICT');
+    table.enum('direction', ['debit', 'credit']).notNullable();
+    table.decimal('amount', 18, 2).notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['journal_id']);
+    table.index(['account_id', 'created_at']);
+  });
+
+  await knex.raw(
+    'ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_amount_positive CHECK (amount > 0)'
+  );
+
+  // Entries are append-only: corrections are posted as new journals
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_ledger_entry_changes()
+    RETURNS TRIGGER
+    LANGUAGE plpgsql
+    AS $$
+    BEGIN
+      RAISE EXCEPTION 'ledger_entries are append-only';
+    END;
+    $$;
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER ledger_entries_append_only
+    BEFORE UPDATE OR DELETE ON ledger_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_ledger_entry_changes();
+  `);
+
+  // Checked at commit so a journal's lines can be inserted one by one
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION check_ledger_journal_balanced()
+    RETURNS TRIGGER
+    LANGUAGE plpgsql
+    AS $$
+    DECLARE
+      total_debit NUMERIC;
+      total_credit NUMERIC;
+    BEGIN
+      SELECT
+        COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+        COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+      INTO total_debit, total_credit
+      FROM ledger_entries
+      WHERE journal_id = NEW.journal_id;
+
+      IF total_debit <> total_credit THEN
+        RAISE EXCEPTION 'Ledger journal % is unbalanced (debit %, credit %)',
+          NEW.journal_id, total_debit, total_credit;
+      END IF;
+
+      RETURN NULL;
+    END;
+    $$;
+  `);
+
+  await knex.raw(`
+    CREATE CONSTRAINT TRIGGER ledger_journal_balanced
+    AFTER INSERT ON ledger_entries
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION check_ledger_journal_balanced();
+  `);
+
+  // Platform accounts
+  await knex('ledger_accounts').insert([
+    {
+      code: 'supplier_payable',
+      type: 'supplier_payable',
+      normal_side: 'credit',
+    },
+    { code: 'revenue', type: 'revenue', normal_side: 'credit' },
+    { code: 'suspense', type: 'suspense', normal_side: 'debit' },
+    {
+      code: 'provider_funding',
+      type: 'provider_funding',
+      normal_side: 'debit',
+    },
+  ]);
+
+  // Opening balances: existing wallet and cashback balances are brought into
+  // the ledger against suspense so the ledger agrees with them from day one
+  await knex.raw(`
+    INSERT INTO ledger_accounts (code, type, normal_side, user_id)
+    SELECT 'user_wallet:' || user_id, 'user_wallet', 'credit', user_id
+    FROM wallets
+  `);
+  await knex.raw(`
+    INSERT INTO ledger_accounts (code, type, normal_side, user_id)
+    SELECT 'user_cashback:' || user_id, 'user_cashback', 'credit', user_id
+    FROM cashback
+  `);
+
+  await knex.raw(`
+    WITH opening AS (
+      SELECT la.id AS account_id, w.balance AS amount
+      FROM wallets w
+      JOIN ledger_accounts la ON la.code = 'user_wallet:' || w.user_id
+      WHERE w.balance > 0
+      UNION ALL
+      SELECT la.id, cb.available_balance
+      FROM cashback cb
+      JOIN ledger_accounts la ON la.code = 'user_cashback:' || cb.user_id
+      WHERE cb.available_balance > 0
+    ),
+    journals AS (
+      INSERT INTO ledger_journals (reference_type, reference_id, description)
+      SELECT 'opening_balance', account_id::text, 'Opening balance'
+      FROM opening
+      RETURNING id, reference_id
+    )
+    INSERT INTO ledger_entries (journal_id, account_id, direction, amount)
+    SELECT j.id, o.account_id, 'credit', o.amount
+    FROM journals j JOIN opening o ON o.account_id::text = j.reference_id
+    UNION ALL
+    SELECT j.id, (SELECT id FROM ledger_accounts WHERE code = 'suspense'), 'debit', o.amount
+    FROM journals j JOIN opening o ON o.account_id::text = j.reference_id
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(
+    'DROP TRIGGER IF EXISTS ledger_journal_balanced ON ledger_entries;'
+  );
+  await knex.raw(
+    'DROP TRIGGER IF EXISTS ledger_entries_append_only ON ledger_entries;'
+  );
+  await knex.raw('DROP FUNCTION IF EXISTS check_ledger_journal_balanced();');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_ledger_entry_changes();');
+  await knex.schema.dropTableIfExists('ledger_entries');
+  await knex.schema.dropTableIfExists('ledger_journals');
+  await knex.schema.dropTableIfExists('ledger_accounts');
+}
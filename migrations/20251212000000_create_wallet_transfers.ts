@@ -0,0 +1,41 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('wallet_transfers', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('reference', 64).notNullable().unique(); // Shared by both transaction rows
+    table
+      .uuid('sender_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table
+      .uuid('recipient_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table.decimal('amount', 18, 2).notNullable();
+    table.string('note', 255);
+    table
+      .timestamp('created_at', { useTz: true })
+      .notNullable()
+      .defaultTo(knex.fn.now());
+
+    // Daily limit checks sum a sender's transfers for the current day
+    table.index(['sender_id', 'created_at']);
+    table.index(['recipient_id', 'created_at']);
+  });
+
+  await knex.raw(
+    'ALTER TABLE wallet_transfers ADD CONSTRAINT chk_wallet_transfers_amount CHECK (amount > 0);'
+  );
+  await knex.raw(
+    'ALTER TABLE wallet_transfers ADD CONSTRAINT chk_wallet_transfers_parties CHECK (sender_id <> recipient_id);'
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('wallet_transfers');
+}
@@ -0,0 +1,52 @@
+import { Knex } from 'knex';
+
+/**
+ * Audit trail for top-up reversals. One row per reversed request records
+ * exactly what was handed back to the user and what was clawed back; the
+ * unique key on topup_request_id makes a second reversal impossible.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('topup_reversals', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('topup_request_id')
+      .notNullable()
+      .unique()
+      .references('id')
+      .inTable('topup_requests')
+      .onDelete('RESTRICT');
+    table
+      .uuid('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table.decimal('wallet_refund', 15, 2).notNullable().defaultTo(0);
+    table.decimal('cashback_refund', 15, 2).notNullable().defaultTo(0); // Redeemed cashback returned
+    table.decimal('cashback_clawback', 15, 2).notNullable().defaultTo(0); // Earned cashback taken back
+    table.decimal('clawback_from_wallet', 15, 2).notNullable().defaultTo(0); // Spent cashback recovered from the refund
+    table.decimal('unrecovered_cashback', 15, 2).notNullable().defaultTo(0); // Spent cashback the platform absorbed
+    table
+      .uuid('journal_id')
+      .nullable()
+      .references('id')
+      .inTable('ledger_journals')
+      .onDelete('RESTRICT');
+    table
+      .uuid('transaction_id')
+      .nullable()
+      .references('id')
+      .inTable('transactions')
+      .onDelete('SET NULL');
+    table.string('reason', 255).notNullable();
+    table.uuid('initiated_by').nullable(); // Admin who reversed it; null for automatic reversals
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['user_id']);
+    table.index(['created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('topup_reversals');
+}
@@ -0,0 +1,54 @@
+import { Knex } from 'knex';
+
+/**
+ * Turns `commissions` into pricing rules. A rule may be scoped by any mix of
+ * operator, product, supplier, role and individual user (agent); unset
+ * columns match everything. The customer price is the supplier price plus
+ * `rate_percent` of it plus `fixed_amount`, taken from the most specific
+ * active rule.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('commissions', table => {
+    table.string('name', 100).nullable();
+    table
+      .uuid('operator_id')
+      .nullable()
+      .references('id')
+      .inTable('operators')
+      .onDelete('CASCADE');
+    table
+      .uuid('supplier_id')
+      .nullable()
+      .references('id')
+      .inTable('suppliers')
+      .onDelete('CASCADE');
+    table.string('role', 50).nullable(); // users.role the rule applies to
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by').nullable();
+
+    table.index(['is_active']);
+    table.index(['operator_product_id']);
+    table.index(['operator_id']);
+  });
+
+  await knex.raw(
+    'ALTER TABLE commissions ADD CONSTRAINT commissions_non_negative CHECK (rate_percent >= 0 AND fixed_amount >= 0)'
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(
+    'ALTER TABLE commissions DROP CONSTRAINT IF EXISTS commissions_non_negative'
+  );
+  await knex.schema.alterTable('commissions', table => {
+    table.dropIndex(['is_active']);
+    table.dropIndex(['operator_product_id']);
+    table.dropIndex(['operator_id']);
+    table.dropColumn('name');
+    table.dropColumn('operator_id');
+    table.dropColumn('supplier_id');
+    table.dropColumn('role');
+    table.dropColumn('is_active');
+    table.dropColumn('created_by');
+  });
+}
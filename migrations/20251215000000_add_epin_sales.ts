@@ -0,0 +1,132 @@
+import { Knex } from 'knex';
+
+/**
+ * E-PIN (recharge card) sales from epins_inventory.
+ *
+ * - epin_batches: one row per uploaded CSV, with import counts
+ * - epin_orders: one row per purchase; the PINs sold point back to it
+ * - epin_stock_thresholds: per operator/denomination low-stock levels that
+ *   override the configured default
+ *
+ * PINs stay encrypted in `pin_code`; `pin_hash` is a keyed hash used to
+ * reject the same PIN being uploaded twice.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('epin_batches', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('operator_id')
+      .notNullable()
+      .references('id')
+      .inTable('operators')
+      .onDelete('RESTRICT');
+    table
+      .uuid('supplier_id')
+      .nullable()
+      .references('id')
+      .inTable('suppliers')
+      .onDelete('SET NULL');
+    table.string('file_name', 255).nullable();
+    table.integer('total_rows').notNullable().defaultTo(0);
+    table.integer('imported_count').notNullable().defaultTo(0);
+    table.integer('duplicate_count').notNullable().defaultTo(0);
+    table.integer('invalid_count').notNullable().defaultTo(0);
+    table.uuid('uploaded_by').nullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['operator_id']);
+  });
+
+  await knex.schema.createTable('epin_orders', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('reference', 64).notNullable().unique();
+    table
+      .uuid('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table
+      .uuid('operator_product_id')
+      .notNullable()
+      .references('id')
+      .inTable('operator_products')
+      .onDelete('RESTRICT');
+    table
+      .uuid('operator_id')
+      .notNullable()
+      .references('id')
+      .inTable('operators')
+      .onDelete('RESTRICT');
+    table.decimal('denomination', 12, 2).notNullable();
+    table.integer('quantity').notNullable();
+    table.decimal('unit_price', 12, 2).notNullable();
+    table.decimal('total_amount', 15, 2).notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'created_at']);
+  });
+
+  await knex.raw(
+    'ALTER TABLE epin_orders ADD CONSTRAINT epin_orders_quantity_positive CHECK (quantity > 0)'
+  );
+
+  await knex.schema.alterTable('epins_inventory', table => {
+    table
+      .uuid('batch_id')
+      .nullable()
+      .references('id')
+      .inTable('epin_batches')
+      .onDelete('SET NULL');
+    table.string('pin_hash', 64).nullable().unique();
+    table.decimal('cost_price', 12, 2).nullable(); // What the PIN cost us
+    table
+      .uuid('order_id')
+      .nullable()
+      .references('id')
+      .inTable('epin_orders')
+      .onDelete('RESTRICT');
+    table
+      .uuid('sold_to_user_id')
+      .nullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table.timestamp('sold_at', { useTz: true }).nullable();
+
+    table.index(['operator_id', 'denomination', 'status']);
+    table.index(['order_id']);
+  });
+
+  await knex.schema.createTable('epin_stock_thresholds', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('operator_id')
+      .notNullable()
+      .references('id')
+      .inTable('operators')
+      .onDelete('CASCADE');
+    table.decimal('denomination', 12, 2).notNullable();
+    table.integer('threshold').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['operator_id', 'denomination']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('epin_stock_thresholds');
+  await knex.schema.alterTable('epins_inventory', table => {
+    table.dropIndex(['operator_id', 'denomination', 'status']);
+    table.dropIndex(['order_id']);
+    table.dropColumn('batch_id');
+    table.dropColumn('pin_hash');
+    table.dropColumn('cost_price');
+    table.dropColumn('order_id');
+    table.dropColumn('sold_to_user_id');
+    table.dropColumn('sold_at');
+  });
+  await knex.schema.dropTableIfExists('epin_orders');
+  await knex.schema.dropTableIfExists('epin_batches');
+}
@@ -0,0 +1,58 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('notifications', table => {
+    // Set while an instance is sending; a stale claim can be taken over
+    table.timestamp('dispatch_claimed_at', { useTz: true });
+    table.integer('dispatch_attempts').notNullable().defaultTo(0);
+    table.text('dispatch_error');
+    table.timestamp('sent_at', { useTz: true });
+    table.timestamp('failed_at', { useTz: true });
+    table.timestamp('cancelled_at', { useTz: true });
+    table
+      .uuid('cancelled_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+  });
+
+  // The dispatcher looks for unsent notifications that are due
+  await knex.raw(`
+    CREATE INDEX idx_notifications_due
+    ON notifications (publish_at)
+    WHERE sent = false AND cancelled_at IS NULL AND failed_at IS NULL
+  `);
+
+  // Unsent notifications from before the dispatcher existed are not sent
+  // retroactively
+  await knex('notifications')
+    .where({ sent: false })
+    .andWhere('publish_at', '<=', knex.fn.now())
+    .update({
+      failed_at: knex.fn.now(),
+      dispatch_error: 'Not sent before scheduled dispatch was enabled',
+    });
+
+  // Broadcast sends are recorded once per notification, not per user
+  await knex.schema.alterTable('notification_analytics', table => {
+    table.uuid('user_id').nullable().alter();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('notification_analytics').whereNull('user_id').del();
+  await knex.schema.alterTable('notification_analytics', table => {
+    table.uuid('user_id').notNullable().alter();
+  });
+
+  await knex.raw('DROP INDEX IF EXISTS idx_notifications_due');
+  await knex.schema.alterTable('notifications', table => {
+    table.dropColumn('cancelled_by');
+    table.dropColumn('cancelled_at');
+    table.dropColumn('failed_at');
+    table.dropColumn('sent_at');
+    table.dropColumn('dispatch_error');
+    table.dropColumn('dispatch_attempts');
+    table.dropColumn('dispatch_claimed_at');
+  });
+}
@@ -0,0 +1,36 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('jobs', t => {
+    t.integer('max_attempts').notNullable().defaultTo(5);
+    // Earliest time the job may run; pushed back after each failed attempt
+    t.timestamp('run_at', { useTz: true })
+      .notNullable()
+      .defaultTo(knex.fn.now());
+    t.timestamp('locked_at', { useTz: true });
+    t.text('locked_by');
+    t.text('last_error');
+    t.timestamp('finished_at', { useTz: true });
+  });
+
+  // status now also covers 'dead' (attempts exhausted) and 'cancelled'
+  await knex.raw(
+    'CREATE INDEX idx_jobs_claim ON jobs(type, run_at) WHERE status = ?',
+    ['pending']
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_jobs_claim');
+  await knex('jobs').whereIn('status', ['dead', 'cancelled']).update({
+    status: 'failed',
+  });
+  await knex.schema.alterTable('jobs', t => {
+    t.dropColumn('finished_at');
+    t.dropColumn('last_error');
+    t.dropColumn('locked_by');
+    t.dropColumn('locked_at');
+    t.dropColumn('run_at');
+    t.dropColumn('max_attempts');
+  });
+}
@@ -0,0 +1,76 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // One uploaded supplier settlement report and the outcome of matching it
+  await knex.schema.createTable('supplier_reconciliations', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('supplier_id')
+      .notNullable()
+      .references('id')
+      .inTable('suppliers')
+      .onDelete('RESTRICT');
+    table.timestamp('period_start', { useTz: true }).notNullable();
+    table.timestamp('period_end', { useTz: true }).notNullable();
+    table.string('file_name', 255);
+    table.string('format', 8).notNullable(); // csv|json
+    table.string('status', 16).notNullable().defaultTo('open'); // open|closed
+    table.jsonb('summary').notNullable().defaultTo('{}');
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table
+      .uuid('closed_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table.timestamp('closed_at', { useTz: true });
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['supplier_id', 'period_start']);
+  });
+
+  // Each report line, and each of our topups the report left out
+  await knex.schema.createTable('supplier_reconciliation_items', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('reconciliation_id')
+      .notNullable()
+      .references('id')
+      .inTable('supplier_reconciliations')
+      .onDelete('CASCADE');
+    table
+      .uuid('topup_request_id')
+      .references('id')
+      .inTable('topup_requests')
+      .onDelete('SET NULL');
+    table.string('reference', 128);
+    table.integer('line_number'); // null for items missing from the report
+    // matched|amount_mismatch|status_mismatch|duplicate|missing_ours|missing_theirs
+    table.string('category', 32).notNullable();
+    table.decimal('our_amount', 12, 2);
+    table.decimal('their_amount', 12, 2);
+    table.string('our_status', 32);
+    table.string('their_status', 32);
+    table.jsonb('raw');
+    table.string('resolution', 16); // accepted|disputed|adjusted
+    table.text('resolution_note');
+    table
+      .uuid('resolved_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table.timestamp('resolved_at', { useTz: true });
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['reconciliation_id', 'category']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('supplier_reconciliation_items');
+  await knex.schema.dropTableIfExists('supplier_reconciliations');
+}
@@ -0,0 +1,34 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // The offer applied at checkout and what it took off the price
+  await knex.schema.alterTable('topup_requests', table => {
+    table
+      .uuid('offer_id')
+      .references('id')
+      .inTable('offers')
+      .onDelete('SET NULL');
+    table.decimal('discount_amount', 12, 2).notNullable().defaultTo(0);
+  });
+
+  // A redemption made at checkout points at the purchase it discounted
+  await knex.schema.alterTable('offer_redemptions', table => {
+    table
+      .uuid('topup_request_id')
+      .references('id')
+      .inTable('topup_requests')
+      .onDelete('SET NULL');
+    table.index(['topup_request_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('offer_redemptions', table => {
+    table.dropIndex(['topup_request_id']);
+    table.dropColumn('topup_request_id');
+  });
+  await knex.schema.alterTable('topup_requests', table => {
+    table.dropColumn('discount_amount');
+    table.dropColumn('offer_id');
+  });
+}
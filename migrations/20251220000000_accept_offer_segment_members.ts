@@ -0,0 +1,86 @@
+import { Knex } from 'knex';
+
+// The redemption trigger from 20251028000002 with the eligibility check
+// passed in, so up and down differ only in that check
+const redemptionTrigger = (eligibilityCheck: string) => `
+  CREATE OR REPLACE FUNCTION check_offer_eligibility_before_redemption()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  AS $$
+  DECLARE
+    eligible BOOLEAN;
+    offer_record RECORD;
+    user_redemptions INTEGER;
+  BEGIN
+    -- Ensure offer exists and is active
+    SELECT * INTO offer_record
+    FROM offers
+    WHERE id = NEW.offer_id
+      AND status = 'active'
+      AND (starts_at IS NULL OR now() >= starts_at)
+      AND (ends_at IS NULL OR now() <= ends_at);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Offer % is not active or not in valid time window', NEW.offer_id;
+    END IF;
+
+    ${eligibilityCheck}
+
+    IF NOT eligible THEN
+      RAISE EXCEPTION 'User % is not eligible for offer %', NEW.user_id, NEW.offer_id;
+    END IF;
+
+    -- Enforce per-user limit
+    IF offer_record.per_user_limit IS NOT NULL THEN
+      SELECT COUNT(*) INTO user_redemptions
+      FROM offer_redemptions
+      WHERE offer_id = NEW.offer_id AND user_id = NEW.user_id;
+
+      IF user_redemptions >= offer_record.per_user_limit THEN
+        RAISE EXCEPTION 'Per-user redemption limit exceeded for offer %', NEW.offer_id;
+      END IF;
+    END IF;
+
+    -- Enforce global usage limit atomically
+    IF offer_record.total_usage_limit IS NOT NULL THEN
+      IF offer_record.usage_count >= offer_record.total_usage_limit THEN
+        RAISE EXCEPTION 'Offer % total usage limit reached', NEW.offer_id;
+      END IF;
+
+      UPDATE offers
+      SET usage_count = usage_count + 1
+      WHERE id = NEW.offer_id
+        AND usage_count < offer_record.total_usage_limit;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Concurrent redemption limit reached for offer %', NEW.offer_id;
+      END IF;
+    ELSE
+      -- If no total limit, still increment usage_count
+      UPDATE offers SET usage_count = usage_count + 1 WHERE id = NEW.offer_id;
+    END IF;
+
+    RETURN NEW;
+  END;
+  $$;
+`;
+
+export async function up(knex: Knex): Promise<void> {
+  // Members of the precomputed segment qualify without re-running the rules
+  await knex.raw(
+    redemptionTrigger(`
+    SELECT EXISTS (
+      SELECT 1 FROM offer_segment_members
+      WHERE offer_id = NEW.offer_id AND user_id = NEW.user_id
+    ) OR is_user_eligible_for_offer(NEW.offer_id, NEW.user_id)
+    INTO eligible;`)
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(
+    redemptionTrigger(`
+    SELECT is_user_eligible_for_offer(NEW.offer_id, NEW.user_id)
+    INTO eligible;`)
+  );
+}
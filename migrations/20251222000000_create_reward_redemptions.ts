@@ -0,0 +1,102 @@
+import { Knex } from 'knex';
+
+const LEDGER_ACCOUNT_TYPES = [
+  'user_wallet',
+  'user_cashback',
+  'supplier_payable',
+  'revenue',
+  'suspense',
+  'provider_funding',
+];
+
+const setLedgerAccountTypes = (knex: Knex, types: string[]) =>
+  knex.raw(`
+    ALTER TABLE ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_type_check;
+    ALTER TABLE ledger_accounts ADD CONSTRAINT ledger_accounts_type_check
+      CHECK (type IN (${types.map(type => `'${type}'`).join(', ')}));
+  `);
+
+export async function up(knex: Knex): Promise<void> {
+  // What redeemed points cost the platform is charged to a rewards account
+  await setLedgerAccountTypes(knex, [...LEDGER_ACCOUNT_TYPES, 'rewards']);
+  await knex('ledger_accounts').insert({
+    code: 'rewards',
+    type: 'rewards',
+    normal_side: 'debit',
+  });
+
+  // What points can be spent on. wallet_credit and cashback convert any
+  // number of points at conversion_rate (naira per point); a product item
+  // buys one operator product for a fixed points_cost.
+  await knex.schema.createTable('reward_catalogue_items', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name', 100).notNullable();
+    table.text('description');
+    table.enum('type', ['wallet_credit', 'cashback', 'product']).notNullable();
+    table.decimal('conversion_rate', 12, 4);
+    table.integer('min_points');
+    table.integer('points_cost');
+    table
+      .uuid('operator_product_id')
+      .references('id')
+      .inTable('operator_products')
+      .onDelete('RESTRICT');
+    // Per-user caps, over the last cap_window_days or for all time
+    table.integer('per_user_limit');
+    table.integer('max_points_per_user');
+    table.integer('cap_window_days');
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.check(
+      `(type = 'product' AND operator_product_id IS NOT NULL AND points_cost > 0)
+       OR (type <> 'product' AND conversion_rate > 0)`
+    );
+    table.index(['is_active']);
+  });
+
+  await knex.schema.createTable('reward_redemptions', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table
+      .uuid('item_id')
+      .notNullable()
+      .references('id')
+      .inTable('reward_catalogue_items')
+      .onDelete('RESTRICT');
+    table.enum('type', ['wallet_credit', 'cashback', 'product']).notNullable();
+    table.integer('points').notNullable();
+    table.decimal('value', 12, 2).notNullable(); // Naira the points bought
+    // failed: the points were given back
+    table.enum('status', ['completed', 'failed']).notNullable();
+    table.string('recipient_phone', 32);
+    table
+      .uuid('topup_request_id')
+      .references('id')
+      .inTable('topup_requests')
+      .onDelete('SET NULL');
+    table.text('failure_reason');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'created_at']);
+    table.index(['item_id', 'user_id']);
+    table.index(['topup_request_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('reward_redemptions');
+  await knex.schema.dropTableIfExists('reward_catalogue_items');
+
+  // The rewards account keeps its entries; it can only go if it has none
+  await knex('ledger_accounts').where({ code: 'rewards' }).del();
+  await setLedgerAccountTypes(knex, LEDGER_ACCOUNT_TYPES);
+}
@@ -0,0 +1,62 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // How long points earned for each reason last. Applied when points are
+  // awarded, so changing a policy does not move existing expiry dates.
+  await knex.schema.createTable('points_expiry_policies', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('reason', 255).notNullable().unique();
+    table.integer('expiry_days').notNullable();
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.check('expiry_days > 0');
+  });
+
+  await knex.schema.alterTable('rewards', table => {
+    // Unspent part of a grant; spending and expiry take from the oldest
+    // grants first. Null on debits.
+    table.integer('remaining_points');
+    table.timestamp('expiry_warned_at');
+    table.index(['status', 'expires_at']);
+  });
+
+  await knex.raw(`
+    UPDATE rewards SET remaining_points = points
+    WHERE points > 0 AND status IN ('pending', 'credited')
+  `);
+
+  // Points already spent come off the oldest credited grants
+  await knex.raw(`
+    WITH spent AS (
+      SELECT user_id, -SUM(points) AS points
+      FROM rewards
+      WHERE status = 'credited' AND points < 0
+      GROUP BY user_id
+    ),
+    grants AS (
+      SELECT r.id, r.points, s.points AS spent,
+        SUM(r.points) OVER (
+          PARTITION BY r.user_id ORDER BY r.earned_at, r.created_at, r.id
+        ) AS running
+      FROM rewards r
+      JOIN spent s ON s.user_id = r.user_id
+      WHERE r.status = 'credited' AND r.points > 0
+    )
+    UPDATE rewards r
+    SET remaining_points = GREATEST(LEAST(g.points, g.running - g.spent), 0)
+    FROM grants g
+    WHERE r.id = g.id
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('rewards', table => {
+    table.dropIndex(['status', 'expires_at']);
+    table.dropColumn('expiry_warned_at');
+    table.dropColumn('remaining_points');
+  });
+  await knex.schema.dropTableIfExists('points_expiry_policies');
+}
@@ -0,0 +1,102 @@
+import { Knex } from 'knex';
+
+type LegacyRule = {
+  metric: string;
+  comparator: string;
+  threshold: number;
+  windowDays?: number;
+};
+
+// What the hard-coded checks awarded each required_action for
+const legacyRule = (
+  action: string,
+  value: number | null
+): LegacyRule | null => {
+  const milestone =
+    /^(transaction_milestone|referral_milestone|high_points)_(\d+)$/.exec(
+      action
+    );
+  if (milestone) {
+    const metric = {
+      transaction_milestone: 'transaction_count',
+      referral_milestone: 'referral_count',
+      high_points: 'total_points',
+    }[milestone[1]] as string;
+    return { metric, comparator: 'gte', threshold: Number(milestone[2]) };
+  }
+
+  switch (action) {
+    case 'first_transaction':
+      return { metric: 'transaction_count', comparator: 'gte', threshold: 1 };
+    case 'transaction_frequency':
+      return {
+        metric: 'transaction_count',
+        comparator: 'gte',
+        threshold: 5,
+        windowDays: 1,
+      };
+    case 'first_referral':
+      return { metric: 'referral_count', comparator: 'gte', threshold: 1 };
+    case 'completed_referral':
+      return {
+        metric: 'completed_referral_count',
+        comparator: 'gte',
+        threshold: 1,
+      };
+    case 'top_referee':
+      return {
+        metric: 'completed_referral_count',
+        comparator: 'gte',
+        threshold: value || 5,
+      };
+    case 'high_points':
+      return {
+        metric: 'total_points',
+        comparator: 'gte',
+        threshold: value || 100,
+      };
+    case 'account_verified':
+    case 'email_verified':
+      return { metric: 'account_verified', comparator: 'eq', threshold: 1 };
+    case 'twofa_enabled':
+      return { metric: 'twofa_enabled', comparator: 'eq', threshold: 1 };
+    case 'top_referrer':
+      return { metric: 'referrer_rank', comparator: 'lte', threshold: 10 };
+    case 'top_earner':
+      return { metric: 'points_rank', comparator: 'lte', threshold: 10 };
+    default:
+      return null;
+  }
+};
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('badges', table => {
+    // JSON: { metric, comparator, threshold, windowDays?, tiers? }
+    table.text('rule').nullable();
+  });
+  await knex.schema.alterTable('user_badges', table => {
+    // Highest tier reached on a tiered badge
+    table.integer('tier').nullable();
+  });
+
+  const badges = await knex('badges')
+    .whereNotNull('required_action')
+    .select('id', 'required_action', 'required_value');
+  for (const badge of badges) {
+    const rule = legacyRule(badge.required_action, badge.required_value);
+    if (rule) {
+      await knex('badges')
+        .where({ id: badge.id })
+        .update({ rule: JSON.stringify(rule) });
+    }
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('user_badges', table => {
+    table.dropColumn('tier');
+  });
+  await knex.schema.alterTable('badges', table => {
+    table.dropColumn('rule');
+  });
+}
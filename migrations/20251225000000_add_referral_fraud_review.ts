@@ -0,0 +1,61 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Devices and IPs seen at signup and login. Sessions live in Redis and
+  // expire, so fraud checks need their own record.
+  await knex.schema.createTable('user_device_fingerprints', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table.string('event', 20).notNullable(); // 'signup' | 'login'
+    table.string('device_id', 255);
+    table.string('ip_address', 64);
+    table.text('user_agent');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['user_id']);
+    table.index(['device_id']);
+    table.index(['ip_address']);
+  });
+
+  await knex.schema.alterTable('referrals', table => {
+    table.integer('fraud_score').notNullable().defaultTo(0);
+    table.text('fraud_signals'); // JSON array of { type, detail, weight }
+    // null when the referral never needed review
+    table.string('review_status', 20); // 'flagged' | 'approved' | 'rejected'
+    table
+      .uuid('reviewed_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table.timestamp('reviewed_at', { useTz: true });
+    table.text('review_note');
+
+    table.index(['review_status', 'created_at']);
+  });
+
+  await knex.schema.alterTable('rewards', table => {
+    // Why a pending reward cannot be credited yet
+    table.text('hold_reason');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('rewards', table => {
+    table.dropColumn('hold_reason');
+  });
+  await knex.schema.alterTable('referrals', table => {
+    table.dropIndex(['review_status', 'created_at']);
+    table.dropColumn('fraud_score');
+    table.dropColumn('fraud_signals');
+    table.dropColumn('review_status');
+    table.dropColumn('reviewed_by');
+    table.dropColumn('reviewed_at');
+    table.dropColumn('review_note');
+  });
+  await knex.schema.dropTableIfExists('user_device_fingerprints');
+}
@@ -0,0 +1,59 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // What referrers earn on their referees' topups. Level 1 is the direct
+  // referrer; level 2 is whoever referred them.
+  await knex.schema.createTable('referral_commission_levels', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.integer('level').notNullable().unique();
+    table.decimal('percentage', 5, 2).notNullable(); // Of the topup margin
+    // Counted from when the referee signed up
+    table.integer('duration_months').notNullable();
+    table.decimal('cap_per_referee', 12, 2); // null for no cap
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.check('level IN (1, 2)');
+    table.check('percentage > 0 AND percentage <= 100');
+    table.check('duration_months > 0');
+  });
+
+  await knex.schema.createTable('referral_commissions', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('referrer_user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    // The user whose topup earned the commission
+    table
+      .uuid('referee_user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table.integer('level').notNullable();
+    table
+      .uuid('topup_request_id')
+      .notNullable()
+      .references('id')
+      .inTable('topup_requests')
+      .onDelete('CASCADE');
+    table.decimal('margin', 12, 2).notNullable();
+    table.decimal('percentage', 5, 2).notNullable();
+    table.decimal('amount', 12, 2).notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    // A topup pays each level once
+    table.unique(['topup_request_id', 'level']);
+    table.index(['referrer_user_id', 'referee_user_id', 'level']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('referral_commissions');
+  await knex.schema.dropTableIfExists('referral_commission_levels');
+}
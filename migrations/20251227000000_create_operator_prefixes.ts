@@ -0,0 +1,88 @@
+import { Knex } from 'knex';
+
+// Nigerian number prefixes by operator. 07025 and 07026 are MTN inside the
+// wider 0702 range, so lookups use the longest matching prefix.
+const PREFIXES: Record<string, string[]> = {
+  MTN: [
+    '0703',
+    '0704',
+    '0706',
+    '07025',
+    '07026',
+    '0803',
+    '0806',
+    '0810',
+    '0813',
+    '0814',
+    '0816',
+    '0903',
+    '0906',
+    '0913',
+    '0916',
+  ],
+  AIRTEL: [
+    '0701',
+    '0708',
+    '0802',
+    '0808',
+    '0812',
+    '0901',
+    '0902',
+    '0904',
+    '0907',
+    '0911',
+    '0912',
+  ],
+  GLO: ['0705', '0805', '0807', '0811', '0815', '0905', '0915'],
+  '9MOBILE': ['0809', '0817', '0818', '0908', '0909'],
+};
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('operator_prefixes', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('operator_id')
+      .notNullable()
+      .references('id')
+      .inTable('operators')
+      .onDelete('CASCADE');
+    // Leading digits of the local form, e.g. '0803'
+    table.string('prefix', 8).notNullable().unique();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  // Numbers that moved operator keeping their number. They override the
+  // prefix registry.
+  await knex.schema.createTable('ported_numbers', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('phone_number', 11).notNullable().unique(); // '0803...'
+    table
+      .uuid('operator_id')
+      .notNullable()
+      .references('id')
+      .inTable('operators')
+      .onDelete('CASCADE');
+    table.text('note');
+    table.uuid('created_by');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  const operators = await knex('operators')
+    .whereIn('code', Object.keys(PREFIXES))
+    .select('id', 'code');
+  const rows = operators.flatMap(operator =>
+    PREFIXES[operator.code].map(prefix => ({
+      operator_id: operator.id,
+      prefix,
+    }))
+  );
+  if (rows.length > 0) {
+    await knex('operator_prefixes').insert(rows);
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('ported_numbers');
+  await knex.schema.dropTableIfExists('operator_prefixes');
+}
@@ -0,0 +1,68 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Who did what to which record through the admin API. Rows outlive the
+  // admins and records they name, so there are no foreign keys.
+  await knex.schema.createTable('admin_audit_logs', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('actor_id');
+    table.string('actor_email', 255);
+    table.string('action', 64).notNullable(); // e.g. 'wallet.credit'
+    table.string('entity_type', 64).notNullable(); // e.g. 'user', 'supplier'
+    table.string('entity_id', 128);
+    table.jsonb('before');
+    table.jsonb('after');
+    table.jsonb('changes'); // { field: { from, to } } for changed fields
+    table.string('ip_address', 64);
+    table.text('user_agent');
+    table.string('request_method', 10);
+    table.text('request_path');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['created_at']);
+    table.index(['actor_id', 'created_at']);
+    table.index(['entity_type', 'entity_id', 'created_at']);
+    table.index(['action', 'created_at']);
+  });
+
+  // Append-only: rows can never be changed, and only the retention purge,
+  // which sets audit.purge for its transaction, may delete them
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION protect_admin_audit_logs()
+    RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$
+    BEGIN
+      IF TG_OP = 'DELETE' AND current_setting('audit.purge', true) = 'on' THEN
+        RETURN OLD;
+      END IF;
+      RAISE EXCEPTION 'admin_audit_logs is append-only';
+    END;
+    $$;
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER admin_audit_logs_append_only
+    BEFORE UPDATE OR DELETE ON admin_audit_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_admin_audit_logs();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER admin_audit_logs_no_truncate
+    BEFORE TRUNCATE ON admin_audit_logs
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION protect_admin_audit_logs();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(
+    'DROP TRIGGER IF EXISTS admin_audit_logs_no_truncate ON admin_audit_logs;'
+  );
+  await knex.raw(
+    'DROP TRIGGER IF EXISTS admin_audit_logs_append_only ON admin_audit_logs;'
+  );
+  await knex.raw('DROP FUNCTION IF EXISTS protect_admin_audit_logs();');
+  await knex.schema.dropTableIfExists('admin_audit_logs');
+}
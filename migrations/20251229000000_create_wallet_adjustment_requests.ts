@@ -0,0 +1,51 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Manual wallet credits and debits above the approval threshold wait here
+  // until a second admin approves or rejects them
+  await knex.schema.createTable('wallet_adjustment_requests', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table.string('direction', 10).notNullable(); // 'credit' | 'debit'
+    table.decimal('amount', 18, 2).notNullable();
+    table.text('reason').notNullable();
+    // 'pending' | 'approved' | 'rejected' | 'expired'
+    table.string('status', 20).notNullable().defaultTo('pending');
+    table
+      .uuid('requested_by')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('RESTRICT');
+    table
+      .uuid('reviewed_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL');
+    table.timestamp('reviewed_at', { useTz: true });
+    table.text('review_note');
+    table.decimal('balance_after', 18, 2); // Set once approved
+    table.timestamp('expires_at', { useTz: true }).notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['status', 'expires_at']);
+    table.index(['user_id', 'created_at']);
+  });
+
+  await knex.raw(
+    "ALTER TABLE wallet_adjustment_requests ADD CONSTRAINT chk_wallet_adjustment_direction CHECK (direction IN ('credit', 'debit'));"
+  );
+  await knex.raw(
+    'ALTER TABLE wallet_adjustment_requests ADD CONSTRAINT chk_wallet_adjustment_reviewer CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by);'
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('wallet_adjustment_requests');
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('topup_requests', table => {
+    // Set when a dispatcher claims the request; a stale claim can be taken over
+    table.timestamp('locked_at', { useTz: true });
+  });
+
+  // The dispatcher looks for claims whose worker went away
+  await knex.raw(`
+    CREATE INDEX idx_topup_requests_dispatch_lease
+    ON topup_requests (locked_at)
+    WHERE status = 'processing'
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_topup_requests_dispatch_lease');
+  await knex.schema.alterTable('topup_requests', table => {
+    table.dropColumn('locked_at');
+  });
+}
@@ -0,0 +1,15 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('topup_requests', table => {
+    // Times a dispatcher has claimed the request; attempt_count also counts
+    // supplier hops. The current value identifies the claim that owns it.
+    table.integer('dispatch_claims').notNullable().defaultTo(0);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('topup_requests', table => {
+    table.dropColumn('dispatch_claims');
+  });
+}
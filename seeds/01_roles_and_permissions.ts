@@ -11,6 +11,7 @@ export async function seed(knex: Knex): Promise<void> {
     { name: 'admin', description: 'System administrator with full access' },
     { name: 'staff', description: 'Nexus Data staff' },
     { name: 'user', description: 'Normal application user' },
+    { name: 'reseller', description: 'Reseller with its own pricing' },
   ]);
 
   // Insert all permissions
@@ -45,6 +46,53 @@ export async function seed(knex: Knex): Promise<void> {
     { name: 'topup-requests.update', description: 'Update topup requests' },
     { name: 'settlements.read.all', description: 'View all settlements' },
     { name: 'settlements.create', description: 'Create new settlements' },
+    {
+      name: 'settlements.reconcile',
+      description:
+        'Reconcile supplier settlement reports and resolve differences',
+    },
+    {
+      name: 'ledger.read.all',
+      description: 'View ledger journals and integrity reports',
+    },
+    {
+      name: 'pricing.read.all',
+      description: 'View commission rules and price quotes',
+    },
+    {
+      name: 'pricing.manage',
+      description: 'Create, update and delete commission rules',
+    },
+    { name: 'epins.read.all', description: 'View E-PIN stock levels' },
+    {
+      name: 'epins.manage',
+      description: 'Upload E-PIN batches and set low-stock alerts',
+    },
+    {
+      name: 'rewards.manage',
+      description: 'Manage the reward points catalogue and expiry policies',
+    },
+    {
+      name: 'badges.manage',
+      description: 'Create and edit badges and their award rules',
+    },
+    {
+      name: 'referrals.review',
+      description: 'Review referrals held for suspected fraud',
+    },
+    {
+      name: 'analytics.read.all',
+      description: 'View revenue, margin and fulfilment analytics',
+    },
+    {
+      name: 'audit_logs.read.all',
+      description: 'Search the audit log of admin actions',
+    },
+    {
+      name: 'wallet.adjustments.approve',
+      description:
+        'Approve or reject large manual wallet adjustments made by other admins',
+    },
     { name: 'operators.read.all', description: 'View all operators' },
     { name: 'operators.create', description: 'Create new operators' },
     { name: 'operators.update', description: 'Update operators' },
@@ -72,7 +120,19 @@ export async function seed(knex: Knex): Promise<void> {
     { name: 'offer.delete', description: 'Delete offers' },
     { name: 'offer.admin', description: 'Administrate offers' },
     { name: 'offer.redeem', description: 'Redeem offers' },
+    {
+      name: 'offer.read.available',
+      description: 'View offers available to you',
+    },
     { name: 'topup.create', description: 'Create Topup' },
+    {
+      name: 'wallet.transfer',
+      description: 'Send wallet balance to other users',
+    },
+    {
+      name: 'epins.purchase',
+      description: 'Buy E-PINs and view purchased PINs',
+    },
     { name: 'view.notification', description: 'View notifications' },
     { name: 'update.notification', description: 'Update notifications' },
     { name: 'delete.notification', description: 'Delete notifications' },
@@ -92,6 +152,18 @@ export async function seed(knex: Knex): Promise<void> {
       'profile.read',
       'profile.update',
       'topup.create',
+      'wallet.transfer',
+      'epins.purchase',
+      'offer.read.available',
+    ],
+    reseller: [
+      'transactions.read.own',
+      'profile.read',
+      'profile.update',
+      'topup.create',
+      'wallet.transfer',
+      'epins.purchase',
+      'offer.read.available',
     ],
     staff: [
       'reports.read.all',
@@ -142,6 +214,18 @@ export async function seed(knex: Knex): Promise<void> {
       'topup-requests.update',
       'settlements.read.all',
       'settlements.create',
+      'settlements.reconcile',
+      'ledger.read.all',
+      'pricing.read.all',
+      'pricing.manage',
+      'epins.read.all',
+      'epins.manage',
+      'rewards.manage',
+      'badges.manage',
+      'referrals.review',
+      'analytics.read.all',
+      'audit_logs.read.all',
+      'wallet.adjustments.approve',
       'operators.read.all',
       'operators.create',
       'operators.update',
@@ -160,7 +244,10 @@ export async function seed(knex: Knex): Promise<void> {
       'offer.delete',
       'offer.admin',
       'offer.redeem',
+      'offer.read.available',
       'topup.create',
+      'wallet.transfer',
+      'epins.purchase',
       'view.notification',
       'update.notification',
       'delete.notification',
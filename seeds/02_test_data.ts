@@ -47,6 +47,19 @@ export async function seed(knex: Knex): Promise<void> {
   const airtel = await knex('operators').where({ code: 'AIRTEL' }).first();
   const glo = await knex('operators').where({ code: 'GLO' }).first();
   const mobile9 = await knex('operators').where({ code: '9MOBILE' }).first();
+
+  // Number prefixes, so recipients are matched to their operator
+  const prefixes: [any, string[]][] = [
+    [mtn, ['0703', '0706', '0803', '0806', '0810', '0813', '0816', '0903']],
+    [airtel, ['0701', '0708', '0802', '0808', '0812', '0902', '0907']],
+    [glo, ['0705', '0805', '0807', '0811', '0815', '0905']],
+    [mobile9, ['0809', '0817', '0818', '0908', '0909']],
+  ];
+  await knex('operator_prefixes').insert(
+    prefixes.flatMap(([operator, codes]) =>
+      codes.map(prefix => ({ operator_id: operator.id, prefix }))
+    )
+  );
   const supplierA = await knex('suppliers')
     .where({ slug: 'supplier-a' })
     .first();
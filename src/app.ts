@@ -5,10 +5,16 @@ import helmet from 'helmet';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerOptions } from './config/swagger';
+import { auditLogRetentionJob } from './jobs/audit_log_retention.job';
+import { exportRetentionJob } from './jobs/export_retention.job';
+import { notificationDispatchJob } from './jobs/notification_dispatch.job';
+import { offerLifecycleJob } from './jobs/offer_lifecycle.job';
+import { pointsExpiryJob } from './jobs/points_expiry.job';
 import {
   firebaseTokenCleanupJob,
   tokenCleanupJob,
 } from './jobs/token_cleanup.job';
+import { walletAdjustmentExpiryJob } from './jobs/wallet_adjustment_expiry.job';
 import { deviceInfoMiddleware } from './middleware/deviceInfo.middleware';
 import { errorMiddleware } from './middleware/error.middleware';
 import adminRoutes from './routes/admin.routes';
@@ -135,6 +141,12 @@ setupRoutes();
 if (process.env.NODE_ENV !== 'test') {
   tokenCleanupJob.start();
   firebaseTokenCleanupJob.start();
+  notificationDispatchJob.start();
+  offerLifecycleJob.start();
+  pointsExpiryJob.start();
+  auditLogRetentionJob.start();
+  exportRetentionJob.start();
+  walletAdjustmentExpiryJob.start();
 }
 
 export default app;
@@ -71,6 +71,63 @@ export const config = {
     apiKey: process.env.PALMPAY_API_KEY || '',
     timeout: parseInt(process.env.PALMPAY_API_TIMEOUT || '10000', 10),
   },
+  transfers: {
+    // Per-transfer bounds and per-sender daily caps for wallet-to-wallet transfers
+    minAmount: parseFloat(process.env.TRANSFER_MIN_AMOUNT || '50'),
+    maxAmount: parseFloat(process.env.TRANSFER_MAX_AMOUNT || '100000'),
+    dailyAmountLimit: parseFloat(
+      process.env.TRANSFER_DAILY_AMOUNT_LIMIT || '200000'
+    ),
+    dailyCountLimit: parseInt(
+      process.env.TRANSFER_DAILY_COUNT_LIMIT || '10',
+      10
+    ),
+  },
+  walletAdjustments: {
+    // Manual credits and debits taking an admin's 24-hour total for a wallet
+    // above this amount need a second admin's approval
+    approvalThreshold: parseFloat(
+      process.env.WALLET_ADJUSTMENT_APPROVAL_THRESHOLD || '50000'
+    ),
+    // Pending requests nobody approves or rejects in this time expire
+    expiryHours: parseInt(
+      process.env.WALLET_ADJUSTMENT_EXPIRY_HOURS || '24',
+      10
+    ),
+  },
+  pricing: {
+    // Markup used when no commission rule matches a sale
+    defaultRatePercent: parseFloat(
+      process.env.PRICING_DEFAULT_RATE_PERCENT || '0'
+    ),
+    defaultFixedAmount: parseFloat(
+      process.env.PRICING_DEFAULT_FIXED_AMOUNT || '5'
+    ),
+  },
+  epins: {
+    // Secret the E-PIN encryption key is derived from; required to import or reveal PINs
+    encryptionKey: process.env.EPIN_ENCRYPTION_KEY || '',
+    maxPerOrder: parseInt(process.env.EPIN_MAX_PER_ORDER || '50', 10),
+    // Available PINs per operator and denomination below which admins are alerted
+    lowStockThreshold: parseInt(
+      process.env.EPIN_LOW_STOCK_THRESHOLD || '20',
+      10
+    ),
+  },
+  exports: {
+    // Where background exports are written for download. Workers write and
+    // the API reads, so this must be a volume both mount; background exports
+    // are refused while it is unset.
+    dir: process.env.EXPORT_DIR || '',
+    // Finished export files are deleted after this many hours
+    retentionHours: parseInt(process.env.EXPORT_RETENTION_HOURS || '24', 10),
+    // Exports with more rows than this run as a background job
+    syncRowLimit: parseInt(process.env.EXPORT_SYNC_ROW_LIMIT || '10000', 10),
+  },
+  audit: {
+    // How long admin audit logs are kept. Only set here, never through the API.
+    retentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '2555', 10),
+  },
   notifications: {
     // Comma-separated list of global topics to auto-subscribe tokens to (e.g. "all,news")
     autoSubscribeTopics: (
@@ -1,5 +1,6 @@
 export const roleHierarchy: { [key: string]: number } = {
   user: 0,
+  reseller: 0,
   staff: 1,
   admin: 2,
 };
@@ -12,6 +13,20 @@ export const ROLE_PERMISSIONS = {
     'transactions.read.own',
     'incidents.read',
     'topup.create',
+    'wallet.transfer',
+    'epins.purchase',
+    'offer.read.available',
+  ],
+  // Buys like a user; commission rules can give resellers their own margins
+  reseller: [
+    'profile.read',
+    'profile.update',
+    'transactions.read.own',
+    'incidents.read',
+    'topup.create',
+    'wallet.transfer',
+    'epins.purchase',
+    'offer.read.available',
   ],
   staff: [
     'reports.create',
@@ -31,6 +46,8 @@ export const ROLE_PERMISSIONS = {
     'manage.notification_templates',
     'view.notification_analytics',
     'topup.create',
+    'wallet.transfer',
+    'epins.purchase',
     'transactions.read.own',
     'create.notification',
     'view.notification',
@@ -64,6 +81,18 @@ export const ROLE_PERMISSIONS = {
     'topup-requests.update',
     'settlements.read.all',
     'settlements.create',
+    'settlements.reconcile',
+    'ledger.read.all',
+    'pricing.read.all',
+    'pricing.manage',
+    'epins.read.all',
+    'epins.manage',
+    'rewards.manage',
+    'badges.manage',
+    'referrals.review',
+    'analytics.read.all',
+    'audit_logs.read.all',
+    'wallet.adjustments.approve',
     'operators.read.all',
     'operators.create',
     'operators.update',
@@ -82,7 +111,10 @@ export const ROLE_PERMISSIONS = {
     'offer.delete',
     'offer.admin',
     'offer.redeem',
+    'offer.read.available',
     'topup.create',
+    'wallet.transfer',
+    'epins.purchase',
     'view.notification',
     'update.notification',
     'delete.notification',
@@ -118,6 +150,20 @@ export const PERMISSION_DESCRIPTIONS = {
   'topup-requests.update': 'Update topup requests',
   'settlements.read.all': 'View all settlements',
   'settlements.create': 'Create new settlements',
+  'settlements.reconcile':
+    'Reconcile supplier settlement reports and resolve differences',
+  'ledger.read.all': 'View ledger journals and integrity reports',
+  'pricing.read.all': 'View commission rules and price quotes',
+  'pricing.manage': 'Create, update and delete commission rules',
+  'epins.read.all': 'View E-PIN stock levels',
+  'epins.manage': 'Upload E-PIN batches and set low-stock alerts',
+  'rewards.manage': 'Manage the reward points catalogue and expiry policies',
+  'badges.manage': 'Create and edit badges and their award rules',
+  'referrals.review': 'Review referrals held for suspected fraud',
+  'analytics.read.all': 'View revenue, margin and fulfilment analytics',
+  'audit_logs.read.all': 'Search the audit log of admin actions',
+  'wallet.adjustments.approve':
+    'Approve or reject large manual wallet adjustments made by other admins',
   'operators.read.all': 'View all operators',
   'operators.create': 'Create new operators',
   'operators.update': 'Update operators',
@@ -136,7 +182,10 @@ export const PERMISSION_DESCRIPTIONS = {
   'offer.delete': 'Delete offers',
   'offer.admin': 'Administer offers',
   'offer.redeem': 'Redeem offers',
+  'offer.read.available': 'View offers available to you',
   'topup.create': 'Create new topup requests',
+  'wallet.transfer': 'Send wallet balance to other users',
+  'epins.purchase': 'Buy E-PINs and view purchased PINs',
   'topup.read': 'Read topup requests',
   'topup.update': 'Update topup requests',
   'topup.delete': 'Delete topup requests',
@@ -1,9 +1,46 @@
 import { Request, Response } from 'express';
 import { AdminModel } from '../models/Admin';
+import { AnalyticsBucket, TopupAnalyticsDimension } from '../models/Analytics';
+import { BadgeModel } from '../models/Badge';
+import { LedgerModel } from '../models/Ledger';
+import { PortedNumberModel } from '../models/OperatorPrefix';
+import { ReferralReviewStatus } from '../models/Referral';
+import { RewardCatalogueModel } from '../models/RewardRedemption';
 import { RoleModel } from '../models/Role';
 import { UserModel } from '../models/User';
+import {
+  WalletAdjustmentDirection,
+  WalletAdjustmentStatus,
+} from '../models/WalletAdjustmentRequest';
 import { AdminService } from '../services/admin.service';
+import AnalyticsService from '../services/analytics.service';
+import AuditLogService from '../services/auditLog.service';
+import BadgeAdminService from '../services/badgeAdmin.service';
+import { EpinService } from '../services/epin.service';
+import ExportService, {
+  ExportFilters,
+  ExportType,
+} from '../services/export.service';
+import { JobService } from '../services/job.service';
+import { LedgerService } from '../services/ledger.service';
 import OfferAdminService from '../services/offerAdmin.service';
+import OperatorDetectionService from '../services/operatorDetection.service';
+import { PointsExpiryService } from '../services/pointsExpiry.service';
+import { PricingService } from '../services/pricing.service';
+import ReferralFraudService from '../services/referralFraud.service';
+import { ReferralsService } from '../services/referrals.service';
+import { RewardRedemptionService } from '../services/rewardRedemption.service';
+import { SupplierReconciliationService } from '../services/supplierReconciliation.service';
+import { TopupReversalService } from '../services/topupReversal.service';
+import WalletAdjustmentService from '../services/walletAdjustment.service';
+import {
+  ReconciliationCategory,
+  ReconciliationStatus,
+} from '../types/reconciliation.types';
+import { SettlementFilters } from '../types/settlement.types';
+import { TopupRequestFilters, TopupRequestStatus } from '../types/topup.types';
+import { TransactionFilters } from '../types/transaction.types';
+import { ApiError } from '../utils/ApiError';
 import { sendError, sendSuccess } from '../utils/response.utils';
 import { validatePassword } from '../utils/validation.utils';
 
@@ -65,6 +102,17 @@ export class AdminController {
         password,
         role,
       });
+      await AuditLogService.record(req, {
+        action: 'user.create',
+        entityType: 'user',
+        entityId: user.userId,
+        after: {
+          email: normalizedEmail,
+          phoneNumber: normalizedPhone,
+          fullName: fullName.trim(),
+          role,
+        },
+      });
 
       return sendSuccess(
         res,
@@ -128,6 +176,13 @@ export class AdminController {
       }
 
       const role = await AdminModel.assignRole(userId, roleId);
+      await AuditLogService.record(req, {
+        action: 'user.role.assign',
+        entityType: 'user',
+        entityId: userId,
+        before: { role: user.role },
+        after: { role: role.name, roleId },
+      });
 
       return sendSuccess(res, 'Role assigned successfully', {
         userId,
@@ -174,10 +229,24 @@ export class AdminController {
       const { userId } = req.params;
       const { fullName, phoneNumber } = req.body;
 
+      const user = await AdminModel.getUserById(userId);
       const updatedUser = await AdminModel.updateUser(userId, {
         fullName,
         phoneNumber,
       });
+      await AuditLogService.record(req, {
+        action: 'user.update',
+        entityType: 'user',
+        entityId: userId,
+        before: user && {
+          fullName: user.fullName,
+          phoneNumber: user.phoneNumber,
+        },
+        after: {
+          fullName: updatedUser.fullName,
+          phoneNumber: updatedUser.phoneNumber,
+        },
+      });
 
       return sendSuccess(res, 'User updated successfully', updatedUser);
     } catch (error) {
@@ -189,7 +258,15 @@ export class AdminController {
   static async suspendUser(req: Request, res: Response) {
     try {
       const { userId } = req.params;
+      const user = await AdminModel.getUserById(userId);
       await AdminModel.updateUserStatus(userId, true);
+      await AuditLogService.record(req, {
+        action: 'user.suspend',
+        entityType: 'user',
+        entityId: userId,
+        before: user && { isSuspended: user.isSuspended },
+        after: { isSuspended: true },
+      });
       return sendSuccess(res, 'User suspended successfully');
     } catch (error) {
       console.error('Suspend user error:', error);
@@ -200,7 +277,15 @@ export class AdminController {
   static async unsuspendUser(req: Request, res: Response) {
     try {
       const { userId } = req.params;
+      const user = await AdminModel.getUserById(userId);
       await AdminModel.updateUserStatus(userId, false);
+      await AuditLogService.record(req, {
+        action: 'user.unsuspend',
+        entityType: 'user',
+        entityId: userId,
+        before: user && { isSuspended: user.isSuspended },
+        after: { isSuspended: false },
+      });
       return sendSuccess(res, 'User unsuspended successfully');
     } catch (error) {
       console.error('Unsuspend user error:', error);
@@ -209,45 +294,125 @@ export class AdminController {
   }
 
   static async creditUserWallet(req: Request, res: Response) {
+    return AdminController.adjustWallet(req, res, 'credit');
+  }
+
+  static async debitUserWallet(req: Request, res: Response) {
+    return AdminController.adjustWallet(req, res, 'debit');
+  }
+
+  // Small adjustments apply at once; larger ones wait for a second admin
+  private static async adjustWallet(
+    req: Request,
+    res: Response,
+    direction: WalletAdjustmentDirection
+  ) {
     try {
       const { userId } = req.params;
-      const { amount } = req.body;
+      const { amount, reason } = req.body;
       const adminId = req.user?.userId;
 
       if (!amount || amount <= 0) {
         return sendError(res, 'Invalid amount', 400);
       }
 
-      const result = await AdminModel.creditWallet(
+      const result = await WalletAdjustmentService.adjust(
         userId,
-        amount,
-        adminId || ''
+        direction,
+        Number(amount),
+        adminId || '',
+        reason,
+        AuditLogService.recorder(req)
       );
-      return sendSuccess(res, 'Wallet credited successfully', result);
+
+      if (result.status === 'pending') {
+        await AuditLogService.record(req, {
+          action: 'wallet.adjustment.request',
+          entityType: 'wallet_adjustment_request',
+          entityId: result.request.id,
+          after: result.request,
+        });
+        return sendSuccess(
+          res,
+          `Wallet ${direction} is awaiting approval by another admin`,
+          result.request,
+          202
+        );
+      }
+
+      return sendSuccess(res, `Wallet ${direction}ed successfully`, {
+        newBalance: result.newBalance,
+      });
     } catch (error) {
-      console.error('Credit wallet error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error(`${direction} wallet error:`, error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  static async debitUserWallet(req: Request, res: Response) {
+  static async getWalletAdjustments(req: Request, res: Response) {
     try {
-      const { userId } = req.params;
-      const { amount } = req.body;
-      const adminId = req.user?.userId;
+      const result = await WalletAdjustmentService.list(
+        req.query.status as WalletAdjustmentStatus | undefined,
+        Number(req.query.page) || 1,
+        Number(req.query.limit) || 20
+      );
+      return sendSuccess(
+        res,
+        'Wallet adjustment requests retrieved successfully',
+        result
+      );
+    } catch (error) {
+      console.error('Get wallet adjustments error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
 
-      if (!amount || amount <= 0) {
-        return sendError(res, 'Invalid amount', 400);
+  static async approveWalletAdjustment(req: Request, res: Response) {
+    try {
+      const request = await WalletAdjustmentService.approve(
+        req.params.requestId,
+        req.user?.userId || '',
+        req.body.note,
+        AuditLogService.recorder(req)
+      );
+      return sendSuccess(res, `Wallet ${request.direction} approved`, request);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
       }
+      console.error('Approve wallet adjustment error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
 
-      const result = await AdminModel.debitWallet(
-        userId,
-        amount,
-        adminId || ''
+  static async rejectWalletAdjustment(req: Request, res: Response) {
+    try {
+      const { note } = req.body;
+      if (!note || typeof note !== 'string' || !note.trim()) {
+        return sendError(res, 'A reason for the rejection is required', 400);
+      }
+
+      const request = await WalletAdjustmentService.reject(
+        req.params.requestId,
+        req.user?.userId || '',
+        note.trim()
       );
-      return sendSuccess(res, 'Wallet debited successfully', result);
+      await AuditLogService.record(req, {
+        action: 'wallet.adjustment.reject',
+        entityType: 'wallet_adjustment_request',
+        entityId: request.id,
+        before: { status: 'pending' },
+        after: request,
+      });
+      return sendSuccess(res, `Wallet ${request.direction} rejected`, request);
     } catch (error) {
-      console.error('Debit wallet error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Reject wallet adjustment error:', error);
       return sendError(res, 'Internal server error');
     }
   }
@@ -262,10 +427,102 @@ export class AdminController {
     }
   }
 
+  static async getTopupAnalytics(req: Request, res: Response) {
+    try {
+      const analytics = await AnalyticsService.getTopupAnalytics({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        bucket: req.query.bucket as AnalyticsBucket | undefined,
+        groupBy: req.query.groupBy as TopupAnalyticsDimension | undefined,
+      });
+      return sendSuccess(res, 'Topup analytics retrieved', analytics);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get topup analytics error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getFundingAnalytics(req: Request, res: Response) {
+    try {
+      const analytics = await AnalyticsService.getFundingAnalytics({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        bucket: req.query.bucket as AnalyticsBucket | undefined,
+      });
+      return sendSuccess(res, 'Funding analytics retrieved', analytics);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get funding analytics error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getCashbackAnalytics(req: Request, res: Response) {
+    try {
+      const analytics = await AnalyticsService.getCashbackAnalytics({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        bucket: req.query.bucket as AnalyticsBucket | undefined,
+      });
+      return sendSuccess(res, 'Cashback analytics retrieved', analytics);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get cashback analytics error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getAuditLogs(req: Request, res: Response) {
+    try {
+      const { actorId, action, entityType, entityId, dateFrom, dateTo } =
+        req.query;
+      const result = await AuditLogService.search({
+        actorId: actorId as string | undefined,
+        action: action as string | undefined,
+        entityType: entityType as string | undefined,
+        entityId: entityId as string | undefined,
+        dateFrom: dateFrom as string | undefined,
+        dateTo: dateTo as string | undefined,
+        page: Number(req.query.page) || 1,
+        limit: Number(req.query.limit) || 20,
+      });
+      return sendSuccess(res, 'Audit logs retrieved successfully', result);
+    } catch (error) {
+      console.error('Get audit logs error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getAuditLog(req: Request, res: Response) {
+    try {
+      const log = await AuditLogService.getById(req.params.logId);
+      return sendSuccess(res, 'Audit log entry retrieved successfully', log);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get audit log error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
   static async revokeUserSessions(req: Request, res: Response) {
     try {
       const { userId } = req.params;
       const deletedCount = await AdminModel.revokeUserSessions(userId);
+      await AuditLogService.record(req, {
+        action: 'user.sessions.revoke',
+        entityType: 'user',
+        entityId: userId,
+        after: { sessionsRevoked: deletedCount },
+      });
       return sendSuccess(res, `Revoked ${deletedCount} session(s) for user`, {
         sessionsRevoked: deletedCount,
       });
@@ -305,6 +562,12 @@ export class AdminController {
       }
 
       await AdminModel.disable2FA(userId);
+      await AuditLogService.record(req, {
+        action: 'user.2fa.disable',
+        entityType: 'user',
+        entityId: userId,
+        after: { twoFactorEnabled: false },
+      });
 
       return sendSuccess(res, '2FA disabled successfully for user');
     } catch (error) {
@@ -348,6 +611,12 @@ export class AdminController {
         1,
         1
       );
+      await AuditLogService.record(req, {
+        action: 'offer.segment.compute',
+        entityType: 'offer',
+        entityId: offerId,
+        after: { members: total },
+      });
       return sendSuccess(res, 'Segment computed', { total });
     } catch (error) {
       console.error('Compute offer segment error:', error);
@@ -402,224 +671,1309 @@ export class AdminController {
       const unitPrice = price ?? 0;
       const unitDiscount = discount ?? 0;
 
-      let targets: string[] = [];
-      if (fromSegment) {
-        targets = await OfferAdminService.getAllSegmentMemberIds(offerId);
-      } else if (Array.isArray(userIds) && userIds.length > 0) {
-        targets = userIds;
-      } else {
+      let targets: string[] = [];
+      if (fromSegment) {
+        targets = await OfferAdminService.getAllSegmentMemberIds(offerId);
+      } else if (Array.isArray(userIds) && userIds.length > 0) {
+        targets = userIds;
+      } else {
+        return sendError(
+          res,
+          'Either userIds or fromSegment=true must be provided',
+          400
+        );
+      }
+
+      // Create a job record and return its id; worker will process it asynchronously
+      const job = await JobService.createJob('offer_redemption', {
+        offerId,
+        targets,
+        price: unitPrice,
+        discount: unitDiscount,
+      });
+      await AuditLogService.record(req, {
+        action: 'offer.redemptions.create',
+        entityType: 'offer',
+        entityId: offerId,
+        after: {
+          jobId: job.id,
+          targets: targets.length,
+          price: unitPrice,
+          discount: unitDiscount,
+        },
+      });
+
+      return sendSuccess(res, 'Bulk redemption job created', { jobId: job.id });
+    } catch (error) {
+      console.error('Create offer redemptions job error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getOfferRuleTypes(req: Request, res: Response) {
+    return sendSuccess(res, 'Eligibility rule types retrieved', {
+      ruleTypes: OfferAdminService.getRuleTypes(),
+    });
+  }
+
+  static async getOfferRules(req: Request, res: Response) {
+    try {
+      const rules = await OfferAdminService.listRules(req.params.offerId);
+      return sendSuccess(res, 'Eligibility rules retrieved', { rules });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get offer rules error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async createOfferRule(req: Request, res: Response) {
+    try {
+      const { ruleType, ruleKey, params, description } = req.body;
+      const rule = await OfferAdminService.createRule(req.params.offerId, {
+        ruleType,
+        ruleKey,
+        params,
+        description,
+      });
+      await AuditLogService.record(req, {
+        action: 'offer.rule.create',
+        entityType: 'offer',
+        entityId: req.params.offerId,
+        after: rule,
+      });
+      return sendSuccess(res, 'Eligibility rule created', { rule }, 201);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Create offer rule error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async updateOfferRule(req: Request, res: Response) {
+    try {
+      const { ruleType, ruleKey, params, description } = req.body;
+      const before = await AdminController.findOfferRule(req);
+      const rule = await OfferAdminService.updateRule(
+        req.params.offerId,
+        req.params.ruleId,
+        { ruleType, ruleKey, params, description }
+      );
+      await AuditLogService.record(req, {
+        action: 'offer.rule.update',
+        entityType: 'offer',
+        entityId: req.params.offerId,
+        before,
+        after: rule,
+      });
+      return sendSuccess(res, 'Eligibility rule updated', { rule });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Update offer rule error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async deleteOfferRule(req: Request, res: Response) {
+    try {
+      const before = await AdminController.findOfferRule(req);
+      await OfferAdminService.deleteRule(req.params.offerId, req.params.ruleId);
+      await AuditLogService.record(req, {
+        action: 'offer.rule.delete',
+        entityType: 'offer',
+        entityId: req.params.offerId,
+        before,
+      });
+      return sendSuccess(res, 'Eligibility rule deleted');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Delete offer rule error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // The rule named in the route, for the audit log
+  private static async findOfferRule(req: Request) {
+    const rules = await OfferAdminService.listRules(req.params.offerId);
+    return rules.find(rule => rule.id === req.params.ruleId) || null;
+  }
+
+  static async getRewardCatalogue(req: Request, res: Response) {
+    try {
+      const items = await RewardRedemptionService.listCatalogue(false);
+      return sendSuccess(res, 'Reward catalogue retrieved', { items });
+    } catch (error) {
+      console.error('Get reward catalogue error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async createRewardCatalogueItem(req: Request, res: Response) {
+    try {
+      const item = await RewardRedemptionService.createItem(
+        req.body,
+        req.user?.userId
+      );
+      await AuditLogService.record(req, {
+        action: 'reward_catalogue.create',
+        entityType: 'reward_catalogue_item',
+        entityId: item.id,
+        after: item,
+      });
+      return sendSuccess(res, 'Catalogue item created', { item }, 201);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Create reward catalogue item error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async updateRewardCatalogueItem(req: Request, res: Response) {
+    try {
+      const before = await RewardCatalogueModel.findById(req.params.itemId);
+      const item = await RewardRedemptionService.updateItem(
+        req.params.itemId,
+        req.body
+      );
+      await AuditLogService.record(req, {
+        action: 'reward_catalogue.update',
+        entityType: 'reward_catalogue_item',
+        entityId: item.id,
+        before,
+        after: item,
+      });
+      return sendSuccess(res, 'Catalogue item updated', { item });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Update reward catalogue item error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getPointsExpiryPolicies(req: Request, res: Response) {
+    try {
+      const policies = await PointsExpiryService.listPolicies();
+      return sendSuccess(res, 'Points expiry policies retrieved', {
+        policies,
+      });
+    } catch (error) {
+      console.error('Get points expiry policies error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async setPointsExpiryPolicy(req: Request, res: Response) {
+    try {
+      const { expiryDays, isActive } = req.body;
+      const before = await AdminController.findPointsExpiryPolicy(req);
+      const policy = await PointsExpiryService.setPolicy(
+        req.params.reason,
+        expiryDays,
+        isActive,
+        req.user?.userId
+      );
+      await AuditLogService.record(req, {
+        action: 'points_expiry_policy.set',
+        entityType: 'points_expiry_policy',
+        entityId: req.params.reason,
+        before,
+        after: policy,
+      });
+      return sendSuccess(res, 'Points expiry policy saved', { policy });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Set points expiry policy error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async deletePointsExpiryPolicy(req: Request, res: Response) {
+    try {
+      const before = await AdminController.findPointsExpiryPolicy(req);
+      await PointsExpiryService.deletePolicy(req.params.reason);
+      await AuditLogService.record(req, {
+        action: 'points_expiry_policy.delete',
+        entityType: 'points_expiry_policy',
+        entityId: req.params.reason,
+        before,
+      });
+      return sendSuccess(res, 'Points expiry policy deleted');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Delete points expiry policy error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // The policy named in the route, for the audit log
+  private static async findPointsExpiryPolicy(req: Request) {
+    const policies = await PointsExpiryService.listPolicies();
+    return policies.find(policy => policy.reason === req.params.reason) || null;
+  }
+
+  static async getBadgeMetrics(req: Request, res: Response) {
+    return sendSuccess(
+      res,
+      'Badge rule metrics retrieved',
+      BadgeAdminService.getMetrics()
+    );
+  }
+
+  static async getBadges(req: Request, res: Response) {
+    try {
+      const badges = await BadgeAdminService.listBadges();
+      return sendSuccess(res, 'Badges retrieved', { badges });
+    } catch (error) {
+      console.error('Get badges error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async createBadge(req: Request, res: Response) {
+    try {
+      const { name, description, icon, category, rule, isActive } = req.body;
+      const badge = await BadgeAdminService.createBadge({
+        name,
+        description,
+        icon,
+        category,
+        rule,
+        isActive,
+      });
+      await AuditLogService.record(req, {
+        action: 'badge.create',
+        entityType: 'badge',
+        entityId: badge.id,
+        after: badge,
+      });
+      return sendSuccess(res, 'Badge created', { badge }, 201);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Create badge error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async updateBadge(req: Request, res: Response) {
+    try {
+      const { name, description, icon, category, rule, isActive } = req.body;
+      const before = await BadgeModel.findById(req.params.badgeId);
+      const badge = await BadgeAdminService.updateBadge(req.params.badgeId, {
+        name,
+        description,
+        icon,
+        category,
+        rule,
+        isActive,
+      });
+      await AuditLogService.record(req, {
+        action: 'badge.update',
+        entityType: 'badge',
+        entityId: badge.id,
+        before,
+        after: badge,
+      });
+      return sendSuccess(res, 'Badge updated', { badge });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Update badge error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async backfillBadge(req: Request, res: Response) {
+    try {
+      const job = await BadgeAdminService.startBackfill(req.params.badgeId);
+      await AuditLogService.record(req, {
+        action: 'badge.backfill',
+        entityType: 'badge',
+        entityId: req.params.badgeId,
+        after: { jobId: job.id },
+      });
+      return sendSuccess(res, 'Badge backfill job created', { jobId: job.id });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Backfill badge error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getReferralReviews(req: Request, res: Response) {
+    try {
+      const status = (req.query.status as ReferralReviewStatus) || 'flagged';
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const { referrals, total } = await ReferralFraudService.listReviewQueue(
+        status,
+        page,
+        limit
+      );
+      return sendSuccess(res, 'Referral reviews retrieved', {
+        referrals,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Get referral reviews error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async approveReferral(req: Request, res: Response) {
+    try {
+      const referral = await ReferralFraudService.approve(
+        req.params.referralId,
+        req.user?.userId,
+        req.body.note
+      );
+      await AuditLogService.record(req, {
+        action: 'referral.approve',
+        entityType: 'referral',
+        entityId: referral.id,
+        before: { reviewStatus: 'flagged' },
+        after: referral,
+      });
+      return sendSuccess(res, 'Referral approved', { referral });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Approve referral error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async rejectReferral(req: Request, res: Response) {
+    try {
+      const referral = await ReferralFraudService.reject(
+        req.params.referralId,
+        req.user?.userId,
+        req.body.note
+      );
+      await AuditLogService.record(req, {
+        action: 'referral.reject',
+        entityType: 'referral',
+        entityId: referral.id,
+        before: { reviewStatus: 'flagged' },
+        after: referral,
+      });
+      return sendSuccess(res, 'Referral cancelled', { referral });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Reject referral error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getReferralCommissionLevels(req: Request, res: Response) {
+    try {
+      const levels = await ReferralsService.getCommissionLevels();
+      return sendSuccess(res, 'Referral commission levels retrieved', {
+        levels,
+      });
+    } catch (error) {
+      console.error('Get referral commission levels error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async setReferralCommissionLevel(req: Request, res: Response) {
+    try {
+      const { percentage, durationMonths, capPerReferee, isActive } = req.body;
+      const levels = await ReferralsService.getCommissionLevels();
+      const before =
+        levels.find(level => level.level === Number(req.params.level)) || null;
+      const level = await ReferralsService.setCommissionLevel(
+        Number(req.params.level),
+        { percentage, durationMonths, capPerReferee, isActive },
+        req.user?.userId
+      );
+      await AuditLogService.record(req, {
+        action: 'referral_commission_level.set',
+        entityType: 'referral_commission_level',
+        entityId: String(level.level),
+        before,
+        after: level,
+      });
+      return sendSuccess(res, 'Referral commission level saved', { level });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Set referral commission level error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // Transaction-related methods
+  static async getAllTransactions(req: Request, res: Response) {
+    try {
+      const { page, limit } = req.query;
+
+      const filters = {
+        ...AdminController.transactionFilters(req),
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 10,
+      };
+
+      const result = await AdminModel.getAllTransactions(filters);
+      return sendSuccess(res, 'Transactions retrieved successfully', result);
+    } catch (error) {
+      console.error('Get all transactions error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async exportTransactions(req: Request, res: Response) {
+    return AdminController.export(
+      req,
+      res,
+      'transactions',
+      AdminController.transactionFilters(req)
+    );
+  }
+
+  static async exportTopupRequests(req: Request, res: Response) {
+    return AdminController.export(
+      req,
+      res,
+      'topup_requests',
+      AdminController.topupRequestFilters(req)
+    );
+  }
+
+  static async exportSettlements(req: Request, res: Response) {
+    return AdminController.export(
+      req,
+      res,
+      'settlements',
+      AdminController.settlementFilters(req)
+    );
+  }
+
+  static async getExport(req: Request, res: Response) {
+    try {
+      const job = await ExportService.getJob(
+        req.params.jobId,
+        req.user?.userId || ''
+      );
+      return sendSuccess(res, 'Export retrieved', {
+        jobId: job.id,
+        status: job.status,
+        rows: job.result?.rows,
+        downloadUrl: job.result?.downloadUrl,
+        error: job.last_error,
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get export error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async downloadExport(req: Request, res: Response) {
+    try {
+      const { filePath, fileName } = await ExportService.getDownload(
+        req.params.jobId,
+        req.user?.userId || ''
+      );
+      await AuditLogService.record(req, {
+        action: 'export.download',
+        entityType: 'export',
+        entityId: req.params.jobId,
+        after: { fileName },
+      });
+      return res.download(filePath, fileName);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Download export error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // Streams a small export back as CSV, or queues a large one as a job
+  private static async export(
+    req: Request,
+    res: Response,
+    type: ExportType,
+    filters: ExportFilters
+  ) {
+    try {
+      const request = await ExportService.request(
+        type,
+        filters,
+        req.user?.userId || '',
+        req.query.background === 'true'
+      );
+      await AuditLogService.record(req, {
+        action: `export.${type}`,
+        entityType: 'export',
+        entityId: request.mode === 'job' ? request.job.id : null,
+        after: { filters, rows: request.rows, mode: request.mode },
+      });
+      if (request.mode === 'job') {
+        return sendSuccess(
+          res,
+          'Export queued; fetch it from the download link when done',
+          {
+            jobId: request.job.id,
+            rows: request.rows,
+            statusUrl: `/api/v1/admin/exports/${request.job.id}`,
+          },
+          202
+        );
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${ExportService.fileName(type)}"`
+      );
+      await ExportService.writeCsv(type, filters, res);
+      return res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        // Part of the file has gone; cut it short rather than send JSON
+        console.error(`Export ${type} failed mid-stream:`, error);
+        return res.destroy();
+      }
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error(`Export ${type} error:`, error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  private static transactionFilters(req: Request): TransactionFilters {
+    const { userId, dateFrom, dateTo, direction } = req.query;
+    return {
+      userId: userId as string | undefined,
+      dateFrom: dateFrom as string | undefined,
+      dateTo: dateTo as string | undefined,
+      direction: direction as 'debit' | 'credit' | undefined,
+    };
+  }
+
+  private static topupRequestFilters(req: Request): TopupRequestFilters {
+    const { status, userId, dateFrom, dateTo } = req.query;
+
+    // Validate status to ensure it's one of the allowed values
+    const validStatuses: TopupRequestStatus[] = [
+      'pending',
+      'processing',
+      'pending_confirmation',
+      'success',
+      'completed',
+      'failed',
+      'cancelled',
+      'reversed',
+    ];
+    let validatedStatus: TopupRequestStatus | undefined;
+
+    if (
+      status &&
+      typeof status === 'string' &&
+      validStatuses.includes(status as TopupRequestStatus)
+    ) {
+      validatedStatus = status as TopupRequestStatus;
+    }
+
+    return {
+      status: validatedStatus,
+      userId: userId as string | undefined,
+      dateFrom: dateFrom as string | undefined,
+      dateTo: dateTo as string | undefined,
+    };
+  }
+
+  private static settlementFilters(req: Request): SettlementFilters {
+    const { providerId, dateFrom, dateTo } = req.query;
+    return {
+      providerId: providerId as string | undefined,
+      dateFrom: dateFrom as string | undefined,
+      dateTo: dateTo as string | undefined,
+    };
+  }
+
+  static async getTransactionById(req: Request, res: Response) {
+    try {
+      const { transactionId } = req.params;
+      const transaction = await AdminModel.getTransactionById(transactionId);
+
+      if (!transaction) {
+        return sendError(res, 'Transaction not found', 404);
+      }
+
+      return sendSuccess(
+        res,
+        'Transaction retrieved successfully',
+        transaction
+      );
+    } catch (error) {
+      console.error('Get transaction by ID error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // Topup request-related methods
+  static async getAllTopupRequests(req: Request, res: Response) {
+    try {
+      const { page, limit } = req.query;
+
+      const filters = {
+        ...AdminController.topupRequestFilters(req),
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 10,
+      };
+
+      const result = await AdminModel.getAllTopupRequests(filters);
+      return sendSuccess(res, 'Topup requests retrieved successfully', result);
+    } catch (error) {
+      console.error('Get all topup requests error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getTopupRequestById(req: Request, res: Response) {
+    try {
+      const { requestId } = req.params;
+      const request = await AdminModel.getTopupRequestById(requestId);
+
+      if (!request) {
+        return sendError(res, 'Topup request not found', 404);
+      }
+
+      return sendSuccess(res, 'Topup request retrieved successfully', request);
+    } catch (error) {
+      console.error('Get topup request by ID error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async retryTopupRequest(req: Request, res: Response) {
+    try {
+      const { requestId } = req.params;
+      const request = await AdminModel.getTopupRequestById(requestId);
+      if (!request) {
+        return sendError(res, 'Topup request not found', 404);
+      }
+
+      const success = await AdminModel.retryTopupRequest(requestId);
+      if (!success) {
+        return sendError(
+          res,
+          `Topup request with status '${request.status}' cannot be retried`,
+          409
+        );
+      }
+      await AuditLogService.record(req, {
+        action: 'topup.retry',
+        entityType: 'topup_request',
+        entityId: requestId,
+        before: {
+          status: request.status,
+          attemptCount: request.attemptCount,
+        },
+        after: {
+          status: 'pending',
+          attemptCount: (request.attemptCount || 0) + 1,
+        },
+      });
+
+      return sendSuccess(res, 'Topup request retry initiated successfully');
+    } catch (error) {
+      console.error('Retry topup request error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async reverseTopupRequest(req: Request, res: Response) {
+    try {
+      const { requestId } = req.params;
+      const { reason } = req.body;
+
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        return sendError(res, 'A reason for the reversal is required', 400);
+      }
+
+      const result = await TopupReversalService.reverseByAdmin(
+        requestId,
+        { reason: reason.trim(), initiatedBy: req.user?.userId },
+        AuditLogService.recorder(req)
+      );
+
+      return sendSuccess(
+        res,
+        result.alreadyReversed
+          ? 'Topup request was already reversed'
+          : 'Topup request reversed successfully',
+        result.reversal
+      );
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Reverse topup request error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // Settlement-related methods
+  static async getAllSettlements(req: Request, res: Response) {
+    try {
+      const settlements = await AdminModel.getAllSettlements(
+        AdminController.settlementFilters(req)
+      );
+      return sendSuccess(res, 'Settlements retrieved successfully', {
+        settlements,
+      });
+    } catch (error) {
+      console.error('Get all settlements error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getSettlementById(req: Request, res: Response) {
+    try {
+      const { settlementId } = req.params;
+      const settlement = await AdminModel.getSettlementById(settlementId);
+
+      if (!settlement) {
+        return sendError(res, 'Settlement not found', 404);
+      }
+
+      return sendSuccess(res, 'Settlement retrieved successfully', settlement);
+    } catch (error) {
+      console.error('Get settlement by ID error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async createSettlement(req: Request, res: Response) {
+    try {
+      const { providerId, settlementDate, amount, fees, reference, rawReport } =
+        req.body;
+
+      if (!providerId || !settlementDate || !amount) {
+        return sendError(
+          res,
+          'Provider ID, settlement date, and amount are required',
+          400
+        );
+      }
+
+      const settlementData = {
+        providerId,
+        settlementDate: new Date(settlementDate),
+        amount: parseFloat(amount),
+        fees: fees ? parseFloat(fees) : 0,
+        reference,
+        rawReport,
+      };
+
+      const settlement = await AdminModel.createSettlement(settlementData);
+      await AuditLogService.record(req, {
+        action: 'settlement.create',
+        entityType: 'settlement',
+        entityId: settlement.id,
+        after: settlement,
+      });
+      return sendSuccess(res, 'Settlement created successfully', settlement);
+    } catch (error) {
+      console.error('Create settlement error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // Supplier reconciliation methods
+  static async createReconciliation(req: Request, res: Response) {
+    try {
+      const { supplierId, periodStart, periodEnd, format, content, fileName } =
+        req.body;
+
+      if (
+        !supplierId ||
+        !periodStart ||
+        !periodEnd ||
+        typeof content !== 'string' ||
+        !content.trim()
+      ) {
+        return sendError(
+          res,
+          'supplierId, periodStart, periodEnd and content are required',
+          400
+        );
+      }
+
+      const result = await SupplierReconciliationService.reconcile({
+        supplierId,
+        periodStart,
+        periodEnd,
+        format: format || 'csv',
+        content,
+        fileName,
+        createdBy: req.user?.userId,
+      });
+      await AuditLogService.record(req, {
+        action: 'reconciliation.create',
+        entityType: 'supplier_reconciliation',
+        entityId: result.reconciliation.id,
+        after: result.reconciliation,
+      });
+      return sendSuccess(res, 'Settlement report reconciled', result, 201);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Create reconciliation error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getReconciliations(req: Request, res: Response) {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const { reconciliations, total } =
+        await SupplierReconciliationService.list(
+          {
+            supplierId: req.query.supplierId as string | undefined,
+            status: req.query.status as ReconciliationStatus | undefined,
+          },
+          page,
+          limit
+        );
+      const totalPages = Math.ceil(total / limit);
+      return sendSuccess(res, 'Reconciliations retrieved successfully', {
+        reconciliations,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error('Get reconciliations error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getReconciliation(req: Request, res: Response) {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const { reconciliation, items, total } =
+        await SupplierReconciliationService.get(
+          req.params.reconciliationId,
+          {
+            category: req.query.category as ReconciliationCategory | undefined,
+            openOnly: req.query.open === 'true',
+          },
+          page,
+          limit
+        );
+      const totalPages = Math.ceil(total / limit);
+      return sendSuccess(res, 'Reconciliation retrieved successfully', {
+        reconciliation,
+        items,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get reconciliation error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async resolveReconciliationItem(req: Request, res: Response) {
+    try {
+      const { resolution, note } = req.body;
+      const item = await SupplierReconciliationService.resolveItem(
+        req.params.reconciliationId,
+        req.params.itemId,
+        resolution,
+        note,
+        req.user?.userId
+      );
+      await AuditLogService.record(req, {
+        action: 'reconciliation.item.resolve',
+        entityType: 'supplier_reconciliation_item',
+        entityId: item.id,
+        after: item,
+      });
+      return sendSuccess(res, 'Reconciliation item resolved', { item });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Resolve reconciliation item error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async closeReconciliation(req: Request, res: Response) {
+    try {
+      const reconciliation = await SupplierReconciliationService.close(
+        req.params.reconciliationId,
+        req.user?.userId
+      );
+      await AuditLogService.record(req, {
+        action: 'reconciliation.close',
+        entityType: 'supplier_reconciliation',
+        entityId: reconciliation.id,
+        before: { status: 'open' },
+        after: reconciliation,
+      });
+      return sendSuccess(res, 'Reconciliation closed', { reconciliation });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Close reconciliation error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  // Ledger-related methods
+  static async getLedgerIntegrity(req: Request, res: Response) {
+    try {
+      const report = await LedgerService.getIntegrityReport();
+      return sendSuccess(res, 'Ledger integrity report generated', report);
+    } catch (error) {
+      console.error('Get ledger integrity error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getLedgerJournals(req: Request, res: Response) {
+    try {
+      const { referenceType, referenceId } = req.query;
+
+      if (!referenceType || !referenceId) {
         return sendError(
           res,
-          'Either userIds or fromSegment=true must be provided',
+          'referenceType and referenceId are required',
           400
         );
       }
 
-      // Create a job record and return its id; worker will process it asynchronously
-      const JobService = (await import('../services/job.service')).JobService;
-      const job = await JobService.createJob('offer_redemption', {
-        offerId,
-        targets,
-        price: unitPrice,
-        discount: unitDiscount,
+      const journals = await LedgerModel.findJournalsByReference(
+        String(referenceType),
+        String(referenceId)
+      );
+      return sendSuccess(res, 'Ledger journals retrieved successfully', {
+        journals,
       });
-
-      return sendSuccess(res, 'Bulk redemption job created', { jobId: job.id });
     } catch (error) {
-      console.error('Create offer redemptions job error:', error);
+      console.error('Get ledger journals error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  // Transaction-related methods
-  static async getAllTransactions(req: Request, res: Response) {
+  // Pricing-related methods
+  static async getCommissionRules(req: Request, res: Response) {
     try {
-      const { userId, dateFrom, dateTo, direction, page, limit } = req.query;
-
-      const filters = {
-        userId: userId as string | undefined,
-        dateFrom: dateFrom as string | undefined,
-        dateTo: dateTo as string | undefined,
-        direction: direction as 'debit' | 'credit' | undefined,
-        page: page ? parseInt(page as string) : 1,
-        limit: limit ? parseInt(limit as string) : 10,
-      };
-
-      const result = await AdminModel.getAllTransactions(filters);
-      return sendSuccess(res, 'Transactions retrieved successfully', result);
+      const { operatorId, operatorProductId, supplierId, role, isActive } =
+        req.query;
+
+      const rules = await PricingService.getRules({
+        operatorId: operatorId as string | undefined,
+        operatorProductId: operatorProductId as string | undefined,
+        supplierId: supplierId as string | undefined,
+        role: role as string | undefined,
+        isActive: isActive !== undefined ? isActive === 'true' : undefined,
+      });
+      return sendSuccess(res, 'Commission rules retrieved successfully', {
+        rules,
+      });
     } catch (error) {
-      console.error('Get all transactions error:', error);
+      console.error('Get commission rules error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  static async getTransactionById(req: Request, res: Response) {
+  static async getCommissionRuleById(req: Request, res: Response) {
     try {
-      const { transactionId } = req.params;
-      const transaction = await AdminModel.getTransactionById(transactionId);
-
-      if (!transaction) {
-        return sendError(res, 'Transaction not found', 404);
+      const rule = await PricingService.getRule(req.params.ruleId);
+      return sendSuccess(res, 'Commission rule retrieved successfully', rule);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
       }
+      console.error('Get commission rule error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async createCommissionRule(req: Request, res: Response) {
+    try {
+      const {
+        name,
+        operatorId,
+        operatorProductId,
+        supplierId,
+        role,
+        agentId,
+        ratePercent,
+        fixedAmount,
+        isActive,
+      } = req.body;
 
+      const rule = await PricingService.createRule({
+        name,
+        operatorId,
+        operatorProductId,
+        supplierId,
+        role,
+        agentId,
+        ratePercent,
+        fixedAmount,
+        isActive,
+        createdBy: req.user?.userId,
+      });
+      await AuditLogService.record(req, {
+        action: 'commission_rule.create',
+        entityType: 'commission_rule',
+        entityId: rule.id,
+        after: rule,
+      });
       return sendSuccess(
         res,
-        'Transaction retrieved successfully',
-        transaction
+        'Commission rule created successfully',
+        rule,
+        201
       );
     } catch (error) {
-      console.error('Get transaction by ID error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Create commission rule error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  // Topup request-related methods
-  static async getAllTopupRequests(req: Request, res: Response) {
+  static async updateCommissionRule(req: Request, res: Response) {
     try {
-      const { status, userId, dateFrom, dateTo, page, limit } = req.query;
-
-      // Validate status to ensure it's one of the allowed values
-      const validStatuses = [
-        'pending',
-        'completed',
-        'failed',
-        'cancelled',
-      ] as const;
-      let validatedStatus:
-        | 'pending'
-        | 'completed'
-        | 'failed'
-        | 'cancelled'
-        | undefined;
-
-      if (
-        status &&
-        typeof status === 'string' &&
-        validStatuses.includes(status as any)
-      ) {
-        validatedStatus = status as
-          | 'pending'
-          | 'completed'
-          | 'failed'
-          | 'cancelled';
-      }
-
-      const filters = {
-        status: validatedStatus,
-        userId: userId as string | undefined,
-        dateFrom: dateFrom as string | undefined,
-        dateTo: dateTo as string | undefined,
-        page: page ? parseInt(page as string) : 1,
-        limit: limit ? parseInt(limit as string) : 10,
-      };
+      const {
+        name,
+        operatorId,
+        operatorProductId,
+        supplierId,
+        role,
+        agentId,
+        ratePercent,
+        fixedAmount,
+        isActive,
+      } = req.body;
 
-      const result = await AdminModel.getAllTopupRequests(filters);
-      return sendSuccess(res, 'Topup requests retrieved successfully', result);
+      const before = await PricingService.getRule(req.params.ruleId);
+      const rule = await PricingService.updateRule(req.params.ruleId, {
+        name,
+        operatorId,
+        operatorProductId,
+        supplierId,
+        role,
+        agentId,
+        ratePercent,
+        fixedAmount,
+        isActive,
+      });
+      await AuditLogService.record(req, {
+        action: 'commission_rule.update',
+        entityType: 'commission_rule',
+        entityId: req.params.ruleId,
+        before,
+        after: rule,
+      });
+      return sendSuccess(res, 'Commission rule updated successfully', rule);
     } catch (error) {
-      console.error('Get all topup requests error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Update commission rule error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  static async getTopupRequestById(req: Request, res: Response) {
+  static async deleteCommissionRule(req: Request, res: Response) {
     try {
-      const { requestId } = req.params;
-      const request = await AdminModel.getTopupRequestById(requestId);
-
-      if (!request) {
-        return sendError(res, 'Topup request not found', 404);
-      }
-
-      return sendSuccess(res, 'Topup request retrieved successfully', request);
+      const before = await PricingService.getRule(req.params.ruleId);
+      await PricingService.deleteRule(req.params.ruleId);
+      await AuditLogService.record(req, {
+        action: 'commission_rule.delete',
+        entityType: 'commission_rule',
+        entityId: req.params.ruleId,
+        before,
+      });
+      return sendSuccess(res, 'Commission rule deleted successfully');
     } catch (error) {
-      console.error('Get topup request by ID error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Delete commission rule error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  static async retryTopupRequest(req: Request, res: Response) {
+  static async getPriceQuote(req: Request, res: Response) {
     try {
-      const { requestId } = req.params;
-      const success = await AdminModel.retryTopupRequest(requestId);
+      const { operatorProductId, role, userId } = req.query;
 
-      if (!success) {
-        return sendError(
-          res,
-          'Topup request not found or could not be retried',
-          404
-        );
+      if (!operatorProductId) {
+        return sendError(res, 'operatorProductId is required', 400);
       }
 
-      return sendSuccess(res, 'Topup request retry initiated successfully');
+      const quote = await PricingService.previewQuote(
+        String(operatorProductId),
+        {
+          role: role as string | undefined,
+          userId: userId as string | undefined,
+        }
+      );
+      return sendSuccess(res, 'Price quote generated', quote);
     } catch (error) {
-      console.error('Retry topup request error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Get price quote error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  // Settlement-related methods
-  static async getAllSettlements(req: Request, res: Response) {
+  // E-PIN inventory methods
+  static async uploadEpinBatch(req: Request, res: Response) {
     try {
-      const { providerId, dateFrom, dateTo } = req.query;
+      const { operatorId, supplierId, denomination, costPrice, fileName, csv } =
+        req.body;
 
-      const filters = {
-        providerId: providerId as string | undefined,
-        dateFrom: dateFrom as string | undefined,
-        dateTo: dateTo as string | undefined,
-      };
+      if (!operatorId || typeof csv !== 'string' || !csv.trim()) {
+        return sendError(res, 'operatorId and csv are required', 400);
+      }
 
-      const settlements = await AdminModel.getAllSettlements(filters);
-      return sendSuccess(res, 'Settlements retrieved successfully', {
-        settlements,
+      const result = await EpinService.importBatch({
+        operatorId,
+        supplierId,
+        denomination:
+          denomination === undefined ? undefined : Number(denomination),
+        costPrice: costPrice === undefined ? undefined : Number(costPrice),
+        fileName,
+        csv,
+        uploadedBy: req.user?.userId,
       });
+      await AuditLogService.record(req, {
+        action: 'epin.batch.upload',
+        entityType: 'epin_batch',
+        entityId: result.batch.id,
+        after: { ...result.batch, rejectedRows: result.errors.length },
+      });
+      return sendSuccess(res, 'E-PIN batch imported', result, 201);
     } catch (error) {
-      console.error('Get all settlements error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Upload E-PIN batch error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  static async getSettlementById(req: Request, res: Response) {
+  static async getEpinStock(req: Request, res: Response) {
     try {
-      const { settlementId } = req.params;
-      const settlement = await AdminModel.getSettlementById(settlementId);
-
-      if (!settlement) {
-        return sendError(res, 'Settlement not found', 404);
-      }
-
-      return sendSuccess(res, 'Settlement retrieved successfully', settlement);
+      const stock = await EpinService.getStockLevels();
+      return sendSuccess(res, 'E-PIN stock retrieved successfully', {
+        stock,
+      });
     } catch (error) {
-      console.error('Get settlement by ID error:', error);
+      console.error('Get E-PIN stock error:', error);
       return sendError(res, 'Internal server error');
     }
   }
 
-  static async createSettlement(req: Request, res: Response) {
+  static async setEpinStockThreshold(req: Request, res: Response) {
     try {
-      const { providerId, settlementDate, amount, fees, reference, rawReport } =
-        req.body;
+      const { operatorId, denomination, threshold } = req.body;
 
-      if (!providerId || !settlementDate || !amount) {
+      if (
+        !operatorId ||
+        denomination === undefined ||
+        threshold === undefined
+      ) {
         return sendError(
           res,
-          'Provider ID, settlement date, and amount are required',
+          'operatorId, denomination and threshold are required',
           400
         );
       }
 
-      const settlementData = {
-        providerId,
-        settlementDate: new Date(settlementDate),
-        amount: parseFloat(amount),
-        fees: fees ? parseFloat(fees) : 0,
-        reference,
-        rawReport,
-      };
-
-      const settlement = await AdminModel.createSettlement(settlementData);
-      return sendSuccess(res, 'Settlement created successfully', settlement);
+      await EpinService.setThreshold(
+        operatorId,
+        Number(denomination),
+        Number(threshold)
+      );
+      await AuditLogService.record(req, {
+        action: 'epin.threshold.set',
+        entityType: 'operator',
+        entityId: operatorId,
+        after: {
+          denomination: Number(denomination),
+          threshold: Number(threshold),
+        },
+      });
+      return sendSuccess(res, 'E-PIN stock alert level updated', {
+        operatorId,
+        denomination: Number(denomination),
+        threshold: Number(threshold),
+      });
     } catch (error) {
-      console.error('Create settlement error:', error);
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Set E-PIN stock threshold error:', error);
       return sendError(res, 'Internal server error');
     }
   }
@@ -668,6 +2022,12 @@ export class AdminController {
       };
 
       const operator = await AdminModel.createOperator(operatorData);
+      await AuditLogService.record(req, {
+        action: 'operator.create',
+        entityType: 'operator',
+        entityId: operator.id,
+        after: operator,
+      });
       return sendSuccess(res, 'Operator created successfully', operator);
     } catch (error) {
       console.error('Create operator error:', error);
@@ -685,7 +2045,15 @@ export class AdminController {
         isoCountry,
       };
 
+      const before = await AdminModel.getOperatorById(operatorId);
       const operator = await AdminModel.updateOperator(operatorId, updateData);
+      await AuditLogService.record(req, {
+        action: 'operator.update',
+        entityType: 'operator',
+        entityId: operatorId,
+        before,
+        after: operator,
+      });
       return sendSuccess(res, 'Operator updated successfully', operator);
     } catch (error) {
       console.error('Update operator error:', error);
@@ -693,6 +2061,138 @@ export class AdminController {
     }
   }
 
+  static async getOperatorPrefixes(req: Request, res: Response) {
+    try {
+      const prefixes = await OperatorDetectionService.listPrefixes();
+      return sendSuccess(res, 'Operator prefixes retrieved', { prefixes });
+    } catch (error) {
+      console.error('Get operator prefixes error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async addOperatorPrefix(req: Request, res: Response) {
+    try {
+      const { operatorId, prefix } = req.body;
+      const created = await OperatorDetectionService.addPrefix(
+        operatorId,
+        prefix
+      );
+      await AuditLogService.record(req, {
+        action: 'operator.prefix.add',
+        entityType: 'operator_prefix',
+        entityId: created.id,
+        after: created,
+      });
+      return sendSuccess(
+        res,
+        'Operator prefix added',
+        { prefix: created },
+        201
+      );
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Add operator prefix error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async removeOperatorPrefix(req: Request, res: Response) {
+    try {
+      const prefixes = await OperatorDetectionService.listPrefixes();
+      const before =
+        prefixes.find(prefix => prefix.id === req.params.prefixId) || null;
+      await OperatorDetectionService.removePrefix(req.params.prefixId);
+      await AuditLogService.record(req, {
+        action: 'operator.prefix.remove',
+        entityType: 'operator_prefix',
+        entityId: req.params.prefixId,
+        before,
+      });
+      return sendSuccess(res, 'Operator prefix removed');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Remove operator prefix error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async getPortedNumbers(req: Request, res: Response) {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const { portedNumbers, total } =
+        await OperatorDetectionService.listPortedNumbers(page, limit);
+      return sendSuccess(res, 'Ported numbers retrieved', {
+        portedNumbers,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Get ported numbers error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async setPortedNumber(req: Request, res: Response) {
+    try {
+      const { operatorId, note } = req.body;
+      const portedNumber = await OperatorDetectionService.setPortedNumber(
+        req.params.phoneNumber,
+        operatorId,
+        note,
+        req.user?.userId
+      );
+      await AuditLogService.record(req, {
+        action: 'ported_number.set',
+        entityType: 'ported_number',
+        entityId: portedNumber.phoneNumber,
+        after: portedNumber,
+      });
+      return sendSuccess(res, 'Ported number saved', { portedNumber });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Set ported number error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async removePortedNumber(req: Request, res: Response) {
+    try {
+      const phoneNumber = OperatorDetectionService.normalizePhone(
+        req.params.phoneNumber
+      );
+      const before = phoneNumber
+        ? await PortedNumberModel.findByPhone(phoneNumber)
+        : null;
+      await OperatorDetectionService.removePortedNumber(req.params.phoneNumber);
+      await AuditLogService.record(req, {
+        action: 'ported_number.remove',
+        entityType: 'ported_number',
+        entityId: req.params.phoneNumber,
+        before,
+      });
+      return sendSuccess(res, 'Ported number removed');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Remove ported number error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
   // Supplier-related methods
   static async getAllSuppliers(req: Request, res: Response) {
     try {
@@ -740,6 +2240,12 @@ export class AdminController {
       };
 
       const supplier = await AdminModel.createSupplier(supplierData);
+      await AuditLogService.record(req, {
+        action: 'supplier.create',
+        entityType: 'supplier',
+        entityId: supplier.id,
+        after: supplier,
+      });
       return sendSuccess(res, 'Supplier created successfully', supplier);
     } catch (error) {
       console.error('Create supplier error:', error);
@@ -761,7 +2267,15 @@ export class AdminController {
         isActive,
       };
 
+      const before = await AdminModel.getSupplierById(supplierId);
       const supplier = await AdminModel.updateSupplier(supplierId, updateData);
+      await AuditLogService.record(req, {
+        action: 'supplier.update',
+        entityType: 'supplier',
+        entityId: supplierId,
+        before,
+        after: supplier,
+      });
       return sendSuccess(res, 'Supplier updated successfully', supplier);
     } catch (error) {
       console.error('Update supplier error:', error);
@@ -867,6 +2381,12 @@ export class AdminController {
           productData,
           mappingData
         );
+        await AuditLogService.record(req, {
+          action: 'product.create',
+          entityType: 'product',
+          entityId: result.product.id,
+          after: result,
+        });
         return sendSuccess(
           res,
           'Product and mapping created successfully',
@@ -876,6 +2396,12 @@ export class AdminController {
       } else {
         // Create product only
         const product = await AdminModel.createProduct(productData);
+        await AuditLogService.record(req, {
+          action: 'product.create',
+          entityType: 'product',
+          entityId: product.id,
+          after: product,
+        });
         return sendSuccess(res, 'Product created successfully', product, 201);
       }
     } catch (error) {
@@ -913,7 +2439,15 @@ export class AdminController {
         slug,
       };
 
+      const before = await AdminModel.getProductById(productId);
       const product = await AdminModel.updateProduct(productId, updateData);
+      await AuditLogService.record(req, {
+        action: 'product.update',
+        entityType: 'product',
+        entityId: productId,
+        before,
+        after: product,
+      });
       return sendSuccess(res, 'Product updated successfully', product);
     } catch (error) {
       console.error('Update product error:', error);
@@ -956,6 +2490,12 @@ export class AdminController {
       };
 
       const mapping = await AdminModel.mapProductToSupplier(mappingData);
+      await AuditLogService.record(req, {
+        action: 'product.supplier.map',
+        entityType: 'product',
+        entityId: productId,
+        after: mapping,
+      });
       return sendSuccess(
         res,
         'Product mapped to supplier successfully',
@@ -973,7 +2513,6 @@ export class AdminController {
   static async getJob(req: Request, res: Response) {
     try {
       const { jobId } = req.params;
-      const JobService = (await import('../services/job.service')).JobService;
       const job = await JobService.getJobById(jobId);
       if (!job) {
         return sendError(res, 'Job not found', 404);
@@ -985,11 +2524,52 @@ export class AdminController {
     }
   }
 
+  static async retryJob(req: Request, res: Response) {
+    try {
+      const before = await JobService.getJobById(req.params.jobId);
+      const job = await JobService.retry(req.params.jobId);
+      await AuditLogService.record(req, {
+        action: 'job.retry',
+        entityType: 'job',
+        entityId: req.params.jobId,
+        before: before && { status: before.status, attempts: before.attempts },
+        after: { status: job.status, attempts: job.attempts },
+      });
+      return sendSuccess(res, 'Job queued for retry', { job });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Retry job error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
+  static async cancelJob(req: Request, res: Response) {
+    try {
+      const before = await JobService.getJobById(req.params.jobId);
+      const job = await JobService.cancel(req.params.jobId);
+      await AuditLogService.record(req, {
+        action: 'job.cancel',
+        entityType: 'job',
+        entityId: req.params.jobId,
+        before: before && { status: before.status },
+        after: { status: job.status },
+      });
+      return sendSuccess(res, 'Job cancelled', { job });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode);
+      }
+      console.error('Cancel job error:', error);
+      return sendError(res, 'Internal server error');
+    }
+  }
+
   static async getAllJobs(req: Request, res: Response) {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
-      const JobService = (await import('../services/job.service')).JobService;
       const { jobs, total } = await JobService.getAllJobs(page, limit);
       const totalPages = Math.ceil(total / limit);
       return sendSuccess(res, 'Jobs retrieved successfully', {
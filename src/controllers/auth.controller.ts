@@ -3,6 +3,7 @@ import { UserModel } from '../models/User';
 import { EmailService } from '../services/email.service';
 import { JwtService } from '../services/jwt.service';
 import { NotificationService } from '../services/notification.service';
+import { ReferralFraudService } from '../services/referralFraud.service';
 import { SessionService } from '../services/session.service';
 import { TotpService } from '../services/topt.service';
 import { generateSecureToken } from '../utils/crypto';
@@ -111,6 +112,15 @@ export class AuthController {
         return user;
       });
 
+      // Referral fraud checks compare devices and IPs, so record them
+      // before the referral is created
+      await ReferralFraudService.recordFingerprint(
+        createdUser.userId,
+        'signup',
+        req.deviceInfo,
+        getClientIP(req)
+      );
+
       // Fire-and-forget: Create referral if referral code was provided
       if (queryRefCode) {
         setImmediate(async () => {
@@ -270,6 +280,12 @@ export class AuthController {
           userAgent,
           ip
         ).catch(err => console.error('Failed to create session:', err));
+        ReferralFraudService.recordFingerprint(
+          user.userId,
+          'login',
+          userAgent,
+          ip
+        );
       });
 
       setAuthCookies(res, accessToken, refreshToken);
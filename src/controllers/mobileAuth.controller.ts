@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { UserModel } from '../models/User';
 import { JwtService } from '../services/jwt.service';
+import { ReferralFraudService } from '../services/referralFraud.service';
 import { SessionService } from '../services/session.service';
 import { TotpService } from '../services/topt.service';
 import { generateSecureToken } from '../utils/crypto';
@@ -106,6 +107,12 @@ export class MobileAuthController {
           ip,
           deviceId
         ).catch(err => console.error('Failed to create session:', err));
+        ReferralFraudService.recordFingerprint(
+          user.userId,
+          'login',
+          { ...userAgent, deviceId: deviceId || userAgent?.deviceId },
+          ip
+        );
       });
 
       const userProfile = await UserModel.findProfileById(user.userId);
@@ -662,6 +662,81 @@ export class NotificationController {
     }
   }
 
+  /**
+   * Cancel a scheduled notification before it is sent (admin only)
+   * POST /notifications/:id/cancel
+   */
+  static async cancelScheduledNotification(
+    req: AuthenticatedRequest,
+    res: Response
+  ) {
+    try {
+      if (!req.user) {
+        return sendError(res, 'Authentication required', 401, []);
+      }
+
+      const notification = await NotificationService.cancelScheduled(
+        req.params.notificationId,
+        req.user.userId
+      );
+
+      return sendSuccess(
+        res,
+        'Scheduled notification cancelled',
+        notification,
+        200
+      );
+    } catch (error: any) {
+      console.error('Cancel scheduled notification error:', error);
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500,
+        []
+      );
+    }
+  }
+
+  /**
+   * Move a scheduled notification to a new send time (admin only)
+   * PATCH /notifications/:id/schedule
+   */
+  static async rescheduleNotification(
+    req: AuthenticatedRequest,
+    res: Response
+  ) {
+    try {
+      if (!req.user) {
+        return sendError(res, 'Authentication required', 401, []);
+      }
+
+      const { publish_at } = req.body;
+      if (!publish_at) {
+        return sendError(res, 'publish_at is required', 400, []);
+      }
+
+      const notification = await NotificationService.reschedule(
+        req.params.notificationId,
+        new Date(publish_at)
+      );
+
+      return sendSuccess(
+        res,
+        `Notification rescheduled for ${new Date(publish_at).toISOString()}`,
+        notification,
+        200
+      );
+    } catch (error: any) {
+      console.error('Reschedule notification error:', error);
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500,
+        []
+      );
+    }
+  }
+
   /**
    * Get all notifications with optional filters (admin)
    * GET /notifications (admin version)
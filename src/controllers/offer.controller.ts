@@ -1,5 +1,6 @@
 // src/controllers/offer.controller.ts
 import { Request, Response } from 'express';
+import AuditLogService from '../services/auditLog.service';
 import { OfferService } from '../services/offer.service';
 import { sendError, sendSuccess } from '../utils/response.utils';
 
@@ -7,6 +8,12 @@ export class OfferController {
   static async createOffer(req: Request, res: Response) {
     try {
       const offer = await OfferService.createOffer(req.body);
+      await AuditLogService.record(req, {
+        action: 'offer.create',
+        entityType: 'offer',
+        entityId: offer.id,
+        after: offer,
+      });
       return sendSuccess(res, 'Offer created successfully', { offer }, 201);
     } catch (error: any) {
       console.error('Create offer error:', error);
@@ -18,6 +25,26 @@ export class OfferController {
     }
   }
 
+  static async getAvailableOffers(req: Request, res: Response) {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+      const offers = await OfferService.getAvailableOffers(userId);
+      return sendSuccess(res, 'Available offers retrieved successfully', {
+        offers,
+      });
+    } catch (error: any) {
+      console.error('Get available offers error:', error);
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
   static async getOfferById(req: Request, res: Response) {
     try {
       const { offerId } = req.params;
@@ -39,7 +66,15 @@ export class OfferController {
   static async updateOffer(req: Request, res: Response) {
     try {
       const { offerId } = req.params;
+      const before = await OfferService.getOfferById(offerId);
       const offer = await OfferService.updateOffer(offerId, req.body);
+      await AuditLogService.record(req, {
+        action: 'offer.update',
+        entityType: 'offer',
+        entityId: offerId,
+        before,
+        after: offer,
+      });
       return sendSuccess(res, 'Offer updated successfully', { offer });
     } catch (error: any) {
       console.error('Update offer error:', error);
@@ -54,7 +89,14 @@ export class OfferController {
   static async deleteOffer(req: Request, res: Response) {
     try {
       const { offerId } = req.params;
+      const before = await OfferService.getOfferById(offerId);
       await OfferService.deleteOffer(offerId);
+      await AuditLogService.record(req, {
+        action: 'offer.delete',
+        entityType: 'offer',
+        entityId: offerId,
+        before,
+      });
       return sendSuccess(res, 'Offer deleted successfully');
     } catch (error: any) {
       console.error('Delete offer error:', error);
@@ -90,6 +90,38 @@ export class ReferralsController {
     }
   }
 
+  /**
+   * GET /api/v1/dashboard/referrals/commissions
+   * Gets the commission the authenticated user earned on referee topups
+   */
+  static async getCommissionBreakdown(
+    req: AuthenticatedRequest,
+    res: Response
+  ) {
+    try {
+      if (!req.user) {
+        return sendError(res, 'Authentication required', 401, []);
+      }
+
+      const breakdown = await ReferralsService.getCommissionBreakdown(
+        req.user.userId
+      );
+
+      return sendSuccess(
+        res,
+        'Referral commissions retrieved successfully',
+        breakdown,
+        200
+      );
+    } catch (error) {
+      logger.error(
+        `Error getting referral commissions for user ${req.user?.userId}:`,
+        error
+      );
+      return sendError(res, 'Failed to retrieve referral commissions', 500, []);
+    }
+  }
+
   /**
    * POST /api/v1/dashboard/referrals (INTERNAL ADMIN ONLY)
    * Creates a referral relationship manually (admin/testing only)
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
+import { RewardRedemptionService } from '../services/rewardRedemption.service';
 import { RewardsService } from '../services/rewards.service';
+import { ApiError } from '../utils/ApiError';
 import { logger } from '../utils/logger.utils';
 import { sendError, sendSuccess } from '../utils/response.utils';
 
@@ -185,4 +187,99 @@ export class RewardsController {
       return sendError(res, 'Failed to credit points', 500, []);
     }
   }
+
+  /**
+   * GET /api/v1/dashboard/rewards/catalogue
+   * Lists what points can be redeemed for
+   */
+  static async getCatalogue(req: AuthenticatedRequest, res: Response) {
+    try {
+      const items = await RewardRedemptionService.listCatalogue();
+
+      return sendSuccess(res, 'Reward catalogue retrieved successfully', {
+        items,
+        count: items.length,
+      });
+    } catch (error) {
+      logger.error('Error getting reward catalogue:', error);
+      return sendError(res, 'Failed to retrieve reward catalogue', 500, []);
+    }
+  }
+
+  /**
+   * POST /api/v1/dashboard/rewards/redeem
+   * Spends the authenticated user's points on a catalogue item
+   */
+  static async redeemPoints(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 'Authentication required', 401, []);
+      }
+
+      const { itemId, points, recipientPhone } = req.body;
+      if (!itemId) {
+        return sendError(res, 'Item ID is required', 400, []);
+      }
+
+      const redemption = await RewardRedemptionService.redeem(req.user.userId, {
+        itemId,
+        points,
+        recipientPhone,
+      });
+
+      return sendSuccess(
+        res,
+        'Points redeemed successfully',
+        { redemption },
+        201
+      );
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error.message, error.statusCode, []);
+      }
+      logger.error(
+        `Error redeeming points for user ${req.user?.userId}:`,
+        error
+      );
+      return sendError(res, 'Failed to redeem points', 500, []);
+    }
+  }
+
+  /**
+   * GET /api/v1/dashboard/rewards/redemptions
+   * Lists the authenticated user's redemptions
+   */
+  static async getRedemptions(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 'Authentication required', 401, []);
+      }
+
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const { redemptions, total } =
+        await RewardRedemptionService.getRedemptions(
+          req.user.userId,
+          page,
+          limit
+        );
+
+      return sendSuccess(res, 'Redemptions retrieved successfully', {
+        redemptions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      logger.error(
+        `Error getting redemptions for user ${req.user?.userId}:`,
+        error
+      );
+      return sendError(res, 'Failed to retrieve redemptions', 500, []);
+    }
+  }
 }
@@ -12,7 +12,10 @@ export class TopupWebhookController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const result = await TopupWebhookService.processTopupWebhook(req.body);
+      const result = await TopupWebhookService.processTopupWebhook(
+        req.body,
+        req.params.supplierSlug
+      );
 
       if (result.success) {
         sendSuccess(res, result.message, result.data, 200);
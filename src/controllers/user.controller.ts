@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
+import { EpinService } from '../services/epin.service';
+import { OperatorDetectionService } from '../services/operatorDetection.service';
+import { StatementService } from '../services/statement.service';
 import { UserService } from '../services/user.service';
+import { WalletTransferService } from '../services/walletTransfer.service';
 import { sendError, sendSuccess } from '../utils/response.utils';
 
 interface AuthenticatedRequest extends Request {
@@ -209,6 +213,68 @@ export class UserController {
     }
   }
 
+  /**
+   * Download an account statement for a period as PDF or CSV.
+   */
+  static async downloadStatement(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const { from, to, format } = req.query;
+      const statement = await StatementService.build(userId, {
+        from: from as string | undefined,
+        to: to as string | undefined,
+      });
+      const file = await StatementService.render(
+        statement,
+        (format as string | undefined) || 'pdf'
+      );
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${file.fileName}"`
+      );
+      return res.status(200).send(file.content);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Email an account statement for a period to the user as a PDF.
+   */
+  static async emailStatement(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const { from, to } = req.body;
+      const result = await StatementService.email(userId, { from, to });
+      return sendSuccess(res, 'Statement sent to your email', result, 200);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
   /**
    * Start a purchase (creates debit & pending request)
    */
@@ -230,6 +296,7 @@ export class UserController {
         supplierSlug,
         supplierMappingId,
         useCashback = false,
+        offer,
       } = req.body;
 
       const result = await UserService.createTopupRequest(
@@ -240,7 +307,8 @@ export class UserController {
         pin,
         supplierSlug,
         supplierMappingId,
-        useCashback
+        useCashback,
+        offer
       );
       return sendSuccess(
         res,
@@ -256,4 +324,173 @@ export class UserController {
       );
     }
   }
+
+  /**
+   * Detect which network a phone number is on.
+   */
+  static async lookupOperator(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const detection = await OperatorDetectionService.lookup(
+        String(req.query.phone || '')
+      );
+      return sendSuccess(res, 'Operator detected', detection, 200);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Send wallet balance to another user by phone number or email.
+   */
+  static async transfer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const { recipient, amount, pin, note } = req.body;
+      if (!recipient || amount === undefined || pin === undefined) {
+        return sendError(res, 'recipient, amount and pin are required', 400);
+      }
+
+      const result = await WalletTransferService.transfer(userId, {
+        recipient,
+        amount,
+        pin,
+        note,
+      });
+      return sendSuccess(res, 'Transfer completed successfully', result, 201);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Buy one or more E-PINs from wallet balance.
+   */
+  static async purchaseEpins(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const { productCode, quantity = 1, pin } = req.body;
+      if (!productCode || pin === undefined) {
+        return sendError(res, 'productCode and pin are required', 400);
+      }
+
+      const result = await EpinService.purchase(userId, {
+        productCode,
+        quantity,
+        pin,
+      });
+      return sendSuccess(res, 'E-PINs purchased successfully', result, 201);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * List the E-PIN orders of the currently authenticated user.
+   */
+  static async getMyEpinOrders(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const { page = 1, limit = 20 } = req.query;
+      const orders = await EpinService.getOrders(
+        userId,
+        Number(page),
+        Number(limit)
+      );
+      return sendSuccess(res, 'E-PIN orders retrieved successfully', orders);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Get one E-PIN order with its PINs.
+   */
+  static async getMyEpinOrder(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const order = await EpinService.getOrder(userId, req.params.orderId);
+      return sendSuccess(res, 'E-PIN order retrieved successfully', order);
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Render one E-PIN order as a printable voucher sheet.
+   */
+  static async printMyEpinOrder(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return sendError(res, 'Authentication required', 401);
+      }
+
+      const order = await EpinService.getOrder(userId, req.params.orderId);
+      res.setHeader('Cache-Control', 'no-store');
+      return res
+        .status(200)
+        .type('html')
+        .send(EpinService.renderPrintable(order));
+    } catch (error: any) {
+      return sendError(
+        res,
+        error.message || 'Internal server error',
+        error.statusCode || 500
+      );
+    }
+  }
 }
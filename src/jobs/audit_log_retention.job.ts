@@ -0,0 +1,23 @@
+import { CronJob } from 'cron';
+import { AuditLogService } from '../services/auditLog.service';
+import { logger } from '../utils/logger.utils';
+
+let running = false;
+
+// Runs daily at 03:30 to delete admin audit logs past the retention period
+export const auditLogRetentionJob = new CronJob('30 3 * * *', async () => {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const deleted = await AuditLogService.purgeExpired();
+    if (deleted > 0) {
+      logger.info(`Purged ${deleted} audit log entries past retention`);
+    }
+  } catch (error) {
+    logger.error('Error running audit log retention job:', error);
+  } finally {
+    running = false;
+  }
+});
@@ -0,0 +1,23 @@
+import { CronJob } from 'cron';
+import ExportService from '../services/export.service';
+import { logger } from '../utils/logger.utils';
+
+let running = false;
+
+// Runs hourly at :15 to delete export files past the retention period
+export const exportRetentionJob = new CronJob('15 * * * *', async () => {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const deleted = await ExportService.purgeExpired();
+    if (deleted > 0) {
+      logger.info(`Purged ${deleted} export files past retention`);
+    }
+  } catch (error) {
+    logger.error('Error running export retention job:', error);
+  } finally {
+    running = false;
+  }
+});
@@ -0,0 +1,27 @@
+import { CronJob } from 'cron';
+import { NotificationService } from '../services/notification.service';
+import { logger } from '../utils/logger.utils';
+
+let running = false;
+
+// Runs every minute to send notifications whose publish_at has passed.
+// Other instances running the same job skip what this one has claimed.
+export const notificationDispatchJob = new CronJob('* * * * *', async () => {
+  // A slow run must not overlap the next tick on the same instance
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const { claimed, sent, failed } = await NotificationService.dispatchDue();
+    if (claimed > 0) {
+      logger.info(
+        `Scheduled notification dispatch: ${sent} sent, ${failed} failed`
+      );
+    }
+  } catch (error) {
+    logger.error('Error running scheduled notification dispatch job:', error);
+  } finally {
+    running = false;
+  }
+});
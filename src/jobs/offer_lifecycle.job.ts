@@ -0,0 +1,27 @@
+import { CronJob } from 'cron';
+import { OfferLifecycleService } from '../services/offerLifecycle.service';
+import { logger } from '../utils/logger.utils';
+
+let running = false;
+
+// Runs every minute to activate scheduled offers whose start has passed and
+// expire offers that have ended or reached their usage limit
+export const offerLifecycleJob = new CronJob('* * * * *', async () => {
+  // A slow run must not overlap the next tick on the same instance
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const { activated, expired, exhausted } = await OfferLifecycleService.run();
+    if (activated + expired + exhausted > 0) {
+      logger.info(
+        `Offer lifecycle: ${activated} activated, ${expired} ended, ${exhausted} used up`
+      );
+    }
+  } catch (error) {
+    logger.error('Error running offer lifecycle job:', error);
+  } finally {
+    running = false;
+  }
+});
@@ -0,0 +1,26 @@
+import { CronJob } from 'cron';
+import { PointsExpiryService } from '../services/pointsExpiry.service';
+import { RewardsService } from '../services/rewards.service';
+import { logger } from '../utils/logger.utils';
+
+let running = false;
+
+// Runs daily at 02:00 to expire points past their expiry date and warn users
+// about points expiring within the week
+export const pointsExpiryJob = new CronJob('0 2 * * *', async () => {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    await RewardsService.expireOldRewards();
+    const warned = await PointsExpiryService.sendWarnings();
+    if (warned > 0) {
+      logger.info(`Warned ${warned} users about expiring points`);
+    }
+  } catch (error) {
+    logger.error('Error running points expiry job:', error);
+  } finally {
+    running = false;
+  }
+});
@@ -0,0 +1,26 @@
+import { CronJob } from 'cron';
+import { WalletAdjustmentService } from '../services/walletAdjustment.service';
+import { logger } from '../utils/logger.utils';
+
+let running = false;
+
+// Runs every 15 minutes to expire wallet adjustments nobody approved in time
+export const walletAdjustmentExpiryJob = new CronJob(
+  '*/15 * * * *',
+  async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const expired = await WalletAdjustmentService.expirePending();
+      if (expired > 0) {
+        logger.info(`Expired ${expired} pending wallet adjustments`);
+      }
+    } catch (error) {
+      logger.error('Error running wallet adjustment expiry job:', error);
+    } finally {
+      running = false;
+    }
+  }
+);
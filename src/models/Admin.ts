@@ -1,5 +1,6 @@
 import { Knex } from 'knex';
 import db from '../database/connection';
+import { LedgerService } from '../services/ledger.service';
 import { SessionService } from '../services/session.service';
 import {
   AdminUserView,
@@ -45,6 +46,7 @@ import { SettlementModel } from './Settlement';
 import { SupplierModel } from './Supplier';
 import { SupplierProductMappingModel } from './SupplierProductMapping';
 import { TopupRequestModel } from './TopupRequest';
+import { TopupReversalModel } from './TopupReversal';
 import { TransactionModel } from './Transaction';
 import { CreateUserInput, UserModel } from './User';
 
@@ -170,13 +172,16 @@ export class AdminModel {
    * @param userId - The ID of the user to credit.
    * @param amount - The amount to credit.
    * @param adminId - The ID of the admin performing the action.
+   * @param trx - Optional Knex transaction.
    */
   static async creditWallet(
     userId: string,
     amount: number,
-    adminId: string
+    adminId: string,
+    trx?: Knex.Transaction
   ): Promise<WalletAdjustmentResult> {
-    return db.transaction(async trx => {
+    const connection = trx || db;
+    return connection.transaction(async trx => {
       const wallet = await trx('wallets')
         .where({ user_id: userId })
         .forUpdate()
@@ -186,11 +191,28 @@ export class AdminModel {
         throw new Error('Wallet not found');
       }
 
-      const newBalance = parseFloat(wallet.balance) + amount;
-
-      await trx('wallets')
-        .where({ user_id: userId })
-        .update({ balance: newBalance });
+      // Manual adjustments are held in suspense until they are explained
+      const journal = await LedgerService.post(
+        {
+          referenceType: 'admin',
+          referenceId: adminId,
+          description: `Admin credit by ${adminId}`,
+          createdBy: adminId,
+          lines: [
+            { account: { type: 'suspense' }, direction: 'debit', amount },
+            {
+              account: LedgerService.wallet(userId),
+              direction: 'credit',
+              amount,
+            },
+          ],
+        },
+        trx
+      );
+      const newBalance =
+        journal.balances[
+          LedgerService.accountCode(LedgerService.wallet(userId))
+        ];
 
       await trx('transactions').insert({
         user_id: userId,
@@ -208,18 +230,47 @@ export class AdminModel {
     });
   }
 
+  /**
+   * Totals the manual credits and debits an admin has applied to a user's
+   * wallet since a given time. Locks the wallet first, so call it in the
+   * transaction that applies the next adjustment to count concurrent ones.
+   * @param userId - The wallet owner.
+   * @param adminId - The admin who applied them.
+   * @param since - Start of the period.
+   * @param trx - The Knex transaction.
+   * @returns The total amount moved, credits and debits alike.
+   */
+  static async getAdjustedTotalSince(
+    userId: string,
+    adminId: string,
+    since: Date,
+    trx: Knex.Transaction
+  ): Promise<number> {
+    await trx('wallets').where({ user_id: userId }).forUpdate().first();
+    const row = await trx('transactions')
+      .where({ user_id: userId, related_type: 'admin', related_id: adminId })
+      .whereIn('method', ['admin_credit', 'admin_debit'])
+      .where('created_at', '>', since)
+      .sum({ total: 'amount' })
+      .first();
+    return Number(row?.total || 0);
+  }
+
   /**
    * Debits a user's wallet.
    * @param userId - The ID of the user to debit.
    * @param amount - The amount to debit.
    * @param adminId - The ID of the admin performing the action.
+   * @param trx - Optional Knex transaction.
    */
   static async debitWallet(
     userId: string,
     amount: number,
-    adminId: string
+    adminId: string,
+    trx?: Knex.Transaction
   ): Promise<WalletAdjustmentResult> {
-    return db.transaction(async trx => {
+    const connection = trx || db;
+    return connection.transaction(async trx => {
       const wallet = await trx('wallets')
         .where({ user_id: userId })
         .forUpdate()
@@ -233,11 +284,27 @@ export class AdminModel {
         throw new Error('Insufficient funds');
       }
 
-      const newBalance = parseFloat(wallet.balance) - amount;
-
-      await trx('wallets')
-        .where({ user_id: userId })
-        .update({ balance: newBalance });
+      const journal = await LedgerService.post(
+        {
+          referenceType: 'admin',
+          referenceId: adminId,
+          description: `Admin debit by ${adminId}`,
+          createdBy: adminId,
+          lines: [
+            {
+              account: LedgerService.wallet(userId),
+              direction: 'debit',
+              amount,
+            },
+            { account: { type: 'suspense' }, direction: 'credit', amount },
+          ],
+        },
+        trx
+      );
+      const newBalance =
+        journal.balances[
+          LedgerService.accountCode(LedgerService.wallet(userId))
+        ];
 
       await trx('transactions').insert({
         user_id: userId,
@@ -340,7 +407,8 @@ export class AdminModel {
   }
 
   static async getFailedJobs(page: number, limit: number) {
-    const query = db('jobs').where({ status: 'failed' });
+    // Dead-lettered jobs ran out of attempts and need attention too
+    const query = db('jobs').whereIn('status', ['failed', 'dead']);
     const total = await query.clone().count('id as count').first();
     const jobs = await query
       .orderBy('created_at', 'desc')
@@ -383,13 +451,25 @@ export class AdminModel {
   static async getTopupRequestById(
     requestId: string
   ): Promise<TopupRequestWithResponses | null> {
-    return TopupRequestModel.findById(requestId);
+    const request = await TopupRequestModel.findById(requestId);
+    if (!request) {
+      return null;
+    }
+
+    return {
+      ...request,
+      hops: await TopupRequestModel.findHops(requestId),
+      reversal: await TopupReversalModel.findByTopupRequestId(requestId),
+    };
   }
 
   static async retryTopupRequest(requestId: string): Promise<boolean> {
-    // Update the request status and increment attempt count
+    // Update the request status and increment attempt count. Only requests
+    // no supplier holds are sent again: one in processing or awaiting
+    // confirmation may still be delivered, and reversed ones were refunded.
     const [request] = await db('topup_requests')
       .where({ id: requestId })
+      .whereIn('status', ['failed', 'retry'])
       .update({
         status: 'pending',
         attempt_count: db.raw('attempt_count + 1'),
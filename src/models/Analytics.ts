@@ -0,0 +1,325 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+
+export type TopupAnalyticsDimension = 'operator' | 'supplier' | 'product_type';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface TopupMetrics {
+  gmv: number; // What customers paid for successful topups
+  supplierCost: number; // What the ledger posted as owed to suppliers
+  margin: number; // Revenue kept after discounts and cashback, before referral commission
+  referralCommission: number; // Paid to referrers out of the margin
+  successCount: number;
+  failedCount: number;
+  successRate: number | null; // Of topups that finished; null if none did
+  avgLatencySeconds: number | null; // From request to success or failure
+}
+
+export interface TopupMetricsByPeriod extends TopupMetrics {
+  period: Date;
+}
+
+export interface TopupMetricsByDimension extends TopupMetrics {
+  key: string;
+  label: string;
+}
+
+export interface FundingInflow {
+  period: Date;
+  amount: number;
+  count: number;
+  unmatchedAmount: number; // Paid into no known virtual account
+}
+
+export interface CashbackMovement {
+  period: Date;
+  earned: number;
+  redeemed: number;
+  adjusted: number;
+}
+
+const SUCCESS_STATUSES = ['success', 'completed'];
+const FAILED_STATUSES = ['failed', 'reversed', 'cancelled'];
+
+// Each dimension's grouping key and display label
+const DIMENSIONS: Record<
+  TopupAnalyticsDimension,
+  { key: string; label: string }
+> = {
+  operator: { key: 'o.code', label: 'o.name' },
+  supplier: { key: "coalesce(s.slug, 'unassigned')", label: 's.name' },
+  product_type: { key: 'tr.type', label: 'tr.type' },
+};
+
+// =================================================================
+// Analytics Model Class
+// =================================================================
+
+export class AnalyticsModel {
+  /**
+   * Totals topup metrics over a range
+   * @param range - Created between from (inclusive) and to (exclusive)
+   * @param trx - Optional Knex transaction
+   * @returns The totals
+   */
+  static async getTopupTotals(
+    range: AnalyticsRange,
+    trx?: Knex.Transaction
+  ): Promise<TopupMetrics> {
+    const row = await this.topupQuery(range, trx)
+      .select(this.topupMetricColumns())
+      .first();
+    return this.formatTopupMetrics(row);
+  }
+
+  /**
+   * Buckets topup metrics by day, week or month
+   * @param range - Created between from (inclusive) and to (exclusive)
+   * @param bucket - Bucket size
+   * @returns One entry per bucket with activity, oldest first
+   */
+  static async getTopupSeries(
+    range: AnalyticsRange,
+    bucket: AnalyticsBucket
+  ): Promise<TopupMetricsByPeriod[]> {
+    const rows = await this.topupQuery(range)
+      .select(
+        db.raw('date_trunc(?, tr.created_at) as period', [bucket]),
+        ...this.topupMetricColumns()
+      )
+      .groupByRaw('1')
+      .orderBy('period', 'asc');
+
+    return rows.map((row: any) => ({
+      period: row.period,
+      ...this.formatTopupMetrics(row),
+    }));
+  }
+
+  /**
+   * Breaks topup metrics down by operator, supplier or product type
+   * @param range - Created between from (inclusive) and to (exclusive)
+   * @param dimension - What to group by
+   * @returns One entry per group, highest GMV first
+   */
+  static async getTopupBreakdown(
+    range: AnalyticsRange,
+    dimension: TopupAnalyticsDimension
+  ): Promise<TopupMetricsByDimension[]> {
+    const { key, label } = DIMENSIONS[dimension];
+    const rows = await this.topupQuery(range)
+      .select(
+        db.raw(`${key} as group_key`),
+        db.raw(`max(${label}) as group_label`),
+        ...this.topupMetricColumns()
+      )
+      .groupByRaw('1')
+      .orderBy('gmv', 'desc');
+
+    return rows.map((row: any) => ({
+      key: row.group_key,
+      label: row.group_label || row.group_key,
+      ...this.formatTopupMetrics(row),
+    }));
+  }
+
+  /**
+   * Buckets wallet funding received through virtual accounts
+   * @param range - Received between from (inclusive) and to (exclusive)
+   * @param bucket - Bucket size
+   * @returns One entry per bucket with payments, oldest first
+   */
+  static async getFundingInflow(
+    range: AnalyticsRange,
+    bucket: AnalyticsBucket
+  ): Promise<FundingInflow[]> {
+    const receivedAt = 'coalesce(received_at, created_at)';
+    const rows = await db('incoming_payments')
+      .whereRaw(`${receivedAt} >= ? and ${receivedAt} < ?`, [
+        range.from,
+        range.to,
+      ])
+      .select(
+        db.raw(`date_trunc(?, ${receivedAt}) as period`, [bucket]),
+        db.raw('coalesce(sum(amount), 0) as amount'),
+        db.raw('count(*) as count'),
+        db.raw(
+          'coalesce(sum(amount) filter (where user_id is null), 0) as unmatched_amount'
+        )
+      )
+      .groupByRaw('1')
+      .orderBy('period', 'asc');
+
+    return rows.map((row: any) => ({
+      period: row.period,
+      amount: parseFloat(row.amount),
+      count: Number(row.count),
+      unmatchedAmount: parseFloat(row.unmatched_amount),
+    }));
+  }
+
+  /**
+   * Buckets cashback earned, redeemed and adjusted
+   * @param range - Between from (inclusive) and to (exclusive)
+   * @param bucket - Bucket size
+   * @returns One entry per bucket with movements, oldest first
+   */
+  static async getCashbackMovements(
+    range: AnalyticsRange,
+    bucket: AnalyticsBucket
+  ): Promise<CashbackMovement[]> {
+    const sumOf = (type: string) =>
+      db.raw(
+        `coalesce(sum(amount) filter (where type = '${type}'), 0) as ${type}`
+      );
+    const rows = await db('cashback_transactions')
+      .where('created_at', '>=', range.from)
+      .where('created_at', '<', range.to)
+      .select(
+        db.raw('date_trunc(?, created_at) as period', [bucket]),
+        sumOf('earned'),
+        sumOf('redeemed'),
+        sumOf('adjustment')
+      )
+      .groupByRaw('1')
+      .orderBy('period', 'asc');
+
+    return rows.map((row: any) => ({
+      period: row.period,
+      earned: parseFloat(row.earned),
+      redeemed: parseFloat(row.redeemed),
+      adjusted: parseFloat(row.adjustment),
+    }));
+  }
+
+  /**
+   * Gets the cashback users hold and can still spend
+   * @returns Outstanding balance and how many users hold any
+   */
+  static async getCashbackLiability(): Promise<{
+    outstanding: number;
+    holders: number;
+  }> {
+    const row = await db('cashback')
+      .where('available_balance', '>', 0)
+      .select(
+        db.raw('coalesce(sum(available_balance), 0) as outstanding'),
+        db.raw('count(*) as holders')
+      )
+      .first();
+    return {
+      outstanding: parseFloat(row?.outstanding || '0'),
+      holders: Number(row?.holders || 0),
+    };
+  }
+
+  private static topupQuery(
+    range: AnalyticsRange,
+    trx?: Knex.Transaction
+  ): Knex.QueryBuilder {
+    const connection = trx || db;
+    const credited =
+      "case when le.direction = 'credit' then le.amount else -le.amount end";
+    return (
+      connection('topup_requests as tr')
+        .join('operators as o', 'o.id', 'tr.operator_id')
+        .leftJoin('suppliers as s', 's.id', 'tr.supplier_id')
+        // What each topup's journals posted, so later price edits do not
+        // rewrite history and every topup counts toward cost and margin
+        .joinRaw(
+          `left join lateral (
+          select
+            coalesce(sum(${credited}) filter (
+              where la.type = 'supplier_payable'
+            ), 0) as supplier_payable,
+            coalesce(sum(${credited}) filter (
+              where la.type = 'revenue'
+            ), 0) as revenue
+          from ledger_journals lj
+          join ledger_entries le on le.journal_id = lj.id
+          join ledger_accounts la on la.id = le.account_id
+          where lj.reference_type = 'topup_request'
+            and lj.reference_id = tr.id::text
+        ) as posted on true`
+        )
+        // Referral commission is posted under the topup as a revenue debit;
+        // it is a share of the margin, so it is added back and shown apart
+        .joinRaw(
+          `left join lateral (
+          select coalesce(sum(rc.amount), 0) as amount
+          from referral_commissions rc
+          where rc.topup_request_id = tr.id
+        ) as commission on true`
+        )
+        .where('tr.created_at', '>=', range.from)
+        .where('tr.created_at', '<', range.to)
+    );
+  }
+
+  private static topupMetricColumns() {
+    const succeeded = `tr.status in (${SUCCESS_STATUSES.map(() => '?').join(', ')})`;
+    const failed = `tr.status in (${FAILED_STATUSES.map(() => '?').join(', ')})`;
+    // Older requests have no price recorded; their face value was the price
+    const price = 'coalesce(tr.cost, tr.amount)';
+    return [
+      db.raw(
+        `coalesce(sum(${price}) filter (where ${succeeded}), 0) as gmv`,
+        SUCCESS_STATUSES
+      ),
+      db.raw(
+        `coalesce(sum(posted.supplier_payable) filter (where ${succeeded}), 0) as supplier_cost`,
+        SUCCESS_STATUSES
+      ),
+      db.raw(
+        `coalesce(sum(posted.revenue + commission.amount) filter (where ${succeeded}), 0) as margin`,
+        SUCCESS_STATUSES
+      ),
+      db.raw(
+        `coalesce(sum(commission.amount) filter (where ${succeeded}), 0) as referral_commission`,
+        SUCCESS_STATUSES
+      ),
+      db.raw(
+        `count(*) filter (where ${succeeded}) as success_count`,
+        SUCCESS_STATUSES
+      ),
+      db.raw(
+        `count(*) filter (where ${failed}) as failed_count`,
+        FAILED_STATUSES
+      ),
+      db.raw(
+        `avg(extract(epoch from tr.updated_at - tr.created_at)) filter (where ${succeeded} or ${failed}) as avg_latency_seconds`,
+        [...SUCCESS_STATUSES, ...FAILED_STATUSES]
+      ),
+    ];
+  }
+
+  private static formatTopupMetrics(row: any): TopupMetrics {
+    const successCount = Number(row?.success_count || 0);
+    const failedCount = Number(row?.failed_count || 0);
+    const finished = successCount + failedCount;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      gmv: parseFloat(row?.gmv || '0'),
+      supplierCost: parseFloat(row?.supplier_cost || '0'),
+      margin: parseFloat(row?.margin || '0'),
+      referralCommission: parseFloat(row?.referral_commission || '0'),
+      successCount,
+      failedCount,
+      successRate: finished > 0 ? round((successCount / finished) * 100) : null,
+      avgLatencySeconds:
+        row?.avg_latency_seconds == null
+          ? null
+          : round(parseFloat(row.avg_latency_seconds)),
+    };
+  }
+}
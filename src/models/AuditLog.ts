@@ -0,0 +1,193 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export interface AuditLogChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditLog {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: Record<string, AuditLogChange> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestMethod: string | null;
+  requestPath: string | null;
+  createdAt: Date;
+}
+
+export type CreateAuditLogInput = Omit<AuditLog, 'id' | 'createdAt'>;
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  dateFrom?: Date | string;
+  dateTo?: Date | string;
+  page?: number;
+  limit?: number;
+}
+
+// =================================================================
+// Audit Log Model Class
+// =================================================================
+
+export class AuditLogModel {
+  private static readonly TABLE_NAME = 'admin_audit_logs';
+
+  /**
+   * Appends an entry. Entries cannot be updated or deleted afterwards.
+   * @param input - The entry
+   * @param trx - Optional transaction
+   * @returns The entry
+   */
+  static async create(
+    input: CreateAuditLogInput,
+    trx?: Knex.Transaction
+  ): Promise<AuditLog> {
+    const connection = trx || db;
+    const json = (value: unknown) =>
+      value == null ? null : JSON.stringify(value);
+    const [row] = await connection(this.TABLE_NAME)
+      .insert({
+        actor_id: input.actorId,
+        actor_email: input.actorEmail,
+        action: input.action,
+        entity_type: input.entityType,
+        entity_id: input.entityId,
+        before: json(input.before),
+        after: json(input.after),
+        changes: json(input.changes),
+        ip_address: input.ipAddress,
+        user_agent: input.userAgent,
+        request_method: input.requestMethod,
+        request_path: input.requestPath,
+      })
+      .returning('*');
+    return this.formatRecord(row);
+  }
+
+  /**
+   * Finds an entry by ID
+   * @param id - The entry ID
+   * @returns The entry or null if not found
+   */
+  static async findById(id: string): Promise<AuditLog | null> {
+    const row = await db(this.TABLE_NAME).where({ id }).first();
+    return row ? this.formatRecord(row) : null;
+  }
+
+  /**
+   * Searches entries, newest first
+   * @param filters - Actor, action (a trailing '*' matches a prefix, e.g.
+   * 'wallet.*'), entity, date range and paging
+   * @returns The page of entries and the total matching
+   */
+  static async findAll(
+    filters: AuditLogFilters = {}
+  ): Promise<{ logs: AuditLog[]; total: number }> {
+    const { page = 1, limit = 20 } = filters;
+    const query = db(this.TABLE_NAME).modify(q =>
+      this.applyFilters(q, filters)
+    );
+
+    const [rows, count] = await Promise.all([
+      query
+        .clone()
+        .orderBy([
+          { column: 'created_at', order: 'desc' },
+          { column: 'id', order: 'desc' },
+        ])
+        .offset((page - 1) * limit)
+        .limit(limit),
+      query.clone().count('id as total').first(),
+    ]);
+
+    return {
+      logs: rows.map((row: any) => this.formatRecord(row)),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  /**
+   * Deletes entries older than a moment. Only this purge may delete
+   * entries; the table refuses deletes without audit.purge set.
+   * @param before - Entries created before this are deleted
+   * @returns Number of entries deleted
+   */
+  static async purgeBefore(before: Date): Promise<number> {
+    return db.transaction(async trx => {
+      await trx.raw("select set_config('audit.purge', 'on', true)");
+      const deleted: number = await trx(this.TABLE_NAME)
+        .where('created_at', '<', before)
+        .delete();
+      return deleted;
+    });
+  }
+
+  private static applyFilters(
+    query: Knex.QueryBuilder,
+    filters: AuditLogFilters
+  ): Knex.QueryBuilder {
+    const { actorId, action, entityType, entityId, dateFrom, dateTo } = filters;
+    if (actorId) {
+      query.where('actor_id', actorId);
+    }
+    if (action) {
+      if (action.endsWith('*')) {
+        query.whereLike(
+          'action',
+          `${action.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`
+        );
+      } else {
+        query.where('action', action);
+      }
+    }
+    if (entityType) {
+      query.where('entity_type', entityType);
+    }
+    if (entityId) {
+      query.where('entity_id', entityId);
+    }
+    if (dateFrom) {
+      query.where('created_at', '>=', dateFrom);
+    }
+    if (dateTo) {
+      query.where('created_at', '<=', dateTo);
+    }
+    return query;
+  }
+
+  private static formatRecord(row: any): AuditLog {
+    return {
+      id: row.id,
+      actorId: row.actor_id,
+      actorEmail: row.actor_email,
+      action: row.action,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      before: row.before,
+      after: row.after,
+      changes: row.changes,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      requestMethod: row.request_method,
+      requestPath: row.request_path,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export default AuditLogModel;
@@ -5,6 +5,32 @@ import db from '../database/connection';
 // Interfaces
 // =================================================================
 
+// What a badge rule measures about a user
+export type BadgeMetric =
+  | 'transaction_count'
+  | 'topup_count'
+  | 'topup_amount'
+  | 'referral_count'
+  | 'completed_referral_count'
+  | 'total_points'
+  | 'points_rank'
+  | 'referrer_rank'
+  | 'account_verified'
+  | 'twofa_enabled';
+
+export type BadgeComparator = 'gte' | 'gt' | 'eq' | 'lte' | 'lt';
+
+// Awarded when the metric, over the last windowDays if set, compares to the
+// threshold. With tiers (ascending thresholds) the badge is held at the
+// highest tier reached and upgraded as the user passes the next one.
+export interface BadgeRule {
+  metric: BadgeMetric;
+  comparator: BadgeComparator;
+  threshold?: number;
+  windowDays?: number;
+  tiers?: number[];
+}
+
 export interface Badge {
   id: string;
   name: string;
@@ -14,6 +40,7 @@ export interface Badge {
   requiredValue: number | null;
   category: 'achievement' | 'milestone' | 'special';
   isActive: boolean;
+  rule: BadgeRule | null;
   metadata: Record<string, any> | null;
   createdAt: Date;
   updatedAt: Date;
@@ -22,6 +49,7 @@ export interface Badge {
 export interface UserBadge {
   userId: string;
   badgeId: string;
+  tier: number | null;
   earnedAt: Date;
   metadata: Record<string, any> | null;
   createdAt: Date;
@@ -34,6 +62,8 @@ export interface CreateBadgeInput {
   requiredAction?: string;
   requiredValue?: number;
   category?: 'achievement' | 'milestone' | 'special';
+  rule?: BadgeRule;
+  isActive?: boolean;
   metadata?: Record<string, any>;
 }
 
@@ -63,7 +93,8 @@ export class BadgeModel {
         required_action: data.requiredAction || null,
         required_value: data.requiredValue || null,
         category: data.category || 'achievement',
-        is_active: true,
+        is_active: data.isActive ?? true,
+        rule: data.rule ? JSON.stringify(data.rule) : null,
         metadata: data.metadata ? JSON.stringify(data.metadata) : null,
       })
       .returning('*');
@@ -102,6 +133,27 @@ export class BadgeModel {
     return badges.map(b => this.formatRecord(b));
   }
 
+  /**
+   * Gets all badges, including inactive ones
+   * @returns Array of badges
+   */
+  static async findAll(): Promise<Badge[]> {
+    const badges = await db(this.TABLE_NAME).orderBy('name');
+    return badges.map(b => this.formatRecord(b));
+  }
+
+  /**
+   * Gets active badges that have a rule to evaluate
+   * @returns Array of badges
+   */
+  static async findActiveWithRules(): Promise<Badge[]> {
+    const badges = await db(this.TABLE_NAME)
+      .where({ is_active: true })
+      .whereNotNull('rule')
+      .orderBy('name');
+    return badges.map(b => this.formatRecord(b));
+  }
+
   /**
    * Gets badges by category
    * @param category - The badge category
@@ -149,6 +201,8 @@ export class BadgeModel {
     if (data.requiredAction) updateData.required_action = data.requiredAction;
     if (data.requiredValue) updateData.required_value = data.requiredValue;
     if (data.category) updateData.category = data.category;
+    if (data.rule) updateData.rule = JSON.stringify(data.rule);
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
     if (data.metadata) updateData.metadata = JSON.stringify(data.metadata);
 
     const [badge] = await connection(this.TABLE_NAME)
@@ -194,6 +248,7 @@ export class BadgeModel {
       requiredValue: record.required_value,
       category: record.category,
       isActive: record.is_active,
+      rule: record.rule ? JSON.parse(record.rule) : null,
       metadata: record.metadata ? JSON.parse(record.metadata) : null,
       createdAt: record.created_at,
       updatedAt: record.updated_at,
@@ -215,13 +270,15 @@ export class UserBadgeModel {
    * @param badgeId - The badge ID
    * @param metadata - Optional metadata
    * @param trx - Optional transaction
+   * @param tier - Tier reached, for tiered badges
    * @returns The user badge record
    */
   static async award(
     userId: string,
     badgeId: string,
     metadata?: Record<string, any>,
-    trx?: Knex.Transaction
+    trx?: Knex.Transaction,
+    tier?: number
   ): Promise<UserBadge> {
     const connection = trx || db;
 
@@ -237,6 +294,7 @@ export class UserBadgeModel {
     await connection(this.TABLE_NAME).insert({
       user_id: userId,
       badge_id: badgeId,
+      tier: tier ?? null,
       earned_at: connection.fn.now(),
       metadata: metadata ? JSON.stringify(metadata) : null,
     });
@@ -244,12 +302,59 @@ export class UserBadgeModel {
     return {
       userId,
       badgeId,
+      tier: tier ?? null,
       earnedAt: new Date(),
       metadata: metadata || null,
       createdAt: new Date(),
     };
   }
 
+  /**
+   * Moves a user up to a higher tier of a badge they hold
+   * @param userId - The user ID
+   * @param badgeId - The badge ID
+   * @param tier - The tier reached
+   * @param metadata - Optional metadata
+   * @returns True if the tier was raised
+   */
+  static async upgradeTier(
+    userId: string,
+    badgeId: string,
+    tier: number,
+    metadata?: Record<string, any>
+  ): Promise<boolean> {
+    const result = await db(this.TABLE_NAME)
+      .where({ user_id: userId, badge_id: badgeId })
+      .andWhere(query => {
+        query.whereNull('tier').orWhere('tier', '<', tier);
+      })
+      .update({
+        tier,
+        earned_at: db.fn.now(),
+        metadata: metadata ? JSON.stringify(metadata) : null,
+      });
+
+    return result > 0;
+  }
+
+  /**
+   * Gets the badges a user holds among the given ones, with their tiers
+   * @param userId - The user ID
+   * @param badgeIds - The badge IDs
+   * @returns Tier per held badge ID (null for untiered badges)
+   */
+  static async findHeld(
+    userId: string,
+    badgeIds: string[]
+  ): Promise<Map<string, number | null>> {
+    const rows = await db(this.TABLE_NAME)
+      .where({ user_id: userId })
+      .whereIn('badge_id', badgeIds)
+      .select('badge_id', 'tier');
+
+    return new Map(rows.map(row => [String(row.badge_id), row.tier]));
+  }
+
   /**
    * Gets all badges earned by a user
    * @param userId - The user ID
@@ -269,6 +374,7 @@ export class UserBadgeModel {
         'badges.required_value',
         'badges.category',
         'badges.is_active',
+        'badges.rule',
         'badges.metadata as badge_metadata',
         'badges.created_at as badge_created_at',
         'badges.updated_at as badge_updated_at'
@@ -285,6 +391,7 @@ export class UserBadgeModel {
       requiredValue: ub.required_value,
       category: ub.category,
       isActive: ub.is_active,
+      rule: ub.rule ? JSON.parse(ub.rule) : null,
       metadata: ub.badge_metadata ? JSON.parse(ub.badge_metadata) : null,
       createdAt: ub.badge_created_at,
       updatedAt: ub.badge_updated_at,
@@ -365,6 +472,7 @@ export class UserBadgeModel {
     return {
       userId: record.user_id,
       badgeId: record.badge_id,
+      tier: record.tier ?? null,
       earnedAt: record.earned_at,
       metadata: record.metadata ? JSON.parse(record.metadata) : null,
       createdAt: record.created_at,
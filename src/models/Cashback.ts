@@ -1,5 +1,6 @@
 import { Knex } from 'knex';
 import db from '../database/connection';
+import { LedgerService } from '../services/ledger.service';
 
 export interface Cashback {
   id: string;
@@ -92,21 +93,37 @@ export class CashbackModel {
     topupRequestId?: string,
     trx?: Knex.Transaction | Knex
   ): Promise<Cashback> {
-    const connection = trx || db;
+    if (!trx?.isTransaction) {
+      return db.transaction(t =>
+        this.addCashback(userId, amount, description, topupRequestId, t)
+      );
+    }
+    const connection = trx as Knex.Transaction;
 
     // Get or create cashback record
-    const cashback = await this.getOrCreate(
-      userId,
-      connection as Knex.Transaction
+    const cashback = await this.getOrCreate(userId, connection);
+
+    // Cashback is paid for out of revenue; the ledger updates available balance
+    await LedgerService.post(
+      {
+        referenceType: topupRequestId ? 'topup_request' : 'cashback',
+        referenceId: topupRequestId || cashback.id,
+        description,
+        lines: [
+          { account: { type: 'revenue' }, direction: 'debit', amount },
+          {
+            account: LedgerService.cashback(userId),
+            direction: 'credit',
+            amount,
+          },
+        ],
+      },
+      connection
     );
 
-    // Update cashback available balance and total earned
-    const newAvailableBalance =
-      parseFloat(String(cashback.availableBalance)) + amount;
     const newTotalEarned = parseFloat(String(cashback.totalEarned)) + amount;
 
     await connection('cashback').where({ user_id: userId }).update({
-      available_balance: newAvailableBalance,
       total_earned: newTotalEarned,
       updated_at: connection.fn.now(),
     });
@@ -122,7 +139,7 @@ export class CashbackModel {
     });
 
     // Return updated cashback
-    return this.getOrCreate(userId, connection as Knex.Transaction);
+    return this.getOrCreate(userId, connection);
   }
 
   /**
@@ -141,12 +158,14 @@ export class CashbackModel {
     topupRequestId?: string,
     trx?: Knex.Transaction | Knex
   ): Promise<Cashback> {
-    const connection = trx || db;
+    if (!trx?.isTransaction) {
+      return db.transaction(t =>
+        this.redeemCashback(userId, amount, description, topupRequestId, t)
+      );
+    }
+    const connection = trx as Knex.Transaction;
 
-    const cashback = await this.getOrCreate(
-      userId,
-      connection as Knex.Transaction
-    );
+    const cashback = await this.getOrCreate(userId, connection);
 
     // Check if sufficient cashback available
     if (parseFloat(String(cashback.availableBalance)) < amount) {
@@ -155,14 +174,29 @@ export class CashbackModel {
       );
     }
 
-    // Update cashback available balance and total redeemed
-    const newAvailableBalance =
-      parseFloat(String(cashback.availableBalance)) - amount;
+    // Redeemed cashback is held in suspense until the purchase it pays for
+    // is posted against it
+    await LedgerService.post(
+      {
+        referenceType: topupRequestId ? 'topup_request' : 'cashback',
+        referenceId: topupRequestId || cashback.id,
+        description,
+        lines: [
+          {
+            account: LedgerService.cashback(userId),
+            direction: 'debit',
+            amount,
+          },
+          { account: { type: 'suspense' }, direction: 'credit', amount },
+        ],
+      },
+      connection
+    );
+
     const newTotalRedeemed =
       parseFloat(String(cashback.totalRedeemed)) + amount;
 
     await connection('cashback').where({ user_id: userId }).update({
-      available_balance: newAvailableBalance,
       total_redeemed: newTotalRedeemed,
       updated_at: connection.fn.now(),
     });
@@ -178,7 +212,62 @@ export class CashbackModel {
     });
 
     // Return updated cashback
-    return this.getOrCreate(userId, connection as Knex.Transaction);
+    return this.getOrCreate(userId, connection);
+  }
+
+  /**
+   * Records the cashback side of a topup reversal. The balance itself is
+   * moved by the reversal's ledger journal; this keeps the totals and the
+   * history in line with it.
+   * @param userId - The user ID
+   * @param refunded - Redeemed cashback handed back
+   * @param clawedBack - Earned cashback taken back
+   * @param topupRequestId - The reversed topup request ID
+   * @param trx - Transaction the reversal is part of
+   */
+  static async recordReversal(
+    userId: string,
+    refunded: number,
+    clawedBack: number,
+    topupRequestId: string,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    if (refunded <= 0 && clawedBack <= 0) {
+      return;
+    }
+
+    const cashback = await this.getOrCreate(userId, trx);
+
+    await trx('cashback')
+      .where({ user_id: userId })
+      .update({
+        total_redeemed: Math.max(cashback.totalRedeemed - refunded, 0),
+        total_earned: Math.max(cashback.totalEarned - clawedBack, 0),
+        updated_at: trx.fn.now(),
+      });
+
+    // Adjustments are signed: refunds add to the balance, clawbacks remove
+    const entries = [
+      {
+        amount: refunded,
+        description: 'Redeemed cashback returned for reversed topup',
+      },
+      {
+        amount: -clawedBack,
+        description: 'Cashback reversed for reversed topup',
+      },
+    ].filter(entry => entry.amount !== 0);
+
+    await trx('cashback_transactions').insert(
+      entries.map(entry => ({
+        user_id: userId,
+        type: 'adjustment',
+        amount: entry.amount,
+        description: entry.description,
+        topup_request_id: topupRequestId,
+        created_at: trx.fn.now(),
+      }))
+    );
   }
 
   /**
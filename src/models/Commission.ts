@@ -0,0 +1,160 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  CommissionRule,
+  CommissionRuleFilters,
+  CreateCommissionRuleData,
+  UpdateCommissionRuleData,
+} from '../types/pricing.types';
+
+export class CommissionModel {
+  /**
+   * Retrieves a commission rule by its ID
+   * @param id The rule ID
+   * @param trx Optional Knex transaction
+   * @returns The rule or null if not found
+   */
+  static async findById(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<CommissionRule | null> {
+    const connection = trx || db;
+    const row = await connection('commissions').where({ id }).first();
+    return row ? this.format(row) : null;
+  }
+
+  /**
+   * Retrieves commission rules with optional filters
+   * @param filters Optional filters
+   * @returns List of rules, newest first
+   */
+  static async findAll(
+    filters: CommissionRuleFilters = {}
+  ): Promise<CommissionRule[]> {
+    const query = db('commissions').orderBy('created_at', 'desc');
+
+    if (filters.operatorId) query.where('operator_id', filters.operatorId);
+    if (filters.operatorProductId) {
+      query.where('operator_product_id', filters.operatorProductId);
+    }
+    if (filters.supplierId) query.where('supplier_id', filters.supplierId);
+    if (filters.role) query.where('role', filters.role);
+    if (typeof filters.isActive === 'boolean') {
+      query.where('is_active', filters.isActive);
+    }
+
+    const rows = await query;
+    return rows.map(row => this.format(row));
+  }
+
+  /**
+   * Retrieves the active rules that may apply to a buyer: rules for any
+   * role or the buyer's role, and rules for any user or the buyer.
+   * @param buyer The buyer's role and user ID (both optional)
+   * @param trx Optional Knex transaction
+   * @returns Candidate rules; product, operator and supplier are matched by the caller
+   */
+  static async findActiveForBuyer(
+    buyer: { role?: string; userId?: string },
+    trx?: Knex.Transaction
+  ): Promise<CommissionRule[]> {
+    const connection = trx || db;
+    const rows = await connection('commissions')
+      .where({ is_active: true })
+      .where(query => {
+        query.whereNull('role');
+        if (buyer.role) query.orWhere('role', buyer.role);
+      })
+      .where(query => {
+        query.whereNull('agent_id');
+        if (buyer.userId) query.orWhere('agent_id', buyer.userId);
+      });
+
+    return rows.map(row => this.format(row));
+  }
+
+  /**
+   * Creates a commission rule
+   * @param data The rule data
+   * @returns The created rule
+   */
+  static async create(data: CreateCommissionRuleData): Promise<CommissionRule> {
+    const [row] = await db('commissions')
+      .insert({
+        name: data.name || null,
+        operator_id: data.operatorId || null,
+        operator_product_id: data.operatorProductId || null,
+        supplier_id: data.supplierId || null,
+        role: data.role || null,
+        agent_id: data.agentId || null,
+        rate_percent: data.ratePercent ?? 0,
+        fixed_amount: data.fixedAmount ?? 0,
+        is_active: data.isActive ?? true,
+        created_by: data.createdBy || null,
+      })
+      .returning('*');
+
+    return this.format(row);
+  }
+
+  /**
+   * Updates a commission rule
+   * @param id The rule ID
+   * @param data Fields to change
+   * @returns The updated rule or null if not found
+   */
+  static async update(
+    id: string,
+    data: UpdateCommissionRuleData
+  ): Promise<CommissionRule | null> {
+    const changes: Record<string, any> = {
+      name: data.name,
+      operator_id: data.operatorId,
+      operator_product_id: data.operatorProductId,
+      supplier_id: data.supplierId,
+      role: data.role,
+      agent_id: data.agentId,
+      rate_percent: data.ratePercent,
+      fixed_amount: data.fixedAmount,
+      is_active: data.isActive,
+    };
+    Object.keys(changes).forEach(key => {
+      if (changes[key] === undefined) delete changes[key];
+    });
+
+    const [row] = await db('commissions')
+      .where({ id })
+      .update({ ...changes, updated_at: db.fn.now() })
+      .returning('*');
+
+    return row ? this.format(row) : null;
+  }
+
+  /**
+   * Deletes a commission rule
+   * @param id The rule ID
+   * @returns True if deleted, false if not found
+   */
+  static async delete(id: string): Promise<boolean> {
+    const deletedCount = await db('commissions').where({ id }).del();
+    return deletedCount > 0;
+  }
+
+  private static format(row: any): CommissionRule {
+    return {
+      id: row.id,
+      name: row.name,
+      operatorId: row.operator_id,
+      operatorProductId: row.operator_product_id,
+      supplierId: row.supplier_id,
+      role: row.role,
+      agentId: row.agent_id,
+      ratePercent: parseFloat(row.rate_percent),
+      fixedAmount: parseFloat(row.fixed_amount),
+      isActive: Boolean(row.is_active),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
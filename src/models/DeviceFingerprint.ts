@@ -0,0 +1,131 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export type DeviceFingerprintEvent = 'signup' | 'login';
+
+export interface DeviceFingerprint {
+  id: string;
+  userId: string;
+  event: DeviceFingerprintEvent;
+  deviceId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+export interface CreateDeviceFingerprintInput {
+  userId: string;
+  event: DeviceFingerprintEvent;
+  deviceId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// Device IDs and IPs a user has been seen on
+export interface UserFingerprints {
+  deviceIds: string[];
+  ipAddresses: string[];
+}
+
+// =================================================================
+// Device Fingerprint Model Class
+// =================================================================
+
+export class DeviceFingerprintModel {
+  private static readonly TABLE_NAME = 'user_device_fingerprints';
+
+  /**
+   * Records the device and IP a user signed up or logged in from
+   * @param data - Fingerprint data
+   * @param trx - Optional transaction
+   * @returns The created fingerprint
+   */
+  static async create(
+    data: CreateDeviceFingerprintInput,
+    trx?: Knex.Transaction
+  ): Promise<DeviceFingerprint> {
+    const connection = trx || db;
+    const [fingerprint] = await connection(this.TABLE_NAME)
+      .insert({
+        user_id: data.userId,
+        event: data.event,
+        device_id: data.deviceId || null,
+        ip_address: data.ipAddress || null,
+        user_agent: data.userAgent || null,
+      })
+      .returning('*');
+
+    return this.formatRecord(fingerprint);
+  }
+
+  /**
+   * Gets the distinct devices and IPs a user has been seen on
+   * @param userId - The user ID
+   * @returns Device IDs and IP addresses
+   */
+  static async findByUserId(userId: string): Promise<UserFingerprints> {
+    const rows = await db(this.TABLE_NAME)
+      .where({ user_id: userId })
+      .distinct('device_id', 'ip_address');
+
+    const deviceIds = new Set<string>();
+    const ipAddresses = new Set<string>();
+    rows.forEach(row => {
+      if (row.device_id) deviceIds.add(row.device_id);
+      if (row.ip_address) ipAddresses.add(row.ip_address);
+    });
+
+    return { deviceIds: [...deviceIds], ipAddresses: [...ipAddresses] };
+  }
+
+  /**
+   * Counts other users referred by a referrer who were seen on any of the
+   * given devices or IPs
+   * @param referrerUserId - The referrer
+   * @param excludeUserId - The referred user being checked
+   * @param fingerprints - The referred user's devices and IPs
+   * @returns Number of referred users sharing a device and sharing an IP
+   */
+  static async countReferredUsersSharing(
+    referrerUserId: string,
+    excludeUserId: string,
+    fingerprints: UserFingerprints
+  ): Promise<{ device: number; ip: number }> {
+    const sharing = async (column: string, values: string[]) => {
+      if (values.length === 0) return 0;
+      const row = await db(`${this.TABLE_NAME} as f`)
+        .join('referrals as r', 'r.referred_user_id', 'f.user_id')
+        .where('r.referrer_user_id', referrerUserId)
+        .whereNot('f.user_id', excludeUserId)
+        .whereIn(`f.${column}`, values)
+        .countDistinct('f.user_id as count')
+        .first();
+      return Number(row?.count || 0);
+    };
+
+    const [device, ip] = await Promise.all([
+      sharing('device_id', fingerprints.deviceIds),
+      sharing('ip_address', fingerprints.ipAddresses),
+    ]);
+    return { device, ip };
+  }
+
+  /**
+   * Helper method to format database records
+   */
+  private static formatRecord(record: any): DeviceFingerprint {
+    return {
+      id: record.id,
+      userId: record.user_id,
+      event: record.event,
+      deviceId: record.device_id,
+      ipAddress: record.ip_address,
+      userAgent: record.user_agent,
+      createdAt: record.created_at,
+    };
+  }
+}
@@ -0,0 +1,403 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  CreateEpinOrderData,
+  EpinBatch,
+  EpinOrder,
+  EpinOrderWithPins,
+  EpinStockLevel,
+} from '../types/epin.types';
+
+// A PIN as stored; the service decrypts `pinCode`
+export interface StoredEpin {
+  id: string;
+  pinCode: Buffer;
+  serialNumber?: string | null;
+  denomination: number;
+  costPrice: number;
+}
+
+export class EpinModel {
+  /**
+   * Creates an upload batch; counts are filled in once the rows are stored
+   * @param data Batch details
+   * @param trx Knex transaction the import is part of
+   * @returns The created batch
+   */
+  static async createBatch(
+    data: {
+      operatorId: string;
+      supplierId?: string;
+      fileName?: string;
+      uploadedBy?: string;
+    },
+    trx: Knex.Transaction
+  ): Promise<EpinBatch> {
+    const [row] = await trx('epin_batches')
+      .insert({
+        operator_id: data.operatorId,
+        supplier_id: data.supplierId || null,
+        file_name: data.fileName || null,
+        uploaded_by: data.uploadedBy || null,
+      })
+      .returning('*');
+    return this.formatBatch(row);
+  }
+
+  /**
+   * Records how many rows of a batch were imported, duplicated or rejected
+   * @param id The batch ID
+   * @param counts The import counts
+   * @param trx Knex transaction the import is part of
+   * @returns The updated batch
+   */
+  static async finishBatch(
+    id: string,
+    counts: {
+      totalRows: number;
+      importedCount: number;
+      duplicateCount: number;
+      invalidCount: number;
+    },
+    trx: Knex.Transaction
+  ): Promise<EpinBatch> {
+    const [row] = await trx('epin_batches')
+      .where({ id })
+      .update({
+        total_rows: counts.totalRows,
+        imported_count: counts.importedCount,
+        duplicate_count: counts.duplicateCount,
+        invalid_count: counts.invalidCount,
+      })
+      .returning('*');
+    return this.formatBatch(row);
+  }
+
+  /**
+   * Stores encrypted PINs, skipping any whose hash is already stored
+   * @param rows PINs with their encrypted value and keyed hash
+   * @param trx Knex transaction the import is part of
+   * @returns Number of PINs inserted
+   */
+  static async insertPins(
+    rows: {
+      operatorId: string;
+      supplierId?: string;
+      batchId: string;
+      pinCode: Buffer;
+      pinHash: string;
+      serialNumber?: string;
+      denomination: number;
+      costPrice: number;
+    }[],
+    trx: Knex.Transaction
+  ): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const inserted = await trx('epins_inventory')
+      .insert(
+        rows.map(row => ({
+          operator_id: row.operatorId,
+          supplier_id: row.supplierId || null,
+          batch_id: row.batchId,
+          pin_code: row.pinCode,
+          pin_hash: row.pinHash,
+          serial_number: row.serialNumber || null,
+          denomination: row.denomination,
+          cost_price: row.costPrice,
+          status: 'available',
+        }))
+      )
+      .onConflict('pin_hash')
+      .ignore()
+      .returning('id');
+
+    return inserted.length;
+  }
+
+  /**
+   * Locks available PINs for a sale. Rows locked by a concurrent buyer are
+   * skipped, so two orders can never be handed the same PIN.
+   * @param operatorId The operator the PINs are for
+   * @param denomination The face value
+   * @param quantity How many PINs to take
+   * @param trx Knex transaction the sale is part of
+   * @returns The locked PINs (fewer than requested if stock ran out)
+   */
+  static async allocate(
+    operatorId: string,
+    denomination: number,
+    quantity: number,
+    trx: Knex.Transaction
+  ): Promise<StoredEpin[]> {
+    const rows = await trx('epins_inventory')
+      .select('id', 'pin_code', 'serial_number', 'denomination', 'cost_price')
+      .where({ operator_id: operatorId, denomination, status: 'available' })
+      .orderBy('created_at', 'asc')
+      .limit(quantity)
+      .forUpdate()
+      .skipLocked();
+
+    return rows.map(row => this.formatPin(row));
+  }
+
+  /**
+   * Marks allocated PINs as sold to an order
+   * @param ids The PIN IDs
+   * @param orderId The order they were sold in
+   * @param userId The buyer
+   * @param trx Knex transaction the sale is part of
+   */
+  static async markSold(
+    ids: string[],
+    orderId: string,
+    userId: string,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    await trx('epins_inventory').whereIn('id', ids).update({
+      status: 'sold',
+      order_id: orderId,
+      sold_to_user_id: userId,
+      sold_at: trx.fn.now(),
+    });
+  }
+
+  /**
+   * Creates an order record
+   * @param data The order data
+   * @param trx Knex transaction the sale is part of
+   * @returns The created order
+   */
+  static async createOrder(
+    data: CreateEpinOrderData,
+    trx: Knex.Transaction
+  ): Promise<EpinOrder> {
+    const [row] = await trx('epin_orders')
+      .insert({
+        reference: data.reference,
+        user_id: data.userId,
+        operator_product_id: data.operatorProductId,
+        operator_id: data.operatorId,
+        denomination: data.denomination,
+        quantity: data.quantity,
+        unit_price: data.unitPrice,
+        total_amount: data.totalAmount,
+      })
+      .returning('*');
+    return this.formatOrder(row);
+  }
+
+  /**
+   * Retrieves a user's orders, newest first
+   * @param userId The buyer
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  static async findOrdersByUser(
+    userId: string,
+    page: number,
+    limit: number
+  ): Promise<{ orders: EpinOrderWithPins[]; total: number }> {
+    const baseQuery = db('epin_orders as eo').where('eo.user_id', userId);
+
+    const [{ count }] = await baseQuery.clone().count('eo.id as count');
+    const rows = await baseQuery
+      .clone()
+      .leftJoin('operator_products as op', 'eo.operator_product_id', 'op.id')
+      .leftJoin('operators as o', 'eo.operator_id', 'o.id')
+      .select(
+        'eo.*',
+        'op.product_code',
+        'op.name as product_name',
+        'o.name as operator_name'
+      )
+      .orderBy('eo.created_at', 'desc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      orders: rows.map(row => ({ ...this.formatOrderRow(row), pins: [] })),
+      total: Number(count),
+    };
+  }
+
+  /**
+   * Retrieves one of a user's orders with its stored (encrypted) PINs
+   * @param orderId The order ID
+   * @param userId The buyer; orders of other users are not returned
+   */
+  static async findOrderWithPins(
+    orderId: string,
+    userId: string
+  ): Promise<{ order: EpinOrderWithPins; pins: StoredEpin[] } | null> {
+    const row = await db('epin_orders as eo')
+      .leftJoin('operator_products as op', 'eo.operator_product_id', 'op.id')
+      .leftJoin('operators as o', 'eo.operator_id', 'o.id')
+      .select(
+        'eo.*',
+        'op.product_code',
+        'op.name as product_name',
+        'o.name as operator_name'
+      )
+      .where({ 'eo.id': orderId, 'eo.user_id': userId })
+      .first();
+    if (!row) {
+      return null;
+    }
+
+    const pins = await db('epins_inventory')
+      .select('id', 'pin_code', 'serial_number', 'denomination', 'cost_price')
+      .where({ order_id: orderId })
+      .orderBy('serial_number', 'asc');
+
+    return {
+      order: { ...this.formatOrderRow(row), pins: [] },
+      pins: pins.map(pin => this.formatPin(pin)),
+    };
+  }
+
+  /**
+   * Counts available PINs for an operator and denomination
+   * @param operatorId The operator
+   * @param denomination The face value
+   * @param trx Optional Knex transaction
+   */
+  static async countAvailable(
+    operatorId: string,
+    denomination: number,
+    trx?: Knex.Transaction
+  ): Promise<number> {
+    const connection = trx || db;
+    const [{ count }] = await connection('epins_inventory')
+      .where({ operator_id: operatorId, denomination, status: 'available' })
+      .count('id as count');
+    return Number(count);
+  }
+
+  /**
+   * Low-stock level for an operator and denomination, if one is set
+   * @param operatorId The operator
+   * @param denomination The face value
+   * @returns The threshold or null to use the configured default
+   */
+  static async findThreshold(
+    operatorId: string,
+    denomination: number
+  ): Promise<number | null> {
+    const row = await db('epin_stock_thresholds')
+      .where({ operator_id: operatorId, denomination })
+      .first();
+    return row ? Number(row.threshold) : null;
+  }
+
+  /**
+   * Sets the low-stock level for an operator and denomination
+   * @param operatorId The operator
+   * @param denomination The face value
+   * @param threshold Alert when available stock falls below this
+   */
+  static async upsertThreshold(
+    operatorId: string,
+    denomination: number,
+    threshold: number
+  ): Promise<void> {
+    await db('epin_stock_thresholds')
+      .insert({ operator_id: operatorId, denomination, threshold })
+      .onConflict(['operator_id', 'denomination'])
+      .merge({ threshold, updated_at: db.fn.now() });
+  }
+
+  /**
+   * Stock per operator and denomination, with any configured threshold
+   * @returns Rows with available/sold counts; threshold is null when unset
+   */
+  static async getStockLevels(): Promise<
+    (Omit<EpinStockLevel, 'threshold' | 'lowStock'> & {
+      threshold: number | null;
+    })[]
+  > {
+    const rows = await db('epins_inventory as e')
+      .leftJoin('operators as o', 'e.operator_id', 'o.id')
+      .leftJoin('epin_stock_thresholds as t', function () {
+        this.on('t.operator_id', '=', 'e.operator_id').andOn(
+          't.denomination',
+          '=',
+          'e.denomination'
+        );
+      })
+      .select(
+        'e.operator_id',
+        'o.name as operator_name',
+        'e.denomination',
+        't.threshold'
+      )
+      .select(
+        db.raw(
+          "COUNT(*) FILTER (WHERE e.status = 'available')::int as available"
+        ),
+        db.raw("COUNT(*) FILTER (WHERE e.status = 'sold')::int as sold")
+      )
+      .groupBy('e.operator_id', 'o.name', 'e.denomination', 't.threshold')
+      .orderBy([{ column: 'o.name' }, { column: 'e.denomination' }]);
+
+    return rows.map(row => ({
+      operatorId: row.operator_id,
+      operatorName: row.operator_name,
+      denomination: parseFloat(row.denomination),
+      available: Number(row.available),
+      sold: Number(row.sold),
+      threshold: row.threshold === null ? null : Number(row.threshold),
+    }));
+  }
+
+  private static formatPin(row: any): StoredEpin {
+    return {
+      id: row.id,
+      pinCode: row.pin_code,
+      serialNumber: row.serial_number,
+      denomination: parseFloat(row.denomination),
+      costPrice: parseFloat(row.cost_price ?? row.denomination),
+    };
+  }
+
+  private static formatBatch(row: any): EpinBatch {
+    return {
+      id: row.id,
+      operatorId: row.operator_id,
+      supplierId: row.supplier_id,
+      fileName: row.file_name,
+      totalRows: Number(row.total_rows),
+      importedCount: Number(row.imported_count),
+      duplicateCount: Number(row.duplicate_count),
+      invalidCount: Number(row.invalid_count),
+      uploadedBy: row.uploaded_by,
+      createdAt: row.created_at,
+    };
+  }
+
+  private static formatOrder(row: any): EpinOrder {
+    return {
+      id: row.id,
+      reference: row.reference,
+      userId: row.user_id,
+      operatorProductId: row.operator_product_id,
+      operatorId: row.operator_id,
+      denomination: parseFloat(row.denomination),
+      quantity: Number(row.quantity),
+      unitPrice: parseFloat(row.unit_price),
+      totalAmount: parseFloat(row.total_amount),
+      createdAt: row.created_at,
+    };
+  }
+
+  private static formatOrderRow(row: any): Omit<EpinOrderWithPins, 'pins'> {
+    return {
+      ...this.formatOrder(row),
+      productCode: row.product_code,
+      productName: row.product_name,
+      operatorName: row.operator_name,
+    };
+  }
+}
@@ -1,6 +1,13 @@
 import db from '../database/connection';
 
-export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+// 'dead' is the dead-letter state: attempts ran out or the error was permanent
+export type JobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'dead'
+  | 'cancelled';
 
 export interface JobRecord {
   id: string;
@@ -8,20 +15,37 @@ export interface JobRecord {
   payload: any;
   status: JobStatus;
   attempts: number;
+  max_attempts?: number;
+  run_at?: string;
+  locked_at?: string | null;
+  locked_by?: string | null;
+  last_error?: string | null;
+  finished_at?: string | null;
   result?: any;
   created_at?: string;
   updated_at?: string;
 }
 
 export class JobModel {
-  static async create(type: string, payload: any) {
-    const [row] = await db('jobs').insert({ type, payload }).returning('*');
+  static async create(
+    type: string,
+    payload: any,
+    options: { maxAttempts?: number; runAt?: Date } = {}
+  ) {
+    const insert: Record<string, any> = { type, payload };
+    if (options.maxAttempts !== undefined) {
+      insert.max_attempts = options.maxAttempts;
+    }
+    if (options.runAt) insert.run_at = options.runAt;
+
+    const [row] = await db('jobs').insert(insert).returning('*');
     return row as JobRecord;
   }
 
   static async fetchPending(limit = 1) {
     return db('jobs')
       .where({ status: 'pending' })
+      .where('run_at', '<=', db.fn.now())
       .orderBy('created_at', 'asc')
       .limit(limit);
   }
@@ -32,16 +56,174 @@ export class JobModel {
       .update({
         status: 'running',
         attempts: db.raw('attempts + 1'),
+        locked_at: db.fn.now(),
         updated_at: db.fn.now(),
       })
       .returning('*');
     return updated && updated[0];
   }
 
-  static async updateStatus(id: string, status: JobStatus, result?: any) {
+  /**
+   * Claims due jobs of one type. Rows being claimed by another worker are
+   * skipped, so a job is only ever handed to one worker.
+   * @param type - The job type
+   * @param limit - Maximum number of jobs to claim
+   * @param workerId - Recorded on the job to show who is running it
+   * @returns The claimed jobs, now running
+   */
+  static async claimDue(
+    type: string,
+    limit: number,
+    workerId: string
+  ): Promise<JobRecord[]> {
+    const due = db('jobs')
+      .select('id')
+      .where({ type, status: 'pending' })
+      .where('run_at', '<=', db.fn.now())
+      .orderBy([
+        { column: 'run_at', order: 'asc' },
+        { column: 'created_at', order: 'asc' },
+      ])
+      .limit(limit)
+      .forUpdate()
+      .skipLocked();
+
+    return db('jobs')
+      .whereIn('id', due)
+      .update({
+        status: 'running',
+        attempts: db.raw('attempts + 1'),
+        locked_at: db.fn.now(),
+        locked_by: workerId,
+        updated_at: db.fn.now(),
+      })
+      .returning('*');
+  }
+
+  /**
+   * Handles running jobs of a type whose worker went away. Jobs with attempts
+   * left go back in the queue; the rest move to the dead-letter state, so a
+   * job that keeps killing its worker cannot loop forever.
+   * @param type - The job type
+   * @param leaseMinutes - How long a job may run before it is presumed lost
+   * @returns Number of jobs requeued and dead-lettered
+   */
+  static async requeueStale(
+    type: string,
+    leaseMinutes: number
+  ): Promise<{ requeued: number; deadLettered: number }> {
+    const stale = () =>
+      db('jobs')
+        .where({ type, status: 'running' })
+        .where(
+          'locked_at',
+          '<',
+          db.raw('now() - make_interval(mins => ?)', [leaseMinutes])
+        );
+    const released = {
+      locked_at: null,
+      locked_by: null,
+      updated_at: db.fn.now(),
+    };
+
+    const deadError =
+      'Worker stopped before the job finished; no attempts left';
+    const deadLettered = await stale()
+      .where('attempts', '>=', db.ref('max_attempts'))
+      .update({
+        ...released,
+        status: 'dead',
+        last_error: deadError,
+        result: { error: deadError },
+        finished_at: db.fn.now(),
+      });
+    const requeued = await stale().update({
+      ...released,
+      status: 'pending',
+      last_error: 'Worker stopped before the job finished',
+    });
+
+    return { requeued, deadLettered };
+  }
+
+  /**
+   * Sets a job's status. With a worker ID the job is only updated while that
+   * worker still holds it, so a worker whose job was requeued as stale cannot
+   * overwrite the outcome of the run that took it over.
+   * @param id - The job ID
+   * @param status - The new status
+   * @param result - Stored on the job when given
+   * @param workerId - The worker that claimed the job
+   * @returns Whether the job was updated
+   */
+  static async updateStatus(
+    id: string,
+    status: JobStatus,
+    result?: any,
+    workerId?: string
+  ): Promise<boolean> {
     const update: any = { status, updated_at: db.fn.now() };
     if (result !== undefined) update.result = result;
-    await db('jobs').where({ id }).update(update);
+    if (status !== 'pending' && status !== 'running') {
+      update.finished_at = db.fn.now();
+    }
+    const query = db('jobs').where({ id });
+    if (workerId !== undefined) {
+      query.where({ status: 'running', locked_by: workerId });
+    }
+    const updated = await query.update(update);
+    return updated > 0;
+  }
+
+  /**
+   * Records a failed attempt: the job is either scheduled again or, with
+   * no retry time, moved to the dead-letter state. Only applies while the
+   * worker still holds the job.
+   * @param id - The job ID
+   * @param workerId - The worker that claimed the job
+   * @param error - The error message
+   * @param retryAt - When to try again, or null to give up
+   * @returns Whether the job was updated
+   */
+  static async recordFailure(
+    id: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<boolean> {
+    const updated = await db('jobs')
+      .where({ id, status: 'running', locked_by: workerId })
+      .update({
+        status: retryAt ? 'pending' : 'dead',
+        run_at: retryAt || db.raw('run_at'),
+        last_error: error,
+        result: { error },
+        locked_at: null,
+        locked_by: null,
+        finished_at: retryAt ? null : db.fn.now(),
+        updated_at: db.fn.now(),
+      });
+    return updated > 0;
+  }
+
+  /**
+   * Moves a job from one of the given states to a new one
+   * @param id - The job ID
+   * @param from - States the job may be in
+   * @param changes - Columns to set
+   * @returns The updated job or undefined if it was in another state
+   */
+  static async transition(
+    id: string,
+    from: JobStatus[],
+    changes: Record<string, any>
+  ): Promise<JobRecord | undefined> {
+    const [row] = await db('jobs')
+      .where({ id })
+      .whereIn('status', from)
+      .update({ ...changes, updated_at: db.fn.now() })
+      .returning('*');
+    return row;
   }
 
   static async findById(id: string) {
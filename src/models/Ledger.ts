@@ -0,0 +1,325 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  LedgerAccount,
+  LedgerAccountBalance,
+  LedgerAccountRef,
+  LedgerBalanceDrift,
+  LedgerDirection,
+  LedgerJournal,
+} from '../types/ledger.types';
+
+// Liabilities and income grow on the credit side, assets on the debit side
+const NORMAL_SIDE: Record<LedgerAccountRef['type'], LedgerDirection> = {
+  user_wallet: 'credit',
+  user_cashback: 'credit',
+  supplier_payable: 'credit',
+  revenue: 'credit',
+  suspense: 'debit',
+  provider_funding: 'debit',
+  rewards: 'debit', // What redeemed reward points have cost
+};
+
+export class LedgerModel {
+  /**
+   * Builds the unique account code for an account reference
+   * @param ref The account reference
+   * @returns e.g. `user_wallet:<userId>` or `revenue`
+   */
+  static accountCode(ref: LedgerAccountRef): string {
+    return 'userId' in ref ? `${ref.type}:${ref.userId}` : ref.type;
+  }
+
+  /**
+   * Retrieves an account, creating user accounts on first use
+   * @param ref The account reference
+   * @param trx Optional Knex transaction
+   * @returns The ledger account
+   */
+  static async findOrCreateAccount(
+    ref: LedgerAccountRef,
+    trx?: Knex.Transaction
+  ): Promise<LedgerAccount> {
+    const connection = trx || db;
+    const code = this.accountCode(ref);
+
+    await connection('ledger_accounts')
+      .insert({
+        code,
+        type: ref.type,
+        normal_side: NORMAL_SIDE[ref.type],
+        user_id: 'userId' in ref ? ref.userId : null,
+      })
+      .onConflict('code')
+      .ignore();
+
+    const account = await connection('ledger_accounts')
+      .select(
+        'id',
+        'code',
+        'type',
+        'normal_side as normalSide',
+        'user_id as userId',
+        'created_at as createdAt'
+      )
+      .where({ code })
+      .first();
+
+    return account;
+  }
+
+  /**
+   * Inserts a journal and its entries. Callers are expected to have checked
+   * that the lines balance; the database re-checks at commit.
+   * @param journal Journal header
+   * @param entries Lines with resolved account ids
+   * @param trx Knex transaction the journal is part of
+   * @returns The new journal id
+   */
+  static async insertJournal(
+    journal: {
+      referenceType: string;
+      referenceId?: string | null;
+      description?: string;
+      createdBy?: string | null;
+    },
+    entries: {
+      accountId: string;
+      direction: LedgerDirection;
+      amount: number;
+    }[],
+    trx: Knex.Transaction
+  ): Promise<string> {
+    const [row] = await trx('ledger_journals')
+      .insert({
+        reference_type: journal.referenceType,
+        reference_id: journal.referenceId || null,
+        description: journal.description || null,
+        created_by: journal.createdBy || null,
+      })
+      .returning('id');
+
+    await trx('ledger_entries').insert(
+      entries.map(entry => ({
+        journal_id: row.id,
+        account_id: entry.accountId,
+        direction: entry.direction,
+        amount: entry.amount,
+      }))
+    );
+
+    return row.id;
+  }
+
+  /**
+   * Retrieves the journals posted for a business object
+   * @param referenceType e.g. `topup_request`
+   * @param referenceId The id of the business object
+   * @param trx Optional Knex transaction
+   * @returns Journals with their entries, oldest first
+   */
+  static async findJournalsByReference(
+    referenceType: string,
+    referenceId: string,
+    trx?: Knex.Transaction
+  ): Promise<LedgerJournal[]> {
+    const connection = trx || db;
+    const journals = await connection('ledger_journals')
+      .select(
+        'id',
+        'reference_type as referenceType',
+        'reference_id as referenceId',
+        'description',
+        'created_by as createdBy',
+        'created_at as createdAt'
+      )
+      .where({ reference_type: referenceType, reference_id: referenceId })
+      .orderBy('created_at', 'asc');
+
+    if (journals.length === 0) {
+      return [];
+    }
+
+    const entries = await connection('ledger_entries as le')
+      .join('ledger_accounts as la', 'le.account_id', 'la.id')
+      .select(
+        'le.id',
+        'le.journal_id as journalId',
+        'la.code as accountCode',
+        'le.direction',
+        'le.amount',
+        'le.created_at as createdAt'
+      )
+      .whereIn(
+        'le.journal_id',
+        journals.map(journal => journal.id)
+      );
+
+    return journals.map(journal => ({
+      ...journal,
+      entries: entries
+        .filter(entry => entry.journalId === journal.id)
+        .map(entry => ({ ...entry, amount: parseFloat(entry.amount) })),
+    }));
+  }
+
+  /**
+   * Computes an account's balance from its entries
+   * @param ref The account reference
+   * @param trx Optional Knex transaction
+   * @returns The balance on the account's normal side (0 if never used)
+   */
+  static async getAccountBalance(
+    ref: LedgerAccountRef,
+    trx?: Knex.Transaction
+  ): Promise<number> {
+    const connection = trx || db;
+    const row = await connection('ledger_accounts as la')
+      .leftJoin('ledger_entries as le', 'le.account_id', 'la.id')
+      .select('la.normal_side as normalSide')
+      .select(
+        connection.raw(
+          "COALESCE(SUM(le.amount) FILTER (WHERE le.direction = 'debit'), 0) as debit"
+        ),
+        connection.raw(
+          "COALESCE(SUM(le.amount) FILTER (WHERE le.direction = 'credit'), 0) as credit"
+        )
+      )
+      .where('la.code', this.accountCode(ref))
+      .groupBy('la.id')
+      .first();
+
+    if (!row) {
+      return 0;
+    }
+
+    const debit = parseFloat(row.debit);
+    const credit = parseFloat(row.credit);
+    return row.normalSide === 'debit' ? debit - credit : credit - debit;
+  }
+
+  /**
+   * Sums every entry in the ledger
+   * @returns Total debits and credits (equal when the ledger is sound)
+   */
+  static async getTrialBalance(): Promise<{
+    totalDebit: number;
+    totalCredit: number;
+  }> {
+    const row = await db('ledger_entries')
+      .select(
+        db.raw(
+          "COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) as debit"
+        ),
+        db.raw(
+          "COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) as credit"
+        )
+      )
+      .first();
+
+    return {
+      totalDebit: parseFloat(row?.debit ?? 0),
+      totalCredit: parseFloat(row?.credit ?? 0),
+    };
+  }
+
+  /**
+   * Lists journals whose debits and credits differ
+   * @param limit Maximum number of journal ids to return
+   */
+  static async findUnbalancedJournals(limit: number = 50): Promise<string[]> {
+    const rows = await db('ledger_entries')
+      .select('journal_id')
+      .groupBy('journal_id')
+      .havingRaw(
+        "SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) <> 0"
+      )
+      .limit(limit);
+
+    return rows.map(row => row.journal_id);
+  }
+
+  /**
+   * Balances of the platform (non-user) accounts
+   */
+  static async getSystemAccountBalances(): Promise<LedgerAccountBalance[]> {
+    const rows = await db('ledger_accounts as la')
+      .leftJoin('ledger_entries as le', 'le.account_id', 'la.id')
+      .select('la.code', 'la.type', 'la.normal_side as normalSide')
+      .select(
+        db.raw(
+          "COALESCE(SUM(le.amount) FILTER (WHERE le.direction = 'debit'), 0) as debit"
+        ),
+        db.raw(
+          "COALESCE(SUM(le.amount) FILTER (WHERE le.direction = 'credit'), 0) as credit"
+        )
+      )
+      .whereNull('la.user_id')
+      .whereNotIn('la.type', ['user_wallet', 'user_cashback'])
+      .groupBy('la.id')
+      .orderBy('la.code');
+
+    return rows.map(row => {
+      const totalDebit = parseFloat(row.debit);
+      const totalCredit = parseFloat(row.credit);
+      return {
+        code: row.code,
+        type: row.type,
+        totalDebit,
+        totalCredit,
+        balance:
+          row.normalSide === 'debit'
+            ? totalDebit - totalCredit
+            : totalCredit - totalDebit,
+      };
+    });
+  }
+
+  /**
+   * Finds wallets and cashback balances that disagree with the ledger
+   * @param limit Maximum number of rows to return
+   */
+  static async findBalanceDrift(
+    limit: number = 100
+  ): Promise<LedgerBalanceDrift[]> {
+    const result = await db.raw(
+      `
+      WITH ledger AS (
+        SELECT la.code,
+               SUM(CASE WHEN le.direction = 'credit' THEN le.amount ELSE -le.amount END) AS balance
+        FROM ledger_accounts la
+        JOIN ledger_entries le ON le.account_id = la.id
+        WHERE la.type IN ('user_wallet', 'user_cashback')
+        GROUP BY la.code
+      ),
+      stored AS (
+        SELECT user_id, 'user_wallet' AS account_type, balance AS stored_balance
+        FROM wallets
+        UNION ALL
+        SELECT user_id, 'user_cashback', available_balance
+        FROM cashback
+      )
+      SELECT s.user_id, s.account_type, s.stored_balance,
+             COALESCE(l.balance, 0) AS ledger_balance
+      FROM stored s
+      LEFT JOIN ledger l ON l.code = s.account_type || ':' || s.user_id
+      WHERE s.stored_balance <> COALESCE(l.balance, 0)
+      ORDER BY ABS(s.stored_balance - COALESCE(l.balance, 0)) DESC
+      LIMIT ?
+      `,
+      [limit]
+    );
+
+    return result.rows.map((row: any) => {
+      const storedBalance = parseFloat(row.stored_balance);
+      const ledgerBalance = parseFloat(row.ledger_balance);
+      return {
+        userId: row.user_id,
+        accountType: row.account_type,
+        storedBalance,
+        ledgerBalance,
+        difference: parseFloat((storedBalance - ledgerBalance).toFixed(2)),
+      };
+    });
+  }
+}
@@ -279,4 +279,112 @@ export class NotificationModel {
   static async deleteTokens(tokens: string[]) {
     return db('push_tokens').whereIn('token', tokens).del();
   }
+
+  /**
+   * Claims due notifications for sending. Rows another instance is claiming
+   * are skipped, and a claim blocks others until it is released or goes
+   * stale, so each notification is sent by one instance only.
+   * @param limit - Maximum number of notifications to claim
+   * @param leaseMinutes - Age after which an unfinished claim is taken over
+   * @param notificationId - Claim only this notification (if due)
+   * @returns The claimed notifications
+   */
+  static async claimDue(
+    limit: number,
+    leaseMinutes: number,
+    notificationId?: string
+  ): Promise<any[]> {
+    const due = db('notifications')
+      .select('id')
+      .where({ sent: false, archived: false })
+      .whereNull('cancelled_at')
+      .whereNull('failed_at')
+      .where('publish_at', '<=', db.fn.now())
+      .where(query =>
+        query
+          .whereNull('dispatch_claimed_at')
+          .orWhere(
+            'dispatch_claimed_at',
+            '<',
+            db.raw(`now() - make_interval(mins => ?)`, [leaseMinutes])
+          )
+      )
+      .orderBy('publish_at', 'asc')
+      .limit(limit)
+      .forUpdate()
+      .skipLocked();
+    if (notificationId) {
+      due.where({ id: notificationId });
+    }
+
+    return db('notifications')
+      .whereIn('id', due)
+      .update({
+        dispatch_claimed_at: db.fn.now(),
+        dispatch_attempts: db.raw('dispatch_attempts + 1'),
+      })
+      .returning('*');
+  }
+
+  /**
+   * Marks a claimed notification as sent
+   * @param id - The notification ID
+   */
+  static async markSent(id: string): Promise<void> {
+    await db('notifications').where({ id }).update({
+      sent: true,
+      sent_at: db.fn.now(),
+      dispatch_error: null,
+    });
+  }
+
+  /**
+   * Releases a claim after a failed send so it can be retried, or gives up
+   * @param id - The notification ID
+   * @param error - Why the send failed
+   * @param giveUp - True to stop retrying
+   */
+  static async releaseClaim(
+    id: string,
+    error: string,
+    giveUp: boolean
+  ): Promise<void> {
+    await db('notifications')
+      .where({ id })
+      .update({
+        dispatch_claimed_at: null,
+        dispatch_error: error,
+        failed_at: giveUp ? db.fn.now() : null,
+      });
+  }
+
+  /**
+   * Applies a change to a notification only while it is still waiting to be
+   * sent (not sent, cancelled, given up on or being sent right now)
+   * @param id - The notification ID
+   * @param changes - Columns to update
+   * @returns The updated notification or null if it is no longer pending
+   */
+  static async updatePending(
+    id: string,
+    changes: Record<string, any>
+  ): Promise<any | null> {
+    const [notification] = await db('notifications')
+      .where({ id, sent: false })
+      .whereNull('cancelled_at')
+      .whereNull('failed_at')
+      .whereNull('dispatch_claimed_at')
+      .update(changes)
+      .returning('*');
+    return notification || null;
+  }
+
+  /**
+   * Finds a notification by ID
+   * @param id - The notification ID
+   * @returns The notification or undefined
+   */
+  static async findById(id: string): Promise<any> {
+    return db('notifications').where({ id }).first();
+  }
 }
@@ -1,7 +1,12 @@
 // src/models/Offer.ts
 import { Knex } from 'knex';
 import db from '../database/connection';
-import { Offer, OfferProduct } from '../types/offer.type';
+import {
+  Offer,
+  OfferEligibilityRule,
+  OfferProduct,
+  OfferProductDetails,
+} from '../types/offer.type';
 
 // =================================================================
 // Offer Model Class
@@ -52,6 +57,219 @@ export class OfferModel {
       .update({ deleted_at: db.fn.now() });
     return result > 0;
   }
+
+  /**
+   * Moves scheduled offers whose start time has passed, and whose window has
+   * not already closed, to active
+   * @returns The offers that were activated
+   */
+  static async activateDue(client?: Knex.Transaction): Promise<Offer[]> {
+    const dbConnection = client || db;
+    return dbConnection(this.TABLE_NAME)
+      .where('status', 'scheduled')
+      .whereNull('deleted_at')
+      .andWhere(query => {
+        query.whereNull('starts_at').orWhere('starts_at', '<=', db.fn.now());
+      })
+      .andWhere(query => {
+        query.whereNull('ends_at').orWhere('ends_at', '>', db.fn.now());
+      })
+      .update({ status: 'active', updated_at: db.fn.now() })
+      .returning('*');
+  }
+
+  /**
+   * Moves offers whose window has closed to expired. Paused and scheduled
+   * offers expire too, so they cannot be resumed past their end.
+   * @returns The offers that were expired
+   */
+  static async expireEnded(client?: Knex.Transaction): Promise<Offer[]> {
+    const dbConnection = client || db;
+    return dbConnection(this.TABLE_NAME)
+      .whereIn('status', ['scheduled', 'active', 'paused'])
+      .whereNull('deleted_at')
+      .where('ends_at', '<', db.fn.now())
+      .update({ status: 'expired', updated_at: db.fn.now() })
+      .returning('*');
+  }
+
+  /**
+   * Moves active and paused offers that have reached their total usage limit
+   * to expired
+   * @returns The offers that were expired
+   */
+  static async expireExhausted(client?: Knex.Transaction): Promise<Offer[]> {
+    const dbConnection = client || db;
+    return dbConnection(this.TABLE_NAME)
+      .whereIn('status', ['active', 'paused'])
+      .whereNull('deleted_at')
+      .whereNotNull('total_usage_limit')
+      .whereRaw('usage_count >= total_usage_limit')
+      .update({ status: 'expired', updated_at: db.fn.now() })
+      .returning('*');
+  }
+
+  /**
+   * Active offers, within their window and not used up, that a user may
+   * redeem: open to them (or their role) and either in the offer's
+   * precomputed segment or passing its eligibility rules
+   * @param userId - The user
+   * @param role - The user's role
+   */
+  static async findAvailableForUser(
+    userId: string,
+    role: string
+  ): Promise<Offer[]> {
+    return db(`${this.TABLE_NAME} as o`)
+      .select('o.*')
+      .where('o.status', 'active')
+      .whereNull('o.deleted_at')
+      .andWhere(query => {
+        query
+          .whereNull('o.starts_at')
+          .orWhere('o.starts_at', '<=', db.fn.now());
+      })
+      .andWhere(query => {
+        query.whereNull('o.ends_at').orWhere('o.ends_at', '>=', db.fn.now());
+      })
+      .andWhere(query => {
+        query
+          .whereNull('o.total_usage_limit')
+          .orWhereRaw('o.usage_count < o.total_usage_limit');
+      })
+      .andWhere(query => {
+        query
+          .where('o.allow_all', true)
+          .orWhereExists(
+            db('offer_allowed_users as au')
+              .whereRaw('au.offer_id = o.id')
+              .andWhere('au.user_id', userId)
+          )
+          .orWhereExists(
+            db('offer_allowed_roles as ar')
+              .whereRaw('ar.offer_id = o.id')
+              .andWhere('ar.role_name', role)
+          );
+      })
+      .andWhere(query => {
+        query
+          .whereExists(
+            db('offer_segment_members as sm')
+              .whereRaw('sm.offer_id = o.id')
+              .andWhere('sm.user_id', userId)
+          )
+          .orWhereRaw('is_user_eligible_for_offer(o.id, ?)', [userId]);
+      })
+      .orderByRaw('o.ends_at ASC NULLS LAST, o.created_at DESC');
+  }
+
+  /**
+   * Counts a user's redemptions of each of the given offers, leaving out
+   * those released by a reversal
+   * @param offerIds - The offers
+   * @param userId - The user
+   * @returns Redemption count per offer ID
+   */
+  static async countRedemptionsByUser(
+    offerIds: string[],
+    userId: string
+  ): Promise<Map<string, number>> {
+    const rows = await db('offer_redemptions')
+      .select('offer_id')
+      .count('* as count')
+      .whereIn('offer_id', offerIds)
+      .andWhere('user_id', userId)
+      .whereNull('released_at')
+      .groupBy('offer_id');
+    return new Map(rows.map(row => [String(row.offer_id), Number(row.count)]));
+  }
+
+  /**
+   * Gives back the offer redemptions a topup used: they are marked released
+   * so they no longer count toward the buyer's per-user limit, and each
+   * offer's usage count is decremented
+   * @param topupRequestId - The topup the offers were redeemed on
+   * @param client - The transaction the topup is reversed in
+   * @returns Number of redemptions released
+   */
+  static async releaseRedemptionsForTopup(
+    topupRequestId: string,
+    client?: Knex.Transaction
+  ): Promise<number> {
+    const dbConnection = client || db;
+    const released: { offer_id: string }[] = await dbConnection(
+      'offer_redemptions'
+    )
+      .where({ topup_request_id: topupRequestId })
+      .whereNull('released_at')
+      .update({ released_at: dbConnection.fn.now() })
+      .returning(['offer_id']);
+
+    for (const { offer_id } of released) {
+      await dbConnection(this.TABLE_NAME)
+        .where({ id: offer_id })
+        .update({
+          usage_count: dbConnection.raw('GREATEST(usage_count - 1, 0)'),
+          updated_at: dbConnection.fn.now(),
+        });
+    }
+    return released.length;
+  }
+
+  /**
+   * The products listed on the given offers with what is needed to price
+   * them. Supplier mapping rows carry the mapping's supplier and price.
+   * @param offerIds - The offers
+   */
+  static async findProductsForOffers(
+    offerIds: string[]
+  ): Promise<OfferProductDetails[]> {
+    const rows = await db('offer_products as opr')
+      .leftJoin(
+        'supplier_product_mapping as spm',
+        'opr.supplier_product_mapping_id',
+        'spm.id'
+      )
+      .join(
+        'operator_products as op',
+        'op.id',
+        db.raw('COALESCE(opr.operator_product_id, spm.operator_product_id)')
+      )
+      .leftJoin('operators as o', 'op.operator_id', 'o.id')
+      .select(
+        'opr.offer_id',
+        'opr.operator_product_id',
+        'opr.supplier_product_mapping_id',
+        'opr.price_override',
+        'op.id as product_id',
+        'op.product_code',
+        'op.name as product_name',
+        'op.denom_amount',
+        'op.operator_id',
+        'o.name as operator_name',
+        'spm.supplier_id',
+        'spm.supplier_price'
+      )
+      .whereIn('opr.offer_id', offerIds)
+      .andWhere('op.is_active', true)
+      .orderBy([{ column: 'o.name' }, { column: 'op.denom_amount' }]);
+
+    return rows.map(row => ({
+      offerId: row.offer_id,
+      operatorProductId: row.product_id,
+      supplierProductMappingId: row.supplier_product_mapping_id,
+      priceOverride:
+        row.price_override === null ? null : parseFloat(row.price_override),
+      productCode: row.product_code,
+      productName: row.product_name,
+      denomAmount: parseFloat(row.denom_amount),
+      operatorId: row.operator_id,
+      operatorName: row.operator_name,
+      supplierId: row.supplier_id,
+      supplierPrice:
+        row.supplier_price === null ? null : parseFloat(row.supplier_price),
+    }));
+  }
 }
 
 // =================================================================
@@ -73,4 +291,67 @@ export class OfferProductModel {
   }
 }
 
+// =================================================================
+// OfferEligibilityRule Model Class
+// =================================================================
+
+export class OfferEligibilityRuleModel {
+  private static readonly TABLE_NAME = 'offer_eligibility_rules';
+
+  static async findByOffer(offerId: string): Promise<OfferEligibilityRule[]> {
+    return db(this.TABLE_NAME)
+      .where({ offer_id: offerId })
+      .orderBy('created_at', 'asc');
+  }
+
+  static async findById(
+    offerId: string,
+    id: string
+  ): Promise<OfferEligibilityRule | null> {
+    const rule = await db(this.TABLE_NAME)
+      .where({ id, offer_id: offerId })
+      .first();
+    return rule || null;
+  }
+
+  static async create(
+    data: Omit<OfferEligibilityRule, 'id' | 'created_at'>,
+    client?: Knex.Transaction
+  ): Promise<OfferEligibilityRule> {
+    const dbConnection = client || db;
+    const [rule] = await dbConnection(this.TABLE_NAME)
+      .insert({ ...data, params: JSON.stringify(data.params) })
+      .returning('*');
+    return rule;
+  }
+
+  static async update(
+    offerId: string,
+    id: string,
+    data: Partial<Omit<OfferEligibilityRule, 'id' | 'offer_id' | 'created_at'>>,
+    client?: Knex.Transaction
+  ): Promise<OfferEligibilityRule | null> {
+    const dbConnection = client || db;
+    const [rule] = await dbConnection(this.TABLE_NAME)
+      .where({ id, offer_id: offerId })
+      .update(
+        data.params ? { ...data, params: JSON.stringify(data.params) } : data
+      )
+      .returning('*');
+    return rule || null;
+  }
+
+  static async delete(
+    offerId: string,
+    id: string,
+    client?: Knex.Transaction
+  ): Promise<boolean> {
+    const dbConnection = client || db;
+    const result = await dbConnection(this.TABLE_NAME)
+      .where({ id, offer_id: offerId })
+      .del();
+    return result > 0;
+  }
+}
+
 // ... and so on for the other models
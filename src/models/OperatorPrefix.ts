@@ -0,0 +1,259 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export interface OperatorPrefix {
+  id: string;
+  operatorId: string;
+  operatorCode: string;
+  operatorName: string;
+  prefix: string; // Leading digits of the local form, e.g. '0803'
+  createdAt: Date;
+}
+
+export interface PortedNumber {
+  id: string;
+  phoneNumber: string; // Local form, e.g. '08031234567'
+  operatorId: string;
+  operatorCode: string;
+  operatorName: string;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpsertPortedNumberInput {
+  phoneNumber: string;
+  operatorId: string;
+  note?: string | null;
+  createdBy?: string;
+}
+
+// The operator a number belongs to
+export interface OperatorMatch {
+  operatorId: string;
+  operatorCode: string;
+  operatorName: string;
+}
+
+// =================================================================
+// Operator Prefix Model Class
+// =================================================================
+
+export class OperatorPrefixModel {
+  private static readonly TABLE_NAME = 'operator_prefixes';
+
+  /**
+   * Lists all prefixes with their operator
+   * @returns Prefixes ordered by operator then prefix
+   */
+  static async findAll(): Promise<OperatorPrefix[]> {
+    const prefixes = await db(`${this.TABLE_NAME} as p`)
+      .join('operators as o', 'o.id', 'p.operator_id')
+      .select('p.*', 'o.code as operator_code', 'o.name as operator_name')
+      .orderBy([
+        { column: 'o.code', order: 'asc' },
+        { column: 'p.prefix', order: 'asc' },
+      ]);
+    return prefixes.map(p => this.formatRecord(p));
+  }
+
+  /**
+   * Finds the operator whose prefix is the longest match for a number
+   * @param phoneNumber - Local form, e.g. '08031234567'
+   * @param trx - Optional transaction
+   * @returns The operator, or null if no prefix matches
+   */
+  static async findLongestMatch(
+    phoneNumber: string,
+    trx?: Knex.Transaction
+  ): Promise<OperatorMatch | null> {
+    const connection = trx || db;
+    const match = await connection(`${this.TABLE_NAME} as p`)
+      .join('operators as o', 'o.id', 'p.operator_id')
+      .whereRaw('? LIKE p.prefix || ?', [phoneNumber, '%'])
+      .select(
+        'o.id as operator_id',
+        'o.code as operator_code',
+        'o.name as operator_name'
+      )
+      .orderByRaw('length(p.prefix) desc')
+      .first();
+
+    return match ? formatMatch(match) : null;
+  }
+
+  /**
+   * Adds a prefix for an operator
+   * @param operatorId - The operator ID
+   * @param prefix - Leading digits of the local form
+   * @returns The created prefix
+   */
+  static async create(
+    operatorId: string,
+    prefix: string
+  ): Promise<OperatorPrefix> {
+    const [created] = await db(this.TABLE_NAME)
+      .insert({ operator_id: operatorId, prefix })
+      .returning('id');
+    return (await this.findById(created.id)) as OperatorPrefix;
+  }
+
+  /**
+   * Gets a prefix by ID
+   * @param id - The prefix ID
+   * @returns The prefix or null
+   */
+  static async findById(id: string): Promise<OperatorPrefix | null> {
+    const prefix = await db(`${this.TABLE_NAME} as p`)
+      .join('operators as o', 'o.id', 'p.operator_id')
+      .select('p.*', 'o.code as operator_code', 'o.name as operator_name')
+      .where('p.id', id)
+      .first();
+    return prefix ? this.formatRecord(prefix) : null;
+  }
+
+  /**
+   * Finds a prefix by its digits
+   * @param prefix - Leading digits of the local form
+   * @returns The prefix or null
+   */
+  static async findByPrefix(prefix: string): Promise<OperatorPrefix | null> {
+    const found = await db(this.TABLE_NAME).where({ prefix }).first();
+    return found ? this.findById(found.id) : null;
+  }
+
+  /**
+   * Removes a prefix
+   * @param id - The prefix ID
+   * @returns True if removed
+   */
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await db(this.TABLE_NAME).where({ id }).del();
+    return deleted > 0;
+  }
+
+  /**
+   * Helper method to format database records
+   */
+  private static formatRecord(record: any): OperatorPrefix {
+    return {
+      id: record.id,
+      operatorId: record.operator_id,
+      operatorCode: record.operator_code,
+      operatorName: record.operator_name,
+      prefix: record.prefix,
+      createdAt: record.created_at,
+    };
+  }
+}
+
+// =================================================================
+// Ported Number Model Class
+// =================================================================
+
+export class PortedNumberModel {
+  private static readonly TABLE_NAME = 'ported_numbers';
+
+  /**
+   * Lists ported numbers, most recently changed first
+   * @param page - Page number, from 1
+   * @param limit - Records per page
+   */
+  static async findAll(
+    page: number,
+    limit: number
+  ): Promise<{ portedNumbers: PortedNumber[]; total: number }> {
+    const [{ count }] = await db(this.TABLE_NAME).count('* as count');
+    const rows = await this.baseQuery(db)
+      .orderBy('n.updated_at', 'desc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      portedNumbers: rows.map(row => this.formatRecord(row)),
+      total: Number(count),
+    };
+  }
+
+  /**
+   * Gets the override for a number
+   * @param phoneNumber - Local form, e.g. '08031234567'
+   * @param trx - Optional transaction
+   * @returns The ported number or null
+   */
+  static async findByPhone(
+    phoneNumber: string,
+    trx?: Knex.Transaction
+  ): Promise<PortedNumber | null> {
+    const row = await this.baseQuery(trx || db)
+      .where('n.phone_number', phoneNumber)
+      .first();
+    return row ? this.formatRecord(row) : null;
+  }
+
+  /**
+   * Creates or replaces the override for a number
+   * @param data - Ported number data
+   * @returns The saved ported number
+   */
+  static async upsert(data: UpsertPortedNumberInput): Promise<PortedNumber> {
+    await db(this.TABLE_NAME)
+      .insert({
+        phone_number: data.phoneNumber,
+        operator_id: data.operatorId,
+        note: data.note ?? null,
+        created_by: data.createdBy || null,
+      })
+      .onConflict('phone_number')
+      .merge({
+        operator_id: data.operatorId,
+        note: data.note ?? null,
+        updated_at: db.fn.now(),
+      });
+    return (await this.findByPhone(data.phoneNumber)) as PortedNumber;
+  }
+
+  /**
+   * Removes the override for a number
+   * @param phoneNumber - Local form
+   * @returns True if removed
+   */
+  static async delete(phoneNumber: string): Promise<boolean> {
+    const deleted = await db(this.TABLE_NAME)
+      .where({ phone_number: phoneNumber })
+      .del();
+    return deleted > 0;
+  }
+
+  private static baseQuery(connection: Knex | Knex.Transaction) {
+    return connection(`${this.TABLE_NAME} as n`)
+      .join('operators as o', 'o.id', 'n.operator_id')
+      .select('n.*', 'o.code as operator_code', 'o.name as operator_name');
+  }
+
+  /**
+   * Helper method to format database records
+   */
+  private static formatRecord(record: any): PortedNumber {
+    return {
+      id: record.id,
+      phoneNumber: record.phone_number,
+      ...formatMatch(record),
+      note: record.note,
+      createdBy: record.created_by,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    };
+  }
+}
+
+const formatMatch = (record: any): OperatorMatch => ({
+  operatorId: record.operator_id,
+  operatorCode: record.operator_code,
+  operatorName: record.operator_name,
+});
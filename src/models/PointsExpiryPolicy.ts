@@ -0,0 +1,107 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export interface PointsExpiryPolicy {
+  id: string;
+  reason: string;
+  expiryDays: number;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpsertPointsExpiryPolicyInput {
+  reason: string;
+  expiryDays: number;
+  isActive?: boolean;
+  createdBy?: string;
+}
+
+// =================================================================
+// Points Expiry Policy Model Class
+// =================================================================
+
+export class PointsExpiryPolicyModel {
+  private static readonly TABLE_NAME = 'points_expiry_policies';
+
+  /**
+   * Lists all policies
+   * @returns Policies ordered by reason
+   */
+  static async findAll(): Promise<PointsExpiryPolicy[]> {
+    const policies = await db(this.TABLE_NAME).orderBy('reason', 'asc');
+    return policies.map(p => this.formatRecord(p));
+  }
+
+  /**
+   * Finds the active policy for a reward reason
+   * @param reason - The reward reason
+   * @param trx - Optional transaction
+   * @returns The policy or null if points for the reason do not expire
+   */
+  static async findActiveByReason(
+    reason: string,
+    trx?: Knex.Transaction
+  ): Promise<PointsExpiryPolicy | null> {
+    const connection = trx || db;
+    const policy = await connection(this.TABLE_NAME)
+      .where({ reason, is_active: true })
+      .first();
+    return policy ? this.formatRecord(policy) : null;
+  }
+
+  /**
+   * Creates or replaces the policy for a reason
+   * @param data - Policy data
+   * @returns The saved policy
+   */
+  static async upsert(
+    data: UpsertPointsExpiryPolicyInput
+  ): Promise<PointsExpiryPolicy> {
+    const [policy] = await db(this.TABLE_NAME)
+      .insert({
+        reason: data.reason,
+        expiry_days: data.expiryDays,
+        is_active: data.isActive ?? true,
+        created_by: data.createdBy || null,
+      })
+      .onConflict('reason')
+      .merge({
+        expiry_days: data.expiryDays,
+        is_active: data.isActive ?? true,
+        updated_at: db.fn.now(),
+      })
+      .returning('*');
+    return this.formatRecord(policy);
+  }
+
+  /**
+   * Deletes the policy for a reason
+   * @param reason - The reward reason
+   * @returns True if a policy was deleted
+   */
+  static async delete(reason: string): Promise<boolean> {
+    const deleted = await db(this.TABLE_NAME).where({ reason }).del();
+    return deleted > 0;
+  }
+
+  /**
+   * Helper method to format database records
+   */
+  private static formatRecord(record: any): PointsExpiryPolicy {
+    return {
+      id: record.id,
+      reason: record.reason,
+      expiryDays: record.expiry_days,
+      isActive: record.is_active,
+      createdBy: record.created_by,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    };
+  }
+}
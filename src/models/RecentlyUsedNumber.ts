@@ -34,11 +34,13 @@ export class RecentlyUsedNumberModel {
       .first();
 
     if (existing) {
-      // Update existing entry: increment usage count and update last_used_at
+      // Update existing entry: increment usage count and update last_used_at.
+      // The operator code follows the latest purchase, as numbers get ported.
       await connection('recently_used_numbers')
         .where({ id: existing.id })
         .update({
           usage_count: existing.usage_count + 1,
+          operator_code: operatorCode || existing.operator_code,
           last_used_at: connection.fn.now(),
           updated_at: connection.fn.now(),
         });
@@ -5,6 +5,22 @@ import db from '../database/connection';
 // Interfaces
 // =================================================================
 
+export type ReferralFraudSignalType =
+  | 'shared_device'
+  | 'device_farm'
+  | 'shared_ip'
+  | 'ip_farm'
+  | 'phone_pattern'
+  | 'funding_source';
+
+export interface ReferralFraudSignal {
+  type: ReferralFraudSignalType;
+  detail: string;
+  weight: number;
+}
+
+export type ReferralReviewStatus = 'flagged' | 'approved' | 'rejected';
+
 export interface Referral {
   id: string;
   referrerUserId: string;
@@ -16,6 +32,12 @@ export interface Referral {
   referralCodeGeneratedAt: Date | null;
   referralCompletedAt: Date | null;
   metadata: Record<string, any> | null;
+  fraudScore: number;
+  fraudSignals: ReferralFraudSignal[];
+  reviewStatus: ReferralReviewStatus | null; // null if never flagged
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -258,6 +280,101 @@ export class ReferralModel {
     return referral ? this.formatRecord(referral) : null;
   }
 
+  /**
+   * Stores the fraud score of a referral. A referral that has been reviewed
+   * keeps its review status.
+   * @param id - The referral ID
+   * @param score - The fraud score
+   * @param signals - The signals behind the score
+   * @param flagged - Whether the score needs an admin review
+   * @param trx - Optional transaction
+   * @returns The updated referral or null
+   */
+  static async saveFraudAssessment(
+    id: string,
+    score: number,
+    signals: ReferralFraudSignal[],
+    flagged: boolean,
+    trx?: Knex.Transaction
+  ): Promise<Referral | null> {
+    const connection = trx || db;
+    const updateData: Record<string, any> = {
+      fraud_score: score,
+      fraud_signals: JSON.stringify(signals),
+      updated_at: connection.fn.now(),
+    };
+    if (flagged) {
+      updateData.review_status = connection.raw(
+        "COALESCE(review_status, 'flagged')"
+      );
+    }
+
+    const [referral] = await connection(this.TABLE_NAME)
+      .where({ id })
+      .update(updateData)
+      .returning('*');
+
+    return referral ? this.formatRecord(referral) : null;
+  }
+
+  /**
+   * Lists referrals by review status, oldest first
+   * @param reviewStatus - The review status
+   * @param page - Page number, from 1
+   * @param limit - Records per page
+   * @returns The page of referrals and the total
+   */
+  static async findByReviewStatus(
+    reviewStatus: ReferralReviewStatus,
+    page: number,
+    limit: number
+  ): Promise<{ referrals: Referral[]; total: number }> {
+    const [{ count }] = await db(this.TABLE_NAME)
+      .where({ review_status: reviewStatus })
+      .count('id as count');
+    const rows = await db(this.TABLE_NAME)
+      .where({ review_status: reviewStatus })
+      .orderBy('created_at', 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      referrals: rows.map(r => this.formatRecord(r)),
+      total: Number(count),
+    };
+  }
+
+  /**
+   * Records an admin's decision on a flagged referral
+   * @param id - The referral ID
+   * @param reviewStatus - 'approved' or 'rejected'
+   * @param reviewedBy - The admin user ID
+   * @param note - Optional note
+   * @param trx - Optional transaction
+   * @returns The updated referral or null if it was not flagged
+   */
+  static async review(
+    id: string,
+    reviewStatus: 'approved' | 'rejected',
+    reviewedBy: string | null,
+    note: string | null,
+    trx?: Knex.Transaction
+  ): Promise<Referral | null> {
+    const connection = trx || db;
+    const [referral] = await connection(this.TABLE_NAME)
+      .where({ id, review_status: 'flagged' })
+      .update({
+        review_status: reviewStatus,
+        reviewed_by: reviewedBy,
+        reviewed_at: connection.fn.now(),
+        review_note: note,
+        updated_at: connection.fn.now(),
+      })
+      .returning('*');
+
+    return referral ? this.formatRecord(referral) : null;
+  }
+
   /**
    * Gets completed referrals pending reward processing
    * @param limit - Max records to return
@@ -310,6 +427,14 @@ export class ReferralModel {
       referralCodeGeneratedAt: record.referral_code_generated_at,
       referralCompletedAt: record.referral_completed_at,
       metadata: record.metadata ? JSON.parse(record.metadata) : null,
+      fraudScore: Number(record.fraud_score || 0),
+      fraudSignals: record.fraud_signals
+        ? JSON.parse(record.fraud_signals)
+        : [],
+      reviewStatus: record.review_status || null,
+      reviewedBy: record.reviewed_by || null,
+      reviewedAt: record.reviewed_at || null,
+      reviewNote: record.review_note || null,
       createdAt: record.created_at,
       updatedAt: record.updated_at,
     };
@@ -0,0 +1,253 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export type ReferralCommissionLevelNumber = 1 | 2;
+
+export interface ReferralCommissionLevel {
+  id: string;
+  level: ReferralCommissionLevelNumber;
+  percentage: number; // Of the topup margin
+  durationMonths: number; // From when the referee signed up
+  capPerReferee: number | null; // null for no cap
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpsertReferralCommissionLevelInput {
+  level: ReferralCommissionLevelNumber;
+  percentage: number;
+  durationMonths: number;
+  capPerReferee?: number | null;
+  isActive?: boolean;
+  createdBy?: string;
+}
+
+export interface ReferralCommission {
+  id: string;
+  referrerUserId: string;
+  refereeUserId: string;
+  level: ReferralCommissionLevelNumber;
+  topupRequestId: string;
+  margin: number;
+  percentage: number;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface CreateReferralCommissionInput {
+  referrerUserId: string;
+  refereeUserId: string;
+  level: ReferralCommissionLevelNumber;
+  topupRequestId: string;
+  margin: number;
+  percentage: number;
+  amount: number;
+}
+
+// A referrer's earnings from one referee at one level
+export interface ReferralCommissionTotal {
+  refereeUserId: string;
+  refereeName: string | null;
+  level: ReferralCommissionLevelNumber;
+  referredAt: Date; // When the referee signed up through their referrer
+  topups: number;
+  earned: number;
+  lastEarnedAt: Date;
+}
+
+// =================================================================
+// Referral Commission Level Model Class
+// =================================================================
+
+export class ReferralCommissionLevelModel {
+  private static readonly TABLE_NAME = 'referral_commission_levels';
+
+  /**
+   * Lists all levels
+   * @returns Levels in order
+   */
+  static async findAll(): Promise<ReferralCommissionLevel[]> {
+    const levels = await db(this.TABLE_NAME).orderBy('level', 'asc');
+    return levels.map(l => this.formatRecord(l));
+  }
+
+  /**
+   * Lists the active levels
+   * @param trx - Optional transaction
+   * @returns Active levels in order
+   */
+  static async findActive(
+    trx?: Knex.Transaction
+  ): Promise<ReferralCommissionLevel[]> {
+    const connection = trx || db;
+    const levels = await connection(this.TABLE_NAME)
+      .where({ is_active: true })
+      .orderBy('level', 'asc');
+    return levels.map(l => this.formatRecord(l));
+  }
+
+  /**
+   * Creates or replaces the settings for a level
+   * @param data - Level settings
+   * @returns The saved level
+   */
+  static async upsert(
+    data: UpsertReferralCommissionLevelInput
+  ): Promise<ReferralCommissionLevel> {
+    const settings = {
+      percentage: data.percentage,
+      duration_months: data.durationMonths,
+      cap_per_referee: data.capPerReferee ?? null,
+      is_active: data.isActive ?? true,
+    };
+    const [level] = await db(this.TABLE_NAME)
+      .insert({
+        level: data.level,
+        ...settings,
+        created_by: data.createdBy || null,
+      })
+      .onConflict('level')
+      .merge({ ...settings, updated_at: db.fn.now() })
+      .returning('*');
+    return this.formatRecord(level);
+  }
+
+  /**
+   * Helper method to format database records
+   */
+  private static formatRecord(record: any): ReferralCommissionLevel {
+    return {
+      id: record.id,
+      level: record.level,
+      percentage: parseFloat(record.percentage),
+      durationMonths: record.duration_months,
+      capPerReferee:
+        record.cap_per_referee === null
+          ? null
+          : parseFloat(record.cap_per_referee),
+      isActive: record.is_active,
+      createdBy: record.created_by,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    };
+  }
+}
+
+// =================================================================
+// Referral Commission Model Class
+// =================================================================
+
+export class ReferralCommissionModel {
+  private static readonly TABLE_NAME = 'referral_commissions';
+
+  /**
+   * Records a commission. A topup pays each level once.
+   * @param data - Commission data
+   * @param trx - Transaction the commission is paid in
+   * @returns The commission, or null if this topup already paid the level
+   */
+  static async create(
+    data: CreateReferralCommissionInput,
+    trx: Knex.Transaction
+  ): Promise<ReferralCommission | null> {
+    const [commission] = await trx(this.TABLE_NAME)
+      .insert({
+        referrer_user_id: data.referrerUserId,
+        referee_user_id: data.refereeUserId,
+        level: data.level,
+        topup_request_id: data.topupRequestId,
+        margin: data.margin,
+        percentage: data.percentage,
+        amount: data.amount,
+      })
+      .onConflict(['topup_request_id', 'level'])
+      .ignore()
+      .returning('*');
+
+    return commission ? this.formatRecord(commission) : null;
+  }
+
+  /**
+   * Sums what a referrer has earned from a referee at a level
+   * @param referrerUserId - The referrer
+   * @param refereeUserId - The referee
+   * @param level - The commission level
+   * @param trx - Optional transaction
+   * @returns Total earned
+   */
+  static async getEarned(
+    referrerUserId: string,
+    refereeUserId: string,
+    level: ReferralCommissionLevelNumber,
+    trx?: Knex.Transaction
+  ): Promise<number> {
+    const connection = trx || db;
+    const row = await connection(this.TABLE_NAME)
+      .where({
+        referrer_user_id: referrerUserId,
+        referee_user_id: refereeUserId,
+        level,
+      })
+      .sum('amount as total')
+      .first();
+    return parseFloat(row?.total || '0');
+  }
+
+  /**
+   * Totals a referrer's commissions per referee and level
+   * @param referrerUserId - The referrer
+   * @returns Totals, most recently earned first
+   */
+  static async getTotalsByReferee(
+    referrerUserId: string
+  ): Promise<ReferralCommissionTotal[]> {
+    const rows = await db(`${this.TABLE_NAME} as c`)
+      .join('users as u', 'u.id', 'c.referee_user_id')
+      .join('referrals as r', 'r.referred_user_id', 'c.referee_user_id')
+      .where('c.referrer_user_id', referrerUserId)
+      .groupBy('c.referee_user_id', 'u.full_name', 'r.created_at', 'c.level')
+      .select(
+        'c.referee_user_id',
+        'u.full_name',
+        'r.created_at as referred_at',
+        'c.level'
+      )
+      .count('c.id as topups')
+      .sum('c.amount as earned')
+      .max('c.created_at as last_earned_at')
+      .orderBy('last_earned_at', 'desc');
+
+    return rows.map((row: any) => ({
+      refereeUserId: row.referee_user_id,
+      refereeName: row.full_name,
+      level: row.level,
+      referredAt: row.referred_at,
+      topups: Number(row.topups),
+      earned: parseFloat(row.earned),
+      lastEarnedAt: row.last_earned_at,
+    }));
+  }
+
+  /**
+   * Helper method to format database records
+   */
+  private static formatRecord(record: any): ReferralCommission {
+    return {
+      id: record.id,
+      referrerUserId: record.referrer_user_id,
+      refereeUserId: record.referee_user_id,
+      level: record.level,
+      topupRequestId: record.topup_request_id,
+      margin: parseFloat(record.margin),
+      percentage: parseFloat(record.percentage),
+      amount: parseFloat(record.amount),
+      createdAt: record.created_at,
+    };
+  }
+}
@@ -13,17 +13,27 @@ export interface Reward {
   earnedAt: Date;
   status: 'pending' | 'credited' | 'expired' | 'revoked';
   expiresAt: Date | null;
+  remainingPoints: number | null; // Unspent part of a grant; null on debits
+  holdReason: string | null; // Set while a pending reward awaits review
   metadata: Record<string, any> | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Unspent credited points that expire on one day
+export interface UpcomingPointsExpiry {
+  points: number;
+  expiresOn: string; // YYYY-MM-DD
+}
+
 export interface CreateRewardInput {
   userId: string;
   points: number;
   reason: string;
   expiresAt?: Date;
   metadata?: Record<string, any>;
+  status?: Reward['status']; // Defaults to pending
+  holdReason?: string;
 }
 
 // =================================================================
@@ -51,8 +61,10 @@ export class RewardModel {
         reason: data.reason,
         earned_at: connection.fn.now(),
         expires_at: data.expiresAt || null,
+        remaining_points: data.points > 0 ? data.points : null,
         metadata: data.metadata ? JSON.stringify(data.metadata) : null,
-        status: 'pending',
+        status: data.status || 'pending',
+        hold_reason: data.holdReason || null,
       })
       .returning('*');
 
@@ -182,6 +194,25 @@ export class RewardModel {
     return this.updateStatus(id, 'credited', trx);
   }
 
+  /**
+   * Releases a held reward so it can be credited like any pending reward
+   * @param id - The reward ID
+   * @param trx - Optional transaction
+   * @returns The updated reward
+   */
+  static async releaseHold(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<Reward | null> {
+    const connection = trx || db;
+    const [reward] = await connection(this.TABLE_NAME)
+      .where({ id })
+      .update({ hold_reason: null, updated_at: connection.fn.now() })
+      .returning('*');
+
+    return reward ? this.formatRecord(reward) : null;
+  }
+
   /**
    * Revokes a reward
    * @param id - The reward ID
@@ -218,10 +249,169 @@ export class RewardModel {
       .where({ status: 'pending' })
       .update({
         status: 'expired',
+        remaining_points: 0,
         updated_at: db.fn.now(),
       });
   }
 
+  /**
+   * Takes spent points off a user's credited grants, oldest first
+   * @param userId - The user ID
+   * @param points - Number of points spent
+   * @param trx - Transaction the points are spent in
+   */
+  static async consumePoints(
+    userId: string,
+    points: number,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const grants = await trx(this.TABLE_NAME)
+      .select('id', 'remaining_points')
+      .where({ user_id: userId, status: 'credited' })
+      .where('remaining_points', '>', 0)
+      .orderBy([{ column: 'earned_at' }, { column: 'created_at' }])
+      .forUpdate();
+
+    let left = points;
+    for (const grant of grants) {
+      if (left <= 0) {
+        break;
+      }
+      const taken = Math.min(grant.remaining_points, left);
+      await trx(this.TABLE_NAME)
+        .where({ id: grant.id })
+        .update({
+          remaining_points: grant.remaining_points - taken,
+          updated_at: trx.fn.now(),
+        });
+      left -= taken;
+    }
+  }
+
+  /**
+   * Gets credited grants past their expiry that still have unspent points,
+   * oldest first
+   * @param limit - Max records to return
+   * @returns Array of rewards
+   */
+  static async findExpiredUnspent(limit: number = 500): Promise<Reward[]> {
+    const rewards = await db(this.TABLE_NAME)
+      .where({ status: 'credited' })
+      .where('remaining_points', '>', 0)
+      .where('expires_at', '<', db.fn.now())
+      .orderBy([{ column: 'earned_at' }, { column: 'created_at' }])
+      .limit(limit);
+    return rewards.map(r => this.formatRecord(r));
+  }
+
+  /**
+   * Expires what is left of a credited grant. A grant that was partly spent
+   * is split: the spent points stay credited and the rest moves to a new
+   * expired reward.
+   * @param id - The reward ID
+   * @param trx - Transaction the user's balance is reduced in
+   * @returns Number of points expired
+   */
+  static async expireRemaining(
+    id: string,
+    trx: Knex.Transaction
+  ): Promise<number> {
+    const reward = await trx(this.TABLE_NAME)
+      .where({ id, status: 'credited' })
+      .where('remaining_points', '>', 0)
+      .forUpdate()
+      .first();
+    if (!reward) {
+      return 0;
+    }
+
+    const remaining = reward.remaining_points;
+    if (remaining >= reward.points) {
+      await trx(this.TABLE_NAME).where({ id }).update({
+        status: 'expired',
+        remaining_points: 0,
+        updated_at: trx.fn.now(),
+      });
+      return remaining;
+    }
+
+    await trx(this.TABLE_NAME)
+      .where({ id })
+      .update({
+        points: reward.points - remaining,
+        remaining_points: 0,
+        updated_at: trx.fn.now(),
+      });
+    await trx(this.TABLE_NAME).insert({
+      user_id: reward.user_id,
+      points: remaining,
+      reason: reward.reason,
+      earned_at: reward.earned_at,
+      expires_at: reward.expires_at,
+      remaining_points: 0,
+      status: 'expired',
+      metadata: JSON.stringify({ splitFrom: reward.id }),
+    });
+    return remaining;
+  }
+
+  /**
+   * Claims credited grants with unspent points expiring before a date whose
+   * owners have not been warned yet, marking them warned in the same
+   * statement. Rows another instance is claiming are skipped, so each grant
+   * is handed out once.
+   * @param before - End of the warning window
+   * @returns The claimed rewards, soonest expiry first
+   */
+  static async claimExpiryWarnings(before: Date): Promise<Reward[]> {
+    const due = db(this.TABLE_NAME)
+      .select('id')
+      .where({ status: 'credited' })
+      .where('remaining_points', '>', 0)
+      .where('expires_at', '>=', db.fn.now())
+      .where('expires_at', '<', before)
+      .whereNull('expiry_warned_at')
+      .forUpdate()
+      .skipLocked();
+
+    const rewards = await db(this.TABLE_NAME)
+      .whereIn('id', due)
+      .whereNull('expiry_warned_at')
+      .update({ expiry_warned_at: db.fn.now() })
+      .returning('*');
+    return rewards
+      .map(r => this.formatRecord(r))
+      .sort(
+        (a, b) =>
+          new Date(a.expiresAt as Date).getTime() -
+          new Date(b.expiresAt as Date).getTime()
+      );
+  }
+
+  /**
+   * Gets a user's unspent credited points that are due to expire, summed
+   * per day
+   * @param userId - The user ID
+   * @returns Upcoming expiries, soonest first
+   */
+  static async getUpcomingExpiries(
+    userId: string
+  ): Promise<UpcomingPointsExpiry[]> {
+    const rows: any[] = await db(this.TABLE_NAME)
+      .select(db.raw("to_char(expires_at, 'YYYY-MM-DD') as expires_on"))
+      .sum('remaining_points as points')
+      .where({ user_id: userId, status: 'credited' })
+      .where('remaining_points', '>', 0)
+      .where('expires_at', '>=', db.fn.now())
+      .groupByRaw("to_char(expires_at, 'YYYY-MM-DD')")
+      .orderBy('expires_on', 'asc');
+
+    return rows.map(row => ({
+      points: Number(row.points),
+      expiresOn: row.expires_on,
+    }));
+  }
+
   /**
    * Gets rewards summary for a user
    * @param userId - The user ID
@@ -264,6 +454,8 @@ export class RewardModel {
       earnedAt: record.earned_at,
       status: record.status,
       expiresAt: record.expires_at,
+      remainingPoints: record.remaining_points ?? null,
+      holdReason: record.hold_reason ?? null,
       metadata: record.metadata ? JSON.parse(record.metadata) : null,
       createdAt: record.created_at,
       updatedAt: record.updated_at,
@@ -0,0 +1,287 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  CreateRewardRedemptionData,
+  RewardCatalogueItem,
+  RewardCatalogueItemInput,
+  RewardRedemption,
+  RewardRedemptionUsage,
+} from '../types/rewardRedemption.types';
+
+const toNumber = (value: any) =>
+  value === null || value === undefined ? null : parseFloat(value);
+
+// =================================================================
+// Reward Catalogue Model Class
+// =================================================================
+
+export class RewardCatalogueModel {
+  private static readonly TABLE_NAME = 'reward_catalogue_items';
+
+  /**
+   * Creates a catalogue item
+   * @param data - The item
+   * @returns The created item
+   */
+  static async create(
+    data: RewardCatalogueItemInput
+  ): Promise<RewardCatalogueItem> {
+    const [row] = await db(this.TABLE_NAME)
+      .insert(this.toRow(data))
+      .returning('*');
+    return this.formatItem(row);
+  }
+
+  /**
+   * Updates a catalogue item
+   * @param id - The item ID
+   * @param data - The fields to change
+   * @returns The updated item or null if not found
+   */
+  static async update(
+    id: string,
+    data: RewardCatalogueItemInput
+  ): Promise<RewardCatalogueItem | null> {
+    const [row] = await db(this.TABLE_NAME)
+      .where({ id })
+      .update({ ...this.toRow(data), updated_at: db.fn.now() })
+      .returning('*');
+    return row ? this.formatItem(row) : null;
+  }
+
+  /**
+   * Retrieves a catalogue item with its product
+   * @param id - The item ID
+   * @param trx - Optional transaction
+   */
+  static async findById(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<RewardCatalogueItem | null> {
+    const row = await this.itemQuery(trx).where('i.id', id).first();
+    return row ? this.formatItem(row) : null;
+  }
+
+  /**
+   * Lists catalogue items, cheapest first within each type
+   * @param activeOnly - Leave out items that have been switched off
+   */
+  static async findAll(activeOnly: boolean): Promise<RewardCatalogueItem[]> {
+    const query = this.itemQuery().orderBy([
+      { column: 'i.type' },
+      { column: 'i.points_cost' },
+      { column: 'i.created_at' },
+    ]);
+    if (activeOnly) {
+      query.where('i.is_active', true);
+    }
+    const rows = await query;
+    return rows.map(row => this.formatItem(row));
+  }
+
+  private static itemQuery(trx?: Knex.Transaction) {
+    const connection = trx || db;
+    return connection(`${this.TABLE_NAME} as i`)
+      .leftJoin('operator_products as op', 'i.operator_product_id', 'op.id')
+      .select(
+        'i.*',
+        'op.product_code',
+        'op.name as product_name',
+        'op.denom_amount'
+      );
+  }
+
+  private static toRow(data: RewardCatalogueItemInput) {
+    const columns: Record<keyof RewardCatalogueItemInput, string> = {
+      name: 'name',
+      description: 'description',
+      type: 'type',
+      conversionRate: 'conversion_rate',
+      minPoints: 'min_points',
+      pointsCost: 'points_cost',
+      operatorProductId: 'operator_product_id',
+      perUserLimit: 'per_user_limit',
+      maxPointsPerUser: 'max_points_per_user',
+      capWindowDays: 'cap_window_days',
+      isActive: 'is_active',
+      createdBy: 'created_by',
+    };
+    const row: Record<string, any> = {};
+    (Object.keys(columns) as Array<keyof RewardCatalogueItemInput>).forEach(
+      key => {
+        if (data[key] !== undefined) {
+          row[columns[key]] = data[key];
+        }
+      }
+    );
+    return row;
+  }
+
+  private static formatItem(row: any): RewardCatalogueItem {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      conversionRate: toNumber(row.conversion_rate),
+      minPoints: row.min_points,
+      pointsCost: row.points_cost,
+      operatorProductId: row.operator_product_id,
+      productCode: row.product_code,
+      productName: row.product_name,
+      denomAmount: toNumber(row.denom_amount),
+      perUserLimit: row.per_user_limit,
+      maxPointsPerUser: row.max_points_per_user,
+      capWindowDays: row.cap_window_days,
+      isActive: row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// =================================================================
+// Reward Redemption Model Class
+// =================================================================
+
+export class RewardRedemptionModel {
+  private static readonly TABLE_NAME = 'reward_redemptions';
+
+  /**
+   * Records a redemption
+   * @param data - The redemption
+   * @param trx - Transaction the points are spent in
+   * @returns The created redemption
+   */
+  static async create(
+    data: CreateRewardRedemptionData,
+    trx: Knex.Transaction
+  ): Promise<RewardRedemption> {
+    const [row] = await trx(this.TABLE_NAME)
+      .insert({
+        user_id: data.userId,
+        item_id: data.itemId,
+        type: data.type,
+        points: data.points,
+        value: data.value,
+        status: data.status,
+        recipient_phone: data.recipientPhone || null,
+        topup_request_id: data.topupRequestId || null,
+      })
+      .returning('*');
+    return this.formatRedemption(row);
+  }
+
+  /**
+   * Counts a user's completed redemptions of an item and the points spent
+   * on them
+   * @param itemId - The catalogue item
+   * @param userId - The user
+   * @param since - Start of the cap window, or null for all time
+   * @param trx - Optional transaction
+   */
+  static async getUsage(
+    itemId: string,
+    userId: string,
+    since: Date | null,
+    trx?: Knex.Transaction
+  ): Promise<RewardRedemptionUsage> {
+    const connection = trx || db;
+    const query = connection(this.TABLE_NAME)
+      .where({ item_id: itemId, user_id: userId, status: 'completed' })
+      .count('* as count')
+      .sum('points as points');
+    if (since) {
+      query.where('created_at', '>=', since);
+    }
+    const row: any = await query.first();
+    return {
+      count: Number(row?.count || 0),
+      points: Number(row?.points || 0),
+    };
+  }
+
+  /**
+   * Retrieves and locks the redemption that bought a topup request
+   * @param topupRequestId - The topup request
+   * @param trx - Transaction the topup is reversed in
+   * @returns The redemption, or null if the topup was not bought with points
+   */
+  static async findByTopupRequest(
+    topupRequestId: string,
+    trx: Knex.Transaction
+  ): Promise<RewardRedemption | null> {
+    const row = await trx(this.TABLE_NAME)
+      .where({ topup_request_id: topupRequestId })
+      .forUpdate()
+      .first();
+    return row ? this.formatRedemption(row) : null;
+  }
+
+  /**
+   * Marks a redemption failed
+   * @param id - The redemption ID
+   * @param reason - Why it failed
+   * @param trx - Transaction the points are returned in
+   */
+  static async markFailed(
+    id: string,
+    reason: string,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    await trx(this.TABLE_NAME).where({ id }).update({
+      status: 'failed',
+      failure_reason: reason,
+      updated_at: trx.fn.now(),
+    });
+  }
+
+  /**
+   * Lists a user's redemptions, newest first
+   * @param userId - The user
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  static async findByUser(
+    userId: string,
+    page: number,
+    limit: number
+  ): Promise<{ redemptions: RewardRedemption[]; total: number }> {
+    const [{ count }] = await db(this.TABLE_NAME)
+      .where({ user_id: userId })
+      .count('id as count');
+    const rows = await db(`${this.TABLE_NAME} as r`)
+      .join('reward_catalogue_items as i', 'r.item_id', 'i.id')
+      .select('r.*', 'i.name as item_name')
+      .where('r.user_id', userId)
+      .orderBy('r.created_at', 'desc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      redemptions: rows.map(row => this.formatRedemption(row)),
+      total: Number(count),
+    };
+  }
+
+  private static formatRedemption(row: any): RewardRedemption {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      itemId: row.item_id,
+      itemName: row.item_name,
+      type: row.type,
+      points: row.points,
+      value: parseFloat(row.value),
+      status: row.status,
+      recipientPhone: row.recipient_phone,
+      topupRequestId: row.topup_request_id,
+      failureReason: row.failure_reason,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export default RewardRedemptionModel;
@@ -50,6 +50,24 @@ export class SettlementModel {
     };
   }
 
+  /**
+   * Narrows a settlements query to the list filters. Exports share it so
+   * they match what the list shows.
+   * @param query A query on the settlements table
+   * @param filters The filters to apply
+   * @returns The same query
+   */
+  static applyFilters(
+    query: Knex.QueryBuilder,
+    filters: SettlementFilters
+  ): Knex.QueryBuilder {
+    const { providerId, dateFrom, dateTo } = filters;
+    if (providerId) query.where('provider_id', providerId);
+    if (dateFrom) query.where('settlement_date', '>=', dateFrom);
+    if (dateTo) query.where('settlement_date', '<=', dateTo);
+    return query;
+  }
+
   /**
    * Retrieves all settlements with optional filters
    * @param filters Optional filters for querying settlements
@@ -60,7 +78,6 @@ export class SettlementModel {
     filters: SettlementFilters = {},
     trx?: Knex.Transaction
   ): Promise<Settlement[]> {
-    const { providerId, dateFrom, dateTo } = filters;
     const connection = trx || db;
 
     const query = connection('settlements')
@@ -76,9 +93,7 @@ export class SettlementModel {
       )
       .orderBy('created_at', 'desc');
 
-    if (providerId) query.where('provider_id', providerId);
-    if (dateFrom) query.where('settlement_date', '>=', dateFrom);
-    if (dateTo) query.where('settlement_date', '<=', dateTo);
+    this.applyFilters(query, filters);
 
     const results = await query;
 
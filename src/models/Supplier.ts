@@ -35,6 +35,34 @@ export class SupplierModel {
     return result || null;
   }
 
+  /**
+   * Retrieves a supplier by its slug
+   * @param slug The supplier slug, e.g. `mock`
+   * @param trx Optional Knex transaction
+   * @returns The supplier object or null if not found
+   */
+  static async findBySlug(
+    slug: string,
+    trx?: Knex.Transaction
+  ): Promise<Supplier | null> {
+    const connection = trx || db;
+    const result = await connection('suppliers')
+      .select(
+        'id',
+        'name',
+        'slug',
+        'api_base as apiBase',
+        'api_key as apiKey',
+        'priority_int as priorityInt',
+        'is_active as isActive',
+        'created_at as createdAt'
+      )
+      .where({ slug })
+      .first();
+
+    return result || null;
+  }
+
   /**
    * Retrieves all suppliers
    * @param trx Optional Knex transaction
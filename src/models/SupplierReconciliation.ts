@@ -0,0 +1,431 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  CreateReconciliationItemData,
+  ReconcilableTopup,
+  ReconciliationFilters,
+  ReconciliationFormat,
+  ReconciliationItem,
+  ReconciliationItemFilters,
+  ReconciliationResolution,
+  ReconciliationSummary,
+  SupplierReconciliation,
+} from '../types/reconciliation.types';
+
+const INSERT_CHUNK_SIZE = 500;
+const LOOKUP_CHUNK_SIZE = 1000;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Topup states in which the supplier delivered and is owed the cost
+export const SETTLED_TOPUP_STATUSES = ['success', 'completed'];
+
+export class SupplierReconciliationModel {
+  /**
+   * Creates a reconciliation record
+   * @param data The reconciliation details and its summary
+   * @param trx Knex transaction the reconciliation is stored in
+   * @returns The created reconciliation
+   */
+  static async create(
+    data: {
+      supplierId: string;
+      periodStart: Date;
+      periodEnd: Date;
+      fileName?: string;
+      format: ReconciliationFormat;
+      summary: ReconciliationSummary;
+      createdBy?: string;
+    },
+    trx: Knex.Transaction
+  ): Promise<SupplierReconciliation> {
+    const [row] = await trx('supplier_reconciliations')
+      .insert({
+        supplier_id: data.supplierId,
+        period_start: data.periodStart,
+        period_end: data.periodEnd,
+        file_name: data.fileName || null,
+        format: data.format,
+        summary: JSON.stringify(data.summary),
+        created_by: data.createdBy || null,
+      })
+      .returning('*');
+    return this.formatReconciliation(row);
+  }
+
+  /**
+   * Stores the items of a reconciliation
+   * @param reconciliationId The reconciliation the items belong to
+   * @param items The items
+   * @param trx Knex transaction the reconciliation is stored in
+   */
+  static async insertItems(
+    reconciliationId: string,
+    items: CreateReconciliationItemData[],
+    trx: Knex.Transaction
+  ): Promise<void> {
+    for (let i = 0; i < items.length; i += INSERT_CHUNK_SIZE) {
+      await trx('supplier_reconciliation_items').insert(
+        items.slice(i, i + INSERT_CHUNK_SIZE).map(item => ({
+          reconciliation_id: reconciliationId,
+          topup_request_id: item.topupRequestId || null,
+          reference: item.reference || null,
+          line_number: item.lineNumber ?? null,
+          category: item.category,
+          our_amount: item.ourAmount ?? null,
+          their_amount: item.theirAmount ?? null,
+          our_status: item.ourStatus || null,
+          their_status: item.theirStatus || null,
+          raw: item.raw ? JSON.stringify(item.raw) : null,
+        }))
+      );
+    }
+  }
+
+  /**
+   * Finds a supplier's topups whose ID (the reference the supplier was sent),
+   * external ID or idempotency key is one of the given references. A topup
+   * belongs to every supplier it was sent to, as recorded in
+   * `topup_responses`; to a supplier it failed over from it is a failed
+   * attempt that owes nothing.
+   * @param supplierId The supplier
+   * @param references References from the supplier's report
+   * @returns The matching topups
+   */
+  static async findTopupsByReferences(
+    supplierId: string,
+    references: string[]
+  ): Promise<ReconcilableTopup[]> {
+    const topups: ReconcilableTopup[] = [];
+
+    for (let i = 0; i < references.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = references.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const uuids = chunk.filter(reference => UUID_PATTERN.test(reference));
+
+      const rows = await this.topupQuery()
+        .select(
+          db.raw('tr.supplier_id IS NOT DISTINCT FROM ? as current_supplier', [
+            supplierId,
+          ])
+        )
+        .where(query => {
+          query
+            .where('tr.supplier_id', supplierId)
+            .orWhereExists(
+              db('topup_responses as r')
+                .select(db.raw('1'))
+                .whereRaw('r.topup_request_id = tr.id')
+                .where('r.supplier_id', supplierId)
+            );
+        })
+        .andWhere(query => {
+          query.whereIn('tr.idempotency_key', chunk);
+          if (uuids.length > 0) {
+            query.orWhereIn('tr.id', uuids).orWhereIn('tr.external_id', uuids);
+          }
+        });
+      topups.push(
+        ...rows.map(row =>
+          row.current_supplier
+            ? this.formatTopup(row)
+            : { ...this.formatTopup(row), supplierPayable: 0, status: 'failed' }
+        )
+      );
+    }
+
+    return topups;
+  }
+
+  /**
+   * Retrieves a supplier's successful topups created within a period
+   * @param supplierId The supplier
+   * @param periodStart Start of the period
+   * @param periodEnd End of the period (inclusive)
+   */
+  static async findSettledTopups(
+    supplierId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<ReconcilableTopup[]> {
+    const rows = await this.topupQuery()
+      .where('tr.supplier_id', supplierId)
+      .whereIn('tr.status', SETTLED_TOPUP_STATUSES)
+      .whereBetween('tr.created_at', [periodStart, periodEnd])
+      .orderBy('tr.created_at', 'asc');
+
+    return rows.map(row => this.formatTopup(row));
+  }
+
+  /**
+   * Retrieves a reconciliation with its supplier and count of open items
+   * @param id The reconciliation ID
+   * @param trx Optional Knex transaction
+   * @returns The reconciliation or null if not found
+   */
+  static async findById(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<SupplierReconciliation | null> {
+    const connection = trx || db;
+    const row = await connection('supplier_reconciliations as r')
+      .leftJoin('suppliers as s', 'r.supplier_id', 's.id')
+      .select('r.*', 's.name as supplier_name')
+      .select(
+        connection.raw(
+          `(SELECT COUNT(*) FROM supplier_reconciliation_items i
+            WHERE i.reconciliation_id = r.id
+              AND i.category <> 'matched'
+              AND i.resolution IS NULL)::int as open_items`
+        )
+      )
+      .where('r.id', id)
+      .first();
+
+    return row ? this.formatReconciliation(row) : null;
+  }
+
+  /**
+   * Lists reconciliations, newest period first
+   * @param filters Optional supplier and status filters
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  static async findAll(
+    filters: ReconciliationFilters,
+    page: number,
+    limit: number
+  ): Promise<{ reconciliations: SupplierReconciliation[]; total: number }> {
+    const baseQuery = db('supplier_reconciliations as r');
+    if (filters.supplierId) {
+      baseQuery.where('r.supplier_id', filters.supplierId);
+    }
+    if (filters.status) {
+      baseQuery.where('r.status', filters.status);
+    }
+
+    const [{ count }] = await baseQuery.clone().count('r.id as count');
+    const rows = await baseQuery
+      .clone()
+      .leftJoin('suppliers as s', 'r.supplier_id', 's.id')
+      .select('r.*', 's.name as supplier_name')
+      .orderBy([
+        { column: 'r.period_start', order: 'desc' },
+        { column: 'r.created_at', order: 'desc' },
+      ])
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      reconciliations: rows.map(row => this.formatReconciliation(row)),
+      total: Number(count),
+    };
+  }
+
+  /**
+   * Lists the items of a reconciliation in report order; items missing from
+   * the report come last
+   * @param reconciliationId The reconciliation ID
+   * @param filters Optional category and open-only filters
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  static async findItems(
+    reconciliationId: string,
+    filters: ReconciliationItemFilters,
+    page: number,
+    limit: number
+  ): Promise<{ items: ReconciliationItem[]; total: number }> {
+    const baseQuery = db('supplier_reconciliation_items').where({
+      reconciliation_id: reconciliationId,
+    });
+    if (filters.category) {
+      baseQuery.where({ category: filters.category });
+    }
+    if (filters.openOnly) {
+      baseQuery.whereNot({ category: 'matched' }).whereNull('resolution');
+    }
+
+    const [{ count }] = await baseQuery.clone().count('id as count');
+    const rows = await baseQuery
+      .clone()
+      .select('*')
+      .orderByRaw('line_number ASC NULLS LAST, created_at ASC')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      items: rows.map(row => this.formatItem(row)),
+      total: Number(count),
+    };
+  }
+
+  /**
+   * Records how an unresolved difference was settled
+   * @param reconciliationId The reconciliation ID
+   * @param itemId The item ID
+   * @param resolution How it was resolved
+   * @param note Free-text explanation
+   * @param resolvedBy The admin resolving it
+   * @param trx Knex transaction the reconciliation is locked in
+   * @returns The updated item or null if it is not an open difference
+   */
+  static async resolveItem(
+    reconciliationId: string,
+    itemId: string,
+    resolution: ReconciliationResolution,
+    note: string | undefined,
+    resolvedBy: string | undefined,
+    trx: Knex.Transaction
+  ): Promise<ReconciliationItem | null> {
+    const [row] = await trx('supplier_reconciliation_items')
+      .where({ id: itemId, reconciliation_id: reconciliationId })
+      .whereNot({ category: 'matched' })
+      .whereNull('resolution')
+      .update({
+        resolution,
+        resolution_note: note || null,
+        resolved_by: resolvedBy || null,
+        resolved_at: trx.fn.now(),
+      })
+      .returning('*');
+    return row ? this.formatItem(row) : null;
+  }
+
+  /**
+   * Retrieves a single item of a reconciliation
+   * @param reconciliationId The reconciliation ID
+   * @param itemId The item ID
+   * @param trx Optional Knex transaction
+   */
+  static async findItem(
+    reconciliationId: string,
+    itemId: string,
+    trx?: Knex.Transaction
+  ): Promise<ReconciliationItem | null> {
+    const connection = trx || db;
+    const row = await connection('supplier_reconciliation_items')
+      .where({ id: itemId, reconciliation_id: reconciliationId })
+      .first();
+    return row ? this.formatItem(row) : null;
+  }
+
+  /**
+   * Locks a reconciliation row for the rest of the transaction
+   * @param id The reconciliation ID
+   * @param trx Knex transaction
+   * @returns The reconciliation status or null if not found
+   */
+  static async lock(
+    id: string,
+    trx: Knex.Transaction
+  ): Promise<{ status: string } | null> {
+    const row = await trx('supplier_reconciliations')
+      .select('status')
+      .where({ id })
+      .forUpdate()
+      .first();
+    return row || null;
+  }
+
+  /**
+   * Marks a reconciliation closed
+   * @param id The reconciliation ID
+   * @param closedBy The admin closing it
+   * @param trx Knex transaction the reconciliation is locked in
+   */
+  static async close(
+    id: string,
+    closedBy: string | undefined,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    await trx('supplier_reconciliations')
+      .where({ id })
+      .update({
+        status: 'closed',
+        closed_by: closedBy || null,
+        closed_at: trx.fn.now(),
+        updated_at: trx.fn.now(),
+      });
+  }
+
+  // Topups with the price their supplier mapping charges us
+  // What the supplier is owed is what the purchase posted to the supplier
+  // payable, not the mapping's price today
+  private static topupQuery() {
+    return db('topup_requests as tr').select(
+      'tr.id',
+      'tr.external_id',
+      'tr.idempotency_key',
+      'tr.amount',
+      'tr.status',
+      db.raw(
+        `(SELECT SUM(le.amount)
+          FROM ledger_journals lj
+          JOIN ledger_entries le ON le.journal_id = lj.id
+          JOIN ledger_accounts la ON la.id = le.account_id
+          WHERE lj.reference_type = 'topup_request'
+            AND lj.reference_id = tr.id::text
+            AND la.type = 'supplier_payable'
+            AND le.direction = 'credit') as supplier_payable`
+      )
+    );
+  }
+
+  private static formatTopup(row: any): ReconcilableTopup {
+    return {
+      id: row.id,
+      externalId: row.external_id,
+      idempotencyKey: row.idempotency_key,
+      amount: parseFloat(row.amount),
+      supplierPayable:
+        row.supplier_payable === null || row.supplier_payable === undefined
+          ? null
+          : parseFloat(row.supplier_payable),
+      status: row.status,
+    };
+  }
+
+  private static formatReconciliation(row: any): SupplierReconciliation {
+    return {
+      id: row.id,
+      supplierId: row.supplier_id,
+      supplierName: row.supplier_name,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      fileName: row.file_name,
+      format: row.format,
+      status: row.status,
+      summary: row.summary,
+      openItems: row.open_items === undefined ? undefined : row.open_items,
+      createdBy: row.created_by,
+      closedBy: row.closed_by,
+      closedAt: row.closed_at,
+      createdAt: row.created_at,
+    };
+  }
+
+  private static formatItem(row: any): ReconciliationItem {
+    const toNumber = (value: any) =>
+      value === null || value === undefined ? null : parseFloat(value);
+    return {
+      id: row.id,
+      reconciliationId: row.reconciliation_id,
+      topupRequestId: row.topup_request_id,
+      reference: row.reference,
+      lineNumber: row.line_number,
+      category: row.category,
+      ourAmount: toNumber(row.our_amount),
+      theirAmount: toNumber(row.their_amount),
+      ourStatus: row.our_status,
+      theirStatus: row.their_status,
+      raw: row.raw,
+      resolution: row.resolution,
+      resolutionNote: row.resolution_note,
+      resolvedBy: row.resolved_by,
+      resolvedAt: row.resolved_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export default SupplierReconciliationModel;
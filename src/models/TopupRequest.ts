@@ -2,16 +2,24 @@
 import { Knex } from 'knex';
 import db from '../database/connection';
 import {
+  CreateTopupResponseData,
+  DispatchableTopupRequest,
   TopupRequest,
   TopupRequestFilters,
   TopupRequestQueryResult,
+  TopupRequestStatus,
   TopupRequestWithResponses,
+  TopupRouteHop,
 } from '../types/topup.types';
 
 // Type for the raw topup request object fetched from the database, where amount and cost are strings
-type RawTopupRequestFromDB = Omit<TopupRequest, 'amount' | 'cost'> & {
+type RawTopupRequestFromDB = Omit<
+  TopupRequest,
+  'amount' | 'cost' | 'discountAmount'
+> & {
   amount: string;
   cost?: string;
+  discountAmount?: string;
 };
 
 export class TopupRequestModel {
@@ -38,6 +46,8 @@ export class TopupRequestModel {
         'supplier_mapping_id as supplierMappingId',
         'amount',
         'cost',
+        'offer_id as offerId',
+        'discount_amount as discountAmount',
         'type',
         'status',
         'attempt_count as attemptCount',
@@ -72,6 +82,7 @@ export class TopupRequestModel {
       ...request,
       amount: parseFloat(request.amount),
       cost: request.cost ? parseFloat(request.cost) : undefined,
+      discountAmount: parseFloat(request.discountAmount || '0'),
       responses: responses.map(response => ({
         ...response,
         responsePayload: response.responsePayload,
@@ -79,6 +90,25 @@ export class TopupRequestModel {
     };
   }
 
+  /**
+   * Narrows a topup requests query to the list filters. Exports share it
+   * so they match what the list shows.
+   * @param query A query on the topup_requests table
+   * @param filters The filters to apply; paging is ignored
+   * @returns The same query
+   */
+  static applyFilters(
+    query: Knex.QueryBuilder,
+    filters: TopupRequestFilters
+  ): Knex.QueryBuilder {
+    const { status, userId, dateFrom, dateTo } = filters;
+    if (status) query.where('status', status);
+    if (userId) query.where('user_id', userId);
+    if (dateFrom) query.where('created_at', '>=', dateFrom);
+    if (dateTo) query.where('created_at', '<=', dateTo);
+    return query;
+  }
+
   /**
    * Retrieves all topup requests with optional filters and pagination
    * @param filters Optional filters for querying topup requests
@@ -89,7 +119,7 @@ export class TopupRequestModel {
     filters: TopupRequestFilters = {},
     trx?: Knex.Transaction
   ): Promise<TopupRequestQueryResult> {
-    const { status, userId, dateFrom, dateTo, page = 1, limit = 10 } = filters;
+    const { page = 1, limit = 10 } = filters;
     const connection = trx || db;
 
     const offset = (page - 1) * limit;
@@ -98,10 +128,7 @@ export class TopupRequestModel {
     const countQuery = (
       trx ? trx('topup_requests') : db('topup_requests')
     ).count('* as count');
-    if (status) countQuery.where('status', status);
-    if (userId) countQuery.where('user_id', userId);
-    if (dateFrom) countQuery.where('created_at', '>=', dateFrom);
-    if (dateTo) countQuery.where('created_at', '<=', dateTo);
+    this.applyFilters(countQuery, filters);
 
     const countResult = await countQuery.first();
     const total = parseInt(String(countResult?.count || '0'), 10);
@@ -119,6 +146,8 @@ export class TopupRequestModel {
         'supplier_mapping_id as supplierMappingId',
         'amount',
         'cost',
+        'offer_id as offerId',
+        'discount_amount as discountAmount',
         'type',
         'status',
         'attempt_count as attemptCount',
@@ -128,12 +157,7 @@ export class TopupRequestModel {
         'updated_at as updatedAt'
       )
       .orderBy('created_at', 'desc') // Most recent first
-      .modify(query => {
-        if (status) query.where('status', status);
-        if (userId) query.where('user_id', userId);
-        if (dateFrom) query.where('created_at', '>=', dateFrom);
-        if (dateTo) query.where('created_at', '<=', dateTo);
-      })
+      .modify(query => this.applyFilters(query, filters))
       .limit(limit)
       .offset(offset);
 
@@ -159,6 +183,7 @@ export class TopupRequestModel {
           ...request,
           amount: parseFloat(request.amount),
           cost: request.cost ? parseFloat(request.cost) : undefined,
+          discountAmount: parseFloat(request.discountAmount || '0'),
           responses: responses.map(response => ({
             ...response,
             responsePayload: response.responsePayload,
@@ -206,6 +231,8 @@ export class TopupRequestModel {
         supplier_mapping_id: requestData.supplierMappingId,
         amount: requestData.amount,
         cost: requestData.cost,
+        offer_id: requestData.offerId || null,
+        discount_amount: requestData.discountAmount || 0,
         type: requestData.type,
         status: requestData.status,
         attempt_count: requestData.attemptCount,
@@ -225,6 +252,8 @@ export class TopupRequestModel {
       supplierMappingId: result.supplier_mapping_id,
       amount: parseFloat(result.amount),
       cost: result.cost ? parseFloat(result.cost) : undefined,
+      offerId: result.offer_id,
+      discountAmount: parseFloat(result.discount_amount || '0'),
       type: result.type,
       status: result.status,
       attemptCount: result.attempt_count,
@@ -234,4 +263,234 @@ export class TopupRequestModel {
       updatedAt: result.updated_at,
     };
   }
+
+  /**
+   * Claims up to `limit` topup requests for dispatch: pending ones, and ones
+   * left in `processing` by a dispatcher that stopped before its lease ran
+   * out. Rows are locked with SKIP LOCKED and moved to `processing` in the
+   * same transaction, so several dispatcher instances never pick up the same
+   * request. A stale request that has already been claimed `maxClaims` times
+   * is parked in `pending_confirmation` instead, since the supplier may have
+   * delivered it. The lease starts here and is renewed by `startDispatch`
+   * and `reassignSupplier`.
+   * @param limit Maximum number of requests to claim
+   * @param leaseMinutes How long a claim may run before it is presumed lost
+   * @param maxClaims Claims after which a stale request is no longer retried
+   * @returns The claimed requests joined with their supplier mapping
+   */
+  static async claimPendingForDispatch(
+    limit: number = 10,
+    leaseMinutes: number = 10,
+    maxClaims: number = 5
+  ): Promise<DispatchableTopupRequest[]> {
+    const staleSince = db.raw('now() - make_interval(mins => ?)', [
+      leaseMinutes,
+    ]);
+
+    return db.transaction(async trx => {
+      await trx('topup_requests')
+        .where({ status: 'processing' })
+        .where('locked_at', '<', staleSince)
+        .where('dispatch_claims', '>=', maxClaims)
+        .update({
+          status: 'pending_confirmation',
+          locked_at: null,
+          updated_at: trx.fn.now(),
+        });
+
+      const rows = await trx('topup_requests')
+        .select('id')
+        .where(query =>
+          query
+            .where({ status: 'pending' })
+            .orWhere(stale =>
+              stale
+                .where({ status: 'processing' })
+                .where('locked_at', '<', staleSince)
+            )
+        )
+        .whereNotNull('supplier_mapping_id')
+        .orderBy('created_at', 'asc')
+        .limit(limit)
+        .forUpdate()
+        .skipLocked();
+
+      if (rows.length === 0) {
+        return [];
+      }
+
+      const ids = rows.map(row => row.id);
+      await trx('topup_requests')
+        .whereIn('id', ids)
+        .update({
+          status: 'processing',
+          attempt_count: trx.raw('attempt_count + 1'),
+          dispatch_claims: trx.raw('dispatch_claims + 1'),
+          locked_at: trx.fn.now(),
+          updated_at: trx.fn.now(),
+        });
+
+      const claimed = await trx('topup_requests as tr')
+        .join(
+          'supplier_product_mapping as spm',
+          'tr.supplier_mapping_id',
+          'spm.id'
+        )
+        .select(
+          'tr.id',
+          'tr.user_id as userId',
+          'tr.recipient_phone as recipientPhone',
+          'tr.amount',
+          'tr.type',
+          'tr.idempotency_key as idempotencyKey',
+          'tr.attempt_count as attemptCount',
+          'tr.dispatch_claims as dispatchClaims',
+          'tr.operator_product_id as operatorProductId',
+          'tr.supplier_id as supplierId',
+          'tr.supplier_mapping_id as supplierMappingId',
+          'spm.supplier_product_code as supplierProductCode',
+          'spm.lead_time_seconds as leadTimeSeconds'
+        )
+        .whereIn('tr.id', ids)
+        .orderBy('tr.created_at', 'asc');
+
+      return claimed.map(row => ({
+        ...row,
+        amount: parseFloat(row.amount),
+        leadTimeSeconds: Number(row.leadTimeSeconds) || 30,
+      }));
+    });
+  }
+
+  /**
+   * Renews the lease just before a claimed request is sent, so a request
+   * waiting behind others in its batch is not taken over meanwhile.
+   * @param id The topup request ID
+   * @param dispatchClaims The claim count read when it was claimed
+   * @param trx Optional Knex transaction
+   * @returns False if the claim was lost to another dispatcher
+   */
+  static async startDispatch(
+    id: string,
+    dispatchClaims: number,
+    trx?: Knex.Transaction
+  ): Promise<boolean> {
+    const connection = trx || db;
+    const updated = await connection('topup_requests')
+      .where({ id, status: 'processing', dispatch_claims: dispatchClaims })
+      .update({
+        locked_at: connection.fn.now(),
+        updated_at: connection.fn.now(),
+      });
+    return updated > 0;
+  }
+
+  /**
+   * Moves a topup request to a new status, optionally only from an expected
+   * current status (compare-and-set).
+   * @param id The topup request ID
+   * @param status The new status
+   * @param fromStatus Only update when the current status is one of these
+   * @param trx Optional Knex transaction
+   * @returns True when a row was updated
+   */
+  static async updateStatus(
+    id: string,
+    status: TopupRequestStatus,
+    fromStatus?: TopupRequestStatus[],
+    trx?: Knex.Transaction
+  ): Promise<boolean> {
+    const connection = trx || db;
+    const query = connection('topup_requests')
+      .where({ id })
+      .update({ status, updated_at: connection.fn.now() });
+    if (fromStatus && fromStatus.length > 0) {
+      query.whereIn('status', fromStatus);
+    }
+    const updated = await query;
+    return updated > 0;
+  }
+
+  /**
+   * Records a supplier response (one row per dispatch attempt or callback)
+   * @param data The response data
+   * @param trx Optional Knex transaction
+   */
+  static async recordResponse(
+    data: CreateTopupResponseData,
+    trx?: Knex.Transaction
+  ): Promise<void> {
+    const connection = trx || db;
+    await connection('topup_responses').insert({
+      topup_request_id: data.topupRequestId,
+      supplier_id: data.supplierId || null,
+      response_code: data.responseCode || null,
+      response_message: data.responseMessage || null,
+      response_payload: data.responsePayload || {},
+    });
+  }
+
+  /**
+   * Moves an in-flight request to another supplier after a failed attempt.
+   * Only applies while the request is still `processing`.
+   * @param id The topup request ID
+   * @param route The supplier and mapping to try next
+   * @param trx Optional Knex transaction
+   * @returns True when the request was moved
+   */
+  static async reassignSupplier(
+    id: string,
+    route: { supplierId: string; supplierMappingId: string },
+    trx?: Knex.Transaction
+  ): Promise<boolean> {
+    const connection = trx || db;
+    const updated = await connection('topup_requests')
+      .where({ id, status: 'processing' })
+      .update({
+        supplier_id: route.supplierId,
+        supplier_mapping_id: route.supplierMappingId,
+        attempt_count: connection.raw('attempt_count + 1'),
+        locked_at: connection.fn.now(),
+        updated_at: connection.fn.now(),
+      });
+    return updated > 0;
+  }
+
+  /**
+   * Lists the supplier hops made for a request, built from the dispatch
+   * attempts recorded in `topup_responses`.
+   * @param id The topup request ID
+   * @param trx Optional Knex transaction
+   */
+  static async findHops(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<TopupRouteHop[]> {
+    const connection = trx || db;
+    const rows = await connection('topup_responses as r')
+      .leftJoin('suppliers as s', 'r.supplier_id', 's.id')
+      .select(
+        'r.supplier_id as supplierId',
+        's.name as supplierName',
+        'r.response_code as responseCode',
+        'r.response_message as responseMessage',
+        'r.response_payload as responsePayload',
+        'r.created_at as createdAt'
+      )
+      .where('r.topup_request_id', id)
+      .whereRaw("r.response_payload->>'status' IS NOT NULL")
+      .orderBy('r.created_at', 'asc');
+
+    return rows.map((row, index) => ({
+      hop: index + 1,
+      supplierId: row.supplierId,
+      supplierName: row.supplierName || undefined,
+      supplierMappingId: row.responsePayload?.supplierMappingId,
+      outcome: row.responsePayload.status,
+      responseCode: row.responseCode || undefined,
+      responseMessage: row.responseMessage || undefined,
+      failedOver: Boolean(row.responsePayload?.failedOver),
+      createdAt: row.createdAt,
+    }));
+  }
 }
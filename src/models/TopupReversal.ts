@@ -0,0 +1,72 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  CreateTopupReversalData,
+  TopupReversal,
+} from '../types/topupReversal.types';
+
+export class TopupReversalModel {
+  /**
+   * Records a completed reversal
+   * @param data The reversal amounts and audit details
+   * @param trx Knex transaction the reversal is part of
+   * @returns The created reversal
+   */
+  static async create(
+    data: CreateTopupReversalData,
+    trx: Knex.Transaction
+  ): Promise<TopupReversal> {
+    const [row] = await trx('topup_reversals')
+      .insert({
+        topup_request_id: data.topupRequestId,
+        user_id: data.userId,
+        wallet_refund: data.walletRefund,
+        cashback_refund: data.cashbackRefund,
+        cashback_clawback: data.cashbackClawback,
+        clawback_from_wallet: data.clawbackFromWallet,
+        unrecovered_cashback: data.unrecoveredCashback,
+        journal_id: data.journalId || null,
+        transaction_id: data.transactionId || null,
+        reason: data.reason,
+        initiated_by: data.initiatedBy || null,
+      })
+      .returning('*');
+
+    return this.format(row);
+  }
+
+  /**
+   * Retrieves the reversal of a topup request
+   * @param topupRequestId The topup request ID
+   * @param trx Optional Knex transaction
+   * @returns The reversal or null if the request was never reversed
+   */
+  static async findByTopupRequestId(
+    topupRequestId: string,
+    trx?: Knex.Transaction
+  ): Promise<TopupReversal | null> {
+    const connection = trx || db;
+    const row = await connection('topup_reversals')
+      .where({ topup_request_id: topupRequestId })
+      .first();
+    return row ? this.format(row) : null;
+  }
+
+  private static format(row: any): TopupReversal {
+    return {
+      id: row.id,
+      topupRequestId: row.topup_request_id,
+      userId: row.user_id,
+      walletRefund: parseFloat(row.wallet_refund),
+      cashbackRefund: parseFloat(row.cashback_refund),
+      cashbackClawback: parseFloat(row.cashback_clawback),
+      clawbackFromWallet: parseFloat(row.clawback_from_wallet),
+      unrecoveredCashback: parseFloat(row.unrecovered_cashback),
+      journalId: row.journal_id,
+      transactionId: row.transaction_id,
+      reason: row.reason,
+      initiatedBy: row.initiated_by,
+      createdAt: row.created_at,
+    };
+  }
+}
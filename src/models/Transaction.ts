@@ -2,6 +2,7 @@ import { Knex } from 'knex';
 import db from '../database/connection';
 import {
   CreateTransactionData,
+  StatementTransaction,
   Transaction,
   TransactionFilters,
   TransactionQueryResult,
@@ -14,6 +15,9 @@ const RELATED_TYPE_TABLE_MAP: Record<string, string> = {
   topup_request: 'topup_requests',
   settlement: 'settlements',
   bill_payment: 'bill_payments',
+  wallet_transfer: 'wallet_transfers',
+  epin_order: 'epin_orders',
+  reward_redemption: 'reward_redemptions',
 } as const;
 
 // Valid related types
@@ -83,15 +87,16 @@ export class TransactionModel {
   }
 
   /**
-   * Retrieves all transactions with optional filters and pagination
-   * @param filters Optional filters for querying transactions
-   * @param trx Optional Knex transaction
-   * @returns Paginated list of transactions
+   * Narrows a transactions query to the list filters. Exports share it so
+   * they match what the list shows.
+   * @param query A query on the transactions table
+   * @param filters The filters to apply; paging is ignored
+   * @returns The same query
    */
-  static async findAll(
-    filters: TransactionFilters = {},
-    trx?: Knex.Transaction
-  ): Promise<TransactionQueryResult> {
+  static applyFilters(
+    query: Knex.QueryBuilder,
+    filters: TransactionFilters
+  ): Knex.QueryBuilder {
     const {
       userId,
       walletId,
@@ -101,10 +106,48 @@ export class TransactionModel {
       relatedId,
       dateFrom,
       dateTo,
-      page = 1,
-      limit = 20,
-      includeRelated = true,
     } = filters;
+    if (userId) {
+      query.where('user_id', userId);
+    }
+    if (walletId) {
+      query.where('wallet_id', walletId);
+    }
+    if (direction) {
+      query.where('direction', direction);
+    }
+    if (method) {
+      query.where('method', method);
+    }
+    if (relatedType) {
+      // Validate relatedType
+      if (RELATED_TYPE_TABLE_MAP[relatedType]) {
+        query.where('related_type', relatedType);
+      }
+    }
+    if (relatedId) {
+      query.where('related_id', relatedId);
+    }
+    if (dateFrom) {
+      query.where('created_at', '>=', dateFrom);
+    }
+    if (dateTo) {
+      query.where('created_at', '<=', dateTo);
+    }
+    return query;
+  }
+
+  /**
+   * Retrieves all transactions with optional filters and pagination
+   * @param filters Optional filters for querying transactions
+   * @param trx Optional Knex transaction
+   * @returns Paginated list of transactions
+   */
+  static async findAll(
+    filters: TransactionFilters = {},
+    trx?: Knex.Transaction
+  ): Promise<TransactionQueryResult> {
+    const { page = 1, limit = 20, includeRelated = true } = filters;
     const connection = trx || db;
 
     const query = connection('transactions').select(
@@ -126,38 +169,8 @@ export class TransactionModel {
     const countQuery = connection('transactions').count('id as total');
 
     // Apply filters to both queries
-    const applyFilters = (q: Knex.QueryBuilder) => {
-      if (userId) {
-        q.where('user_id', userId);
-      }
-      if (walletId) {
-        q.where('wallet_id', walletId);
-      }
-      if (direction) {
-        q.where('direction', direction);
-      }
-      if (method) {
-        q.where('method', method);
-      }
-      if (relatedType) {
-        // Validate relatedType
-        if (RELATED_TYPE_TABLE_MAP[relatedType]) {
-          q.where('related_type', relatedType);
-        }
-      }
-      if (relatedId) {
-        q.where('related_id', relatedId);
-      }
-      if (dateFrom) {
-        q.where('created_at', '>=', dateFrom);
-      }
-      if (dateTo) {
-        q.where('created_at', '<=', dateTo);
-      }
-    };
-
-    applyFilters(query);
-    applyFilters(countQuery);
+    this.applyFilters(query, filters);
+    this.applyFilters(countQuery, filters);
 
     // Apply pagination to the main query
     query
@@ -210,6 +223,131 @@ export class TransactionModel {
     };
   }
 
+  /**
+   * Gets a user's latest transaction before a moment. Its balance_after is
+   * the wallet balance at that moment.
+   * @param userId The user ID
+   * @param before The moment, exclusive
+   * @param trx Optional Knex transaction
+   * @returns The transaction or null if there was none
+   */
+  static async findLastBefore(
+    userId: string,
+    before: Date,
+    trx?: Knex.Transaction
+  ): Promise<Transaction | null> {
+    const connection = trx || db;
+    const result = await connection('transactions')
+      .select(
+        'id',
+        'wallet_id as walletId',
+        'user_id as userId',
+        'direction',
+        'amount',
+        'balance_after as balanceAfter',
+        'method',
+        'reference',
+        'related_type as relatedType',
+        'related_id as relatedId',
+        'metadata',
+        'note',
+        'created_at as createdAt'
+      )
+      .where('user_id', userId)
+      .where('created_at', '<', before)
+      .orderBy([
+        { column: 'created_at', order: 'desc' },
+        { column: 'id', order: 'desc' },
+      ])
+      .first();
+
+    if (!result) {
+      return null;
+    }
+
+    return {
+      ...result,
+      amount: parseFloat(result.amount),
+      balanceAfter: parseFloat(result.balanceAfter),
+    };
+  }
+
+  /**
+   * Lists a user's transactions in a period, oldest first, with the top-up
+   * each one paid for or was refunded from
+   * @param userId The user ID
+   * @param from Start of the period, inclusive
+   * @param to End of the period, exclusive
+   * @param trx Optional Knex transaction
+   * @returns The transactions
+   */
+  static async findForStatement(
+    userId: string,
+    from: Date,
+    to: Date,
+    trx?: Knex.Transaction
+  ): Promise<StatementTransaction[]> {
+    const connection = trx || db;
+    const results = await connection('transactions as t')
+      .leftJoin('topup_requests as tr', function () {
+        this.on('tr.id', '=', 't.related_id').andOnVal(
+          't.related_type',
+          '=',
+          'topup_request'
+        );
+      })
+      .leftJoin('operators as o', 'o.id', 'tr.operator_id')
+      .leftJoin('operator_products as op', 'op.id', 'tr.operator_product_id')
+      .select(
+        't.id',
+        't.wallet_id as walletId',
+        't.user_id as userId',
+        't.direction',
+        't.amount',
+        't.balance_after as balanceAfter',
+        't.method',
+        't.reference',
+        't.related_type as relatedType',
+        't.related_id as relatedId',
+        't.metadata',
+        't.note',
+        't.created_at as createdAt',
+        'tr.type as topupType',
+        'tr.recipient_phone as topupRecipientPhone',
+        'o.name as topupOperatorName',
+        'op.name as topupProductName'
+      )
+      .where('t.user_id', userId)
+      .where('t.created_at', '>=', from)
+      .where('t.created_at', '<', to)
+      .orderBy([
+        { column: 't.created_at', order: 'asc' },
+        { column: 't.id', order: 'asc' },
+      ]);
+
+    return results.map(
+      ({
+        topupType,
+        topupRecipientPhone,
+        topupOperatorName,
+        topupProductName,
+        ...result
+      }) => ({
+        ...result,
+        amount: parseFloat(result.amount),
+        balanceAfter: parseFloat(result.balanceAfter),
+        topup: topupRecipientPhone
+          ? {
+              type: topupType,
+              recipientPhone: topupRecipientPhone,
+              operatorName: topupOperatorName,
+              productName: topupProductName,
+            }
+          : null,
+      })
+    );
+  }
+
   /**
    * Efficiently populates related data for multiple transactions
    * Groups by related_type to minimize database queries
@@ -15,7 +15,7 @@ export interface RegisteredUser {
   email: string;
   fullName: string | null;
   phoneNumber: string | null;
-  role: 'user' | 'staff' | 'admin';
+  role: 'user' | 'reseller' | 'staff' | 'admin';
   isVerified: boolean;
   permissions?: string[];
 }
@@ -28,7 +28,7 @@ export interface UserProfileView {
   fullName: string | null;
   email: string;
   phoneNumber: string | null;
-  role: 'user' | 'staff' | 'admin';
+  role: 'user' | 'reseller' | 'staff' | 'admin';
   isSuspended: boolean;
   isVerified: boolean;
   twoFactorEnabled: boolean;
@@ -64,7 +64,7 @@ export interface UserAuthPayload {
   email: string;
   phoneNumber: string | null;
   password?: string;
-  role: 'user' | 'staff' | 'admin';
+  role: 'user' | 'reseller' | 'staff' | 'admin';
   roleId: string;
   isVerified: boolean;
   isSuspended: boolean;
@@ -81,7 +81,7 @@ export interface CreateUserInput {
   fullName?: string;
   phoneNumber?: string;
   password: string;
-  role: 'user' | 'staff' | 'admin';
+  role: 'user' | 'reseller' | 'staff' | 'admin';
 }
 
 /**
@@ -92,7 +92,7 @@ export interface UserLoginResponse {
   email: string;
   fullName: string | null;
   phoneNumber: string | null;
-  role: 'user' | 'staff' | 'admin';
+  role: 'user' | 'reseller' | 'staff' | 'admin';
   isVerified: boolean;
   isSuspended: boolean;
   twoFactorEnabled: boolean;
@@ -311,7 +311,7 @@ export class UserModel {
    * @returns A list of users with that role.
    */
   static async findByRole(
-    role: 'user' | 'staff' | 'admin'
+    role: 'user' | 'reseller' | 'staff' | 'admin'
   ): Promise<UserAuthPayload[]> {
     const users = await db('users as u')
       .select(
@@ -0,0 +1,191 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+// =================================================================
+// Interfaces
+// =================================================================
+
+export type WalletAdjustmentDirection = 'credit' | 'debit';
+
+export type WalletAdjustmentStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'expired';
+
+export interface WalletAdjustmentRequest {
+  id: string;
+  userId: string;
+  userEmail?: string;
+  direction: WalletAdjustmentDirection;
+  amount: number;
+  reason: string;
+  status: WalletAdjustmentStatus;
+  requestedBy: string;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  balanceAfter: number | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWalletAdjustmentRequestData {
+  userId: string;
+  direction: WalletAdjustmentDirection;
+  amount: number;
+  reason: string;
+  requestedBy: string;
+  expiresAt: Date;
+}
+
+export interface WalletAdjustmentReview {
+  status: 'approved' | 'rejected';
+  reviewedBy: string;
+  reviewNote?: string | null;
+  balanceAfter?: number;
+}
+
+// =================================================================
+// Wallet Adjustment Request Model Class
+// =================================================================
+
+export class WalletAdjustmentRequestModel {
+  private static readonly TABLE_NAME = 'wallet_adjustment_requests';
+
+  /**
+   * Creates a pending adjustment request
+   * @param data - The request
+   * @returns The created request
+   */
+  static async create(
+    data: CreateWalletAdjustmentRequestData
+  ): Promise<WalletAdjustmentRequest> {
+    const [row] = await db(this.TABLE_NAME)
+      .insert({
+        user_id: data.userId,
+        direction: data.direction,
+        amount: data.amount,
+        reason: data.reason,
+        requested_by: data.requestedBy,
+        expires_at: data.expiresAt,
+      })
+      .returning('*');
+    return this.formatRecord(row);
+  }
+
+  /**
+   * Retrieves a request
+   * @param id - The request ID
+   * @param trx - Optional transaction; the row is locked when given
+   * @returns The request or null if not found
+   */
+  static async findById(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<WalletAdjustmentRequest | null> {
+    const query = (trx || db)(this.TABLE_NAME).where({ id }).first();
+    if (trx) {
+      query.forUpdate();
+    }
+    const row = await query;
+    return row ? this.formatRecord(row) : null;
+  }
+
+  /**
+   * Lists requests, newest first
+   * @param status - Only requests in this status
+   * @param page - Page number
+   * @param limit - Page size
+   * @returns The page of requests and the total matching
+   */
+  static async findAll(
+    status: WalletAdjustmentStatus | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ requests: WalletAdjustmentRequest[]; total: number }> {
+    const query = db(`${this.TABLE_NAME} as w`).modify(q => {
+      if (status) {
+        q.where('w.status', status);
+      }
+    });
+    const [rows, count] = await Promise.all([
+      query
+        .clone()
+        .join('users as u', 'u.id', 'w.user_id')
+        .select('w.*', 'u.email as user_email')
+        .orderBy('w.created_at', 'desc')
+        .offset((page - 1) * limit)
+        .limit(limit),
+      query.clone().count('w.id as total').first(),
+    ]);
+    return {
+      requests: rows.map((row: any) => this.formatRecord(row)),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  /**
+   * Records the outcome of a review
+   * @param id - The request ID
+   * @param review - Approved or rejected, by whom and why
+   * @param trx - Optional transaction
+   * @returns The updated request
+   */
+  static async review(
+    id: string,
+    review: WalletAdjustmentReview,
+    trx?: Knex.Transaction
+  ): Promise<WalletAdjustmentRequest> {
+    const [row] = await (trx || db)(this.TABLE_NAME)
+      .where({ id })
+      .update({
+        status: review.status,
+        reviewed_by: review.reviewedBy,
+        reviewed_at: db.fn.now(),
+        review_note: review.reviewNote ?? null,
+        balance_after: review.balanceAfter ?? null,
+        updated_at: db.fn.now(),
+      })
+      .returning('*');
+    return this.formatRecord(row);
+  }
+
+  /**
+   * Expires pending requests nobody acted on in time
+   * @param now - Requests expiring at or before this are expired
+   * @returns The expired requests
+   */
+  static async expirePending(now: Date): Promise<WalletAdjustmentRequest[]> {
+    const rows = await db(this.TABLE_NAME)
+      .where('status', 'pending')
+      .where('expires_at', '<=', now)
+      .update({ status: 'expired', updated_at: db.fn.now() })
+      .returning('*');
+    return rows.map((row: any) => this.formatRecord(row));
+  }
+
+  private static formatRecord(row: any): WalletAdjustmentRequest {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userEmail: row.user_email,
+      direction: row.direction,
+      amount: parseFloat(row.amount),
+      reason: row.reason,
+      status: row.status,
+      requestedBy: row.requested_by,
+      reviewedBy: row.reviewed_by,
+      reviewedAt: row.reviewed_at,
+      reviewNote: row.review_note,
+      balanceAfter:
+        row.balance_after == null ? null : parseFloat(row.balance_after),
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export default WalletAdjustmentRequestModel;
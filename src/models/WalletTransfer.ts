@@ -0,0 +1,84 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  CreateWalletTransferData,
+  DailyTransferTotals,
+  WalletTransfer,
+} from '../types/walletTransfer.types';
+
+export class WalletTransferModel {
+  /**
+   * Creates a new wallet transfer record
+   * @param data The transfer data
+   * @param trx Optional Knex transaction
+   * @returns The created transfer
+   */
+  static async create(
+    data: CreateWalletTransferData,
+    trx?: Knex.Transaction
+  ): Promise<WalletTransfer> {
+    const connection = trx || db;
+    const [row] = await connection('wallet_transfers')
+      .insert({
+        reference: data.reference,
+        sender_id: data.senderId,
+        recipient_id: data.recipientId,
+        amount: data.amount,
+        note: data.note || null,
+      })
+      .returning('*');
+
+    return this.format(row);
+  }
+
+  /**
+   * Retrieves a transfer by its ID
+   * @param id The transfer ID
+   * @param trx Optional Knex transaction
+   * @returns The transfer or null if not found
+   */
+  static async findById(
+    id: string,
+    trx?: Knex.Transaction
+  ): Promise<WalletTransfer | null> {
+    const connection = trx || db;
+    const row = await connection('wallet_transfers').where({ id }).first();
+    return row ? this.format(row) : null;
+  }
+
+  /**
+   * Sums the transfers a user has sent since the start of the current day
+   * @param senderId The sending user's ID
+   * @param trx Optional Knex transaction
+   * @returns Number and total amount of today's transfers
+   */
+  static async getDailyTotals(
+    senderId: string,
+    trx?: Knex.Transaction
+  ): Promise<DailyTransferTotals> {
+    const connection = trx || db;
+    const row = await connection('wallet_transfers')
+      .where({ sender_id: senderId })
+      .andWhere('created_at', '>=', connection.raw("date_trunc('day', now())"))
+      .count('* as count')
+      .sum('amount as amount')
+      .first();
+
+    return {
+      count: Number(row?.count || 0),
+      amount: parseFloat(String(row?.amount || 0)),
+    };
+  }
+
+  private static format(row: any): WalletTransfer {
+    return {
+      id: row.id,
+      reference: row.reference,
+      senderId: row.sender_id,
+      recipientId: row.recipient_id,
+      amount: parseFloat(row.amount),
+      note: row.note,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -63,6 +63,386 @@ router.get(
   AdminController.getFailedJobs
 );
 
+/**
+ * @swagger
+ * /admin/dashboard/analytics/topups:
+ *   get:
+ *     summary: Get topup GMV, margin, success rate and fulfilment latency
+ *     description: >
+ *       GMV is what customers paid for successful topups. Supplier cost
+ *       and margin are what each topup's ledger journals posted to the
+ *       supplier payable and to revenue, so margin is net of offer
+ *       discounts and cashback and does not move when prices are edited
+ *       later. Referral commission is paid out of the margin and is
+ *       reported separately rather than deducted from it. Success rate is over
+ *       topups that succeeded or failed; latency runs from the request to
+ *       its success or failure.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range. Defaults to 30 days before to.
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range, exclusive. A plain date covers that whole day. Defaults to now.
+ *       - in: query
+ *         name: bucket
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [operator, supplier, product_type]
+ *           default: operator
+ *     responses:
+ *       200:
+ *         description: Totals, a series per bucket and a breakdown per group.
+ *       400:
+ *         description: Invalid range.
+ */
+router.get(
+  '/dashboard/analytics/topups',
+  hasPermission('analytics.read.all'),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('bucket').optional().isIn(['day', 'week', 'month']),
+  query('groupBy').optional().isIn(['operator', 'supplier', 'product_type']),
+  handleValidationErrors,
+  AdminController.getTopupAnalytics
+);
+
+/**
+ * @swagger
+ * /admin/dashboard/analytics/funding:
+ *   get:
+ *     summary: Get wallet funding received through virtual accounts
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range. Defaults to 30 days before to.
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range, exclusive. A plain date covers that whole day. Defaults to now.
+ *       - in: query
+ *         name: bucket
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *     responses:
+ *       200:
+ *         description: Totals and a series per bucket, including payments not matched to a user.
+ *       400:
+ *         description: Invalid range.
+ */
+router.get(
+  '/dashboard/analytics/funding',
+  hasPermission('analytics.read.all'),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('bucket').optional().isIn(['day', 'week', 'month']),
+  handleValidationErrors,
+  AdminController.getFundingAnalytics
+);
+
+/**
+ * @swagger
+ * /admin/dashboard/analytics/cashback:
+ *   get:
+ *     summary: Get cashback liability and cashback earned and redeemed
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range. Defaults to 30 days before to.
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range, exclusive. A plain date covers that whole day. Defaults to now.
+ *       - in: query
+ *         name: bucket
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *     responses:
+ *       200:
+ *         description: >
+ *           The cashback users can still spend, with totals and a series per
+ *           bucket of cashback earned, redeemed and adjusted.
+ *       400:
+ *         description: Invalid range.
+ */
+router.get(
+  '/dashboard/analytics/cashback',
+  hasPermission('analytics.read.all'),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('bucket').optional().isIn(['day', 'week', 'month']),
+  handleValidationErrors,
+  AdminController.getCashbackAnalytics
+);
+
+// =================================================================
+// Audit Log
+// =================================================================
+
+/**
+ * @swagger
+ * /admin/audit-logs:
+ *   get:
+ *     summary: Search the audit log of admin actions
+ *     description: >
+ *       Every privileged admin action with who took it, from which IP and
+ *       user agent, the record it touched and what changed. Newest first.
+ *       The log is append-only; entries are only removed once they pass the
+ *       retention period set in server configuration.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: An action such as wallet.credit, or a prefix ending in * such as wallet.*
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: A page of audit log entries.
+ */
+router.get(
+  '/audit-logs',
+  hasPermission('audit_logs.read.all'),
+  query('actorId').optional().isUUID(),
+  query('action').optional().isString().isLength({ max: 64 }),
+  query('entityType').optional().isString().isLength({ max: 64 }),
+  query('entityId').optional().isString().isLength({ max: 128 }),
+  query('dateFrom').optional().isISO8601(),
+  query('dateTo').optional().isISO8601(),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  handleValidationErrors,
+  AdminController.getAuditLogs
+);
+
+/**
+ * @swagger
+ * /admin/audit-logs/{logId}:
+ *   get:
+ *     summary: Get an audit log entry
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: logId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The entry with the record before and after the action.
+ *       404:
+ *         description: Entry not found.
+ */
+router.get(
+  '/audit-logs/:logId',
+  hasPermission('audit_logs.read.all'),
+  param('logId').isUUID(),
+  handleValidationErrors,
+  AdminController.getAuditLog
+);
+
+// =================================================================
+// Wallet Adjustment Approvals
+// =================================================================
+
+/**
+ * @swagger
+ * /admin/wallet-adjustments:
+ *   get:
+ *     summary: List manual wallet adjustments awaiting or past approval
+ *     description: >
+ *       Manual credits and debits that take the requesting admin's 24-hour
+ *       total for the wallet above the approval threshold wait here
+ *       until an admin other than the requester approves or rejects them.
+ *       Requests nobody acts on expire.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, expired]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: A page of adjustment requests, newest first.
+ */
+router.get(
+  '/wallet-adjustments',
+  hasPermission('wallet.adjustments.approve'),
+  query('status')
+    .optional()
+    .isIn(['pending', 'approved', 'rejected', 'expired']),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  handleValidationErrors,
+  AdminController.getWalletAdjustments
+);
+
+/**
+ * @swagger
+ * /admin/wallet-adjustments/{requestId}/approve:
+ *   post:
+ *     summary: Approve a pending wallet adjustment and move the money
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Approved; the wallet has been adjusted.
+ *       403:
+ *         description: The requester cannot approve their own adjustment.
+ *       404:
+ *         description: Request not found.
+ *       409:
+ *         description: The request is no longer pending or has expired.
+ */
+router.post(
+  '/wallet-adjustments/:requestId/approve',
+  hasPermission('wallet.adjustments.approve'),
+  param('requestId').isUUID(),
+  handleValidationErrors,
+  AdminController.approveWalletAdjustment
+);
+
+/**
+ * @swagger
+ * /admin/wallet-adjustments/{requestId}/reject:
+ *   post:
+ *     summary: Reject a pending wallet adjustment
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [note]
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rejected; the wallet is unchanged.
+ *       403:
+ *         description: The requester cannot reject their own adjustment.
+ *       404:
+ *         description: Request not found.
+ *       409:
+ *         description: The request is no longer pending or has expired.
+ */
+router.post(
+  '/wallet-adjustments/:requestId/reject',
+  hasPermission('wallet.adjustments.approve'),
+  param('requestId').isUUID(),
+  handleValidationErrors,
+  AdminController.rejectWalletAdjustment
+);
+
 // =================================================================
 // User Management
 // =================================================================
@@ -280,13 +660,25 @@ router.post(
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [amount]
  *             properties:
  *               amount:
  *                 type: number
  *                 format: double
+ *               reason:
+ *                 type: string
+ *                 description: >
+ *                   Required when the admin's adjustments to this wallet over
+ *                   the last 24 hours, this one included, exceed the approval
+ *                   threshold
  *     responses:
  *       200:
  *         description: Wallet credited successfully.
+ *       202:
+ *         description: >
+ *           The admin's adjustments to this wallet over the last 24 hours,
+ *           this one included, exceed the approval threshold; a pending
+ *           request was created for another admin to approve.
  */
 router.post(
   '/users/:userId/credit',
@@ -315,13 +707,25 @@ router.post(
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [amount]
  *             properties:
  *               amount:
  *                 type: number
  *                 format: double
+ *               reason:
+ *                 type: string
+ *                 description: >
+ *                   Required when the admin's adjustments to this wallet over
+ *                   the last 24 hours, this one included, exceed the approval
+ *                   threshold
  *     responses:
  *       200:
  *         description: Wallet debited successfully.
+ *       202:
+ *         description: >
+ *           The admin's adjustments to this wallet over the last 24 hours,
+ *           this one included, exceed the approval threshold; a pending
+ *           request was created for another admin to approve.
  */
 router.post(
   '/users/:userId/debit',
@@ -513,34 +917,98 @@ router.get(
 );
 
 /** @swagger
- * /admin/transactions/{transactionId}:
+ * /admin/transactions/export:
  *   get:
- *     summary: Get a single transaction by ID
+ *     summary: Export transactions as CSV
+ *     description: >
+ *       Takes the same filters as the transaction list and exports every
+ *       matching row, oldest first.
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: transactionId
- *         required: true
+ *       - in: query
+ *         name: userId
  *         schema:
  *           type: string
- *           format: uuid
- *     responses:
- *       200:
- *         description: Successfully retrieved transaction.
- *       404:
- *         description: Transaction not found.
- */
-router.get(
-  '/transactions/:transactionId',
-  hasPermission('transactions.read.all'),
-  AdminController.getTransactionById
-);
-
-// =================================================================
-// Topup Request Management
-// =================================================================
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [debit, credit]
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv]
+ *           default: csv
+ *       - in: query
+ *         name: background
+ *         schema:
+ *           type: boolean
+ *         description: Run as a background job whatever the size
+ *     responses:
+ *       200:
+ *         description: The CSV file, streamed.
+ *         content:
+ *           text/csv: {}
+ *       202:
+ *         description: >
+ *           Too many rows to stream; the export was queued as a job. Poll
+ *           statusUrl for the download link.
+ *       503:
+ *         description: >
+ *           Background exports are not configured (EXPORT_DIR is unset) and
+ *           the export is too large to stream.
+ */
+router.get(
+  '/transactions/export',
+  hasPermission('transactions.read.all'),
+  query('format').optional().isIn(['csv']),
+  query('background').optional().isBoolean(),
+  handleValidationErrors,
+  AdminController.exportTransactions
+);
+
+/** @swagger
+ * /admin/transactions/{transactionId}:
+ *   get:
+ *     summary: Get a single transaction by ID
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved transaction.
+ *       404:
+ *         description: Transaction not found.
+ */
+router.get(
+  '/transactions/:transactionId',
+  hasPermission('transactions.read.all'),
+  AdminController.getTransactionById
+);
+
+// =================================================================
+// Topup Request Management
+// =================================================================
 
 /** @swagger
  * /admin/topup-requests:
@@ -593,10 +1061,77 @@ router.get(
   AdminController.getAllTopupRequests
 );
 
+/** @swagger
+ * /admin/topup-requests/export:
+ *   get:
+ *     summary: Export topup requests as CSV
+ *     description: >
+ *       Takes the same filters as the topup request list and exports every
+ *       matching row, oldest first, with its operator, product, supplier
+ *       and supplier price.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv]
+ *           default: csv
+ *       - in: query
+ *         name: background
+ *         schema:
+ *           type: boolean
+ *         description: Run as a background job whatever the size
+ *     responses:
+ *       200:
+ *         description: The CSV file, streamed.
+ *         content:
+ *           text/csv: {}
+ *       202:
+ *         description: >
+ *           Too many rows to stream; the export was queued as a job. Poll
+ *           statusUrl for the download link.
+ *       503:
+ *         description: >
+ *           Background exports are not configured (EXPORT_DIR is unset) and
+ *           the export is too large to stream.
+ */
+router.get(
+  '/topup-requests/export',
+  hasPermission('topup-requests.read.all'),
+  query('format').optional().isIn(['csv']),
+  query('background').optional().isBoolean(),
+  handleValidationErrors,
+  AdminController.exportTopupRequests
+);
+
 /** @swagger
  * /admin/topup-requests/{requestId}:
  *   get:
  *     summary: Get a single topup request by ID
+ *     description: |
+ *       Returns the request with its supplier responses and a `hops` list
+ *       showing each supplier attempt in order, including failovers.
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
@@ -609,7 +1144,7 @@ router.get(
  *           format: uuid
  *     responses:
  *       200:
- *         description: Successfully retrieved topup request.
+ *         description: Successfully retrieved topup request with supplier hops.
  *       404:
  *         description: Topup request not found.
  */
@@ -638,6 +1173,8 @@ router.get(
  *         description: Topup request retry initiated successfully.
  *       404:
  *         description: Topup request not found.
+ *       409:
+ *         description: Only failed or retry requests can be sent again.
  */
 router.post(
   '/topup-requests/:requestId/retry',
@@ -645,6 +1182,54 @@ router.post(
   AdminController.retryTopupRequest
 );
 
+/** @swagger
+ * /admin/topup-requests/{requestId}/reverse:
+ *   post:
+ *     summary: Reverse a topup request
+ *     description: |
+ *       Refunds what the request actually charged the user (wallet and
+ *       redeemed cashback), claws back the cashback it earned and marks it
+ *       `reversed`. Reversing an already reversed request returns the
+ *       original reversal. Only failed, cancelled and unclaimed pending
+ *       requests can be reversed; a request awaiting supplier confirmation
+ *       is reversed only once the supplier's status API confirms it failed.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Topup request reversed (or already reversed).
+ *       400:
+ *         description: Missing reason or the request cannot be reversed.
+ *       404:
+ *         description: Topup request not found.
+ *       409:
+ *         description: The supplier has not confirmed that the top-up failed.
+ */
+router.post(
+  '/topup-requests/:requestId/reverse',
+  hasPermission('topup-requests.update'),
+  AdminController.reverseTopupRequest
+);
+
 // =================================================================
 // Job Management
 // =================================================================
@@ -708,6 +1293,67 @@ router.get(
   AdminController.getJob
 );
 
+/** @swagger
+ * /admin/jobs/{jobId}/retry:
+ *   post:
+ *     summary: Requeue a dead, failed or cancelled job
+ *     description: The job runs again with a fresh set of attempts.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job queued for retry.
+ *       404:
+ *         description: Job not found.
+ *       409:
+ *         description: Job is pending, running or completed.
+ */
+router.post(
+  '/jobs/:jobId/retry',
+  hasPermission('system.settings'),
+  param('jobId').isUUID(),
+  handleValidationErrors,
+  AdminController.retryJob
+);
+
+/** @swagger
+ * /admin/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a job that has not started
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job cancelled.
+ *       404:
+ *         description: Job not found.
+ *       409:
+ *         description: Job is no longer pending.
+ */
+router.post(
+  '/jobs/:jobId/cancel',
+  hasPermission('system.settings'),
+  param('jobId').isUUID(),
+  handleValidationErrors,
+  AdminController.cancelJob
+);
+
 // =================================================================
 // Settlement Management
 // =================================================================
@@ -748,6 +1394,126 @@ router.get(
   AdminController.getAllSettlements
 );
 
+/** @swagger
+ * /admin/settlements/export:
+ *   get:
+ *     summary: Export settlements as CSV
+ *     description: >
+ *       Takes the same filters as the settlement list; dates filter on the
+ *       settlement date.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: providerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv]
+ *           default: csv
+ *       - in: query
+ *         name: background
+ *         schema:
+ *           type: boolean
+ *         description: Run as a background job whatever the size
+ *     responses:
+ *       200:
+ *         description: The CSV file, streamed.
+ *         content:
+ *           text/csv: {}
+ *       202:
+ *         description: >
+ *           Too many rows to stream; the export was queued as a job. Poll
+ *           statusUrl for the download link.
+ *       503:
+ *         description: >
+ *           Background exports are not configured (EXPORT_DIR is unset) and
+ *           the export is too large to stream.
+ */
+router.get(
+  '/settlements/export',
+  hasPermission('settlements.read.all'),
+  query('format').optional().isIn(['csv']),
+  query('background').optional().isBoolean(),
+  handleValidationErrors,
+  AdminController.exportSettlements
+);
+
+/** @swagger
+ * /admin/exports/{jobId}:
+ *   get:
+ *     summary: Get the status of a background export
+ *     description: Only the admin who requested the export can see it.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The job status, with a download link once completed.
+ *       404:
+ *         description: Export not found.
+ */
+router.get(
+  '/exports/:jobId',
+  param('jobId').isUUID(),
+  handleValidationErrors,
+  AdminController.getExport
+);
+
+/** @swagger
+ * /admin/exports/{jobId}/download:
+ *   get:
+ *     summary: Download a finished background export
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The CSV file.
+ *         content:
+ *           text/csv: {}
+ *       404:
+ *         description: Export not found.
+ *       409:
+ *         description: Export has not finished.
+ *       410:
+ *         description: Export file is no longer available.
+ */
+router.get(
+  '/exports/:jobId/download',
+  param('jobId').isUUID(),
+  handleValidationErrors,
+  AdminController.downloadExport
+);
+
 /** @swagger
  * /admin/settlements/{settlementId}:
  *   get:
@@ -812,14 +1578,304 @@ router.post(
   AdminController.createSettlement
 );
 
-// =================================================================
-// Operator Management
-// =================================================================
-
-/** @swagger
- * /admin/operators:
- *   get:
- *     summary: Get all operators
+/**
+ * @swagger
+ * /admin/reconciliations:
+ *   post:
+ *     summary: Reconcile a supplier settlement report
+ *     description: |
+ *       Matches each report line to the supplier's topup requests by the
+ *       reference the supplier was sent (the topup request ID), external ID
+ *       or idempotency key, and compares amounts with what the purchase
+ *       posted as owed to the supplier. Lines are classified as matched,
+ *       amount_mismatch, status_mismatch, duplicate or missing_ours;
+ *       successful topups in the period that the report leaves out are
+ *       listed as missing_theirs. A CSV needs a header row with a
+ *       `reference` (or `external_id` / `idempotency_key`) column and an
+ *       `amount` column; `status` is optional. A JSON report is an array of
+ *       objects with the same keys. Unreadable lines are reported with
+ *       their line number.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [supplierId, periodStart, periodEnd, content]
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *                 format: uuid
+ *               periodStart:
+ *                 type: string
+ *                 format: date
+ *               periodEnd:
+ *                 type: string
+ *                 format: date
+ *                 description: Inclusive; a date without a time covers the whole day.
+ *               format:
+ *                 type: string
+ *                 enum: [csv, json]
+ *                 default: csv
+ *               fileName:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *                 example: "reference,amount,status\n6f1c...,98.50,success"
+ *     responses:
+ *       201:
+ *         description: Report reconciled; returns the summary and unreadable lines.
+ *       400:
+ *         description: Invalid period, format or report.
+ *       404:
+ *         description: Supplier not found.
+ */
+router.post(
+  '/reconciliations',
+  hasPermission('settlements.reconcile'),
+  AdminController.createReconciliation
+);
+
+/**
+ * @swagger
+ * /admin/reconciliations:
+ *   get:
+ *     summary: List supplier reconciliations
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, closed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reconciliations with their summaries.
+ */
+router.get(
+  '/reconciliations',
+  hasPermission('settlements.read.all'),
+  query('supplierId').optional().isUUID(),
+  query('status').optional().isIn(['open', 'closed']),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  handleValidationErrors,
+  AdminController.getReconciliations
+);
+
+/**
+ * @swagger
+ * /admin/reconciliations/{reconciliationId}:
+ *   get:
+ *     summary: Get a reconciliation with its items
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reconciliationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [matched, amount_mismatch, status_mismatch, duplicate, missing_ours, missing_theirs]
+ *       - in: query
+ *         name: open
+ *         schema:
+ *           type: boolean
+ *         description: Only differences that have not been resolved
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The reconciliation and a page of its items.
+ *       404:
+ *         description: Reconciliation not found.
+ */
+router.get(
+  '/reconciliations/:reconciliationId',
+  hasPermission('settlements.read.all'),
+  param('reconciliationId').isUUID(),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 500 }).toInt(),
+  handleValidationErrors,
+  AdminController.getReconciliation
+);
+
+/**
+ * @swagger
+ * /admin/reconciliations/{reconciliationId}/items/{itemId}:
+ *   patch:
+ *     summary: Resolve a reconciliation difference
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reconciliationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [resolution]
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *                 enum: [accepted, disputed, adjusted]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Item resolved.
+ *       400:
+ *         description: Invalid resolution.
+ *       404:
+ *         description: Reconciliation or item not found.
+ *       409:
+ *         description: Item already resolved, matched, or the reconciliation is closed.
+ */
+router.patch(
+  '/reconciliations/:reconciliationId/items/:itemId',
+  hasPermission('settlements.reconcile'),
+  param('reconciliationId').isUUID(),
+  param('itemId').isUUID(),
+  handleValidationErrors,
+  AdminController.resolveReconciliationItem
+);
+
+/**
+ * @swagger
+ * /admin/reconciliations/{reconciliationId}/close:
+ *   post:
+ *     summary: Close a reconciliation
+ *     description: Every difference must be resolved first.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reconciliationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reconciliation closed.
+ *       404:
+ *         description: Reconciliation not found.
+ *       409:
+ *         description: Already closed or differences remain unresolved.
+ */
+router.post(
+  '/reconciliations/:reconciliationId/close',
+  hasPermission('settlements.reconcile'),
+  param('reconciliationId').isUUID(),
+  handleValidationErrors,
+  AdminController.closeReconciliation
+);
+
+/** @swagger
+ * /admin/ledger/integrity:
+ *   get:
+ *     summary: Check that the ledger balances
+ *     description: |
+ *       Compares total debits with total credits, lists any unbalanced
+ *       journals, shows platform account balances (supplier payable,
+ *       revenue, suspense, provider funding) and reports wallets or cashback
+ *       balances that disagree with the ledger.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Ledger integrity report generated.
+ */
+router.get(
+  '/ledger/integrity',
+  hasPermission('ledger.read.all'),
+  AdminController.getLedgerIntegrity
+);
+
+/** @swagger
+ * /admin/ledger/journals:
+ *   get:
+ *     summary: Get the ledger journals posted for a business object
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: referenceType
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: e.g. topup_request, incoming_payment, admin
+ *       - in: query
+ *         name: referenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ledger journals retrieved successfully.
+ *       400:
+ *         description: referenceType or referenceId missing.
+ */
+router.get(
+  '/ledger/journals',
+  hasPermission('ledger.read.all'),
+  AdminController.getLedgerJournals
+);
+
+// =================================================================
+// Operator Management
+// =================================================================
+
+/** @swagger
+ * /admin/operators:
+ *   get:
+ *     summary: Get all operators
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
@@ -924,31 +1980,31 @@ router.put(
   AdminController.updateOperator
 );
 
-// =================================================================
-// Supplier Management
-// =================================================================
-
 /** @swagger
- * /admin/suppliers:
+ * /admin/operator-prefixes:
  *   get:
- *     summary: Get all suppliers
+ *     summary: List the phone number prefixes of each operator
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Successfully retrieved suppliers.
+ *         description: Prefixes with their operator.
  */
 router.get(
-  '/suppliers',
-  hasPermission('suppliers.read.all'),
-  AdminController.getAllSuppliers
+  '/operator-prefixes',
+  hasPermission('operators.read.all'),
+  AdminController.getOperatorPrefixes
 );
 
 /** @swagger
- * /admin/suppliers:
+ * /admin/operator-prefixes:
  *   post:
- *     summary: Create a new supplier
+ *     summary: Add a phone number prefix to an operator
+ *     description: >
+ *       Recipients are matched to an operator by the longest prefix of their
+ *       number in local form, so '07025' can sit inside another operator's
+ *       '0702'.
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
@@ -958,76 +2014,258 @@ router.get(
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [operatorId, prefix]
  *             properties:
- *               name:
- *                 type: string
- *               slug:
- *                 type: string
- *               apiBase:
+ *               operatorId:
  *                 type: string
- *               apiKey:
+ *                 format: uuid
+ *               prefix:
  *                 type: string
- *               priorityInt:
- *                 type: number
- *               isActive:
- *                 type: boolean
+ *                 example: '0803'
  *     responses:
  *       201:
- *         description: Supplier created successfully.
+ *         description: Prefix added.
+ *       400:
+ *         description: Invalid prefix.
+ *       404:
+ *         description: Operator not found.
+ *       409:
+ *         description: Prefix already belongs to an operator.
  */
 router.post(
-  '/suppliers',
-  hasPermission('suppliers.create'),
-  AdminController.createSupplier
+  '/operator-prefixes',
+  hasPermission('operators.update'),
+  AdminController.addOperatorPrefix
 );
 
 /** @swagger
- * /admin/suppliers/{supplierId}:
- *   get:
- *     summary: Get a single supplier by ID
+ * /admin/operator-prefixes/{prefixId}:
+ *   delete:
+ *     summary: Remove a phone number prefix
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: supplierId
+ *         name: prefixId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
  *     responses:
  *       200:
- *         description: Successfully retrieved supplier.
+ *         description: Prefix removed.
  *       404:
- *         description: Supplier not found.
+ *         description: Prefix not found.
  */
-router.get(
-  '/suppliers/:supplierId',
-  hasPermission('suppliers.read.all'),
-  AdminController.getSupplierById
+router.delete(
+  '/operator-prefixes/:prefixId',
+  hasPermission('operators.update'),
+  param('prefixId').isUUID(),
+  handleValidationErrors,
+  AdminController.removeOperatorPrefix
 );
 
 /** @swagger
- * /admin/suppliers/{supplierId}:
- *   put:
- *     summary: Update a supplier's details
+ * /admin/ported-numbers:
+ *   get:
+ *     summary: List numbers recorded as ported to another operator
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: supplierId
- *         required: true
+ *       - in: query
+ *         name: page
  *         schema:
- *           type: string
- *           format: uuid
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Ported numbers, most recently changed first.
+ */
+router.get(
+  '/ported-numbers',
+  hasPermission('operators.read.all'),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  handleValidationErrors,
+  AdminController.getPortedNumbers
+);
+
+/** @swagger
+ * /admin/ported-numbers/{phoneNumber}:
+ *   put:
+ *     summary: Record the operator a ported number moved to
+ *     description: Overrides the prefix registry for this number.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: phoneNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: '08031234567'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [operatorId]
+ *             properties:
+ *               operatorId:
+ *                 type: string
+ *                 format: uuid
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Ported number saved.
+ *       400:
+ *         description: Not a valid Nigerian mobile number.
+ *       404:
+ *         description: Operator not found.
+ */
+router.put(
+  '/ported-numbers/:phoneNumber',
+  hasPermission('operators.update'),
+  AdminController.setPortedNumber
+);
+
+/** @swagger
+ * /admin/ported-numbers/{phoneNumber}:
+ *   delete:
+ *     summary: Remove a ported number, so its prefix decides its operator
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: phoneNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ported number removed.
+ *       404:
+ *         description: Ported number not found.
+ */
+router.delete(
+  '/ported-numbers/:phoneNumber',
+  hasPermission('operators.update'),
+  AdminController.removePortedNumber
+);
+
+// =================================================================
+// Supplier Management
+// =================================================================
+
+/** @swagger
+ * /admin/suppliers:
+ *   get:
+ *     summary: Get all suppliers
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved suppliers.
+ */
+router.get(
+  '/suppliers',
+  hasPermission('suppliers.read.all'),
+  AdminController.getAllSuppliers
+);
+
+/** @swagger
+ * /admin/suppliers:
+ *   post:
+ *     summary: Create a new supplier
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               apiBase:
+ *                 type: string
+ *               apiKey:
+ *                 type: string
+ *               priorityInt:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Supplier created successfully.
+ */
+router.post(
+  '/suppliers',
+  hasPermission('suppliers.create'),
+  AdminController.createSupplier
+);
+
+/** @swagger
+ * /admin/suppliers/{supplierId}:
+ *   get:
+ *     summary: Get a single supplier by ID
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: supplierId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved supplier.
+ *       404:
+ *         description: Supplier not found.
+ */
+router.get(
+  '/suppliers/:supplierId',
+  hasPermission('suppliers.read.all'),
+  AdminController.getSupplierById
+);
+
+/** @swagger
+ * /admin/suppliers/{supplierId}:
+ *   put:
+ *     summary: Update a supplier's details
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: supplierId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
  *               name:
  *                 type: string
  *               apiBase:
@@ -1253,63 +2491,393 @@ router.post(
   AdminController.mapProductToSupplier
 );
 
-// ---------------- Offer admin endpoints ----------------
-/**
- * @swagger
- * /admin/offers/{offerId}/compute-segment:
- *   post:
- *     summary: Compute and populate precomputed eligible users for an offer
+// =================================================================
+// Pricing Management
+// =================================================================
+
+/** @swagger
+ * /admin/pricing/rules:
+ *   get:
+ *     summary: Get commission (pricing) rules
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: offerId
- *         required: true
+ *       - in: query
+ *         name: operatorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: operatorProductId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: supplierId
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
  *     responses:
  *       200:
- *         description: Segment computed successfully.
+ *         description: Commission rules retrieved successfully.
+ */
+router.get(
+  '/pricing/rules',
+  hasPermission('pricing.read.all'),
+  AdminController.getCommissionRules
+);
+
+/** @swagger
+ * /admin/pricing/rules:
+ *   post:
+ *     summary: Create a commission rule
+ *     description: |
+ *       The customer price is the supplier price plus `ratePercent` of it
+ *       plus `fixedAmount`. Scope fields left empty match everything; the
+ *       most specific matching rule wins (user, then product, supplier,
+ *       operator, role). Without a matching rule the default markup applies.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               operatorId:
+ *                 type: string
+ *                 format: uuid
+ *               operatorProductId:
+ *                 type: string
+ *                 format: uuid
+ *               supplierId:
+ *                 type: string
+ *                 format: uuid
+ *               role:
+ *                 type: string
+ *                 example: reseller
+ *               agentId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Apply to a single user
+ *               ratePercent:
+ *                 type: number
+ *               fixedAmount:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Commission rule created successfully.
  *       400:
- *         description: Bad request.
+ *         description: Invalid rate, amount or role.
+ *       404:
+ *         description: A referenced operator, product, supplier or user was not found.
  */
 router.post(
-  '/offers/:offerId/compute-segment',
-  hasPermission('offer.admin'),
-  AdminController.computeOfferSegment
+  '/pricing/rules',
+  hasPermission('pricing.manage'),
+  AdminController.createCommissionRule
 );
 
-/**
- * @swagger
- * /admin/offers/{offerId}/eligible-users:
+/** @swagger
+ * /admin/pricing/rules/{ruleId}:
  *   get:
- *     summary: Get precomputed eligible users for an offer (paginated)
+ *     summary: Get a commission rule by ID
  *     tags: [Administration]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: offerId
+ *         name: ruleId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
  *     responses:
  *       200:
- *         description: List of eligible users.
+ *         description: Commission rule retrieved successfully.
+ *       404:
+ *         description: Commission rule not found.
  */
 router.get(
-  '/offers/:offerId/eligible-users',
+  '/pricing/rules/:ruleId',
+  hasPermission('pricing.read.all'),
+  AdminController.getCommissionRuleById
+);
+
+/** @swagger
+ * /admin/pricing/rules/{ruleId}:
+ *   put:
+ *     summary: Update a commission rule
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Any of the fields accepted on create
+ *     responses:
+ *       200:
+ *         description: Commission rule updated successfully.
+ *       404:
+ *         description: Commission rule not found.
+ */
+router.put(
+  '/pricing/rules/:ruleId',
+  hasPermission('pricing.manage'),
+  AdminController.updateCommissionRule
+);
+
+/** @swagger
+ * /admin/pricing/rules/{ruleId}:
+ *   delete:
+ *     summary: Delete a commission rule
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Commission rule deleted successfully.
+ *       404:
+ *         description: Commission rule not found.
+ */
+router.delete(
+  '/pricing/rules/:ruleId',
+  hasPermission('pricing.manage'),
+  AdminController.deleteCommissionRule
+);
+
+/** @swagger
+ * /admin/pricing/quote:
+ *   get:
+ *     summary: Preview the price of a product for a role or user
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: operatorProductId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Price quote generated.
+ *       404:
+ *         description: Product not found or not sold by any active supplier.
+ */
+router.get(
+  '/pricing/quote',
+  hasPermission('pricing.read.all'),
+  AdminController.getPriceQuote
+);
+
+// ---------------- E-PIN inventory endpoints ----------------
+/**
+ * @swagger
+ * /admin/epins/batches:
+ *   post:
+ *     summary: Import a batch of E-PINs from CSV
+ *     description: |
+ *       The CSV needs a header row with a `pin` column; `serial`,
+ *       `denomination` and `cost_price` columns are optional and default to
+ *       the values in the request. PINs are stored encrypted. PINs already in
+ *       stock are skipped and counted as duplicates; malformed rows are
+ *       reported with their line number.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [operatorId, csv]
+ *             properties:
+ *               operatorId:
+ *                 type: string
+ *                 format: uuid
+ *               supplierId:
+ *                 type: string
+ *                 format: uuid
+ *               denomination:
+ *                 type: number
+ *               costPrice:
+ *                 type: number
+ *               fileName:
+ *                 type: string
+ *               csv:
+ *                 type: string
+ *                 example: "pin,serial,denomination\n1234567890123456,SN0001,100"
+ *     responses:
+ *       201:
+ *         description: Batch imported.
+ *       400:
+ *         description: Empty CSV or missing pin column.
+ *       404:
+ *         description: Operator or supplier not found.
+ */
+router.post(
+  '/epins/batches',
+  hasPermission('epins.manage'),
+  AdminController.uploadEpinBatch
+);
+
+/**
+ * @swagger
+ * /admin/epins/stock:
+ *   get:
+ *     summary: E-PIN stock per operator and denomination
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Stock levels with their low-stock alert level.
+ */
+router.get(
+  '/epins/stock',
+  hasPermission('epins.read.all'),
+  AdminController.getEpinStock
+);
+
+/**
+ * @swagger
+ * /admin/epins/thresholds:
+ *   put:
+ *     summary: Set the low-stock alert level for a denomination
+ *     description: Admins are notified when a sale takes available stock below this level.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [operatorId, denomination, threshold]
+ *             properties:
+ *               operatorId:
+ *                 type: string
+ *                 format: uuid
+ *               denomination:
+ *                 type: number
+ *               threshold:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Alert level updated.
+ *       400:
+ *         description: Invalid denomination or threshold.
+ *       404:
+ *         description: Operator not found.
+ */
+router.put(
+  '/epins/thresholds',
+  hasPermission('epins.manage'),
+  AdminController.setEpinStockThreshold
+);
+
+// ---------------- Offer admin endpoints ----------------
+/**
+ * @swagger
+ * /admin/offers/{offerId}/compute-segment:
+ *   post:
+ *     summary: Compute and populate precomputed eligible users for an offer
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Segment computed successfully.
+ *       400:
+ *         description: Bad request.
+ */
+router.post(
+  '/offers/:offerId/compute-segment',
+  hasPermission('offer.admin'),
+  AdminController.computeOfferSegment
+);
+
+/**
+ * @swagger
+ * /admin/offers/{offerId}/eligible-users:
+ *   get:
+ *     summary: Get precomputed eligible users for an offer (paginated)
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of eligible users.
+ */
+router.get(
+  '/offers/:offerId/eligible-users',
   hasPermission('offer.read'),
   AdminController.getOfferSegmentMembers
 );
@@ -1389,4 +2957,757 @@ router.post(
   AdminController.createOfferRedemptionsJob
 );
 
+/**
+ * @swagger
+ * /admin/offers/rule-types:
+ *   get:
+ *     summary: List the eligibility rule types and the params each accepts
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rule types with their params.
+ */
+router.get(
+  '/offers/rule-types',
+  hasPermission('offer.read'),
+  AdminController.getOfferRuleTypes
+);
+
+/**
+ * @swagger
+ * /admin/offers/{offerId}/rules:
+ *   get:
+ *     summary: List an offer's eligibility rules
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The offer's rules in evaluation order.
+ *       404:
+ *         description: Offer not found.
+ */
+router.get(
+  '/offers/:offerId/rules',
+  hasPermission('offer.read'),
+  param('offerId').isUUID(),
+  handleValidationErrors,
+  AdminController.getOfferRules
+);
+
+/**
+ * @swagger
+ * /admin/offers/{offerId}/rules:
+ *   post:
+ *     summary: Add an eligibility rule to an offer
+ *     description: |
+ *       `params` are checked against the rule type (see
+ *       /admin/offers/rule-types); unknown, missing or out-of-range params
+ *       and operators or badges that do not exist are rejected. The segment
+ *       of an active offer is recomputed afterwards.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ruleType]
+ *             properties:
+ *               ruleType:
+ *                 type: string
+ *                 example: min_wallet_funding
+ *               ruleKey:
+ *                 type: string
+ *                 description: Defaults to the rule type
+ *               params:
+ *                 type: object
+ *                 example: { "amount": 5000, "window_days": 30 }
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Rule created.
+ *       400:
+ *         description: Unknown rule type or invalid params.
+ *       404:
+ *         description: Offer not found.
+ */
+router.post(
+  '/offers/:offerId/rules',
+  hasPermission('offer.update'),
+  param('offerId').isUUID(),
+  handleValidationErrors,
+  AdminController.createOfferRule
+);
+
+/**
+ * @swagger
+ * /admin/offers/{offerId}/rules/{ruleId}:
+ *   patch:
+ *     summary: Change an eligibility rule
+ *     description: Params are validated against the rule type, so send both when changing the type.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ruleType:
+ *                 type: string
+ *               ruleKey:
+ *                 type: string
+ *               params:
+ *                 type: object
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rule updated.
+ *       400:
+ *         description: Unknown rule type or invalid params.
+ *       404:
+ *         description: Offer or rule not found.
+ */
+router.patch(
+  '/offers/:offerId/rules/:ruleId',
+  hasPermission('offer.update'),
+  param('offerId').isUUID(),
+  param('ruleId').isUUID(),
+  handleValidationErrors,
+  AdminController.updateOfferRule
+);
+
+/**
+ * @swagger
+ * /admin/offers/{offerId}/rules/{ruleId}:
+ *   delete:
+ *     summary: Remove an eligibility rule
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rule deleted.
+ *       404:
+ *         description: Offer or rule not found.
+ */
+router.delete(
+  '/offers/:offerId/rules/:ruleId',
+  hasPermission('offer.update'),
+  param('offerId').isUUID(),
+  param('ruleId').isUUID(),
+  handleValidationErrors,
+  AdminController.deleteOfferRule
+);
+
+/**
+ * @swagger
+ * /admin/rewards/catalogue:
+ *   get:
+ *     summary: List the reward points catalogue, including switched-off items
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reward catalogue retrieved.
+ */
+router.get(
+  '/rewards/catalogue',
+  hasPermission('rewards.manage'),
+  AdminController.getRewardCatalogue
+);
+
+/**
+ * @swagger
+ * /admin/rewards/catalogue:
+ *   post:
+ *     summary: Add an item users can redeem points for
+ *     description: >
+ *       wallet_credit and cashback items convert points at conversionRate
+ *       (naira per point). product items buy one operator product for a fixed
+ *       pointsCost. perUserLimit and maxPointsPerUser cap each user over the
+ *       last capWindowDays, or for all time when it is not set.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, type]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [wallet_credit, cashback, product]
+ *               conversionRate:
+ *                 type: number
+ *                 example: 0.5
+ *               minPoints:
+ *                 type: integer
+ *               pointsCost:
+ *                 type: integer
+ *               operatorProductId:
+ *                 type: string
+ *                 format: uuid
+ *               perUserLimit:
+ *                 type: integer
+ *               maxPointsPerUser:
+ *                 type: integer
+ *               capWindowDays:
+ *                 type: integer
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Catalogue item created.
+ *       400:
+ *         description: Invalid rate, cost or caps.
+ */
+router.post(
+  '/rewards/catalogue',
+  hasPermission('rewards.manage'),
+  AdminController.createRewardCatalogueItem
+);
+
+/**
+ * @swagger
+ * /admin/rewards/catalogue/{itemId}:
+ *   patch:
+ *     summary: Change a catalogue item's rate, caps or availability
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Any of the fields accepted when creating an item
+ *     responses:
+ *       200:
+ *         description: Catalogue item updated.
+ *       400:
+ *         description: Invalid rate, cost or caps.
+ *       404:
+ *         description: Catalogue item not found.
+ */
+router.patch(
+  '/rewards/catalogue/:itemId',
+  hasPermission('rewards.manage'),
+  param('itemId').isUUID(),
+  handleValidationErrors,
+  AdminController.updateRewardCatalogueItem
+);
+
+/**
+ * @swagger
+ * /admin/rewards/expiry-policies:
+ *   get:
+ *     summary: List how long points earned for each reason last
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Points expiry policies retrieved.
+ */
+router.get(
+  '/rewards/expiry-policies',
+  hasPermission('rewards.manage'),
+  AdminController.getPointsExpiryPolicies
+);
+
+/**
+ * @swagger
+ * /admin/rewards/expiry-policies/{reason}:
+ *   put:
+ *     summary: Set how long points earned for a reason last
+ *     description: >
+ *       Applies to points awarded from now on; points already awarded keep
+ *       their expiry date. Users are warned 7 days before points expire.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reason
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: referral_sign_up
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [expiryDays]
+ *             properties:
+ *               expiryDays:
+ *                 type: integer
+ *                 example: 180
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Points expiry policy saved.
+ *       400:
+ *         description: Invalid expiryDays.
+ */
+router.put(
+  '/rewards/expiry-policies/:reason',
+  hasPermission('rewards.manage'),
+  AdminController.setPointsExpiryPolicy
+);
+
+/**
+ * @swagger
+ * /admin/rewards/expiry-policies/{reason}:
+ *   delete:
+ *     summary: Stop points earned for a reason from expiring
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reason
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Points expiry policy deleted.
+ *       404:
+ *         description: Expiry policy not found.
+ */
+router.delete(
+  '/rewards/expiry-policies/:reason',
+  hasPermission('rewards.manage'),
+  AdminController.deletePointsExpiryPolicy
+);
+
+/**
+ * @swagger
+ * /admin/badges/metrics:
+ *   get:
+ *     summary: List what badge rules can measure
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Metrics and comparators.
+ */
+router.get(
+  '/badges/metrics',
+  hasPermission('badges.manage'),
+  AdminController.getBadgeMetrics
+);
+
+/**
+ * @swagger
+ * /admin/badges:
+ *   get:
+ *     summary: List all badges with their rules, including inactive ones
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Badges retrieved.
+ */
+router.get(
+  '/badges',
+  hasPermission('badges.manage'),
+  AdminController.getBadges
+);
+
+/**
+ * @swagger
+ * /admin/badges:
+ *   post:
+ *     summary: Create a badge
+ *     description: >
+ *       The rule awards the badge when the metric, over the last windowDays
+ *       if set, compares to threshold. Give ascending tiers instead of a
+ *       threshold for a badge users move up through.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               icon:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 enum: [achievement, milestone, special]
+ *               isActive:
+ *                 type: boolean
+ *               rule:
+ *                 type: object
+ *                 properties:
+ *                   metric:
+ *                     type: string
+ *                     example: topup_count
+ *                   comparator:
+ *                     type: string
+ *                     enum: [gte, gt, eq, lte, lt]
+ *                   threshold:
+ *                     type: number
+ *                   windowDays:
+ *                     type: integer
+ *                   tiers:
+ *                     type: array
+ *                     items:
+ *                       type: number
+ *                     example: [10, 50, 100]
+ *     responses:
+ *       201:
+ *         description: Badge created.
+ *       400:
+ *         description: Invalid rule.
+ *       409:
+ *         description: A badge with this name already exists.
+ */
+router.post(
+  '/badges',
+  hasPermission('badges.manage'),
+  AdminController.createBadge
+);
+
+/**
+ * @swagger
+ * /admin/badges/{badgeId}:
+ *   patch:
+ *     summary: Change a badge or its rule
+ *     description: Users who already hold the badge keep it.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: badgeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Any of the fields accepted when creating a badge
+ *     responses:
+ *       200:
+ *         description: Badge updated.
+ *       400:
+ *         description: Invalid rule.
+ *       404:
+ *         description: Badge not found.
+ */
+router.patch(
+  '/badges/:badgeId',
+  hasPermission('badges.manage'),
+  param('badgeId').isUUID(),
+  handleValidationErrors,
+  AdminController.updateBadge
+);
+
+/**
+ * @swagger
+ * /admin/badges/{badgeId}/backfill:
+ *   post:
+ *     summary: Award a badge to every existing user who meets its rule
+ *     description: Runs as a background job; poll it with GET /admin/jobs/{jobId}.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: badgeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Backfill job created.
+ *       400:
+ *         description: Badge has no rule or is inactive.
+ *       404:
+ *         description: Badge not found.
+ */
+router.post(
+  '/badges/:badgeId/backfill',
+  hasPermission('badges.manage'),
+  param('badgeId').isUUID(),
+  handleValidationErrors,
+  AdminController.backfillBadge
+);
+
+/**
+ * @swagger
+ * /admin/referrals/reviews:
+ *   get:
+ *     summary: List referrals held for suspected fraud
+ *     description: >
+ *       Referrals whose fraud score (shared device, IP, phone number pattern
+ *       or wallet transfers with the referrer) reached the review threshold.
+ *       Their rewards stay pending until approved.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [flagged, approved, rejected]
+ *           default: flagged
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Referrals with their fraud score and signals.
+ */
+router.get(
+  '/referrals/reviews',
+  hasPermission('referrals.review'),
+  query('status').optional().isIn(['flagged', 'approved', 'rejected']),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  handleValidationErrors,
+  AdminController.getReferralReviews
+);
+
+/**
+ * @swagger
+ * /admin/referrals/{referralId}/approve:
+ *   post:
+ *     summary: Approve a flagged referral and release its reward
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referralId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Referral approved.
+ *       404:
+ *         description: Referral not found.
+ *       409:
+ *         description: Referral is not awaiting review.
+ */
+router.post(
+  '/referrals/:referralId/approve',
+  hasPermission('referrals.review'),
+  param('referralId').isUUID(),
+  handleValidationErrors,
+  AdminController.approveReferral
+);
+
+/**
+ * @swagger
+ * /admin/referrals/{referralId}/cancel:
+ *   post:
+ *     summary: Cancel a flagged referral and revoke its reward
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referralId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Referral cancelled.
+ *       404:
+ *         description: Referral not found.
+ *       409:
+ *         description: Referral is not awaiting review.
+ */
+router.post(
+  '/referrals/:referralId/cancel',
+  hasPermission('referrals.review'),
+  param('referralId').isUUID(),
+  handleValidationErrors,
+  AdminController.rejectReferral
+);
+
+/**
+ * @swagger
+ * /admin/referrals/commission-levels:
+ *   get:
+ *     summary: List referral commission levels
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Level 1 (direct referrer) and level 2 settings.
+ */
+router.get(
+  '/referrals/commission-levels',
+  hasPermission('rewards.manage'),
+  AdminController.getReferralCommissionLevels
+);
+
+/**
+ * @swagger
+ * /admin/referrals/commission-levels/{level}:
+ *   put:
+ *     summary: Set what referrers earn on referee topups at a level
+ *     description: >
+ *       Level 1 pays the referee's referrer, level 2 the referrer's own
+ *       referrer. Commission is a percentage of the topup margin, credited to
+ *       cashback, for a number of months after the referee signs up.
+ *     tags: [Administration]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: level
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           enum: [1, 2]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [percentage, durationMonths]
+ *             properties:
+ *               percentage:
+ *                 type: number
+ *                 example: 10
+ *               durationMonths:
+ *                 type: integer
+ *                 example: 6
+ *               capPerReferee:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Most a referrer earns from one referee (naira)
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Level saved.
+ *       400:
+ *         description: Invalid settings.
+ */
+router.put(
+  '/referrals/commission-levels/:level',
+  hasPermission('rewards.manage'),
+  param('level').isIn(['1', '2']),
+  handleValidationErrors,
+  AdminController.setReferralCommissionLevel
+);
+
 export default router;
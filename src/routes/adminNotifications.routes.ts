@@ -213,6 +213,78 @@ router.delete(
   NotificationController.archiveNotification
 );
 
+/**
+ * @swagger
+ * /admin/notifications/{notificationId}/cancel:
+ *   post:
+ *     summary: Cancel a scheduled notification before it is sent
+ *     tags: [Admin - Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notification cancelled
+ *       404:
+ *         description: Notification not found
+ *       409:
+ *         description: Notification was already sent, cancelled or is being sent
+ */
+router.post(
+  '/:notificationId/cancel',
+  hasPermission('update.notification'),
+  NotificationController.cancelScheduledNotification
+);
+
+/**
+ * @swagger
+ * /admin/notifications/{notificationId}/schedule:
+ *   patch:
+ *     summary: Reschedule a notification that has not been sent yet
+ *     tags: [Admin - Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [publish_at]
+ *             properties:
+ *               publish_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: New send time; must be in the future
+ *     responses:
+ *       200:
+ *         description: Notification rescheduled
+ *       400:
+ *         description: publish_at missing or not in the future
+ *       404:
+ *         description: Notification not found
+ *       409:
+ *         description: Notification was already sent, cancelled or is being sent
+ */
+router.patch(
+  '/:notificationId/schedule',
+  hasPermission('update.notification'),
+  NotificationController.rescheduleNotification
+);
+
 /**
  * @swagger
  * /admin/notifications/{notificationId}/analytics:
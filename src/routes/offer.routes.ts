@@ -38,6 +38,30 @@ router.use(authenticate);
  */
 router.post('/', hasPermission('offer.create'), OfferController.createOffer);
 
+/**
+ * @swagger
+ * /offers/available:
+ *   get:
+ *     summary: Offers the signed-in user can use now
+ *     description: |
+ *       Active offers within their window that the user is in the segment
+ *       of or qualifies for by the offer's rules. Each offer shows the uses
+ *       left under its per-user limit and, for each product it lists, the
+ *       user's price with and without the offer. Pass the offer's ID or
+ *       code as `offer` to `POST /user/topup` to use it.
+ *     tags: [Offers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Available offers, soonest ending first.
+ */
+router.get(
+  '/available',
+  hasPermission('offer.read.available'),
+  OfferController.getAvailableOffers
+);
+
 /**
  * @swagger
  * /offers/{offerId}:
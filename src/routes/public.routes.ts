@@ -8,6 +8,10 @@ const router = Router();
  * /products:
  *   get:
  *     summary: Get public operator products
+ *     description: |
+ *       Each product carries `price`, the amount a regular user is charged,
+ *       computed from the active commission rules (null when no supplier
+ *       currently sells the product).
  *     tags: [Public]
  *     parameters:
  *       - in: query
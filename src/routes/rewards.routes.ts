@@ -23,6 +23,7 @@ const router = Router();
  * /api/v1/dashboard/rewards:
  *   get:
  *     summary: Get rewards summary for authenticated user
+ *     description: Includes unspent points due to expire, summed per day.
  *     tags: [Rewards & Referrals]
  *     security:
  *       - BearerAuth: []
@@ -180,6 +181,107 @@ router.post(
   RewardsController.creditPendingPoints
 );
 
+// ============================================
+// Points Redemption Endpoints
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/dashboard/rewards/catalogue:
+ *   get:
+ *     summary: List what reward points can be redeemed for
+ *     tags: [Rewards & Referrals]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reward catalogue retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/rewards/catalogue', authenticate, RewardsController.getCatalogue);
+
+/**
+ * @swagger
+ * /api/v1/dashboard/rewards/redeem:
+ *   post:
+ *     summary: Redeem points for wallet credit, cashback or a product
+ *     tags: [Rewards & Referrals]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Catalogue item to redeem
+ *               points:
+ *                 type: integer
+ *                 description: Points to convert (wallet credit and cashback items)
+ *               recipientPhone:
+ *                 type: string
+ *                 description: Number to top up (product items)
+ *             required:
+ *               - itemId
+ *     responses:
+ *       201:
+ *         description: Points redeemed successfully
+ *       400:
+ *         description: Invalid points or missing recipient
+ *       401:
+ *         description: Authentication required
+ *       402:
+ *         description: Insufficient points
+ *       403:
+ *         description: Redemption cap reached
+ *       404:
+ *         description: Catalogue item not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/rewards/redeem', authenticate, RewardsController.redeemPoints);
+
+/**
+ * @swagger
+ * /api/v1/dashboard/rewards/redemptions:
+ *   get:
+ *     summary: List the authenticated user's points redemptions
+ *     tags: [Rewards & Referrals]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Redemptions retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/rewards/redemptions',
+  authenticate,
+  RewardsController.getRedemptions
+);
+
 // ============================================
 // Referrals Endpoints
 // ============================================
@@ -244,6 +346,33 @@ router.get(
   ReferralsController.getReferralList
 );
 
+/**
+ * @swagger
+ * /api/v1/dashboard/referrals/commissions:
+ *   get:
+ *     summary: Get the commission earned on referees' topups
+ *     description: >
+ *       Referrers earn a share of the margin on each successful topup by the
+ *       users they referred (level 1) and by the users those users referred
+ *       (level 2), credited to cashback. Each referee earns for a limited
+ *       number of months and up to a cap.
+ *     tags: [Rewards & Referrals]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Totals overall, per level and per referee
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/referrals/commissions',
+  authenticate,
+  ReferralsController.getCommissionBreakdown
+);
+
 // INTERNAL ADMIN ONLY - Not exposed in public API
 // Used for testing and admin manual intervention only
 router.post(
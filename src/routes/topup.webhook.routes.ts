@@ -12,10 +12,22 @@ const router = Router();
 
 /**
  * @swagger
- * /webhooks/topup-vendor:
+ * /webhooks/topup-vendor/{supplierSlug}:
  *   post:
  *     summary: Simulate a topup vendor webhook
+ *     description: >
+ *       A callback from a supplier the top-up has since failed over from is
+ *       recorded but does not change the top-up. Without a supplier slug, a
+ *       callback cannot resolve a top-up that has been sent to more than one
+ *       supplier.
  *     tags: [Topup Webhook]
+ *     parameters:
+ *       - in: path
+ *         name: supplierSlug
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: The supplier sending the callback
  *     requestBody:
  *       required: true
  *       content:
@@ -45,7 +57,12 @@ const router = Router();
  *     responses:
  *       200:
  *         description: Webhook processed successfully.
+ *       404:
+ *         description: Top-up request or supplier not found.
  */
-router.post('/topup-vendor', new TopupWebhookController().simulateTopup);
+router.post(
+  '/topup-vendor/:supplierSlug?',
+  new TopupWebhookController().simulateTopup
+);
 
 export default router;
@@ -157,6 +157,133 @@ router.get(
   UserController.getTransactionById
 );
 
+/**
+ * @swagger
+ * /user/wallet/statement:
+ *   get:
+ *     summary: Download an account statement
+ *     description: |
+ *       Opening balance, every credit and debit in the period with what it
+ *       was for, and the closing balance. A date without a time covers that
+ *       whole day. Defaults to the current month so far; at most 366 days.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, csv]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: The statement file.
+ *         content:
+ *           application/pdf: {}
+ *           text/csv: {}
+ *       400:
+ *         description: Invalid period or format.
+ */
+router.get(
+  '/wallet/statement',
+  hasPermission('transactions.read.own'),
+  UserController.downloadStatement
+);
+
+/**
+ * @swagger
+ * /user/wallet/statement/email:
+ *   post:
+ *     summary: Email an account statement
+ *     description: Sends the statement for the period as a PDF to the user's email.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 format: date
+ *               to:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Statement sent.
+ *       400:
+ *         description: Invalid period.
+ */
+router.post(
+  '/wallet/statement/email',
+  hasPermission('transactions.read.own'),
+  UserController.emailStatement
+);
+
+/**
+ * @swagger
+ * /user/wallet/transfer:
+ *   post:
+ *     summary: Send wallet balance to another user
+ *     description: |
+ *       Moves funds to the wallet of the user with the given phone number or
+ *       email. Requires the transaction PIN and is subject to per-transfer
+ *       and daily limits. Both users receive a transaction alert.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [recipient, amount, pin]
+ *             properties:
+ *               recipient:
+ *                 type: string
+ *                 description: Recipient's phone number or email.
+ *               amount:
+ *                 type: number
+ *               pin:
+ *                 type: string
+ *                 description: The 4-digit transaction PIN.
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Transfer completed successfully.
+ *       400:
+ *         description: Invalid amount or recipient.
+ *       401:
+ *         description: Invalid transaction PIN.
+ *       402:
+ *         description: Insufficient balance.
+ *       404:
+ *         description: Recipient not found.
+ *       429:
+ *         description: Daily transfer limit reached.
+ */
+router.post(
+  '/wallet/transfer',
+  hasPermission('wallet.transfer'),
+  UserController.transfer
+);
+
 // =================================================================
 // Purchase History
 // =================================================================
@@ -220,10 +347,193 @@ router.get(
  *                 type: string
  *               useCashback:
  *                 type: boolean
+ *               offer:
+ *                 type: string
+ *                 description: |
+ *                   Offer ID or code. The discount is worked out on the
+ *                   server from the offer and taken off the charged price.
  *     responses:
  *       201:
  *         description: Topup request created successfully.
+ *       400:
+ *         description: >
+ *           Offer is not active or does not apply to the product, or the
+ *           recipient is on a different network from the product.
+ *       403:
+ *         description: User not eligible for the offer or limit reached.
+ *       404:
+ *         description: Offer not found.
+ *       409:
+ *         description: Offer has been fully redeemed.
  */
 router.post('/topup', hasPermission('topup.create'), UserController.topup);
 
+/**
+ * @swagger
+ * /user/operators/lookup:
+ *   get:
+ *     summary: Detect which network a phone number is on
+ *     description: >
+ *       Matches the number against the operator prefix registry, with
+ *       ported numbers taking their recorded network.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: phone
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: '08031234567'
+ *     responses:
+ *       200:
+ *         description: The number's operator.
+ *       400:
+ *         description: Not a valid Nigerian mobile number.
+ *       404:
+ *         description: The number's network is unknown.
+ */
+router.get(
+  '/operators/lookup',
+  hasPermission('topup.create'),
+  UserController.lookupOperator
+);
+
+// =================================================================
+// E-PINs
+// =================================================================
+
+/**
+ * @swagger
+ * /user/epins/purchase:
+ *   post:
+ *     summary: Buy E-PINs (recharge cards) from wallet balance
+ *     description: |
+ *       Sells `quantity` PINs of the E-PIN product from stock and debits the
+ *       wallet. The PINs are returned in the response and can be retrieved
+ *       again from the order.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [productCode, pin]
+ *             properties:
+ *               productCode:
+ *                 type: string
+ *                 description: Code of an E-PIN operator product.
+ *               quantity:
+ *                 type: integer
+ *                 default: 1
+ *               pin:
+ *                 type: string
+ *                 description: The 4-digit transaction PIN.
+ *     responses:
+ *       201:
+ *         description: E-PINs purchased successfully.
+ *       400:
+ *         description: Invalid quantity or product unavailable.
+ *       401:
+ *         description: Invalid transaction PIN.
+ *       402:
+ *         description: Insufficient balance.
+ *       404:
+ *         description: E-PIN product not found.
+ *       409:
+ *         description: Not enough PINs in stock.
+ */
+router.post(
+  '/epins/purchase',
+  hasPermission('epins.purchase'),
+  UserController.purchaseEpins
+);
+
+/**
+ * @swagger
+ * /user/epins/orders:
+ *   get:
+ *     summary: List the user's E-PIN orders
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: E-PIN orders retrieved successfully.
+ */
+router.get(
+  '/epins/orders',
+  hasPermission('epins.purchase'),
+  UserController.getMyEpinOrders
+);
+
+/**
+ * @swagger
+ * /user/epins/orders/{orderId}:
+ *   get:
+ *     summary: Get an E-PIN order with its PINs
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: E-PIN order retrieved successfully.
+ *       404:
+ *         description: E-PIN order not found.
+ */
+router.get(
+  '/epins/orders/:orderId',
+  hasPermission('epins.purchase'),
+  UserController.getMyEpinOrder
+);
+
+/**
+ * @swagger
+ * /user/epins/orders/{orderId}/print:
+ *   get:
+ *     summary: Printable voucher sheet for an E-PIN order
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: HTML page with one voucher per PIN.
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: E-PIN order not found.
+ */
+router.get(
+  '/epins/orders/:orderId/print',
+  hasPermission('epins.purchase'),
+  UserController.printMyEpinOrder
+);
+
 export default router;
@@ -0,0 +1,137 @@
+import {
+  AnalyticsBucket,
+  AnalyticsModel,
+  AnalyticsRange,
+  TopupAnalyticsDimension,
+} from '../models/Analytics';
+import { ApiError } from '../utils/ApiError';
+
+export interface AnalyticsQuery {
+  from?: string;
+  to?: string;
+  bucket?: AnalyticsBucket;
+}
+
+export interface TopupAnalyticsQuery extends AnalyticsQuery {
+  groupBy?: TopupAnalyticsDimension;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// Longest range each bucket size may cover, so a series stays chartable
+const MAX_RANGE_DAYS: Record<AnalyticsBucket, number> = {
+  day: 366,
+  week: 731,
+  month: 1827,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const sum = <T>(rows: T[], pick: (row: T) => number) =>
+  Math.round(rows.reduce((total, row) => total + pick(row), 0) * 100) / 100;
+
+// =================================================================
+// Analytics Service
+// =================================================================
+
+export class AnalyticsService {
+  /**
+   * Reports topup GMV, margin, success rate and fulfilment latency over a
+   * range, bucketed over time and broken down by one dimension
+   * @param query - Range, bucket size and breakdown dimension
+   */
+  static async getTopupAnalytics(query: TopupAnalyticsQuery) {
+    const { range, bucket } = this.resolveRange(query);
+    const groupBy = query.groupBy || 'operator';
+
+    const [totals, series, breakdown] = await Promise.all([
+      AnalyticsModel.getTopupTotals(range),
+      AnalyticsModel.getTopupSeries(range, bucket),
+      AnalyticsModel.getTopupBreakdown(range, groupBy),
+    ]);
+    return { range, bucket, groupBy, totals, series, breakdown };
+  }
+
+  /**
+   * Reports wallet funding received through virtual accounts
+   * @param query - Range and bucket size
+   */
+  static async getFundingAnalytics(query: AnalyticsQuery) {
+    const { range, bucket } = this.resolveRange(query);
+    const series = await AnalyticsModel.getFundingInflow(range, bucket);
+
+    return {
+      range,
+      bucket,
+      totals: {
+        amount: sum(series, row => row.amount),
+        count: series.reduce((total, row) => total + row.count, 0),
+        unmatchedAmount: sum(series, row => row.unmatchedAmount),
+      },
+      series,
+    };
+  }
+
+  /**
+   * Reports the cashback users can still spend, and how much was earned,
+   * redeemed and adjusted over a range
+   * @param query - Range and bucket size
+   */
+  static async getCashbackAnalytics(query: AnalyticsQuery) {
+    const { range, bucket } = this.resolveRange(query);
+    const [liability, series] = await Promise.all([
+      AnalyticsModel.getCashbackLiability(),
+      AnalyticsModel.getCashbackMovements(range, bucket),
+    ]);
+
+    return {
+      liability,
+      range,
+      bucket,
+      totals: {
+        earned: sum(series, row => row.earned),
+        redeemed: sum(series, row => row.redeemed),
+        adjusted: sum(series, row => row.adjusted),
+      },
+      series,
+    };
+  }
+
+  /**
+   * Turns query dates into a half-open range. A date without a time covers
+   * that whole day; without dates the range is the last 30 days.
+   * @param query - Range and bucket size
+   * @returns The range and bucket size
+   */
+  static resolveRange(query: AnalyticsQuery): {
+    range: AnalyticsRange;
+    bucket: AnalyticsBucket;
+  } {
+    const bucket = query.bucket || 'day';
+    const to = query.to
+      ? new Date(
+          new Date(query.to).getTime() + (DATE_ONLY.test(query.to) ? DAY_MS : 0)
+        )
+      : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new ApiError(400, 'from and to must be valid dates');
+    }
+    if (from >= to) {
+      throw new ApiError(400, 'from must be before to');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS[bucket] * DAY_MS) {
+      throw new ApiError(
+        400,
+        `A ${bucket} breakdown covers at most ${MAX_RANGE_DAYS[bucket]} days`
+      );
+    }
+    return { range: { from, to }, bucket };
+  }
+}
+
+export default AnalyticsService;
@@ -0,0 +1,188 @@
+import { Request } from 'express';
+import { Knex } from 'knex';
+import { config } from '../config/env';
+import {
+  AuditLog,
+  AuditLogChange,
+  AuditLogFilters,
+  AuditLogModel,
+} from '../models/AuditLog';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+
+// What an admin action did, as recorded by the controller that ran it
+export interface AuditEntry {
+  action: string; // e.g. 'wallet.credit'
+  entityType: string; // e.g. 'user'
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Writes an entry inside the transaction of the action it describes
+export type AuditRecorder = (
+  entry: AuditEntry,
+  trx: Knex.Transaction
+) => Promise<void>;
+
+// Values of fields named with these words, in snake or camel case, are
+// never written to the log
+const SENSITIVE_FIELD = /(^|_)(password|pin|secret|token|api_key)(_|$)/;
+const REDACTED = '[redacted]';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =================================================================
+// Audit Log Service
+// =================================================================
+
+export class AuditLogService {
+  /**
+   * Records a privileged action taken through the admin API: who did it,
+   * from where, to which record, and what changed. Failures are logged and
+   * never fail the action, which has already happened. Given the action's
+   * transaction, the entry commits with it and a failure fails the action.
+   * @param req - The admin's request, for the actor, IP and user agent
+   * @param entry - The action and the record before and after it
+   * @param trx - Optional transaction of the action
+   */
+  static async record(
+    req: Request,
+    entry: AuditEntry,
+    trx?: Knex.Transaction
+  ): Promise<void> {
+    try {
+      // Diff before redacting, so a changed secret still shows as changed
+      const before = this.snapshot(entry.before, false);
+      const after = this.snapshot(entry.after, false);
+      await AuditLogModel.create(
+        {
+          actorId: req.user?.userId || null,
+          actorEmail: req.user?.email || null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId || null,
+          before: this.snapshot(before),
+          after: this.snapshot(after),
+          changes: this.snapshot(this.diff(before, after)),
+          ipAddress: req.ip || null,
+          userAgent:
+            req.deviceInfo?.rawUserAgent || req.headers['user-agent'] || null,
+          requestMethod: req.method,
+          requestPath: req.originalUrl,
+        },
+        trx
+      );
+    } catch (error) {
+      if (trx) {
+        throw error;
+      }
+      logger.error(`Failed to record audit log for ${entry.action}:`, error);
+    }
+  }
+
+  /**
+   * Binds `record` to a request, for services that write the entry inside
+   * the transaction that moves money
+   * @param req - The admin's request
+   * @returns A recorder taking the entry and the transaction
+   */
+  static recorder(req: Request): AuditRecorder {
+    return (entry, trx) => this.record(req, entry, trx);
+  }
+
+  /**
+   * Searches the audit log, newest first
+   * @param filters - Actor, action, entity, date range and paging
+   * @returns The page of entries with pagination
+   */
+  static async search(filters: AuditLogFilters) {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 20));
+    const { logs, total } = await AuditLogModel.findAll({
+      ...filters,
+      page,
+      limit,
+    });
+    return {
+      logs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Gets one audit log entry
+   * @param id - The entry ID
+   * @returns The entry
+   */
+  static async getById(id: string): Promise<AuditLog> {
+    const log = await AuditLogModel.findById(id);
+    if (!log) {
+      throw new ApiError(404, 'Audit log entry not found');
+    }
+    return log;
+  }
+
+  /**
+   * Deletes entries older than the configured retention period
+   * @returns Number of entries deleted
+   */
+  static async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.audit.retentionDays * DAY_MS);
+    return AuditLogModel.purgeBefore(cutoff);
+  }
+
+  /**
+   * Compares two snapshots field by field
+   * @param before - The record before the action, or null if it was created
+   * @param after - The record after the action, or null if it was deleted
+   * @returns The changed fields, or null if there is nothing to compare
+   */
+  static diff(
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ): Record<string, AuditLogChange> | null {
+    if (!before && !after) {
+      return null;
+    }
+    const changes: Record<string, AuditLogChange> = {};
+    const fields = new Set([
+      ...Object.keys(before || {}),
+      ...Object.keys(after || {}),
+    ]);
+    fields.forEach(field => {
+      const from = before?.[field] ?? null;
+      const to = after?.[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    });
+    return changes;
+  }
+
+  // A JSON copy of a record, by default with sensitive values redacted
+  private static snapshot<T extends object>(
+    value: T | null | undefined,
+    redact = true
+  ): Record<string, any> | null {
+    if (!value) {
+      return null;
+    }
+    return JSON.parse(JSON.stringify(value), (key, field) =>
+      redact && field != null && this.isSensitive(key) ? REDACTED : field
+    );
+  }
+
+  private static isSensitive(key: string): boolean {
+    return SENSITIVE_FIELD.test(
+      key.replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase()
+    );
+  }
+}
+
+export default AuditLogService;
@@ -0,0 +1,247 @@
+import db from '../database/connection';
+import {
+  Badge,
+  BadgeComparator,
+  BadgeMetric,
+  BadgeModel,
+  BadgeRule,
+  CreateBadgeInput,
+} from '../models/Badge';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+import { BadgeTriggerSystem } from './badgeTrigger.system';
+import { JobService } from './job.service';
+
+export interface BadgeMetricSpec {
+  description: string;
+  windowed: boolean; // Whether windowDays applies
+}
+
+export const BADGE_METRICS: Record<BadgeMetric, BadgeMetricSpec> = {
+  transaction_count: {
+    description: 'Wallet transactions made',
+    windowed: true,
+  },
+  topup_count: { description: 'Successful topups', windowed: true },
+  topup_amount: {
+    description: 'Face value of successful topups (naira)',
+    windowed: true,
+  },
+  referral_count: { description: 'Users referred', windowed: true },
+  completed_referral_count: {
+    description: 'Referrals that completed',
+    windowed: true,
+  },
+  total_points: { description: 'Spendable reward points', windowed: false },
+  points_rank: {
+    description: 'Position on the points leaderboard (1 = top)',
+    windowed: false,
+  },
+  referrer_rank: {
+    description: 'Position among referrers by completed referrals (1 = top)',
+    windowed: true,
+  },
+  account_verified: {
+    description: '1 if the account is verified, otherwise 0',
+    windowed: false,
+  },
+  twofa_enabled: {
+    description: '1 if two-factor authentication is on, otherwise 0',
+    windowed: false,
+  },
+};
+
+const COMPARATORS: BadgeComparator[] = ['gte', 'gt', 'eq', 'lte', 'lt'];
+
+// Tiers climb, so only comparators that grow with the metric make sense
+const TIER_COMPARATORS: BadgeComparator[] = ['gte', 'gt'];
+
+const CATEGORIES = ['achievement', 'milestone', 'special'];
+
+export class BadgeAdminService {
+  static getMetrics() {
+    return {
+      metrics: Object.entries(BADGE_METRICS).map(([metric, spec]) => ({
+        metric,
+        ...spec,
+      })),
+      comparators: COMPARATORS,
+    };
+  }
+
+  static async listBadges(): Promise<Badge[]> {
+    return BadgeModel.findAll();
+  }
+
+  static async createBadge(input: CreateBadgeInput): Promise<Badge> {
+    if (!input.name) {
+      throw new ApiError(400, 'name is required');
+    }
+    this.validateCategory(input.category);
+    const rule = input.rule ? this.validateRule(input.rule) : undefined;
+
+    const existing = await BadgeModel.findByName(input.name);
+    if (existing) {
+      throw new ApiError(409, 'A badge with this name already exists');
+    }
+    return BadgeModel.create({ ...input, rule });
+  }
+
+  static async updateBadge(
+    badgeId: string,
+    input: Partial<CreateBadgeInput>
+  ): Promise<Badge> {
+    const badge = await BadgeModel.findById(badgeId);
+    if (!badge) {
+      throw new ApiError(404, 'Badge not found');
+    }
+    this.validateCategory(input.category);
+    const rule = input.rule ? this.validateRule(input.rule) : undefined;
+
+    if (input.name && input.name !== badge.name) {
+      const existing = await BadgeModel.findByName(input.name);
+      if (existing) {
+        throw new ApiError(409, 'A badge with this name already exists');
+      }
+    }
+    return (await BadgeModel.update(badgeId, { ...input, rule })) as Badge;
+  }
+
+  /**
+   * Queues a job awarding a badge to every existing user who meets its rule
+   * @param badgeId - The badge ID
+   * @returns The queued job
+   */
+  static async startBackfill(badgeId: string) {
+    const badge = await BadgeModel.findById(badgeId);
+    if (!badge) {
+      throw new ApiError(404, 'Badge not found');
+    }
+    if (!badge.rule) {
+      throw new ApiError(400, 'Badge has no rule to evaluate');
+    }
+    if (!badge.isActive) {
+      throw new ApiError(400, 'Badge is not active');
+    }
+    return JobService.enqueue('badge_backfill', { badgeId });
+  }
+
+  /**
+   * Evaluates a badge's rule for every user, in chunks. Run by the
+   * badge_backfill job.
+   * @param badgeId - The badge ID
+   * @param chunkSize - Users evaluated per query
+   * @returns Users checked and badges awarded or upgraded
+   */
+  static async backfill(badgeId: string, chunkSize = 500) {
+    const badge = await BadgeModel.findById(badgeId);
+    if (!badge || !badge.rule || !badge.isActive) {
+      return { badgeId, usersChecked: 0, awarded: 0 };
+    }
+
+    let usersChecked = 0;
+    let awarded = 0;
+    let lastId: string | null = null;
+    while (true) {
+      const query = db('users').select('id').orderBy('id').limit(chunkSize);
+      if (lastId) {
+        query.where('id', '>', lastId);
+      }
+      const users = await query;
+      if (users.length === 0) break;
+
+      for (const user of users) {
+        const result = await BadgeTriggerSystem.evaluateUser(user.id, [badge]);
+        awarded += result.length;
+      }
+      usersChecked += users.length;
+      lastId = users[users.length - 1].id;
+    }
+
+    logger.info(`Backfilled badge ${badgeId}`, { usersChecked, awarded });
+    return { badgeId, usersChecked, awarded };
+  }
+
+  /**
+   * Checks a rule against the metric catalogue
+   * @returns The rule with only known fields
+   */
+  static validateRule(rule: any): BadgeRule {
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      throw new ApiError(400, 'rule must be an object');
+    }
+
+    const spec = BADGE_METRICS[rule.metric as BadgeMetric];
+    if (!spec) {
+      throw new ApiError(400, `Unknown metric: ${rule.metric}`);
+    }
+    if (!COMPARATORS.includes(rule.comparator)) {
+      throw new ApiError(
+        400,
+        `comparator must be one of ${COMPARATORS.join(', ')}`
+      );
+    }
+
+    const validated: BadgeRule = {
+      metric: rule.metric,
+      comparator: rule.comparator,
+    };
+
+    if (rule.windowDays !== undefined && rule.windowDays !== null) {
+      if (!spec.windowed) {
+        throw new ApiError(400, `${rule.metric} does not take windowDays`);
+      }
+      if (!Number.isInteger(rule.windowDays) || rule.windowDays <= 0) {
+        throw new ApiError(400, 'windowDays must be a positive whole number');
+      }
+      validated.windowDays = rule.windowDays;
+    }
+
+    if (rule.tiers !== undefined && rule.tiers !== null) {
+      if (rule.threshold !== undefined) {
+        throw new ApiError(400, 'Use either threshold or tiers, not both');
+      }
+      if (!TIER_COMPARATORS.includes(rule.comparator)) {
+        throw new ApiError(
+          400,
+          `Tiered rules need comparator ${TIER_COMPARATORS.join(' or ')}`
+        );
+      }
+      const tiers = rule.tiers;
+      if (
+        !Array.isArray(tiers) ||
+        tiers.length === 0 ||
+        tiers.some(
+          (tier: any, i: number) =>
+            typeof tier !== 'number' ||
+            !Number.isFinite(tier) ||
+            (i > 0 && tier <= tiers[i - 1])
+        )
+      ) {
+        throw new ApiError(400, 'tiers must be ascending numbers');
+      }
+      validated.tiers = tiers;
+    } else {
+      if (
+        typeof rule.threshold !== 'number' ||
+        !Number.isFinite(rule.threshold)
+      ) {
+        throw new ApiError(400, 'threshold must be a number');
+      }
+      validated.threshold = rule.threshold;
+    }
+
+    return validated;
+  }
+
+  private static validateCategory(category?: string) {
+    if (category !== undefined && !CATEGORIES.includes(category)) {
+      throw new ApiError(
+        400,
+        `category must be one of ${CATEGORIES.join(', ')}`
+      );
+    }
+  }
+}
+
+export default BadgeAdminService;
@@ -1,11 +1,19 @@
 /**
  * Badge Trigger System
- * Automatically awards badges based on user actions and milestones
- * Monitors transaction, referral, and point-related events
+ * Automatically awards badges based on user actions and milestones.
+ * Each badge carries a declarative rule (see BadgeRule) that a single
+ * evaluator checks, so new badges need no code changes.
  */
 
 import db from '../database/connection';
-import { UserBadgeModel } from '../models/Badge';
+import {
+  Badge,
+  BadgeComparator,
+  BadgeMetric,
+  BadgeModel,
+  BadgeRule,
+  UserBadgeModel,
+} from '../models/Badge';
 import { logger } from '../utils/logger.utils';
 
 export interface BadgeTriggerContext {
@@ -16,20 +24,11 @@ export interface BadgeTriggerContext {
   metadata?: Record<string, any>;
 }
 
-export enum BadgeTriggerAction {
-  FIRST_TRANSACTION = 'first_transaction',
-  TRANSACTION_MILESTONE = 'transaction_milestone', // 5, 10, 50, 100 transactions
-  FIRST_REFERRAL = 'first_referral',
-  COMPLETED_REFERRAL = 'completed_referral',
-  REFERRAL_MILESTONE = 'referral_milestone', // 5, 10, 25, 50 referrals
-  HIGH_POINTS = 'high_points', // 1000, 5000, 10000 points
-  ACCOUNT_VERIFIED = 'account_verified',
-  TWOFA_ENABLED = 'twofa_enabled',
-  EMAIL_VERIFIED = 'email_verified',
-  TRANSACTION_FREQUENCY = 'transaction_frequency', // 5 in a day
-  TOP_REFERRER = 'top_referrer',
-  TOP_EARNER = 'top_earner',
-}
+const SUCCESSFUL_TOPUP_STATUSES = ['success', 'completed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toNumber = (row: any, key: string) => Number(row?.[key] || 0);
 
 export class BadgeTriggerSystem {
   /**
@@ -37,116 +36,25 @@ export class BadgeTriggerSystem {
    * This is called after significant user events
    *
    * @param context - Badge trigger context with action and related data
-   * @returns Array of badge IDs that were awarded
+   * @returns Array of badge IDs that were awarded or moved up a tier
    */
   static async checkAndAwardBadges(
     context: BadgeTriggerContext
   ): Promise<string[]> {
     try {
-      const awarededBadges: string[] = [];
-      const action = context.action as BadgeTriggerAction;
-
-      switch (action) {
-        case BadgeTriggerAction.FIRST_TRANSACTION:
-          const firstTxBadges = await this.checkFirstTransactionBadges(
-            context.userId
-          );
-          awarededBadges.push(...firstTxBadges);
-          break;
-
-        case BadgeTriggerAction.TRANSACTION_MILESTONE:
-          const txMilestoneBadges = await this.checkTransactionMilestoneBadges(
-            context.userId,
-            context.value || 0
-          );
-          awarededBadges.push(...txMilestoneBadges);
-          break;
-
-        case BadgeTriggerAction.FIRST_REFERRAL:
-          const firstRefBadges = await this.checkFirstReferralBadges(
-            context.userId
-          );
-          awarededBadges.push(...firstRefBadges);
-          break;
-
-        case BadgeTriggerAction.COMPLETED_REFERRAL:
-          const completedRefBadges = await this.checkCompletedReferralBadges(
-            context.userId
-          );
-          awarededBadges.push(...completedRefBadges);
-          break;
-
-        case BadgeTriggerAction.REFERRAL_MILESTONE:
-          const refMilestoneBadges = await this.checkReferralMilestoneBadges(
-            context.userId,
-            context.value || 0
-          );
-          awarededBadges.push(...refMilestoneBadges);
-          break;
-
-        case BadgeTriggerAction.HIGH_POINTS:
-          const pointsBadges = await this.checkHighPointsBadges(
-            context.userId,
-            context.value || 0
-          );
-          awarededBadges.push(...pointsBadges);
-          break;
-
-        case BadgeTriggerAction.ACCOUNT_VERIFIED:
-          const verifiedBadges = await this.checkAccountVerifiedBadges(
-            context.userId
-          );
-          awarededBadges.push(...verifiedBadges);
-          break;
-
-        case BadgeTriggerAction.TWOFA_ENABLED:
-          const twoFABadges = await this.checkTwoFABadges(context.userId);
-          awarededBadges.push(...twoFABadges);
-          break;
-
-        case BadgeTriggerAction.EMAIL_VERIFIED:
-          const emailBadges = await this.checkEmailVerifiedBadges(
-            context.userId
-          );
-          awarededBadges.push(...emailBadges);
-          break;
-
-        case BadgeTriggerAction.TRANSACTION_FREQUENCY:
-          const frequencyBadges = await this.checkTransactionFrequencyBadges(
-            context.userId
-          );
-          awarededBadges.push(...frequencyBadges);
-          break;
-
-        case BadgeTriggerAction.TOP_REFERRER:
-          const topRefBadges = await this.checkTopReferrerBadges(
-            context.userId
-          );
-          awarededBadges.push(...topRefBadges);
-          break;
-
-        case BadgeTriggerAction.TOP_EARNER:
-          const topEarnerBadges = await this.checkTopEarnerBadges(
-            context.userId
-          );
-          awarededBadges.push(...topEarnerBadges);
-          break;
+      const awardedBadges = await this.evaluateUser(context.userId);
 
-        default:
-          logger.warn(`Unknown badge trigger action: ${action}`);
-      }
-
-      if (awarededBadges.length > 0) {
+      if (awardedBadges.length > 0) {
         logger.info(
-          `Awarded ${awarededBadges.length} badges to user ${context.userId}`,
+          `Awarded ${awardedBadges.length} badges to user ${context.userId}`,
           {
-            badges: awarededBadges,
+            badges: awardedBadges,
             action: context.action,
           }
         );
       }
 
-      return awarededBadges;
+      return awardedBadges;
     } catch (error) {
       logger.error('Error checking and awarding badges:', error);
       return [];
@@ -154,474 +62,211 @@ export class BadgeTriggerSystem {
   }
 
   /**
-   * Check and award first transaction badge
+   * Evaluates badge rules for a user and awards the badges they now meet.
+   * Tiered badges the user already holds are moved up to the highest tier
+   * reached.
+   * @param userId - The user ID
+   * @param badges - Badges to evaluate; defaults to every active badge with
+   * a rule
+   * @returns Array of badge IDs that were awarded or moved up a tier
    */
-  private static async checkFirstTransactionBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'first_transaction', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      const hasTransaction = await db('transactions')
-        .where({ user_id: userId })
-        .first();
-
-      if (hasTransaction && !hasTransaction.is_reward_badge_awarded) {
-        const hasExistingBadge = await UserBadgeModel.hasBadge(
-          userId,
-          badge.id
-        );
-
-        if (!hasExistingBadge) {
-          await UserBadgeModel.award(userId, badge.id);
-          return [badge.id];
-        }
-      }
-
-      return [];
-    } catch (error) {
-      logger.error('Error checking first transaction badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Check and award transaction milestone badges (5, 10, 50, 100)
-   */
-  private static async checkTransactionMilestoneBadges(
+  static async evaluateUser(
     userId: string,
-    transactionCount: number
+    badges?: Badge[]
   ): Promise<string[]> {
-    try {
-      const milestones = [5, 10, 50, 100];
-      const awarededBadges: string[] = [];
-
-      for (const milestone of milestones) {
-        if (transactionCount >= milestone) {
-          const badge = await db('badges')
-            .where({
-              required_action: `transaction_milestone_${milestone}`,
-              is_active: true,
-            })
-            .first();
-
-          if (badge) {
-            const hasExistingBadge = await UserBadgeModel.hasBadge(
-              userId,
-              badge.id
-            );
-            if (!hasExistingBadge) {
-              await UserBadgeModel.award(userId, badge.id);
-              awarededBadges.push(badge.id);
-            }
-          }
-        }
-      }
-
-      return awarededBadges;
-    } catch (error) {
-      logger.error('Error checking transaction milestone badges:', error);
+    const candidates = (
+      badges || (await BadgeModel.findActiveWithRules())
+    ).filter(badge => badge.rule);
+    if (candidates.length === 0) {
       return [];
     }
-  }
-
-  /**
-   * Check and award first referral badge
-   */
-  private static async checkFirstReferralBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'first_referral', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      const hasReferral = await db('referrals')
-        .where({ referrer_user_id: userId })
-        .first();
-
-      if (hasReferral) {
-        const hasExistingBadge = await UserBadgeModel.hasBadge(
-          userId,
-          badge.id
-        );
 
-        if (!hasExistingBadge) {
-          await UserBadgeModel.award(userId, badge.id);
-          return [badge.id];
-        }
+    const held = await UserBadgeModel.findHeld(
+      userId,
+      candidates.map(badge => badge.id)
+    );
+    // Rules sharing a metric and window are measured once
+    const measured = new Map<string, Promise<number | null>>();
+    const measure = (rule: BadgeRule) => {
+      const key = `${rule.metric}:${rule.windowDays || ''}`;
+      if (!measured.has(key)) {
+        measured.set(key, this.measure(userId, rule.metric, rule.windowDays));
       }
-
-      return [];
-    } catch (error) {
-      logger.error('Error checking first referral badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Check and award completed referral badge
-   */
-  private static async checkCompletedReferralBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'completed_referral', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      const completedReferrals = await db('referrals')
-        .where({ referrer_user_id: userId, status: 'completed' })
-        .count('*', { as: 'count' })
-        .first();
-
-      if ((completedReferrals?.count as number) > 0) {
-        const hasExistingBadge = await UserBadgeModel.hasBadge(
-          userId,
-          badge.id
-        );
-
-        if (!hasExistingBadge) {
-          await UserBadgeModel.award(userId, badge.id);
-          return [badge.id];
-        }
+      return measured.get(key) as Promise<number | null>;
+    };
+
+    const awarded: string[] = [];
+    for (const badge of candidates) {
+      const rule = badge.rule as BadgeRule;
+      if (!rule.tiers && held.has(badge.id)) {
+        continue;
       }
 
-      return [];
-    } catch (error) {
-      logger.error('Error checking completed referral badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Check and award referral milestone badges (5, 10, 25, 50)
-   */
-  private static async checkReferralMilestoneBadges(
-    userId: string,
-    referralCount: number
-  ): Promise<string[]> {
-    try {
-      const milestones = [5, 10, 25, 50];
-      const awarededBadges: string[] = [];
-
-      for (const milestone of milestones) {
-        if (referralCount >= milestone) {
-          const badge = await db('badges')
-            .where({
-              required_action: `referral_milestone_${milestone}`,
-              is_active: true,
-            })
-            .first();
-
-          if (badge) {
-            const hasExistingBadge = await UserBadgeModel.hasBadge(
-              userId,
-              badge.id
-            );
-            if (!hasExistingBadge) {
-              await UserBadgeModel.award(userId, badge.id);
-              awarededBadges.push(badge.id);
-            }
-          }
-        }
+      const value = await measure(rule);
+      if (value === null) {
+        continue;
       }
 
-      return awarededBadges;
-    } catch (error) {
-      logger.error('Error checking referral milestone badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Check and award high points badges (1000, 5000, 10000)
-   */
-  private static async checkHighPointsBadges(
-    userId: string,
-    totalPoints: number
-  ): Promise<string[]> {
-    try {
-      const milestones = [1000, 5000, 10000];
-      const awarededBadges: string[] = [];
-
-      for (const milestone of milestones) {
-        if (totalPoints >= milestone) {
-          const badge = await db('badges')
-            .where({
-              required_action: `high_points_${milestone}`,
-              is_active: true,
-            })
-            .first();
-
-          if (badge) {
-            const hasExistingBadge = await UserBadgeModel.hasBadge(
-              userId,
-              badge.id
-            );
-            if (!hasExistingBadge) {
-              await UserBadgeModel.award(userId, badge.id);
-              awarededBadges.push(badge.id);
-            }
-          }
+      if (rule.tiers) {
+        const tier = this.tierReached(rule, value);
+        const current = held.get(badge.id) || 0;
+        if (tier <= current) {
+          continue;
+        }
+        const metadata = { tier, threshold: rule.tiers[tier - 1], value };
+        if (held.has(badge.id)) {
+          await UserBadgeModel.upgradeTier(userId, badge.id, tier, metadata);
+        } else {
+          await UserBadgeModel.award(
+            userId,
+            badge.id,
+            metadata,
+            undefined,
+            tier
+          );
         }
+        awarded.push(badge.id);
+      } else if (
+        this.compare(value, rule.comparator, rule.threshold as number)
+      ) {
+        await UserBadgeModel.award(userId, badge.id, { value });
+        awarded.push(badge.id);
       }
-
-      return awarededBadges;
-    } catch (error) {
-      logger.error('Error checking high points badges:', error);
-      return [];
     }
-  }
-
-  /**
-   * Check and award account verified badge
-   */
-  private static async checkAccountVerifiedBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'account_verified', is_active: true })
-        .first();
-
-      if (!badge) return [];
 
-      const hasExistingBadge = await UserBadgeModel.hasBadge(userId, badge.id);
-
-      if (!hasExistingBadge) {
-        await UserBadgeModel.award(userId, badge.id);
-        return [badge.id];
-      }
-
-      return [];
-    } catch (error) {
-      logger.error('Error checking account verified badges:', error);
-      return [];
-    }
+    return awarded;
   }
 
   /**
-   * Check and award 2FA enabled badge
+   * Number of a tiered rule's thresholds the value passes
+   * @param rule - A rule with tiers
+   * @param value - The measured metric
    */
-  private static async checkTwoFABadges(userId: string): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'twofa_enabled', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      const hasExistingBadge = await UserBadgeModel.hasBadge(userId, badge.id);
-
-      if (!hasExistingBadge) {
-        await UserBadgeModel.award(userId, badge.id);
-        return [badge.id];
-      }
-
-      return [];
-    } catch (error) {
-      logger.error('Error checking 2FA badges:', error);
-      return [];
-    }
+  static tierReached(rule: BadgeRule, value: number): number {
+    return (rule.tiers || []).filter(threshold =>
+      this.compare(value, rule.comparator, threshold)
+    ).length;
   }
 
-  /**
-   * Check and award email verified badge
-   */
-  private static async checkEmailVerifiedBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'email_verified', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      const hasExistingBadge = await UserBadgeModel.hasBadge(userId, badge.id);
-
-      if (!hasExistingBadge) {
-        await UserBadgeModel.award(userId, badge.id);
-        return [badge.id];
-      }
-
-      return [];
-    } catch (error) {
-      logger.error('Error checking email verified badges:', error);
-      return [];
+  static compare(
+    value: number,
+    comparator: BadgeComparator,
+    threshold: number
+  ): boolean {
+    switch (comparator) {
+      case 'gte':
+        return value >= threshold;
+      case 'gt':
+        return value > threshold;
+      case 'eq':
+        return value === threshold;
+      case 'lte':
+        return value <= threshold;
+      case 'lt':
+        return value < threshold;
+      default:
+        return false;
     }
   }
 
   /**
-   * Check and award transaction frequency badge (5 in a day)
+   * Measures a metric for a user
+   * @param userId - The user ID
+   * @param metric - What to measure
+   * @param windowDays - Only count activity in the last N days
+   * @returns The value, or null when it does not apply (e.g. no rank
+   * without points)
    */
-  private static async checkTransactionFrequencyBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'transaction_frequency', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-      const todayTransactions = await db('transactions')
-        .where({ user_id: userId })
-        .where('created_at', '>', oneDayAgo)
-        .count('*', { as: 'count' })
-        .first();
-
-      if ((todayTransactions?.count as number) >= 5) {
-        const hasExistingBadge = await UserBadgeModel.hasBadge(
-          userId,
-          badge.id
+  private static async measure(
+    userId: string,
+    metric: BadgeMetric,
+    windowDays?: number
+  ): Promise<number | null> {
+    const since = windowDays
+      ? new Date(Date.now() - windowDays * DAY_MS)
+      : null;
+    const windowed = (query: any, column = 'created_at') =>
+      since ? query.where(column, '>=', since) : query;
+
+    switch (metric) {
+      case 'transaction_count':
+        return toNumber(
+          await windowed(
+            db('transactions').where({ user_id: userId }).count('* as count')
+          ).first(),
+          'count'
         );
 
-        if (!hasExistingBadge) {
-          await UserBadgeModel.award(userId, badge.id);
-          return [badge.id];
-        }
+      case 'topup_count':
+      case 'topup_amount': {
+        const row = await windowed(
+          db('topup_requests')
+            .where({ user_id: userId })
+            .whereIn('status', SUCCESSFUL_TOPUP_STATUSES)
+            .count('* as count')
+            .sum('amount as amount')
+        ).first();
+        return toNumber(row, metric === 'topup_count' ? 'count' : 'amount');
       }
 
-      return [];
-    } catch (error) {
-      logger.error('Error checking transaction frequency badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Check and award top referrer badge
-   */
-  private static async checkTopReferrerBadges(
-    userId: string
-  ): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'top_referrer', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      // Get top 10 referrers
-      const topReferrers = await db('referrals')
-        .where({ status: 'completed' })
-        .groupBy('referrer_user_id')
-        .select('referrer_user_id')
-        .count('*', { as: 'count' })
-        .orderBy('count', 'desc')
-        .limit(10);
-
-      const isTopReferrer = topReferrers.some(
-        (r: any) => r.referrer_user_id === userId
-      );
-
-      if (isTopReferrer) {
-        const hasExistingBadge = await UserBadgeModel.hasBadge(
-          userId,
-          badge.id
-        );
-
-        if (!hasExistingBadge) {
-          await UserBadgeModel.award(userId, badge.id);
-          return [badge.id];
+      case 'referral_count':
+      case 'completed_referral_count': {
+        const query = db('referrals')
+          .where({ referrer_user_id: userId })
+          .count('* as count');
+        if (metric === 'completed_referral_count') {
+          query.where({ status: 'completed' });
         }
+        return toNumber(await windowed(query).first(), 'count');
       }
 
-      return [];
-    } catch (error) {
-      logger.error('Error checking top referrer badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Check and award top earner badge
-   */
-  private static async checkTopEarnerBadges(userId: string): Promise<string[]> {
-    try {
-      const badge = await db('badges')
-        .where({ required_action: 'top_earner', is_active: true })
-        .first();
-
-      if (!badge) return [];
-
-      // Get user's total points
-      const userPoints = await db('users')
-        .where({ id: userId })
-        .select('total_points')
-        .first();
-
-      if (!userPoints) return [];
-
-      // Get top 10 earners
-      const topEarners = await db('users')
-        .whereNotNull('total_points')
-        .orderBy('total_points', 'desc')
-        .select('id', 'total_points')
-        .limit(10);
-
-      const isTopEarner = topEarners.some(u => u.id === userId);
-
-      if (isTopEarner) {
-        const hasExistingBadge = await UserBadgeModel.hasBadge(
-          userId,
-          badge.id
-        );
-
-        if (!hasExistingBadge) {
-          await UserBadgeModel.award(userId, badge.id);
-          return [badge.id];
-        }
+      case 'total_points':
+      case 'points_rank':
+      case 'account_verified':
+      case 'twofa_enabled': {
+        const user = await db('users')
+          .where({ id: userId })
+          .select('total_points', 'is_verified', 'two_factor_enabled')
+          .first();
+        if (!user) return null;
+
+        if (metric === 'account_verified') return user.is_verified ? 1 : 0;
+        if (metric === 'twofa_enabled') return user.two_factor_enabled ? 1 : 0;
+
+        const points = Number(user.total_points || 0);
+        if (metric === 'total_points') return points;
+        if (points <= 0) return null;
+
+        const ahead = await db('users')
+          .where('total_points', '>', points)
+          .count('* as count')
+          .first();
+        return toNumber(ahead, 'count') + 1;
       }
 
-      return [];
-    } catch (error) {
-      logger.error('Error checking top earner badges:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Batch process badges for all users (runs as periodic job)
-   * @param action - Which action to process
-   * @returns Number of badges awarded
-   */
-  static async batchProcessBadges(action: BadgeTriggerAction): Promise<number> {
-    try {
-      let totalAwarded = 0;
-      const users = await db('users').select('id').limit(1000);
-
-      for (const user of users) {
-        const awarded = await this.checkAndAwardBadges({
-          userId: user.id,
-          action,
-        });
-        totalAwarded += awarded.length;
+      case 'referrer_rank': {
+        const completed = db('referrals')
+          .where({ status: 'completed' })
+          .select('referrer_user_id')
+          .count('* as count')
+          .groupBy('referrer_user_id');
+        const mine = await windowed(
+          completed.clone().where({ referrer_user_id: userId })
+        ).first();
+        const count = toNumber(mine, 'count');
+        if (count === 0) return null;
+
+        const ahead = await db
+          .from(windowed(completed.clone()).as('r'))
+          .where('r.count', '>', count)
+          .count('* as count')
+          .first();
+        return toNumber(ahead, 'count') + 1;
       }
 
-      logger.info(`Batch processed badges for action ${action}`, {
-        totalAwarded,
-        usersProcessed: users.length,
-      });
-
-      return totalAwarded;
-    } catch (error) {
-      logger.error(
-        `Error batch processing badges for action ${action}:`,
-        error
-      );
-      throw error;
+      default:
+        logger.warn(`Unknown badge metric: ${metric}`);
+        return null;
     }
   }
 }
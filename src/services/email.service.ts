@@ -184,4 +184,48 @@ export class EmailService {
       throw new Error('Failed to send password reset email');
     }
   }
+
+  async sendAccountStatementEmail(
+    email: string,
+    full_name: string,
+    period: string,
+    statement: Buffer,
+    fileName: string
+  ): Promise<void> {
+    const transporter = await this.ensureTransporter();
+    const mailOptions = {
+      from: `"Nexus Data" <${config.email.user || 'noreply@election.com'}>`,
+      to: email,
+      subject: `Your Nexus Data account statement (${period})`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px;">
+          <h2>Your Account Statement</h2>
+          <p>Hi ${full_name || 'there'},</p>
+          <p>Your account statement for ${period} is attached as a PDF.</p>
+          <p>If you did not request this statement, please contact support.</p>
+        </div>
+      `,
+      attachments: [
+        {
+          filename: fileName,
+          content: statement,
+          contentType: 'application/pdf',
+        },
+      ],
+    };
+
+    try {
+      const info = await transporter.sendMail(mailOptions);
+      console.log('✅ Account statement email sent successfully!');
+      console.log('Message ID:', info.messageId);
+
+      const previewUrl = nodemailer.getTestMessageUrl(info);
+      if (previewUrl) {
+        console.log('Preview URL:', previewUrl);
+      }
+    } catch (error) {
+      console.error('❌ Error sending account statement email:', error);
+      throw new Error('Failed to send account statement email');
+    }
+  }
 }
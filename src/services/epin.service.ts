@@ -0,0 +1,583 @@
+import { config } from '../config/env';
+import db from '../database/connection';
+import { EpinModel, StoredEpin } from '../models/Epin';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import {
+  EpinBatchImportResult,
+  EpinBatchUpload,
+  EpinImportError,
+  EpinImportRow,
+  EpinOrder,
+  EpinOrderWithPins,
+  EpinPurchaseRequest,
+  EpinPurchaseResult,
+  EpinStockLevel,
+  PurchasedEpin,
+} from '../types/epin.types';
+import { ApiError } from '../utils/ApiError';
+import {
+  decryptValue,
+  encryptValue,
+  generateSecureString,
+  hmacValue,
+} from '../utils/crypto';
+import { parseCsv } from '../utils/csv.utils';
+import { logger } from '../utils/logger.utils';
+import { LedgerService } from './ledger.service';
+import { NotificationService } from './notification.service';
+import { PricingService } from './pricing.service';
+import { UserService } from './user.service';
+
+const MAX_ROWS_PER_BATCH = 10000;
+const INSERT_CHUNK_SIZE = 500;
+const MAX_REPORTED_ERRORS = 100;
+
+const toKobo = (amount: number) => Math.round(amount * 100);
+
+export class EpinService {
+  /**
+   * Imports a CSV of PINs. The header row must contain `pin`; `serial`
+   * (or `serial_number`), `denomination` and `cost_price` are optional and
+   * fall back to the batch values. PINs are encrypted before storage and
+   * PINs already in stock are skipped.
+   * @param upload The CSV and the batch it belongs to
+   * @returns The batch with its counts and the rows that were rejected
+   */
+  static async importBatch(
+    upload: EpinBatchUpload
+  ): Promise<EpinBatchImportResult> {
+    const secret = this.encryptionKey();
+
+    const operator = await db('operators')
+      .where({ id: upload.operatorId })
+      .first();
+    if (!operator) {
+      throw new ApiError(404, 'Operator not found');
+    }
+    if (upload.supplierId) {
+      const supplier = await db('suppliers')
+        .where({ id: upload.supplierId })
+        .first();
+      if (!supplier) {
+        throw new ApiError(404, 'Supplier not found');
+      }
+    }
+
+    const { rows, errors, totalRows } = this.parseBatch(upload);
+
+    // Duplicates inside the file are dropped here, duplicates of stored
+    // PINs by the unique hash on insert
+    const seen = new Set<string>();
+    const pins = rows
+      .map(row => ({ ...row, pinHash: hmacValue(row.pin, secret) }))
+      .filter(row => {
+        if (seen.has(row.pinHash)) return false;
+        seen.add(row.pinHash);
+        return true;
+      });
+
+    const batch = await db.transaction(async trx => {
+      const created = await EpinModel.createBatch(
+        {
+          operatorId: upload.operatorId,
+          supplierId: upload.supplierId,
+          fileName: upload.fileName,
+          uploadedBy: upload.uploadedBy,
+        },
+        trx
+      );
+
+      let importedCount = 0;
+      for (let i = 0; i < pins.length; i += INSERT_CHUNK_SIZE) {
+        importedCount += await EpinModel.insertPins(
+          pins.slice(i, i + INSERT_CHUNK_SIZE).map(row => ({
+            operatorId: upload.operatorId,
+            supplierId: upload.supplierId,
+            batchId: created.id,
+            pinCode: encryptValue(row.pin, secret),
+            pinHash: row.pinHash,
+            serialNumber: row.serialNumber,
+            denomination: row.denomination,
+            costPrice: row.costPrice,
+          })),
+          trx
+        );
+      }
+
+      return EpinModel.finishBatch(
+        created.id,
+        {
+          totalRows,
+          importedCount,
+          duplicateCount: rows.length - importedCount,
+          invalidCount: errors.length,
+        },
+        trx
+      );
+    });
+
+    logger.info(`E-PIN batch ${batch.id} imported`, {
+      operatorId: batch.operatorId,
+      imported: batch.importedCount,
+      duplicates: batch.duplicateCount,
+      invalid: batch.invalidCount,
+    });
+
+    return { batch, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  /**
+   * Sells E-PINs from stock against the wallet. PINs are locked and marked
+   * sold in the same transaction as the wallet debit, so a PIN is only ever
+   * sold once and never without payment.
+   * @param userId The buyer
+   * @param request Product code, quantity and transaction PIN
+   * @returns The order with the PINs in clear, and the new wallet balance
+   */
+  static async purchase(
+    userId: string,
+    request: EpinPurchaseRequest
+  ): Promise<EpinPurchaseResult> {
+    const quantity = Number(request.quantity);
+    const { maxPerOrder } = config.epins;
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > maxPerOrder) {
+      throw new ApiError(
+        400,
+        `Quantity must be a whole number between 1 and ${maxPerOrder}`
+      );
+    }
+    if (!request.productCode) {
+      throw new ApiError(400, 'productCode is required');
+    }
+    // Fail before charging anyone if PINs cannot be revealed
+    const secret = this.encryptionKey();
+
+    const result = await db.transaction(async trx => {
+      await UserService.verifyTransactionPin(userId, request.pin, trx);
+
+      const product = await trx('operator_products')
+        .where({ product_code: request.productCode, product_type: 'epin' })
+        .first();
+      if (!product) {
+        throw new ApiError(404, 'E-PIN product not found');
+      }
+      if (!product.is_active) {
+        throw new ApiError(400, 'E-PIN product is not available');
+      }
+      const denomination = parseFloat(product.denom_amount);
+
+      const wallet = await trx('wallets')
+        .where({ user_id: userId })
+        .forUpdate()
+        .first();
+      if (!wallet) {
+        throw new ApiError(404, 'Wallet not found');
+      }
+
+      const buyer = await trx('users')
+        .select('role')
+        .where({ id: userId })
+        .first();
+      const quote = await PricingService.quote(
+        {
+          operatorId: product.operator_id,
+          operatorProductId: product.id,
+          supplierPrice: denomination,
+          role: buyer?.role,
+          userId,
+        },
+        trx
+      );
+      const totalKobo = toKobo(quote.price) * quantity;
+      const totalAmount = totalKobo / 100;
+
+      if (toKobo(parseFloat(wallet.balance)) < totalKobo) {
+        throw new ApiError(
+          402,
+          `Insufficient balance. Cost: ${totalAmount}, Wallet: ${wallet.balance}`
+        );
+      }
+
+      const pins = await EpinModel.allocate(
+        product.operator_id,
+        denomination,
+        quantity,
+        trx
+      );
+      if (pins.length < quantity) {
+        throw new ApiError(
+          409,
+          `Only ${pins.length} ₦${denomination} E-PIN(s) are in stock`
+        );
+      }
+
+      const order = await EpinModel.createOrder(
+        {
+          reference: `EPN-${generateSecureString(16)}`,
+          userId,
+          operatorProductId: product.id,
+          operatorId: product.operator_id,
+          denomination,
+          quantity,
+          unitPrice: quote.price,
+          totalAmount,
+        },
+        trx
+      );
+      await EpinModel.markSold(
+        pins.map(pin => pin.id),
+        order.id,
+        userId,
+        trx
+      );
+
+      // The supplier is owed what the PINs cost us; the rest is revenue
+      const costKobo = pins.reduce(
+        (sum, pin) => sum + toKobo(pin.costPrice),
+        0
+      );
+      const marginKobo = totalKobo - costKobo;
+      const walletAccount = LedgerService.wallet(userId);
+      const journal = await LedgerService.post(
+        {
+          referenceType: 'epin_order',
+          referenceId: order.id,
+          description: `E-PIN ${product.product_code} x${quantity}`,
+          createdBy: userId,
+          lines: [
+            { account: walletAccount, direction: 'debit', amount: totalAmount },
+            {
+              account: { type: 'supplier_payable' },
+              direction: 'credit',
+              amount: costKobo / 100,
+            },
+            {
+              account: { type: 'revenue' },
+              direction: marginKobo >= 0 ? 'credit' : 'debit',
+              amount: Math.abs(marginKobo) / 100,
+            },
+          ],
+        },
+        trx
+      );
+
+      const transaction = await TransactionModel.create(
+        {
+          walletId: userId,
+          userId,
+          direction: 'debit',
+          amount: totalAmount,
+          balanceAfter:
+            journal.balances[LedgerService.accountCode(walletAccount)],
+          method: 'epin',
+          reference: order.reference,
+          relatedType: 'epin_order',
+          relatedId: order.id,
+          metadata: { productCode: product.product_code, quantity },
+        },
+        trx
+      );
+
+      return { order, pins, product, transaction };
+    });
+
+    const { order, pins, product, transaction } = result;
+    await this.afterSale(order, {
+      id: transaction.id,
+      amount: transaction.amount,
+      reference: order.reference,
+      description: `${quantity} x ${product.name || product.product_code}`,
+    });
+
+    return {
+      order: {
+        ...order,
+        productCode: product.product_code,
+        productName: product.name,
+        pins: this.reveal(pins, secret),
+      },
+      balanceAfter: transaction.balanceAfter,
+      transactionId: transaction.id,
+    };
+  }
+
+  /**
+   * Lists a user's E-PIN orders (without the PINs)
+   * @param userId The buyer
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  static async getOrders(userId: string, page: number = 1, limit: number = 20) {
+    const safePage = page > 0 ? page : 1;
+    const safeLimit = limit > 0 && limit <= 100 ? limit : 20;
+    const { orders, total } = await EpinModel.findOrdersByUser(
+      userId,
+      safePage,
+      safeLimit
+    );
+
+    return {
+      orders,
+      pagination: {
+        page: safePage,
+        limit: safeLimit,
+        total,
+        totalPages: Math.ceil(total / safeLimit),
+      },
+    };
+  }
+
+  /**
+   * Retrieves one of a user's orders with its PINs in clear
+   * @param userId The buyer
+   * @param orderId The order ID
+   */
+  static async getOrder(
+    userId: string,
+    orderId: string
+  ): Promise<EpinOrderWithPins> {
+    const found = await EpinModel.findOrderWithPins(orderId, userId);
+    if (!found) {
+      throw new ApiError(404, 'E-PIN order not found');
+    }
+    return {
+      ...found.order,
+      pins: this.reveal(found.pins, this.encryptionKey()),
+    };
+  }
+
+  /**
+   * Renders an order as a printable voucher sheet
+   * @param order The order with its PINs
+   * @returns A standalone HTML document
+   */
+  static renderPrintable(order: EpinOrderWithPins): string {
+    const title = escapeHtml(
+      `${order.operatorName || ''} ₦${order.denomination} E-PIN`.trim()
+    );
+    const vouchers = order.pins
+      .map(
+        pin => `
+    <div class="voucher">
+      <div class="title">${title}</div>
+      <div class="pin">${escapeHtml(pin.pin)}</div>
+      <div class="serial">S/N: ${escapeHtml(pin.serialNumber || '-')}</div>
+    </div>`
+      )
+      .join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>E-PIN order ${escapeHtml(order.reference)}</title>
+  <style>
+    body { font-family: sans-serif; }
+    .voucher { display: inline-block; width: 45%; margin: 8px; padding: 12px; border: 1px dashed #333; }
+    .title { font-weight: bold; }
+    .pin { font-size: 1.4em; letter-spacing: 2px; margin: 8px 0; }
+    .serial { font-size: 0.8em; color: #555; }
+  </style>
+</head>
+<body>
+  <p>Order ${escapeHtml(order.reference)}</p>${vouchers}
+</body>
+</html>`;
+  }
+
+  /**
+   * Stock per operator and denomination with low-stock flags
+   */
+  static async getStockLevels(): Promise<EpinStockLevel[]> {
+    const levels = await EpinModel.getStockLevels();
+    return levels.map(level => {
+      const threshold = level.threshold ?? config.epins.lowStockThreshold;
+      return { ...level, threshold, lowStock: level.available < threshold };
+    });
+  }
+
+  /**
+   * Sets the low-stock alert level for an operator and denomination
+   * @param operatorId The operator
+   * @param denomination The face value
+   * @param threshold Alert when available stock falls below this
+   */
+  static async setThreshold(
+    operatorId: string,
+    denomination: number,
+    threshold: number
+  ): Promise<void> {
+    if (!Number.isFinite(denomination) || denomination <= 0) {
+      throw new ApiError(400, 'denomination must be a positive number');
+    }
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      throw new ApiError(400, 'threshold must be a whole number of 0 or more');
+    }
+    const operator = await db('operators').where({ id: operatorId }).first();
+    if (!operator) {
+      throw new ApiError(404, 'Operator not found');
+    }
+    await EpinModel.upsertThreshold(operatorId, denomination, threshold);
+  }
+
+  private static parseBatch(upload: EpinBatchUpload): {
+    rows: EpinImportRow[];
+    errors: EpinImportError[];
+    totalRows: number;
+  } {
+    const [header, ...lines] = parseCsv(upload.csv || '');
+    if (!header) {
+      throw new ApiError(400, 'CSV is empty');
+    }
+    if (lines.length > MAX_ROWS_PER_BATCH) {
+      throw new ApiError(
+        400,
+        `A batch can hold at most ${MAX_ROWS_PER_BATCH} PINs`
+      );
+    }
+
+    const columns = header.fields.map(name => name.trim().toLowerCase());
+    const column = (...names: string[]) =>
+      columns.findIndex(name => names.includes(name));
+    const pinIndex = column('pin', 'pin_code');
+    const serialIndex = column('serial', 'serial_number');
+    const denominationIndex = column('denomination', 'amount');
+    const costIndex = column('cost_price', 'cost');
+    if (pinIndex === -1) {
+      throw new ApiError(400, 'CSV header must include a "pin" column');
+    }
+
+    const rows: EpinImportRow[] = [];
+    const errors: EpinImportError[] = [];
+    const numberAt = (fields: string[], index: number) =>
+      index === -1 || !fields[index]?.trim()
+        ? undefined
+        : Number(fields[index].trim());
+
+    for (const { line, fields } of lines) {
+      const pin = (fields[pinIndex] || '').replace(/[\s-]/g, '');
+      const denomination =
+        numberAt(fields, denominationIndex) ?? upload.denomination;
+      const costPrice =
+        numberAt(fields, costIndex) ?? upload.costPrice ?? denomination;
+
+      if (!/^[0-9A-Za-z]{4,64}$/.test(pin)) {
+        errors.push({ line, reason: 'Missing or malformed PIN' });
+      } else if (
+        denomination === undefined ||
+        !Number.isFinite(denomination) ||
+        denomination <= 0
+      ) {
+        errors.push({ line, reason: 'Missing or invalid denomination' });
+      } else if (
+        costPrice === undefined ||
+        !Number.isFinite(costPrice) ||
+        costPrice < 0
+      ) {
+        errors.push({ line, reason: 'Invalid cost price' });
+      } else {
+        rows.push({
+          pin,
+          serialNumber:
+            serialIndex === -1 ? undefined : fields[serialIndex]?.trim(),
+          denomination,
+          costPrice,
+        });
+      }
+    }
+
+    return { rows, errors, totalRows: lines.length };
+  }
+
+  private static reveal(pins: StoredEpin[], secret: string): PurchasedEpin[] {
+    return pins.map(pin => ({
+      id: pin.id,
+      pin: decryptValue(pin.pinCode, secret),
+      serialNumber: pin.serialNumber,
+      denomination: pin.denomination,
+    }));
+  }
+
+  private static encryptionKey(): string {
+    const { encryptionKey } = config.epins;
+    if (!encryptionKey) {
+      throw new ApiError(500, 'E-PIN encryption key is not configured');
+    }
+    return encryptionKey;
+  }
+
+  // Alerts go out after commit and never fail the sale
+  private static async afterSale(
+    order: EpinOrder,
+    alert: {
+      id: string;
+      amount: number;
+      reference: string;
+      description: string;
+    }
+  ): Promise<void> {
+    try {
+      await NotificationService.sendTransactionAlert(
+        order.userId,
+        'E-PIN Purchase',
+        `Your E-PIN purchase of ₦${alert.amount} was successful`,
+        {
+          id: alert.id,
+          amount: alert.amount,
+          type: 'debit',
+          reference: alert.reference,
+          timestamp: new Date().toISOString(),
+          description: alert.description,
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to send E-PIN purchase alert', error);
+    }
+
+    try {
+      await this.alertIfLowStock(order);
+    } catch (error) {
+      logger.error('Failed to check E-PIN stock level', error);
+    }
+  }
+
+  // Alerts once, on the sale that takes stock below the alert level
+  private static async alertIfLowStock(order: EpinOrder): Promise<void> {
+    const { operatorId, denomination } = order;
+    const threshold =
+      (await EpinModel.findThreshold(operatorId, denomination)) ??
+      config.epins.lowStockThreshold;
+    const available = await EpinModel.countAvailable(operatorId, denomination);
+    if (available >= threshold || available + order.quantity < threshold) {
+      return;
+    }
+
+    const operator = await db('operators')
+      .select('name')
+      .where({ id: operatorId })
+      .first();
+    const message = `Only ${available} ${operator?.name || ''} ₦${denomination} E-PINs left (alert level ${threshold}).`;
+    logger.warn(message, { operatorId, denomination });
+
+    const admins = await UserModel.findByRole('admin');
+    for (const admin of admins) {
+      await NotificationService.sendToUser(
+        admin.userId,
+        'E-PIN stock low',
+        message
+      );
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export default EpinService;
@@ -0,0 +1,367 @@
+import { once } from 'events';
+import fs from 'fs';
+import { Knex } from 'knex';
+import path from 'path';
+import { Writable } from 'stream';
+import { config } from '../config/env';
+import db from '../database/connection';
+import JobModel, { JobRecord } from '../models/Job';
+import { SettlementModel } from '../models/Settlement';
+import { TopupRequestModel } from '../models/TopupRequest';
+import { TransactionModel } from '../models/Transaction';
+import { SettlementFilters } from '../types/settlement.types';
+import { TopupRequestFilters } from '../types/topup.types';
+import { TransactionFilters } from '../types/transaction.types';
+import { ApiError } from '../utils/ApiError';
+import { toCsvRow } from '../utils/csv.utils';
+import { logger } from '../utils/logger.utils';
+import { JobService } from './job.service';
+
+export type ExportType = 'transactions' | 'topup_requests' | 'settlements';
+
+export type ExportFilters =
+  | TransactionFilters
+  | TopupRequestFilters
+  | SettlementFilters;
+
+// Payload of a data_export job
+export interface ExportJobPayload {
+  type: ExportType;
+  filters: ExportFilters;
+  requestedBy: string;
+}
+
+export type ExportRequest =
+  | { mode: 'stream'; rows: number }
+  | { mode: 'job'; rows: number; job: JobRecord };
+
+interface ExportDefinition {
+  table: string;
+  // Header and the SQL the value is read from
+  columns: [string, string][];
+  applyFilters: (query: Knex.QueryBuilder, filters: any) => Knex.QueryBuilder;
+}
+
+export const EXPORT_JOB_TYPE = 'data_export';
+
+// Rows read per query, so an export never holds more than this in memory
+const BATCH_SIZE = 1000;
+
+const EXPORTS: Record<ExportType, ExportDefinition> = {
+  transactions: {
+    table: 'transactions',
+    columns: [
+      ['id', 'id'],
+      ['created_at', 'created_at'],
+      ['user_id', 'user_id'],
+      [
+        'user_email',
+        '(select email from users where users.id = transactions.user_id)',
+      ],
+      ['direction', 'direction'],
+      ['amount', 'amount'],
+      ['balance_after', 'balance_after'],
+      ['method', 'method'],
+      ['reference', 'reference'],
+      ['related_type', 'related_type'],
+      ['related_id', 'related_id'],
+      ['note', 'note'],
+    ],
+    applyFilters: (query, filters) =>
+      TransactionModel.applyFilters(query, filters),
+  },
+  topup_requests: {
+    table: 'topup_requests',
+    columns: [
+      ['id', 'id'],
+      ['created_at', 'created_at'],
+      ['updated_at', 'updated_at'],
+      ['user_id', 'user_id'],
+      ['recipient_phone', 'recipient_phone'],
+      [
+        'operator',
+        '(select code from operators where operators.id = topup_requests.operator_id)',
+      ],
+      [
+        'product_code',
+        '(select product_code from operator_products where operator_products.id = topup_requests.operator_product_id)',
+      ],
+      [
+        'supplier',
+        '(select slug from suppliers where suppliers.id = topup_requests.supplier_id)',
+      ],
+      ['type', 'type'],
+      ['amount', 'amount'],
+      ['price', 'cost'],
+      ['discount_amount', 'discount_amount'],
+      [
+        'supplier_price',
+        '(select supplier_price from supplier_product_mapping where supplier_product_mapping.id = topup_requests.supplier_mapping_id)',
+      ],
+      ['status', 'status'],
+      ['attempt_count', 'attempt_count'],
+    ],
+    applyFilters: (query, filters) =>
+      TopupRequestModel.applyFilters(query, filters),
+  },
+  settlements: {
+    table: 'settlements',
+    columns: [
+      ['id', 'id'],
+      ['settlement_date', "to_char(settlement_date, 'YYYY-MM-DD')"],
+      ['provider_id', 'provider_id'],
+      [
+        'provider',
+        '(select name from providers where providers.id = settlements.provider_id)',
+      ],
+      ['amount', 'amount'],
+      ['fees', 'fees'],
+      ['reference', 'reference'],
+      ['created_at', 'created_at'],
+    ],
+    applyFilters: (query, filters) =>
+      SettlementModel.applyFilters(query, filters),
+  },
+};
+
+// =================================================================
+// Export Service
+// =================================================================
+
+export class ExportService {
+  /**
+   * Decides how an export is delivered: small ones stream straight back,
+   * larger ones (or when asked) run as a background job
+   * @param type - What to export
+   * @param filters - The list filters
+   * @param requestedBy - The admin asking
+   * @param background - Run as a job whatever the size
+   * @returns How the export will be delivered
+   */
+  static async request(
+    type: ExportType,
+    filters: ExportFilters,
+    requestedBy: string,
+    background = false
+  ): Promise<ExportRequest> {
+    const rows = await this.count(type, filters);
+    if (!background && rows <= config.exports.syncRowLimit) {
+      return { mode: 'stream', rows };
+    }
+    if (!config.exports.dir) {
+      throw new ApiError(
+        503,
+        `Background exports are not configured; narrow the filters to at most ${config.exports.syncRowLimit} rows`
+      );
+    }
+
+    const payload: ExportJobPayload = { type, filters, requestedBy };
+    const job = await JobService.enqueue(EXPORT_JOB_TYPE, payload, {
+      maxAttempts: 3,
+    });
+    logger.info(`Queued ${type} export ${job.id} of ${rows} rows`, {
+      requestedBy,
+    });
+    return { mode: 'job', rows, job };
+  }
+
+  /**
+   * Counts the rows an export would contain
+   * @param type - What to export
+   * @param filters - The list filters
+   */
+  static async count(type: ExportType, filters: ExportFilters) {
+    const { table, applyFilters } = EXPORTS[type];
+    const row = await applyFilters(db(table), filters)
+      .count('* as count')
+      .first();
+    return Number(row?.count || 0);
+  }
+
+  /**
+   * Writes an export as CSV, oldest row first. Rows are read in batches
+   * and written as the output drains, so memory use stays flat however
+   * many rows match.
+   * @param type - What to export
+   * @param filters - The list filters
+   * @param out - Where the CSV goes, e.g. the response or a file
+   * @returns Number of rows written
+   */
+  static async writeCsv(
+    type: ExportType,
+    filters: ExportFilters,
+    out: Writable
+  ): Promise<number> {
+    const { table, columns, applyFilters } = EXPORTS[type];
+    const write = async (chunk: string) => {
+      if (!out.write(chunk)) {
+        await once(out, 'drain');
+      }
+    };
+
+    await write(toCsvRow(columns.map(([header]) => header)));
+
+    let cursor: { at: string; id: string } | null = null;
+    let written = 0;
+    for (;;) {
+      const query = applyFilters(db(table), filters)
+        .select(
+          db.raw('created_at::text as export_cursor_at'),
+          'id as export_cursor_id',
+          ...columns.map(([header, sql]) => db.raw(`${sql} as ??`, [header]))
+        )
+        .orderBy([
+          { column: 'created_at', order: 'asc' },
+          { column: 'id', order: 'asc' },
+        ])
+        .limit(BATCH_SIZE);
+      if (cursor) {
+        query.whereRaw('(created_at, id) > (?::timestamptz, ?)', [
+          cursor.at,
+          cursor.id,
+        ]);
+      }
+
+      const rows = await query;
+      for (const row of rows) {
+        await write(toCsvRow(columns.map(([header]) => row[header])));
+      }
+      written += rows.length;
+
+      if (rows.length < BATCH_SIZE) {
+        return written;
+      }
+      const last = rows[rows.length - 1];
+      cursor = { at: last.export_cursor_at, id: last.export_cursor_id };
+    }
+  }
+
+  /**
+   * Runs a background export, writing the CSV where it can be downloaded
+   * @param payload - The export to run
+   * @param job - The data_export job
+   * @returns The job result, with the download link
+   */
+  static async runJob(payload: ExportJobPayload, job: JobRecord) {
+    await fs.promises.mkdir(config.exports.dir, { recursive: true });
+    const filePath = this.filePath(job.id);
+    const file = fs.createWriteStream(filePath);
+
+    try {
+      const rows = await this.writeCsv(payload.type, payload.filters, file);
+      file.end();
+      await once(file, 'finish');
+      return {
+        rows,
+        fileName: this.fileName(payload.type, job),
+        downloadUrl: `/api/v1/admin/exports/${job.id}/download`,
+      };
+    } catch (error) {
+      file.destroy();
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a background export requested by an admin
+   * @param jobId - The data_export job ID
+   * @param adminId - The admin asking; only the requester may see it
+   * @returns The job
+   */
+  static async getJob(jobId: string, adminId: string): Promise<JobRecord> {
+    const job: JobRecord | undefined = await JobModel.findById(jobId);
+    if (
+      !job ||
+      job.type !== EXPORT_JOB_TYPE ||
+      job.payload?.requestedBy !== adminId
+    ) {
+      throw new ApiError(404, 'Export not found');
+    }
+    return job;
+  }
+
+  /**
+   * Finds the file of a finished background export
+   * @param jobId - The data_export job ID
+   * @param adminId - The admin asking; only the requester may download it
+   * @returns Where the file is and the name to download it as
+   */
+  static async getDownload(
+    jobId: string,
+    adminId: string
+  ): Promise<{ filePath: string; fileName: string }> {
+    const job = await this.getJob(jobId, adminId);
+    if (job.status !== 'completed') {
+      throw new ApiError(409, `Export is ${job.status}`);
+    }
+
+    const filePath = this.filePath(job.id);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (stats.mtimeMs < this.retentionCutoff()) {
+        throw new Error('Export file is past retention');
+      }
+    } catch {
+      throw new ApiError(410, 'Export file is no longer available');
+    }
+    return { filePath, fileName: job.result?.fileName || `${job.id}.csv` };
+  }
+
+  /**
+   * Deletes export files older than the retention period
+   * @returns Number of files deleted
+   */
+  static async purgeExpired(): Promise<number> {
+    if (!config.exports.dir) {
+      return 0;
+    }
+
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(config.exports.dir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    const cutoff = this.retentionCutoff();
+    let deleted = 0;
+    for (const name of names.filter(name => name.endsWith('.csv'))) {
+      const filePath = path.join(config.exports.dir, name);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      if (stats?.isFile() && stats.mtimeMs < cutoff) {
+        await fs.promises.rm(filePath, { force: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Name a download is saved as, e.g. topup_requests-20251227-0930.csv
+   * @param type - What was exported
+   * @param job - The job, for when it was requested
+   */
+  static fileName(type: ExportType, job?: Pick<JobRecord, 'created_at'>) {
+    const at = job?.created_at ? new Date(job.created_at) : new Date();
+    const stamp = at
+      .toISOString()
+      .slice(0, 16)
+      .replace(/[-:]/g, '')
+      .replace('T', '-');
+    return `${type}-${stamp}.csv`;
+  }
+
+  private static retentionCutoff() {
+    return Date.now() - config.exports.retentionHours * 60 * 60 * 1000;
+  }
+
+  private static filePath(jobId: string) {
+    return path.join(config.exports.dir, `${jobId}.csv`);
+  }
+}
+
+export default ExportService;
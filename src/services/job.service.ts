@@ -1,4 +1,8 @@
-import JobModel, { JobRecord } from '../models/Job';
+import JobModel, { JobRecord, JobStatus } from '../models/Job';
+import { EnqueueJobOptions, JobHandlerOptions } from '../types/job.types';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+import { JobHandlerRegistry, PermanentJobError } from './jobHandler.registry';
 
 export class JobService {
   static async createJob(type: string, payload: any) {
@@ -6,6 +10,21 @@ export class JobService {
     return job as JobRecord;
   }
 
+  /**
+   * Queues a job for the worker
+   * @param type - A type with a registered handler
+   * @param payload - Passed to the handler
+   * @param options - Attempt limit and earliest start time
+   * @returns The queued job
+   */
+  static async enqueue(
+    type: string,
+    payload: any,
+    options: EnqueueJobOptions = {}
+  ) {
+    return JobModel.create(type, payload, options);
+  }
+
   static async fetchAndClaimPending() {
     const pending = await JobModel.fetchPending(1);
     if (!pending || pending.length === 0) return null;
@@ -14,6 +33,160 @@ export class JobService {
     return claimed as JobRecord | null;
   }
 
+  static async claim(type: string, limit: number, workerId: string) {
+    return JobModel.claimDue(type, limit, workerId);
+  }
+
+  /**
+   * Requeues running jobs whose worker stopped without finishing them, or
+   * dead-letters them once their attempts are used up
+   * @returns Number of jobs requeued and dead-lettered
+   */
+  static async requeueStale(): Promise<{
+    requeued: number;
+    deadLettered: number;
+  }> {
+    const total = { requeued: 0, deadLettered: 0 };
+    for (const { type, leaseMinutes } of JobHandlerRegistry.list()) {
+      const { requeued, deadLettered } = await JobModel.requeueStale(
+        type,
+        leaseMinutes
+      );
+      total.requeued += requeued;
+      total.deadLettered += deadLettered;
+    }
+    return total;
+  }
+
+  /**
+   * Runs a claimed job with its handler and records the outcome. A failed
+   * attempt is retried with exponential backoff until max_attempts, then
+   * the job is moved to the dead-letter state. The outcome is only recorded
+   * while this worker still holds the job.
+   * @param job - A job claimed by this worker
+   * @param workerId - The worker that claimed the job
+   * @returns The status the job ended up in
+   */
+  static async run(job: JobRecord, workerId: string): Promise<JobStatus> {
+    const registered = JobHandlerRegistry.get(job.type);
+    if (!registered) {
+      const recorded = await JobModel.recordFailure(
+        job.id,
+        workerId,
+        `No handler registered for job type ${job.type}`,
+        null
+      );
+      if (!recorded) this.warnNotHeld(job, workerId);
+      return 'dead';
+    }
+
+    try {
+      const result = await registered.handler(job.payload, job);
+      const recorded = await JobModel.updateStatus(
+        job.id,
+        'completed',
+        result ?? null,
+        workerId
+      );
+      if (!recorded) this.warnNotHeld(job, workerId);
+      return 'completed';
+    } catch (err: any) {
+      const message = err?.message || String(err);
+      const canRetry =
+        !(err instanceof PermanentJobError) &&
+        job.attempts < (job.max_attempts ?? 1);
+      const retryAt = canRetry
+        ? new Date(Date.now() + this.backoffDelay(job.attempts, registered))
+        : null;
+
+      const recorded = await JobModel.recordFailure(
+        job.id,
+        workerId,
+        message,
+        retryAt
+      );
+      if (!recorded) this.warnNotHeld(job, workerId);
+      if (retryAt) {
+        logger.warn(
+          `Job ${job.id} (${job.type}) failed attempt ${job.attempts}; retrying at ${retryAt.toISOString()}`,
+          { error: message }
+        );
+        return 'pending';
+      }
+      logger.error(
+        `Job ${job.id} (${job.type}) moved to dead-letter after ${job.attempts} attempt(s)`,
+        { error: message }
+      );
+      return 'dead';
+    }
+  }
+
+  private static warnNotHeld(job: JobRecord, workerId: string) {
+    logger.warn(
+      `Job ${job.id} (${job.type}) is no longer held by worker ${workerId}; its outcome was not recorded`
+    );
+  }
+
+  /**
+   * Delay before the next attempt: the base delay doubled for every
+   * attempt already made, capped at the handler's maximum
+   * @param attempts - Attempts made so far (at least 1)
+   * @param options - The handler's backoff settings
+   */
+  static backoffDelay(
+    attempts: number,
+    options: Pick<JobHandlerOptions, 'backoffMs' | 'maxBackoffMs'>
+  ): number {
+    return Math.min(
+      options.backoffMs * 2 ** Math.max(attempts - 1, 0),
+      options.maxBackoffMs
+    );
+  }
+
+  /**
+   * Puts a dead, failed or cancelled job back in the queue with a fresh
+   * set of attempts
+   * @param jobId - The job ID
+   * @returns The requeued job
+   */
+  static async retry(jobId: string): Promise<JobRecord> {
+    const job = await JobModel.transition(
+      jobId,
+      ['dead', 'failed', 'cancelled'],
+      {
+        status: 'pending',
+        attempts: 0,
+        run_at: new Date(),
+        finished_at: null,
+      }
+    );
+    return job || this.rejectTransition(jobId, 'retried');
+  }
+
+  /**
+   * Cancels a job that has not started yet
+   * @param jobId - The job ID
+   * @returns The cancelled job
+   */
+  static async cancel(jobId: string): Promise<JobRecord> {
+    const job = await JobModel.transition(jobId, ['pending'], {
+      status: 'cancelled',
+      finished_at: new Date(),
+    });
+    return job || this.rejectTransition(jobId, 'cancelled');
+  }
+
+  private static async rejectTransition(
+    jobId: string,
+    action: string
+  ): Promise<never> {
+    const job = await JobModel.findById(jobId);
+    if (!job) {
+      throw new ApiError(404, 'Job not found');
+    }
+    throw new ApiError(409, `A ${job.status} job cannot be ${action}`);
+  }
+
   static async markCompleted(id: string, result?: any) {
     await JobModel.updateStatus(id, 'completed', result);
   }
@@ -0,0 +1,58 @@
+import {
+  JobHandler,
+  JobHandlerOptions,
+  RegisteredJobHandler,
+} from '../types/job.types';
+
+const DEFAULT_OPTIONS: JobHandlerOptions = {
+  concurrency: 1,
+  backoffMs: 5000,
+  maxBackoffMs: 60 * 60 * 1000,
+  leaseMinutes: 15,
+};
+
+/**
+ * Thrown by a handler when retrying cannot help (bad payload, missing
+ * record); the job goes straight to the dead-letter state.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Process-wide lookup of job handlers keyed by `jobs.type`. Handlers
+ * register at startup; the worker only claims types it has a handler for.
+ */
+export class JobHandlerRegistry {
+  private static handlers = new Map<string, RegisteredJobHandler>();
+
+  static register(
+    type: string,
+    handler: JobHandler,
+    options: Partial<JobHandlerOptions> = {}
+  ): void {
+    this.handlers.set(type, {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      type,
+      handler,
+    });
+  }
+
+  static unregister(type: string): void {
+    this.handlers.delete(type);
+  }
+
+  static get(type: string): RegisteredJobHandler | null {
+    return this.handlers.get(type) || null;
+  }
+
+  static list(): RegisteredJobHandler[] {
+    return Array.from(this.handlers.values());
+  }
+}
+
+export default JobHandlerRegistry;
@@ -0,0 +1,192 @@
+import { Knex } from 'knex';
+import { LedgerModel } from '../models/Ledger';
+import {
+  LedgerAccountRef,
+  LedgerIntegrityReport,
+  LedgerLine,
+  PostedJournal,
+  PostJournalInput,
+  UserLedgerAccountType,
+} from '../types/ledger.types';
+import { ApiError } from '../utils/ApiError';
+
+// Where the spendable balance of each user account type is cached
+const BALANCE_COLUMNS: Record<
+  UserLedgerAccountType,
+  { table: string; column: string; label: string }
+> = {
+  user_wallet: { table: 'wallets', column: 'balance', label: 'wallet' },
+  user_cashback: {
+    table: 'cashback',
+    column: 'available_balance',
+    label: 'cashback',
+  },
+};
+
+const toKobo = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Every money movement goes through `post`. It writes a balanced journal and
+ * keeps the cached `wallets.balance` / `cashback.available_balance` columns
+ * in step with it, so those columns should never be updated by hand.
+ */
+export class LedgerService {
+  static wallet(userId: string): LedgerAccountRef {
+    return { type: 'user_wallet', userId };
+  }
+
+  static cashback(userId: string): LedgerAccountRef {
+    return { type: 'user_cashback', userId };
+  }
+
+  static accountCode(ref: LedgerAccountRef): string {
+    return LedgerModel.accountCode(ref);
+  }
+
+  /**
+   * Posts a balanced journal and applies it to cached user balances.
+   * @param input Journal header and lines
+   * @param trx Knex transaction the money movement is part of
+   * @returns The journal id and the new balance of each user account touched
+   * @throws ApiError 402 if a user account would go negative
+   */
+  static async post(
+    input: PostJournalInput,
+    trx: Knex.Transaction
+  ): Promise<PostedJournal> {
+    const lines = this.validate(input.lines);
+
+    const entries = [];
+    for (const line of lines) {
+      const account = await LedgerModel.findOrCreateAccount(line.account, trx);
+      entries.push({
+        accountId: account.id,
+        direction: line.direction,
+        amount: line.amount,
+      });
+    }
+
+    const journalId = await LedgerModel.insertJournal(input, entries, trx);
+
+    const balances: Record<string, number> = {};
+    for (const [code, { ref, deltaKobo }] of this.userDeltas(lines)) {
+      balances[code] = await this.applyToCachedBalance(ref, deltaKobo, trx);
+    }
+
+    return { id: journalId, balances };
+  }
+
+  /**
+   * Compares total debits with total credits and cached balances with the
+   * ledger. A sound ledger has no unbalanced journals and no drift.
+   */
+  static async getIntegrityReport(): Promise<LedgerIntegrityReport> {
+    const [trialBalance, unbalancedJournals, systemAccounts, drift] =
+      await Promise.all([
+        LedgerModel.getTrialBalance(),
+        LedgerModel.findUnbalancedJournals(),
+        LedgerModel.getSystemAccountBalances(),
+        LedgerModel.findBalanceDrift(),
+      ]);
+
+    return {
+      ...trialBalance,
+      balanced:
+        toKobo(trialBalance.totalDebit) === toKobo(trialBalance.totalCredit) &&
+        unbalancedJournals.length === 0,
+      unbalancedJournals,
+      systemAccounts,
+      drift,
+      checkedAt: new Date(),
+    };
+  }
+
+  /**
+   * Rejects empty, non-positive or unbalanced journals and rounds amounts to
+   * two decimal places.
+   */
+  private static validate(lines: LedgerLine[]): LedgerLine[] {
+    const rounded = lines
+      .filter(line => line.amount !== 0)
+      .map(line => {
+        if (!Number.isFinite(line.amount) || line.amount < 0) {
+          throw new Error(`Invalid ledger amount: ${line.amount}`);
+        }
+        return { ...line, amount: toKobo(line.amount) / 100 };
+      });
+
+    if (rounded.length < 2) {
+      throw new Error('A ledger journal needs at least one debit and credit');
+    }
+
+    const net = rounded.reduce(
+      (sum, line) =>
+        sum + (line.direction === 'debit' ? 1 : -1) * toKobo(line.amount),
+      0
+    );
+    if (net !== 0) {
+      throw new Error(`Ledger journal is unbalanced by ${net / 100}`);
+    }
+
+    return rounded;
+  }
+
+  // Net change per user account; user accounts sit on the credit side
+  private static userDeltas(
+    lines: LedgerLine[]
+  ): Map<string, { ref: LedgerAccountRef; deltaKobo: number }> {
+    const deltas = new Map<
+      string,
+      { ref: LedgerAccountRef; deltaKobo: number }
+    >();
+    lines.forEach(line => {
+      if (!('userId' in line.account)) return;
+      const code = this.accountCode(line.account);
+      const current = deltas.get(code) || { ref: line.account, deltaKobo: 0 };
+      current.deltaKobo +=
+        (line.direction === 'credit' ? 1 : -1) * toKobo(line.amount);
+      deltas.set(code, current);
+    });
+    return deltas;
+  }
+
+  private static async applyToCachedBalance(
+    ref: LedgerAccountRef,
+    deltaKobo: number,
+    trx: Knex.Transaction
+  ): Promise<number> {
+    if (!('userId' in ref)) {
+      throw new Error(`${ref.type} has no cached balance`);
+    }
+    const { table, column, label } = BALANCE_COLUMNS[ref.type];
+
+    if (ref.type === 'user_cashback') {
+      await trx('cashback')
+        .insert({ user_id: ref.userId, available_balance: 0 })
+        .onConflict('user_id')
+        .ignore();
+    }
+
+    const row = await trx(table)
+      .where({ user_id: ref.userId })
+      .forUpdate()
+      .first();
+    if (!row) {
+      throw new ApiError(404, 'Wallet not found');
+    }
+
+    const newBalanceKobo = toKobo(parseFloat(row[column])) + deltaKobo;
+    if (newBalanceKobo < 0) {
+      throw new ApiError(402, `Insufficient ${label} balance`);
+    }
+
+    const newBalance = newBalanceKobo / 100;
+    await trx(table)
+      .where({ user_id: ref.userId })
+      .update({ [column]: newBalance, updated_at: trx.fn.now() });
+
+    return newBalance;
+  }
+}
+
+export default LedgerService;
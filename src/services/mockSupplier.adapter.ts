@@ -0,0 +1,95 @@
+import {
+  SupplierAdapter,
+  SupplierDispatchRequest,
+  SupplierDispatchResult,
+  SupplierDispatchStatus,
+  SupplierStatusQuery,
+} from '../types/supplierAdapter.types';
+
+export interface MockSupplierAdapterOptions {
+  slug?: string;
+  delayMs?: number;
+  // Override the outcome; defaults to the phone-suffix convention below
+  outcome?: (request: SupplierDispatchRequest) => SupplierDispatchStatus;
+}
+
+/**
+ * In-process supplier used for development and tests. It never leaves the
+ * process and decides the outcome from the recipient phone number:
+ * - ending in 0000 -> failed
+ * - ending in 9999 -> pending (confirmation arrives later via webhook)
+ * - anything else  -> success
+ */
+export class MockSupplierAdapter implements SupplierAdapter {
+  readonly slug: string;
+  private readonly delayMs: number;
+  private readonly outcome?: (
+    request: SupplierDispatchRequest
+  ) => SupplierDispatchStatus;
+
+  constructor(options: MockSupplierAdapterOptions = {}) {
+    this.slug = options.slug || 'mock';
+    this.delayMs = options.delayMs || 0;
+    this.outcome = options.outcome;
+  }
+
+  async dispatch(
+    request: SupplierDispatchRequest
+  ): Promise<SupplierDispatchResult> {
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    }
+
+    const status = this.outcome
+      ? this.outcome(request)
+      : MockSupplierAdapter.defaultOutcome(request.recipientPhone);
+
+    const supplierReference = `MOCK-${request.reference}`;
+    const responses: Record<
+      SupplierDispatchStatus,
+      { code: string; message: string }
+    > = {
+      success: { code: '00', message: 'Delivered' },
+      pending: { code: '09', message: 'Accepted, awaiting confirmation' },
+      failed: { code: '99', message: 'Rejected by mock supplier' },
+    };
+
+    return {
+      status,
+      responseCode: responses[status].code,
+      responseMessage: responses[status].message,
+      supplierReference,
+      payload: {
+        reference: supplierReference,
+        customer_reference: request.reference,
+        product_code: request.supplierProductCode,
+        beneficiary: request.recipientPhone,
+        amount: request.amount,
+        status,
+      },
+    };
+  }
+
+  /**
+   * Reports the outcome a request would get today. A pending number stays
+   * pending until its webhook is simulated.
+   */
+  async queryStatus(
+    query: SupplierStatusQuery
+  ): Promise<SupplierDispatchResult> {
+    const status = MockSupplierAdapter.defaultOutcome(query.recipientPhone);
+    return {
+      status,
+      responseCode:
+        status === 'success' ? '00' : status === 'failed' ? '99' : '09',
+      responseMessage: `Mock supplier reports ${status}`,
+      supplierReference: `MOCK-${query.reference}`,
+    };
+  }
+
+  private static defaultOutcome(phone: string): SupplierDispatchStatus {
+    if (phone.endsWith('0000')) return 'failed';
+    if (phone.endsWith('9999')) return 'pending';
+    return 'success';
+  }
+}
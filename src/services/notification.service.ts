@@ -1,6 +1,7 @@
 import { config } from '../config/env';
 import db from '../database/connection';
 import { NotificationModel } from '../models/Notification';
+import { NotificationAnalyticsModel } from '../models/NotificationAnalytics';
 import { UserNotificationModel } from '../models/UserNotification';
 import { UserNotificationPreferenceModel } from '../models/UserNotificationPreference';
 import {
@@ -14,6 +15,16 @@ import { FirebaseService } from './firebase.service';
 import { NotificationTemplateService } from './notificationTemplate.service';
 import { UserNotificationPreferenceService } from './userNotificationPreference.service';
 
+// Scheduled notifications are claimed in batches; a claim older than the
+// lease is assumed to belong to an instance that died mid-send
+const DISPATCH_BATCH_SIZE = 50;
+const DISPATCH_LEASE_MINUTES = 10;
+const MAX_DISPATCH_ATTEMPTS = 3;
+
+// Waits between attempts to mark a published notification sent. Until it is
+// marked, its claim can expire and another instance would send it again.
+const MARK_SENT_RETRY_DELAYS_MS = [200, 1000, 5000];
+
 export class NotificationService {
   /**
    * Creates a notification and triggers a background job to send it to all users.
@@ -137,48 +148,221 @@ export class NotificationService {
   }
 
   /**
-   * Background job to send push notifications.
-   * Publishes notification to Firebase topic (category-based broadcast)
-   * Firebase automatically sends to all tokens subscribed to that topic
-   * @param notification - The notification to send.
+   * Sends every notification whose publish_at has passed. Run by the
+   * scheduled dispatcher; safe to run on several instances at once.
+   * @returns How many notifications were claimed, sent and failed
    */
-  private static async sendPushNotifications(notification: any) {
+  static async dispatchDue(): Promise<{
+    claimed: number;
+    sent: number;
+    failed: number;
+  }> {
+    const notifications = await NotificationModel.claimDue(
+      DISPATCH_BATCH_SIZE,
+      DISPATCH_LEASE_MINUTES
+    );
+
+    let sent = 0;
+    for (const notification of notifications) {
+      if (await this.deliver(notification)) {
+        sent++;
+      }
+    }
+
+    return {
+      claimed: notifications.length,
+      sent,
+      failed: notifications.length - sent,
+    };
+  }
+
+  /**
+   * Cancels a scheduled notification that has not been sent yet
+   * @param notificationId - The notification to cancel
+   * @param cancelledBy - The admin cancelling it
+   * @returns The cancelled notification
+   */
+  static async cancelScheduled(notificationId: string, cancelledBy: string) {
+    const notification = await NotificationModel.updatePending(notificationId, {
+      cancelled_at: db.fn.now(),
+      cancelled_by: cancelledBy,
+    });
+    if (!notification) {
+      await this.assertPending(notificationId);
+    }
+
+    logger.info(`Notification ${notificationId} cancelled by ${cancelledBy}`);
+    return notification;
+  }
+
+  /**
+   * Moves a scheduled notification that has not been sent yet to a new time
+   * @param notificationId - The notification to reschedule
+   * @param publishAt - The new send time; must be in the future
+   * @returns The rescheduled notification
+   */
+  static async reschedule(notificationId: string, publishAt: Date) {
+    if (Number.isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+      throw new ApiError(400, 'publish_at must be a future date');
+    }
+
+    const notification = await NotificationModel.updatePending(notificationId, {
+      publish_at: publishAt,
+    });
+    if (!notification) {
+      await this.assertPending(notificationId);
+    }
+
     logger.info(
-      `Starting background job to send push notifications for notification ID: ${notification.id}`
+      `Notification ${notificationId} rescheduled for ${publishAt.toISOString()}`
     );
+    return notification;
+  }
+
+  /**
+   * Explains why a notification can no longer be changed
+   */
+  private static async assertPending(notificationId: string): Promise<never> {
+    const notification = await NotificationModel.findById(notificationId);
+    if (!notification) {
+      throw new ApiError(404, 'Notification not found');
+    }
+    if (notification.sent) {
+      throw new ApiError(409, 'Notification has already been sent');
+    }
+    if (notification.cancelled_at) {
+      throw new ApiError(409, 'Notification has already been cancelled');
+    }
+    if (notification.failed_at) {
+      throw new ApiError(409, 'Notification could not be sent');
+    }
+    throw new ApiError(409, 'Notification is being sent');
+  }
+
+  /**
+   * Sends a notification that is due now. It is claimed first, so the
+   * scheduled dispatcher cannot send it a second time.
+   * @param notification - The notification to send.
+   */
+  private static async sendPushNotifications(notification: any) {
     try {
-      // Determine which topic to publish to
-      // Default to 'all' if no category specified
-      const topic = notification.category || 'all';
+      const [claimed] = await NotificationModel.claimDue(
+        1,
+        DISPATCH_LEASE_MINUTES,
+        notification.id
+      );
+      if (claimed) {
+        await this.deliver(claimed);
+      }
+    } catch (error) {
+      logger.error(
+        `Error sending notification ${notification.id} immediately`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Publishes a claimed notification to its Firebase topic (category-based
+   * broadcast) and records the outcome. Failed sends are released for a
+   * retry until the attempts run out. Once Firebase has accepted a message
+   * its claim is never released and marking it sent is retried with backoff;
+   * only if every retry fails can it be sent again after the lease expires.
+   * @param notification - A notification claimed by this instance
+   * @returns True if the notification was sent
+   */
+  private static async deliver(notification: any): Promise<boolean> {
+    // Default to 'all' if no category specified
+    const topic = notification.category || 'all';
+    let result: string | null;
 
+    try {
       logger.info(
         `Publishing notification to Firebase topic: ${topic}. Notification ID: ${notification.id}`
       );
 
-      // Publish to Firebase topic - this broadcasts to all devices subscribed to the topic
-      const result = await FirebaseService.sendTopicMessage(
+      // Firebase broadcasts to all devices subscribed to the topic
+      result = await FirebaseService.sendTopicMessage(
         topic,
         notification.title,
         notification.body || '',
         notification.id // Pass notification ID so frontend knows which notification was clicked
       );
+      if (!result) {
+        throw new Error('Push provider did not accept the message');
+      }
+    } catch (error: any) {
+      const giveUp = notification.dispatch_attempts >= MAX_DISPATCH_ATTEMPTS;
+      logger.error(
+        `Error publishing notification ${notification.id} to Firebase topic (attempt ${notification.dispatch_attempts})`,
+        error
+      );
 
-      if (result) {
-        // Mark notification as sent in database
-        await db('notifications')
-          .where({ id: notification.id })
-          .update({ sent: true });
+      try {
+        await NotificationModel.releaseClaim(
+          notification.id,
+          error?.message || 'Unknown error',
+          giveUp
+        );
+        if (giveUp) {
+          await this.recordDispatch(notification.id, 'failed');
+        }
+      } catch (releaseError) {
+        logger.error(
+          `Failed to release notification ${notification.id}`,
+          releaseError
+        );
+      }
+      return false;
+    }
 
-        logger.info(
-          `Notification ${notification.id} successfully published to topic '${topic}'. Message ID: ${result}`
+    await this.markSentWithRetry(notification.id);
+    await this.recordDispatch(notification.id, 'sent');
+
+    logger.info(
+      `Notification ${notification.id} successfully published to topic '${topic}'. Message ID: ${result}`
+    );
+    return true;
+  }
+
+  private static async markSentWithRetry(notificationId: string) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await NotificationModel.markSent(notificationId);
+        return;
+      } catch (error) {
+        if (attempt >= MARK_SENT_RETRY_DELAYS_MS.length) {
+          logger.error(
+            `Notification ${notificationId} was published but could not be marked sent; it may be sent again once its claim expires`,
+            error
+          );
+          return;
+        }
+        logger.warn(
+          `Retrying marking notification ${notificationId} sent (attempt ${attempt + 1})`
+        );
+        await new Promise(resolve =>
+          setTimeout(resolve, MARK_SENT_RETRY_DELAYS_MS[attempt])
         );
       }
+    }
+  }
+
+  private static async recordDispatch(
+    notificationId: string,
+    status: 'sent' | 'failed'
+  ): Promise<void> {
+    try {
+      await NotificationAnalyticsModel.create({
+        notification_id: notificationId,
+        user_id: null,
+        status,
+      });
     } catch (error) {
       logger.error(
-        `Error publishing notification ${notification.id} to Firebase topic`,
+        `Failed to record ${status} analytics for notification ${notificationId}`,
         error
       );
-      // Don't throw - allow the notification record to exist even if Firebase send fails
     }
   }
 
@@ -1,8 +1,20 @@
 // src/services/offer.service.ts
+import { Knex } from 'knex';
 import db from '../database/connection';
 import { OfferModel } from '../models/Offer';
-import { Offer } from '../types/offer.type';
+import {
+  AvailableOffer,
+  AvailableOfferProduct,
+  Offer,
+  OfferCheckout,
+  OfferCheckoutRequest,
+  OfferProduct,
+  OfferProductDetails,
+} from '../types/offer.type';
 import { ApiError } from '../utils/ApiError';
+import { PricingService } from './pricing.service';
+
+const toKobo = (amount: number) => Math.round(amount * 100);
 
 export class OfferService {
   /**
@@ -88,13 +100,7 @@ export class OfferService {
         throw new ApiError(400, 'Offer inactive or not found');
       }
 
-      // Check eligibility using the PostgreSQL function
-      const { rows } = await trx.raw(
-        'SELECT is_user_eligible_for_offer(?, ?) AS eligible',
-        [offerId, userId]
-      );
-
-      if (!rows[0].eligible) {
+      if (!(await this.isEligible(offerId, userId, trx))) {
         throw new ApiError(403, 'User not eligible for this offer');
       }
 
@@ -102,6 +108,7 @@ export class OfferService {
       if (offer.per_user_limit) {
         const redemptionCount = await trx('offer_redemptions')
           .where({ offer_id: offerId, user_id: userId })
+          .whereNull('released_at')
           .count('* as count')
           .first();
 
@@ -143,4 +150,351 @@ export class OfferService {
       });
     });
   }
+
+  /**
+   * Prices an offer against a purchase. The offer is looked up by ID or
+   * code and locked for the rest of the transaction; the purchase must
+   * record the redemption with `recordCheckoutRedemption` before committing.
+   * @param request - The offer, buyer, product and price before the offer.
+   * @param trx - The purchase transaction.
+   * @returns The discount and the price to charge.
+   */
+  static async applyAtCheckout(
+    request: OfferCheckoutRequest,
+    trx: Knex.Transaction
+  ): Promise<OfferCheckout> {
+    const offer: Offer | undefined = await trx('offers')
+      .whereNull('deleted_at')
+      .where(query => {
+        query
+          .where('code', request.offer)
+          .orWhereRaw('id::text = ?', [request.offer]);
+      })
+      .forUpdate()
+      .first();
+    if (!offer) {
+      throw new ApiError(404, 'Offer not found');
+    }
+
+    const now = new Date();
+    if (
+      offer.status !== 'active' ||
+      (offer.starts_at && new Date(offer.starts_at) > now) ||
+      (offer.ends_at && new Date(offer.ends_at) < now)
+    ) {
+      throw new ApiError(400, 'Offer is not active');
+    }
+    if (
+      offer.total_usage_limit !== null &&
+      offer.usage_count >= offer.total_usage_limit
+    ) {
+      throw new ApiError(409, 'Offer has been fully redeemed');
+    }
+
+    await this.assertEligible(offer, request.userId, trx);
+
+    const offerProduct = await this.findOfferProduct(offer, request, trx);
+    const discountAmount = this.calculateDiscount(
+      offer,
+      request.price,
+      offerProduct?.price_override
+    );
+
+    return {
+      offerId: offer.id,
+      code: offer.code,
+      price: request.price,
+      discountAmount,
+      pricePaid: (toKobo(request.price) - toKobo(discountAmount)) / 100,
+      operatorProductId: offerProduct?.supplier_product_mapping_id
+        ? null
+        : request.operatorProductId,
+      supplierProductMappingId:
+        offerProduct?.supplier_product_mapping_id || null,
+    };
+  }
+
+  /**
+   * Records the redemption of an offer applied at checkout. The redemption
+   * trigger re-checks eligibility and counts the use.
+   * @param checkout - The result of `applyAtCheckout`.
+   * @param userId - The buyer.
+   * @param topupRequestId - The purchase the offer discounted.
+   * @param supplierId - The supplier the purchase was routed to.
+   * @param trx - The purchase transaction.
+   */
+  static async recordCheckoutRedemption(
+    checkout: OfferCheckout,
+    userId: string,
+    topupRequestId: string,
+    supplierId: string | undefined,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    await trx('offer_redemptions').insert({
+      offer_id: checkout.offerId,
+      user_id: userId,
+      operator_product_id: checkout.operatorProductId,
+      supplier_product_mapping_id: checkout.supplierProductMappingId,
+      supplier_id: supplierId || null,
+      topup_request_id: topupRequestId,
+      price_paid: checkout.pricePaid,
+      discount_amount: checkout.discountAmount,
+    });
+  }
+
+  /**
+   * Works out how much an offer takes off a price. A product price override
+   * replaces the offer's own discount. The discount never exceeds the price.
+   * @param offer - The offer's discount type and value.
+   * @param price - The price before the offer.
+   * @param priceOverride - The offer price set for the product, if any.
+   * @returns The discount amount.
+   */
+  static calculateDiscount(
+    offer: Pick<Offer, 'discount_type' | 'discount_value'>,
+    price: number,
+    priceOverride?: number | string | null
+  ): number {
+    const priceKobo = toKobo(price);
+    const value = Number(offer.discount_value);
+    let paidKobo: number;
+
+    if (priceOverride !== null && priceOverride !== undefined) {
+      paidKobo = toKobo(Number(priceOverride));
+    } else if (offer.discount_type === 'percentage') {
+      paidKobo =
+        priceKobo - Math.round((priceKobo * Math.min(value, 100)) / 100);
+    } else if (offer.discount_type === 'fixed_amount') {
+      paidKobo = priceKobo - toKobo(value);
+    } else if (offer.discount_type === 'fixed_price') {
+      paidKobo = toKobo(value);
+    } else {
+      throw new ApiError(400, 'Offer cannot be applied to a single purchase');
+    }
+
+    const clampedKobo = Math.min(Math.max(paidKobo, 0), priceKobo);
+    return (priceKobo - clampedKobo) / 100;
+  }
+
+  /**
+   * Lists the offers a user can redeem now, with the uses they have left
+   * and, for each product the offer lists, the user's price with and
+   * without the offer.
+   * @param userId - The signed-in user.
+   * @returns The available offers, soonest ending first.
+   */
+  static async getAvailableOffers(userId: string): Promise<AvailableOffer[]> {
+    const user = await db('users').select('role').where({ id: userId }).first();
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+    const buyer = { role: user.role, userId };
+
+    const offers = await OfferModel.findAvailableForUser(userId, user.role);
+    if (offers.length === 0) {
+      return [];
+    }
+    const offerIds = offers.map(offer => offer.id);
+    const [redemptions, offerProducts] = await Promise.all([
+      OfferModel.countRedemptionsByUser(offerIds, userId),
+      OfferModel.findProductsForOffers(offerIds),
+    ]);
+
+    // Products listed by ID are priced through the route a purchase would
+    // take; products listed by supplier mapping through that mapping
+    const routed = await PricingService.priceProducts(
+      offerProducts
+        .filter(row => !row.supplierProductMappingId)
+        .map(row => ({
+          id: row.operatorProductId,
+          operatorId: row.operatorId,
+        })),
+      buyer
+    );
+    const priceOf = async (row: OfferProductDetails) => {
+      if (!row.supplierProductMappingId) {
+        return (
+          routed.find(product => product.id === row.operatorProductId)?.price ??
+          null
+        );
+      }
+      if (row.supplierPrice === null) {
+        return null;
+      }
+      const quote = await PricingService.quote({
+        operatorId: row.operatorId,
+        operatorProductId: row.operatorProductId,
+        supplierId: row.supplierId || undefined,
+        supplierPrice: row.supplierPrice,
+        ...buyer,
+      });
+      return quote.price;
+    };
+
+    const available: AvailableOffer[] = [];
+    for (const offer of offers) {
+      const used = redemptions.get(offer.id) || 0;
+      const usesRemaining = offer.per_user_limit
+        ? offer.per_user_limit - used
+        : null;
+      if (usesRemaining !== null && usesRemaining <= 0) {
+        continue;
+      }
+
+      const products: AvailableOfferProduct[] = [];
+      for (const row of offerProducts) {
+        if (
+          row.offerId !== offer.id ||
+          (offer.apply_to === 'operator_product' &&
+            row.supplierProductMappingId) ||
+          (offer.apply_to === 'supplier_product' &&
+            !row.supplierProductMappingId)
+        ) {
+          continue;
+        }
+
+        const price = await priceOf(row);
+        const discountAmount =
+          price === null || offer.discount_type === 'buy_x_get_y'
+            ? null
+            : this.calculateDiscount(offer, price, row.priceOverride);
+        products.push({
+          operatorProductId: row.operatorProductId,
+          supplierProductMappingId: row.supplierProductMappingId,
+          productCode: row.productCode,
+          productName: row.productName,
+          operatorName: row.operatorName,
+          denomAmount: row.denomAmount,
+          price,
+          discountAmount,
+          offerPrice:
+            price === null || discountAmount === null
+              ? null
+              : (toKobo(price) - toKobo(discountAmount)) / 100,
+        });
+      }
+
+      available.push({
+        id: offer.id,
+        code: offer.code,
+        title: offer.title,
+        description: offer.description,
+        discountType: offer.discount_type,
+        discountValue: Number(offer.discount_value),
+        startsAt: offer.starts_at,
+        endsAt: offer.ends_at,
+        appliesToAllProducts: offer.apply_to === 'all',
+        perUserLimit: offer.per_user_limit,
+        usesRemaining,
+        products,
+      });
+    }
+
+    return available;
+  }
+
+  // Members of the offer's precomputed segment qualify without re-running
+  // the rules; the redemption trigger makes the same exception
+  private static async isEligible(
+    offerId: string,
+    userId: string,
+    trx: Knex.Transaction
+  ): Promise<boolean> {
+    const member = await trx('offer_segment_members')
+      .where({ offer_id: offerId, user_id: userId })
+      .first();
+    if (member) {
+      return true;
+    }
+
+    const { rows } = await trx.raw(
+      'SELECT is_user_eligible_for_offer(?, ?) AS eligible',
+      [offerId, userId]
+    );
+    return !!rows[0].eligible;
+  }
+
+  private static async assertEligible(
+    offer: Offer,
+    userId: string,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    // Offers not open to everyone are limited to listed users and roles
+    if (!offer.allow_all) {
+      const user = await trx('users')
+        .select('role')
+        .where({ id: userId })
+        .first();
+      const allowedUser = await trx('offer_allowed_users')
+        .where({ offer_id: offer.id, user_id: userId })
+        .first();
+      const allowedRole =
+        !allowedUser && user
+          ? await trx('offer_allowed_roles')
+              .where({ offer_id: offer.id, role_name: user.role })
+              .first()
+          : undefined;
+      if (!allowedUser && !allowedRole) {
+        throw new ApiError(403, 'User not eligible for this offer');
+      }
+    }
+
+    if (!(await this.isEligible(offer.id, userId, trx))) {
+      throw new ApiError(403, 'User not eligible for this offer');
+    }
+
+    if (offer.per_user_limit) {
+      const redemptionCount = await trx('offer_redemptions')
+        .where({ offer_id: offer.id, user_id: userId })
+        .whereNull('released_at')
+        .count('* as count')
+        .first();
+      if (
+        redemptionCount &&
+        Number(redemptionCount.count) >= offer.per_user_limit
+      ) {
+        throw new ApiError(403, 'Per-user limit reached for this offer');
+      }
+    }
+  }
+
+  // The offer_products row covering the purchase: by product for
+  // operator_product offers, by supplier mapping for supplier_product
+  // offers, and either (for a price override) when the offer covers all
+  private static async findOfferProduct(
+    offer: Offer,
+    request: OfferCheckoutRequest,
+    trx: Knex.Transaction
+  ): Promise<OfferProduct | undefined> {
+    const rows: OfferProduct[] = await trx('offer_products')
+      .where({ offer_id: offer.id })
+      .andWhere(query => {
+        query.where('operator_product_id', request.operatorProductId);
+        if (request.supplierMappingId) {
+          query.orWhere(
+            'supplier_product_mapping_id',
+            request.supplierMappingId
+          );
+        }
+      });
+    const byMapping = rows.find(
+      row =>
+        !!request.supplierMappingId &&
+        row.supplier_product_mapping_id === request.supplierMappingId
+    );
+    const byProduct = rows.find(
+      row => row.operator_product_id === request.operatorProductId
+    );
+
+    const match =
+      offer.apply_to === 'operator_product'
+        ? byProduct
+        : offer.apply_to === 'supplier_product'
+          ? byMapping
+          : byMapping || byProduct;
+    if (!match && offer.apply_to !== 'all') {
+      throw new ApiError(400, 'Offer does not apply to this product');
+    }
+    return match;
+  }
 }
@@ -1,6 +1,168 @@
 import db from '../database/connection';
+import { OfferEligibilityRuleModel, OfferModel } from '../models/Offer';
+import {
+  EligibilityRuleInput,
+  EligibilityRuleParamKind,
+  EligibilityRuleType,
+  EligibilityRuleTypeSpec,
+  Offer,
+  OfferEligibilityRule,
+} from '../types/offer.type';
+import { ApiError } from '../utils/ApiError';
+import { JobService } from './job.service';
 import { OfferService } from './offer.service';
 
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Upper bounds keep the ::int casts and day intervals in
+// is_user_eligible_for_offer from overflowing
+const PARAM_LIMITS: Record<EligibilityRuleParamKind, number> = {
+  count: 1000000,
+  days: 36500,
+  amount: 1000000000,
+  uuid: 0,
+  string: 50,
+};
+
+// Tables that uuid params must point into
+const PARAM_REFERENCES: Record<string, string> = {
+  operator_id: 'operators',
+  badge_id: 'badges',
+};
+
+const windowDays = {
+  kind: 'days',
+  required: false,
+  description: 'Only count activity in the last N days',
+} as const;
+
+// The params each rule type accepts; kept in step with the branches of
+// is_user_eligible_for_offer
+export const ELIGIBILITY_RULE_TYPES: Record<
+  EligibilityRuleType,
+  EligibilityRuleTypeSpec
+> = {
+  new_user: {
+    description: 'Account created within the last N days',
+    params: {
+      account_age_days: {
+        kind: 'days',
+        required: true,
+        description: 'Maximum account age in days',
+      },
+    },
+  },
+  min_topups: {
+    description: 'Made at least N topups',
+    params: {
+      count: { kind: 'count', required: true, description: 'Minimum topups' },
+      window_days: windowDays,
+    },
+  },
+  min_transactions: {
+    description: 'Has at least N wallet transactions',
+    params: {
+      count: {
+        kind: 'count',
+        required: true,
+        description: 'Minimum transactions',
+      },
+    },
+  },
+  min_spent: {
+    description: 'Wallet transactions total at least an amount',
+    params: {
+      amount: { kind: 'amount', required: true, description: 'Minimum total' },
+      window_days: windowDays,
+    },
+  },
+  operator_topup_count: {
+    description: 'Made at least N topups on an operator',
+    params: {
+      operator_id: { kind: 'uuid', required: true, description: 'Operator' },
+      count: { kind: 'count', required: true, description: 'Minimum topups' },
+      window_days: windowDays,
+    },
+  },
+  operator_spent: {
+    description: 'Spent at least an amount on an operator',
+    params: {
+      operator_id: { kind: 'uuid', required: true, description: 'Operator' },
+      amount: { kind: 'amount', required: true, description: 'Minimum total' },
+      window_days: windowDays,
+    },
+  },
+  last_active_within: {
+    description: 'Account updated within the last N days',
+    params: {
+      days: { kind: 'days', required: true, description: 'Days' },
+    },
+  },
+  active_days: {
+    description: 'Transacted on at least N distinct days in a window',
+    params: {
+      days: { kind: 'days', required: true, description: 'Window in days' },
+      min_active_days: {
+        kind: 'count',
+        required: true,
+        description: 'Minimum distinct active days',
+      },
+    },
+  },
+  min_wallet_funding: {
+    description: 'Funded the wallet by at least an amount',
+    params: {
+      amount: {
+        kind: 'amount',
+        required: true,
+        description: 'Minimum total funding',
+      },
+      window_days: windowDays,
+    },
+  },
+  used_operator: {
+    description: 'Completed a topup on an operator',
+    params: {
+      operator_id: { kind: 'uuid', required: true, description: 'Operator' },
+      window_days: windowDays,
+    },
+  },
+  has_badge: {
+    description: 'Holds a badge',
+    params: {
+      badge_id: { kind: 'uuid', required: true, description: 'Badge' },
+    },
+  },
+  min_referrals: {
+    description: 'Referred at least N users',
+    params: {
+      count: {
+        kind: 'count',
+        required: true,
+        description: 'Minimum active or completed referrals',
+      },
+      window_days: windowDays,
+    },
+  },
+  inactive_days: {
+    description: 'No topups or wallet activity in the last N days',
+    params: {
+      days: { kind: 'days', required: true, description: 'Days inactive' },
+    },
+  },
+  referred_by_code: {
+    description: 'Signed up through a referral',
+    params: {
+      referral_code: {
+        kind: 'string',
+        required: false,
+        description: 'Only this referral code',
+      },
+    },
+  },
+};
+
 export class OfferAdminService {
   /**
    * Compute and populate offer_segment_members for an offer.
@@ -117,6 +279,217 @@ export class OfferAdminService {
 
     return results;
   }
+
+  /**
+   * The rule types an offer can use and the params each accepts
+   */
+  static getRuleTypes() {
+    return Object.entries(ELIGIBILITY_RULE_TYPES).map(([type, spec]) => ({
+      type,
+      ...spec,
+    }));
+  }
+
+  static async listRules(offerId: string): Promise<OfferEligibilityRule[]> {
+    await this.getOffer(offerId);
+    return OfferEligibilityRuleModel.findByOffer(offerId);
+  }
+
+  /**
+   * Adds an eligibility rule to an offer once its params are valid
+   * @param offerId - The offer
+   * @param input - Rule type, params, and an optional key and description
+   * @returns The created rule
+   */
+  static async createRule(
+    offerId: string,
+    input: EligibilityRuleInput
+  ): Promise<OfferEligibilityRule> {
+    const offer = await this.getOffer(offerId);
+    if (!input.ruleType) {
+      throw new ApiError(400, 'ruleType is required');
+    }
+    const params = await this.validateRuleParams(
+      input.ruleType,
+      input.params || {}
+    );
+
+    const rule = await OfferEligibilityRuleModel.create({
+      offer_id: offerId,
+      rule_key: input.ruleKey || input.ruleType,
+      rule_type: input.ruleType,
+      params,
+      description: input.description || null,
+    });
+    await this.refreshSegment(offer);
+    return rule;
+  }
+
+  /**
+   * Changes an eligibility rule. The params are validated against the new
+   * rule type when it changes, so the type and params are sent together.
+   * @param offerId - The offer
+   * @param ruleId - The rule
+   * @param input - The fields to change
+   * @returns The updated rule
+   */
+  static async updateRule(
+    offerId: string,
+    ruleId: string,
+    input: EligibilityRuleInput
+  ): Promise<OfferEligibilityRule> {
+    const offer = await this.getOffer(offerId);
+    const existing = await OfferEligibilityRuleModel.findById(offerId, ruleId);
+    if (!existing) {
+      throw new ApiError(404, 'Rule not found');
+    }
+
+    const changes: Partial<OfferEligibilityRule> = {};
+    if (input.ruleType !== undefined || input.params !== undefined) {
+      const ruleType = input.ruleType ?? existing.rule_type;
+      changes.rule_type = ruleType;
+      changes.params = await this.validateRuleParams(
+        ruleType,
+        input.params ?? existing.params
+      );
+    }
+    if (input.ruleKey !== undefined) {
+      changes.rule_key = input.ruleKey;
+    }
+    if (input.description !== undefined) {
+      changes.description = input.description;
+    }
+    if (Object.keys(changes).length === 0) {
+      return existing;
+    }
+
+    const rule = await OfferEligibilityRuleModel.update(
+      offerId,
+      ruleId,
+      changes
+    );
+    if (!rule) {
+      throw new ApiError(404, 'Rule not found');
+    }
+    await this.refreshSegment(offer);
+    return rule;
+  }
+
+  static async deleteRule(offerId: string, ruleId: string): Promise<void> {
+    const offer = await this.getOffer(offerId);
+    const deleted = await OfferEligibilityRuleModel.delete(offerId, ruleId);
+    if (!deleted) {
+      throw new ApiError(404, 'Rule not found');
+    }
+    await this.refreshSegment(offer);
+  }
+
+  /**
+   * Checks params against the rule type so is_user_eligible_for_offer
+   * cannot raise on them at redemption time
+   * @param ruleType - The rule type
+   * @param params - The params as sent
+   * @returns The params with numbers normalised
+   */
+  static async validateRuleParams(
+    ruleType: string,
+    params: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const spec = ELIGIBILITY_RULE_TYPES[ruleType as EligibilityRuleType];
+    if (!spec) {
+      throw new ApiError(400, `Unknown rule type: ${ruleType}`);
+    }
+    if (!params || typeof params !== 'object' || Array.isArray(params)) {
+      throw new ApiError(400, 'params must be an object');
+    }
+
+    const unknown = Object.keys(params).filter(key => !spec.params[key]);
+    if (unknown.length > 0) {
+      throw new ApiError(
+        400,
+        `Unknown param(s) for ${ruleType}: ${unknown.join(', ')}`
+      );
+    }
+
+    const normalised: Record<string, any> = {};
+    for (const [name, paramSpec] of Object.entries(spec.params)) {
+      const value = params[name];
+      if (value === undefined || value === null || value === '') {
+        if (paramSpec.required) {
+          throw new ApiError(400, `${ruleType} rule requires ${name}`);
+        }
+        continue;
+      }
+      normalised[name] = this.normaliseParam(name, paramSpec.kind, value);
+
+      const table = PARAM_REFERENCES[name];
+      if (table) {
+        const row = await db(table).where({ id: normalised[name] }).first();
+        if (!row) {
+          throw new ApiError(400, `${name} does not exist`);
+        }
+      }
+    }
+    return normalised;
+  }
+
+  private static normaliseParam(
+    name: string,
+    kind: EligibilityRuleParamKind,
+    value: any
+  ) {
+    const max = PARAM_LIMITS[kind];
+
+    if (kind === 'uuid') {
+      if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+        throw new ApiError(400, `${name} must be a UUID`);
+      }
+      return value;
+    }
+
+    if (kind === 'string') {
+      if (typeof value !== 'string' || value.trim().length > max) {
+        throw new ApiError(400, `${name} must be text of at most ${max}`);
+      }
+      return value.trim();
+    }
+
+    const number = typeof value === 'string' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      throw new ApiError(400, `${name} must be a number`);
+    }
+    if (kind === 'amount') {
+      if (number < 0 || number > max) {
+        throw new ApiError(400, `${name} must be between 0 and ${max}`);
+      }
+      return Math.round(number * 100) / 100;
+    }
+
+    const min = kind === 'days' ? 1 : 0;
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new ApiError(
+        400,
+        `${name} must be a whole number between ${min} and ${max}`
+      );
+    }
+    return number;
+  }
+
+  private static async getOffer(offerId: string): Promise<Offer> {
+    const offer = await OfferModel.findById(offerId);
+    if (!offer || offer.deleted_at) {
+      throw new ApiError(404, 'Offer not found');
+    }
+    return offer;
+  }
+
+  // Segment members qualify without re-running the rules, so a live
+  // offer's segment is rebuilt whenever its rules change
+  private static async refreshSegment(offer: Offer) {
+    if (offer.status === 'active') {
+      await JobService.enqueue('offer_segment', { offerId: offer.id });
+    }
+  }
 }
 
 export default OfferAdminService;
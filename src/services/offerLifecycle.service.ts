@@ -0,0 +1,66 @@
+import { OfferModel } from '../models/Offer';
+import { logger } from '../utils/logger.utils';
+import { JobService } from './job.service';
+import { NotificationService } from './notification.service';
+import OfferAdminService from './offerAdmin.service';
+
+export interface OfferLifecycleSummary {
+  activated: number;
+  expired: number; // Window closed
+  exhausted: number; // Total usage limit reached
+}
+
+export interface OfferActivationResult {
+  offerId: string;
+  notified: number;
+}
+
+export class OfferLifecycleService {
+  /**
+   * Applies due status transitions to offers. Expiry runs first so an offer
+   * whose window has already closed is never activated. Each activated
+   * offer gets an offer_activation job to build its segment and notify it.
+   * @returns How many offers moved to each state
+   */
+  static async run(): Promise<OfferLifecycleSummary> {
+    const expired = await OfferModel.expireEnded();
+    const exhausted = await OfferModel.expireExhausted();
+    const activated = await OfferModel.activateDue();
+
+    for (const offer of activated) {
+      await JobService.enqueue('offer_activation', { offerId: offer.id });
+    }
+
+    return {
+      activated: activated.length,
+      expired: expired.length,
+      exhausted: exhausted.length,
+    };
+  }
+
+  /**
+   * Rebuilds the segment of an offer that has gone live and tells its
+   * members about it. Offers that are no longer active are left alone.
+   * @param offerId - The activated offer
+   */
+  static async activate(offerId: string): Promise<OfferActivationResult> {
+    const offer = await OfferModel.findById(offerId);
+    if (!offer || offer.deleted_at || offer.status !== 'active') {
+      logger.info(`Offer ${offerId} is no longer active, skipping activation`);
+      return { offerId, notified: 0 };
+    }
+
+    await OfferAdminService.computeSegment(offerId);
+    const memberIds = await OfferAdminService.getAllSegmentMemberIds(offerId);
+
+    const body = offer.description || 'A new offer is available to you';
+    // Sent one at a time; sendToUser logs and swallows its own failures
+    for (const userId of memberIds) {
+      await NotificationService.sendToUser(userId, offer.title, body);
+    }
+
+    return { offerId, notified: memberIds.length };
+  }
+}
+
+export default OfferLifecycleService;
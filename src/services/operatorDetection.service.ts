@@ -0,0 +1,217 @@
+import { Knex } from 'knex';
+import {
+  OperatorMatch,
+  OperatorPrefix,
+  OperatorPrefixModel,
+  PortedNumber,
+  PortedNumberModel,
+} from '../models/OperatorPrefix';
+import { OperatorModel } from '../models/Operator';
+import { ApiError } from '../utils/ApiError';
+
+export interface OperatorDetection extends OperatorMatch {
+  phoneNumber: string; // Local form the lookup used
+  source: 'ported' | 'prefix';
+}
+
+// =================================================================
+// Operator Detection Service
+// =================================================================
+
+export class OperatorDetectionService {
+  /**
+   * Puts a Nigerian mobile number in local form
+   * @param phone - e.g. '+234 803 123 4567', '2348031234567' or '08031234567'
+   * @returns e.g. '08031234567', or null if it is not a mobile number
+   */
+  static normalizePhone(phone: string): string | null {
+    const digits = (phone || '').replace(/\D/g, '');
+    if (digits.startsWith('234') && digits.length === 13) {
+      return `0${digits.slice(3)}`;
+    }
+    if (digits.startsWith('0') && digits.length === 11) {
+      return digits;
+    }
+    if (digits.length === 10 && !digits.startsWith('0')) {
+      return `0${digits}`;
+    }
+    return null;
+  }
+
+  /**
+   * Works out which operator a number is on. A ported number override wins
+   * over the prefix registry.
+   * @param phone - The phone number, in any common form
+   * @param trx - Optional transaction
+   * @returns The operator, or null if the number is unknown
+   */
+  static async detect(
+    phone: string,
+    trx?: Knex.Transaction
+  ): Promise<OperatorDetection | null> {
+    const phoneNumber = this.normalizePhone(phone);
+    if (!phoneNumber) {
+      return null;
+    }
+
+    const ported = await PortedNumberModel.findByPhone(phoneNumber, trx);
+    if (ported) {
+      return {
+        phoneNumber,
+        operatorId: ported.operatorId,
+        operatorCode: ported.operatorCode,
+        operatorName: ported.operatorName,
+        source: 'ported',
+      };
+    }
+
+    const match = await OperatorPrefixModel.findLongestMatch(phoneNumber, trx);
+    return match ? { phoneNumber, ...match, source: 'prefix' } : null;
+  }
+
+  /**
+   * Looks up a number's operator for users choosing a product
+   * @param phone - The phone number
+   * @returns The operator
+   */
+  static async lookup(phone: string): Promise<OperatorDetection> {
+    if (!this.normalizePhone(phone)) {
+      throw new ApiError(400, 'Enter a valid Nigerian mobile number');
+    }
+    const detection = await this.detect(phone);
+    if (!detection) {
+      throw new ApiError(404, 'Could not tell which network this number is on');
+    }
+    return detection;
+  }
+
+  /**
+   * Checks a recipient is on the operator a product is for. Numbers with
+   * an unknown prefix are let through for the supplier to decide.
+   * @param recipientPhone - The recipient
+   * @param operatorId - The product's operator
+   * @param trx - Optional transaction
+   * @returns The recipient's operator, or null if unknown
+   */
+  static async assertRecipientOperator(
+    recipientPhone: string,
+    operatorId: string,
+    trx?: Knex.Transaction
+  ): Promise<OperatorDetection | null> {
+    const detection = await this.detect(recipientPhone, trx);
+    if (detection && detection.operatorId !== operatorId) {
+      throw new ApiError(
+        400,
+        `${recipientPhone} is on ${detection.operatorName}; choose a ${detection.operatorName} product`
+      );
+    }
+    return detection;
+  }
+
+  /**
+   * Lists the prefix registry
+   */
+  static async listPrefixes(): Promise<OperatorPrefix[]> {
+    return OperatorPrefixModel.findAll();
+  }
+
+  /**
+   * Adds a prefix to an operator
+   * @param operatorId - The operator ID
+   * @param prefix - Leading digits of the local form, e.g. '0803'
+   * @returns The created prefix
+   */
+  static async addPrefix(
+    operatorId: string,
+    prefix: string
+  ): Promise<OperatorPrefix> {
+    if (!/^0\d{3,5}$/.test(prefix || '')) {
+      throw new ApiError(
+        400,
+        'Prefix must be 4 to 6 digits of the local form, e.g. 0803'
+      );
+    }
+    await this.findOperator(operatorId);
+
+    const existing = await OperatorPrefixModel.findByPrefix(prefix);
+    if (existing) {
+      throw new ApiError(
+        409,
+        `Prefix ${prefix} already belongs to ${existing.operatorName}`
+      );
+    }
+    return OperatorPrefixModel.create(operatorId, prefix);
+  }
+
+  /**
+   * Removes a prefix from the registry
+   * @param prefixId - The prefix ID
+   */
+  static async removePrefix(prefixId: string): Promise<void> {
+    const deleted = await OperatorPrefixModel.delete(prefixId);
+    if (!deleted) {
+      throw new ApiError(404, 'Prefix not found');
+    }
+  }
+
+  /**
+   * Lists ported number overrides
+   * @param page - Page number, from 1
+   * @param limit - Records per page
+   */
+  static async listPortedNumbers(page: number, limit: number) {
+    return PortedNumberModel.findAll(page, limit);
+  }
+
+  /**
+   * Records that a number has moved to another operator
+   * @param phone - The phone number
+   * @param operatorId - The operator it moved to
+   * @param note - Optional note
+   * @param adminId - The admin making the change
+   * @returns The saved override
+   */
+  static async setPortedNumber(
+    phone: string,
+    operatorId: string,
+    note?: string,
+    adminId?: string
+  ): Promise<PortedNumber> {
+    const phoneNumber = this.normalizePhone(phone);
+    if (!phoneNumber) {
+      throw new ApiError(400, 'Enter a valid Nigerian mobile number');
+    }
+    await this.findOperator(operatorId);
+
+    return PortedNumberModel.upsert({
+      phoneNumber,
+      operatorId,
+      note: note || null,
+      createdBy: adminId,
+    });
+  }
+
+  /**
+   * Removes a ported number override, so the prefix decides again
+   * @param phone - The phone number
+   */
+  static async removePortedNumber(phone: string): Promise<void> {
+    const phoneNumber = this.normalizePhone(phone);
+    const deleted = phoneNumber
+      ? await PortedNumberModel.delete(phoneNumber)
+      : false;
+    if (!deleted) {
+      throw new ApiError(404, 'Ported number not found');
+    }
+  }
+
+  private static async findOperator(operatorId: string) {
+    const operator = await OperatorModel.findById(operatorId);
+    if (!operator) {
+      throw new ApiError(404, 'Operator not found');
+    }
+    return operator;
+  }
+}
+
+export default OperatorDetectionService;
@@ -0,0 +1,168 @@
+import db from '../database/connection';
+import {
+  PointsExpiryPolicy,
+  PointsExpiryPolicyModel,
+} from '../models/PointsExpiryPolicy';
+import { Reward, RewardModel } from '../models/Reward';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+import { NotificationService } from './notification.service';
+
+// Users are told about points this many days before they expire
+export const EXPIRY_WARNING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =================================================================
+// Points Expiry Service
+// =================================================================
+
+export class PointsExpiryService {
+  /**
+   * Lists the expiry policies
+   * @returns All policies
+   */
+  static async listPolicies(): Promise<PointsExpiryPolicy[]> {
+    return PointsExpiryPolicyModel.findAll();
+  }
+
+  /**
+   * Sets how long points earned for a reason last. Only points awarded
+   * afterwards are affected.
+   * @param reason - The reward reason (e.g. 'referral_sign_up')
+   * @param expiryDays - Days until the points expire
+   * @param isActive - Whether the policy applies
+   * @param createdBy - The admin setting it
+   * @returns The saved policy
+   */
+  static async setPolicy(
+    reason: string,
+    expiryDays: number,
+    isActive: boolean | undefined,
+    createdBy?: string
+  ): Promise<PointsExpiryPolicy> {
+    if (!Number.isInteger(expiryDays) || expiryDays <= 0) {
+      throw new ApiError(400, 'expiryDays must be a positive whole number');
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      throw new ApiError(400, 'isActive must be a boolean');
+    }
+    return PointsExpiryPolicyModel.upsert({
+      reason,
+      expiryDays,
+      isActive,
+      createdBy,
+    });
+  }
+
+  /**
+   * Removes the policy for a reason, so points earned for it stop expiring
+   * @param reason - The reward reason
+   */
+  static async deletePolicy(reason: string): Promise<void> {
+    const deleted = await PointsExpiryPolicyModel.delete(reason);
+    if (!deleted) {
+      throw new ApiError(404, 'Expiry policy not found');
+    }
+  }
+
+  /**
+   * Works out when points awarded now for a reason expire
+   * @param reason - The reward reason
+   * @returns The expiry date, or undefined if the reason has no policy
+   */
+  static async expiryFor(reason: string): Promise<Date | undefined> {
+    const policy = await PointsExpiryPolicyModel.findActiveByReason(reason);
+    return policy
+      ? new Date(Date.now() + policy.expiryDays * DAY_MS)
+      : undefined;
+  }
+
+  /**
+   * Expires the unspent points of credited grants past their expiry, oldest
+   * grant first, and takes them off each user's balance
+   * @returns Number of grants expired and points taken
+   */
+  static async expireUnspent(): Promise<{ rewards: number; points: number }> {
+    const grants = await RewardModel.findExpiredUnspent();
+
+    let rewards = 0;
+    let points = 0;
+    for (const grant of grants) {
+      const expired = await db.transaction(async trx => {
+        const taken = await RewardModel.expireRemaining(grant.id, trx);
+        if (taken > 0) {
+          await trx('users')
+            .where({ id: grant.userId })
+            .update({
+              total_points: db.raw('GREATEST(total_points - ?, 0)', [taken]),
+            });
+        }
+        return taken;
+      });
+
+      if (expired > 0) {
+        rewards += 1;
+        points += expired;
+      }
+    }
+
+    if (rewards > 0) {
+      logger.info(`Expired ${points} unspent points from ${rewards} rewards`);
+    }
+    return { rewards, points };
+  }
+
+  /**
+   * Tells users which of their points expire within the warning window.
+   * Grants are claimed before anyone is notified, so each is warned about
+   * once even with several instances running.
+   * @returns Number of users notified
+   */
+  static async sendWarnings(): Promise<number> {
+    const grants = await RewardModel.claimExpiryWarnings(
+      new Date(Date.now() + EXPIRY_WARNING_DAYS * DAY_MS)
+    );
+
+    const byUser = new Map<string, Reward[]>();
+    grants.forEach(grant => {
+      byUser.set(grant.userId, [...(byUser.get(grant.userId) || []), grant]);
+    });
+
+    for (const [userId, userGrants] of byUser) {
+      const total = userGrants.reduce(
+        (sum, grant) => sum + (grant.remainingPoints || 0),
+        0
+      );
+      // sendToUser logs and swallows its own failures
+      await NotificationService.sendToUser(
+        userId,
+        `${total} points expire soon`,
+        this.describeExpiries(userGrants)
+      );
+    }
+
+    return byUser.size;
+  }
+
+  // e.g. "120 points expire on 2026-01-05 and 40 on 2026-01-09. Redeem
+  // them before they are gone."
+  private static describeExpiries(grants: Reward[]): string {
+    const byDay = new Map<string, number>();
+    grants.forEach(grant => {
+      const day = new Date(grant.expiresAt as Date).toISOString().slice(0, 10);
+      byDay.set(day, (byDay.get(day) || 0) + (grant.remainingPoints || 0));
+    });
+
+    const parts = [...byDay].map(([day, points], index) =>
+      index === 0 ? `${points} points expire on ${day}` : `${points} on ${day}`
+    );
+    const list =
+      parts.length > 1
+        ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+        : parts[0];
+    return `${list}. Redeem them before they are gone.`;
+  }
+}
+
+export default PointsExpiryService;
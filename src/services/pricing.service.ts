@@ -0,0 +1,291 @@
+import { Knex } from 'knex';
+import { config } from '../config/env';
+import db from '../database/connection';
+import { CommissionModel } from '../models/Commission';
+import {
+  CommissionRule,
+  CommissionRuleFilters,
+  CreateCommissionRuleData,
+  PriceQuote,
+  PricingContext,
+  UpdateCommissionRuleData,
+} from '../types/pricing.types';
+import { ApiError } from '../utils/ApiError';
+import { SupplierRoutingService } from './supplierRouting.service';
+
+// A user-specific rule beats a product rule, which beats a supplier rule,
+// and so on; combined scopes add up (an operator + role rule beats either)
+const SPECIFICITY = {
+  agentId: 16,
+  operatorProductId: 8,
+  supplierId: 4,
+  operatorId: 2,
+  role: 1,
+} as const;
+
+type Scope = keyof typeof SPECIFICITY;
+
+const toKobo = (amount: number) => Math.round(amount * 100);
+
+export class PricingService {
+  /**
+   * Prices a sale from the most specific matching commission rule
+   * @param context What is sold, by which supplier, at what cost, to whom
+   * @param trx Optional Knex transaction
+   * @returns The customer price and the rule that produced it
+   */
+  static async quote(
+    context: PricingContext,
+    trx?: Knex.Transaction
+  ): Promise<PriceQuote> {
+    const rules = await CommissionModel.findActiveForBuyer(
+      { role: context.role, userId: context.userId },
+      trx
+    );
+    return this.calculate(context, this.selectRule(rules, context));
+  }
+
+  /**
+   * Adds the price a buyer would pay to each product, using the route the
+   * dispatcher prefers when health is ignored (priority, then cheapest).
+   * Products without an active supplier get a null price.
+   * @param products Products with their operator
+   * @param buyer Role and user to price for; defaults to a regular user
+   */
+  static async priceProducts<T extends { id: string; operatorId: string }>(
+    products: T[],
+    buyer: { role?: string; userId?: string } = { role: 'user' }
+  ): Promise<(T & { price: number | null })[]> {
+    if (products.length === 0) {
+      return [];
+    }
+
+    const routes = await db('supplier_product_mapping as spm')
+      .join('suppliers as s', 'spm.supplier_id', 's.id')
+      .distinctOn('spm.operator_product_id')
+      .select(
+        'spm.operator_product_id as operatorProductId',
+        'spm.supplier_id as supplierId',
+        'spm.supplier_price as supplierPrice'
+      )
+      .whereIn(
+        'spm.operator_product_id',
+        products.map(product => product.id)
+      )
+      .andWhere('spm.is_active', true)
+      .andWhere('s.is_active', true)
+      .orderBy([
+        { column: 'spm.operator_product_id' },
+        { column: 's.priority_int', order: 'asc' },
+        { column: 'spm.supplier_price', order: 'asc' },
+      ]);
+    const rules = await CommissionModel.findActiveForBuyer(buyer);
+
+    return products.map(product => {
+      const route = routes.find(r => r.operatorProductId === product.id);
+      if (!route) {
+        return { ...product, price: null };
+      }
+      const context: PricingContext = {
+        operatorId: product.operatorId,
+        operatorProductId: product.id,
+        supplierId: route.supplierId,
+        supplierPrice: parseFloat(route.supplierPrice),
+        ...buyer,
+      };
+      const { price } = this.calculate(
+        context,
+        this.selectRule(rules, context)
+      );
+      return { ...product, price };
+    });
+  }
+
+  /**
+   * Quotes a product for a buyer through the route a purchase would take now
+   * @param operatorProductId The product to price
+   * @param buyer Role and/or user to price for
+   * @returns The quote and the supplier it assumes
+   */
+  static async previewQuote(
+    operatorProductId: string,
+    buyer: { role?: string; userId?: string }
+  ): Promise<PriceQuote & { supplierId: string }> {
+    const product = await db('operator_products')
+      .select('id', 'operator_id')
+      .where({ id: operatorProductId })
+      .first();
+    if (!product) {
+      throw new ApiError(404, 'Operator product not found');
+    }
+
+    const [route] = await SupplierRoutingService.rankRoutes(product.id);
+    if (!route) {
+      throw new ApiError(404, 'No active supplier sells this product');
+    }
+
+    const quote = await this.quote({
+      operatorId: product.operator_id,
+      operatorProductId: product.id,
+      supplierId: route.supplierId,
+      supplierPrice: route.supplierPrice,
+      ...buyer,
+    });
+    return { ...quote, supplierId: route.supplierId };
+  }
+
+  /**
+   * Picks the most specific rule whose scope matches the sale. Ties go to
+   * the most recently created rule.
+   * @param rules Candidate rules
+   * @param context The sale being priced
+   * @returns The winning rule or null if none match
+   */
+  static selectRule(
+    rules: CommissionRule[],
+    context: PricingContext
+  ): CommissionRule | null {
+    const values: Record<Scope, string | undefined> = {
+      agentId: context.userId,
+      operatorProductId: context.operatorProductId,
+      supplierId: context.supplierId,
+      operatorId: context.operatorId,
+      role: context.role,
+    };
+    const scopes = Object.keys(SPECIFICITY) as Scope[];
+
+    let best: { rule: CommissionRule; score: number } | null = null;
+    for (const rule of rules) {
+      if (!rule.isActive) continue;
+      const matches = scopes.every(
+        scope => !rule[scope] || rule[scope] === values[scope]
+      );
+      if (!matches) continue;
+
+      const score = scopes
+        .filter(scope => rule[scope])
+        .reduce((sum, scope) => sum + SPECIFICITY[scope], 0);
+      if (
+        !best ||
+        score > best.score ||
+        (score === best.score &&
+          new Date(rule.createdAt) > new Date(best.rule.createdAt))
+      ) {
+        best = { rule, score };
+      }
+    }
+    return best ? best.rule : null;
+  }
+
+  /**
+   * Applies a rule (or the configured default markup) to a supplier price
+   * @param context The sale being priced
+   * @param rule The rule to apply, or null for the default
+   */
+  static calculate(
+    context: Pick<PricingContext, 'supplierPrice'>,
+    rule: CommissionRule | null
+  ): PriceQuote {
+    const ratePercent = rule
+      ? rule.ratePercent
+      : config.pricing.defaultRatePercent;
+    const fixedAmount = rule
+      ? rule.fixedAmount
+      : config.pricing.defaultFixedAmount;
+
+    const supplierKobo = toKobo(context.supplierPrice);
+    const marginKobo =
+      Math.round((supplierKobo * ratePercent) / 100) + toKobo(fixedAmount);
+
+    return {
+      supplierPrice: supplierKobo / 100,
+      price: (supplierKobo + marginKobo) / 100,
+      margin: marginKobo / 100,
+      ruleId: rule ? rule.id : null,
+    };
+  }
+
+  static async getRules(
+    filters: CommissionRuleFilters
+  ): Promise<CommissionRule[]> {
+    return CommissionModel.findAll(filters);
+  }
+
+  static async getRule(id: string): Promise<CommissionRule> {
+    const rule = await CommissionModel.findById(id);
+    if (!rule) {
+      throw new ApiError(404, 'Commission rule not found');
+    }
+    return rule;
+  }
+
+  static async createRule(
+    data: CreateCommissionRuleData
+  ): Promise<CommissionRule> {
+    await this.validateRule(data);
+    return CommissionModel.create(data);
+  }
+
+  static async updateRule(
+    id: string,
+    data: UpdateCommissionRuleData
+  ): Promise<CommissionRule> {
+    await this.validateRule(data);
+    const rule = await CommissionModel.update(id, data);
+    if (!rule) {
+      throw new ApiError(404, 'Commission rule not found');
+    }
+    return rule;
+  }
+
+  static async deleteRule(id: string): Promise<void> {
+    const deleted = await CommissionModel.delete(id);
+    if (!deleted) {
+      throw new ApiError(404, 'Commission rule not found');
+    }
+  }
+
+  private static async validateRule(
+    data: UpdateCommissionRuleData
+  ): Promise<void> {
+    const { ratePercent, fixedAmount } = data;
+
+    if (
+      ratePercent !== undefined &&
+      (!Number.isFinite(Number(ratePercent)) ||
+        Number(ratePercent) < 0 ||
+        Number(ratePercent) >= 100)
+    ) {
+      throw new ApiError(400, 'ratePercent must be between 0 and 100');
+    }
+    if (
+      fixedAmount !== undefined &&
+      (!Number.isFinite(Number(fixedAmount)) || Number(fixedAmount) < 0)
+    ) {
+      throw new ApiError(400, 'fixedAmount must be zero or more');
+    }
+
+    if (data.role) {
+      const role = await db('roles').where({ name: data.role }).first();
+      if (!role) {
+        throw new ApiError(400, `Unknown role: ${data.role}`);
+      }
+    }
+
+    // Scoped rules must point at something that exists
+    const references: [keyof UpdateCommissionRuleData, string, string][] = [
+      ['operatorId', 'operators', 'Operator'],
+      ['operatorProductId', 'operator_products', 'Operator product'],
+      ['supplierId', 'suppliers', 'Supplier'],
+      ['agentId', 'users', 'User'],
+    ];
+    for (const [field, table, label] of references) {
+      const id = data[field];
+      if (id && !(await db(table).where({ id }).first())) {
+        throw new ApiError(404, `${label} not found`);
+      }
+    }
+  }
+}
+
+export default PricingService;
@@ -1,4 +1,5 @@
 import { OperatorProductModel } from '../models/OperatorProduct';
+import { PricingService } from './pricing.service';
 
 export interface PublicProductFilters {
   operatorId?: string;
@@ -12,6 +13,12 @@ export interface PublicProductFilters {
 export class ProductService {
   static async getPublicProducts(filters: PublicProductFilters) {
     // Delegate DB querying and mapping to the model layer
-    return OperatorProductModel.findPublic(filters);
+    const result = await OperatorProductModel.findPublic(filters);
+
+    // Listings show what a regular user would pay
+    return {
+      ...result,
+      products: await PricingService.priceProducts(result.products),
+    };
   }
 }
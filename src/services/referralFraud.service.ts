@@ -0,0 +1,334 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  DeviceFingerprintEvent,
+  DeviceFingerprintModel,
+} from '../models/DeviceFingerprint';
+import {
+  Referral,
+  ReferralFraudSignal,
+  ReferralFraudSignalType,
+  ReferralModel,
+  ReferralReviewStatus,
+} from '../models/Referral';
+import { RewardModel } from '../models/Reward';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+
+// How much each signal adds to a referral's fraud score (capped at 100)
+export const FRAUD_SIGNAL_WEIGHTS: Record<ReferralFraudSignalType, number> = {
+  shared_device: 60,
+  device_farm: 50,
+  shared_ip: 25,
+  ip_farm: 25,
+  phone_pattern: 20,
+  funding_source: 40,
+};
+
+// Referrals scoring this or more have their reward held for review
+export const FRAUD_FLAG_THRESHOLD = 50;
+
+// Other referees of the same referrer on one device, IP or phone prefix
+// before it counts as a farm
+const FARM_SIZE = 2;
+
+// Phone numbers that differ only in their last digits
+const PHONE_PREFIX_LENGTH = 7;
+
+export interface ReferralFraudAssessment {
+  score: number;
+  signals: ReferralFraudSignal[];
+  flagged: boolean;
+}
+
+// What deviceInfoMiddleware puts on the request
+export interface FingerprintSource {
+  deviceId?: string;
+  rawUserAgent?: string;
+}
+
+// e.g. '+2348031234567' and '08031234567' both give '8031234'
+const phonePrefix = (phone?: string | null): string | null => {
+  const digits = (phone || '').replace(/\D/g, '').slice(-10);
+  return digits.length === 10 ? digits.slice(0, PHONE_PREFIX_LENGTH) : null;
+};
+
+// =================================================================
+// Referral Fraud Service
+// =================================================================
+
+export class ReferralFraudService {
+  /**
+   * Records the device and IP a user signed up or logged in from. Failures
+   * are logged and never block the request.
+   * @param userId - The user ID
+   * @param event - 'signup' or 'login'
+   * @param source - Device info from deviceInfoMiddleware
+   * @param ipAddress - The client IP
+   */
+  static async recordFingerprint(
+    userId: string,
+    event: DeviceFingerprintEvent,
+    source: FingerprintSource | undefined,
+    ipAddress: string | undefined
+  ): Promise<void> {
+    try {
+      const deviceId =
+        source?.deviceId && source.deviceId !== 'unknown'
+          ? source.deviceId
+          : null;
+      await DeviceFingerprintModel.create({
+        userId,
+        event,
+        deviceId,
+        ipAddress: ipAddress || null,
+        userAgent: source?.rawUserAgent || null,
+      });
+    } catch (error) {
+      logger.error(
+        `Error recording ${event} fingerprint for ${userId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Scores how likely a referral is to be the referrer referring themselves
+   * @param referrerUserId - The referrer
+   * @param referredUserId - The referred user
+   * @returns The score, the signals behind it and whether it is flagged
+   */
+  static async assess(
+    referrerUserId: string,
+    referredUserId: string
+  ): Promise<ReferralFraudAssessment> {
+    const [referrerPrints, referredPrints] = await Promise.all([
+      DeviceFingerprintModel.findByUserId(referrerUserId),
+      DeviceFingerprintModel.findByUserId(referredUserId),
+    ]);
+
+    const signals: ReferralFraudSignal[] = [];
+    const add = (type: ReferralFraudSignalType, detail: string) =>
+      signals.push({ type, detail, weight: FRAUD_SIGNAL_WEIGHTS[type] });
+
+    if (
+      referredPrints.deviceIds.some(id => referrerPrints.deviceIds.includes(id))
+    ) {
+      add('shared_device', 'Signed in on the same device as the referrer');
+    }
+    if (
+      referredPrints.ipAddresses.some(ip =>
+        referrerPrints.ipAddresses.includes(ip)
+      )
+    ) {
+      add('shared_ip', 'Signed in from the same IP as the referrer');
+    }
+
+    const sharing = await DeviceFingerprintModel.countReferredUsersSharing(
+      referrerUserId,
+      referredUserId,
+      referredPrints
+    );
+    if (sharing.device >= FARM_SIZE) {
+      add(
+        'device_farm',
+        `Device shared with ${sharing.device} other users this referrer referred`
+      );
+    }
+    if (sharing.ip >= FARM_SIZE) {
+      add(
+        'ip_farm',
+        `IP shared with ${sharing.ip} other users this referrer referred`
+      );
+    }
+
+    const phoneDetail = await this.checkPhonePattern(
+      referrerUserId,
+      referredUserId
+    );
+    if (phoneDetail) {
+      add('phone_pattern', phoneDetail);
+    }
+
+    const transfers = await db('wallet_transfers')
+      .where({ sender_id: referrerUserId, recipient_id: referredUserId })
+      .orWhere({ sender_id: referredUserId, recipient_id: referrerUserId })
+      .count('* as count')
+      .first();
+    if (Number(transfers?.count || 0) > 0) {
+      add('funding_source', 'Wallet transfers between referrer and referred');
+    }
+
+    const score = Math.min(
+      signals.reduce((sum, signal) => sum + signal.weight, 0),
+      100
+    );
+    return { score, signals, flagged: score >= FRAUD_FLAG_THRESHOLD };
+  }
+
+  /**
+   * Scores a referral and stores the result on it. Flagged referrals join
+   * the review queue unless an admin has already reviewed them.
+   * @param referral - The referral
+   * @param trx - Optional transaction
+   * @returns The assessment
+   */
+  static async assessReferral(
+    referral: Referral,
+    trx?: Knex.Transaction
+  ): Promise<ReferralFraudAssessment> {
+    const assessment = await this.assess(
+      referral.referrerUserId,
+      referral.referredUserId
+    );
+    await ReferralModel.saveFraudAssessment(
+      referral.id,
+      assessment.score,
+      assessment.signals,
+      assessment.flagged,
+      trx
+    );
+
+    if (assessment.flagged) {
+      logger.warn(`Referral ${referral.id} flagged for review`, {
+        score: assessment.score,
+        signals: assessment.signals.map(signal => signal.type),
+      });
+    }
+    return assessment;
+  }
+
+  /**
+   * Explains why a referral reward is held, for the reward's hold reason
+   * @param signals - The referral's fraud signals
+   */
+  static describeHold(signals: ReferralFraudSignal[]): string {
+    const details = signals.map(signal => signal.detail).join('; ');
+    return details ? `Held for fraud review: ${details}` : 'Held for review';
+  }
+
+  /**
+   * Lists referrals by review status, oldest first
+   * @param status - The review status
+   * @param page - Page number, from 1
+   * @param limit - Records per page
+   */
+  static async listReviewQueue(
+    status: ReferralReviewStatus,
+    page: number,
+    limit: number
+  ) {
+    return ReferralModel.findByReviewStatus(status, page, limit);
+  }
+
+  /**
+   * Clears a flagged referral. A held reward is released so it can be
+   * credited like any pending reward.
+   * @param referralId - The referral ID
+   * @param adminId - The reviewing admin
+   * @param note - Optional note
+   * @returns The reviewed referral
+   */
+  static async approve(
+    referralId: string,
+    adminId: string | undefined,
+    note?: string
+  ): Promise<Referral> {
+    await this.findFlagged(referralId);
+
+    return db.transaction(async trx => {
+      const reviewed = await ReferralModel.review(
+        referralId,
+        'approved',
+        adminId || null,
+        note || null,
+        trx
+      );
+      if (!reviewed) {
+        throw new ApiError(409, 'Referral is not awaiting review');
+      }
+      if (reviewed.rewardId) {
+        await RewardModel.releaseHold(reviewed.rewardId, trx);
+      }
+
+      logger.info(`Referral ${referralId} approved by ${adminId}`);
+      return reviewed;
+    });
+  }
+
+  /**
+   * Cancels a flagged referral, revoking any held reward
+   * @param referralId - The referral ID
+   * @param adminId - The reviewing admin
+   * @param note - Optional note
+   * @returns The reviewed referral
+   */
+  static async reject(
+    referralId: string,
+    adminId: string | undefined,
+    note?: string
+  ): Promise<Referral> {
+    await this.findFlagged(referralId);
+
+    // Imported here as ReferralsService depends on this service
+    const { ReferralsService } = await import('./referrals.service');
+    await ReferralsService.cancelReferral(referralId);
+
+    const reviewed = await ReferralModel.review(
+      referralId,
+      'rejected',
+      adminId || null,
+      note || null
+    );
+    if (!reviewed) {
+      throw new ApiError(409, 'Referral is not awaiting review');
+    }
+
+    logger.info(`Referral ${referralId} rejected by ${adminId}`);
+    return reviewed;
+  }
+
+  private static async findFlagged(referralId: string): Promise<Referral> {
+    const referral = await ReferralModel.findById(referralId);
+    if (!referral) {
+      throw new ApiError(404, 'Referral not found');
+    }
+    if (referral.reviewStatus !== 'flagged') {
+      throw new ApiError(409, 'Referral is not awaiting review');
+    }
+    return referral;
+  }
+
+  // Describes a phone number pattern shared with the referrer or with
+  // several of the referrer's other referees, or returns null
+  private static async checkPhonePattern(
+    referrerUserId: string,
+    referredUserId: string
+  ): Promise<string | null> {
+    const users = await db('users')
+      .whereIn('id', [referrerUserId, referredUserId])
+      .select('id', 'phone_number');
+    const phoneOf = (id: string) =>
+      users.find(user => user.id === id)?.phone_number;
+
+    const prefix = phonePrefix(phoneOf(referredUserId));
+    if (!prefix) return null;
+    if (prefix === phonePrefix(phoneOf(referrerUserId))) {
+      return 'Phone number differs from the referrer only in its last digits';
+    }
+
+    const others = await db('referrals as r')
+      .join('users as u', 'u.id', 'r.referred_user_id')
+      .where('r.referrer_user_id', referrerUserId)
+      .whereNot('r.referred_user_id', referredUserId)
+      .select('u.phone_number');
+    const matching = others.filter(
+      other => phonePrefix(other.phone_number) === prefix
+    ).length;
+    return matching >= FARM_SIZE
+      ? `Phone number shares its prefix with ${matching} other users this referrer referred`
+      : null;
+  }
+}
+
+export default ReferralFraudService;
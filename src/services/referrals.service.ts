@@ -1,9 +1,17 @@
 import db from '../database/connection';
 import { Referral, ReferralModel, ReferralStats } from '../models/Referral';
+import {
+  ReferralCommissionLevel,
+  ReferralCommissionLevelModel,
+  ReferralCommissionLevelNumber,
+  ReferralCommissionModel,
+} from '../models/ReferralCommission';
 import { RewardModel } from '../models/Reward';
 import { UserModel } from '../models/User';
+import { ApiError } from '../utils/ApiError';
 import { generateUUID } from '../utils/crypto';
 import { logger } from '../utils/logger.utils';
+import { ReferralFraudService } from './referralFraud.service';
 
 // =================================================================
 // Interfaces
@@ -20,6 +28,24 @@ export interface ReferralResponse {
   createdAt: Date;
 }
 
+export interface RefereeCommissionSummary {
+  refereeUserId: string;
+  refereeName: string | null;
+  level: ReferralCommissionLevelNumber;
+  topups: number;
+  earned: number;
+  cap: number | null;
+  remaining: number | null; // Left under the cap; null when uncapped
+  earningUntil: Date | null; // null when the level is switched off
+  lastEarnedAt: Date;
+}
+
+export interface ReferralCommissionBreakdown {
+  totalEarned: number;
+  byLevel: Array<{ level: ReferralCommissionLevelNumber; earned: number }>;
+  referees: RefereeCommissionSummary[];
+}
+
 // =================================================================
 // Referrals Service
 // =================================================================
@@ -160,6 +186,14 @@ export class ReferralsService {
           trx
         );
 
+        // Scored again before any reward is paid, so a failure here is
+        // only logged
+        try {
+          await ReferralFraudService.assessReferral(referral, trx);
+        } catch (error) {
+          logger.error(`Error scoring referral ${referral.id}:`, error);
+        }
+
         logger.info(
           `Auto-created referral during signup: ${referrerId} -> ${referredUserId}`,
           {
@@ -317,6 +351,16 @@ export class ReferralsService {
           return await RewardModel.findById(referral.rewardId);
         }
 
+        // Rescore, as transfers between the two may have happened since
+        // signup. Held rewards stay pending until an admin reviews them.
+        const assessment = await ReferralFraudService.assessReferral(
+          referral,
+          trx
+        );
+        const held =
+          referral.reviewStatus === 'flagged' ||
+          (assessment.flagged && !referral.reviewStatus);
+
         // Create reward for referrer
         const reward = await RewardModel.create(
           {
@@ -327,6 +371,9 @@ export class ReferralsService {
               referralId,
               referredUserId: referral.referredUserId,
             },
+            holdReason: held
+              ? ReferralFraudService.describeHold(assessment.signals)
+              : undefined,
           },
           trx
         );
@@ -334,7 +381,9 @@ export class ReferralsService {
         // Link reward to referral
         await ReferralModel.linkReward(referralId, reward.id, trx);
 
-        logger.info(`Processed reward ${reward.id} for referral ${referralId}`);
+        logger.info(
+          `Processed reward ${reward.id} for referral ${referralId}${held ? ' (held for review)' : ''}`
+        );
         return reward;
       });
     } catch (error) {
@@ -441,6 +490,130 @@ export class ReferralsService {
     }
   }
 
+  /**
+   * Lists the commission levels
+   * @returns Level 1 and, if set up, level 2
+   */
+  static async getCommissionLevels(): Promise<ReferralCommissionLevel[]> {
+    return ReferralCommissionLevelModel.findAll();
+  }
+
+  /**
+   * Sets what referrers earn at a level. Applies to topups from then on.
+   * @param level - 1 for the direct referrer, 2 for the referrer's referrer
+   * @param input - Percentage of the topup margin, months it is paid for
+   * after the referee signs up, optional cap per referee, and whether the
+   * level is on
+   * @param createdBy - The admin setting it
+   * @returns The saved level
+   */
+  static async setCommissionLevel(
+    level: number,
+    input: {
+      percentage: number;
+      durationMonths: number;
+      capPerReferee?: number | null;
+      isActive?: boolean;
+    },
+    createdBy?: string
+  ): Promise<ReferralCommissionLevel> {
+    if (level !== 1 && level !== 2) {
+      throw new ApiError(400, 'level must be 1 or 2');
+    }
+    const { percentage, durationMonths, capPerReferee, isActive } = input;
+    if (
+      typeof percentage !== 'number' ||
+      !(percentage > 0 && percentage <= 100)
+    ) {
+      throw new ApiError(400, 'percentage must be above 0 and at most 100');
+    }
+    if (!Number.isInteger(durationMonths) || durationMonths <= 0) {
+      throw new ApiError(400, 'durationMonths must be a positive whole number');
+    }
+    if (
+      capPerReferee !== undefined &&
+      capPerReferee !== null &&
+      (typeof capPerReferee !== 'number' || capPerReferee <= 0)
+    ) {
+      throw new ApiError(400, 'capPerReferee must be a positive amount');
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      throw new ApiError(400, 'isActive must be a boolean');
+    }
+
+    return ReferralCommissionLevelModel.upsert({
+      level,
+      percentage,
+      durationMonths,
+      capPerReferee,
+      isActive,
+      createdBy,
+    });
+  }
+
+  /**
+   * Breaks down the commission a referrer has earned on referee topups
+   * @param referrerUserId - The referrer user ID
+   * @returns Totals overall, per level and per referee
+   */
+  static async getCommissionBreakdown(
+    referrerUserId: string
+  ): Promise<ReferralCommissionBreakdown> {
+    try {
+      const [totals, levels] = await Promise.all([
+        ReferralCommissionModel.getTotalsByReferee(referrerUserId),
+        ReferralCommissionLevelModel.findActive(),
+      ]);
+
+      const referees = totals.map(total => {
+        const level = levels.find(l => l.level === total.level);
+        const cap = level?.capPerReferee ?? null;
+        let earningUntil: Date | null = null;
+        if (level) {
+          earningUntil = new Date(total.referredAt);
+          earningUntil.setMonth(earningUntil.getMonth() + level.durationMonths);
+        }
+        return {
+          refereeUserId: total.refereeUserId,
+          refereeName: total.refereeName,
+          level: total.level,
+          topups: total.topups,
+          earned: total.earned,
+          cap,
+          remaining:
+            cap === null
+              ? null
+              : Math.max(Math.round((cap - total.earned) * 100) / 100, 0),
+          earningUntil,
+          lastEarnedAt: total.lastEarnedAt,
+        };
+      });
+
+      const earnedAt = (level: ReferralCommissionLevelNumber) =>
+        Math.round(
+          referees
+            .filter(referee => referee.level === level)
+            .reduce((sum, referee) => sum + referee.earned * 100, 0)
+        ) / 100;
+      const byLevel = ([1, 2] as ReferralCommissionLevelNumber[]).map(
+        level => ({ level, earned: earnedAt(level) })
+      );
+
+      return {
+        totalEarned:
+          Math.round(byLevel.reduce((sum, l) => sum + l.earned * 100, 0)) / 100,
+        byLevel,
+        referees,
+      };
+    } catch (error) {
+      logger.error(
+        `Error getting commission breakdown for ${referrerUserId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Finds a referral by code
    * @param code - The referral code
@@ -0,0 +1,425 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import { CashbackModel } from '../models/Cashback';
+import {
+  RewardCatalogueModel,
+  RewardRedemptionModel,
+} from '../models/RewardRedemption';
+import { TopupRequestModel } from '../models/TopupRequest';
+import { TransactionModel } from '../models/Transaction';
+import {
+  RedeemPointsRequest,
+  RewardCatalogueItem,
+  RewardCatalogueItemInput,
+  RewardRedemption,
+} from '../types/rewardRedemption.types';
+import { ApiError } from '../utils/ApiError';
+import { generateSecureString } from '../utils/crypto';
+import { logger } from '../utils/logger.utils';
+import { LedgerService } from './ledger.service';
+import { OperatorDetectionService } from './operatorDetection.service';
+import { RewardsService } from './rewards.service';
+import { SupplierRoutingService } from './supplierRouting.service';
+
+const ITEM_TYPES = ['wallet_credit', 'cashback', 'product'];
+
+const toKobo = (amount: number) => Math.round(amount * 100);
+
+// A product redemption's topup and what the supplier charges for it
+interface ProductPurchase {
+  value: number;
+  topupRequestId: string;
+}
+
+export class RewardRedemptionService {
+  /**
+   * Lists the catalogue
+   * @param activeOnly - Leave out switched-off items (what users see)
+   */
+  static async listCatalogue(
+    activeOnly = true
+  ): Promise<RewardCatalogueItem[]> {
+    return RewardCatalogueModel.findAll(activeOnly);
+  }
+
+  /**
+   * Adds an item to the catalogue
+   * @param input - The item; wallet_credit and cashback items need a
+   * conversionRate, product items an operatorProductId and pointsCost
+   * @param createdBy - The admin adding it
+   */
+  static async createItem(
+    input: RewardCatalogueItemInput,
+    createdBy?: string
+  ): Promise<RewardCatalogueItem> {
+    if (!input.name || !input.type) {
+      throw new ApiError(400, 'name and type are required');
+    }
+    await this.validateItem(input);
+    const item = await RewardCatalogueModel.create({ ...input, createdBy });
+    return (await RewardCatalogueModel.findById(item.id)) || item;
+  }
+
+  /**
+   * Changes a catalogue item's rates, caps or availability
+   * @param id - The item ID
+   * @param input - The fields to change
+   */
+  static async updateItem(
+    id: string,
+    input: RewardCatalogueItemInput
+  ): Promise<RewardCatalogueItem> {
+    const existing = await RewardCatalogueModel.findById(id);
+    if (!existing) {
+      throw new ApiError(404, 'Catalogue item not found');
+    }
+    await this.validateItem({ ...existing, ...input });
+
+    // Whoever created the item stays its creator
+    await RewardCatalogueModel.update(id, {
+      ...input,
+      createdBy: existing.createdBy,
+    });
+    return (await RewardCatalogueModel.findById(id)) as RewardCatalogueItem;
+  }
+
+  /**
+   * Spends a user's points on a catalogue item. The points, the ledger
+   * posting and any topup are written in one transaction, so a redemption
+   * that cannot be fulfilled leaves the points where they were.
+   * @param userId - The user redeeming
+   * @param request - The item, the points to convert and, for products,
+   * the number to top up
+   * @returns The redemption
+   */
+  static async redeem(
+    userId: string,
+    request: RedeemPointsRequest
+  ): Promise<RewardRedemption> {
+    return db.transaction(async trx => {
+      const item = await RewardCatalogueModel.findById(request.itemId, trx);
+      if (!item || !item.isActive) {
+        throw new ApiError(404, 'Catalogue item not found');
+      }
+
+      const points = this.pointsFor(item, request);
+      if (item.type === 'product' && !request.recipientPhone) {
+        throw new ApiError(400, 'recipientPhone is required for products');
+      }
+
+      // Spending locks the user row, so the caps below see every earlier
+      // redemption by this user
+      await RewardsService.spendPoints(
+        userId,
+        points,
+        'redemption',
+        { itemId: item.id },
+        trx
+      );
+      await this.checkCaps(item, userId, points, trx);
+
+      const purchase =
+        item.type === 'product'
+          ? await this.buyProduct(item, userId, request.recipientPhone!, trx)
+          : null;
+
+      const redemption = await RewardRedemptionModel.create(
+        {
+          userId,
+          itemId: item.id,
+          type: item.type,
+          points,
+          value: purchase
+            ? purchase.value
+            : Math.floor(points * (item.conversionRate as number) * 100) / 100,
+          status: 'completed',
+          recipientPhone: request.recipientPhone,
+          topupRequestId: purchase?.topupRequestId,
+        },
+        trx
+      );
+      if (!purchase) {
+        await this.creditBalance(item, redemption, trx);
+      }
+
+      logger.info(
+        `User ${userId} redeemed ${points} points for ${item.name} (₦${redemption.value})`
+      );
+      return redemption;
+    });
+  }
+
+  /**
+   * Gives back the points of a redemption whose topup was reversed. Called
+   * from the reversal, which returns the rewards account's money.
+   * @param topupRequestId - The reversed topup
+   * @param reason - Why it was reversed
+   * @param trx - Transaction the topup is reversed in
+   * @returns The failed redemption, or null if the topup was not bought
+   * with points
+   */
+  static async failForTopup(
+    topupRequestId: string,
+    reason: string,
+    trx: Knex.Transaction
+  ): Promise<RewardRedemption | null> {
+    const redemption = await RewardRedemptionModel.findByTopupRequest(
+      topupRequestId,
+      trx
+    );
+    if (!redemption || redemption.status !== 'completed') {
+      return null;
+    }
+
+    await RewardRedemptionModel.markFailed(redemption.id, reason, trx);
+    await RewardsService.returnPoints(
+      redemption.userId,
+      redemption.points,
+      'redemption_refund',
+      { redemptionId: redemption.id },
+      trx
+    );
+    return { ...redemption, status: 'failed', failureReason: reason };
+  }
+
+  static async getRedemptions(userId: string, page: number, limit: number) {
+    return RewardRedemptionModel.findByUser(userId, page, limit);
+  }
+
+  // Converting items take any whole number of points from their minimum up;
+  // a product costs its fixed price
+  private static pointsFor(
+    item: RewardCatalogueItem,
+    request: RedeemPointsRequest
+  ): number {
+    if (item.type === 'product') {
+      return item.pointsCost as number;
+    }
+
+    const points = Number(request.points);
+    if (!Number.isInteger(points) || points <= 0) {
+      throw new ApiError(400, 'points must be a positive whole number');
+    }
+    if (item.minPoints && points < item.minPoints) {
+      throw new ApiError(
+        400,
+        `At least ${item.minPoints} points must be redeemed`
+      );
+    }
+    if (toKobo(points * (item.conversionRate as number)) < 1) {
+      throw new ApiError(400, 'Too few points to convert');
+    }
+    return points;
+  }
+
+  private static async checkCaps(
+    item: RewardCatalogueItem,
+    userId: string,
+    points: number,
+    trx: Knex.Transaction
+  ) {
+    if (!item.perUserLimit && !item.maxPointsPerUser) {
+      return;
+    }
+
+    const since = item.capWindowDays
+      ? new Date(Date.now() - item.capWindowDays * 24 * 60 * 60 * 1000)
+      : null;
+    const usage = await RewardRedemptionModel.getUsage(
+      item.id,
+      userId,
+      since,
+      trx
+    );
+
+    if (item.perUserLimit && usage.count >= item.perUserLimit) {
+      throw new ApiError(403, 'Redemption limit reached for this item');
+    }
+    if (
+      item.maxPointsPerUser &&
+      usage.points + points > item.maxPointsPerUser
+    ) {
+      throw new ApiError(
+        403,
+        `At most ${Math.max(item.maxPointsPerUser - usage.points, 0)} more points can be redeemed on this item`
+      );
+    }
+  }
+
+  // Wallet credit and cashback are paid for by the rewards account
+  private static async creditBalance(
+    item: RewardCatalogueItem,
+    redemption: RewardRedemption,
+    trx: Knex.Transaction
+  ) {
+    const { userId, points, value } = redemption;
+    const account =
+      item.type === 'cashback'
+        ? LedgerService.cashback(userId)
+        : LedgerService.wallet(userId);
+
+    const journal = await LedgerService.post(
+      {
+        referenceType: 'reward_redemption',
+        referenceId: redemption.id,
+        description: `${points} points redeemed for ${item.name}`,
+        createdBy: userId,
+        lines: [
+          { account: { type: 'rewards' }, direction: 'debit', amount: value },
+          { account, direction: 'credit', amount: value },
+        ],
+      },
+      trx
+    );
+
+    if (item.type === 'cashback') {
+      await CashbackModel.getOrCreate(userId, trx);
+      await trx('cashback_transactions').insert({
+        user_id: userId,
+        type: 'earned',
+        amount: value,
+        description: `${points} points redeemed`,
+        created_at: trx.fn.now(),
+      });
+      await trx('cashback')
+        .where({ user_id: userId })
+        .increment('total_earned', value);
+    } else {
+      await TransactionModel.create(
+        {
+          walletId: userId,
+          userId,
+          direction: 'credit',
+          amount: value,
+          balanceAfter: journal.balances[LedgerService.accountCode(account)],
+          method: 'rewards',
+          relatedType: 'reward_redemption',
+          relatedId: redemption.id,
+          metadata: { itemId: item.id, points },
+        },
+        trx
+      );
+    }
+  }
+
+  // Queues a topup for the product on the best ranked supplier. The
+  // rewards account pays the supplier's price, so the topup charges the
+  // user nothing and a reversal returns the money to the rewards account.
+  private static async buyProduct(
+    item: RewardCatalogueItem,
+    userId: string,
+    recipientPhone: string,
+    trx: Knex.Transaction
+  ): Promise<ProductPurchase> {
+    const product = await trx('operator_products')
+      .where({ id: item.operatorProductId, is_active: true })
+      .first();
+    if (!product) {
+      throw new ApiError(404, 'Product is no longer available');
+    }
+    // The recipient must be on the product's network, or the supplier
+    // fails the topup
+    await OperatorDetectionService.assertRecipientOperator(
+      recipientPhone,
+      product.operator_id,
+      trx
+    );
+
+    const [route] = await SupplierRoutingService.rankRoutes(product.id, trx);
+    if (!route) {
+      throw new ApiError(503, 'No supplier can deliver this product');
+    }
+
+    const topupRequest = await TopupRequestModel.create(
+      {
+        userId,
+        amount: parseFloat(product.denom_amount),
+        operatorId: product.operator_id,
+        recipientPhone,
+        status: 'pending',
+        operatorProductId: product.id,
+        supplierId: route.supplierId,
+        supplierMappingId: route.supplierMappingId,
+        cost: 0,
+        type: product.product_code.includes('DATA') ? 'data' : 'airtime',
+        attemptCount: 0,
+        idempotencyKey: generateSecureString(15, userId),
+        requestPayload: {},
+      },
+      trx
+    );
+
+    await LedgerService.post(
+      {
+        referenceType: 'topup_request',
+        referenceId: topupRequest.id,
+        description: `${product.product_code} for ${recipientPhone} bought with points`,
+        createdBy: userId,
+        lines: [
+          {
+            account: { type: 'rewards' },
+            direction: 'debit',
+            amount: route.supplierPrice,
+          },
+          {
+            account: { type: 'supplier_payable' },
+            direction: 'credit',
+            amount: route.supplierPrice,
+          },
+        ],
+      },
+      trx
+    );
+
+    return { value: route.supplierPrice, topupRequestId: topupRequest.id };
+  }
+
+  private static async validateItem(item: RewardCatalogueItemInput) {
+    if (!ITEM_TYPES.includes(item.type as string)) {
+      throw new ApiError(400, `type must be one of ${ITEM_TYPES.join(', ')}`);
+    }
+
+    const positiveInts: Array<keyof RewardCatalogueItemInput> = [
+      'minPoints',
+      'pointsCost',
+      'perUserLimit',
+      'maxPointsPerUser',
+      'capWindowDays',
+    ];
+    for (const key of positiveInts) {
+      const value = item[key];
+      if (
+        value !== undefined &&
+        value !== null &&
+        (!Number.isInteger(value) || (value as number) <= 0)
+      ) {
+        throw new ApiError(400, `${key} must be a positive whole number`);
+      }
+    }
+
+    if (item.type === 'product') {
+      if (!item.operatorProductId || !item.pointsCost) {
+        throw new ApiError(
+          400,
+          'Product items need an operatorProductId and pointsCost'
+        );
+      }
+      const product = await db('operator_products')
+        .where({ id: item.operatorProductId })
+        .first();
+      if (!product) {
+        throw new ApiError(400, 'Operator product not found');
+      }
+    } else {
+      const rate = Number(item.conversionRate);
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new ApiError(
+          400,
+          'conversionRate must be a positive amount per point'
+        );
+      }
+    }
+  }
+}
+
+export default RewardRedemptionService;
@@ -1,8 +1,11 @@
+import { Knex } from 'knex';
 import db from '../database/connection';
 import { BadgeModel, UserBadgeModel } from '../models/Badge';
-import { Reward, RewardModel } from '../models/Reward';
-import { UserModel } from '../models/User';
+import { Reward, RewardModel, UpcomingPointsExpiry } from '../models/Reward';
+import { ApiError } from '../utils/ApiError';
 import { logger } from '../utils/logger.utils';
+import { BadgeTriggerSystem } from './badgeTrigger.system';
+import { PointsExpiryService } from './pointsExpiry.service';
 
 // =================================================================
 // Interfaces
@@ -15,6 +18,7 @@ export interface RewardsSummary {
   creditedPoints: number;
   expiredPoints: number;
   revokedPoints: number;
+  upcomingExpiries: UpcomingPointsExpiry[];
 }
 
 export interface UserBadgeSummary {
@@ -22,6 +26,7 @@ export interface UserBadgeSummary {
   name: string;
   description: string | null;
   icon: string | null;
+  tier: number | null; // Highest tier reached on a tiered badge
   earnedAt: Date;
 }
 
@@ -36,7 +41,10 @@ export class RewardsService {
    * @returns Rewards summary with point breakdowns
    */
   static async getRewardsSummary(userId: string): Promise<RewardsSummary> {
-    const summary = await RewardModel.getSummaryByUserId(userId);
+    const [summary, upcomingExpiries] = await Promise.all([
+      RewardModel.getSummaryByUserId(userId),
+      RewardModel.getUpcomingExpiries(userId),
+    ]);
 
     return {
       userId,
@@ -45,6 +53,7 @@ export class RewardsService {
       creditedPoints: summary.credited,
       expiredPoints: summary.expired,
       revokedPoints: summary.revoked,
+      upcomingExpiries,
     };
   }
 
@@ -62,6 +71,7 @@ export class RewardsService {
         name: badge.name,
         description: badge.description,
         icon: badge.icon,
+        tier: badge.tier,
         earnedAt: badge.earnedAt,
       }));
     } catch (error) {
@@ -97,7 +107,8 @@ export class RewardsService {
    * @param userId - The user ID
    * @param amount - Number of points to award
    * @param reason - Reason for awarding points
-   * @param expiresAt - Optional expiration date
+   * @param expiresAt - Optional expiration date; defaults to the expiry
+   * policy for the reason, if there is one
    * @param metadata - Optional metadata
    * @returns The created reward
    */
@@ -109,6 +120,8 @@ export class RewardsService {
     metadata?: Record<string, any>
   ): Promise<Reward> {
     try {
+      const expiry = expiresAt || (await PointsExpiryService.expiryFor(reason));
+
       return await db.transaction(async trx => {
         // Create the reward
         const reward = await RewardModel.create(
@@ -116,7 +129,7 @@ export class RewardsService {
             userId,
             points: amount,
             reason,
-            expiresAt,
+            expiresAt: expiry,
             metadata,
           },
           trx
@@ -151,8 +164,8 @@ export class RewardsService {
 
         let totalCredited = 0;
 
-        // Credit each reward
-        for (const reward of pendingRewards) {
+        // Credit each reward, except those held for review
+        for (const reward of pendingRewards.filter(r => !r.holdReason)) {
           await RewardModel.updateStatus(reward.id, 'credited', trx);
           totalCredited += reward.points;
         }
@@ -173,6 +186,73 @@ export class RewardsService {
     }
   }
 
+  /**
+   * Takes credited points from a user. The debit is a negative credited
+   * reward, so the credited total stays equal to the spendable balance.
+   * @param userId - The user ID
+   * @param points - Number of points to take
+   * @param reason - Reason for the debit
+   * @param metadata - Optional metadata (e.g. the redemption)
+   * @param trx - Transaction the points are spent in
+   * @returns The user's remaining points
+   * @throws ApiError 402 if the user has fewer points
+   */
+  static async spendPoints(
+    userId: string,
+    points: number,
+    reason: string,
+    metadata: Record<string, any> | undefined,
+    trx: Knex.Transaction
+  ): Promise<number> {
+    const user = await trx('users')
+      .select('total_points')
+      .where({ id: userId })
+      .forUpdate()
+      .first();
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+    const available = Number(user.total_points || 0);
+    if (available < points) {
+      throw new ApiError(
+        402,
+        `Insufficient points. Needed: ${points}, available: ${available}`
+      );
+    }
+
+    await RewardModel.create(
+      { userId, points: -points, reason, metadata, status: 'credited' },
+      trx
+    );
+    await RewardModel.consumePoints(userId, points, trx);
+    await trx('users').where({ id: userId }).decrement('total_points', points);
+
+    return available - points;
+  }
+
+  /**
+   * Gives spent points back to a user as a credited reward
+   * @param userId - The user ID
+   * @param points - Number of points to give back
+   * @param reason - Reason for the credit
+   * @param metadata - Optional metadata (e.g. the redemption)
+   * @param trx - Transaction the points are returned in
+   */
+  static async returnPoints(
+    userId: string,
+    points: number,
+    reason: string,
+    metadata: Record<string, any> | undefined,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    await RewardModel.create(
+      { userId, points, reason, metadata, status: 'credited' },
+      trx
+    );
+    await trx('users').where({ id: userId }).increment('total_points', points);
+    logger.info(`Returned ${points} points to user ${userId}`);
+  }
+
   /**
    * Revokes all pending points for a user
    * @param userId - The user ID
@@ -274,12 +354,15 @@ export class RewardsService {
   }
 
   /**
-   * Marks expired rewards in the system
+   * Marks expired rewards in the system: pending rewards past their expiry,
+   * and the unspent part of credited ones, which also leaves the balance
    * @returns Number of rewards expired
    */
   static async expireOldRewards(): Promise<number> {
     try {
-      const count = await RewardModel.markExpiredRewards();
+      const pending = await RewardModel.markExpiredRewards();
+      const credited = await PointsExpiryService.expireUnspent();
+      const count = pending + credited.rewards;
       logger.info(`Marked ${count} rewards as expired`);
       return count;
     } catch (error) {
@@ -332,96 +415,20 @@ export class RewardsService {
   }
 
   /**
-   * Automatically awards badges based on conditions
+   * Automatically awards badges whose rules the user now meets
    * @param userId - The user ID
    * @returns Array of badge IDs awarded
    */
   static async checkAndAwardBadges(userId: string): Promise<string[]> {
     try {
-      const awardedbadgeIds: string[] = [];
-
-      // Get all active badges with required_action set
-      const badgesToCheck = await db('badges')
-        .where({ is_active: true })
-        .whereNotNull('required_action')
-        .select('id', 'required_action', 'required_value');
-
-      for (const badge of badgesToCheck) {
-        const shouldAward = await this.shouldAwardBadge(
-          userId,
-          badge.required_action,
-          badge.required_value
-        );
-
-        if (shouldAward) {
-          const hasAlready = await UserBadgeModel.hasBadge(userId, badge.id);
-          if (!hasAlready) {
-            await UserBadgeModel.award(userId, badge.id);
-            awardedbadgeIds.push(badge.id);
-            logger.info(
-              `Auto-awarded badge ${badge.id} to user ${userId} for action ${badge.required_action}`
-            );
-          }
-        }
-      }
-
-      return awardedbadgeIds;
+      const awardedBadgeIds = await BadgeTriggerSystem.evaluateUser(userId);
+      awardedBadgeIds.forEach(badgeId =>
+        logger.info(`Auto-awarded badge ${badgeId} to user ${userId}`)
+      );
+      return awardedBadgeIds;
     } catch (error) {
       logger.error(`Error checking badges for user ${userId}:`, error);
       throw error;
     }
   }
-
-  /**
-   * Helper method to determine if badge should be awarded
-   * @param userId - The user ID
-   * @param action - The action to check
-   * @param requiredValue - The required value to meet
-   * @returns True if badge should be awarded
-   */
-  private static async shouldAwardBadge(
-    userId: string,
-    action: string,
-    requiredValue?: number | null
-  ): Promise<boolean> {
-    try {
-      switch (action) {
-        case 'first_referral':
-          // Award if user has at least one completed referral
-          const referralCount = await db('referrals')
-            .where({
-              referrer_user_id: userId,
-              status: 'completed',
-            })
-            .count('* as count')
-            .first();
-          return (referralCount?.count as number) > 0;
-
-        case 'top_referee':
-          // Award if user has completed referrals >= requiredValue
-          const topReferralCount = await db('referrals')
-            .where({
-              referrer_user_id: userId,
-              status: 'completed',
-            })
-            .count('* as count')
-            .first();
-          return (topReferralCount?.count as number) >= (requiredValue || 5);
-
-        case 'high_points':
-          // Award if user's total points >= requiredValue
-          const user = await UserModel.findById(userId);
-          if (!user) return false;
-          // We need to fetch the total_points from database
-          const userData = await db('users').where({ id: userId }).first();
-          return userData.total_points >= (requiredValue || 100);
-
-        default:
-          return false;
-      }
-    } catch (error) {
-      logger.error(`Error checking badge condition for user ${userId}:`, error);
-      return false;
-    }
-  }
 }
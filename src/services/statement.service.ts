@@ -0,0 +1,432 @@
+import PDFDocument from 'pdfkit';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { StatementTransaction } from '../types/transaction.types';
+import { ApiError } from '../utils/ApiError';
+import { toCsvRow } from '../utils/csv.utils';
+import { EmailService } from './email.service';
+
+export type StatementFormat = 'pdf' | 'csv';
+
+export interface StatementQuery {
+  from?: string;
+  to?: string;
+}
+
+export interface StatementLine {
+  transactionId: string;
+  date: Date;
+  description: string;
+  reference: string | null;
+  direction: 'debit' | 'credit';
+  amount: number;
+  balanceAfter: number;
+}
+
+// A line whose recorded balance_after does not follow from the one before
+export interface StatementDiscrepancy {
+  transactionId: string;
+  expectedBalance: number;
+  recordedBalance: number;
+}
+
+export interface AccountStatement {
+  account: {
+    userId: string;
+    fullName: string | null;
+    email: string;
+    phoneNumber: string | null;
+    accountNumber: string | null;
+  };
+  period: { from: Date; to: Date }; // to is exclusive
+  openingBalance: number;
+  closingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  lines: StatementLine[];
+  reconciled: boolean;
+  discrepancies: StatementDiscrepancy[];
+  generatedAt: Date;
+}
+
+export interface RenderedStatement {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+const MAX_PERIOD_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// What a transaction was for, by the kind of record it belongs to
+const RELATED_DESCRIPTIONS: Record<string, string> = {
+  incoming_payment: 'Wallet funding',
+  wallet_transfer: 'Wallet transfer',
+  settlement: 'Settlement',
+  bill_payment: 'Bill payment',
+  epin_order: 'E-PIN purchase',
+  reward_redemption: 'Reward redemption',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const money = new Intl.NumberFormat('en-NG', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+// =================================================================
+// Statement Service
+// =================================================================
+
+export class StatementService {
+  /**
+   * Builds a user's account statement for a period: the opening balance,
+   * every credit and debit, and the closing balance. Each line is checked
+   * against the balance recorded on it.
+   * @param userId - The user
+   * @param query - Period; a date without a time covers that whole day.
+   * Defaults to the current month so far.
+   * @returns The statement
+   */
+  static async build(
+    userId: string,
+    query: StatementQuery
+  ): Promise<AccountStatement> {
+    const period = this.resolvePeriod(query);
+    const user = await UserModel.findProfileById(userId);
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    const [previous, transactions] = await Promise.all([
+      TransactionModel.findLastBefore(userId, period.from),
+      TransactionModel.findForStatement(userId, period.from, period.to),
+    ]);
+    const openingBalance = previous ? previous.balanceAfter : 0;
+
+    let running = openingBalance;
+    let totalCredits = 0;
+    let totalDebits = 0;
+    const discrepancies: StatementDiscrepancy[] = [];
+    const lines = transactions.map(transaction => {
+      if (transaction.direction === 'credit') {
+        totalCredits += transaction.amount;
+        running = round(running + transaction.amount);
+      } else {
+        totalDebits += transaction.amount;
+        running = round(running - transaction.amount);
+      }
+      if (running !== round(transaction.balanceAfter)) {
+        discrepancies.push({
+          transactionId: transaction.id,
+          expectedBalance: running,
+          recordedBalance: transaction.balanceAfter,
+        });
+        // Carry on from what was recorded so one bad line is reported once
+        running = round(transaction.balanceAfter);
+      }
+
+      return {
+        transactionId: transaction.id,
+        date: transaction.createdAt,
+        description: this.describe(transaction),
+        reference: transaction.reference || null,
+        direction: transaction.direction,
+        amount: transaction.amount,
+        balanceAfter: transaction.balanceAfter,
+      };
+    });
+
+    return {
+      account: {
+        userId,
+        fullName: user.fullName || null,
+        email: user.email,
+        phoneNumber: user.phoneNumber || null,
+        accountNumber: user.accountNumber || null,
+      },
+      period,
+      openingBalance,
+      closingBalance: lines.length
+        ? lines[lines.length - 1].balanceAfter
+        : openingBalance,
+      totalCredits: round(totalCredits),
+      totalDebits: round(totalDebits),
+      lines,
+      reconciled: discrepancies.length === 0,
+      discrepancies,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Renders a statement as a downloadable file
+   * @param statement - The statement
+   * @param format - pdf or csv
+   * @returns The file content, its type and the name to save it as
+   */
+  static async render(
+    statement: AccountStatement,
+    format: string = 'pdf'
+  ): Promise<RenderedStatement> {
+    const fileName = `statement-${day(statement.period.from)}-to-${this.lastDay(statement)}.${format}`;
+    if (format === 'csv') {
+      return {
+        content: Buffer.from(this.toCsv(statement)),
+        contentType: 'text/csv; charset=utf-8',
+        fileName,
+      };
+    }
+    if (format === 'pdf') {
+      return {
+        content: await this.toPdf(statement),
+        contentType: 'application/pdf',
+        fileName,
+      };
+    }
+    throw new ApiError(400, 'format must be pdf or csv');
+  }
+
+  /**
+   * Emails a user their statement for a period as a PDF attachment
+   * @param userId - The user
+   * @param query - Period, as for build
+   * @returns Where it was sent and the period it covers
+   */
+  static async email(userId: string, query: StatementQuery) {
+    const statement = await this.build(userId, query);
+    const { content, fileName } = await this.render(statement, 'pdf');
+
+    await new EmailService().sendAccountStatementEmail(
+      statement.account.email,
+      statement.account.fullName || '',
+      `${day(statement.period.from)} to ${this.lastDay(statement)}`,
+      content,
+      fileName
+    );
+    return { sentTo: statement.account.email, period: statement.period };
+  }
+
+  /**
+   * Formats a statement as CSV, with the opening and closing balances as
+   * the first and last rows
+   * @param statement - The statement
+   */
+  static toCsv(statement: AccountStatement): string {
+    const rows = [
+      toCsvRow([
+        'date',
+        'description',
+        'reference',
+        'debit',
+        'credit',
+        'balance',
+      ]),
+      toCsvRow([
+        statement.period.from,
+        'Opening balance',
+        null,
+        null,
+        null,
+        statement.openingBalance.toFixed(2),
+      ]),
+      ...statement.lines.map(line =>
+        toCsvRow([
+          line.date,
+          line.description,
+          line.reference,
+          line.direction === 'debit' ? line.amount.toFixed(2) : null,
+          line.direction === 'credit' ? line.amount.toFixed(2) : null,
+          line.balanceAfter.toFixed(2),
+        ])
+      ),
+      toCsvRow([
+        statement.period.to,
+        'Closing balance',
+        null,
+        statement.totalDebits.toFixed(2),
+        statement.totalCredits.toFixed(2),
+        statement.closingBalance.toFixed(2),
+      ]),
+    ];
+    return rows.join('');
+  }
+
+  /**
+   * Lays a statement out as an A4 PDF
+   * @param statement - The statement
+   */
+  static toPdf(statement: AccountStatement): Promise<Buffer> {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const { account } = statement;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    doc.fontSize(18).font('Helvetica-Bold').text('Account Statement');
+    doc.moveDown(0.5).fontSize(10).font('Helvetica');
+    doc.text(account.fullName || account.email);
+    doc.text(account.email);
+    if (account.phoneNumber) doc.text(account.phoneNumber);
+    if (account.accountNumber) {
+      doc.text(`Account number: ${account.accountNumber}`);
+    }
+    doc.text(
+      `Period: ${day(statement.period.from)} to ${this.lastDay(statement)}`
+    );
+    doc.text(`Generated: ${statement.generatedAt.toISOString()}`);
+
+    doc.moveDown();
+    const summary: [string, number][] = [
+      ['Opening balance', statement.openingBalance],
+      ['Total credits', statement.totalCredits],
+      ['Total debits', statement.totalDebits],
+      ['Closing balance', statement.closingBalance],
+    ];
+    summary.forEach(([label, amount]) => {
+      const y = doc.y;
+      doc.text(label, left, y);
+      doc.text(`NGN ${money.format(amount)}`, left, y, {
+        width: 200,
+        align: 'right',
+      });
+    });
+    doc.moveDown();
+
+    // Column x offsets and widths; amounts are right aligned
+    const columns = [
+      { header: 'Date', x: 0, width: 70 },
+      { header: 'Description', x: 72, width: 170 },
+      { header: 'Reference', x: 244, width: 90 },
+      { header: 'Debit', x: 336, width: 60, right: true },
+      { header: 'Credit', x: 398, width: 60, right: true },
+      { header: 'Balance', x: 460, width: width - 460, right: true },
+    ];
+    const row = (values: string[], bold = false) => {
+      doc.fontSize(8).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      const height = Math.max(
+        ...values.map((value, i) =>
+          doc.heightOfString(value, { width: columns[i].width })
+        )
+      );
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      values.forEach((value, i) =>
+        doc.text(value, left + columns[i].x, y, {
+          width: columns[i].width,
+          align: columns[i].right ? 'right' : 'left',
+        })
+      );
+      doc.x = left;
+      doc.y = y + height + 4;
+    };
+
+    row(
+      columns.map(column => column.header),
+      true
+    );
+    statement.lines.forEach(line =>
+      row([
+        line.date.toISOString().slice(0, 16).replace('T', ' '),
+        line.description,
+        line.reference || '',
+        line.direction === 'debit' ? money.format(line.amount) : '',
+        line.direction === 'credit' ? money.format(line.amount) : '',
+        money.format(line.balanceAfter),
+      ])
+    );
+    if (statement.lines.length === 0) {
+      row(['', 'No transactions in this period', '', '', '', '']);
+    }
+
+    if (!statement.reconciled) {
+      doc
+        .moveDown()
+        .fontSize(8)
+        .font('Helvetica-Oblique')
+        .text(
+          'Some balances on this statement could not be reconciled and are under review.',
+          left
+        );
+    }
+
+    doc.end();
+    return done;
+  }
+
+  /**
+   * Turns query dates into a half-open period of at most a year
+   * @param query - Period
+   * @returns Start (inclusive) and end (exclusive)
+   */
+  static resolvePeriod(query: StatementQuery): { from: Date; to: Date } {
+    const now = new Date();
+    const to = query.to
+      ? new Date(
+          new Date(query.to).getTime() + (DATE_ONLY.test(query.to) ? DAY_MS : 0)
+        )
+      : now;
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new ApiError(400, 'from and to must be valid dates');
+    }
+    if (from >= to) {
+      throw new ApiError(400, 'from must be before to');
+    }
+    if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * DAY_MS) {
+      throw new ApiError(
+        400,
+        `A statement covers at most ${MAX_PERIOD_DAYS} days`
+      );
+    }
+    return { from, to };
+  }
+
+  /**
+   * Describes a transaction for a statement line, naming the top-up it
+   * paid for where there is one
+   */
+  private static describe(transaction: StatementTransaction): string {
+    const { topup } = transaction;
+    if (topup) {
+      const product =
+        topup.productName ||
+        [topup.operatorName, topup.type === 'airtime' ? 'airtime' : 'data']
+          .filter(Boolean)
+          .join(' ');
+      const description = `${product} top-up for ${topup.recipientPhone}`;
+      return transaction.direction === 'credit'
+        ? `Refund: ${description}`
+        : description;
+    }
+
+    const label =
+      (transaction.relatedType &&
+        RELATED_DESCRIPTIONS[transaction.relatedType]) ||
+      transaction.method.charAt(0).toUpperCase() +
+        transaction.method.slice(1).replace(/_/g, ' ');
+    return transaction.note ? `${label}: ${transaction.note}` : label;
+  }
+
+  // The last day the period covers, as its end is exclusive
+  private static lastDay(statement: AccountStatement) {
+    return day(new Date(statement.period.to.getTime() - 1));
+  }
+}
+
+export default StatementService;
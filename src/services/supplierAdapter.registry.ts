@@ -0,0 +1,32 @@
+import { SupplierAdapter } from '../types/supplierAdapter.types';
+import { MockSupplierAdapter } from './mockSupplier.adapter';
+
+/**
+ * Process-wide lookup of supplier adapters keyed by `suppliers.slug`.
+ * Real vendor integrations register themselves at startup; the mock
+ * adapter is always available under the `mock` slug.
+ */
+export class SupplierAdapterRegistry {
+  private static adapters = new Map<string, SupplierAdapter>();
+
+  static register(adapter: SupplierAdapter): void {
+    this.adapters.set(adapter.slug, adapter);
+  }
+
+  static unregister(slug: string): void {
+    this.adapters.delete(slug);
+  }
+
+  static get(slug: string | null | undefined): SupplierAdapter | null {
+    if (!slug) return null;
+    return this.adapters.get(slug) || null;
+  }
+
+  static list(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+SupplierAdapterRegistry.register(new MockSupplierAdapter());
+
+export default SupplierAdapterRegistry;
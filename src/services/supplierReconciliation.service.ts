@@ -0,0 +1,553 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import {
+  SETTLED_TOPUP_STATUSES,
+  SupplierReconciliationModel,
+} from '../models/SupplierReconciliation';
+import {
+  CreateReconciliationItemData,
+  ReconcilableTopup,
+  ReconciliationItem,
+  ReconciliationItemFilters,
+  ReconciliationFilters,
+  ReconciliationResolution,
+  ReconciliationResult,
+  ReconciliationSummary,
+  SupplierReconciliation,
+  SupplierReportError,
+  SupplierReportLine,
+  SupplierReportUpload,
+} from '../types/reconciliation.types';
+import { ApiError } from '../utils/ApiError';
+import { parseCsv } from '../utils/csv.utils';
+import { logger } from '../utils/logger.utils';
+
+const MAX_REPORT_LINES = 20000;
+const MAX_REPORTED_ERRORS = 100;
+const RESOLUTIONS: ReconciliationResolution[] = [
+  'accepted',
+  'disputed',
+  'adjusted',
+];
+
+// Report column names are compared lower-cased without separators, so
+// `External ID`, `external_id` and `externalId` are the same column
+const REFERENCE_KEYS = [
+  'reference',
+  'externalid',
+  'idempotencykey',
+  'clientreference',
+  'requestid',
+];
+const AMOUNT_KEYS = ['amount', 'cost', 'settledamount'];
+const STATUS_KEYS = ['status'];
+
+// A line whose status is one of these was not charged by the supplier;
+// any other (or no) status counts as a successful, charged topup
+const FAILED_REPORT_STATUSES = [
+  'failed',
+  'failure',
+  'declined',
+  'error',
+  'cancelled',
+  'reversed',
+  'refunded',
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const toKobo = (amount: number) => Math.round(amount * 100);
+const expectedAmount = (topup: ReconcilableTopup) =>
+  topup.supplierPayable ?? topup.amount;
+const normalizeKey = (key: string) =>
+  key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export class SupplierReconciliationService {
+  /**
+   * Reconciles a supplier's settlement report against our topups. Each
+   * report line is matched to a topup of that supplier by the reference it
+   * was sent (the topup ID), external ID or idempotency key and compared on
+   * outcome and amount (what the purchase posted to the supplier payable,
+   * or the face value when nothing was posted).
+   * Successful topups in the period that the report does not mention are
+   * listed as missing on their side.
+   * @param upload The report and the supplier and period it covers
+   * @returns The stored reconciliation and the lines that could not be read
+   */
+  static async reconcile(
+    upload: SupplierReportUpload
+  ): Promise<ReconciliationResult> {
+    if (upload.format !== 'csv' && upload.format !== 'json') {
+      throw new ApiError(400, 'Format must be csv or json');
+    }
+    const { periodStart, periodEnd } = this.parsePeriod(
+      upload.periodStart,
+      upload.periodEnd
+    );
+
+    const supplier = await db('suppliers')
+      .where({ id: upload.supplierId })
+      .first();
+    if (!supplier) {
+      throw new ApiError(404, 'Supplier not found');
+    }
+
+    const { lines, errors, totalLines } = this.parseReport(upload);
+    if (totalLines === 0) {
+      throw new ApiError(400, 'Report contains no lines');
+    }
+
+    const references = [...new Set(lines.map(line => line.reference))];
+    const [candidates, settled] = await Promise.all([
+      SupplierReconciliationModel.findTopupsByReferences(
+        upload.supplierId,
+        references
+      ),
+      SupplierReconciliationModel.findSettledTopups(
+        upload.supplierId,
+        periodStart,
+        periodEnd
+      ),
+    ]);
+
+    const items = this.matchLines(lines, candidates, settled);
+    const summary = this.summarize(
+      items,
+      totalLines,
+      errors.length,
+      candidates,
+      settled
+    );
+
+    const created = await db.transaction(async trx => {
+      const reconciliation = await SupplierReconciliationModel.create(
+        {
+          supplierId: upload.supplierId,
+          periodStart,
+          periodEnd,
+          fileName: upload.fileName,
+          format: upload.format,
+          summary,
+          createdBy: upload.createdBy,
+        },
+        trx
+      );
+      await SupplierReconciliationModel.insertItems(
+        reconciliation.id,
+        items,
+        trx
+      );
+      return reconciliation;
+    });
+
+    logger.info(`Supplier reconciliation ${created.id} created`, {
+      supplierId: upload.supplierId,
+      matched: summary.matched,
+      difference: summary.difference,
+    });
+
+    const reconciliation =
+      (await SupplierReconciliationModel.findById(created.id)) || created;
+    return { reconciliation, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  /**
+   * Lists reconciliations
+   * @param filters Optional supplier and status filters
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  static async list(
+    filters: ReconciliationFilters,
+    page: number,
+    limit: number
+  ): Promise<{ reconciliations: SupplierReconciliation[]; total: number }> {
+    return SupplierReconciliationModel.findAll(filters, page, limit);
+  }
+
+  /**
+   * Retrieves a reconciliation with a page of its items
+   * @param id The reconciliation ID
+   * @param filters Optional category and open-only item filters
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  static async get(
+    id: string,
+    filters: ReconciliationItemFilters,
+    page: number,
+    limit: number
+  ): Promise<{
+    reconciliation: SupplierReconciliation;
+    items: ReconciliationItem[];
+    total: number;
+  }> {
+    const reconciliation = await SupplierReconciliationModel.findById(id);
+    if (!reconciliation) {
+      throw new ApiError(404, 'Reconciliation not found');
+    }
+
+    const { items, total } = await SupplierReconciliationModel.findItems(
+      id,
+      filters,
+      page,
+      limit
+    );
+    return { reconciliation, items, total };
+  }
+
+  /**
+   * Records how a difference was resolved
+   * @param id The reconciliation ID
+   * @param itemId The item ID
+   * @param resolution accepted, disputed or adjusted
+   * @param note Free-text explanation
+   * @param resolvedBy The admin resolving it
+   * @returns The resolved item
+   */
+  static async resolveItem(
+    id: string,
+    itemId: string,
+    resolution: ReconciliationResolution,
+    note: string | undefined,
+    resolvedBy?: string
+  ): Promise<ReconciliationItem> {
+    if (!RESOLUTIONS.includes(resolution)) {
+      throw new ApiError(
+        400,
+        `Resolution must be one of: ${RESOLUTIONS.join(', ')}`
+      );
+    }
+
+    return db.transaction(async trx => {
+      await this.lockOpen(id, trx);
+
+      const item = await SupplierReconciliationModel.resolveItem(
+        id,
+        itemId,
+        resolution,
+        note,
+        resolvedBy,
+        trx
+      );
+      if (item) {
+        return item;
+      }
+
+      const existing = await SupplierReconciliationModel.findItem(
+        id,
+        itemId,
+        trx
+      );
+      if (!existing) {
+        throw new ApiError(404, 'Reconciliation item not found');
+      }
+      throw new ApiError(
+        409,
+        existing.category === 'matched'
+          ? 'Matched items need no resolution'
+          : 'Item is already resolved'
+      );
+    });
+  }
+
+  /**
+   * Closes a reconciliation once every difference has been resolved
+   * @param id The reconciliation ID
+   * @param closedBy The admin closing it
+   * @returns The closed reconciliation
+   */
+  static async close(
+    id: string,
+    closedBy?: string
+  ): Promise<SupplierReconciliation> {
+    await db.transaction(async trx => {
+      await this.lockOpen(id, trx);
+
+      const reconciliation = await SupplierReconciliationModel.findById(
+        id,
+        trx
+      );
+      if (reconciliation?.openItems) {
+        throw new ApiError(
+          409,
+          `${reconciliation.openItems} difference(s) are still unresolved`
+        );
+      }
+      await SupplierReconciliationModel.close(id, closedBy, trx);
+    });
+
+    return (await SupplierReconciliationModel.findById(
+      id
+    )) as SupplierReconciliation;
+  }
+
+  private static async lockOpen(
+    id: string,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const locked = await SupplierReconciliationModel.lock(id, trx);
+    if (!locked) {
+      throw new ApiError(404, 'Reconciliation not found');
+    }
+    if (locked.status === 'closed') {
+      throw new ApiError(409, 'Reconciliation is closed');
+    }
+  }
+
+  private static parsePeriod(
+    start: string,
+    end: string
+  ): { periodStart: Date; periodEnd: Date } {
+    const periodStart = new Date(start);
+    const periodEnd = new Date(end);
+    if (!start || !end || isNaN(+periodStart) || isNaN(+periodEnd)) {
+      throw new ApiError(400, 'periodStart and periodEnd must be valid dates');
+    }
+    // A date without a time covers the whole of that day
+    if (DATE_ONLY.test(end)) {
+      periodEnd.setUTCHours(23, 59, 59, 999);
+    }
+    if (periodStart > periodEnd) {
+      throw new ApiError(400, 'periodStart must not be after periodEnd');
+    }
+    return { periodStart, periodEnd };
+  }
+
+  private static parseReport(upload: SupplierReportUpload): {
+    lines: SupplierReportLine[];
+    errors: SupplierReportError[];
+    totalLines: number;
+  } {
+    const records =
+      upload.format === 'csv'
+        ? this.readCsv(upload.content)
+        : this.readJson(upload.content);
+    if (records.length > MAX_REPORT_LINES) {
+      throw new ApiError(
+        400,
+        `A report may contain at most ${MAX_REPORT_LINES} lines`
+      );
+    }
+
+    const lines: SupplierReportLine[] = [];
+    const errors: SupplierReportError[] = [];
+    for (const { line, raw } of records) {
+      const fields: Record<string, any> = {};
+      for (const [key, value] of Object.entries(raw)) {
+        fields[normalizeKey(key)] = value;
+      }
+      const pick = (keys: string[]) => {
+        const key = keys.find(
+          candidate =>
+            fields[candidate] !== undefined &&
+            fields[candidate] !== null &&
+            String(fields[candidate]).trim() !== ''
+        );
+        return key === undefined ? undefined : String(fields[key]).trim();
+      };
+
+      const reference = pick(REFERENCE_KEYS);
+      if (!reference || reference.length > 128) {
+        errors.push({ line, reason: 'Missing or malformed reference' });
+        continue;
+      }
+      const amountValue = pick(AMOUNT_KEYS);
+      const amount =
+        amountValue === undefined ? NaN : Number(amountValue.replace(/,/g, ''));
+      if (!Number.isFinite(amount) || amount < 0) {
+        errors.push({ line, reason: 'Missing or invalid amount' });
+        continue;
+      }
+
+      lines.push({
+        line,
+        reference,
+        amount,
+        status: pick(STATUS_KEYS)?.toLowerCase(),
+        raw,
+      });
+    }
+
+    return { lines, errors, totalLines: records.length };
+  }
+
+  private static readCsv(
+    content: string
+  ): { line: number; raw: Record<string, string> }[] {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.fields.map(field => field.trim());
+    const normalized = columns.map(normalizeKey);
+    if (!normalized.some(column => REFERENCE_KEYS.includes(column))) {
+      throw new ApiError(
+        400,
+        'CSV header must include a reference, external_id or idempotency_key column'
+      );
+    }
+
+    return rows.map(row => ({
+      line: row.line,
+      raw: Object.fromEntries(
+        columns.map((column, index) => [column, row.fields[index] ?? ''])
+      ),
+    }));
+  }
+
+  private static readJson(
+    content: string
+  ): { line: number; raw: Record<string, any> }[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new ApiError(400, 'Report is not valid JSON');
+    }
+
+    const entries = Array.isArray(parsed)
+      ? parsed
+      : parsed?.items || parsed?.transactions;
+    if (!Array.isArray(entries)) {
+      throw new ApiError(
+        400,
+        'JSON report must be an array or have an items or transactions array'
+      );
+    }
+
+    // Lines of a JSON report are numbered by position, starting at 1
+    return entries.map((entry, index) => ({
+      line: index + 1,
+      raw: entry && typeof entry === 'object' ? entry : {},
+    }));
+  }
+
+  private static matchLines(
+    lines: SupplierReportLine[],
+    candidates: ReconcilableTopup[],
+    settled: ReconcilableTopup[]
+  ): CreateReconciliationItemData[] {
+    const byReference = new Map<string, ReconcilableTopup>();
+    for (const topup of candidates) {
+      byReference.set(topup.id, topup);
+      byReference.set(topup.externalId, topup);
+      if (topup.idempotencyKey) {
+        byReference.set(topup.idempotencyKey, topup);
+      }
+    }
+
+    const items: CreateReconciliationItemData[] = [];
+    const seenReferences = new Set<string>();
+    const reportedTopups = new Set<string>();
+
+    for (const line of lines) {
+      const topup = byReference.get(line.reference);
+      const item: CreateReconciliationItemData = {
+        topupRequestId: topup?.id,
+        reference: line.reference,
+        lineNumber: line.line,
+        category: 'matched',
+        ourAmount: topup ? expectedAmount(topup) : undefined,
+        theirAmount: line.amount,
+        ourStatus: topup?.status,
+        theirStatus: line.status,
+        raw: line.raw,
+      };
+
+      // The same topup may be reported under more than one of its
+      // references; either way it was charged twice
+      if (
+        seenReferences.has(line.reference) ||
+        (topup && reportedTopups.has(topup.id))
+      ) {
+        items.push({ ...item, category: 'duplicate' });
+        continue;
+      }
+      seenReferences.add(line.reference);
+
+      if (!topup) {
+        items.push({ ...item, category: 'missing_ours' });
+        continue;
+      }
+      reportedTopups.add(topup.id);
+
+      const theirSuccess = !FAILED_REPORT_STATUSES.includes(line.status || '');
+      const ourSuccess = SETTLED_TOPUP_STATUSES.includes(topup.status);
+      if (theirSuccess !== ourSuccess) {
+        items.push({ ...item, category: 'status_mismatch' });
+      } else if (
+        ourSuccess &&
+        toKobo(item.ourAmount as number) !== toKobo(line.amount)
+      ) {
+        items.push({ ...item, category: 'amount_mismatch' });
+      } else {
+        items.push(item);
+      }
+    }
+
+    for (const topup of settled) {
+      if (!reportedTopups.has(topup.id)) {
+        items.push({
+          topupRequestId: topup.id,
+          reference: topup.externalId,
+          category: 'missing_theirs',
+          ourAmount: expectedAmount(topup),
+          ourStatus: topup.status,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private static summarize(
+    items: CreateReconciliationItemData[],
+    totalLines: number,
+    invalidLines: number,
+    candidates: ReconcilableTopup[],
+    settled: ReconcilableTopup[]
+  ): ReconciliationSummary {
+    const count = (category: string) =>
+      items.filter(item => item.category === category).length;
+
+    // What the supplier charged: every readable line not reported as failed
+    const theirKobo = items
+      .filter(
+        item =>
+          item.lineNumber !== undefined &&
+          !FAILED_REPORT_STATUSES.includes(item.theirStatus || '')
+      )
+      .reduce((sum, item) => sum + toKobo(item.theirAmount || 0), 0);
+
+    // What we expect to owe: successful topups in the period, plus those the
+    // report matched from outside it
+    const owed = new Map<string, ReconcilableTopup>();
+    for (const topup of [...settled, ...candidates]) {
+      if (SETTLED_TOPUP_STATUSES.includes(topup.status)) {
+        owed.set(topup.id, topup);
+      }
+    }
+    const ourKobo = [...owed.values()].reduce(
+      (sum, topup) => sum + toKobo(expectedAmount(topup)),
+      0
+    );
+
+    return {
+      totalLines,
+      invalidLines,
+      matched: count('matched'),
+      amountMismatch: count('amount_mismatch'),
+      statusMismatch: count('status_mismatch'),
+      duplicate: count('duplicate'),
+      missingOurs: count('missing_ours'),
+      missingTheirs: count('missing_theirs'),
+      theirTotal: theirKobo / 100,
+      ourTotal: ourKobo / 100,
+      difference: (theirKobo - ourKobo) / 100,
+    };
+  }
+}
+
+export default SupplierReconciliationService;
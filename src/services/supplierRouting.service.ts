@@ -0,0 +1,156 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+
+export interface SupplierRoute {
+  supplierId: string;
+  supplierSlug: string;
+  supplierName: string;
+  priorityInt: number;
+  supplierMappingId: string;
+  supplierProductCode: string;
+  supplierPrice: number;
+  leadTimeSeconds: number;
+  recentAttempts: number;
+  successRate: number | null; // null when there is not enough recent traffic
+  healthy: boolean;
+}
+
+// Window and thresholds used to judge a supplier's recent health
+const HEALTH_WINDOW_MINUTES = 60;
+const MIN_ATTEMPTS_FOR_HEALTH = 5;
+const UNHEALTHY_SUCCESS_RATE = 0.5;
+
+export class SupplierRoutingService {
+  /**
+   * Ranks every active supplier mapping for an operator product.
+   * Unhealthy suppliers go last; within each group lower `priority_int`
+   * wins, then the cheaper mapping, then the better recent success rate.
+   * @param operatorProductId The operator product being purchased
+   * @param trx Optional Knex transaction
+   * @returns Candidate routes, best first
+   */
+  static async rankRoutes(
+    operatorProductId: string,
+    trx?: Knex.Transaction
+  ): Promise<SupplierRoute[]> {
+    const connection = trx || db;
+    const rows = await connection('supplier_product_mapping as spm')
+      .join('suppliers as s', 'spm.supplier_id', 's.id')
+      .select(
+        's.id as supplierId',
+        's.slug as supplierSlug',
+        's.name as supplierName',
+        's.priority_int as priorityInt',
+        'spm.id as supplierMappingId',
+        'spm.supplier_product_code as supplierProductCode',
+        'spm.supplier_price as supplierPrice',
+        'spm.lead_time_seconds as leadTimeSeconds'
+      )
+      .where('spm.operator_product_id', operatorProductId)
+      .andWhere('spm.is_active', true)
+      .andWhere('s.is_active', true);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const health = await this.getSupplierHealth(
+      rows.map(row => row.supplierId),
+      trx
+    );
+
+    const routes: SupplierRoute[] = rows.map(row => {
+      const stats = health.get(row.supplierId) || { total: 0, failed: 0 };
+      const successRate =
+        stats.total >= MIN_ATTEMPTS_FOR_HEALTH
+          ? (stats.total - stats.failed) / stats.total
+          : null;
+      return {
+        supplierId: row.supplierId,
+        supplierSlug: row.supplierSlug,
+        supplierName: row.supplierName,
+        priorityInt: Number(row.priorityInt ?? 100),
+        supplierMappingId: row.supplierMappingId,
+        supplierProductCode: row.supplierProductCode,
+        supplierPrice: parseFloat(row.supplierPrice),
+        leadTimeSeconds: Number(row.leadTimeSeconds) || 30,
+        recentAttempts: stats.total,
+        successRate,
+        healthy: successRate === null || successRate >= UNHEALTHY_SUCCESS_RATE,
+      };
+    });
+
+    return this.rank(routes);
+  }
+
+  /**
+   * Returns the best route that does not use one of the excluded suppliers.
+   * @param operatorProductId The operator product being purchased
+   * @param excludeSupplierIds Suppliers already tried for this request
+   * @param trx Optional Knex transaction
+   */
+  static async nextRoute(
+    operatorProductId: string,
+    excludeSupplierIds: string[],
+    trx?: Knex.Transaction
+  ): Promise<SupplierRoute | null> {
+    const routes = await this.rankRoutes(operatorProductId, trx);
+    return (
+      routes.find(route => !excludeSupplierIds.includes(route.supplierId)) ||
+      null
+    );
+  }
+
+  /**
+   * Orders candidate routes. Kept separate from the query so the policy can
+   * be reasoned about (and tested) on its own.
+   */
+  static rank(routes: SupplierRoute[]): SupplierRoute[] {
+    return [...routes].sort((a, b) => {
+      if (a.healthy !== b.healthy) return a.healthy ? -1 : 1;
+      if (a.priorityInt !== b.priorityInt) return a.priorityInt - b.priorityInt;
+      if (a.supplierPrice !== b.supplierPrice) {
+        return a.supplierPrice - b.supplierPrice;
+      }
+      return (b.successRate ?? 1) - (a.successRate ?? 1);
+    });
+  }
+
+  /**
+   * Counts dispatch attempts and failures per supplier over the health window,
+   * based on the attempts the dispatcher records in `topup_responses`.
+   */
+  private static async getSupplierHealth(
+    supplierIds: string[],
+    trx?: Knex.Transaction
+  ): Promise<Map<string, { total: number; failed: number }>> {
+    const connection = trx || db;
+    const rows = await connection('topup_responses')
+      .select('supplier_id')
+      .count('* as total')
+      .select(
+        connection.raw(
+          "count(*) FILTER (WHERE response_payload->>'status' = 'failed') as failed"
+        )
+      )
+      .whereIn('supplier_id', supplierIds)
+      .whereRaw("response_payload->>'status' IS NOT NULL")
+      .where(
+        'created_at',
+        '>=',
+        connection.raw(`now() - interval '${HEALTH_WINDOW_MINUTES} minutes'`)
+      )
+      .groupBy('supplier_id');
+
+    const health = new Map<string, { total: number; failed: number }>();
+    rows.forEach((row: any) => {
+      health.set(row.supplier_id, {
+        total: Number(row.total),
+        failed: Number(row.failed),
+      });
+    });
+    return health;
+  }
+}
+
+export default SupplierRoutingService;
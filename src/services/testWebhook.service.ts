@@ -2,6 +2,7 @@ import knex from '../database/connection';
 import { TestWebhookRequest } from '../types/testWebhook.types';
 import { ApiError } from '../utils/ApiError';
 import { logger } from '../utils/logger.utils';
+import { LedgerService } from './ledger.service';
 import { NotificationService } from './notification.service';
 
 interface TestPaymentResult {
@@ -97,18 +98,30 @@ export class TestWebhookService {
         throw new ApiError(500, 'Wallet not found after creation');
       }
 
-      // Ensure balance is a proper number to prevent JSON parsing issues
-      const currentBalance =
-        typeof currentWallet.balance === 'string'
-          ? parseFloat(currentWallet.balance)
-          : Number(currentWallet.balance);
-
-      const newBalance = parseFloat((currentBalance + amount).toFixed(2));
-
-      await trx('wallets').where({ user_id: va.user_id }).update({
-        balance: newBalance,
-        updated_at: new Date(),
-      });
+      const journal = await LedgerService.post(
+        {
+          referenceType: 'incoming_payment',
+          referenceId: String(incoming_payment.id),
+          description: `${provider} test payment ${txRef}`,
+          lines: [
+            {
+              account: { type: 'provider_funding' },
+              direction: 'debit',
+              amount,
+            },
+            {
+              account: LedgerService.wallet(va.user_id),
+              direction: 'credit',
+              amount,
+            },
+          ],
+        },
+        trx
+      );
+      const newBalance =
+        journal.balances[
+          LedgerService.accountCode(LedgerService.wallet(va.user_id))
+        ];
 
       // Record transaction
       const transaction = await trx('transactions')
@@ -1,14 +1,30 @@
 import db from '../database/connection';
+import { SupplierModel } from '../models/Supplier';
 import { TopupRequestModel } from '../models/TopupRequest';
-import { TransactionModel } from '../models/Transaction';
+import { TopupRequestStatus } from '../types/topup.types';
+import { TopupReversalService } from './topupReversal.service';
+import { TransactionRewardsIntegration } from './transactionRewards.integration';
+
+// Statuses a vendor callback may still resolve
+const OPEN_STATUSES: TopupRequestStatus[] = [
+  'pending',
+  'processing',
+  'pending_confirmation',
+];
 
 export class TopupWebhookService {
   /**
-   * Process the simulated top-up webhook from the vendor.
+   * Process the simulated top-up webhook from the vendor. Only the supplier
+   * currently sending the top-up can resolve it; callbacks from suppliers it
+   * failed over from are recorded and otherwise ignored.
    * @param webhookData The data received from the webhook.
+   * @param supplierSlug The supplier sending the callback, if known.
    * @returns A result object indicating success or failure.
    */
-  static async processTopupWebhook(webhookData: any): Promise<{
+  static async processTopupWebhook(
+    webhookData: any,
+    supplierSlug?: string
+  ): Promise<{
     success: boolean;
     message: string;
     data?: any;
@@ -26,6 +42,12 @@ export class TopupWebhookService {
     }
 
     return db.transaction(async trx => {
+      // Lock the row so a dispatcher result for the same request waits for us
+      await trx('topup_requests')
+        .where({ id: customer_reference })
+        .forUpdate()
+        .first();
+
       const topupRequest = await TopupRequestModel.findById(
         customer_reference,
         trx
@@ -39,55 +61,69 @@ export class TopupWebhookService {
         };
       }
 
-      if (topupRequest.status !== 'pending') {
+      if (!OPEN_STATUSES.includes(topupRequest.status)) {
         return { success: true, message: 'Top-up request already processed' };
       }
 
+      const supplier = supplierSlug
+        ? await SupplierModel.findBySlug(supplierSlug, trx)
+        : null;
+      if (supplierSlug && !supplier) {
+        return {
+          success: false,
+          message: 'Supplier not found',
+          statusCode: 404,
+        };
+      }
+
       // Log the response
       await trx('topup_responses').insert({
         topup_request_id: customer_reference,
+        supplier_id: supplier?.id || null,
         response_payload: webhookData,
         response_message: transaction.memo,
       });
 
+      // A supplier the request failed over from cannot resolve it, and an
+      // unnamed one only while a single supplier has been tried
+      const fromCurrentSupplier = supplier
+        ? supplier.id === topupRequest.supplierId
+        : new Set(
+            (await TopupRequestModel.findHops(topupRequest.id, trx)).map(
+              hop => hop.supplierId
+            )
+          ).size <= 1;
+      if (!fromCurrentSupplier) {
+        return {
+          success: true,
+          message: 'Callback is not from the supplier sending the top-up',
+        };
+      }
+
       if (status === 'success') {
         await trx('topup_requests')
           .where({ id: customer_reference })
-          .update({ status: 'success' });
+          .update({ status: 'success', updated_at: trx.fn.now() });
 
         // Note: Cashback is already awarded in createTopupRequest immediately.
         // This webhook handler is kept as a fallback for cases where the topup
         // succeeds but was created before cashback implementation.
 
+        await TransactionRewardsIntegration.processReferralCommission(
+          topupRequest.id,
+          trx
+        );
+
         return { success: true, message: 'Top-up successful' };
       } else if (status === 'failed') {
         await trx('topup_requests')
           .where({ id: customer_reference })
-          .update({ status: 'failed' });
-
-        // Refund the user
-        const wallet = await trx('wallets')
-          .where({ user_id: topupRequest.userId })
-          .first();
-        if (!wallet) {
-          throw new Error('Wallet not found for user');
-        }
-
-        const newBalance = wallet.balance + topupRequest.amount;
-        await trx('wallets')
-          .where({ user_id: topupRequest.userId })
-          .update({ balance: newBalance });
-
-        await TransactionModel.create(
+          .update({ status: 'failed', updated_at: trx.fn.now() });
+
+        await TopupReversalService.reverse(
+          topupRequest.id,
           {
-            walletId: wallet.user_id,
-            userId: topupRequest.userId,
-            direction: 'credit',
-            amount: topupRequest.amount,
-            balanceAfter: newBalance,
-            method: 'reversal',
-            relatedType: 'topup_request',
-            relatedId: customer_reference,
+            reason: transaction.memo || 'Vendor reported the top-up as failed',
           },
           trx
         );
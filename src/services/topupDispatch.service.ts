@@ -0,0 +1,392 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import { LedgerModel } from '../models/Ledger';
+import { SupplierModel } from '../models/Supplier';
+import { TopupRequestModel } from '../models/TopupRequest';
+import {
+  CreateTopupResponseData,
+  DispatchableTopupRequest,
+  TopupRequestStatus,
+} from '../types/topup.types';
+import {
+  SupplierAdapter,
+  SupplierDispatchRequest,
+  SupplierDispatchResult,
+} from '../types/supplierAdapter.types';
+import { logger } from '../utils/logger.utils';
+import { LedgerService } from './ledger.service';
+import { SupplierAdapterRegistry } from './supplierAdapter.registry';
+import {
+  SupplierRoute,
+  SupplierRoutingService,
+} from './supplierRouting.service';
+import { TopupReversalService } from './topupReversal.service';
+import { TransactionRewardsIntegration } from './transactionRewards.integration';
+
+export interface DispatchSummary {
+  claimed: number;
+  success: number;
+  failed: number;
+  pendingConfirmation: number;
+  errored: number;
+}
+
+// Suppliers tried per dispatch before the request is failed and refunded
+const MAX_SUPPLIER_HOPS = 3;
+
+// Longest a single supplier call may take, whatever its mapping's lead time
+const MAX_SUPPLIER_TIMEOUT_SECONDS = 180;
+
+// A claim older than the lease is assumed to belong to a dispatcher that died
+// mid-send and is dispatched again under the same idempotency key. The lease
+// is renewed as each request starts and covers every hop timing out, plus a
+// minute for the database work around them.
+const DISPATCH_LEASE_MINUTES =
+  Math.ceil((MAX_SUPPLIER_HOPS * MAX_SUPPLIER_TIMEOUT_SECONDS) / 60) + 1;
+const MAX_DISPATCH_CLAIMS = 5;
+
+// Maps a supplier outcome to the status the request moves to
+const OUTCOME_STATUS: Record<
+  SupplierDispatchResult['status'],
+  TopupRequestStatus
+> = {
+  success: 'success',
+  failed: 'failed',
+  pending: 'pending_confirmation',
+};
+
+export class TopupDispatchService {
+  /**
+   * Claims a batch of pending topup requests and sends each one to its
+   * supplier. Safe to run from several workers at once.
+   * @param limit Maximum number of requests to dispatch in this batch
+   * @returns Counts per outcome
+   */
+  static async dispatchPending(limit: number = 10): Promise<DispatchSummary> {
+    const claimed = await TopupRequestModel.claimPendingForDispatch(
+      limit,
+      DISPATCH_LEASE_MINUTES,
+      MAX_DISPATCH_CLAIMS
+    );
+    const summary: DispatchSummary = {
+      claimed: claimed.length,
+      success: 0,
+      failed: 0,
+      pendingConfirmation: 0,
+      errored: 0,
+    };
+
+    for (const request of claimed) {
+      try {
+        const started = await TopupRequestModel.startDispatch(
+          request.id,
+          request.dispatchClaims
+        );
+        if (!started) {
+          logger.warn(
+            `Topup ${request.id} was taken over by another dispatcher before it was sent`
+          );
+          summary.errored++;
+          continue;
+        }
+        const status = await this.dispatch(request);
+        if (status === 'success') summary.success++;
+        else if (status === 'failed') summary.failed++;
+        else if (status === 'pending_confirmation')
+          summary.pendingConfirmation++;
+      } catch (error) {
+        // The claim is left to expire and the request is dispatched again
+        logger.error(`Failed to dispatch topup ${request.id}`, error);
+        summary.errored++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Sends a single claimed request to its supplier and records the attempt.
+   * When a supplier fails or times out, the request fails over to the next
+   * ranked supplier (up to MAX_SUPPLIER_HOPS) before it is refunded.
+   * @param request A request previously claimed for dispatch
+   * @returns The status the request was moved to
+   */
+  static async dispatch(
+    request: DispatchableTopupRequest
+  ): Promise<TopupRequestStatus> {
+    let current = request;
+    const triedSupplierIds = [request.supplierId];
+
+    for (let hop = 1; ; hop++) {
+      const result = await this.callSupplier(current);
+
+      if (result.status === 'failed' && hop < MAX_SUPPLIER_HOPS) {
+        const next = await SupplierRoutingService.nextRoute(
+          current.operatorProductId,
+          triedSupplierIds
+        );
+        if (next) {
+          const moved = await this.failOver(current, result, next);
+          if (!moved) {
+            return 'failed';
+          }
+          triedSupplierIds.push(next.supplierId);
+          current = {
+            ...current,
+            supplierId: next.supplierId,
+            supplierMappingId: next.supplierMappingId,
+            supplierProductCode: next.supplierProductCode,
+            leadTimeSeconds: next.leadTimeSeconds,
+            attemptCount: current.attemptCount + 1,
+          };
+          continue;
+        }
+      }
+
+      await this.applyResult(current, result);
+      return OUTCOME_STATUS[result.status];
+    }
+  }
+
+  private static async callSupplier(
+    request: DispatchableTopupRequest
+  ): Promise<SupplierDispatchResult> {
+    const supplier = await SupplierModel.findById(request.supplierId);
+    if (!supplier || !supplier.isActive) {
+      return {
+        status: 'failed',
+        responseCode: 'SUPPLIER_UNAVAILABLE',
+        responseMessage: 'Supplier is missing or inactive',
+      };
+    }
+
+    const adapter = SupplierAdapterRegistry.get(supplier.slug);
+    if (!adapter) {
+      return {
+        status: 'failed',
+        responseCode: 'NO_ADAPTER',
+        responseMessage: `No supplier adapter registered for slug "${supplier.slug}"`,
+      };
+    }
+
+    const dispatchRequest: SupplierDispatchRequest = {
+      reference: request.id,
+      idempotencyKey: request.idempotencyKey,
+      supplierProductCode: request.supplierProductCode,
+      recipientPhone: request.recipientPhone,
+      amount: request.amount,
+      type: request.type,
+      supplier,
+    };
+
+    try {
+      return await this.withTimeout(
+        adapter,
+        dispatchRequest,
+        Math.min(request.leadTimeSeconds, MAX_SUPPLIER_TIMEOUT_SECONDS) * 1000
+      );
+    } catch (error: any) {
+      logger.error(`Supplier dispatch error for topup ${request.id}`, {
+        supplier: supplier.slug,
+        error: error?.message,
+      });
+      return {
+        status: 'failed',
+        responseCode: error?.code === 'TIMEOUT' ? 'TIMEOUT' : 'ADAPTER_ERROR',
+        responseMessage: error?.message || 'Supplier call failed',
+      };
+    }
+  }
+
+  private static withTimeout(
+    adapter: SupplierAdapter,
+    dispatchRequest: SupplierDispatchRequest,
+    timeoutMs: number
+  ): Promise<SupplierDispatchResult> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error: any = new Error(
+          `Supplier did not respond within ${timeoutMs}ms`
+        );
+        error.code = 'TIMEOUT';
+        reject(error);
+      }, timeoutMs);
+    });
+
+    return Promise.race([adapter.dispatch(dispatchRequest), timeout]).finally(
+      () => clearTimeout(timer)
+    );
+  }
+
+  /**
+   * Records the failed attempt, points the request at the next supplier and
+   * moves what the ledger owes suppliers to the new route's price.
+   * @returns False if the request left `processing` (e.g. a vendor callback)
+   */
+  private static async failOver(
+    request: DispatchableTopupRequest,
+    result: SupplierDispatchResult,
+    next: SupplierRoute
+  ): Promise<boolean> {
+    const moved = await db.transaction(async trx => {
+      await TopupRequestModel.recordResponse(
+        this.buildResponse(request, result, true),
+        trx
+      );
+      const reassigned = await TopupRequestModel.reassignSupplier(
+        request.id,
+        next,
+        trx
+      );
+      if (reassigned) {
+        await this.repriceSupplierPayable(request.id, next.supplierPrice, trx);
+      }
+      return reassigned;
+    });
+
+    if (moved) {
+      logger.warn(
+        `Topup ${request.id} failing over from supplier ${request.supplierId} to ${next.supplierSlug}`,
+        { responseCode: result.responseCode }
+      );
+    }
+    return moved;
+  }
+
+  /**
+   * Posts the difference between the supplier payable booked for a request
+   * and the price of the supplier now sending it. It comes out of revenue,
+   * or out of the rewards account for a request bought with points.
+   */
+  private static async repriceSupplierPayable(
+    topupRequestId: string,
+    supplierPrice: number,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const journals = await LedgerModel.findJournalsByReference(
+      'topup_request',
+      topupRequestId,
+      trx
+    );
+    const entries = journals.flatMap(journal => journal.entries);
+    const netKobo = (type: 'supplier_payable' | 'rewards', side: string) =>
+      entries
+        .filter(
+          entry => entry.accountCode === LedgerService.accountCode({ type })
+        )
+        .reduce(
+          (sum, entry) =>
+            sum +
+            (entry.direction === side ? 1 : -1) *
+              Math.round(entry.amount * 100),
+          0
+        );
+
+    const payableKobo = netKobo('supplier_payable', 'credit');
+    const deltaKobo = Math.round(supplierPrice * 100) - payableKobo;
+    // Nothing to move if the purchase booked no payable
+    if (payableKobo === 0 || deltaKobo === 0) {
+      return;
+    }
+
+    const counterType = netKobo('rewards', 'debit') > 0 ? 'rewards' : 'revenue';
+    const amount = Math.abs(deltaKobo) / 100;
+    await LedgerService.post(
+      {
+        referenceType: 'topup_request',
+        referenceId: topupRequestId,
+        description: "Supplier payable moved to the failover route's price",
+        lines: [
+          {
+            account: { type: counterType },
+            direction: deltaKobo > 0 ? 'debit' : 'credit',
+            amount,
+          },
+          {
+            account: { type: 'supplier_payable' },
+            direction: deltaKobo > 0 ? 'credit' : 'debit',
+            amount,
+          },
+        ],
+      },
+      trx
+    );
+  }
+
+  /**
+   * Persists the attempt and moves the request out of `processing`. A vendor
+   * callback may have resolved the request meanwhile, so the status change is
+   * compare-and-set and the reversal only happens if we made the transition.
+   */
+  private static async applyResult(
+    request: DispatchableTopupRequest,
+    result: SupplierDispatchResult
+  ): Promise<void> {
+    const nextStatus = OUTCOME_STATUS[result.status];
+
+    await db.transaction(async trx => {
+      await TopupRequestModel.recordResponse(
+        this.buildResponse(request, result, false),
+        trx
+      );
+
+      const moved = await TopupRequestModel.updateStatus(
+        request.id,
+        nextStatus,
+        ['processing'],
+        trx
+      );
+
+      if (!moved) {
+        logger.warn(
+          `Topup ${request.id} was resolved before dispatch result was applied`
+        );
+        return;
+      }
+
+      if (nextStatus === 'failed') {
+        await TopupReversalService.reverse(
+          request.id,
+          {
+            reason: result.responseMessage || 'Supplier rejected the top-up',
+          },
+          trx
+        );
+      } else if (nextStatus === 'success') {
+        await TransactionRewardsIntegration.processReferralCommission(
+          request.id,
+          trx
+        );
+      }
+    });
+
+    logger.info(`Topup ${request.id} dispatched: ${nextStatus}`, {
+      supplierId: request.supplierId,
+      responseCode: result.responseCode,
+    });
+  }
+
+  private static buildResponse(
+    request: DispatchableTopupRequest,
+    result: SupplierDispatchResult,
+    failedOver: boolean
+  ): CreateTopupResponseData {
+    return {
+      topupRequestId: request.id,
+      supplierId: request.supplierId,
+      responseCode: result.responseCode,
+      responseMessage: result.responseMessage,
+      responsePayload: {
+        ...(result.payload || {}),
+        status: result.status,
+        supplierReference: result.supplierReference,
+        supplierMappingId: request.supplierMappingId,
+        attempt: request.attemptCount,
+        failedOver,
+      },
+    };
+  }
+}
+
+export default TopupDispatchService;
@@ -0,0 +1,414 @@
+import { Knex } from 'knex';
+import db from '../database/connection';
+import { CashbackModel } from '../models/Cashback';
+import { LedgerModel } from '../models/Ledger';
+import { OfferModel } from '../models/Offer';
+import { SupplierModel } from '../models/Supplier';
+import { TopupRequestModel } from '../models/TopupRequest';
+import { TopupReversalModel } from '../models/TopupReversal';
+import { TransactionModel } from '../models/Transaction';
+import { LedgerLine } from '../types/ledger.types';
+import { TopupRequestStatus } from '../types/topup.types';
+import {
+  ReverseTopupOptions,
+  TopupChargeSummary,
+  TopupReversalPlan,
+  TopupReversalResult,
+} from '../types/topupReversal.types';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+import { AuditRecorder } from './auditLog.service';
+import { LedgerService } from './ledger.service';
+import { RewardRedemptionService } from './rewardRedemption.service';
+import { SupplierAdapterRegistry } from './supplierAdapter.registry';
+
+// Only requests no supplier can still deliver are reversed. A pending
+// request is unclaimed: claiming it moves it to processing under a row lock.
+const REVERSIBLE_STATUSES: TopupRequestStatus[] = [
+  'pending',
+  'failed',
+  'cancelled',
+];
+
+const toKobo = (amount: number) => Math.round(amount * 100);
+const fromKobo = (kobo: number) => kobo / 100;
+
+export class TopupReversalService {
+  /**
+   * Gives back exactly what a top-up took from the user and takes back the
+   * cashback it earned them, then marks the request `reversed`. Amounts are
+   * read from the request's wallet transactions and cashback entries rather
+   * than its face value. Reversing twice returns the first reversal.
+   * @param topupRequestId The topup request to reverse
+   * @param options Why the request is reversed and who asked for it
+   * @param trx Optional Knex transaction (e.g. the one that failed the request)
+   * @returns The reversal and whether it had already been made
+   */
+  static async reverse(
+    topupRequestId: string,
+    options: ReverseTopupOptions,
+    trx?: Knex.Transaction
+  ): Promise<TopupReversalResult> {
+    if (!trx) {
+      return db.transaction(t => this.reverse(topupRequestId, options, t));
+    }
+
+    const request = await trx('topup_requests')
+      .select('id', 'user_id', 'status')
+      .where({ id: topupRequestId })
+      .forUpdate()
+      .first();
+    if (!request) {
+      throw new ApiError(404, 'Topup request not found');
+    }
+
+    const existing = await TopupReversalModel.findByTopupRequestId(
+      request.id,
+      trx
+    );
+    if (existing) {
+      return { reversal: existing, alreadyReversed: true };
+    }
+
+    if (!REVERSIBLE_STATUSES.includes(request.status)) {
+      throw new ApiError(
+        400,
+        `Topup request with status '${request.status}' cannot be reversed`
+      );
+    }
+
+    const charges = await this.readCharges(request.id, request.user_id, trx);
+    const plan = this.plan(charges);
+    const walletAccount = LedgerService.wallet(request.user_id);
+    const cashbackAccount = LedgerService.cashback(request.user_id);
+
+    const lines: LedgerLine[] = [
+      {
+        account: { type: 'supplier_payable' },
+        direction: 'debit',
+        amount: plan.supplierPayableReversed,
+      },
+      {
+        account: { type: 'revenue' },
+        direction: 'debit',
+        amount: plan.revenueReversed,
+      },
+      {
+        account: walletAccount,
+        direction: 'credit',
+        amount: plan.walletRefund,
+      },
+      {
+        account: cashbackAccount,
+        direction: 'credit',
+        amount: plan.cashbackRefund,
+      },
+      {
+        account: { type: 'rewards' },
+        direction: 'credit',
+        amount: plan.rewardsRefund,
+      },
+      {
+        account: cashbackAccount,
+        direction: 'debit',
+        amount: plan.cashbackClawback,
+      },
+      {
+        account: { type: 'revenue' },
+        direction: 'credit',
+        amount: plan.cashbackClawback + plan.clawbackFromWallet,
+      },
+    ];
+
+    // Nothing to move (e.g. a request that was never charged) still gets an
+    // audit row and the status change
+    const journal = lines.some(line => line.amount > 0)
+      ? await LedgerService.post(
+          {
+            referenceType: 'topup_request',
+            referenceId: request.id,
+            description: `Reversal: ${options.reason}`,
+            createdBy: options.initiatedBy,
+            lines,
+          },
+          trx
+        )
+      : null;
+
+    const refundTransaction =
+      journal && plan.walletRefund > 0
+        ? await TransactionModel.create(
+            {
+              walletId: request.user_id,
+              userId: request.user_id,
+              direction: 'credit',
+              amount: plan.walletRefund,
+              balanceAfter:
+                journal.balances[LedgerService.accountCode(walletAccount)],
+              method: 'reversal',
+              relatedType: 'topup_request',
+              relatedId: request.id,
+              metadata: {
+                reason: options.reason,
+                clawbackFromWallet: plan.clawbackFromWallet,
+              },
+            },
+            trx
+          )
+        : null;
+
+    await CashbackModel.recordReversal(
+      request.user_id,
+      plan.cashbackRefund,
+      plan.cashbackClawback,
+      request.id,
+      trx
+    );
+
+    // A topup bought with points gives the points back
+    await RewardRedemptionService.failForTopup(request.id, options.reason, trx);
+
+    // An offer redeemed on it no longer counts toward its limits
+    await OfferModel.releaseRedemptionsForTopup(request.id, trx);
+
+    await trx('topup_requests')
+      .where({ id: request.id })
+      .update({ status: 'reversed', updated_at: trx.fn.now() });
+
+    const reversal = await TopupReversalModel.create(
+      {
+        topupRequestId: request.id,
+        userId: request.user_id,
+        walletRefund: plan.walletRefund,
+        cashbackRefund: plan.cashbackRefund,
+        cashbackClawback: plan.cashbackClawback,
+        clawbackFromWallet: plan.clawbackFromWallet,
+        unrecoveredCashback: plan.unrecoveredCashback,
+        journalId: journal?.id,
+        transactionId: refundTransaction?.id,
+        reason: options.reason,
+        initiatedBy: options.initiatedBy,
+      },
+      trx
+    );
+
+    if (plan.unrecoveredCashback > 0) {
+      logger.warn(
+        `Topup ${request.id} reversed with ₦${plan.unrecoveredCashback} of spent cashback unrecovered`
+      );
+    }
+    logger.info(`Topup ${request.id} reversed`, {
+      walletRefund: plan.walletRefund,
+      cashbackRefund: plan.cashbackRefund,
+      cashbackClawback: plan.cashbackClawback,
+    });
+
+    return { reversal, alreadyReversed: false };
+  }
+
+  /**
+   * Reverses a request on an admin's instruction. A request awaiting supplier
+   * confirmation is only reversed once the supplier confirms it failed, since
+   * it may still deliver; everything else goes through `reverse`.
+   * @param topupRequestId The topup request to reverse
+   * @param options Why the request is reversed and who asked for it
+   * @param audit Records the reversal in its transaction
+   * @returns The reversal and whether it had already been made
+   */
+  static async reverseByAdmin(
+    topupRequestId: string,
+    options: ReverseTopupOptions,
+    audit?: AuditRecorder
+  ): Promise<TopupReversalResult> {
+    const request = await TopupRequestModel.findById(topupRequestId);
+    if (!request) {
+      throw new ApiError(404, 'Topup request not found');
+    }
+    if (request.status !== 'pending_confirmation') {
+      return db.transaction(trx =>
+        this.reverseAndAudit(topupRequestId, options, trx, audit)
+      );
+    }
+
+    const supplier = request.supplierId
+      ? await SupplierModel.findById(request.supplierId)
+      : null;
+    const adapter = supplier && SupplierAdapterRegistry.get(supplier.slug);
+    if (!supplier || !adapter?.queryStatus) {
+      throw new ApiError(
+        409,
+        'The supplier cannot be asked for the status of this top-up; wait for its confirmation'
+      );
+    }
+
+    const result = await adapter.queryStatus({
+      reference: request.id,
+      idempotencyKey: request.idempotencyKey,
+      recipientPhone: request.recipientPhone,
+      supplier,
+    });
+    if (result.status !== 'failed') {
+      throw new ApiError(
+        409,
+        result.status === 'success'
+          ? 'The supplier reports this top-up as delivered'
+          : 'The supplier has not confirmed that this top-up failed'
+      );
+    }
+
+    return db.transaction(async trx => {
+      await TopupRequestModel.recordResponse(
+        {
+          topupRequestId: request.id,
+          supplierId: supplier.id,
+          responseCode: result.responseCode,
+          responseMessage: result.responseMessage,
+          responsePayload: { ...(result.payload || {}), statusQuery: true },
+        },
+        trx
+      );
+      const moved = await TopupRequestModel.updateStatus(
+        request.id,
+        'failed',
+        ['pending_confirmation'],
+        trx
+      );
+      if (!moved) {
+        throw new ApiError(409, 'Topup request changed while being reversed');
+      }
+      return this.reverseAndAudit(request.id, options, trx, audit);
+    });
+  }
+
+  // Reverses within trx and records a new reversal in the same transaction
+  private static async reverseAndAudit(
+    topupRequestId: string,
+    options: ReverseTopupOptions,
+    trx: Knex.Transaction,
+    audit?: AuditRecorder
+  ): Promise<TopupReversalResult> {
+    const result = await this.reverse(topupRequestId, options, trx);
+    if (!result.alreadyReversed) {
+      await audit?.(
+        {
+          action: 'topup.reverse',
+          entityType: 'topup_request',
+          entityId: topupRequestId,
+          after: { reason: options.reason, reversal: result.reversal },
+        },
+        trx
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Works out what a reversal moves. The wallet and redeemed cashback are
+   * returned in full; earned cashback is clawed back from the cashback
+   * balance, then from the wallet refund, and anything left is absorbed.
+   * What the rewards account paid for a points redemption goes back to it.
+   * The refund is charged to the supplier payable the purchase created and
+   * the rest to revenue.
+   * @param charges What the request took and granted
+   * @returns The amounts to post
+   */
+  static plan(charges: TopupChargeSummary): TopupReversalPlan {
+    const walletKobo = Math.max(
+      toKobo(charges.walletDebited) - toKobo(charges.walletRefunded),
+      0
+    );
+    const cashbackRefundKobo = toKobo(charges.cashbackRedeemed);
+    const earnedKobo = toKobo(charges.cashbackEarned);
+
+    const clawbackKobo = Math.min(
+      earnedKobo,
+      Math.max(toKobo(charges.cashbackAvailable), 0) + cashbackRefundKobo
+    );
+    const fromWalletKobo = Math.min(earnedKobo - clawbackKobo, walletKobo);
+    const unrecoveredKobo = earnedKobo - clawbackKobo - fromWalletKobo;
+
+    const rewardsKobo = Math.max(toKobo(charges.rewardsCharged ?? 0), 0);
+    const refundKobo = walletKobo + cashbackRefundKobo + rewardsKobo;
+    const payableKobo = Math.min(
+      Math.max(toKobo(charges.supplierPayable), 0),
+      refundKobo
+    );
+
+    return {
+      walletRefund: fromKobo(walletKobo - fromWalletKobo),
+      cashbackRefund: fromKobo(cashbackRefundKobo),
+      cashbackClawback: fromKobo(clawbackKobo),
+      clawbackFromWallet: fromKobo(fromWalletKobo),
+      unrecoveredCashback: fromKobo(unrecoveredKobo),
+      rewardsRefund: fromKobo(rewardsKobo),
+      supplierPayableReversed: fromKobo(payableKobo),
+      revenueReversed: fromKobo(refundKobo - payableKobo),
+    };
+  }
+
+  private static async readCharges(
+    topupRequestId: string,
+    userId: string,
+    trx: Knex.Transaction
+  ): Promise<TopupChargeSummary> {
+    const wallet = await trx('transactions')
+      .select(
+        trx.raw(
+          "COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) as debited"
+        ),
+        trx.raw(
+          "COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) as refunded"
+        )
+      )
+      .where({
+        user_id: userId,
+        related_type: 'topup_request',
+        related_id: topupRequestId,
+      })
+      .first();
+
+    const cashbackEntries = await trx('cashback_transactions')
+      .select('type')
+      .sum('amount as amount')
+      .where({ user_id: userId, topup_request_id: topupRequestId })
+      .whereIn('type', ['earned', 'redeemed'])
+      .groupBy('type');
+    const cashbackTotal = (type: string) =>
+      parseFloat(
+        cashbackEntries.find(entry => entry.type === type)?.amount || '0'
+      );
+
+    const cashback = await trx('cashback')
+      .select('available_balance')
+      .where({ user_id: userId })
+      .forUpdate()
+      .first();
+
+    const journals = await LedgerModel.findJournalsByReference(
+      'topup_request',
+      topupRequestId,
+      trx
+    );
+    const entries = journals.flatMap(journal => journal.entries);
+    const net = (accountCode: string, side: 'debit' | 'credit') =>
+      entries
+        .filter(entry => entry.accountCode === accountCode)
+        .reduce(
+          (sum, entry) =>
+            sum + (entry.direction === side ? entry.amount : -entry.amount),
+          0
+        );
+
+    return {
+      walletDebited: parseFloat(wallet?.debited ?? 0),
+      walletRefunded: parseFloat(wallet?.refunded ?? 0),
+      cashbackRedeemed: cashbackTotal('redeemed'),
+      cashbackEarned: cashbackTotal('earned'),
+      cashbackAvailable: parseFloat(cashback?.available_balance ?? 0),
+      supplierPayable: net('supplier_payable', 'credit'),
+      rewardsCharged: net('rewards', 'debit'),
+    };
+  }
+}
+
+export default TopupReversalService;
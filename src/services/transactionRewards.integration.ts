@@ -1,11 +1,21 @@
 /**
  * Transaction Rewards Integration Service
  * Handles integration between transaction processing and rewards system
- * Automatically awards points when transactions are successful
+ * Automatically awards points when transactions are successful, and pays
+ * referrers their commission on successful referee topups
  */
 
+import { Knex } from 'knex';
 import db from '../database/connection';
+import { CashbackModel } from '../models/Cashback';
+import { LedgerModel } from '../models/Ledger';
+import {
+  ReferralCommission,
+  ReferralCommissionLevelModel,
+  ReferralCommissionModel,
+} from '../models/ReferralCommission';
 import { logger } from '../utils/logger.utils';
+import { LedgerService } from './ledger.service';
 import { RewardsService } from './rewards.service';
 
 export interface TransactionRewardEvent {
@@ -27,6 +37,15 @@ export interface RewardConfiguration {
   autoAwardBadges: boolean;
 }
 
+// Referrals that earn commission: live, and not held for fraud review
+const COMMISSION_REFERRAL_STATUSES = ['active', 'completed'];
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
 const DEFAULT_CONFIG: RewardConfiguration = {
   creditPointsPerNaira: 10,
   minTransactionAmount: 100,
@@ -177,6 +196,178 @@ export class TransactionRewardsIntegration {
     }
   }
 
+  /**
+   * Pays referral commission on a successful topup: each active commission
+   * level earns its percentage of the topup margin for its referrer (the
+   * referee's referrer at level 1, theirs at level 2), credited to cashback,
+   * while the referee is within the level's duration and under its cap.
+   * Runs in a savepoint, so a failure is logged and never undoes the topup.
+   *
+   * @param topupRequestId - The topup that succeeded
+   * @param trx - Transaction the topup was marked successful in
+   * @returns The commissions paid
+   */
+  static async processReferralCommission(
+    topupRequestId: string,
+    trx: Knex.Transaction
+  ): Promise<ReferralCommission[]> {
+    try {
+      return await trx.transaction(savepoint =>
+        this.payReferralCommission(topupRequestId, savepoint)
+      );
+    } catch (error) {
+      logger.error(
+        `Error paying referral commission for topup ${topupRequestId}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  private static async payReferralCommission(
+    topupRequestId: string,
+    trx: Knex.Transaction
+  ): Promise<ReferralCommission[]> {
+    const levels = await ReferralCommissionLevelModel.findActive(trx);
+    if (levels.length === 0) {
+      return [];
+    }
+
+    const request = await trx('topup_requests')
+      .select('id', 'user_id')
+      .where({ id: topupRequestId })
+      .first();
+    if (!request) {
+      return [];
+    }
+
+    // Locking the referee's referral keeps their commissions under the cap
+    // when several of their topups succeed at once
+    const referral = await this.findCommissionReferral(
+      request.user_id,
+      trx
+    ).forUpdate();
+    if (!referral) {
+      return [];
+    }
+    const referrers = [referral.referrer_user_id];
+    const upline = await this.findCommissionReferral(
+      referral.referrer_user_id,
+      trx
+    );
+    if (upline) {
+      referrers.push(upline.referrer_user_id);
+    }
+
+    const marginKobo = await this.topupMarginKobo(topupRequestId, trx);
+    if (marginKobo <= 0) {
+      return [];
+    }
+
+    const paid: ReferralCommission[] = [];
+    for (const level of levels) {
+      const referrerId = referrers[level.level - 1];
+      if (
+        !referrerId ||
+        addMonths(new Date(referral.created_at), level.durationMonths) <=
+          new Date()
+      ) {
+        continue;
+      }
+
+      let amountKobo = Math.floor((marginKobo * level.percentage) / 100);
+      if (level.capPerReferee !== null) {
+        const earned = await ReferralCommissionModel.getEarned(
+          referrerId,
+          request.user_id,
+          level.level,
+          trx
+        );
+        amountKobo = Math.min(
+          amountKobo,
+          Math.round(level.capPerReferee * 100) - Math.round(earned * 100)
+        );
+      }
+      if (amountKobo <= 0) {
+        continue;
+      }
+
+      const commission = await ReferralCommissionModel.create(
+        {
+          referrerUserId: referrerId,
+          refereeUserId: request.user_id,
+          level: level.level,
+          topupRequestId,
+          margin: marginKobo / 100,
+          percentage: level.percentage,
+          amount: amountKobo / 100,
+        },
+        trx
+      );
+      if (!commission) {
+        continue; // Already paid for this topup
+      }
+
+      await CashbackModel.addCashback(
+        referrerId,
+        commission.amount,
+        `Level ${level.level} referral commission on a referee topup`,
+        topupRequestId,
+        trx
+      );
+      paid.push(commission);
+    }
+
+    if (paid.length > 0) {
+      logger.info(`Paid referral commission on topup ${topupRequestId}`, {
+        commissions: paid.map(c => ({
+          referrerUserId: c.referrerUserId,
+          level: c.level,
+          amount: c.amount,
+        })),
+      });
+    }
+    return paid;
+  }
+
+  // The referral that brought a user in, if it still earns commission
+  private static findCommissionReferral(
+    referredUserId: string,
+    trx: Knex.Transaction
+  ) {
+    return trx('referrals')
+      .where({ referred_user_id: referredUserId })
+      .whereIn('status', COMMISSION_REFERRAL_STATUSES)
+      .where(query =>
+        query.whereNull('review_status').orWhere('review_status', 'approved')
+      )
+      .first();
+  }
+
+  // What the platform kept on a topup: its commission less any offer
+  // discount and the cashback the buyer earned
+  private static async topupMarginKobo(
+    topupRequestId: string,
+    trx: Knex.Transaction
+  ): Promise<number> {
+    const revenue = LedgerService.accountCode({ type: 'revenue' });
+    const journals = await LedgerModel.findJournalsByReference(
+      'topup_request',
+      topupRequestId,
+      trx
+    );
+    return journals
+      .flatMap(journal => journal.entries)
+      .filter(entry => entry.accountCode === revenue)
+      .reduce(
+        (sum, entry) =>
+          sum +
+          (entry.direction === 'credit' ? 1 : -1) *
+            Math.round(entry.amount * 100),
+        0
+      );
+  }
+
   /**
    * Get current reward configuration
    * @returns Current configuration
@@ -1,5 +1,7 @@
+import { Knex } from 'knex';
 import db from '../database/connection';
 import { CashbackModel } from '../models/Cashback';
+import { OperatorModel } from '../models/Operator';
 import { RecentlyUsedNumberModel } from '../models/RecentlyUsedNumber';
 import { TopupRequestModel } from '../models/TopupRequest';
 import { TransactionModel } from '../models/Transaction';
@@ -18,7 +20,12 @@ import { ApiError } from '../utils/ApiError';
 import { generateSecureString } from '../utils/crypto';
 import { logger } from '../utils/logger.utils';
 import { comparePassword, hashPassword } from '../utils/security.utils';
+import { LedgerService } from './ledger.service';
 import { NotificationService } from './notification.service';
+import { OfferService } from './offer.service';
+import { OperatorDetectionService } from './operatorDetection.service';
+import { PricingService } from './pricing.service';
+import { SupplierRoutingService } from './supplierRouting.service';
 
 export class UserService {
   /**
@@ -183,6 +190,32 @@ export class UserService {
     return transaction;
   }
 
+  /**
+   * Checks a user's transaction PIN before a money movement.
+   * @param userId - The ID of the user.
+   * @param pin - The PIN supplied with the request.
+   * @param trx - Optional Knex transaction.
+   * @throws ApiError 400 if no PIN is set, 401 if it does not match.
+   */
+  static async verifyTransactionPin(
+    userId: string,
+    pin: number | string,
+    trx?: Knex.Transaction
+  ): Promise<void> {
+    const connection = trx || db;
+    const userRow = await connection('users')
+      .where({ id: userId })
+      .select('pin')
+      .first();
+    if (!userRow || !userRow.pin) {
+      throw new ApiError(400, 'Transaction PIN not set');
+    }
+    const isPinValid = await comparePassword(String(pin), userRow.pin);
+    if (!isPinValid) {
+      throw new ApiError(401, 'Invalid transaction PIN');
+    }
+  }
+
   /**
    * Retrieves a user's purchase history (topup requests).
    * @param userId - The ID of the user.
@@ -204,28 +237,23 @@ export class UserService {
     pin: number,
     supplierSlug?: string,
     supplierMappingId?: string,
-    useCashback: boolean = false
+    useCashback: boolean = false,
+    offer?: string
   ): Promise<TopupRequest> {
     let topup_type = productCode.includes('DATA') ? 'data' : 'airtime';
     let idempotencyKey = generateSecureString(15, userId);
     return db.transaction(async trx => {
       // 0. Compare user pin with the supplied pin
-      const userRow = await trx('users')
-        .where({ id: userId })
-        .select('pin')
+      await this.verifyTransactionPin(userId, pin, trx);
+      // 1. Get and lock the user's wallet so concurrent purchases serialise
+      const wallet = await trx('wallets')
+        .where({ user_id: userId })
+        .forUpdate()
         .first();
-      if (!userRow || !userRow.pin) {
-        throw new ApiError(400, 'Transaction PIN not set');
-      }
-      const isPinValid = await comparePassword(String(pin), userRow.pin);
-      if (!isPinValid) {
-        throw new ApiError(401, 'Invalid transaction PIN');
-      }
-      // 1. Get user's wallet
-      const wallet = await trx('wallets').where({ user_id: userId }).first();
       if (!wallet) {
         throw new ApiError(404, 'Wallet not found');
       }
+      const walletBalance = parseFloat(wallet.balance);
 
       // 2. Try to find the operator product by canonical product_code and amount
       const operatorProduct = await trx('operator_products')
@@ -235,12 +263,18 @@ export class UserService {
         throw new ApiError(404, 'Operator product not found');
       }
 
-      // 3. Resolve supplier/mapping in order of preference:
-      // 1) supplierMappingId (explicit mapping)
-      // 2) supplierSlug (frontend provided)
-      // 3) operatorProduct.slug (product default)
-      // 4) fallback to any active supplier
+      // The recipient must be on the product's network, or the supplier
+      // fails the topup
+      const recipientOperator =
+        await OperatorDetectionService.assertRecipientOperator(
+          recipientPhone,
+          operatorProduct.operator_id,
+          trx
+        );
 
+      // 3. Resolve supplier/mapping. An explicit mapping id or supplier slug
+      // pins the first hop; otherwise the routing layer picks the best ranked
+      // supplier. The dispatcher fails over to the next ranked one either way.
       let supplier: any | undefined;
       let supplierProductMapping: any | undefined;
 
@@ -286,32 +320,17 @@ export class UserService {
             'Supplier product mapping not found for provided supplier slug'
           );
         }
-      } else if (operatorProduct.slug) {
-        supplier = await trx('suppliers')
-          .where({ slug: operatorProduct.slug, is_active: true })
-          .first();
-        if (supplier) {
-          supplierProductMapping = await trx('supplier_product_mapping')
-            .where({
-              operator_product_id: operatorProduct.id,
-              supplier_id: supplier.id,
-              is_active: true,
-            })
-            .first();
-        }
-      }
-
-      if (!supplier || !supplierProductMapping) {
-        // Fallback: pick any active supplier and mapping
-        supplier = await trx('suppliers').where({ is_active: true }).first();
-        if (supplier) {
-          supplierProductMapping = await trx('supplier_product_mapping')
-            .where({
-              operator_product_id: operatorProduct.id,
-              supplier_id: supplier.id,
-              is_active: true,
-            })
-            .first();
+      } else {
+        const [bestRoute] = await SupplierRoutingService.rankRoutes(
+          operatorProduct.id,
+          trx
+        );
+        if (bestRoute) {
+          supplier = { id: bestRoute.supplierId, slug: bestRoute.supplierSlug };
+          supplierProductMapping = {
+            id: bestRoute.supplierMappingId,
+            supplier_price: bestRoute.supplierPrice,
+          };
         }
       }
 
@@ -322,26 +341,57 @@ export class UserService {
         );
       }
 
-      // 4. Calculate actual cost to deduct: supplier_price + 5 naira commission
-      const actualCost =
-        parseFloat(String(supplierProductMapping.supplier_price)) + 5;
+      // 4. Price the sale from the commission rules for this buyer
+      const buyer = await trx('users')
+        .select('role')
+        .where({ id: userId })
+        .first();
+      const quote = await PricingService.quote(
+        {
+          operatorId: operatorProduct.operator_id,
+          operatorProductId: operatorProduct.id,
+          supplierId: supplier.id,
+          supplierPrice: parseFloat(
+            String(supplierProductMapping.supplier_price)
+          ),
+          role: buyer?.role,
+          userId,
+        },
+        trx
+      );
+      const supplierPrice = quote.supplierPrice;
+
+      // 5. Apply the offer, if one was given, to the quoted price
+      const checkout = offer
+        ? await OfferService.applyAtCheckout(
+            {
+              offer,
+              userId,
+              operatorProductId: operatorProduct.id,
+              supplierMappingId: supplierProductMapping.id,
+              price: quote.price,
+            },
+            trx
+          )
+        : undefined;
+      const actualCost = checkout ? checkout.pricePaid : quote.price;
 
-      // 5. Check for sufficient total balance (wallet + cashback if enabled)
+      // 6. Check for sufficient total balance (wallet + cashback if enabled)
       let cashbackBalance = 0;
       if (useCashback) {
         const cashbackRecord = await CashbackModel.findByUserId(userId, trx);
         cashbackBalance = cashbackRecord?.availableBalance || 0;
       }
 
-      const totalAvailable = wallet.balance + cashbackBalance;
+      const totalAvailable = walletBalance + cashbackBalance;
       if (totalAvailable < actualCost) {
         throw new ApiError(
           402,
-          `Insufficient balance. Cost: ${actualCost}, Wallet: ${wallet.balance}, Cashback: ${cashbackBalance}`
+          `Insufficient balance. Cost: ${actualCost}, Wallet: ${walletBalance}, Cashback: ${cashbackBalance}`
         );
       }
 
-      // 6. Create a new top-up request
+      // 7. Create a new top-up request
       const topupRequestData: Omit<
         TopupRequest,
         'id' | 'createdAt' | 'updatedAt' | 'externalId'
@@ -354,7 +404,9 @@ export class UserService {
         operatorProductId: operatorProduct.id,
         supplierId: supplier.id,
         supplierMappingId: supplierProductMapping.id,
-        cost: supplierProductMapping.supplier_price + 5,
+        cost: actualCost,
+        offerId: checkout?.offerId,
+        discountAmount: checkout?.discountAmount,
         type: topup_type,
         attemptCount: 0,
         idempotencyKey: idempotencyKey,
@@ -365,7 +417,17 @@ export class UserService {
         trx
       );
 
-      // 7. Calculate wallet and cashback debit amounts
+      if (checkout) {
+        await OfferService.recordCheckoutRedemption(
+          checkout,
+          userId,
+          newTopupRequest.id,
+          supplier.id,
+          trx
+        );
+      }
+
+      // 8. Calculate wallet and cashback debit amounts
       let walletDebit = 0;
       let cashbackDebit = 0;
 
@@ -386,16 +448,55 @@ export class UserService {
         cashbackDebit = 0;
       }
 
-      // 8. Debit the user's wallet
-      const newWalletBalance = wallet.balance - walletDebit;
-      await trx('wallets')
-        .where({ user_id: userId })
-        .update({ balance: newWalletBalance });
-
-      // 9. Create a debit transaction for wallet
-      if (!wallet) {
-        throw new Error('Wallet not found');
+      // 9. Redeem cashback first; it is parked in suspense until the
+      // purchase below is posted against it
+      if (cashbackDebit > 0) {
+        await CashbackModel.redeemCashback(
+          userId,
+          cashbackDebit,
+          `Cashback used for ${operatorProduct.product_code} - Cost: ${actualCost}`,
+          newTopupRequest.id,
+          trx
+        );
       }
+
+      // 10. Post the purchase: the supplier is owed its price and the
+      // commission, less any offer discount, is revenue
+      const marginKobo =
+        Math.round(actualCost * 100) - Math.round(supplierPrice * 100);
+      const walletAccount = LedgerService.wallet(userId);
+      const journal = await LedgerService.post(
+        {
+          referenceType: 'topup_request',
+          referenceId: newTopupRequest.id,
+          description: `Topup ${operatorProduct.product_code} for ${recipientPhone}`,
+          createdBy: userId,
+          lines: [
+            { account: walletAccount, direction: 'debit', amount: walletDebit },
+            {
+              account: { type: 'suspense' },
+              direction: 'debit',
+              amount: cashbackDebit,
+            },
+            {
+              account: { type: 'supplier_payable' },
+              direction: 'credit',
+              amount: supplierPrice,
+            },
+            {
+              account: { type: 'revenue' },
+              direction: marginKobo >= 0 ? 'credit' : 'debit',
+              amount: Math.abs(marginKobo) / 100,
+            },
+          ],
+        },
+        trx
+      );
+      const newWalletBalance =
+        journal.balances[LedgerService.accountCode(walletAccount)] ??
+        walletBalance;
+
+      // 11. Create a debit transaction for wallet
       const transaction = await TransactionModel.create(
         {
           walletId: wallet.user_id,
@@ -431,18 +532,7 @@ export class UserService {
         // Alert failure won't block the transaction
       }
 
-      // 10. Handle cashback debit if needed
-      if (cashbackDebit > 0) {
-        await CashbackModel.redeemCashback(
-          userId,
-          cashbackDebit,
-          `Cashback used for ${operatorProduct.product_code} - Cost: ${actualCost}`,
-          newTopupRequest.id,
-          trx
-        );
-      }
-
-      // 11. Award cashback immediately if product has cashback enabled
+      // 12. Award cashback immediately if product has cashback enabled
       if (operatorProduct.has_cashback && operatorProduct.cashback_percentage) {
         const cashbackEarned =
           (amount * operatorProduct.cashback_percentage) / 100;
@@ -458,11 +548,15 @@ export class UserService {
         }
       }
 
-      // 12. Record the recently used number
+      // 13. Record the recently used number against its network, taken
+      // from the product when the prefix is unknown
+      const productOperator = recipientOperator
+        ? null
+        : await OperatorModel.findById(operatorProduct.operator_id, trx);
       await RecentlyUsedNumberModel.recordUsage(
         userId,
         recipientPhone,
-        undefined,
+        recipientOperator?.operatorCode ?? productOperator?.code,
         trx
       );
 
@@ -0,0 +1,343 @@
+import { Knex } from 'knex';
+import { config } from '../config/env';
+import db from '../database/connection';
+import { AdminModel } from '../models/Admin';
+import { UserModel } from '../models/User';
+import {
+  WalletAdjustmentDirection,
+  WalletAdjustmentRequest,
+  WalletAdjustmentRequestModel,
+  WalletAdjustmentStatus,
+} from '../models/WalletAdjustmentRequest';
+import { ApiError } from '../utils/ApiError';
+import { logger } from '../utils/logger.utils';
+import { AuditRecorder } from './auditLog.service';
+import { NotificationService } from './notification.service';
+
+export type WalletAdjustmentOutcome =
+  | { status: 'applied'; newBalance: number }
+  | { status: 'pending'; request: WalletAdjustmentRequest };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// =================================================================
+// Wallet Adjustment Service
+// =================================================================
+
+export class WalletAdjustmentService {
+  /**
+   * Credits or debits a wallet on an admin's instruction. Applied at once
+   * while the admin's adjustments to the wallet over the last 24 hours,
+   * this one included, stay within the approval threshold; otherwise it
+   * waits for a second admin to approve it.
+   * @param userId - The wallet owner
+   * @param direction - credit or debit
+   * @param amount - The amount
+   * @param requestedBy - The admin asking
+   * @param reason - Why; required when approval is needed
+   * @param audit - Records an applied adjustment in its transaction
+   * @returns The new balance, or the pending request
+   */
+  static async adjust(
+    userId: string,
+    direction: WalletAdjustmentDirection,
+    amount: number,
+    requestedBy: string,
+    reason?: string,
+    audit?: AuditRecorder
+  ): Promise<WalletAdjustmentOutcome> {
+    const { approvalThreshold, expiryHours } = config.walletAdjustments;
+    const newBalance = await this.applyWithinThreshold(
+      userId,
+      direction,
+      amount,
+      requestedBy,
+      reason,
+      audit
+    );
+    if (newBalance !== null) {
+      return { status: 'applied', newBalance };
+    }
+
+    if (!reason || !reason.trim()) {
+      throw new ApiError(
+        400,
+        `A reason is required for adjustments to this wallet above ${approvalThreshold} in 24 hours`
+      );
+    }
+    const user = await AdminModel.getUserById(userId);
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    const request = await WalletAdjustmentRequestModel.create({
+      userId,
+      direction,
+      amount,
+      reason: reason.trim(),
+      requestedBy,
+      expiresAt: new Date(Date.now() + expiryHours * HOUR_MS),
+    });
+    await this.notifyApprovers(request, user.email);
+    return { status: 'pending', request };
+  }
+
+  /**
+   * Approves a pending request and moves the money
+   * @param requestId - The request ID
+   * @param adminId - The approving admin; never the requester
+   * @param note - Optional note
+   * @param audit - Records the approval in its transaction
+   * @returns The approved request
+   */
+  static async approve(
+    requestId: string,
+    adminId: string,
+    note?: string,
+    audit?: AuditRecorder
+  ): Promise<WalletAdjustmentRequest> {
+    const approved = await db.transaction(async trx => {
+      const request = await WalletAdjustmentRequestModel.findById(
+        requestId,
+        trx
+      );
+      this.assertReviewable(request, adminId);
+
+      const { newBalance } = await this.apply(
+        request.userId,
+        request.direction,
+        request.amount,
+        request.requestedBy,
+        trx
+      );
+      const reviewed = await WalletAdjustmentRequestModel.review(
+        requestId,
+        {
+          status: 'approved',
+          reviewedBy: adminId,
+          reviewNote: note,
+          balanceAfter: newBalance,
+        },
+        trx
+      );
+      await audit?.(
+        {
+          action: 'wallet.adjustment.approve',
+          entityType: 'wallet_adjustment_request',
+          entityId: reviewed.id,
+          before: { status: 'pending' },
+          after: reviewed,
+        },
+        trx
+      );
+      return reviewed;
+    });
+
+    await this.notifyRequester(approved, 'approved');
+    return approved;
+  }
+
+  /**
+   * Rejects a pending request; the wallet is left as it is
+   * @param requestId - The request ID
+   * @param adminId - The rejecting admin; never the requester
+   * @param note - Why it was rejected
+   * @returns The rejected request
+   */
+  static async reject(
+    requestId: string,
+    adminId: string,
+    note: string
+  ): Promise<WalletAdjustmentRequest> {
+    const rejected = await db.transaction(async trx => {
+      const request = await WalletAdjustmentRequestModel.findById(
+        requestId,
+        trx
+      );
+      this.assertReviewable(request, adminId);
+
+      return WalletAdjustmentRequestModel.review(
+        requestId,
+        { status: 'rejected', reviewedBy: adminId, reviewNote: note },
+        trx
+      );
+    });
+
+    await this.notifyRequester(rejected, 'rejected');
+    return rejected;
+  }
+
+  /**
+   * Lists adjustment requests, newest first
+   * @param status - Only requests in this status
+   * @param page - Page number
+   * @param limit - Page size
+   */
+  static async list(
+    status: WalletAdjustmentStatus | undefined,
+    page: number,
+    limit: number
+  ) {
+    const { requests, total } = await WalletAdjustmentRequestModel.findAll(
+      status,
+      page,
+      limit
+    );
+    return {
+      requests,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * Expires pending requests past their deadline and tells the requesters
+   * @returns Number of requests expired
+   */
+  static async expirePending(): Promise<number> {
+    const expired = await WalletAdjustmentRequestModel.expirePending(
+      new Date()
+    );
+    for (const request of expired) {
+      await this.notifyRequester(request, 'expired');
+    }
+    return expired.length;
+  }
+
+  private static assertReviewable(
+    request: WalletAdjustmentRequest | null,
+    adminId: string
+  ): asserts request is WalletAdjustmentRequest {
+    if (!request) {
+      throw new ApiError(404, 'Adjustment request not found');
+    }
+    if (request.status !== 'pending') {
+      throw new ApiError(
+        409,
+        `Adjustment request is already ${request.status}`
+      );
+    }
+    if (new Date(request.expiresAt) <= new Date()) {
+      throw new ApiError(409, 'Adjustment request has expired');
+    }
+    if (request.requestedBy === adminId) {
+      throw new ApiError(
+        403,
+        'An adjustment must be reviewed by an admin other than the requester'
+      );
+    }
+  }
+
+  // Applies the adjustment while the admin's 24-hour total for the wallet
+  // stays within the threshold; returns null when it needs approval instead
+  private static async applyWithinThreshold(
+    userId: string,
+    direction: WalletAdjustmentDirection,
+    amount: number,
+    requestedBy: string,
+    reason?: string,
+    audit?: AuditRecorder
+  ): Promise<number | null> {
+    const { approvalThreshold } = config.walletAdjustments;
+    if (amount > approvalThreshold) {
+      return null;
+    }
+
+    return db.transaction(async trx => {
+      const recent = await AdminModel.getAdjustedTotalSince(
+        userId,
+        requestedBy,
+        new Date(Date.now() - DAY_MS),
+        trx
+      );
+      if (recent + amount > approvalThreshold) {
+        return null;
+      }
+
+      const applied = await this.apply(
+        userId,
+        direction,
+        amount,
+        requestedBy,
+        trx
+      );
+      await audit?.(
+        {
+          action: `wallet.${direction}`,
+          entityType: 'user',
+          entityId: userId,
+          before: {
+            balance:
+              direction === 'credit'
+                ? applied.newBalance - amount
+                : applied.newBalance + amount,
+          },
+          after: { balance: applied.newBalance, amount, reason },
+        },
+        trx
+      );
+      return applied.newBalance;
+    });
+  }
+
+  private static async apply(
+    userId: string,
+    direction: WalletAdjustmentDirection,
+    amount: number,
+    adminId: string,
+    trx?: Knex.Transaction
+  ) {
+    try {
+      return direction === 'credit'
+        ? await AdminModel.creditWallet(userId, amount, adminId, trx)
+        : await AdminModel.debitWallet(userId, amount, adminId, trx);
+    } catch (error: any) {
+      if (error.message === 'Wallet not found') {
+        throw new ApiError(404, error.message);
+      }
+      if (error.message === 'Insufficient funds') {
+        throw new ApiError(400, error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Alerts every other admin that a request is waiting for them
+  private static async notifyApprovers(
+    request: WalletAdjustmentRequest,
+    userEmail: string
+  ): Promise<void> {
+    try {
+      const admins = await UserModel.findByRole('admin');
+      const message = `A ₦${request.amount} ${request.direction} for ${userEmail} is waiting for approval: ${request.reason}`;
+      for (const admin of admins) {
+        if (admin.userId !== request.requestedBy) {
+          await NotificationService.sendToUser(
+            admin.userId,
+            'Wallet adjustment needs approval',
+            message
+          );
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to notify wallet adjustment approvers', error);
+    }
+  }
+
+  private static async notifyRequester(
+    request: WalletAdjustmentRequest,
+    outcome: 'approved' | 'rejected' | 'expired'
+  ): Promise<void> {
+    try {
+      await NotificationService.sendToUser(
+        request.requestedBy,
+        `Wallet adjustment ${outcome}`,
+        `Your ₦${request.amount} ${request.direction} request was ${outcome}.`
+      );
+    } catch (error) {
+      logger.error('Failed to notify wallet adjustment requester', error);
+    }
+  }
+}
+
+export default WalletAdjustmentService;
@@ -0,0 +1,301 @@
+import { Knex } from 'knex';
+import { config } from '../config/env';
+import db from '../database/connection';
+import { TransactionModel } from '../models/Transaction';
+import { WalletTransferModel } from '../models/WalletTransfer';
+import { Transaction } from '../types/transaction.types';
+import {
+  WalletTransfer,
+  WalletTransferRequest,
+  WalletTransferResult,
+} from '../types/walletTransfer.types';
+import { ApiError } from '../utils/ApiError';
+import { generateSecureString } from '../utils/crypto';
+import { logger } from '../utils/logger.utils';
+import { LedgerService } from './ledger.service';
+import { NotificationService } from './notification.service';
+import { UserService } from './user.service';
+
+interface TransferParty {
+  id: string;
+  fullName: string;
+  isSuspended: boolean;
+}
+
+export class WalletTransferService {
+  /**
+   * Moves funds from one user's wallet to another's. Both wallets are
+   * locked, both sides get a `transactions` row and the move is posted to
+   * the ledger in a single database transaction.
+   * @param senderId The ID of the sending user
+   * @param request Recipient (phone or email), amount, PIN and optional note
+   * @returns The transfer and the sender's new balance
+   */
+  static async transfer(
+    senderId: string,
+    request: WalletTransferRequest
+  ): Promise<WalletTransferResult> {
+    const amount = this.validateAmount(request.amount);
+    if (!request.recipient) {
+      throw new ApiError(400, 'Recipient phone number or email is required');
+    }
+
+    const result = await db.transaction(async trx => {
+      await UserService.verifyTransactionPin(senderId, request.pin, trx);
+
+      const sender = await this.findParty('id', [senderId], trx);
+      const recipient = await this.resolveRecipient(request.recipient, trx);
+      if (!sender) {
+        throw new ApiError(404, 'User not found');
+      }
+      if (sender.isSuspended) {
+        throw new ApiError(403, 'Account is suspended');
+      }
+      if (recipient.id === sender.id) {
+        throw new ApiError(400, 'You cannot transfer to your own wallet');
+      }
+
+      // Recipients without a virtual account yet still get a wallet
+      await trx('wallets')
+        .insert({ user_id: recipient.id, balance: 0, currency: 'NGN' })
+        .onConflict('user_id')
+        .ignore();
+
+      // Lock both wallets in a fixed order so opposite transfers cannot deadlock
+      const wallets = await trx('wallets')
+        .whereIn('user_id', [sender.id, recipient.id])
+        .orderBy('user_id')
+        .forUpdate();
+      const senderWallet = wallets.find(w => w.user_id === sender.id);
+      if (!senderWallet) {
+        throw new ApiError(404, 'Wallet not found');
+      }
+
+      // Checked under the sender's wallet lock so concurrent transfers queue
+      await this.assertWithinDailyLimits(sender.id, amount, trx);
+
+      if (parseFloat(senderWallet.balance) < amount) {
+        throw new ApiError(
+          402,
+          `Insufficient balance. Amount: ${amount}, Wallet: ${senderWallet.balance}`
+        );
+      }
+
+      const transfer = await WalletTransferModel.create(
+        {
+          reference: `TRF-${generateSecureString(16)}`,
+          senderId: sender.id,
+          recipientId: recipient.id,
+          amount,
+          note: request.note,
+        },
+        trx
+      );
+
+      const senderAccount = LedgerService.wallet(sender.id);
+      const recipientAccount = LedgerService.wallet(recipient.id);
+      const journal = await LedgerService.post(
+        {
+          referenceType: 'wallet_transfer',
+          referenceId: transfer.id,
+          description: `Transfer ${transfer.reference}`,
+          createdBy: sender.id,
+          lines: [
+            { account: senderAccount, direction: 'debit', amount },
+            { account: recipientAccount, direction: 'credit', amount },
+          ],
+        },
+        trx
+      );
+
+      const debit = await TransactionModel.create(
+        {
+          walletId: sender.id,
+          userId: sender.id,
+          direction: 'debit',
+          amount,
+          balanceAfter:
+            journal.balances[LedgerService.accountCode(senderAccount)],
+          method: 'wallet_transfer',
+          reference: transfer.reference,
+          relatedType: 'wallet_transfer',
+          relatedId: transfer.id,
+          metadata: { counterpartyId: recipient.id },
+          note: request.note,
+        },
+        trx
+      );
+      const credit = await TransactionModel.create(
+        {
+          walletId: recipient.id,
+          userId: recipient.id,
+          direction: 'credit',
+          amount,
+          balanceAfter:
+            journal.balances[LedgerService.accountCode(recipientAccount)],
+          method: 'wallet_transfer',
+          reference: transfer.reference,
+          relatedType: 'wallet_transfer',
+          relatedId: transfer.id,
+          metadata: { counterpartyId: sender.id },
+          note: request.note,
+        },
+        trx
+      );
+
+      return { transfer, sender, recipient, debit, credit };
+    });
+
+    await this.sendAlerts(result);
+
+    return {
+      transfer: result.transfer,
+      recipient: {
+        userId: result.recipient.id,
+        fullName: result.recipient.fullName,
+      },
+      balanceAfter: result.debit.balanceAfter,
+      transactionId: result.debit.id,
+    };
+  }
+
+  private static validateAmount(rawAmount: number): number {
+    const amount = Number(rawAmount);
+    const { minAmount, maxAmount } = config.transfers;
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new ApiError(400, 'Amount must be a positive number');
+    }
+    if (Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) {
+      throw new ApiError(400, 'Amount cannot have more than 2 decimal places');
+    }
+    if (amount < minAmount) {
+      throw new ApiError(400, `Minimum transfer amount is ₦${minAmount}`);
+    }
+    if (amount > maxAmount) {
+      throw new ApiError(400, `Maximum transfer amount is ₦${maxAmount}`);
+    }
+    return amount;
+  }
+
+  private static async assertWithinDailyLimits(
+    senderId: string,
+    amount: number,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const { dailyAmountLimit, dailyCountLimit } = config.transfers;
+    const today = await WalletTransferModel.getDailyTotals(senderId, trx);
+
+    if (today.count + 1 > dailyCountLimit) {
+      throw new ApiError(
+        429,
+        `Daily transfer limit of ${dailyCountLimit} transfers reached`
+      );
+    }
+    if (today.amount + amount > dailyAmountLimit) {
+      const remaining = Math.max(dailyAmountLimit - today.amount, 0);
+      throw new ApiError(
+        429,
+        `Daily transfer limit of ₦${dailyAmountLimit} exceeded. Remaining today: ₦${remaining}`
+      );
+    }
+  }
+
+  private static async resolveRecipient(
+    identifier: string,
+    trx: Knex.Transaction
+  ): Promise<TransferParty> {
+    const value = String(identifier).trim();
+    const recipient = value.includes('@')
+      ? await this.findParty('email', [value.toLowerCase()], trx)
+      : await this.findParty('phone_number', this.phoneVariants(value), trx);
+
+    if (!recipient) {
+      throw new ApiError(404, 'Recipient not found');
+    }
+    if (recipient.isSuspended) {
+      throw new ApiError(400, 'Recipient cannot receive transfers');
+    }
+    return recipient;
+  }
+
+  // Numbers may be stored in local (080...) or international (23480...) form
+  private static phoneVariants(phone: string): string[] {
+    const digits = phone.replace(/\D/g, '');
+    if (digits.startsWith('234') && digits.length === 13) {
+      return [digits, `0${digits.slice(3)}`];
+    }
+    if (digits.startsWith('0') && digits.length === 11) {
+      return [digits, `234${digits.slice(1)}`];
+    }
+    return [digits];
+  }
+
+  private static async findParty(
+    column: 'id' | 'email' | 'phone_number',
+    values: string[],
+    trx: Knex.Transaction
+  ): Promise<TransferParty | null> {
+    const row = await trx('users')
+      .select('id', 'full_name', 'is_suspended')
+      .whereIn(column, values)
+      .first();
+
+    if (!row) {
+      return null;
+    }
+    return {
+      id: row.id,
+      fullName: row.full_name,
+      isSuspended: Boolean(row.is_suspended),
+    };
+  }
+
+  // Alerts go out after commit and never fail the transfer
+  private static async sendAlerts(result: {
+    transfer: WalletTransfer;
+    sender: TransferParty;
+    recipient: TransferParty;
+    debit: Transaction;
+    credit: Transaction;
+  }): Promise<void> {
+    const { transfer, sender, recipient, debit, credit } = result;
+    const alerts = [
+      NotificationService.sendTransactionAlert(
+        sender.id,
+        'Transfer Sent',
+        `You sent ₦${transfer.amount} to ${recipient.fullName}`,
+        {
+          id: debit.id,
+          amount: debit.amount,
+          type: 'debit',
+          reference: transfer.reference,
+          timestamp: new Date().toISOString(),
+          description: `Transfer to ${recipient.fullName}`,
+        }
+      ),
+      NotificationService.sendTransactionAlert(
+        recipient.id,
+        'Transfer Received',
+        `You received ₦${transfer.amount} from ${sender.fullName}`,
+        {
+          id: credit.id,
+          amount: credit.amount,
+          type: 'credit',
+          reference: transfer.reference,
+          timestamp: new Date().toISOString(),
+          description: `Transfer from ${sender.fullName}`,
+        }
+      ),
+    ];
+
+    const outcomes = await Promise.allSettled(alerts);
+    outcomes.forEach(outcome => {
+      if (outcome.status === 'rejected') {
+        logger.error('Failed to send transfer alert', outcome.reason);
+      }
+    });
+  }
+}
+
+export default WalletTransferService;
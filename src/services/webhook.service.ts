@@ -5,6 +5,7 @@ import {
   WebhookResult,
 } from '../types/webhook.types';
 import { ApiError } from '../utils/ApiError';
+import { LedgerService } from './ledger.service';
 
 export class WebhookService {
   /**
@@ -181,18 +182,31 @@ export class WebhookService {
           throw new ApiError(500, 'Wallet not found after creation');
         }
 
-        // Ensure balance is a proper number to prevent JSON parsing issues
-        const currentBalance =
-          typeof currentWallet.balance === 'string'
-            ? parseFloat(currentWallet.balance)
-            : Number(currentWallet.balance);
-
-        const newBalance = parseFloat((currentBalance + amount).toFixed(2));
-
-        await trx('wallets').where({ user_id: userId }).update({
-          balance: newBalance,
-          updated_at: new Date(),
-        });
+        // Money received from the provider is owed to the user's wallet
+        const journal = await LedgerService.post(
+          {
+            referenceType: 'incoming_payment',
+            referenceId: String(incomingPayment.id),
+            description: `${provider} virtual account payment ${providerReference}`,
+            lines: [
+              {
+                account: { type: 'provider_funding' },
+                direction: 'debit',
+                amount,
+              },
+              {
+                account: LedgerService.wallet(userId),
+                direction: 'credit',
+                amount,
+              },
+            ],
+          },
+          trx
+        );
+        const newBalance =
+          journal.balances[
+            LedgerService.accountCode(LedgerService.wallet(userId))
+          ];
 
         // Record transaction
         await trx('transactions').insert({
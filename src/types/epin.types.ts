@@ -0,0 +1,94 @@
+export type EpinStatus = 'available' | 'allocated' | 'sold' | 'expired';
+
+export interface EpinBatch {
+  id: string;
+  operatorId: string;
+  supplierId?: string | null;
+  fileName?: string | null;
+  totalRows: number;
+  importedCount: number;
+  duplicateCount: number;
+  invalidCount: number;
+  uploadedBy?: string | null;
+  createdAt: Date;
+}
+
+export interface EpinBatchUpload {
+  operatorId: string;
+  supplierId?: string;
+  denomination?: number; // Used for rows without a denomination column
+  costPrice?: number; // Used for rows without a cost_price column
+  fileName?: string;
+  csv: string;
+  uploadedBy?: string;
+}
+
+// A CSV row that could not be imported
+export interface EpinImportError {
+  line: number;
+  reason: string;
+}
+
+export interface EpinBatchImportResult {
+  batch: EpinBatch;
+  errors: EpinImportError[];
+}
+
+// A parsed, not yet encrypted PIN ready for insertion
+export interface EpinImportRow {
+  pin: string;
+  serialNumber?: string;
+  denomination: number;
+  costPrice: number;
+}
+
+export interface EpinOrder {
+  id: string;
+  reference: string;
+  userId: string;
+  operatorProductId: string;
+  operatorId: string;
+  denomination: number;
+  quantity: number;
+  unitPrice: number;
+  totalAmount: number;
+  createdAt: Date;
+}
+
+export type CreateEpinOrderData = Omit<EpinOrder, 'id' | 'createdAt'>;
+
+export interface PurchasedEpin {
+  id: string;
+  pin: string;
+  serialNumber?: string | null;
+  denomination: number;
+}
+
+export interface EpinOrderWithPins extends EpinOrder {
+  productCode?: string;
+  productName?: string;
+  operatorName?: string;
+  pins: PurchasedEpin[];
+}
+
+export interface EpinPurchaseRequest {
+  productCode: string;
+  quantity: number;
+  pin: number | string; // Transaction PIN
+}
+
+export interface EpinPurchaseResult {
+  order: EpinOrderWithPins;
+  balanceAfter: number;
+  transactionId: string;
+}
+
+export interface EpinStockLevel {
+  operatorId: string;
+  operatorName?: string;
+  denomination: number;
+  available: number;
+  sold: number;
+  threshold: number;
+  lowStock: boolean;
+}
@@ -0,0 +1,25 @@
+import { JobRecord } from '../models/Job';
+
+// Runs one job; the resolved value is stored as the job result. Throwing
+// schedules a retry unless the error is a PermanentJobError.
+export type JobHandler = (
+  payload: any,
+  job: JobRecord
+) => Promise<Record<string, any> | void>;
+
+export interface JobHandlerOptions {
+  concurrency: number; // Jobs of this type one worker runs at once
+  backoffMs: number; // Delay before the first retry; doubles each attempt
+  maxBackoffMs: number;
+  leaseMinutes: number; // A running job older than this is assumed lost
+}
+
+export interface RegisteredJobHandler extends JobHandlerOptions {
+  type: string;
+  handler: JobHandler;
+}
+
+export interface EnqueueJobOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
@@ -0,0 +1,91 @@
+export type LedgerDirection = 'debit' | 'credit';
+
+export type UserLedgerAccountType = 'user_wallet' | 'user_cashback';
+
+export type SystemLedgerAccountType =
+  | 'supplier_payable'
+  | 'revenue'
+  | 'suspense'
+  | 'provider_funding'
+  | 'rewards';
+
+export type LedgerAccountType = UserLedgerAccountType | SystemLedgerAccountType;
+
+// Identifies an account without knowing its id; user accounts are created on first use
+export type LedgerAccountRef =
+  | { type: UserLedgerAccountType; userId: string }
+  | { type: SystemLedgerAccountType };
+
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  type: LedgerAccountType;
+  normalSide: LedgerDirection;
+  userId?: string | null;
+  createdAt: Date;
+}
+
+export interface LedgerLine {
+  account: LedgerAccountRef;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface PostJournalInput {
+  referenceType: string; // topup_request, incoming_payment, admin, cashback, ...
+  referenceId?: string | null;
+  description?: string;
+  createdBy?: string | null;
+  lines: LedgerLine[];
+}
+
+export interface PostedJournal {
+  id: string;
+  // Balance after posting for each user account touched, keyed by account code
+  balances: Record<string, number>;
+}
+
+export interface LedgerJournal {
+  id: string;
+  referenceType: string;
+  referenceId?: string | null;
+  description?: string | null;
+  createdBy?: string | null;
+  createdAt: Date;
+  entries: LedgerEntry[];
+}
+
+export interface LedgerEntry {
+  id: string;
+  journalId: string;
+  accountCode: string;
+  direction: LedgerDirection;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface LedgerAccountBalance {
+  code: string;
+  type: LedgerAccountType;
+  totalDebit: number;
+  totalCredit: number;
+  balance: number; // Signed on the account's normal side
+}
+
+export interface LedgerBalanceDrift {
+  userId: string;
+  accountType: UserLedgerAccountType;
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export interface LedgerIntegrityReport {
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+  unbalancedJournals: string[];
+  systemAccounts: LedgerAccountBalance[];
+  drift: LedgerBalanceDrift[];
+  checkedAt: Date;
+}
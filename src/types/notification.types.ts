@@ -86,7 +86,7 @@ export interface UserNotificationPreference {
 export interface NotificationAnalytics {
   id: number;
   notification_id: string;
-  user_id: string;
+  user_id: string | null; // Null for a topic broadcast
   status: 'sent' | 'delivered' | 'opened' | 'failed';
   created_at: Date;
 }
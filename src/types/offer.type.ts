@@ -55,6 +55,7 @@ export interface OfferRedemption {
   supplier_product_mapping_id: string | null;
   supplier_id: string | null;
   order_id: string | null;
+  topup_request_id: string | null;
   price_paid: number;
   discount_amount: number;
   created_at: Date;
@@ -70,8 +71,126 @@ export interface OfferEligibilityRule {
   created_at: Date;
 }
 
+// =================================================================
+// Eligibility rules
+// =================================================================
+
+// Rule types is_user_eligible_for_offer evaluates
+export type EligibilityRuleType =
+  | 'new_user'
+  | 'min_topups'
+  | 'min_transactions'
+  | 'min_spent'
+  | 'operator_topup_count'
+  | 'operator_spent'
+  | 'last_active_within'
+  | 'active_days'
+  | 'min_wallet_funding'
+  | 'used_operator'
+  | 'has_badge'
+  | 'min_referrals'
+  | 'inactive_days'
+  | 'referred_by_code';
+
+// count: whole number; days: whole number of days; amount: money;
+// uuid/string: identifiers and codes
+export type EligibilityRuleParamKind =
+  | 'count'
+  | 'days'
+  | 'amount'
+  | 'uuid'
+  | 'string';
+
+export interface EligibilityRuleParamSpec {
+  kind: EligibilityRuleParamKind;
+  required: boolean;
+  description: string;
+}
+
+export interface EligibilityRuleTypeSpec {
+  description: string;
+  params: Record<string, EligibilityRuleParamSpec>;
+}
+
+export interface EligibilityRuleInput {
+  ruleType?: string;
+  ruleKey?: string;
+  params?: Record<string, any>;
+  description?: string | null;
+}
+
 export interface OfferSegmentMember {
   offer_id: string;
   user_id: string;
   created_at: Date;
 }
+
+// =================================================================
+// Checkout
+// =================================================================
+
+export interface OfferCheckoutRequest {
+  offer: string; // Offer ID or code
+  userId: string;
+  operatorProductId: string;
+  supplierMappingId?: string;
+  price: number; // Price before the offer
+}
+
+// An offer priced against a purchase, ready to be redeemed with it
+export interface OfferCheckout {
+  offerId: string;
+  code: string | null;
+  price: number;
+  discountAmount: number;
+  pricePaid: number;
+  // The product the redemption is recorded against; exactly one is set
+  operatorProductId: string | null;
+  supplierProductMappingId: string | null;
+}
+
+// =================================================================
+// Discovery
+// =================================================================
+
+// An offer_products row joined with its product
+export interface OfferProductDetails {
+  offerId: string;
+  operatorProductId: string;
+  supplierProductMappingId: string | null;
+  priceOverride: number | null;
+  productCode: string;
+  productName: string;
+  denomAmount: number;
+  operatorId: string;
+  operatorName: string;
+  supplierId: string | null; // Set for supplier mapping rows
+  supplierPrice: number | null;
+}
+
+export interface AvailableOfferProduct {
+  operatorProductId: string;
+  supplierProductMappingId: string | null;
+  productCode: string;
+  productName: string;
+  operatorName: string;
+  denomAmount: number;
+  price: number | null; // The buyer's price without the offer; null if unsold
+  discountAmount: number | null;
+  offerPrice: number | null;
+}
+
+export interface AvailableOffer {
+  id: string;
+  code: string | null;
+  title: string;
+  description: string | null;
+  discountType: Offer['discount_type'];
+  discountValue: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  appliesToAllProducts: boolean;
+  perUserLimit: number | null;
+  usesRemaining: number | null; // null when there is no per-user limit
+  products: AvailableOfferProduct[];
+}
@@ -0,0 +1,57 @@
+export interface CommissionRule {
+  id: string;
+  name?: string | null;
+  operatorId?: string | null;
+  operatorProductId?: string | null;
+  supplierId?: string | null;
+  role?: string | null;
+  agentId?: string | null; // Rule for a single user
+  ratePercent: number;
+  fixedAmount: number;
+  isActive: boolean;
+  createdBy?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCommissionRuleData {
+  name?: string;
+  operatorId?: string | null;
+  operatorProductId?: string | null;
+  supplierId?: string | null;
+  role?: string | null;
+  agentId?: string | null;
+  ratePercent?: number;
+  fixedAmount?: number;
+  isActive?: boolean;
+  createdBy?: string;
+}
+
+export type UpdateCommissionRuleData = Partial<
+  Omit<CreateCommissionRuleData, 'createdBy'>
+>;
+
+export interface CommissionRuleFilters {
+  operatorId?: string;
+  operatorProductId?: string;
+  supplierId?: string;
+  role?: string;
+  isActive?: boolean;
+}
+
+// What is being sold and to whom
+export interface PricingContext {
+  operatorId: string;
+  operatorProductId: string;
+  supplierId?: string; // Unset for stock sold from inventory (E-PINs)
+  supplierPrice: number;
+  role?: string;
+  userId?: string;
+}
+
+export interface PriceQuote {
+  supplierPrice: number;
+  price: number;
+  margin: number;
+  ruleId: string | null; // null when the default markup applied
+}
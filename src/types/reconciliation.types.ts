@@ -0,0 +1,133 @@
+export type ReconciliationFormat = 'csv' | 'json';
+
+export type ReconciliationStatus = 'open' | 'closed';
+
+// How a report line compares with our topups:
+// - matched: same topup, amount and outcome
+// - amount_mismatch: the supplier charged a different amount
+// - status_mismatch: the supplier reports a different outcome than we hold
+// - duplicate: the reference appears more than once in the report
+// - missing_ours: no topup of ours for this supplier has the reference
+// - missing_theirs: a successful topup in the period the report left out
+export type ReconciliationCategory =
+  | 'matched'
+  | 'amount_mismatch'
+  | 'status_mismatch'
+  | 'duplicate'
+  | 'missing_ours'
+  | 'missing_theirs';
+
+// accepted: the supplier's figure stands; disputed: raised with the
+// supplier; adjusted: corrected on our side
+export type ReconciliationResolution = 'accepted' | 'disputed' | 'adjusted';
+
+export interface ReconciliationSummary {
+  totalLines: number;
+  invalidLines: number;
+  matched: number;
+  amountMismatch: number;
+  statusMismatch: number;
+  duplicate: number;
+  missingOurs: number;
+  missingTheirs: number;
+  theirTotal: number; // Sum of the amounts in the report
+  ourTotal: number; // Sum of what we expect to owe for the period
+  difference: number; // theirTotal - ourTotal
+}
+
+export interface SupplierReconciliation {
+  id: string;
+  supplierId: string;
+  supplierName?: string;
+  periodStart: Date;
+  periodEnd: Date;
+  fileName?: string | null;
+  format: ReconciliationFormat;
+  status: ReconciliationStatus;
+  summary: ReconciliationSummary;
+  openItems?: number;
+  createdBy?: string | null;
+  closedBy?: string | null;
+  closedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface ReconciliationItem {
+  id: string;
+  reconciliationId: string;
+  topupRequestId?: string | null;
+  reference?: string | null;
+  lineNumber?: number | null;
+  category: ReconciliationCategory;
+  ourAmount?: number | null;
+  theirAmount?: number | null;
+  ourStatus?: string | null;
+  theirStatus?: string | null;
+  raw?: any;
+  resolution?: ReconciliationResolution | null;
+  resolutionNote?: string | null;
+  resolvedBy?: string | null;
+  resolvedAt?: Date | null;
+  createdAt: Date;
+}
+
+export type CreateReconciliationItemData = Omit<
+  ReconciliationItem,
+  | 'id'
+  | 'reconciliationId'
+  | 'resolution'
+  | 'resolutionNote'
+  | 'resolvedBy'
+  | 'resolvedAt'
+  | 'createdAt'
+>;
+
+export interface SupplierReportUpload {
+  supplierId: string;
+  periodStart: string;
+  periodEnd: string;
+  format: ReconciliationFormat;
+  content: string; // CSV text or a JSON array of lines
+  fileName?: string;
+  createdBy?: string;
+}
+
+// A parsed line of a supplier report
+export interface SupplierReportLine {
+  line: number;
+  reference: string;
+  amount: number;
+  status?: string;
+  raw: Record<string, any>;
+}
+
+// A report line that could not be read
+export interface SupplierReportError {
+  line: number;
+  reason: string;
+}
+
+export interface ReconciliationResult {
+  reconciliation: SupplierReconciliation;
+  errors: SupplierReportError[];
+}
+
+// The parts of a topup request that reconciliation compares
+export interface ReconcilableTopup {
+  id: string;
+  externalId: string;
+  idempotencyKey?: string | null;
+  amount: number;
+  supplierPayable?: number | null; // What the purchase posted as owed to the supplier
+  status: string;
+}
+
+export interface ReconciliationFilters {
+  supplierId?: string;
+  status?: ReconciliationStatus;
+}
+
+export interface ReconciliationItemFilters {
+  category?: ReconciliationCategory;
+  openOnly?: boolean;
+}
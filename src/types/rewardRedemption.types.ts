@@ -0,0 +1,72 @@
+// wallet_credit and cashback convert points into money at the item's
+// conversion rate; product buys one airtime/data product
+export type RewardCatalogueItemType = 'wallet_credit' | 'cashback' | 'product';
+
+// failed: the points were given back
+export type RewardRedemptionStatus = 'completed' | 'failed';
+
+export interface RewardCatalogueItem {
+  id: string;
+  name: string;
+  description?: string | null;
+  type: RewardCatalogueItemType;
+  conversionRate?: number | null; // Naira per point
+  minPoints?: number | null;
+  pointsCost?: number | null; // Points a product item costs
+  operatorProductId?: string | null;
+  productCode?: string | null;
+  productName?: string | null;
+  denomAmount?: number | null;
+  perUserLimit?: number | null; // Redemptions per user in the cap window
+  maxPointsPerUser?: number | null; // Points per user in the cap window
+  capWindowDays?: number | null; // null: the caps are for all time
+  isActive: boolean;
+  createdBy?: string | null;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export type RewardCatalogueItemInput = Partial<
+  Omit<
+    RewardCatalogueItem,
+    | 'id'
+    | 'productCode'
+    | 'productName'
+    | 'denomAmount'
+    | 'createdAt'
+    | 'updatedAt'
+  >
+>;
+
+export interface RewardRedemption {
+  id: string;
+  userId: string;
+  itemId: string;
+  itemName?: string;
+  type: RewardCatalogueItemType;
+  points: number;
+  value: number;
+  status: RewardRedemptionStatus;
+  recipientPhone?: string | null;
+  topupRequestId?: string | null;
+  failureReason?: string | null;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export type CreateRewardRedemptionData = Omit<
+  RewardRedemption,
+  'id' | 'itemName' | 'failureReason' | 'createdAt' | 'updatedAt'
+>;
+
+export interface RedeemPointsRequest {
+  itemId: string;
+  points?: number; // How many points to convert; product items have a fixed cost
+  recipientPhone?: string; // Required for product items
+}
+
+// A user's completed redemptions of an item within the cap window
+export interface RewardRedemptionUsage {
+  count: number;
+  points: number;
+}
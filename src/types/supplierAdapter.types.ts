@@ -0,0 +1,45 @@
+import { Supplier } from './supplier.types';
+
+/**
+ * Outcome reported by a supplier for a single dispatch attempt.
+ * - success: the vendor confirmed delivery
+ * - failed: the vendor rejected the request (safe to refund or fail over)
+ * - pending: the vendor accepted the request but will confirm later via webhook
+ */
+export type SupplierDispatchStatus = 'success' | 'failed' | 'pending';
+
+export interface SupplierDispatchRequest {
+  // Our topup request id; vendors echo it back as customer_reference
+  reference: string;
+  idempotencyKey?: string;
+  supplierProductCode: string;
+  recipientPhone: string;
+  amount: number;
+  type?: string;
+  supplier: Supplier;
+}
+
+// Asks a supplier what became of a request it was sent earlier
+export type SupplierStatusQuery = Pick<
+  SupplierDispatchRequest,
+  'reference' | 'idempotencyKey' | 'recipientPhone' | 'supplier'
+>;
+
+export interface SupplierDispatchResult {
+  status: SupplierDispatchStatus;
+  responseCode?: string;
+  responseMessage?: string;
+  supplierReference?: string;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Contract every supplier integration implements. Adapters are looked up
+ * by `suppliers.slug`, so the slug must match the supplier row.
+ */
+export interface SupplierAdapter {
+  readonly slug: string;
+  dispatch(request: SupplierDispatchRequest): Promise<SupplierDispatchResult>;
+  // Optional: suppliers without a status API only confirm by webhook
+  queryStatus?(query: SupplierStatusQuery): Promise<SupplierDispatchResult>;
+}
@@ -1,3 +1,19 @@
+import { TopupReversal } from './topupReversal.types';
+
+// pending -> processing (claimed by the dispatcher) -> success | failed |
+// pending_confirmation (vendor accepted, waiting for its webhook).
+// failed -> reversed once the user's charges have been refunded.
+export type TopupRequestStatus =
+  | 'pending'
+  | 'processing'
+  | 'pending_confirmation'
+  | 'success'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'reversed'
+  | 'retry';
+
 export interface TopupRequest {
   id: string;
   userId: string;
@@ -5,18 +21,14 @@ export interface TopupRequest {
   externalId?: string;
   operatorId?: string;
   amount: number;
-  status:
-    | 'pending'
-    | 'completed'
-    | 'failed'
-    | 'cancelled'
-    | 'reversed'
-    | 'retry';
+  status: TopupRequestStatus;
   requestPayload?: any;
   operatorProductId?: string;
   supplierId?: string;
   supplierMappingId?: string;
   cost?: number;
+  offerId?: string | null; // Offer applied at checkout
+  discountAmount?: number;
   type?: string;
   attemptCount: number;
   idempotencyKey?: string;
@@ -33,13 +45,7 @@ export interface CreateTopupRequestData {
 }
 
 export interface UpdateTopupRequestData {
-  status?:
-    | 'pending'
-    | 'completed'
-    | 'failed'
-    | 'cancelled'
-    | 'reversed'
-    | 'retry';
+  status?: TopupRequestStatus;
   responsePayload?: any;
   attemptCount?: number;
   lastAttemptAt?: Date;
@@ -49,13 +55,7 @@ export interface UpdateTopupRequestData {
 export interface TopupRequestFilters {
   userId?: string;
   operatorId?: string;
-  status?:
-    | 'pending'
-    | 'completed'
-    | 'failed'
-    | 'cancelled'
-    | 'reversed'
-    | 'retry'; // Status of the top-up request
+  status?: TopupRequestStatus; // Status of the top-up request
   dateFrom?: string;
   dateTo?: string;
   page?: number;
@@ -74,8 +74,49 @@ export interface TopupRequestResponse {
   updated_at: Date;
 }
 
+export interface CreateTopupResponseData {
+  topupRequestId: string;
+  supplierId?: string;
+  responseCode?: string;
+  responseMessage?: string;
+  responsePayload?: any;
+}
+
+// A pending request claimed by the dispatcher, joined with the supplier
+// mapping it needs to call the vendor
+export interface DispatchableTopupRequest {
+  id: string;
+  userId: string;
+  recipientPhone: string;
+  amount: number;
+  type?: string;
+  idempotencyKey?: string;
+  attemptCount: number;
+  dispatchClaims: number;
+  operatorProductId: string;
+  supplierId: string;
+  supplierMappingId: string;
+  supplierProductCode: string;
+  leadTimeSeconds: number;
+}
+
+// One supplier attempt for a topup request, in the order they were made
+export interface TopupRouteHop {
+  hop: number;
+  supplierId: string;
+  supplierName?: string;
+  supplierMappingId?: string;
+  outcome: 'success' | 'failed' | 'pending';
+  responseCode?: string;
+  responseMessage?: string;
+  failedOver: boolean;
+  createdAt: Date;
+}
+
 export interface TopupRequestWithResponses extends TopupRequest {
   responses: TopupRequestResponse[];
+  hops?: TopupRouteHop[]; // Supplier attempts in order, incl. failovers
+  reversal?: TopupReversal | null; // What was refunded and clawed back, once reversed
 }
 
 export interface TopupRequestQueryResult {
@@ -0,0 +1,50 @@
+export interface TopupReversal {
+  id: string;
+  topupRequestId: string;
+  userId: string;
+  walletRefund: number;
+  cashbackRefund: number;
+  cashbackClawback: number;
+  clawbackFromWallet: number;
+  unrecoveredCashback: number;
+  journalId?: string | null;
+  transactionId?: string | null;
+  reason: string;
+  initiatedBy?: string | null;
+  createdAt: Date;
+}
+
+export type CreateTopupReversalData = Omit<TopupReversal, 'id' | 'createdAt'>;
+
+// What a top-up took from and granted to the user, read back from the
+// wallet transactions and cashback entries recorded for it
+export interface TopupChargeSummary {
+  walletDebited: number;
+  walletRefunded: number; // Credits already made against the request
+  cashbackRedeemed: number;
+  cashbackEarned: number;
+  cashbackAvailable: number; // User's cashback balance right now
+  supplierPayable: number; // Owed to the supplier for the request per the ledger
+  rewardsCharged?: number; // Paid by the rewards account for a points redemption
+}
+
+export interface TopupReversalPlan {
+  walletRefund: number;
+  cashbackRefund: number;
+  cashbackClawback: number;
+  clawbackFromWallet: number;
+  unrecoveredCashback: number;
+  rewardsRefund: number;
+  supplierPayableReversed: number;
+  revenueReversed: number;
+}
+
+export interface ReverseTopupOptions {
+  reason: string;
+  initiatedBy?: string;
+}
+
+export interface TopupReversalResult {
+  reversal: TopupReversal;
+  alreadyReversed: boolean;
+}
@@ -20,6 +20,18 @@ export interface TransactionWithRelated extends Transaction {
   related?: any; // The related entity data (incoming_payment, topup_request, etc.)
 }
 
+// The top-up a statement line paid for or was refunded from
+export interface StatementTopup {
+  type: string; // data|airtime
+  recipientPhone: string;
+  operatorName: string | null;
+  productName: string | null;
+}
+
+export interface StatementTransaction extends Transaction {
+  topup: StatementTopup | null;
+}
+
 export interface CreateTransactionData {
   walletId: string;
   userId: string;
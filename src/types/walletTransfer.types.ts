@@ -0,0 +1,39 @@
+export interface WalletTransfer {
+  id: string;
+  reference: string;
+  senderId: string;
+  recipientId: string;
+  amount: number;
+  note?: string | null;
+  createdAt: Date;
+}
+
+export interface CreateWalletTransferData {
+  reference: string;
+  senderId: string;
+  recipientId: string;
+  amount: number;
+  note?: string;
+}
+
+export interface WalletTransferRequest {
+  recipient: string; // Phone number or email of the recipient
+  amount: number;
+  pin: number | string;
+  note?: string;
+}
+
+export interface WalletTransferResult {
+  transfer: WalletTransfer;
+  recipient: {
+    userId: string;
+    fullName: string;
+  };
+  balanceAfter: number;
+  transactionId: string;
+}
+
+export interface DailyTransferTotals {
+  count: number;
+  amount: number;
+}
@@ -71,3 +71,56 @@ export function safeCompare(code_a: string, code_b: string): boolean {
   if (bufA.length != bufB.length) return false;
   return timingSafeEqual(bufA, bufB);
 }
+
+// AES-256-GCM key derived from a configured secret of any length
+function deriveKey(secret: string): Buffer {
+  if (!secret) {
+    throw new Error('Encryption secret is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a value with AES-256-GCM
+ * @param value - The plaintext to encrypt
+ * @param secret - The secret the key is derived from
+ * @returns IV (12 bytes), auth tag (16 bytes) and ciphertext in one buffer
+ */
+export function encryptValue(value: string, secret: string): Buffer {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(value, 'utf8'),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt a value produced by encryptValue
+ * @param payload - IV, auth tag and ciphertext
+ * @param secret - The secret the key is derived from
+ * @returns The plaintext
+ */
+export function decryptValue(payload: Buffer, secret: string): string {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(secret),
+    payload.subarray(0, 12)
+  );
+  decipher.setAuthTag(payload.subarray(12, 28));
+  return Buffer.concat([
+    decipher.update(payload.subarray(28)),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Keyed hash of a value, for finding duplicates without decrypting
+ * @param value - The value to hash
+ * @param secret - The HMAC key
+ * @returns The HMAC-SHA256 as hex string
+ */
+export function hmacValue(value: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(value).digest('hex');
+}
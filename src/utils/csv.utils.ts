@@ -0,0 +1,88 @@
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields (with embedded
+ * commas, quotes and newlines) and both LF and CRLF line endings. Blank
+ * lines are skipped.
+ * @param text - The CSV content
+ * @returns Rows with their 1-based line number
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) {
+      rows.push({ line: rowStart, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Text starting with these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Formats values as one CSV line, ending in CRLF. Fields with commas,
+ * quotes or line breaks are quoted, and text that would run as a
+ * spreadsheet formula is prefixed with a quote.
+ * @param values - The fields; null and undefined become empty fields
+ * @returns The CSV line
+ */
+export function toCsvRow(values: unknown[]): string {
+  const fields = values.map(value => {
+    if (value === null || value === undefined) return '';
+    let text =
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+    if (FORMULA_PREFIX.test(text) && !NUMERIC.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  });
+  return `${fields.join(',')}\r\n`;
+}
@@ -0,0 +1,86 @@
+import { config } from '../config/env';
+import BadgeAdminService from '../services/badgeAdmin.service';
+import ExportService, {
+  EXPORT_JOB_TYPE,
+  ExportJobPayload,
+} from '../services/export.service';
+import {
+  JobHandlerRegistry,
+  PermanentJobError,
+} from '../services/jobHandler.registry';
+import { NotificationService } from '../services/notification.service';
+import OfferAdminService from '../services/offerAdmin.service';
+import OfferLifecycleService from '../services/offerLifecycle.service';
+import TopupDispatchService from '../services/topupDispatch.service';
+import { offerRedemptionHandler } from './offerRedemption.worker';
+
+// Handlers the worker runner can process. Enqueue with
+// JobService.enqueue(type, payload).
+
+JobHandlerRegistry.register('offer_redemption', offerRedemptionHandler);
+
+JobHandlerRegistry.register(
+  'offer_segment',
+  async ({ offerId }) => {
+    if (!offerId) {
+      throw new PermanentJobError('offerId is required');
+    }
+    await OfferAdminService.computeSegment(offerId);
+    const { total } = await OfferAdminService.getSegmentMembers(offerId, 1, 1);
+    return { offerId, total };
+  },
+  { leaseMinutes: 60 }
+);
+
+// Enqueued by the offer lifecycle job when an offer goes live
+JobHandlerRegistry.register(
+  'offer_activation',
+  async ({ offerId }) => {
+    if (!offerId) {
+      throw new PermanentJobError('offerId is required');
+    }
+    return OfferLifecycleService.activate(offerId);
+  },
+  { leaseMinutes: 60 }
+);
+
+JobHandlerRegistry.register(
+  'badge_backfill',
+  async ({ badgeId }) => {
+    if (!badgeId) {
+      throw new PermanentJobError('badgeId is required');
+    }
+    return BadgeAdminService.backfill(badgeId);
+  },
+  { leaseMinutes: 60 }
+);
+
+// Queued by ExportService for exports too large to stream back at once
+JobHandlerRegistry.register(
+  EXPORT_JOB_TYPE,
+  async (payload: ExportJobPayload, job) => {
+    if (!payload?.type || !payload.requestedBy) {
+      throw new PermanentJobError('type and requestedBy are required');
+    }
+    if (!config.exports.dir) {
+      throw new PermanentJobError('EXPORT_DIR is not set on this worker');
+    }
+    return ExportService.runJob(payload, job);
+  },
+  { leaseMinutes: 60 }
+);
+
+// Payload: { limit?: number } — size of the batch to claim
+JobHandlerRegistry.register(
+  'topup_dispatch',
+  async ({ limit }) => ({
+    ...(await TopupDispatchService.dispatchPending(limit || 10)),
+  }),
+  { concurrency: 2, backoffMs: 2000 }
+);
+
+JobHandlerRegistry.register('notification_dispatch', async () => ({
+  ...(await NotificationService.dispatchDue()),
+}));
+
+export default JobHandlerRegistry;
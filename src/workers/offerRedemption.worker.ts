@@ -1,39 +1,28 @@
-import JobService from '../services/job.service';
+import { PermanentJobError } from '../services/jobHandler.registry';
 import OfferAdminService from '../services/offerAdmin.service';
-import { logger } from '../utils/logger.utils';
+import { JobHandler } from '../types/job.types';
 
-export async function processOneJob() {
-  const job = await JobService.fetchAndClaimPending();
-  if (!job) return null;
-
-  logger.info(`Processing job ${job.id} of type ${job.type}`);
-
-  try {
-    if (job.type === 'offer_redemption') {
-      const { offerId, targets, price, discount } = job.payload as any;
-      // Use OfferAdminService bulkRedeem to process targets
-      const results = await OfferAdminService.bulkRedeem(
-        offerId,
-        targets,
-        price,
-        discount
-      );
-      await JobService.markCompleted(job.id, {
-        summary: {
-          success: results.filter(r => r.success).length,
-          total: results.length,
-        },
-        results: results.slice(0, 50),
-      });
-      return job.id;
-    }
-
-    // Unknown job types are marked failed
-    await JobService.markFailed(job.id, { error: 'unknown job type' });
-    return job.id;
-  } catch (err: any) {
-    logger.error('Job processing failed', err);
-    await JobService.markFailed(job.id, { error: err.message || String(err) });
-    return job.id;
+/**
+ * Handles `offer_redemption` jobs: redeems an offer for each target user.
+ * Per-user failures are reported in the result rather than failing the job.
+ */
+export const offerRedemptionHandler: JobHandler = async payload => {
+  const { offerId, targets, price, discount } = payload || {};
+  if (!offerId || !Array.isArray(targets)) {
+    throw new PermanentJobError('offerId and targets are required');
   }
-}
+
+  const results = await OfferAdminService.bulkRedeem(
+    offerId,
+    targets,
+    price,
+    discount
+  );
+  return {
+    summary: {
+      success: results.filter(r => r.success).length,
+      total: results.length,
+    },
+    results: results.slice(0, 50),
+  };
+};
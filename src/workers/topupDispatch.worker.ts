@@ -0,0 +1,68 @@
+import TopupDispatchService from '../services/topupDispatch.service';
+import { logger } from '../utils/logger.utils';
+
+const DEFAULT_POLL_MS = 2000;
+const DEFAULT_BATCH_SIZE = 10;
+
+/**
+ * Dispatches one batch of pending topup requests.
+ * @returns The number of requests claimed in this batch
+ */
+export async function processPendingTopups(
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<number> {
+  const summary = await TopupDispatchService.dispatchPending(batchSize);
+  if (summary.claimed > 0) {
+    logger.info('Topup dispatch batch finished', summary);
+  }
+  return summary.claimed;
+}
+
+async function run() {
+  logger.info('Starting topup dispatch worker...');
+
+  let running = true;
+  let currentBatch: Promise<number> | null = null;
+
+  const batchSize = parseInt(
+    process.env.TOPUP_DISPATCH_BATCH_SIZE || String(DEFAULT_BATCH_SIZE),
+    10
+  );
+  const pollMs = parseInt(
+    process.env.TOPUP_DISPATCH_POLL_MS || String(DEFAULT_POLL_MS),
+    10
+  );
+
+  process.on('SIGINT', async () => {
+    logger.info('Stopping topup dispatch worker... waiting for current batch.');
+    running = false;
+    if (currentBatch) {
+      await currentBatch;
+    }
+    process.exit(0);
+  });
+
+  while (running) {
+    let claimed = 0;
+    try {
+      currentBatch = processPendingTopups(batchSize);
+      claimed = await currentBatch;
+    } catch (err) {
+      logger.error('Topup dispatch loop error', err);
+    } finally {
+      currentBatch = null;
+    }
+
+    // A full batch means there is likely more work queued; go again at once
+    if (running && claimed < batchSize) {
+      await new Promise(resolve => setTimeout(resolve, pollMs));
+    }
+  }
+}
+
+if (require.main === module) {
+  run().catch(err => {
+    console.error('Topup dispatch worker failed', err);
+    process.exit(1);
+  });
+}
@@ -1,42 +1,104 @@
-async function run() {
-  logger.info('Starting worker runner (serial loop)...');
+import os from 'os';
+import { JobHandlerRegistry } from '../services/jobHandler.registry';
+import JobService from '../services/job.service';
+import { logger } from '../utils/logger.utils';
+import './jobHandlers';
+
+const DEFAULT_POLL_MS = 1000;
+const STALE_CHECK_MS = 60 * 1000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+const inFlight = new Map<string, number>();
+const running = new Set<Promise<void>>();
 
-  let running = true;
-  let currentJobPromise: Promise<any> | null = null;
+/**
+ * Claims jobs for every registered type that has a free slot and starts
+ * them. Each type runs at most `concurrency` jobs at once in this worker.
+ * @returns The number of jobs started
+ */
+export async function claimAndRunJobs(): Promise<number> {
+  let started = 0;
 
-  const DEFAULT_POLL_MS = 3000;
+  for (const { type, concurrency } of JobHandlerRegistry.list()) {
+    const free = concurrency - (inFlight.get(type) || 0);
+    if (free <= 0) continue;
 
-  // Graceful shutdown handler
-  process.on('SIGINT', async () => {
-    logger.info('Stopping worker runner... waiting for current job to finish.');
-    running = false;
-    // Wait for the in-flight job to complete before exiting
-    if (currentJobPromise) {
-      await currentJobPromise;
+    const jobs = await JobService.claim(type, free, workerId);
+    for (const job of jobs) {
+      inFlight.set(type, (inFlight.get(type) || 0) + 1);
+      const execution: Promise<void> = JobService.run(job, workerId)
+        .then(status => {
+          logger.info(`Job ${job.id} (${type}) finished as ${status}`);
+        })
+        .catch(err => logger.error(`Job ${job.id} (${type}) crashed`, err))
+        .finally(() => {
+          inFlight.set(type, (inFlight.get(type) || 1) - 1);
+          running.delete(execution);
+        });
+      running.add(execution);
     }
+    started += jobs.length;
+  }
+
+  return started;
+}
+
+async function run() {
+  logger.info(
+    `Starting job worker ${workerId} for: ${JobHandlerRegistry.list()
+      .map(h => h.type)
+      .join(', ')}`
+  );
+
+  let stopping = false;
+  let lastStaleCheck = 0;
+  const pollMs = parseInt(
+    process.env.JOB_POLL_MS || String(DEFAULT_POLL_MS),
+    10
+  );
+
+  const shutdown = async () => {
+    if (stopping) return;
+    logger.info('Stopping job worker... waiting for running jobs to finish.');
+    stopping = true;
+    await Promise.allSettled(Array.from(running));
     process.exit(0);
-  });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
-  while (running) {
+  while (!stopping) {
+    let started = 0;
     try {
-      currentJobPromise = processOneJob();
-      await currentJobPromise;
+      if (Date.now() - lastStaleCheck >= STALE_CHECK_MS) {
+        lastStaleCheck = Date.now();
+        const { requeued, deadLettered } = await JobService.requeueStale();
+        if (requeued > 0) {
+          logger.warn(
+            `Requeued ${requeued} job(s) left running by a lost worker`
+          );
+        }
+        if (deadLettered > 0) {
+          logger.error(
+            `Moved ${deadLettered} job(s) left running by a lost worker to dead-letter after their last attempt`
+          );
+        }
+      }
+      started = await claimAndRunJobs();
     } catch (err) {
-      logger.error('Worker loop error', err);
-    } finally {
-      currentJobPromise = null;
+      logger.error('Job worker loop error', err);
     }
 
-    if (running) {
-      // wait before next iteration to avoid tight loop
-      await new Promise(resolve => setTimeout(resolve, DEFAULT_POLL_MS));
+    // Work was found, so there is likely more queued; go again at once
+    if (!stopping && started === 0) {
+      await new Promise(resolve => setTimeout(resolve, pollMs));
     }
   }
 }
 
 if (require.main === module) {
   run().catch(err => {
-    console.error('Worker runner failed', err);
+    console.error('Job worker failed', err);
     process.exit(1);
   });
 }